@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { eq } from "drizzle-orm";
+import { sqliteWorkflowVersions } from "@vsync/db";
+import { createDesktopDatabase } from "../db-bootstrap.js";
+
+describe("createDesktopDatabase", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "vsync-desktop-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("adds the groups column to a database created before it existed", async () => {
+    /* workflow_versions as earlier releases created it */
+    const old = new Database(path.join(dataDir, "vsync.db"));
+    old.exec(`
+      CREATE TABLE workflows (id TEXT PRIMARY KEY, name TEXT NOT NULL);
+      CREATE TABLE workflow_versions (
+        workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        status TEXT DEFAULT 'draft',
+        trigger_type TEXT DEFAULT 'interactive',
+        trigger_config TEXT,
+        execution_environments TEXT DEFAULT '["cloud"]',
+        changelog TEXT,
+        created_at INTEGER,
+        updated_at INTEGER,
+        PRIMARY KEY (workflow_id, version)
+      );
+      INSERT INTO workflows (id, name) VALUES ('wf-1', 'Existing');
+      INSERT INTO workflow_versions (workflow_id, version) VALUES ('wf-1', 1);
+    `);
+    old.close();
+
+    createDesktopDatabase(dataDir);
+    /* Launching again finds the column already there */
+    const db = createDesktopDatabase(dataDir);
+
+    const rows = await db
+      .select()
+      .from(sqliteWorkflowVersions)
+      .where(eq(sqliteWorkflowVersions.workflowId, "wf-1"));
+    expect(rows).toHaveLength(1);
+    expect(rows[0].groups).toEqual([]);
+  });
+});
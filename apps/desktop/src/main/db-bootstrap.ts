@@ -7,8 +7,9 @@ import { createSQLiteClient, type SqliteDatabase } from "@vsync/db";
  * Initialises the desktop SQLite database.
  *
  * Creates the data directory if needed, opens (or creates) the DB file,
- * enables WAL + foreign keys, and runs the full DDL to ensure all tables
- * exist.  Returns the Drizzle client ready for repository use.
+ * enables WAL + foreign keys, runs the full DDL to ensure all tables
+ * exist, and adds columns that databases from older releases lack.
+ * Returns the Drizzle client ready for repository use.
  */
 export function createDesktopDatabase(dataDir: string): SqliteDatabase {
   /* Ensure data directory exists */
@@ -23,12 +24,31 @@ export function createDesktopDatabase(dataDir: string): SqliteDatabase {
   raw.pragma("foreign_keys = ON");
 
   raw.exec(SCHEMA_DDL);
+  addMissingColumns(raw);
   raw.close();
 
   /* Now create the typed Drizzle client */
   return createSQLiteClient(dbPath);
 }
 
+/**
+ * Columns added to a table after its first release. `CREATE TABLE IF
+ * NOT EXISTS` leaves an existing table as it is, so each one is added
+ * here when the table does not have it yet.
+ */
+const ADDED_COLUMNS: Array<{ table: string; column: string; definition: string }> = [
+  { table: "workflow_versions", column: "groups", definition: `"groups" TEXT DEFAULT '[]'` },
+];
+
+function addMissingColumns(raw: Database.Database): void {
+  for (const { table, column, definition } of ADDED_COLUMNS) {
+    const columns = raw.pragma(`table_info(${table})`) as Array<{ name: string }>;
+    if (!columns.some((c) => c.name === column)) {
+      raw.exec(`ALTER TABLE ${table} ADD COLUMN ${definition}`);
+    }
+  }
+}
+
 /* ── DDL ────────────────────────────────────────────────────────────── */
 
 const SCHEMA_DDL = `
@@ -118,6 +138,7 @@ CREATE TABLE IF NOT EXISTS workflow_versions (
   trigger_type TEXT DEFAULT 'interactive',
   trigger_config TEXT,
   execution_environments TEXT DEFAULT '["cloud"]',
+  "groups" TEXT DEFAULT '[]',
   changelog TEXT,
   created_at INTEGER,
   updated_at INTEGER,
@@ -12,8 +12,8 @@ import {
   SqliteArtifactRepository,
 } from "@vsync/db";
 import { createNodeInterpreter } from "@vsync/engine-adapters";
-import type { RunConfig } from "@vsync/engine";
-import type { Block } from "@vsync/shared-types";
+import type { RunConfig, InterpreterHooks } from "@vsync/engine";
+import type { Block, BlockGroup, Step } from "@vsync/shared-types";
 import crypto from "node:crypto";
 
 /** Hono env typing so `c.set("requestId", …)` compiles cleanly. */
@@ -80,6 +80,68 @@ export function startLocalServer(db: SqliteDatabase): Promise<LocalServerHandle>
 
     const interpreter = createNodeInterpreter();
 
+    /* ── Live run events ────────────────────────────────────── */
+
+    /* Assigned once the HTTP server is listening (see bottom) */
+    let wss: WebSocketServer | null = null;
+
+    /** Send an event envelope to every connected renderer socket */
+    const broadcast = (type: string, payload: Record<string, unknown>) => {
+      if (!wss) return;
+      const message = JSON.stringify({ type, payload, timestamp: new Date().toISOString() });
+      for (const client of wss.clients) {
+        if (client.readyState === 1) client.send(message);
+      }
+    };
+
+    /**
+     * Interpreter hooks that broadcast `run:step` events and persist
+     * stepsJson as each step finishes. Writes are chained so they land
+     * in order; `flush()` waits for the last one before the final update.
+     */
+    const createStepHooks = (runId: string): { hooks: InterpreterHooks; flush: () => Promise<void> } => {
+      const steps: Step[] = [];
+      let pending: Promise<void> = Promise.resolve();
+
+      const emit = (step: Step) =>
+        broadcast("run:step", {
+          runId,
+          stepId: step.stepId,
+          blockId: step.blockId,
+          status: step.status,
+          stepIndex: step.executionOrder,
+          blockType: step.blockType,
+          blockName: step.blockName,
+          error: step.error?.message,
+        });
+
+      const persist = () => {
+        const snapshot = steps.map((s) => ({ ...s }));
+        pending = pending
+          .then(() => runRepo.updateSteps(runId, snapshot))
+          .catch(() => {});
+      };
+
+      return {
+        hooks: {
+          onStepStart: (step) => {
+            steps.push(step);
+            emit(step);
+          },
+          onStepComplete: (step) => {
+            emit(step);
+            persist();
+          },
+          onStepFailed: (step) => {
+            emit(step);
+            persist();
+          },
+          onRunPaused: (step) => broadcast("run:awaiting_action", { runId, blockId: step.blockId }),
+        },
+        flush: () => pending,
+      };
+    };
+
     /* ── Routes ─────────────────────────────────────────────── */
 
     const v1 = new Hono();
@@ -187,6 +249,7 @@ export function startLocalServer(db: SqliteDatabase): Promise<LocalServerHandle>
       // TODO: Add retry logic for failed workflow executions instead of fire-and-forget — the async IIFE swallows errors silently.
       /* Fire-and-forget execution — the run status is updated asynchronously */
       void (async () => {
+        const live = createStepHooks(run.id);
         try {
           const runConfig: RunConfig = {
             runId: run.id,
@@ -210,15 +273,19 @@ export function startLocalServer(db: SqliteDatabase): Promise<LocalServerHandle>
                 order: b.order,
                 notes: b.notes ?? undefined,
               })),
-              groups: [],
+              groups: Array.isArray(activeVersion.version.groups)
+                ? (activeVersion.version.groups as BlockGroup[])
+                : [],
               changelog: "",
               createdAt: String(activeVersion.version.createdAt ?? new Date().toISOString()),
               updatedAt: String(activeVersion.version.updatedAt ?? new Date().toISOString()),
             },
             event: {},
+            hooks: live.hooks,
           };
 
           const result = await interpreter.executeRun(runConfig);
+          await live.flush();
           await runRepo.updateStatus(run.id, result.status === "completed" ? "completed" : "failed", {
             completedAt: new Date(),
             durationMs: result.durationMs,
@@ -265,7 +332,8 @@ export function startLocalServer(db: SqliteDatabase): Promise<LocalServerHandle>
       console.log(`[desktop-api] Local API running on http://localhost:${info.port}`);
 
       /* WebSocket upgrade handler (mirrors cloud API server) */
-      const wss = new WebSocketServer({ noServer: true });
+      const socketServer = new WebSocketServer({ noServer: true });
+      wss = socketServer;
 
       server.on("upgrade", (request: IncomingMessage, socket, head) => {
         const url = new URL(request.url ?? "/", `http://localhost:${info.port}`);
@@ -274,7 +342,7 @@ export function startLocalServer(db: SqliteDatabase): Promise<LocalServerHandle>
           return;
         }
 
-        wss.handleUpgrade(request, socket, head, (ws) => {
+        socketServer.handleUpgrade(request, socket, head, (ws) => {
           ws.send(
             JSON.stringify({
               type: "connected",
@@ -286,7 +354,7 @@ export function startLocalServer(db: SqliteDatabase): Promise<LocalServerHandle>
       });
 
       const shutdown = () => {
-        wss.close();
+        socketServer.close();
         server.close();
       };
 
@@ -11,7 +11,7 @@ import {
 import { useLocalSearchParams, router } from "expo-router";
 import { api } from "../../../src/services/api";
 import { mapBlockLogicToUIConfig } from "@vsync/shared-types";
-import type { Block, Step, UIBlockConfig } from "@vsync/shared-types";
+import type { Block, BlockGroup, Step, UIBlockConfig } from "@vsync/shared-types";
 import {
   getExecutionStrategy,
   executeLocally,
@@ -23,7 +23,7 @@ import { TableRenderer } from "../../../src/components/TableRenderer";
 import { DetailsRenderer } from "../../../src/components/DetailsRenderer";
 
 interface ActiveVersionData {
-  version: { version: number; status: string };
+  version: { version: number; status: string; groups?: BlockGroup[] | null };
   blocks: Block[];
 }
 
@@ -35,6 +35,7 @@ export default function WorkflowRunScreen() {
   const [loading, setLoading] = useState(true);
   const [blocks, setBlocks] = useState<Block[]>([]);
   const [versionNum, setVersionNum] = useState(1);
+  const [groups, setGroups] = useState<BlockGroup[]>([]);
   const [running, setRunning] = useState(false);
   const [steps, setSteps] = useState<Step[]>([]);
   const [currentBlockIdx, setCurrentBlockIdx] = useState(0);
@@ -49,6 +50,7 @@ export default function WorkflowRunScreen() {
       if (res.data) {
         setBlocks(res.data.blocks);
         setVersionNum(res.data.version.version);
+        setGroups(res.data.version.groups ?? []);
       } else {
         setError(res.error?.message ?? "Failed to load workflow");
       }
@@ -71,6 +73,7 @@ export default function WorkflowRunScreen() {
           workflowId: id!,
           version: versionNum,
           blocks,
+          groups,
         });
 
         /* Update progress from the returned steps */
@@ -116,7 +119,7 @@ export default function WorkflowRunScreen() {
     }
 
     setRunning(false);
-  }, [blocks, id, versionNum]);
+  }, [blocks, groups, id, versionNum]);
 
   /** Handle user response from a UI block (form submit, camera capture). */
   const handleUiResponse = useCallback(
@@ -2,6 +2,7 @@ import { createMobileInterpreter } from "@vsync/engine-adapters";
 import type { Interpreter, RunConfig, RunResult } from "@vsync/engine";
 import type {
   Block,
+  BlockGroup,
   Step,
   WorkflowVersion,
   WorkflowContext,
@@ -34,6 +35,10 @@ const MOBILE_SUPPORTED_TYPES = new Set([
   "fetch",
   "agent",
   "goto",
+  "loop",
+  "break",
+  "continue",
+  "switch",
   "sleep",
   "code",
   /* platform blocks */
@@ -85,6 +90,9 @@ export interface LocalRunOptions {
   /** Blocks from the active version */
   blocks: Block[];
 
+  /** Error-handling groups from the active version */
+  groups?: BlockGroup[];
+
   /** Trigger type — defaults to "interactive" */
   triggerType?: TriggerType;
 
@@ -103,7 +111,7 @@ export interface LocalRunOptions {
 
 /**
  * Build a minimal WorkflowVersion from the available data.
- * The engine only needs blocks, workflowId, version, and triggerType.
+ * The engine only needs blocks, groups, workflowId, version, and triggerType.
  */
 function buildWorkflowVersion(options: LocalRunOptions): WorkflowVersion {
   return {
@@ -114,7 +122,7 @@ function buildWorkflowVersion(options: LocalRunOptions): WorkflowVersion {
     triggerConfig: {},
     executionEnvironments: ["mobile"],
     blocks: options.blocks,
-    groups: [],
+    groups: options.groups ?? [],
     changelog: "",
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
@@ -101,6 +101,17 @@ function stepDuration(step: Step): string {
   return `${ms}ms`;
 }
 
+/** Number deferred goto iterations 1..n in the order their first step appears */
+function iterationNumbers(steps: Step[]): Map<string, number> {
+  const numbers = new Map<string, number>();
+  for (const step of steps) {
+    if (step.deferIterationId && !numbers.has(step.deferIterationId)) {
+      numbers.set(step.deferIterationId, numbers.size + 1);
+    }
+  }
+  return numbers;
+}
+
 function StepDetail({ step }: { step: Step }) {
   return (
     <div className="space-y-4 rounded-lg border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-4">
@@ -135,6 +146,39 @@ function StepDetail({ step }: { step: Step }) {
         </div>
       )}
 
+      {/* Attempts (blocks with a retry or timeout policy) */}
+      {step.attempts && step.attempts.length > 0 && (
+        <div>
+          <p className="mb-1 text-xs font-medium uppercase text-[hsl(var(--muted-foreground))]">
+            Attempts ({step.attempts.length})
+          </p>
+          <ul className="space-y-1 text-xs">
+            {step.attempts.map((attempt) => (
+              <li key={attempt.attempt} className="flex items-center gap-2">
+                <span className="font-medium text-[hsl(var(--foreground))]">
+                  #{attempt.attempt}
+                </span>
+                <span
+                  className={
+                    attempt.status === "completed" ? "text-green-600" : "text-red-600"
+                  }
+                >
+                  {attempt.timedOut ? "Timed out" : attempt.status === "completed" ? "Succeeded" : "Failed"}
+                </span>
+                <span className="text-[hsl(var(--muted-foreground))]">
+                  {new Date(attempt.endedAt).getTime() - new Date(attempt.startedAt).getTime()}ms
+                </span>
+                {attempt.error && !attempt.timedOut && (
+                  <span className="truncate text-[hsl(var(--muted-foreground))]">
+                    {attempt.error}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Error details */}
       {step.error && (
         <div className="rounded-md border border-red-200 bg-red-50 p-3">
@@ -168,6 +212,7 @@ export default function RunDetailPage() {
   const [expandedStep, setExpandedStep] = useState<string | null>(null);
 
   const steps: Step[] = (run as { steps?: Step[] } | undefined)?.steps ?? [];
+  const iterations = iterationNumbers(steps);
 
   const runCfg = statusConfig[run?.status ?? "pending"] ?? statusConfig.pending;
   const RunStatusIcon = runCfg.icon;
@@ -294,9 +339,15 @@ export default function RunDetailPage() {
           const StepIcon = cfg.icon;
           const isExpanded = expandedStep === step.stepId;
           const isLast = i === steps.length - 1;
+          const iteration = step.deferIterationId
+            ? iterations.get(step.deferIterationId)
+            : undefined;
 
           return (
-            <div key={step.stepId} className="relative flex gap-4">
+            <div
+              key={step.stepId}
+              className={`relative flex gap-4 ${iteration ? "ml-6" : ""}`}
+            >
               {/* Timeline line */}
               {!isLast && (
                 <div className="absolute left-[15px] top-10 bottom-0 w-px bg-[hsl(var(--border))]" />
@@ -330,6 +381,8 @@ export default function RunDetailPage() {
                       {stepDuration(step) !== "—" ? stepDuration(step) : "Pending"}
                       {" • "}
                       {cfg.label}
+                      {iteration && ` • Iteration ${iteration}`}
+                      {step.attempts && step.attempts.length > 1 && ` • ${step.attempts.length} attempts`}
                     </p>
                   </div>
                   {isExpanded ? (
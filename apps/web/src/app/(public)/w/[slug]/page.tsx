@@ -14,6 +14,7 @@ import {
   ArrowLeft,
   ExternalLink,
 } from "lucide-react";
+import type { JsonSchema } from "@vsync/shared-types";
 import { api } from "@/lib/api";
 
 /* ── Types ───────────────────────────────────────────────── */
@@ -34,6 +35,8 @@ interface PublicWorkflowConfig {
   blockCount: number;
   blocks: Array<{ id: string; name: string; type: string; order: number }>;
   environments: unknown;
+  inputSchema: JsonSchema | null;
+  outputSchema: JsonSchema | null;
 }
 
 interface PublicRunStatus {
@@ -57,6 +60,34 @@ const statusConfig: Record<string, { icon: React.ElementType; color: string; lab
   awaiting_action: { icon: Clock, color: "text-orange-500", label: "Awaiting Input" },
 };
 
+/* ── Input form helpers ──────────────────────────────────── */
+
+/** Initial form values from the input schema's defaults */
+function initialInput(schema: JsonSchema | null): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [name, field] of Object.entries(schema?.properties ?? {})) {
+    if (field.default === undefined) continue;
+    values[name] = typeof field.default === "string" ? field.default : JSON.stringify(field.default);
+  }
+  return values;
+}
+
+/** Convert form strings to the types the input schema declares */
+function buildEventData(schema: JsonSchema | null, values: Record<string, string>): Record<string, unknown> {
+  const eventData: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(schema?.properties ?? {})) {
+    const raw = values[name];
+    if (raw === undefined || raw === "") continue;
+
+    const type = Array.isArray(field.type) ? field.type[0] : field.type;
+    if (type === "number" || type === "integer") eventData[name] = Number(raw);
+    else if (type === "boolean") eventData[name] = raw === "true";
+    else if (type === "object" || type === "array") eventData[name] = JSON.parse(raw);
+    else eventData[name] = raw;
+  }
+  return eventData;
+}
+
 /* ── Page Component ──────────────────────────────────────── */
 
 export default function PublicWorkflowPage() {
@@ -73,6 +104,9 @@ export default function PublicWorkflowPage() {
   const [triggering, setTriggering] = useState(false);
   const [polling, setPolling] = useState(false);
 
+  /* Trigger input generated from the input schema */
+  const [inputValues, setInputValues] = useState<Record<string, string>>({});
+
   /* Action state (for interactive workflows) */
   const [actionPayload, setActionPayload] = useState<string>("{}");
 
@@ -82,7 +116,10 @@ export default function PublicWorkflowPage() {
     setLoading(true);
     api.publicWorkflows
       .getConfig(slug)
-      .then((res) => setConfig(res.data))
+      .then((res) => {
+        setConfig(res.data);
+        setInputValues(initialInput(res.data.inputSchema));
+      })
       .catch((e) => setError(e instanceof Error ? e.message : "Failed to load workflow"))
       .finally(() => setLoading(false));
   }, [slug]);
@@ -118,7 +155,8 @@ export default function PublicWorkflowPage() {
     setTriggering(true);
     setError(null);
     try {
-      const res = await api.publicWorkflows.triggerRun(slug);
+      const eventData = buildEventData(config?.inputSchema ?? null, inputValues);
+      const res = await api.publicWorkflows.triggerRun(slug, eventData);
       setRunId(res.data.runId);
       setRunStatus({ id: res.data.runId, status: "pending", startedAt: null, completedAt: null, durationMs: null, errorMessage: null, stepsJson: null });
       setPolling(true);
@@ -127,7 +165,7 @@ export default function PublicWorkflowPage() {
     } finally {
       setTriggering(false);
     }
-  }, [slug]);
+  }, [slug, config, inputValues]);
 
   /* Submit user action */
   const handleSubmitAction = useCallback(async () => {
@@ -231,6 +269,64 @@ export default function PublicWorkflowPage() {
             Click below to execute this workflow. No account required.
           </p>
 
+          {!runId && config.inputSchema?.properties && (
+            <div className="mt-4 space-y-3">
+              {Object.entries(config.inputSchema.properties).map(([name, field]) => {
+                const type = Array.isArray(field.type) ? field.type[0] : field.type;
+                const required = config.inputSchema?.required?.includes(name) ?? false;
+                const value = inputValues[name] ?? "";
+                const setValue = (next: string) => setInputValues((prev) => ({ ...prev, [name]: next }));
+                const inputClass =
+                  "w-full rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--background))] p-2 text-xs text-[hsl(var(--foreground))]";
+
+                return (
+                  <div key={name} className="space-y-1">
+                    <label className="text-xs font-medium text-[hsl(var(--foreground))]">
+                      {field.title ?? name}
+                      {required && <span className="text-red-500"> *</span>}
+                    </label>
+                    {field.enum ? (
+                      <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClass}>
+                        <option value="" />
+                        {field.enum.map((option) => (
+                          <option key={String(option)} value={String(option)}>
+                            {String(option)}
+                          </option>
+                        ))}
+                      </select>
+                    ) : type === "boolean" ? (
+                      <input
+                        type="checkbox"
+                        checked={value === "true"}
+                        onChange={(e) => setValue(String(e.target.checked))}
+                        className="block"
+                      />
+                    ) : type === "object" || type === "array" ? (
+                      <textarea
+                        value={value}
+                        onChange={(e) => setValue(e.target.value)}
+                        className={`${inputClass} font-mono`}
+                        rows={3}
+                        placeholder={type === "array" ? "[]" : "{}"}
+                      />
+                    ) : (
+                      <input
+                        type={type === "number" || type === "integer" ? "number" : field.format === "email" ? "email" : field.format === "date" ? "date" : "text"}
+                        value={value}
+                        required={required}
+                        onChange={(e) => setValue(e.target.value)}
+                        className={inputClass}
+                      />
+                    )}
+                    {field.description && (
+                      <p className="text-xs text-[hsl(var(--muted-foreground))]">{field.description}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {!runId && (
             <button
               onClick={handleTrigger}
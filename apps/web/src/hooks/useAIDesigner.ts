@@ -209,6 +209,8 @@ export function useAIDesigner(options: UseAIDesignerOptions): UseAIDesignerRetur
               })),
               triggerType: (store.workflow?.triggerType ?? "interactive") as import("@vsync/shared-types").TriggerType,
               triggerConfig: (store.workflow?.triggerConfig ?? {}) as import("@vsync/shared-types").TriggerConfig,
+              inputSchema: (store.workflow?.inputSchema ?? null) as import("@vsync/shared-types").JsonSchema | null,
+              outputSchema: (store.workflow?.outputSchema ?? null) as import("@vsync/shared-types").JsonSchema | null,
             }
           : undefined;
 
@@ -9,6 +9,7 @@ import type {
   Organization,
   User,
   PaginationParams,
+  JsonSchema,
 } from "@vsync/shared-types";
 
 /* ── Configuration ───────────────────────────────────────────── */
@@ -438,6 +439,8 @@ export function createApiClient(baseUrl: string, sessionToken?: string) {
           blockCount: number;
           blocks: Array<{ id: string; name: string; type: string; order: number }>;
           environments: unknown;
+          inputSchema: JsonSchema | null;
+          outputSchema: JsonSchema | null;
         }>(`/api/v1/public/${slug}`);
       },
       /** Trigger a public run (no auth needed) */
@@ -175,6 +175,7 @@ beforeAll(async () => {
       public_access_mode TEXT DEFAULT 'view',
       public_branding JSONB,
       public_rate_limit JSONB,
+      hook_token TEXT UNIQUE,
       created_by UUID REFERENCES users(id),
       updated_by UUID,
       created_at TIMESTAMP DEFAULT now(),
@@ -189,6 +190,10 @@ beforeAll(async () => {
       status TEXT DEFAULT 'draft',
       trigger_type TEXT DEFAULT 'interactive',
       trigger_config JSONB,
+      output_keys JSONB,
+      input_schema JSONB,
+      output_schema JSONB,
+      groups JSONB DEFAULT '[]',
       execution_environments JSONB DEFAULT '["cloud"]',
       changelog TEXT,
       created_at TIMESTAMP DEFAULT now(),
@@ -197,6 +202,37 @@ beforeAll(async () => {
     )
   `);
 
+  await db.execute(sql`
+    CREATE TABLE workflow_schedules (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL UNIQUE REFERENCES workflows(id) ON DELETE CASCADE,
+      org_id UUID NOT NULL,
+      version INT NOT NULL,
+      cron TEXT NOT NULL,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      missed_policy TEXT NOT NULL DEFAULT 'skip',
+      next_fire_at TIMESTAMP,
+      last_fired_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now()
+    )
+  `);
+  await db.execute(sql`
+    CREATE TABLE hook_deliveries (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      org_id UUID NOT NULL,
+      run_id TEXT,
+      status TEXT NOT NULL,
+      response_status INT,
+      error TEXT,
+      method TEXT NOT NULL,
+      headers JSONB,
+      query JSONB,
+      body JSONB,
+      received_at TIMESTAMP DEFAULT now()
+    )
+  `);
   await db.execute(sql`
     CREATE TABLE blocks (
       id TEXT PRIMARY KEY,
@@ -213,6 +249,36 @@ beforeAll(async () => {
     )
   `);
 
+  await db.execute(sql`
+    CREATE TABLE key_references (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL,
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      workflow_version INT NOT NULL,
+      block_id TEXT NOT NULL,
+      key_name TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT now()
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE workflow_tests (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      workflow_version INT NOT NULL,
+      name TEXT NOT NULL,
+      event JSONB NOT NULL DEFAULT '{}',
+      mocks JSONB NOT NULL DEFAULT '{}',
+      stub JSONB,
+      expected_status TEXT NOT NULL DEFAULT 'completed',
+      expected_state JSONB NOT NULL DEFAULT '{}',
+      expected_steps JSONB NOT NULL DEFAULT '{}',
+      created_by UUID REFERENCES users(id),
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now(),
+      UNIQUE (workflow_id, workflow_version, name)
+    )
+  `);
   await db.execute(sql`
     CREATE TABLE runs (
       id TEXT PRIMARY KEY,
@@ -222,12 +288,21 @@ beforeAll(async () => {
       status TEXT DEFAULT 'pending',
       trigger_type TEXT,
       trigger_source TEXT,
+      priority INT NOT NULL DEFAULT 0,
+      claimed_by TEXT,
+      heartbeat_at TIMESTAMP,
       started_at TIMESTAMP,
       completed_at TIMESTAMP,
       duration_ms INT,
       error_message TEXT,
       steps_json JSONB,
+      checkpoint JSONB,
+      output JSONB,
       metadata JSONB,
+      parent_run_id TEXT,
+      parent_block_id TEXT,
+      call_depth INT NOT NULL DEFAULT 0,
+      debug JSONB,
       created_at TIMESTAMP DEFAULT now()
     )
   `);
@@ -461,6 +536,45 @@ describe("Versions", () => {
     const json = await res.json() as { data: { activeVersion: number } };
     expect(json.data.activeVersion).toBe(1);
   });
+
+  it("refuses to publish a version with lint errors", async () => {
+    const app = getApp();
+    await new WorkflowRepository(db).createVersion({ workflowId, version: 2, triggerType: "api" }, [
+      { id: `${workflowId}-b1`, workflowId, workflowVersion: 2, name: "Jump", type: "goto", logic: { goto_target: "Nowhere" }, order: 0 },
+      { id: `${workflowId}-b2`, workflowId, workflowVersion: 2, name: "Save", type: "filesystem", logic: {}, order: 1 },
+    ]);
+
+    const lint = await app.request(`/workflows/${workflowId}/versions/2/lint`);
+    expect(lint.status).toBe(200);
+    const lintJson = await lint.json() as { data: { rule: string; blockId: string | null }[] };
+    expect(lintJson.data.map((d) => [d.rule, d.blockId])).toEqual([
+      ["unknown-target", `${workflowId}-b1`],
+      ["unsupported-block", `${workflowId}-b2`],
+    ]);
+
+    const res = await request(app, "POST", `/workflows/${workflowId}/versions/2/publish`);
+    expect(res.status).toBe(422);
+    const json = await res.json() as { error: { code: string; message: string; details: unknown[] } };
+    expect(json.error.code).toBe("LINT_FAILED");
+    expect(json.error.message).toContain('goto_target of "Jump" references unknown block "Nowhere"');
+    expect(json.error.details).toHaveLength(2);
+
+    const workflow = await new WorkflowRepository(db).findById(workflowId);
+    expect(workflow?.activeVersion).toBe(1);
+  });
+
+  it("publishes with warnings and returns them in meta", async () => {
+    const app = getApp();
+    await new WorkflowRepository(db).createVersion({ workflowId, version: 3 }, [
+      { id: `${workflowId}-b3`, workflowId, workflowVersion: 3, name: "Greet", type: "string", logic: { string_input: "$state.name" }, order: 0 },
+    ]);
+
+    const res = await request(app, "POST", `/workflows/${workflowId}/versions/3/publish`);
+    expect(res.status).toBe(200);
+    const json = await res.json() as { data: { activeVersion: number }; meta: { diagnostics: { rule: string }[] } };
+    expect(json.data.activeVersion).toBe(3);
+    expect(json.meta.diagnostics.map((d) => d.rule)).toEqual(["state-read-before-write"]);
+  });
 });
 
 /* ── Blocks ──────────────────────────────────────────────────────── */
@@ -579,6 +693,15 @@ describe("Runs", () => {
     expect(json.data.id).toBe(runId);
   });
 
+  it("POST /runs/:id/cancel does not cancel another org's run", async () => {
+    const outsider = createTestApp(createTestAuth({ ...getAuthCtx(), orgId: crypto.randomUUID() }), db);
+    const res = await request(outsider, "POST", `/runs/${runId}/cancel`);
+    expect(res.status).toBe(404);
+
+    const json = await (await getApp().request(`/runs/${runId}`)).json() as { data: { status: string } };
+    expect(json.data.status).toBe("pending");
+  });
+
   it("POST /runs/:id/cancel cancels a pending run", async () => {
     const app = getApp();
     const res = await request(app, "POST", `/runs/${runId}/cancel`);
@@ -897,6 +1020,37 @@ describe("WS Handlers", () => {
     expect(ws.messages).toHaveLength(0);
   });
 
+  it("answers debug commands it cannot route with debug:error", () => {
+    const mgr = new WSManager();
+    const anonymous = createFakeWS();
+    const member = createFakeWS();
+    mgr.register(anonymous, { userId: null, orgId: null, channels: new Set() });
+    mgr.register(member, { userId: "u1", orgId: "o1", role: "member", channels: new Set() });
+
+    const command = JSON.stringify({ type: "debug", runId: "r1", command: "step" });
+    handleMessage(mgr, anonymous, command);
+    handleMessage(mgr, member, command);
+
+    expect(JSON.parse(anonymous.messages[0])).toMatchObject({
+      type: "debug:error", runId: "r1", error: "Debug commands need an organization",
+    });
+    expect(JSON.parse(member.messages[0])).toMatchObject({
+      type: "debug:error", error: "Run execution is not available",
+    });
+  });
+
+  it("refuses debug commands from viewers", () => {
+    const mgr = new WSManager();
+    const viewer = createFakeWS();
+    mgr.register(viewer, { userId: "u1", orgId: "o1", role: "viewer", channels: new Set() });
+
+    handleMessage(mgr, viewer, JSON.stringify({ type: "debug", runId: "r1", command: "edit_state", state: { x: 1 } }));
+
+    expect(JSON.parse(viewer.messages[0])).toMatchObject({
+      type: "debug:error", runId: "r1", error: "Debug commands need permission to edit workflows",
+    });
+  });
+
   it("handleDisconnect cleans up the client", () => {
     const mgr = new WSManager();
     const ws = createFakeWS();
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { CronError, fireTimesBetween, nextFireTime, parseCron } from "../lib/cron.js";
+
+const next = (expression: string, after: string, timeZone?: string) =>
+  nextFireTime(parseCron(expression), new Date(after), timeZone)?.toISOString();
+
+/* ── Parsing ──────────────────────────────────────────────────── */
+
+describe("parseCron", () => {
+  it("expands lists, ranges and steps", () => {
+    const schedule = parseCron("0,30 9-17/4 */10 * *");
+
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 11, 21, 31]);
+    expect(schedule.months.size).toBe(12);
+  });
+
+  it("accepts month and day names, with 7 as Sunday", () => {
+    const schedule = parseCron("0 0 * jan,Dec SUN,7,mon-wed");
+
+    expect([...schedule.months]).toEqual([1, 12]);
+    expect([...schedule.daysOfWeek].sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  it("expands macros", () => {
+    expect(next("@daily", "2026-03-10T15:00:00Z")).toBe("2026-03-11T00:00:00.000Z");
+    expect(next("@hourly", "2026-03-10T15:00:00Z")).toBe("2026-03-10T16:00:00.000Z");
+  });
+
+  it.each([
+    ["* * * *", /5 fields/],
+    ["60 * * * *", /minute/],
+    ["* 24 * * *", /hour/],
+    ["* * 0 * *", /day of month/],
+    ["* * * 13 *", /month/],
+    ["* * * * FUNDAY", /day of week/],
+    ["*/0 * * * *", /step/],
+    ["5-1 * * * *", /range/],
+  ])("rejects %s", (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(CronError);
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+/* ── Next fire time ───────────────────────────────────────────── */
+
+describe("nextFireTime", () => {
+  it("fires strictly after the given instant", () => {
+    expect(next("*/15 * * * *", "2026-03-10T15:00:00Z")).toBe("2026-03-10T15:15:00.000Z");
+    expect(next("*/15 * * * *", "2026-03-10T15:14:59Z")).toBe("2026-03-10T15:15:00.000Z");
+  });
+
+  it("matches either day field when both are restricted", () => {
+    /* 2026-03-13 is a Friday, before the 15th */
+    expect(next("0 12 15 * FRI", "2026-03-12T00:00:00Z")).toBe("2026-03-13T12:00:00.000Z");
+    expect(next("0 12 15 * FRI", "2026-03-13T13:00:00Z")).toBe("2026-03-15T12:00:00.000Z");
+  });
+
+  it("evaluates the expression on the timezone's wall clock", () => {
+    expect(next("0 9 * * MON", "2026-03-10T00:00:00Z", "America/New_York")).toBe(
+      "2026-03-16T13:00:00.000Z",
+    );
+    expect(next("0 9 * * *", "2026-01-10T00:00:00Z", "Asia/Kolkata")).toBe(
+      "2026-01-10T03:30:00.000Z",
+    );
+  });
+
+  it("follows DST changes", () => {
+    /* New York springs forward on 2026-03-08: 09:00 moves from 14:00Z to 13:00Z */
+    const times = fireTimesBetween(
+      parseCron("0 9 * * *"),
+      new Date("2026-03-06T00:00:00Z"),
+      new Date("2026-03-10T00:00:00Z"),
+      "America/New_York",
+    ).map((d) => d.toISOString());
+
+    expect(times).toEqual([
+      "2026-03-06T14:00:00.000Z",
+      "2026-03-07T14:00:00.000Z",
+      "2026-03-08T13:00:00.000Z",
+      "2026-03-09T13:00:00.000Z",
+    ]);
+  });
+
+  it("never fires at a local time skipped by DST", () => {
+    expect(next("30 2 8 3 *", "2026-03-01T00:00:00Z", "America/New_York")).toBe(
+      "2027-03-08T07:30:00.000Z",
+    );
+  });
+
+  it("reaches midnight on the day after a spring-forward change", () => {
+    expect(next("0 0 9 3 *", "2026-03-08T06:30:00Z", "America/New_York")).toBe(
+      "2026-03-09T04:00:00.000Z",
+    );
+  });
+
+  it("returns null for a schedule that can never fire", () => {
+    expect(next("0 0 30 2 *", "2026-01-01T00:00:00Z")).toBeUndefined();
+  });
+
+  it("rejects unknown timezones", () => {
+    expect(() => next("* * * * *", "2026-01-01T00:00:00Z", "Mars/Olympus")).toThrow(CronError);
+  });
+});
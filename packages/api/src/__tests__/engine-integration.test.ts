@@ -2,29 +2,44 @@ import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
 import { Hono } from "hono";
 import { PGlite } from "@electric-sql/pglite";
 import { drizzle } from "drizzle-orm/pglite";
-import { sql } from "drizzle-orm";
+import { eq, sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
+import { createServer } from "node:http";
+import { createCipheriv, createHash, randomBytes, randomUUID } from "node:crypto";
+import type { AddressInfo } from "node:net";
 import * as dbExports from "@vsync/db";
 import {
   WorkflowRepository,
   RunRepository,
   UserRepository,
   OrgRepository,
+  ScheduleRepository,
 } from "@vsync/db";
 import type { Database } from "@vsync/db";
-import { Interpreter } from "@vsync/engine";
-import type { BlockHandler } from "@vsync/engine";
+import { Interpreter, workflowExecutor } from "@vsync/engine";
+import { CloudKeyStore, generateEncryptionKey } from "@vsync/key-manager";
+import { HOOK_MAX_BODY_BYTES } from "@vsync/config";
+import type { BlockHandler, RunCheckpoint } from "@vsync/engine";
+import type { Step } from "@vsync/shared-types";
 
 import { runRoutes } from "../routes/runs.js";
 import { workflowRoutes } from "../routes/workflows.js";
 import { versionRoutes } from "../routes/versions.js";
+import { workflowTestRoutes } from "../routes/tests.js";
 import { blockRoutes } from "../routes/blocks.js";
+import { hookRoutes } from "../routes/hooks.js";
+import { keyRoutes } from "../routes/keys.js";
+import { signHookPayload } from "../lib/hook-signature.js";
 import { errorHandler } from "../middleware/error-handler.js";
 import type { AppEnv } from "../lib/types.js";
 import type { AuthContext } from "@vsync/auth";
 import { WSManager } from "../ws/manager.js";
 import type { WSLike } from "../ws/manager.js";
+import { handleMessage } from "../ws/handlers.js";
 import { WorkflowExecutionService } from "../services/WorkflowExecutionService.js";
+import { ScheduleService } from "../services/ScheduleService.js";
+import { KeyHealthService } from "../services/KeyHealthService.js";
+import { KeyUsageService } from "../services/KeyUsageService.js";
 
 /**
  * Engine ↔ API integration tests.
@@ -40,6 +55,9 @@ let db: Database;
 let testUserId: string;
 let testOrgId: string;
 
+/* Each org has one data key, so every key store in this file shares a master key */
+const keyMasterKey = generateEncryptionKey();
+
 /* ── Auth stub ──────────────────────────────────────────────── */
 
 function createTestAuth(authCtx: AuthContext) {
@@ -73,9 +91,11 @@ function createEngineTestApp(
   app.onError(errorHandler);
 
   app.route("/workflows", workflowRoutes(auth, database));
-  app.route("/workflows", versionRoutes(auth, database));
+  app.route("/workflows", versionRoutes(auth, database, executionService));
+  app.route("/workflows", workflowTestRoutes(auth, database, executionService));
   app.route("/", blockRoutes(auth, database));
   app.route("/", runRoutes(auth, database, wsManager, executionService));
+  app.route("/", hookRoutes(auth, database, executionService));
 
   return app;
 }
@@ -170,6 +190,7 @@ beforeAll(async () => {
       public_access_mode TEXT DEFAULT 'view',
       public_branding JSONB,
       public_rate_limit JSONB,
+      hook_token TEXT UNIQUE,
       created_by UUID REFERENCES users(id),
       updated_by UUID,
       created_at TIMESTAMP DEFAULT now(),
@@ -184,6 +205,10 @@ beforeAll(async () => {
       status TEXT DEFAULT 'draft',
       trigger_type TEXT DEFAULT 'interactive',
       trigger_config JSONB,
+      output_keys JSONB,
+      input_schema JSONB,
+      output_schema JSONB,
+      groups JSONB DEFAULT '[]',
       execution_environments JSONB DEFAULT '["cloud"]',
       changelog TEXT,
       created_at TIMESTAMP DEFAULT now(),
@@ -192,6 +217,37 @@ beforeAll(async () => {
     )
   `);
 
+  await db.execute(sql`
+    CREATE TABLE workflow_schedules (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL UNIQUE REFERENCES workflows(id) ON DELETE CASCADE,
+      org_id UUID NOT NULL,
+      version INT NOT NULL,
+      cron TEXT NOT NULL,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      missed_policy TEXT NOT NULL DEFAULT 'skip',
+      next_fire_at TIMESTAMP,
+      last_fired_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now()
+    )
+  `);
+  await db.execute(sql`
+    CREATE TABLE hook_deliveries (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      org_id UUID NOT NULL,
+      run_id TEXT,
+      status TEXT NOT NULL,
+      response_status INT,
+      error TEXT,
+      method TEXT NOT NULL,
+      headers JSONB,
+      query JSONB,
+      body JSONB,
+      received_at TIMESTAMP DEFAULT now()
+    )
+  `);
   await db.execute(sql`
     CREATE TABLE blocks (
       id TEXT PRIMARY KEY,
@@ -208,6 +264,24 @@ beforeAll(async () => {
     )
   `);
 
+  await db.execute(sql`
+    CREATE TABLE workflow_tests (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      workflow_version INT NOT NULL,
+      name TEXT NOT NULL,
+      event JSONB NOT NULL DEFAULT '{}',
+      mocks JSONB NOT NULL DEFAULT '{}',
+      stub JSONB,
+      expected_status TEXT NOT NULL DEFAULT 'completed',
+      expected_state JSONB NOT NULL DEFAULT '{}',
+      expected_steps JSONB NOT NULL DEFAULT '{}',
+      created_by UUID REFERENCES users(id),
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now(),
+      UNIQUE (workflow_id, workflow_version, name)
+    )
+  `);
   await db.execute(sql`
     CREATE TABLE runs (
       id TEXT PRIMARY KEY,
@@ -217,12 +291,21 @@ beforeAll(async () => {
       status TEXT DEFAULT 'pending',
       trigger_type TEXT,
       trigger_source TEXT,
+      priority INT NOT NULL DEFAULT 0,
+      claimed_by TEXT,
+      heartbeat_at TIMESTAMP,
       started_at TIMESTAMP,
       completed_at TIMESTAMP,
       duration_ms INT,
       error_message TEXT,
       steps_json JSONB,
+      checkpoint JSONB,
+      output JSONB,
       metadata JSONB,
+      parent_run_id TEXT,
+      parent_block_id TEXT,
+      call_depth INT NOT NULL DEFAULT 0,
+      debug JSONB,
       created_at TIMESTAMP DEFAULT now()
     )
   `);
@@ -264,6 +347,108 @@ beforeAll(async () => {
     )
   `);
 
+  await db.execute(sql`
+    CREATE TABLE org_data_keys (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL,
+      wrapped_key TEXT NOT NULL,
+      iv TEXT NOT NULL,
+      master_key_id TEXT NOT NULL,
+      is_active BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMP DEFAULT now(),
+      rewrapped_at TIMESTAMP
+    )
+  `);
+  await db.execute(sql`
+    CREATE UNIQUE INDEX org_data_keys_active_unique ON org_data_keys (org_id) WHERE is_active
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE keys (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL,
+      workflow_id TEXT,
+      name TEXT NOT NULL,
+      description TEXT,
+      provider TEXT NOT NULL DEFAULT 'custom',
+      key_type TEXT NOT NULL DEFAULT 'api_key',
+      encrypted_value TEXT NOT NULL,
+      iv TEXT NOT NULL,
+      data_key_id TEXT,
+      algorithm TEXT DEFAULT 'aes-256-gcm',
+      storage_mode TEXT DEFAULT 'cloud',
+      last_used_at TIMESTAMP,
+      last_rotated_at TIMESTAMP,
+      expires_at TIMESTAMP,
+      rotation_max_age_days INTEGER,
+      rotation_warn_days INTEGER,
+      health_status TEXT NOT NULL DEFAULT 'ok',
+      is_revoked BOOLEAN DEFAULT false,
+      metadata JSONB,
+      created_by UUID,
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now()
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE key_audit_log (
+      id TEXT PRIMARY KEY,
+      key_id TEXT NOT NULL REFERENCES keys(id) ON DELETE CASCADE,
+      action TEXT NOT NULL,
+      performed_by UUID,
+      ip_address TEXT,
+      user_agent TEXT,
+      metadata JSONB,
+      created_at TIMESTAMP DEFAULT now()
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE oauth_connections (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL,
+      workflow_id TEXT,
+      name TEXT NOT NULL,
+      key_id TEXT REFERENCES keys(id) ON DELETE SET NULL,
+      provider TEXT NOT NULL,
+      authorize_url TEXT NOT NULL,
+      token_url TEXT NOT NULL,
+      client_id TEXT NOT NULL,
+      scopes JSONB,
+      redirect_uri TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      data_key_id TEXT NOT NULL,
+      encrypted_client_secret TEXT NOT NULL,
+      client_secret_iv TEXT NOT NULL,
+      encrypted_refresh_token TEXT,
+      refresh_token_iv TEXT,
+      state_hash TEXT UNIQUE,
+      encrypted_code_verifier TEXT,
+      code_verifier_iv TEXT,
+      state_expires_at TIMESTAMP,
+      access_token_expires_at TIMESTAMP,
+      last_refreshed_at TIMESTAMP,
+      refresh_locked_until TIMESTAMP,
+      last_error TEXT,
+      created_by UUID,
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now()
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE key_references (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL,
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      workflow_version INTEGER NOT NULL,
+      block_id TEXT NOT NULL,
+      key_name TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT now()
+    )
+  `);
+
   /* Seed a test user + org */
   const userRepo = new UserRepository(db);
   const orgRepo = new OrgRepository(db);
@@ -448,6 +633,86 @@ describe("Engine Integration: Trigger and complete a simple workflow", () => {
   });
 });
 
+describe("Engine Integration: Live step streaming", () => {
+  const workflowId = `wf-live-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+  let runRepo: RunRepository;
+  let mockSocket: ReturnType<typeof createMockSocket>;
+  let releaseSecond: () => void;
+  let secondStarted: Promise<void>;
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "Live Streaming Workflow");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-live-1", workflowId, 1, "First", "object", 0, {});
+    await seedBlock("blk-live-2", workflowId, 1, "Second", "string", 1, {});
+
+    const interpreter = new Interpreter();
+    let markSecondStarted: () => void = () => {};
+    secondStarted = new Promise((r) => { markSecondStarted = r; });
+    const gate = new Promise<void>((r) => { releaseSecond = r; });
+
+    interpreter.blockExecutor.registerHandler("object", async () => ({
+      stateDelta: { first: true },
+    }));
+    /* Holds the run open so we can observe it mid-flight */
+    interpreter.blockExecutor.registerHandler("string", async () => {
+      markSecondStarted();
+      await gate;
+      return { stateDelta: { second: true } };
+    });
+
+    const wsManager = new WSManager();
+    mockSocket = createMockSocket();
+    wsManager.register(mockSocket, {
+      userId: testUserId,
+      orgId: testOrgId,
+      channels: new Set([`org:${testOrgId}`]),
+    });
+
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    const auth = createTestAuth(getAuthCtx());
+    app = createEngineTestApp(auth, db, wsManager, executionService);
+    runRepo = new RunRepository(db);
+  });
+
+  it("broadcasts run:step events and persists steps before the run finishes", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
+      triggerType: "api",
+    });
+    const json = (await res.json()) as { data: { id: string } };
+    const runId = json.data.id;
+
+    await secondStarted;
+
+    /* The first step is already visible while the second is still executing */
+    const events = mockSocket.messages
+      .map((m) => JSON.parse(m) as { type: string; payload: Record<string, unknown> })
+      .filter((e) => e.type === "run:step" && e.payload["runId"] === runId);
+    expect(events.map((e) => [e.payload["blockName"], e.payload["status"]])).toEqual([
+      ["First", "running"],
+      ["First", "completed"],
+      ["Second", "running"],
+    ]);
+
+    await waitFor(async () => {
+      const run = await runRepo.findById(runId);
+      return Array.isArray(run?.stepsJson) && (run!.stepsJson as unknown[]).length === 1;
+    });
+    expect((await runRepo.findById(runId))!.status).toBe("running");
+
+    releaseSecond();
+
+    await waitFor(async () => {
+      const run = await runRepo.findById(runId);
+      return run?.status === "completed";
+    });
+    const run = await runRepo.findById(runId);
+    expect((run!.stepsJson as unknown[]).length).toBe(2);
+  });
+});
+
 describe("Engine Integration: Multi-block workflow with object + string blocks", () => {
   const workflowId = `wf-multi-${nanoid(6)}`;
 
@@ -526,95 +791,88 @@ describe("Engine Integration: Multi-block workflow with object + string blocks",
   });
 });
 
-describe("Engine Integration: Cancel a running workflow", () => {
-  const workflowId = `wf-cancel-${nanoid(6)}`;
+describe("Engine Integration: $keys resolve from the key store", () => {
+  const workflowId = `wf-keys-${nanoid(6)}`;
+  const secretValue = "sk-test-0123456789abcdef";
 
   let app: Hono<AppEnv>;
   let runRepo: RunRepository;
+  let keyStore: CloudKeyStore;
+  let keyId: string;
+  let previousMasterKey: string | undefined;
 
   beforeAll(async () => {
-    await seedWorkflow(workflowId, "Cancellable Workflow");
-    await seedVersion(workflowId, 1);
+    previousMasterKey = process.env["ENCRYPTION_MASTER_KEY"];
+    process.env["ENCRYPTION_MASTER_KEY"] = keyMasterKey;
+
+    keyStore = new CloudKeyStore(db, keyMasterKey);
+    const key = await keyStore.createKey({
+      name: "engine_api_token",
+      value: secretValue,
+      keyType: "api_key",
+      provider: "custom",
+      storageMode: "cloud",
+      orgId: testOrgId,
+    });
+    keyId = key.id;
 
-    /* A single slow block that takes 2 seconds */
-    await seedBlock("blk-slow-1", workflowId, 1, "Slow Block", "sleep", 0, {
-      sleep_durationMs: 2000,
+    await seedWorkflow(workflowId, "Keys Workflow");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-keys-1", workflowId, 1, "Build Header", "echo", 0, {
+      echo_value: "Bearer {{$keys.engine_api_token}}",
     });
 
     const interpreter = new Interpreter();
-
-    const sleepHandler: BlockHandler = async (block) => {
-      const logic = block.logic as Record<string, unknown>;
-      const ms = (logic["sleep_durationMs"] as number) ?? 100;
-      await new Promise((r) => setTimeout(r, ms));
-      return { stateDelta: { slept: true } };
-    };
-
-    interpreter.blockExecutor.registerHandler("sleep", sleepHandler);
+    interpreter.blockExecutor.registerHandler("echo", async (block, context) => ({
+      stateDelta: {
+        header: interpreter.contextManager.resolveValue(block.logic["echo_value"], context),
+      },
+    }));
 
     const wsManager = new WSManager();
     const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
     const auth = createTestAuth(getAuthCtx());
     app = createEngineTestApp(auth, db, wsManager, executionService);
+    app.route("/keys", keyRoutes(auth, db));
     runRepo = new RunRepository(db);
   });
 
-  it("cancels a running or pending run via POST /runs/:id/cancel", async () => {
-    const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
-      triggerType: "api",
-    });
-
-    expect(res.status).toBe(201);
-    const json = (await res.json()) as { data: { id: string } };
-    const runId = json.data.id;
-
-    /* Immediately cancel — the run may still be pending or just starting */
-    const cancelRes = await request(app, "POST", `/runs/${runId}/cancel`);
-    expect(cancelRes.status).toBe(200);
-
-    const cancelJson = (await cancelRes.json()) as { data: { status: string } };
-    expect(cancelJson.data.status).toBe("cancelled");
+  afterAll(() => {
+    if (previousMasterKey === undefined) delete process.env["ENCRYPTION_MASTER_KEY"];
+    else process.env["ENCRYPTION_MASTER_KEY"] = previousMasterKey;
   });
-});
-
-describe("Engine Integration: Failed workflow propagates error", () => {
-  const workflowId = `wf-fail-${nanoid(6)}`;
-
-  let app: Hono<AppEnv>;
-  let runRepo: RunRepository;
-
-  beforeAll(async () => {
-    await seedWorkflow(workflowId, "Failing Workflow");
-    await seedVersion(workflowId, 1);
-
-    /* A block whose handler always throws */
-    await seedBlock("blk-boom-1", workflowId, 1, "Boom Block", "code", 0, {
-      code_source: "throw new Error('kaboom')",
-    });
-
-    const interpreter = new Interpreter();
-
-    const codeHandler: BlockHandler = async () => {
-      throw new Error("kaboom");
-    };
 
-    interpreter.blockExecutor.registerHandler("code", codeHandler);
+  it("decrypts keys the original routes stored under the secret-derived key", async () => {
+    const previousSecret = process.env["KEY_ENCRYPTION_SECRET"];
+    process.env["KEY_ENCRYPTION_SECRET"] = "original-routes-secret";
+    try {
+      /* base64 ciphertext‖tag and IV under SHA-256 of the secret, as the routes wrote them */
+      const secretKey = createHash("sha256").update("original-routes-secret").digest();
+      const iv = randomBytes(12);
+      const cipher = createCipheriv("aes-256-gcm", secretKey, iv);
+      const sealed = Buffer.concat([cipher.update("sk-legacy-value", "utf8"), cipher.final(), cipher.getAuthTag()]);
+      const legacy = await new dbExports.KeyRepository(db).create({
+        orgId: testOrgId,
+        name: "legacy_routes_token",
+        encryptedValue: sealed.toString("base64"),
+        iv: iv.toString("base64"),
+      });
 
-    const wsManager = new WSManager();
-    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
-    const auth = createTestAuth(getAuthCtx());
-    app = createEngineTestApp(auth, db, wsManager, executionService);
-    runRepo = new RunRepository(db);
+      const res = await request(app, "POST", `/keys/${legacy.id}/decrypt`);
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as { data: { value: string } }).data.value).toBe("sk-legacy-value");
+    } finally {
+      if (previousSecret === undefined) delete process.env["KEY_ENCRYPTION_SECRET"];
+      else process.env["KEY_ENCRYPTION_SECRET"] = previousSecret;
+    }
   });
 
-  it("marks run as failed when a block throws", async () => {
+  it("decrypts the key for the block, audits the access and redacts stepsJson", async () => {
     const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
       triggerType: "api",
     });
-
     expect(res.status).toBe(201);
-    const json = (await res.json()) as { data: { id: string } };
-    const runId = json.data.id;
+    const runId = ((await res.json()) as { data: { id: string } }).data.id;
 
     await waitFor(async () => {
       const run = await runRepo.findById(runId);
@@ -622,144 +880,438 @@ describe("Engine Integration: Failed workflow propagates error", () => {
     });
 
     const run = await runRepo.findById(runId);
-    expect(run!.status).toBe("failed");
-    /* Error message should contain the thrown message */
-    expect(run!.errorMessage).toBeDefined();
+    expect(run!.status).toBe("completed");
+
+    /* The block saw the real value, the persisted step did not */
+    const steps = run!.stepsJson as Array<{ stateDelta?: Record<string, unknown> }>;
+    expect(steps[0].stateDelta).toEqual({ header: "Bearer [REDACTED]" });
+    expect(JSON.stringify(run!.stepsJson)).not.toContain(secretValue);
+
+    const log = await keyStore.getAuditLog(keyId);
+    const access = log.find((e) => e.action === "accessed");
+    expect(access?.metadata).toEqual({ source: "engine", workflowId, runId });
+
+    const key = await new dbExports.KeyRepository(db).findById(keyId);
+    expect(key?.lastUsedAt).toBeInstanceOf(Date);
   });
 });
 
-describe("Engine Integration: Trigger non-existent version", () => {
-  const workflowId = `wf-noversion-${nanoid(6)}`;
+describe("Engine Integration: Key usages", () => {
+  const workflowId = `wf-key-usage-${nanoid(6)}`;
 
   let app: Hono<AppEnv>;
-  let runRepo: RunRepository;
+  let keyId: string;
+  let blockId: string;
 
   beforeAll(async () => {
-    /* Workflow exists but with activeVersion = 99 which has no version record */
-    const wfRepo = new WorkflowRepository(db);
-    await wfRepo.create({
-      id: workflowId,
+    const keyStore = new CloudKeyStore(db, keyMasterKey);
+    const key = await keyStore.createKey({
+      name: "usage_token",
+      value: "in-use",
+      keyType: "api_key",
+      provider: "custom",
+      storageMode: "cloud",
       orgId: testOrgId,
-      name: "No Version Workflow",
-      activeVersion: 99,
-      createdBy: testUserId,
     });
+    keyId = key.id;
 
-    const interpreter = new Interpreter();
-    const wsManager = new WSManager();
-    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    await seedWorkflow(workflowId, "Key Usage Workflow");
+    await seedVersion(workflowId, 1);
+
+    app = new Hono<AppEnv>();
+    app.onError(errorHandler);
     const auth = createTestAuth(getAuthCtx());
-    app = createEngineTestApp(auth, db, wsManager, executionService);
-    runRepo = new RunRepository(db);
+    app.route("/", blockRoutes(auth, db));
+    app.route("/keys", keyRoutes(auth, db));
   });
 
-  it("marks run as failed when version does not exist", async () => {
-    const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
-      triggerType: "api",
+  it("indexes references when a block is saved and lists them as usages", async () => {
+    const created = await request(app, "POST", `/workflows/${workflowId}/versions/1/blocks`, {
+      name: "Call API",
+      type: "fetch",
+      order: 0,
+      logic: { fetch_headers: { Authorization: "Bearer {{$keys.cloud.usage_token}}" } },
     });
+    expect(created.status).toBe(201);
+    blockId = ((await created.json()) as { data: { id: string } }).data.id;
+
+    const res = await request(app, "GET", `/keys/${keyId}/usages`);
+    expect(res.status).toBe(200);
+    const { data } = (await res.json()) as {
+      data: Array<{
+        workflowId: string;
+        versions: Array<{ version: number; isActive: boolean; blocks: Array<{ blockId: string; blockName: string }> }>;
+      }>;
+    };
+    expect(data).toEqual([
+      {
+        workflowId,
+        workflowName: "Key Usage Workflow",
+        versions: [
+          { version: 1, status: "published", isActive: true, blocks: [{ blockId, blockName: "Call API" }] },
+        ],
+      },
+    ]);
+  });
 
-    expect(res.status).toBe(201);
-    const json = (await res.json()) as { data: { id: string } };
-    const runId = json.data.id;
+  it("backfills only versions that have no references indexed", async () => {
+    const legacyId = `wf-key-legacy-${nanoid(6)}`;
+    await seedWorkflow(legacyId, "Legacy Workflow");
+    await seedVersion(legacyId, 1);
+    await seedBlock(`blk-${legacyId}`, legacyId, 1, "Old Call", "fetch", 0, {
+      fetch_headers: { Authorization: "Bearer {{$keys.usage_token}}" },
+    });
 
-    /* triggerRun is async but version-not-found is handled synchronously in triggerRun */
-    await waitFor(async () => {
-      const run = await runRepo.findById(runId);
-      return run?.status === "failed";
+    /* An indexed version whose blocks changed behind the index's back keeps its entries */
+    const [indexed] = await db.select().from(dbExports.blocks).where(eq(dbExports.blocks.id, blockId));
+    await db.execute(sql`UPDATE blocks SET logic = '{}'::jsonb WHERE id = ${blockId}`);
+    await new KeyUsageService(db).backfill();
+
+    const res = await request(app, "GET", `/keys/${keyId}/usages`);
+    const { data } = (await res.json()) as { data: Array<{ workflowId: string }> };
+    expect(data.map((u) => u.workflowId).sort()).toEqual([legacyId, workflowId].sort());
+
+    /* Restore both workflows for the tests that follow */
+    await db.update(dbExports.blocks).set({ logic: indexed.logic }).where(eq(dbExports.blocks.id, blockId));
+    await db.execute(sql`DELETE FROM blocks WHERE id = ${`blk-${legacyId}`}`);
+    await new KeyUsageService(db).indexVersion(legacyId, 1);
+  });
+
+  it("does not read, update, decrypt, rotate or revoke another org's key", async () => {
+    const foreign = await new CloudKeyStore(db, keyMasterKey).createKey({
+      name: "usage_token",
+      value: "foreign",
+      keyType: "api_key",
+      provider: "custom",
+      storageMode: "cloud",
+      orgId: randomUUID(),
     });
 
-    const run = await runRepo.findById(runId);
-    expect(run!.status).toBe("failed");
-    expect(run!.errorMessage).toContain("not found");
+    expect((await request(app, "GET", `/keys/${foreign.id}`)).status).toBe(404);
+    expect((await request(app, "GET", `/keys/${foreign.id}/audit`)).status).toBe(404);
+    expect((await request(app, "PATCH", `/keys/${foreign.id}`, { rotationMaxAgeDays: 1 })).status).toBe(404);
+    expect((await request(app, "POST", `/keys/${foreign.id}/decrypt`)).status).toBe(404);
+    expect((await request(app, "POST", `/keys/${foreign.id}/rotate`, { value: "stolen" })).status).toBe(404);
+    expect((await request(app, "DELETE", `/keys/${foreign.id}`)).status).toBe(404);
+
+    const stored = await new dbExports.KeyRepository(db).findById(foreign.id);
+    expect(stored?.isRevoked).toBe(false);
+    expect(stored?.rotationMaxAgeDays).not.toBe(1);
+  });
+
+  it("warns when revoking a key a published version still uses", async () => {
+    const res = await request(app, "DELETE", `/keys/${keyId}`);
+    expect(res.status).toBe(200);
+
+    const { data } = (await res.json()) as { data: { warning?: string; liveUsages?: Array<{ workflowId: string }> } };
+    expect(data.warning).toContain("Key Usage Workflow");
+    expect(data.liveUsages?.map((u) => u.workflowId)).toEqual([workflowId]);
+  });
+
+  it("drops the reference when the block stops using the key", async () => {
+    const updated = await request(app, "PATCH", `/blocks/${blockId}`, { logic: { fetch_url: "https://example.com" } });
+    expect(updated.status).toBe(200);
+
+    const res = await request(app, "GET", `/keys/${keyId}/usages`);
+    expect(((await res.json()) as { data: unknown[] }).data).toEqual([]);
   });
 });
 
-describe("Engine Integration: SSE live endpoint", () => {
-  const workflowId = `wf-sse-${nanoid(6)}`;
+describe("Engine Integration: Key health sweep and report", () => {
+  const workflowId = `wf-key-health-${nanoid(6)}`;
+  const DAY_MS = 86_400_000;
 
   let app: Hono<AppEnv>;
-  let runRepo: RunRepository;
+  let keyStore: CloudKeyStore;
+  let wsManager: WSManager;
+  let keyHealth: KeyHealthService;
+  let staleKeyId: string;
 
   beforeAll(async () => {
-    await seedWorkflow(workflowId, "SSE Workflow");
+    keyStore = new CloudKeyStore(db, keyMasterKey);
+    const stale = await keyStore.createKey({
+      name: "health_stale_token",
+      value: "stale",
+      keyType: "api_key",
+      provider: "custom",
+      storageMode: "cloud",
+      orgId: testOrgId,
+      rotationMaxAgeDays: 30,
+    });
+    staleKeyId = stale.id;
+    await db.execute(sql`
+      UPDATE keys SET created_at = ${new Date(Date.now() - 40 * DAY_MS).toISOString()} WHERE id = ${staleKeyId}
+    `);
+
+    await keyStore.createKey({
+      name: "health_fresh_token",
+      value: "fresh",
+      keyType: "api_key",
+      provider: "custom",
+      storageMode: "cloud",
+      orgId: testOrgId,
+      rotationMaxAgeDays: 90,
+    });
+
+    await seedWorkflow(workflowId, "Key Health Workflow");
     await seedVersion(workflowId, 1);
-    await seedBlock("blk-sse-1", workflowId, 1, "Quick Block", "string", 0, {
-      string_template: "done",
-      string_outputKey: "result",
+    await seedBlock("blk-key-health-1", workflowId, 1, "Call API", "fetch", 0, {
+      fetch_headers: { Authorization: "Bearer {{$keys.health_stale_token}}" },
     });
+    await new KeyUsageService(db).indexVersion(workflowId, 1);
 
-    const interpreter = new Interpreter();
+    wsManager = new WSManager();
+    keyHealth = new KeyHealthService(db, wsManager);
+    app = new Hono<AppEnv>();
+    app.onError(errorHandler);
+    app.route("/keys", keyRoutes(createTestAuth(getAuthCtx()), db, keyHealth));
+  });
 
-    const stringHandler: BlockHandler = async (block) => {
-      const logic = block.logic as Record<string, unknown>;
-      const outputKey = (logic["string_outputKey"] as string) ?? "result";
-      const template = (logic["string_template"] as string) ?? "";
-      return { stateDelta: { [outputKey]: template } };
+  it("flags an overdue key once, with an audit entry and an org event", async () => {
+    const ws = createMockSocket();
+    wsManager.register(ws, { userId: testUserId, orgId: testOrgId, channels: new Set() });
+    wsManager.subscribe(ws, `org:${testOrgId}`);
+
+    const flagged = await keyHealth.sweep();
+    expect(flagged).toContain(staleKeyId);
+
+    const event = ws.messages
+      .map((m) => JSON.parse(m) as { type: string; payload: { keyId: string; status: string } })
+      .find((e) => e.type === "key:health" && e.payload.keyId === staleKeyId);
+    expect(event?.payload.status).toBe("rotation_overdue");
+
+    const log = await keyStore.getAuditLog(staleKeyId);
+    expect(log.filter((e) => e.action === "flagged")).toHaveLength(1);
+
+    /* A second sweep has nothing new to report */
+    expect(await keyHealth.sweep()).not.toContain(staleKeyId);
+    expect((await keyStore.getAuditLog(staleKeyId)).filter((e) => e.action === "flagged")).toHaveLength(1);
+  });
+
+  it("clears the flag once the key is rotated", async () => {
+    await keyStore.rotateKey(staleKeyId, "rotated");
+    await keyHealth.sweep();
+
+    const row = await new dbExports.KeyRepository(db).findById(staleKeyId);
+    expect(row?.healthStatus).toBe("ok");
+
+    /* Put the key back out of date for the report test */
+    await db.execute(sql`
+      UPDATE keys SET last_rotated_at = ${new Date(Date.now() - 40 * DAY_MS).toISOString()} WHERE id = ${staleKeyId}
+    `);
+  });
+
+  it("GET /keys/health lists overdue keys with the workflows that use them", async () => {
+    const res = await request(app, "GET", "/keys/health");
+    expect(res.status).toBe(200);
+
+    const { data } = (await res.json()) as {
+      data: Array<{ id: string; name: string; status: string; workflows: Array<{ workflowId: string }> }>;
     };
+    const entry = data.find((k) => k.id === staleKeyId);
+    expect(entry?.status).toBe("rotation_overdue");
+    expect(entry?.workflows.map((w) => w.workflowId)).toEqual([workflowId]);
+    expect(data.some((k) => k.name === "health_fresh_token")).toBe(false);
+  });
+});
 
-    interpreter.blockExecutor.registerHandler("string", stringHandler);
+describe("Engine Integration: OAuth connections", () => {
+  const workflowId = `wf-oauth-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+  let runRepo: RunRepository;
+  let connectionId: string;
+  let previousMasterKey: string | undefined;
+  let issued = 0;
+  let seenHeader: unknown;
+
+  /* A provider that issues numbered tokens for any code or refresh token */
+  const provider = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const form = new URLSearchParams(raw);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({
+        access_token: `oauth-access-${++issued}`,
+        refresh_token: `oauth-refresh-${issued}`,
+        expires_in: 3600,
+        grant: form.get("grant_type"),
+      }));
+    });
+  });
+
+  beforeAll(async () => {
+    previousMasterKey = process.env["ENCRYPTION_MASTER_KEY"];
+    process.env["ENCRYPTION_MASTER_KEY"] = keyMasterKey;
+    await new Promise<void>((resolve) => provider.listen(0, "127.0.0.1", resolve));
+
+    await seedWorkflow(workflowId, "OAuth Workflow");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-oauth-1", workflowId, 1, "Build Header", "echo", 0, {
+      echo_value: "Bearer {{$keys.crm_token}}",
+    });
+
+    const interpreter = new Interpreter();
+    interpreter.blockExecutor.registerHandler("echo", async (block, context) => {
+      /* Persisted state is redacted, so capture what the block saw */
+      seenHeader = interpreter.contextManager.resolveValue(block.logic["echo_value"], context);
+      return { stateDelta: { header: seenHeader } };
+    });
 
     const wsManager = new WSManager();
     const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
     const auth = createTestAuth(getAuthCtx());
     app = createEngineTestApp(auth, db, wsManager, executionService);
+    app.route("/keys", keyRoutes(auth, db));
     runRepo = new RunRepository(db);
   });
 
-  it("GET /runs/:id/live returns SSE stream that closes on terminal state", async () => {
-    /* Trigger a run first */
-    const triggerRes = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
-      triggerType: "api",
+  afterAll(async () => {
+    await new Promise((resolve) => provider.close(resolve));
+    if (previousMasterKey === undefined) delete process.env["ENCRYPTION_MASTER_KEY"];
+    else process.env["ENCRYPTION_MASTER_KEY"] = previousMasterKey;
+  });
+
+  it("connects through the authorization URL and callback", async () => {
+    const tokenUrl = `http://127.0.0.1:${(provider.address() as AddressInfo).port}/token`;
+    const created = await request(app, "POST", "/keys/oauth/connections", {
+      name: "crm_token",
+      clientId: "crm-client",
+      clientSecret: "crm-secret",
+      scopes: ["contacts.read"],
+      authorizeUrl: "https://crm.example.com/oauth/authorize",
+      tokenUrl,
     });
+    expect(created.status).toBe(201);
 
-    expect(triggerRes.status).toBe(201);
-    const json = (await triggerRes.json()) as { data: { id: string } };
-    const runId = json.data.id;
+    const { data } = (await created.json()) as {
+      data: { connection: { id: string; status: string; redirectUri: string }; authorizationUrl: string };
+    };
+    connectionId = data.connection.id;
+    expect(data.connection.status).toBe("pending");
+    expect(data.connection.redirectUri).toMatch(/\/api\/v1\/keys\/oauth\/callback$/);
+
+    const state = new URL(data.authorizationUrl).searchParams.get("state")!;
+    const callback = await request(app, "GET", `/keys/oauth/callback?code=abc&state=${state}`);
+    expect(callback.status).toBe(200);
+
+    const status = await request(app, "GET", `/keys/oauth/connections/${connectionId}`);
+    const { data: info } = (await status.json()) as { data: { status: string; hasRefreshToken: boolean } };
+    expect(info).toMatchObject({ status: "connected", hasRefreshToken: true });
+
+    /* The state is single use */
+    const replay = await request(app, "GET", `/keys/oauth/callback?code=abc&state=${state}`);
+    expect(replay.status).toBe(400);
+    expect(((await replay.json()) as { error: { code: string } }).error.code).toBe("OAUTH_INVALID_STATE");
+  });
+
+  it("refreshes an expiring token before the run uses it", async () => {
+    await db.execute(sql`
+      UPDATE oauth_connections SET access_token_expires_at = ${new Date(Date.now() + 10_000).toISOString()}
+      WHERE id = ${connectionId}
+    `);
+
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, { triggerType: "api" });
+    expect(res.status).toBe(201);
+    const runId = ((await res.json()) as { data: { id: string } }).data.id;
 
-    /* Wait for the run to complete */
     await waitFor(async () => {
       const run = await runRepo.findById(runId);
       return run?.status === "completed" || run?.status === "failed";
     });
 
-    /* Now request the SSE endpoint — since the run is already completed
-     * it should immediately emit a status event and close. */
-    const sseRes = await app.request(`/runs/${runId}/live`, {
-      method: "GET",
-      headers: { "Content-Type": "application/json" },
+    const run = await runRepo.findById(runId);
+    expect(run!.status).toBe("completed");
+    expect(issued).toBe(2);
+    expect(seenHeader).toBe("Bearer oauth-access-2");
+
+    const connection = await new dbExports.OAuthConnectionRepository(db).findById(connectionId);
+    expect(connection?.accessTokenExpiresAt!.getTime()).toBeGreaterThan(Date.now() + 3_000_000);
+  });
+});
+
+describe("Engine Integration: Cancel a running workflow", () => {
+  const workflowId = `wf-cancel-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+  let runRepo: RunRepository;
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "Cancellable Workflow");
+    await seedVersion(workflowId, 1);
+
+    /* A single slow block that takes 2 seconds */
+    await seedBlock("blk-slow-1", workflowId, 1, "Slow Block", "sleep", 0, {
+      sleep_durationMs: 2000,
     });
 
-    expect(sseRes.status).toBe(200);
-    expect(sseRes.headers.get("content-type")).toContain("text/event-stream");
+    const interpreter = new Interpreter();
 
-    const body = await sseRes.text();
-    expect(body).toContain("event: status");
-    expect(body).toContain("completed");
+    const sleepHandler: BlockHandler = async (block) => {
+      const logic = block.logic as Record<string, unknown>;
+      const ms = (logic["sleep_durationMs"] as number) ?? 100;
+      await new Promise((r) => setTimeout(r, ms));
+      return { stateDelta: { slept: true } };
+    };
+
+    interpreter.blockExecutor.registerHandler("sleep", sleepHandler);
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    const auth = createTestAuth(getAuthCtx());
+    app = createEngineTestApp(auth, db, wsManager, executionService);
+    runRepo = new RunRepository(db);
+  });
+
+  it("cancels a running or pending run via POST /runs/:id/cancel", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
+      triggerType: "api",
+    });
+
+    expect(res.status).toBe(201);
+    const json = (await res.json()) as { data: { id: string } };
+    const runId = json.data.id;
+
+    /* Immediately cancel — the run may still be pending or just starting */
+    const cancelRes = await request(app, "POST", `/runs/${runId}/cancel`);
+    expect(cancelRes.status).toBe(200);
+
+    const cancelJson = (await cancelRes.json()) as { data: { status: string } };
+    expect(cancelJson.data.status).toBe("cancelled");
   });
 });
 
-describe("Engine Integration: Actions endpoint rejects when not awaiting", () => {
-  const workflowId = `wf-action-reject-${nanoid(6)}`;
+describe("Engine Integration: Cancellation stops the interpreter", () => {
+  const workflowId = `wf-cancel-stop-${nanoid(6)}`;
 
   let app: Hono<AppEnv>;
   let runRepo: RunRepository;
+  let executed: string[];
 
   beforeAll(async () => {
-    await seedWorkflow(workflowId, "Action Reject Workflow");
+    await seedWorkflow(workflowId, "Cancel Stops Workflow");
     await seedVersion(workflowId, 1);
-    await seedBlock("blk-ar-1", workflowId, 1, "Quick Block", "string", 0, {
-      string_template: "done",
-      string_outputKey: "result",
-    });
+    await seedBlock("blk-cs-1", workflowId, 1, "Wait", "sleep", 0, {});
+    await seedBlock("blk-cs-2", workflowId, 1, "After Wait", "string", 1, {});
 
     const interpreter = new Interpreter();
+    executed = [];
 
+    /* Waits until the run signal fires, like the real sleep executor */
+    const sleepHandler: BlockHandler = async (block, context) => {
+      executed.push(block.name);
+      await new Promise<void>((_resolve, reject) => {
+        context.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      });
+      return {};
+    };
     const stringHandler: BlockHandler = async (block) => {
-      const logic = block.logic as Record<string, unknown>;
-      const outputKey = (logic["string_outputKey"] as string) ?? "result";
-      return { stateDelta: { [outputKey]: "done" } };
+      executed.push(block.name);
+      return {};
     };
 
+    interpreter.blockExecutor.registerHandler("sleep", sleepHandler);
     interpreter.blockExecutor.registerHandler("string", stringHandler);
 
     const wsManager = new WSManager();
@@ -769,40 +1321,1565 @@ describe("Engine Integration: Actions endpoint rejects when not awaiting", () =>
     runRepo = new RunRepository(db);
   });
 
-  it("returns error when submitting action to a completed run", async () => {
-    /* Trigger and wait for completion */
-    const triggerRes = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
+  it("persists a cancelled run with only the steps executed before cancellation", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
       triggerType: "api",
     });
-
-    const json = (await triggerRes.json()) as { data: { id: string } };
+    const json = (await res.json()) as { data: { id: string } };
     const runId = json.data.id;
 
+    await waitFor(async () => executed.includes("Wait"));
+
+    const cancelRes = await request(app, "POST", `/runs/${runId}/cancel`);
+    expect(cancelRes.status).toBe(200);
+
+    /* The interpreter writes the partial step list and timing once it unwinds */
     await waitFor(async () => {
       const run = await runRepo.findById(runId);
-      return run?.status === "completed";
+      return run?.status === "cancelled" && run.durationMs !== null;
     });
 
-    /* Try to submit an action — should fail */
-    const actionRes = await request(app, "POST", `/runs/${runId}/actions`, {
-      actionType: "submit",
-      payload: { field: "value" },
+    const run = await runRepo.findById(runId);
+    expect(run!.status).toBe("cancelled");
+    const steps = run!.stepsJson as Array<{ blockName: string }>;
+    expect(steps.map((s) => s.blockName)).toEqual(["Wait"]);
+    expect(executed).not.toContain("After Wait");
+  });
+});
+
+describe("Engine Integration: Cancelling a run another instance executes", () => {
+  const workflowId = `wf-cancel-remote-${nanoid(6)}`;
+
+  let executingApp: Hono<AppEnv>;
+  let cancellingApp: Hono<AppEnv>;
+  let executing: WorkflowExecutionService;
+  let runRepo: RunRepository;
+  let executed: string[];
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "Remote Cancel Workflow");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-rc-1", workflowId, 1, "Wait", "sleep", 0, {});
+    await seedBlock("blk-rc-2", workflowId, 1, "After Wait", "string", 1, {});
+
+    const interpreter = new Interpreter();
+    executed = [];
+    interpreter.blockExecutor.registerHandler("sleep", async (block, context) => {
+      executed.push(block.name);
+      await new Promise<void>((_resolve, reject) => {
+        context.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      });
+      return {};
+    });
+    interpreter.blockExecutor.registerHandler("string", async (block) => {
+      executed.push(block.name);
+      return {};
     });
 
-    expect(actionRes.status).toBe(422);
-    const actionJson = (await actionRes.json()) as { error: { code: string } };
-    expect(actionJson.error.code).toBe("ACTION_FAILED");
+    /* Two instances sharing the database — only the first executes runs */
+    const auth = createTestAuth(getAuthCtx());
+    const wsManager = new WSManager();
+    executing = new WorkflowExecutionService(db, wsManager, interpreter, { pollIntervalMs: 20 });
+    await executing.queue.start();
+    executingApp = createEngineTestApp(auth, db, wsManager, executing);
+
+    const otherWs = new WSManager();
+    cancellingApp = createEngineTestApp(auth, db, otherWs, new WorkflowExecutionService(db, otherWs, new Interpreter()));
+    runRepo = new RunRepository(db);
+  });
+
+  afterAll(async () => {
+    await executing.queue.stop();
+  });
+
+  it("stops the run and keeps it cancelled", async () => {
+    const res = await request(executingApp, "POST", `/workflows/${workflowId}/trigger`, {});
+    const { data } = (await res.json()) as { data: { id: string } };
+    await waitFor(async () => executed.includes("Wait"));
+
+    const cancelRes = await request(cancellingApp, "POST", `/runs/${data.id}/cancel`);
+    expect(cancelRes.status).toBe(200);
+
+    await waitFor(async () => (await runRepo.findById(data.id))?.durationMs != null);
+    const run = await runRepo.findById(data.id);
+    expect(run!.status).toBe("cancelled");
+    expect((run!.stepsJson as Array<{ blockName: string }>).map((s) => s.blockName)).toEqual(["Wait"]);
+    expect(executed).not.toContain("After Wait");
+
+    /* A finished run cannot be cancelled again */
+    expect((await request(cancellingApp, "POST", `/runs/${data.id}/cancel`)).status).toBe(422);
   });
 });
 
-describe("Engine Integration: WorkflowExecutionService unit behaviour", () => {
-  it("cancelRun sets and isCancelled reads the flag", () => {
+describe("Engine Integration: Failed workflow propagates error", () => {
+  const workflowId = `wf-fail-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+  let runRepo: RunRepository;
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "Failing Workflow");
+    await seedVersion(workflowId, 1);
+
+    /* A block whose handler always throws */
+    await seedBlock("blk-boom-1", workflowId, 1, "Boom Block", "code", 0, {
+      code_source: "throw new Error('kaboom')",
+    });
+
     const interpreter = new Interpreter();
+
+    const codeHandler: BlockHandler = async () => {
+      throw new Error("kaboom");
+    };
+
+    interpreter.blockExecutor.registerHandler("code", codeHandler);
+
     const wsManager = new WSManager();
-    const service = new WorkflowExecutionService(db, wsManager, interpreter);
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    const auth = createTestAuth(getAuthCtx());
+    app = createEngineTestApp(auth, db, wsManager, executionService);
+    runRepo = new RunRepository(db);
+  });
 
-    expect(service.isCancelled("run-1")).toBe(false);
-    service.cancelRun("run-1");
-    expect(service.isCancelled("run-1")).toBe(true);
+  it("marks run as failed when a block throws", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
+      triggerType: "api",
+    });
+
+    expect(res.status).toBe(201);
+    const json = (await res.json()) as { data: { id: string } };
+    const runId = json.data.id;
+
+    await waitFor(async () => {
+      const run = await runRepo.findById(runId);
+      return run?.status === "completed" || run?.status === "failed";
+    });
+
+    const run = await runRepo.findById(runId);
+    expect(run!.status).toBe("failed");
+    /* Error message should contain the thrown message */
+    expect(run!.errorMessage).toBeDefined();
+  });
+});
+
+describe("Engine Integration: Block groups are stored with the version", () => {
+  const workflowId = `wf-groups-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "Grouped Workflow");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-grp-boom", workflowId, 1, "Boom", "code", 0);
+    await seedBlock("blk-grp-next", workflowId, 1, "Next", "object", 1);
+    await seedBlock("blk-grp-handler", workflowId, 1, "Handler", "object", 2);
+
+    const interpreter = new Interpreter();
+    interpreter.blockExecutor.registerHandler("code", async () => {
+      throw new Error("kaboom");
+    });
+    interpreter.blockExecutor.registerHandler("object", async (block) => ({
+      stateDelta: { ran: block.name },
+    }));
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    app = createEngineTestApp(createTestAuth(getAuthCtx()), db, wsManager, executionService);
+  });
+
+  it("lints the stored groups", async () => {
+    const res = await request(app, "PATCH", `/workflows/${workflowId}/versions/1`, {
+      groups: [{ id: "g1", name: "Try", startBlockId: "blk-grp-boom", endBlockId: "blk-gone" }],
+    });
+    expect(res.status).toBe(200);
+
+    const lint = await request(app, "GET", `/workflows/${workflowId}/versions/1/lint`);
+    const { data } = (await lint.json()) as { data: Array<{ message: string }> };
+    expect(data.map((d) => d.message)).toContain('Group "Try" references a block that does not exist');
+  });
+
+  it("runs the version's groups as error scopes", async () => {
+    await request(app, "PATCH", `/workflows/${workflowId}/versions/1`, {
+      groups: [
+        { id: "g1", name: "Try", startBlockId: "blk-grp-boom", endBlockId: "blk-grp-next", catchBlockId: "blk-grp-handler" },
+      ],
+    });
+
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger?wait=true`, {});
+    const { data } = (await res.json()) as { data: { status: string; output: Record<string, unknown> } };
+    expect(data.status).toBe("completed");
+    expect(data.output).toMatchObject({ ran: "Handler" });
+  });
+});
+
+describe("Engine Integration: Trigger non-existent version", () => {
+  const workflowId = `wf-noversion-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+  let runRepo: RunRepository;
+
+  beforeAll(async () => {
+    /* Workflow exists but with activeVersion = 99 which has no version record */
+    const wfRepo = new WorkflowRepository(db);
+    await wfRepo.create({
+      id: workflowId,
+      orgId: testOrgId,
+      name: "No Version Workflow",
+      activeVersion: 99,
+      createdBy: testUserId,
+    });
+
+    const interpreter = new Interpreter();
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    const auth = createTestAuth(getAuthCtx());
+    app = createEngineTestApp(auth, db, wsManager, executionService);
+    runRepo = new RunRepository(db);
+  });
+
+  it("marks run as failed when version does not exist", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
+      triggerType: "api",
+    });
+
+    expect(res.status).toBe(201);
+    const json = (await res.json()) as { data: { id: string } };
+    const runId = json.data.id;
+
+    /* triggerRun is async but version-not-found is handled synchronously in triggerRun */
+    await waitFor(async () => {
+      const run = await runRepo.findById(runId);
+      return run?.status === "failed";
+    });
+
+    const run = await runRepo.findById(runId);
+    expect(run!.status).toBe("failed");
+    expect(run!.errorMessage).toContain("not found");
+  });
+});
+
+describe("Engine Integration: SSE live endpoint", () => {
+  const workflowId = `wf-sse-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+  let runRepo: RunRepository;
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "SSE Workflow");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-sse-1", workflowId, 1, "Quick Block", "string", 0, {
+      string_template: "done",
+      string_outputKey: "result",
+    });
+
+    const interpreter = new Interpreter();
+
+    const stringHandler: BlockHandler = async (block) => {
+      const logic = block.logic as Record<string, unknown>;
+      const outputKey = (logic["string_outputKey"] as string) ?? "result";
+      const template = (logic["string_template"] as string) ?? "";
+      return { stateDelta: { [outputKey]: template } };
+    };
+
+    interpreter.blockExecutor.registerHandler("string", stringHandler);
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    const auth = createTestAuth(getAuthCtx());
+    app = createEngineTestApp(auth, db, wsManager, executionService);
+    runRepo = new RunRepository(db);
+  });
+
+  it("GET /runs/:id/live returns SSE stream that closes on terminal state", async () => {
+    /* Trigger a run first */
+    const triggerRes = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
+      triggerType: "api",
+    });
+
+    expect(triggerRes.status).toBe(201);
+    const json = (await triggerRes.json()) as { data: { id: string } };
+    const runId = json.data.id;
+
+    /* Wait for the run to complete */
+    await waitFor(async () => {
+      const run = await runRepo.findById(runId);
+      return run?.status === "completed" || run?.status === "failed";
+    });
+
+    /* Now request the SSE endpoint — since the run is already completed
+     * it should immediately emit a status event and close. */
+    const sseRes = await app.request(`/runs/${runId}/live`, {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+    });
+
+    expect(sseRes.status).toBe(200);
+    expect(sseRes.headers.get("content-type")).toContain("text/event-stream");
+
+    const body = await sseRes.text();
+    expect(body).toContain("event: status");
+    expect(body).toContain("completed");
+  });
+});
+
+describe("Engine Integration: Actions endpoint rejects when not awaiting", () => {
+  const workflowId = `wf-action-reject-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+  let runRepo: RunRepository;
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "Action Reject Workflow");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-ar-1", workflowId, 1, "Quick Block", "string", 0, {
+      string_template: "done",
+      string_outputKey: "result",
+    });
+
+    const interpreter = new Interpreter();
+
+    const stringHandler: BlockHandler = async (block) => {
+      const logic = block.logic as Record<string, unknown>;
+      const outputKey = (logic["string_outputKey"] as string) ?? "result";
+      return { stateDelta: { [outputKey]: "done" } };
+    };
+
+    interpreter.blockExecutor.registerHandler("string", stringHandler);
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    const auth = createTestAuth(getAuthCtx());
+    app = createEngineTestApp(auth, db, wsManager, executionService);
+    runRepo = new RunRepository(db);
+  });
+
+  it("returns error when submitting action to a completed run", async () => {
+    /* Trigger and wait for completion */
+    const triggerRes = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
+      triggerType: "api",
+    });
+
+    const json = (await triggerRes.json()) as { data: { id: string } };
+    const runId = json.data.id;
+
+    await waitFor(async () => {
+      const run = await runRepo.findById(runId);
+      return run?.status === "completed";
+    });
+
+    /* Try to submit an action — should fail */
+    const actionRes = await request(app, "POST", `/runs/${runId}/actions`, {
+      actionType: "submit",
+      payload: { field: "value" },
+    });
+
+    expect(actionRes.status).toBe(422);
+    const actionJson = (await actionRes.json()) as { error: { code: string } };
+    expect(actionJson.error.code).toBe("ACTION_FAILED");
+  });
+});
+
+describe("Engine Integration: Run queue", () => {
+  const workflowId = `wf-queue-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+  let runRepo: RunRepository;
+  let releaseFirst: () => void;
+  let firstStarted: Promise<void>;
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "Queued Workflow");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-queue-1", workflowId, 1, "Gated", "object", 0, {});
+
+    const interpreter = new Interpreter();
+    let markFirstStarted: () => void = () => {};
+    firstStarted = new Promise((r) => { markFirstStarted = r; });
+    const gate = new Promise<void>((r) => { releaseFirst = r; });
+
+    /* Only the first run waits on the gate */
+    let calls = 0;
+    interpreter.blockExecutor.registerHandler("object", async () => {
+      if (calls++ === 0) {
+        markFirstStarted();
+        await gate;
+      }
+      return { stateDelta: { done: true } };
+    });
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter, {
+      orgConcurrency: 1,
+    });
+    const auth = createTestAuth(getAuthCtx());
+    app = createEngineTestApp(auth, db, wsManager, executionService);
+    runRepo = new RunRepository(db);
+  });
+
+  it("keeps a run pending until its org has a free slot", async () => {
+    const trigger = async () => {
+      const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
+        triggerType: "api",
+      });
+      return ((await res.json()) as { data: { id: string } }).data.id;
+    };
+
+    const first = await trigger();
+    await firstStarted;
+    const second = await trigger();
+
+    /* The org limit of 1 is taken by the gated run */
+    await new Promise((r) => setTimeout(r, 100));
+    expect((await runRepo.findById(second))!.status).toBe("pending");
+
+    const running = await runRepo.findById(first);
+    expect(running!.status).toBe("running");
+    expect(running!.claimedBy).toBeTruthy();
+
+    releaseFirst();
+
+    await waitFor(async () => {
+      const run = await runRepo.findById(second);
+      return run?.status === "completed";
+    });
+    expect((await runRepo.findById(first))!.status).toBe("completed");
+  });
+});
+
+describe("Engine Integration: Checkpoints and crash recovery", () => {
+  const workflowId = `wf-recover-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+  let runRepo: RunRepository;
+  let interpreter: Interpreter;
+  let ran: string[];
+  let releaseSecond: () => void;
+  let secondStarted: Promise<void>;
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "Recoverable Workflow");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-rec-1", workflowId, 1, "First", "object", 0, {});
+    await seedBlock("blk-rec-2", workflowId, 1, "Second", "string", 1, {});
+
+    interpreter = new Interpreter();
+    ran = [];
+    let markSecondStarted: () => void = () => {};
+    secondStarted = new Promise((r) => { markSecondStarted = r; });
+    const gate = new Promise<void>((r) => { releaseSecond = r; });
+
+    interpreter.blockExecutor.registerHandler("object", async () => {
+      ran.push("First");
+      return { stateDelta: { first: true } };
+    });
+    interpreter.blockExecutor.registerHandler("string", async (_block, context) => {
+      ran.push("Second");
+      markSecondStarted();
+      await gate;
+      return { stateDelta: { second: context.state["first"] === true } };
+    });
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    const auth = createTestAuth(getAuthCtx());
+    app = createEngineTestApp(auth, db, wsManager, executionService);
+    runRepo = new RunRepository(db);
+  });
+
+  it("persists a checkpoint after each block and clears it when the run ends", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
+      triggerType: "api",
+    });
+    const json = (await res.json()) as { data: { id: string } };
+    const runId = json.data.id;
+
+    await secondStarted;
+    await waitFor(async () => {
+      const run = await runRepo.findById(runId);
+      return run?.checkpoint != null;
+    });
+
+    const checkpoint = (await runRepo.findById(runId))!.checkpoint as RunCheckpoint;
+    expect(checkpoint.nextBlockIndex).toBe(1);
+    expect(checkpoint.context.state).toEqual({ first: true });
+    expect(checkpoint.steps.map((s) => s.blockName)).toEqual(["First"]);
+
+    releaseSecond();
+
+    await waitFor(async () => {
+      const run = await runRepo.findById(runId);
+      return run?.status === "completed";
+    });
+    expect((await runRepo.findById(runId))!.checkpoint).toBeNull();
+  });
+
+  it("requeues orphaned runs with a checkpoint, resumes them from it and fails the rest", async () => {
+    const checkpointed = `run-rec-${nanoid(6)}`;
+    const unrecoverable = `run-rec-${nanoid(6)}`;
+    const now = new Date().toISOString();
+
+    await runRepo.create({
+      id: checkpointed,
+      workflowId,
+      version: 1,
+      orgId: testOrgId,
+      status: "running",
+      checkpoint: {
+        nextBlockIndex: 1,
+        steps: [{
+          stepId: "step-first",
+          blockId: "blk-rec-1",
+          blockName: "First",
+          blockType: "object",
+          blockOrder: 0,
+          executionOrder: 0,
+          status: "completed",
+          logic: {},
+          startedAt: now,
+          endedAt: now,
+        }],
+        context: { state: { first: true }, cache: [], artifacts: [], event: {}, loops: {} },
+        createdAt: now,
+      } satisfies RunCheckpoint,
+    });
+    await runRepo.create({
+      id: unrecoverable,
+      workflowId,
+      version: 1,
+      orgId: testOrgId,
+      status: "running",
+    });
+
+    /* A fresh service stands in for another worker; neither row was ever heartbeated */
+    ran.length = 0;
+    const service = new WorkflowExecutionService(db, new WSManager(), interpreter);
+    const { requeued, failed } = await service.recoverOrphanedRuns(new Date());
+
+    expect(requeued).toContain(checkpointed);
+    expect(failed).toContain(unrecoverable);
+
+    const failedRun = await runRepo.findById(unrecoverable);
+    expect(failedRun!.status).toBe("failed");
+    expect(failedRun!.errorMessage).toBe(
+      "Run was interrupted by a server restart before its first checkpoint",
+    );
+
+    await waitFor(async () => {
+      const run = await runRepo.findById(checkpointed);
+      return run?.status === "completed" || run?.status === "failed";
+    });
+
+    const run = await runRepo.findById(checkpointed);
+    expect(run!.status).toBe("completed");
+    expect(ran).toEqual(["Second"]);
+
+    const steps = run!.stepsJson as Array<{ blockName: string; executionOrder: number }>;
+    expect(steps.map((s) => [s.blockName, s.executionOrder])).toEqual([["First", 0], ["Second", 1]]);
+    expect((steps[1] as { stateDelta?: unknown }).stateDelta).toEqual({ second: true });
+  });
+
+  it("fails an orphaned run whose checkpoint had a key-derived state value redacted", async () => {
+    const runId = `run-rec-${nanoid(6)}`;
+    const now = new Date().toISOString();
+
+    await runRepo.create({
+      id: runId,
+      workflowId,
+      version: 1,
+      orgId: testOrgId,
+      status: "running",
+      checkpoint: {
+        nextBlockIndex: 1,
+        steps: [],
+        context: { state: { token: "[REDACTED]" }, cache: [], artifacts: [], event: {}, loops: {} },
+        createdAt: now,
+        redacted: true,
+      } satisfies RunCheckpoint,
+    });
+
+    ran.length = 0;
+    const service = new WorkflowExecutionService(db, new WSManager(), interpreter);
+    const { requeued, failed } = await service.recoverOrphanedRuns(new Date());
+
+    expect(requeued).not.toContain(runId);
+    expect(failed).toContain(runId);
+    const run = await runRepo.findById(runId);
+    expect(run!.status).toBe("failed");
+    expect(run!.errorMessage).toContain("$keys values");
+    expect(ran).toEqual([]);
+  });
+});
+
+describe("Engine Integration: Synchronous trigger", () => {
+  const workflowId = `wf-wait-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+  let release: () => void = () => {};
+  let gated = false;
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "Waited Workflow");
+    await db.execute(sql`
+      INSERT INTO workflow_versions (workflow_id, version, status, trigger_type, output_keys)
+      VALUES (${workflowId}, 1, 'published', 'api', ${JSON.stringify(["total", "customer.email"])}::jsonb)
+    `);
+    await seedBlock("blk-wait-1", workflowId, 1, "Compute", "object", 0, {});
+
+    const interpreter = new Interpreter();
+    interpreter.blockExecutor.registerHandler("object", async (_block, context) => {
+      if (gated) await new Promise<void>((r) => { release = r; });
+      context.artifacts.push({
+        id: `art-${nanoid(6)}`,
+        workflowId,
+        type: "document",
+        name: "receipt.pdf",
+        createdAt: new Date().toISOString(),
+      } as (typeof context.artifacts)[number]);
+      return {
+        stateDelta: {
+          total: 12,
+          customer: { email: "a@b.co", phone: "555" },
+          scratch: "internal",
+        },
+      };
+    });
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    app = createEngineTestApp(createTestAuth(getAuthCtx()), db, wsManager, executionService);
+  });
+
+  it("returns the final status, projected output and artifacts", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger?wait=true`, {});
+    expect(res.status).toBe(200);
+
+    const { data } = (await res.json()) as {
+      data: { status: string; output: unknown; artifacts: Array<{ name: string; runId: string }>; id: string };
+    };
+    expect(data.status).toBe("completed");
+    expect(data.output).toEqual({ total: 12, customer: { email: "a@b.co" } });
+    expect(data.artifacts).toHaveLength(1);
+    expect(data.artifacts[0]).toMatchObject({ name: "receipt.pdf", runId: data.id });
+  });
+
+  it("falls back to 202 with the run URL when the timeout elapses", async () => {
+    gated = true;
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger?wait=true&timeout=0.2`, {});
+    expect(res.status).toBe(202);
+
+    const { data } = (await res.json()) as { data: { id: string; status: string; url: string } };
+    expect(["pending", "running"]).toContain(data.status);
+    expect(data.url).toBe(`/runs/${data.id}`);
+    expect(res.headers.get("Location")).toBe(`/runs/${data.id}`);
+
+    gated = false;
+    release();
+    const runRepo = new RunRepository(db);
+    await waitFor(async () => (await runRepo.findById(data.id))?.status === "completed");
+  });
+});
+
+describe("Engine Integration: Inbound hooks", () => {
+  const workflowId = `wf-hook-${nanoid(6)}`;
+  const secret = "hook-secret-value";
+
+  let app: Hono<AppEnv>;
+  let runRepo: RunRepository;
+  let token: string;
+
+  async function setHookConfig(config: Record<string, unknown>) {
+    await db.execute(sql`
+      UPDATE workflow_versions SET trigger_config = ${JSON.stringify(config)}::jsonb
+      WHERE workflow_id = ${workflowId} AND version = 1
+    `);
+  }
+
+  function deliver(body: unknown, headers: Record<string, string> = {}) {
+    return app.request(`/hooks/${token}?source=test`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  function signed(body: unknown, timestamp = Math.floor(Date.now() / 1000)) {
+    return {
+      "X-Vsync-Timestamp": String(timestamp),
+      "X-Vsync-Signature": `sha256=${signHookPayload(secret, JSON.stringify(body), { timestamp })}`,
+    };
+  }
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "Hook Workflow");
+    await db.execute(sql`
+      INSERT INTO workflow_versions (workflow_id, version, status, trigger_type, trigger_config)
+      VALUES (${workflowId}, 1, 'draft', 'hook', ${JSON.stringify({ hook_secret: secret })}::jsonb)
+    `);
+    await seedBlock("blk-hook-1", workflowId, 1, "Echo", "object", 0, {});
+
+    const interpreter = new Interpreter();
+    interpreter.blockExecutor.registerHandler("object", async (_block, context) => {
+      const body = context.event["body"] as { order?: number } | null;
+      return { stateDelta: { order: body?.order ?? null, source: (context.event["query"] as Record<string, string>)["source"] } };
+    });
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    app = createEngineTestApp(createTestAuth(getAuthCtx()), db, wsManager, executionService);
+    runRepo = new RunRepository(db);
+
+    const publish = await request(app, "POST", `/workflows/${workflowId}/versions/1/publish`);
+    expect(publish.status).toBe(200);
+    const workflow = await new WorkflowRepository(db).findById(workflowId);
+    token = workflow!.hookToken!;
+  });
+
+  it("mints a hook token when a hook version is published", () => {
+    expect(token).toMatch(/^[\w-]{32}$/);
+  });
+
+  it("queues a run with the request mapped into $event", async () => {
+    const body = { order: 42 };
+    const res = await deliver(body, signed(body));
+    expect(res.status).toBe(202);
+
+    const { data } = (await res.json()) as { data: { runId: string; deliveryId: string } };
+    await waitFor(async () => (await runRepo.findById(data.runId))?.status === "completed");
+
+    const run = await runRepo.findById(data.runId);
+    expect(run!.triggerType).toBe("hook");
+    expect(run!.triggerSource).toBe(`hook:${data.deliveryId}`);
+    expect(run!.output).toEqual({ order: 42, source: "test" });
+
+    const event = run!.metadata as { method: string; headers: Record<string, string>; body: unknown };
+    expect(event.method).toBe("POST");
+    expect(event.body).toEqual(body);
+    expect(event.headers["content-type"]).toBe("application/json");
+    expect(event.headers["x-vsync-signature"]).toBeUndefined();
+  });
+
+  it("rejects bad signatures and stale timestamps, logging each delivery", async () => {
+    const body = { order: 1 };
+
+    const forged = await deliver(body, { ...signed(body), "X-Vsync-Signature": "sha256=deadbeef" });
+    expect(forged.status).toBe(401);
+    expect(((await forged.json()) as { error: { code: string } }).error.code).toBe("INVALID_SIGNATURE");
+
+    const stale = await deliver(body, signed(body, Math.floor(Date.now() / 1000) - 3600));
+    expect(stale.status).toBe(401);
+
+    const unsigned = await deliver(body);
+    expect(unsigned.status).toBe(401);
+
+    const res = await request(app, "GET", `/workflows/${workflowId}/hook-deliveries`);
+    const { data } = (await res.json()) as {
+      data: Array<{ status: string; error: string | null; responseStatus: number; body: unknown }>;
+    };
+    const rejected = data.filter((d) => d.status === "rejected");
+    expect(rejected.map((d) => d.error)).toEqual([
+      "Missing x-vsync-signature header",
+      "Timestamp is outside the replay window",
+      "Signature does not match",
+    ]);
+    expect(rejected.map((d) => d.body)).toEqual([null, null, null]);
+    expect(data.filter((d) => d.status === "accepted")).toHaveLength(1);
+  });
+
+  it("rejects oversized bodies by Content-Length and while streaming", async () => {
+    const declared = await app.request(`/hooks/${token}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Content-Length": String(HOOK_MAX_BODY_BYTES + 1) },
+      body: "{}",
+    });
+    expect(declared.status).toBe(413);
+
+    const chunk = new Uint8Array(64 * 1024).fill(0x20);
+    let sent = 0;
+    const streamed = await app.request(`/hooks/${token}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: new ReadableStream<Uint8Array>({
+        pull(controller) {
+          sent += chunk.byteLength;
+          if (sent > HOOK_MAX_BODY_BYTES * 4) controller.close();
+          else controller.enqueue(chunk);
+        },
+      }),
+      duplex: "half",
+    } as RequestInit);
+    expect(streamed.status).toBe(413);
+    expect(sent).toBeLessThan(HOOK_MAX_BODY_BYTES * 2);
+  });
+
+  it("verifies a body-only signature with a custom header and algorithm", async () => {
+    await setHookConfig({
+      hook_secret: secret,
+      hook_signature_header: "X-Hub-Signature",
+      hook_algorithm: "sha1",
+      hook_tolerance_seconds: 0,
+    });
+
+    const body = { order: 7 };
+    const signature = signHookPayload(secret, JSON.stringify(body), { algorithm: "sha1" });
+    const res = await deliver(body, { "X-Hub-Signature": `sha1=${signature}` });
+    expect(res.status).toBe(202);
+  });
+
+  it("responds with the workflow output in output mode", async () => {
+    await setHookConfig({ hook_response: "output" });
+
+    const res = await deliver({ order: 9 });
+    expect(res.status).toBe(200);
+
+    const { data } = (await res.json()) as { data: { status: string; output: Record<string, unknown> } };
+    expect(data.status).toBe("completed");
+    expect(data.output).toEqual({ order: 9, source: "test" });
+  });
+
+  it("returns 404 for an unknown token", async () => {
+    const res = await app.request("/hooks/not-a-token", { method: "POST" });
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("Engine Integration: Input/output contracts", () => {
+  const workflowId = `wf-io-${nanoid(6)}`;
+  const hookWorkflowId = `wf-io-hook-${nanoid(6)}`;
+
+  const inputSchema = {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 },
+      count: { type: "integer", minimum: 0 },
+    },
+    required: ["name"],
+  };
+  const outputSchema = {
+    type: "object",
+    properties: { greeting: { type: "string" }, count: { type: "integer", maximum: 10 } },
+    required: ["greeting"],
+  };
+
+  let app: Hono<AppEnv>;
+  let hookToken: string;
+
+  beforeAll(async () => {
+    await seedWorkflow(workflowId, "Contract Workflow");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-io-1", workflowId, 1, "Greet", "object", 0, {});
+
+    await seedWorkflow(hookWorkflowId, "Contract Hook Workflow");
+    await db.execute(sql`
+      INSERT INTO workflow_versions (workflow_id, version, status, trigger_type, input_schema)
+      VALUES (${hookWorkflowId}, 1, 'draft', 'hook', ${JSON.stringify(inputSchema)}::jsonb)
+    `);
+    await seedBlock("blk-io-hook-1", hookWorkflowId, 1, "Greet", "object", 0, {});
+
+    const interpreter = new Interpreter();
+    interpreter.blockExecutor.registerHandler("object", async (_block, context) => {
+      const event = context.event as { name?: string; count?: number; body?: { name?: string } };
+      return { stateDelta: { greeting: `Hello ${event.name ?? event.body?.name}`, count: event.count ?? 0 } };
+    });
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    app = createEngineTestApp(createTestAuth(getAuthCtx()), db, wsManager, executionService);
+
+    const publish = await request(app, "POST", `/workflows/${hookWorkflowId}/versions/1/publish`);
+    expect(publish.status).toBe(200);
+    hookToken = (await new WorkflowRepository(db).findById(hookWorkflowId))!.hookToken!;
+  });
+
+  it("rejects schemas with unknown types, keywords or patterns", async () => {
+    const res = await request(app, "PATCH", `/workflows/${workflowId}/versions/1`, {
+      inputSchema: { type: "object", properties: { id: { type: "uuid", pattern: "(" } }, oneOf: [] },
+    });
+    expect(res.status).toBe(422);
+
+    const { error } = (await res.json()) as { error: { code: string; details: Array<{ path: string; message: string }> } };
+    expect(error.code).toBe("INVALID_SCHEMA");
+    expect(error.details).toEqual([
+      { path: "", message: 'Unsupported keyword "oneOf"' },
+      { path: "/properties/id", message: 'Unknown type "uuid"' },
+      { path: "/properties/id", message: 'Invalid pattern "("' },
+    ]);
+  });
+
+  it("rejects a trigger payload that breaks the input schema", async () => {
+    const patch = await request(app, "PATCH", `/workflows/${workflowId}/versions/1`, { inputSchema, outputSchema });
+    expect(patch.status).toBe(200);
+
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger`, {
+      metadata: { count: -1, extra: true },
+    });
+    expect(res.status).toBe(422);
+
+    const { error } = (await res.json()) as { error: { code: string; details: Array<{ path: string }> } };
+    expect(error.code).toBe("INVALID_INPUT");
+    expect(error.details.map((d) => d.path)).toEqual(["/name", "/count"]);
+    expect((await new RunRepository(db).findByWorkflow(workflowId))).toHaveLength(0);
+  });
+
+  it("runs a valid payload and keeps an output that matches the output schema", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger?wait=true`, {
+      metadata: { name: "Ada", count: 3 },
+    });
+    expect(res.status).toBe(200);
+
+    const { data } = (await res.json()) as { data: { status: string; output: unknown } };
+    expect(data.status).toBe("completed");
+    expect(data.output).toEqual({ greeting: "Hello Ada", count: 3 });
+  });
+
+  it("fails a run whose output breaks the output schema", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger?wait=true`, {
+      metadata: { name: "Ada", count: 50 },
+    });
+    const { data } = (await res.json()) as { data: { status: string; errorMessage: string; output: unknown } };
+    expect(data.status).toBe("failed");
+    expect(data.errorMessage).toBe("Output does not match the output schema: /count: Must be <= 10");
+    expect(data.output).toBeNull();
+  });
+
+  it("rejects and logs hook deliveries that break the input schema", async () => {
+    const deliver = (body: unknown) =>
+      app.request(`/hooks/${hookToken}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    const bad = await deliver({ name: "" });
+    expect(bad.status).toBe(422);
+    expect(((await bad.json()) as { error: { code: string } }).error.code).toBe("INVALID_INPUT");
+
+    const good = await deliver({ name: "Grace" });
+    expect(good.status).toBe(202);
+
+    const log = await request(app, "GET", `/workflows/${hookWorkflowId}/hook-deliveries`);
+    const { data } = (await log.json()) as { data: Array<{ status: string; responseStatus: number }> };
+    expect(data.map((d) => [d.status, d.responseStatus]).sort()).toEqual([
+      ["accepted", 202],
+      ["rejected", 422],
+    ]);
+  });
+});
+
+describe("Engine Integration: Cron scheduler", () => {
+  const suffix = nanoid(6);
+  const onTimeId = `wf-cron-${suffix}`;
+  const skipId = `wf-cron-skip-${suffix}`;
+  const onceId = `wf-cron-once-${suffix}`;
+  const allId = `wf-cron-all-${suffix}`;
+
+  let app: Hono<AppEnv>;
+  let runRepo: RunRepository;
+  let scheduler: ScheduleService;
+  let notified: number;
+
+  const at = (time: string) => new Date(`2026-01-05T${time}Z`);
+
+  async function seedScheduled(workflowId: string, triggerConfig: Record<string, unknown>) {
+    await seedWorkflow(workflowId, `Scheduled ${workflowId}`);
+    await db.execute(sql`
+      INSERT INTO workflow_versions (workflow_id, version, status, trigger_type, trigger_config)
+      VALUES (${workflowId}, 1, 'published', 'schedule', ${JSON.stringify(triggerConfig)}::jsonb)
+    `);
+  }
+
+  beforeAll(async () => {
+    await seedScheduled(onTimeId, { schedule_cron: "*/5 * * * *" });
+    await seedScheduled(skipId, { schedule_cron: "*/5 * * * *", schedule_missed: "skip" });
+    await seedScheduled(onceId, { schedule_cron: "*/5 * * * *", schedule_missed: "fire_once" });
+    await seedScheduled(allId, { schedule_cron: "*/5 * * * *", schedule_missed: "fire_all" });
+
+    notified = 0;
+    scheduler = new ScheduleService(db, () => { notified++; });
+    runRepo = new RunRepository(db);
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, new Interpreter());
+    app = createEngineTestApp(createTestAuth(getAuthCtx()), db, wsManager, executionService);
+  });
+
+  it("enqueues one schedule-triggered run per fire time", async () => {
+    await scheduler.sync(at("10:02:00"));
+    expect(await scheduler.tick(at("10:04:00"))).toHaveLength(0);
+
+    await scheduler.tick(at("10:05:10"));
+    const runs = await runRepo.findByWorkflow(onTimeId);
+    expect(runs).toHaveLength(1);
+    expect(runs[0].status).toBe("pending");
+    expect(runs[0].triggerType).toBe("schedule");
+    expect(runs[0].triggerSource).toMatch(/^schedule:/);
+    expect(runs[0].metadata).toMatchObject({
+      scheduledFor: "2026-01-05T10:05:00.000Z",
+      cron: "*/5 * * * *",
+      timezone: "UTC",
+      missed: false,
+    });
+    expect(notified).toBeGreaterThan(0);
+
+    /* The fire time was claimed — a second tick (or instance) does not repeat it */
+    await scheduler.tick(at("10:05:20"));
+    expect(await runRepo.findByWorkflow(onTimeId)).toHaveLength(1);
+  });
+
+  it("applies the missed-fire policy after downtime", async () => {
+    /* Fire times 10:10 – 10:25 were missed; 10:30 is within the grace period */
+    await scheduler.tick(at("10:30:30"));
+
+    const scheduledFor = async (workflowId: string) =>
+      (await runRepo.findByWorkflow(workflowId))
+        .map((run) => (run.metadata as { scheduledFor: string; missed: boolean }))
+        .sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+
+    expect(await scheduledFor(skipId)).toEqual([
+      { scheduledFor: "2026-01-05T10:05:00.000Z", missed: false },
+      { scheduledFor: "2026-01-05T10:30:00.000Z", missed: false },
+    ].map((m) => expect.objectContaining(m)));
+
+    expect(await scheduledFor(onceId)).toEqual([
+      { scheduledFor: "2026-01-05T10:05:00.000Z", missed: false },
+      { scheduledFor: "2026-01-05T10:10:00.000Z", missed: true },
+      { scheduledFor: "2026-01-05T10:30:00.000Z", missed: false },
+    ].map((m) => expect.objectContaining(m)));
+
+    const all = await scheduledFor(allId);
+    expect(all).toHaveLength(6);
+    expect(all.filter((m) => m.missed).map((m) => m.scheduledFor)).toEqual([
+      "2026-01-05T10:10:00.000Z",
+      "2026-01-05T10:15:00.000Z",
+      "2026-01-05T10:20:00.000Z",
+      "2026-01-05T10:25:00.000Z",
+    ]);
+  });
+
+  it("exposes the next fire time on the workflow", async () => {
+    const res = await request(app, "GET", `/workflows/${onTimeId}`);
+    const body = (await res.json()) as { data: { schedule: Record<string, unknown> } };
+
+    expect(body.data.schedule).toMatchObject({
+      cron: "*/5 * * * *",
+      timezone: "UTC",
+      missedPolicy: "skip",
+      nextFireAt: "2026-01-05T10:35:00.000Z",
+      lastFiredAt: "2026-01-05T10:30:00.000Z",
+    });
+  });
+
+  it("rejects invalid schedules on version update and publish", async () => {
+    const badCron = await request(app, "PATCH", `/workflows/${onTimeId}/versions/1`, {
+      triggerType: "schedule",
+      triggerConfig: { schedule_cron: "61 * * * *" },
+    });
+    expect(badCron.status).toBe(422);
+    expect(((await badCron.json()) as { error: { code: string } }).error.code).toBe("INVALID_SCHEDULE");
+
+    await db.execute(sql`
+      INSERT INTO workflow_versions (workflow_id, version, status, trigger_type, trigger_config)
+      VALUES (${onTimeId}, 2, 'draft', 'schedule', ${JSON.stringify({ schedule_cron: "0 9 * * *", schedule_timezone: "Mars/Olympus" })}::jsonb)
+    `);
+    const badZone = await request(app, "POST", `/workflows/${onTimeId}/versions/2/publish`);
+    expect(badZone.status).toBe(422);
+  });
+
+  it("drops the schedule once the workflow is disabled", async () => {
+    await db.execute(sql`UPDATE workflows SET is_disabled = true WHERE id = ${skipId}`);
+    await scheduler.tick(at("10:35:05"));
+
+    expect(await runRepo.findByWorkflow(skipId)).toHaveLength(2);
+    expect(await new ScheduleRepository(db).findByWorkflow(skipId)).toBeUndefined();
+  });
+});
+
+describe("Engine Integration: WorkflowExecutionService unit behaviour", () => {
+  it("cancelRun leaves nothing behind for a run no execution owns", () => {
+    const interpreter = new Interpreter();
+    const wsManager = new WSManager();
+    const service = new WorkflowExecutionService(db, wsManager, interpreter);
+
+    expect(service.isCancelled("run-1")).toBe(false);
+    service.cancelRun("run-1");
+    expect(service.isCancelled("run-1")).toBe(false);
+  });
+});
+
+/* ── Branching ────────────────────────────────────────────────── */
+
+describe("Engine Integration: Switch blocks and condition groups", () => {
+  const workflowId = `wf-switch-${nanoid(6)}`;
+  let app: Hono<AppEnv>;
+
+  beforeAll(async () => {
+    /* Earlier suites' workers claim any run queued while they are still draining */
+    await waitFor(async () => {
+      const result = await db.execute(sql`SELECT 1 FROM runs WHERE status IN ('pending', 'running')`);
+      return result.rows.length === 0;
+    });
+
+    await seedWorkflow(workflowId, "Ticket Router");
+    await seedVersion(workflowId, 1);
+
+    const interpreter = new Interpreter();
+    interpreter.blockExecutor.registerHandler("object", async (block) => ({
+      stateDelta: { [`visited_${block.name}`]: true },
+    }));
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    app = createEngineTestApp(createTestAuth(getAuthCtx()), db, wsManager, executionService);
+
+    const addBlock = (body: Record<string, unknown>) =>
+      request(app, "POST", `/workflows/${workflowId}/versions/1/blocks`, body);
+
+    const created = await Promise.all([
+      addBlock({
+        name: "Route",
+        type: "switch",
+        order: 0,
+        logic: {
+          switch_cases: [
+            {
+              label: "urgent",
+              conditions: [{ any: [
+                { left: "$event.priority", operator: ">=", right: "8" },
+                { left: "$event.tags", operator: "contains", right: "outage" },
+              ] }],
+              target: "Page",
+            },
+          ],
+          switch_default: "Queue",
+        },
+      }),
+      addBlock({ name: "Page", type: "object", order: 1 }),
+      addBlock({
+        name: "Notify",
+        type: "object",
+        order: 2,
+        conditions: [{ not: { left: "$event.quiet", operator: "==", right: "true" } }],
+      }),
+      addBlock({ name: "Queue", type: "object", order: 3 }),
+    ]);
+    expect(created.map((r) => r.status)).toEqual([201, 201, 201, 201]);
+  });
+
+  it("routes through the first matching case and honours NOT guards", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger?wait=true`, {
+      metadata: { priority: 2, tags: ["outage"], quiet: true },
+    });
+    const { data } = (await res.json()) as { data: { status: string; output: Record<string, unknown> } };
+
+    expect(data.status).toBe("completed");
+    expect(data.output).toEqual({ visited_Page: true, visited_Queue: true });
+  });
+
+  it("takes the default when no case matches", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger?wait=true`, {
+      metadata: { priority: 2, tags: [] },
+    });
+    const { data } = (await res.json()) as { data: { status: string; output: Record<string, unknown> } };
+
+    expect(data.status).toBe("completed");
+    expect(data.output).toEqual({ visited_Queue: true });
+  });
+});
+
+/* ── Sub-workflow calls ───────────────────────────────────────── */
+
+describe("Engine Integration: Workflow blocks run child workflows", () => {
+  const childId = `wf-call-child-${nanoid(6)}`;
+  const parentId = `wf-call-parent-${nanoid(6)}`;
+  const loopId = `wf-call-loop-${nanoid(6)}`;
+  const strictId = `wf-call-strict-${nanoid(6)}`;
+
+  let app: Hono<AppEnv>;
+
+  beforeAll(async () => {
+    /* Earlier suites' workers claim any run queued while they are still draining */
+    await waitFor(async () => {
+      const result = await db.execute(sql`SELECT 1 FROM runs WHERE status IN ('pending', 'running')`);
+      return result.rows.length === 0;
+    });
+
+    await seedWorkflow(childId, "Quote Child");
+    await seedVersion(childId, 1);
+    await seedBlock("blk-call-child-1", childId, 1, "Quote", "object", 0, {});
+
+    await seedWorkflow(parentId, "Quote Parent");
+    await seedVersion(parentId, 1);
+    await seedBlock("blk-call-parent-1", parentId, 1, "Get quote", "workflow", 0, {
+      workflow_id: childId,
+      workflow_input: { qty: "$event.qty" },
+      workflow_output_map: { total: "quote.total" },
+    });
+
+    await seedWorkflow(loopId, "Calls Itself");
+    await seedVersion(loopId, 1);
+    await seedBlock("blk-call-loop-1", loopId, 1, "Recurse", "workflow", 0, { workflow_id: loopId });
+
+    await seedWorkflow(strictId, "Strict Parent");
+    await seedVersion(strictId, 1);
+    await seedBlock("blk-call-strict-1", strictId, 1, "Get quote", "workflow", 0, {
+      workflow_id: childId,
+      workflow_input: { qty: "many" },
+    });
+    await db.execute(sql`
+      UPDATE workflow_versions
+      SET input_schema = ${JSON.stringify({ type: "object", properties: { qty: { type: "integer" } } })}::jsonb
+      WHERE workflow_id = ${childId}
+    `);
+
+    const interpreter = new Interpreter({ maxCallDepth: 3 });
+    interpreter.blockExecutor.registerHandler("workflow", workflowExecutor);
+    interpreter.blockExecutor.registerHandler("object", async (_block, context) => {
+      const qty = (context.event as { qty: number }).qty;
+      return { stateDelta: { quote: { total: qty * 5 } } };
+    });
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    app = createEngineTestApp(createTestAuth(getAuthCtx()), db, wsManager, executionService);
+  });
+
+  it("binds the child's output and links the child run to the parent", async () => {
+    const res = await request(app, "POST", `/workflows/${parentId}/trigger?wait=true`, {
+      metadata: { qty: 4 },
+    });
+    const { data } = (await res.json()) as { data: { id: string; status: string; output: unknown } };
+    expect(data.status).toBe("completed");
+    expect(data.output).toEqual({ total: 20 });
+
+    const detail = await request(app, "GET", `/runs/${data.id}`);
+    const { data: run } = (await detail.json()) as {
+      data: { callDepth: number; children: Array<{ id: string; workflowId: string; status: string; parentBlockId: string }> };
+    };
+    expect(run.callDepth).toBe(0);
+    expect(run.children).toHaveLength(1);
+    expect(run.children[0]).toMatchObject({
+      workflowId: childId,
+      status: "completed",
+      parentBlockId: "blk-call-parent-1",
+    });
+
+    const child = await new RunRepository(db).findById(run.children[0].id);
+    expect(child).toMatchObject({
+      parentRunId: data.id,
+      callDepth: 1,
+      triggerSource: `workflow:${data.id}`,
+      metadata: { qty: 4 },
+      output: { quote: { total: 20 } },
+    });
+  });
+
+  it("fails the parent when the child's input breaks its input schema", async () => {
+    const res = await request(app, "POST", `/workflows/${strictId}/trigger?wait=true`, {});
+    const { data } = (await res.json()) as { data: { status: string; errorMessage: string } };
+    expect(data.status).toBe("failed");
+    expect(data.errorMessage).toContain(`Input for workflow "${childId}" does not match its input schema`);
+  });
+
+  it("stops a recursive workflow at the call depth limit", async () => {
+    const res = await request(app, "POST", `/workflows/${loopId}/trigger?wait=true`, {});
+    const { data } = (await res.json()) as { data: { status: string; errorMessage: string } };
+    expect(data.status).toBe("failed");
+    expect(data.errorMessage).toContain("Workflow call depth limit reached (3)");
+
+    const runs = await new RunRepository(db).findByWorkflow(loopId);
+    expect(runs.map((r) => r.callDepth).sort()).toEqual([0, 1, 2, 3]);
+    expect(runs.every((r) => r.status === "failed")).toBe(true);
+  });
+});
+
+/* ── Simulation ───────────────────────────────────────────────── */
+
+describe("Engine Integration: Simulating a version", () => {
+  const workflowId = `wf-sim-${nanoid(6)}`;
+  const fetched: string[] = [];
+
+  let app: Hono<AppEnv>;
+
+  beforeAll(async () => {
+    /* Earlier suites' workers claim any run queued while they are still draining */
+    await waitFor(async () => {
+      const result = await db.execute(sql`SELECT 1 FROM runs WHERE status IN ('pending', 'running')`);
+      return result.rows.length === 0;
+    });
+
+    await seedWorkflow(workflowId, "Price Check");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-sim-1", workflowId, 1, "Get price", "fetch", 0, { fetch_url: "https://example.com/price" });
+    await seedBlock("blk-sim-2", workflowId, 1, "Total", "object", 1, {});
+    await seedBlock("blk-sim-3", workflowId, 1, "Notify", "fetch", 2, { fetch_url: "https://example.com/notify" });
+
+    const interpreter = new Interpreter();
+    interpreter.blockExecutor.registerHandler("fetch", async (block) => {
+      fetched.push(block.id);
+      return { stateDelta: { live: true } };
+    });
+    interpreter.blockExecutor.registerHandler("object", async (_block, context) => {
+      const { price } = context.state as { price?: number };
+      const { qty } = context.event as { qty?: number };
+      return { stateDelta: { total: (price ?? 0) * (qty ?? 1) } };
+    });
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    app = createEngineTestApp(createTestAuth(getAuthCtx()), db, wsManager, executionService);
+  });
+
+  it("returns the trace and final state from mocks without running side effects or storing a run", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/versions/1/simulate`, {
+      event: { qty: 3 },
+      blocks: { "blk-sim-1": { stateDelta: { price: 7 } } },
+    });
+    expect(res.status).toBe(200);
+
+    const { data } = (await res.json()) as {
+      data: { status: string; state: Record<string, unknown>; output: Record<string, unknown>; steps: Step[] };
+    };
+    expect(data.status).toBe("completed");
+    expect(data.state).toEqual({ price: 7, total: 21 });
+    expect(data.output).toEqual({ price: 7, total: 21 });
+    expect(data.steps.map((s) => [s.blockName, s.status, s.simulated])).toEqual([
+      ["Get price", "completed", "mock"],
+      ["Total", "completed", undefined],
+      ["Notify", "completed", "stub"],
+    ]);
+
+    expect(fetched).toEqual([]);
+    expect(await new RunRepository(db).findByWorkflow(workflowId)).toEqual([]);
+  });
+
+  it("fails on an error mock and 404s for a missing version", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/versions/1/simulate`, {
+      types: { fetch: { error: "connect ECONNREFUSED" } },
+    });
+    const { data } = (await res.json()) as { data: { status: string; errorMessage: string; output?: unknown } };
+    expect(data.status).toBe("failed");
+    expect(data.errorMessage).toContain("connect ECONNREFUSED");
+    expect(data.output).toBeUndefined();
+
+    const missing = await request(app, "POST", `/workflows/${workflowId}/versions/9/simulate`, {});
+    expect(missing.status).toBe(404);
+  });
+});
+
+/* ── Test cases ───────────────────────────────────────────────── */
+
+describe("Engine Integration: Workflow test cases", () => {
+  const workflowId = `wf-tests-${nanoid(6)}`;
+  let app: Hono<AppEnv>;
+
+  beforeAll(async () => {
+    /* Earlier suites' workers claim any run queued while they are still draining */
+    await waitFor(async () => {
+      const result = await db.execute(sql`SELECT 1 FROM runs WHERE status IN ('pending', 'running')`);
+      return result.rows.length === 0;
+    });
+
+    await seedWorkflow(workflowId, "Discounts");
+    await db.execute(sql`
+      INSERT INTO workflow_versions (workflow_id, version, status, trigger_type)
+      VALUES (${workflowId}, 1, 'draft', 'api')
+    `);
+    await seedBlock("blk-tests-1", workflowId, 1, "Get price", "fetch", 0, { fetch_url: "https://example.com/price" });
+    await seedBlock("blk-tests-2", workflowId, 1, "Discount", "object", 1, {});
+
+    const interpreter = new Interpreter();
+    interpreter.blockExecutor.registerHandler("fetch", async () => {
+      throw new Error("fetch must not run in a test case");
+    });
+    interpreter.blockExecutor.registerHandler("object", async (_block, context) => {
+      const { price } = context.state as { price: number };
+      return { stateDelta: { total: price >= 100 ? price * 0.9 : price } };
+    });
+
+    const wsManager = new WSManager();
+    const executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    app = createEngineTestApp(createTestAuth(getAuthCtx()), db, wsManager, executionService);
+  });
+
+  it("stores cases per version and rejects duplicate names and unknown versions", async () => {
+    const created = await request(app, "POST", `/workflows/${workflowId}/tests`, {
+      version: 1,
+      name: "no discount under 100",
+      mocks: { "blk-tests-1": { stateDelta: { price: 40 } } },
+      expectedState: { total: 40 },
+      expectedSteps: { "blk-tests-2": "completed" },
+    });
+    expect(created.status).toBe(201);
+    const { data } = (await created.json()) as { data: { id: string; expectedStatus: string; event: unknown } };
+    expect(data).toMatchObject({ expectedStatus: "completed", event: {} });
+
+    const duplicate = await request(app, "POST", `/workflows/${workflowId}/tests`, {
+      version: 1,
+      name: "no discount under 100",
+    });
+    expect(duplicate.status).toBe(409);
+
+    const unknown = await request(app, "POST", `/workflows/${workflowId}/tests`, { version: 7, name: "x" });
+    expect(unknown.status).toBe(404);
+
+    const list = await request(app, "GET", `/workflows/${workflowId}/tests?version=1`);
+    const { data: tests } = (await list.json()) as { data: Array<{ id: string }> };
+    expect(tests.map((t) => t.id)).toEqual([data.id]);
+
+    const run = await request(app, "POST", `/workflows/${workflowId}/tests/${data.id}/run`);
+    const { data: result } = (await run.json()) as { data: { passed: boolean; failures: string[] } };
+    expect(result).toMatchObject({ passed: true, failures: [] });
+  });
+
+  it("gates publishing on the version's suite passing", async () => {
+    const created = await request(app, "POST", `/workflows/${workflowId}/tests`, {
+      version: 1,
+      name: "10% off from 100",
+      mocks: { "blk-tests-1": { stateDelta: { price: 200 } } },
+      expectedState: { total: 190 },
+    });
+    const { data: test } = (await created.json()) as { data: { id: string } };
+
+    const suiteRes = await request(app, "POST", `/workflows/${workflowId}/tests/run`, { version: 1 });
+    const { data: suite } = (await suiteRes.json()) as {
+      data: { passed: boolean; total: number; failed: number; cases: Array<{ name: string; failures: string[] }> };
+    };
+    expect(suite).toMatchObject({ passed: false, total: 2, failed: 1 });
+    expect(suite.cases[1].failures).toEqual(["$state.total: expected 190, got 180"]);
+
+    const blocked = await request(app, "POST", `/workflows/${workflowId}/versions/1/publish`);
+    expect(blocked.status).toBe(422);
+    const { error } = (await blocked.json()) as { error: { code: string; message: string } };
+    expect(error.code).toBe("TESTS_FAILED");
+    expect(error.message).toContain('fails 1 of 2 tests: "10% off from 100": $state.total: expected 190, got 180');
+
+    const fixed = await request(app, "PATCH", `/workflows/${workflowId}/tests/${test.id}`, {
+      expectedState: { total: 180 },
+    });
+    expect(fixed.status).toBe(200);
+
+    const published = await request(app, "POST", `/workflows/${workflowId}/versions/1/publish`);
+    expect(published.status).toBe(200);
+    const { meta } = (await published.json()) as { meta: { tests: { passed: boolean; total: number } } };
+    expect(meta.tests).toMatchObject({ passed: true, total: 2 });
+
+    expect(await new RunRepository(db).findByWorkflow(workflowId)).toEqual([]);
+  });
+});
+
+/* ── Debugger ─────────────────────────────────────────────────── */
+
+describe("Engine Integration: Debugging a run", () => {
+  const workflowId = `wf-debug-${nanoid(6)}`;
+  let app: Hono<AppEnv>;
+  let wsManager: WSManager;
+  let executionService: WorkflowExecutionService;
+  let runRepo: RunRepository;
+
+  beforeAll(async () => {
+    /* Earlier suites' workers claim any run queued while they are still draining */
+    await waitFor(async () => {
+      const result = await db.execute(sql`SELECT 1 FROM runs WHERE status IN ('pending', 'running')`);
+      return result.rows.length === 0;
+    });
+
+    await seedWorkflow(workflowId, "Debuggable");
+    await seedVersion(workflowId, 1);
+    await seedBlock("blk-debug-1", workflowId, 1, "First", "object", 0);
+    await seedBlock("blk-debug-2", workflowId, 1, "Second", "object", 1);
+    await seedBlock("blk-debug-3", workflowId, 1, "Third", "object", 2);
+
+    const interpreter = new Interpreter();
+    interpreter.blockExecutor.registerHandler("object", async (block) => ({
+      stateDelta: { [`visited_${block.name}`]: true },
+    }));
+
+    wsManager = new WSManager();
+    executionService = new WorkflowExecutionService(db, wsManager, interpreter);
+    runRepo = new RunRepository(db);
+    app = createEngineTestApp(createTestAuth(getAuthCtx()), db, wsManager, executionService);
+  });
+
+  /** A debugger client connected for the test org and watching the run */
+  function connect(runId: string, orgId = testOrgId) {
+    const ws = createMockSocket();
+    wsManager.register(ws, { userId: testUserId, orgId, role: "member", channels: new Set([`run:${runId}`]) });
+    const received = () => ws.messages.map((m) => JSON.parse(m) as { type: string; [key: string]: unknown });
+    return { ws, received };
+  }
+
+  it("pauses at a breakpoint, edits state, steps and continues over the WebSocket", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger?wait=true`, {
+      debug: { breakpoints: ["blk-debug-2"] },
+    });
+    const { data: paused } = (await res.json()) as { data: { id: string; status: string } };
+    expect(paused.status).toBe("awaiting_action");
+
+    const runId = paused.id;
+    const { ws, received } = connect(runId);
+
+    /* The action endpoint is for UI blocks — debug pauses only take debug commands */
+    const action = await request(app, "POST", `/runs/${runId}/actions`, { actionType: "submit" });
+    expect(action.status).toBe(422);
+
+    handleMessage(wsManager, ws, JSON.stringify({
+      type: "debug", runId, command: "edit_state", state: { injected: 1 },
+    }), executionService);
+    await waitFor(async () => received().some((m) => m.type === "run:paused"));
+
+    const event = received().find((m) => m.type === "run:paused") as unknown as {
+      payload: { blockId: string; reason: string; context: { state: Record<string, unknown> } };
+    };
+    expect(event.payload).toMatchObject({
+      blockId: "blk-debug-2",
+      reason: "breakpoint",
+      context: { state: { visited_First: true, injected: 1 } },
+    });
+    expect(received().some((m) => m.type === "debug:ack" && m.command === "edit_state")).toBe(true);
+
+    handleMessage(wsManager, ws, JSON.stringify({ type: "debug", runId, command: "step" }), executionService);
+    await waitFor(async () => {
+      const run = await runRepo.findById(runId);
+      const state = run?.stepsJson as { pausedBlockId?: string } | null;
+      return run?.status === "awaiting_action" && state?.pausedBlockId === "blk-debug-3";
+    });
+
+    handleMessage(wsManager, ws, JSON.stringify({ type: "debug", runId, command: "continue" }), executionService);
+    await waitFor(async () => (await runRepo.findById(runId))?.status === "completed");
+
+    const run = await runRepo.findById(runId);
+    expect(run?.output).toEqual({ visited_First: true, injected: 1, visited_Second: true, visited_Third: true });
+    expect((run?.stepsJson as Step[]).map((s) => s.blockId)).toEqual(["blk-debug-1", "blk-debug-2", "blk-debug-3"]);
+  });
+
+  it("rejects debug commands from other orgs and for runs that are not paused", async () => {
+    const res = await request(app, "POST", `/workflows/${workflowId}/trigger?wait=true`, {
+      debug: { breakpoints: ["blk-debug-1"] },
+    });
+    const { data } = (await res.json()) as { data: { id: string } };
+
+    const outsider = connect(data.id, "00000000-0000-0000-0000-000000000000");
+    handleMessage(wsManager, outsider.ws, JSON.stringify({
+      type: "debug", runId: data.id, command: "continue",
+    }), executionService);
+    await waitFor(async () => outsider.received().some((m) => m.type === "debug:error"));
+    expect(outsider.received().find((m) => m.type === "debug:error")?.error).toBe("Run not found");
+    expect((await runRepo.findById(data.id))?.status).toBe("awaiting_action");
+
+    const plain = await request(app, "POST", `/workflows/${workflowId}/trigger?wait=true`, {});
+    const { data: completed } = (await plain.json()) as { data: { id: string; status: string } };
+    expect(completed.status).toBe("completed");
+
+    const client = connect(completed.id);
+    handleMessage(wsManager, client.ws, JSON.stringify({
+      type: "debug", runId: completed.id, command: "step",
+    }), executionService);
+    await waitFor(async () => client.received().some((m) => m.type === "debug:error"));
+    expect(client.received().find((m) => m.type === "debug:error")?.error).toBe("Run is not paused in the debugger");
+
+    /* Leave nothing paused for later suites' queue checks */
+    handleMessage(wsManager, connect(data.id).ws, JSON.stringify({
+      type: "debug", runId: data.id, command: "continue",
+    }), executionService);
+    await waitFor(async () => (await runRepo.findById(data.id))?.status === "completed");
   });
 });
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { checkContract, formatViolations, lintJsonSchema, validateJsonSchema } from "../lib/json-schema.js";
+import type { JsonSchema } from "@vsync/shared-types";
+
+const order: JsonSchema = {
+  type: "object",
+  properties: {
+    email: { type: "string", format: "email" },
+    status: { enum: ["new", "paid"] },
+    items: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: { sku: { type: "string", pattern: "^[A-Z]{3}-\\d+$" }, qty: { type: "integer", minimum: 1 } },
+        required: ["sku", "qty"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["email", "items"],
+};
+
+/* ── Validation ───────────────────────────────────────────────── */
+
+describe("validateJsonSchema", () => {
+  it("accepts a value that satisfies the schema", () => {
+    const value = { email: "a@b.co", status: "paid", items: [{ sku: "ABC-1", qty: 2 }] };
+    expect(validateJsonSchema(order, value)).toEqual([]);
+  });
+
+  it("reports every violation with its path", () => {
+    const value = { email: "nope", status: "lost", items: [{ sku: "abc", qty: 1.5, note: "x" }, {}] };
+
+    expect(validateJsonSchema(order, value)).toEqual([
+      { path: "/email", message: "Must be a valid email" },
+      { path: "/status", message: 'Must be one of "new", "paid"' },
+      { path: "/items/0/sku", message: "Must match ^[A-Z]{3}-\\d+$" },
+      { path: "/items/0/qty", message: "Expected integer, got number" },
+      { path: "/items/0/note", message: "Is not an allowed property" },
+      { path: "/items/1/sku", message: "Is required" },
+      { path: "/items/1/qty", message: "Is required" },
+    ]);
+  });
+
+  it("stops at a type mismatch and accepts union types", () => {
+    expect(validateJsonSchema(order, [])).toEqual([{ path: "", message: "Expected object, got array" }]);
+    expect(validateJsonSchema({ type: ["string", "null"] }, null)).toEqual([]);
+  });
+
+  it("checks string and array bounds and constants", () => {
+    expect(validateJsonSchema({ type: "string", minLength: 2, maxLength: 3 }, "abcd")).toHaveLength(1);
+    expect(validateJsonSchema({ type: "array", maxItems: 1 }, [1, 2])).toHaveLength(1);
+    expect(validateJsonSchema({ const: { a: 1 } }, { a: 1 })).toEqual([]);
+    expect(validateJsonSchema({ type: "string", format: "date" }, "2026-02-30x")).toHaveLength(1);
+  });
+});
+
+/* ── Contracts and schema linting ─────────────────────────────── */
+
+describe("checkContract", () => {
+  it("accepts anything when the version has no schema", () => {
+    expect(checkContract(null, 42)).toEqual([]);
+    expect(checkContract(undefined, { any: "thing" })).toEqual([]);
+  });
+
+  it("formats violations for error messages", () => {
+    const violations = checkContract({ type: "object", required: ["id"] }, {});
+    expect(formatViolations(violations)).toBe("/id: Is required");
+    expect(formatViolations(checkContract({ type: "string" }, 1))).toBe("(root): Expected string, got number");
+  });
+});
+
+describe("lintJsonSchema", () => {
+  it("passes a well-formed schema", () => {
+    expect(lintJsonSchema(order)).toEqual([]);
+  });
+
+  it("flags unknown keywords and types, bad patterns and malformed required lists", () => {
+    expect(lintJsonSchema({ type: "date", required: "id", items: { pattern: "[" }, $ref: "#/x" })).toEqual([
+      { path: "", message: 'Unsupported keyword "$ref"' },
+      { path: "", message: 'Unknown type "date"' },
+      { path: "", message: "required must be an array of property names" },
+      { path: "/items", message: 'Invalid pattern "["' },
+    ]);
+    expect(lintJsonSchema("object")).toEqual([{ path: "", message: "Schema must be an object" }]);
+  });
+});
@@ -10,7 +10,12 @@ import { requestId } from "./middleware/request-id.js";
 import { mountRoutes } from "./routes/index.js";
 import { WSManager } from "./ws/manager.js";
 import { WorkflowExecutionService } from "./services/WorkflowExecutionService.js";
+import type { RunQueueOptions } from "./services/RunQueue.js";
 import { PublicWorkflowService } from "./services/PublicWorkflowService.js";
+import { ScheduleService } from "./services/ScheduleService.js";
+import type { ScheduleServiceOptions } from "./services/ScheduleService.js";
+import { KeyHealthService } from "./services/KeyHealthService.js";
+import type { KeyHealthServiceOptions } from "./services/KeyHealthService.js";
 
 /** Configuration passed to createApp so the factory stays pure. */
 export interface AppConfig {
@@ -20,6 +25,12 @@ export interface AppConfig {
   disableWs?: boolean;
   /** Pre-built Interpreter instance — enables engine-backed execution. */
   interpreter?: Interpreter;
+  /** Concurrency and timing of the run queue worker. */
+  runQueue?: RunQueueOptions;
+  /** Polling and catch-up behaviour of the cron scheduler. */
+  scheduler?: ScheduleServiceOptions;
+  /** Interval of the key expiry and rotation sweep. */
+  keyHealth?: KeyHealthServiceOptions;
 }
 
 /** Return type wrapping the Hono app plus the WSManager instance. */
@@ -30,6 +41,10 @@ export interface AppInstance {
   executionService?: WorkflowExecutionService;
   /** Present when an interpreter was provided via config. */
   publicService?: PublicWorkflowService;
+  /** Present when an interpreter was provided via config. Not started — call start(). */
+  scheduleService?: ScheduleService;
+  /** Not started — call start(). */
+  keyHealthService: KeyHealthService;
 }
 
 /**
@@ -65,12 +80,23 @@ export function createApp(auth: AuthInstance, db: Database, config?: AppConfig):
 
   let executionService: WorkflowExecutionService | undefined;
   let publicService: PublicWorkflowService | undefined;
+  let scheduleService: ScheduleService | undefined;
 
   if (config?.interpreter) {
-    executionService = new WorkflowExecutionService(db, wsManager, config.interpreter);
+    const execution = new WorkflowExecutionService(db, wsManager, config.interpreter, config.runQueue);
+    executionService = execution;
     publicService = new PublicWorkflowService(db, wsManager, config.interpreter);
+    scheduleService = new ScheduleService(db, () => execution.notifyRunQueued(), config.scheduler);
   }
 
+  /* ── Key expiry and rotation sweep ───────────────────────── */
+
+  const keyHealthService = new KeyHealthService(
+    db,
+    config?.disableWs ? undefined : wsManager,
+    config?.keyHealth,
+  );
+
   /* ── Better Auth native handler ──────────────────────────────
    * The Better Auth client SDK (used by login/signup pages) makes
    * requests to /api/auth/* (e.g. /api/auth/sign-up/email).
@@ -91,7 +117,8 @@ export function createApp(auth: AuthInstance, db: Database, config?: AppConfig):
     config?.disableWs ? undefined : wsManager,
     executionService,
     publicService,
+    keyHealthService,
   );
 
-  return { app, wsManager, executionService, publicService };
+  return { app, wsManager, executionService, publicService, scheduleService, keyHealthService };
 }
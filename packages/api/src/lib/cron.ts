@@ -0,0 +1,247 @@
+/**
+ * Five-field cron expressions evaluated in an IANA timezone.
+ *
+ *   ┌ minute (0-59)
+ *   │ ┌ hour (0-23)
+ *   │ │ ┌ day of month (1-31)
+ *   │ │ │ ┌ month (1-12 or JAN-DEC)
+ *   │ │ │ │ ┌ day of week (0-7 or SUN-SAT, 0 and 7 are Sunday)
+ *   * * * * *
+ *
+ * Each field accepts `*`, values, ranges (`1-5`), lists (`1,15`) and
+ * steps (`*\/15`, `9-17/2`). The @hourly, @daily, @weekly, @monthly
+ * and @yearly macros are supported. As in Vixie cron, when both
+ * day fields are restricted a day matches if either one does.
+ *
+ * Matching happens on the wall clock of the schedule's timezone:
+ * a local time skipped by a DST change never fires, and a local time
+ * that repeats fires at each occurrence.
+ */
+
+export interface CronSchedule {
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  daysOfWeek: ReadonlySet<number>;
+
+  /** Whether the day-of-month / day-of-week fields were restricted (not starting with `*`) */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+/** Thrown for a malformed cron expression or unknown timezone */
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const MINUTE_MS = 60_000;
+
+/** Give up looking for the next fire time after this many years (e.g. "0 0 30 2 *") */
+const SEARCH_YEARS = 5;
+
+/** Parse a cron expression, throwing CronError if it is invalid */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new CronError(`Cron expression "${expression}" must have 5 fields, got ${fields.length}`);
+  }
+
+  const [minute, hour, dom, month, dow] = fields;
+  const daysOfWeek = parseField(dow, "day of week", 0, 7, DAY_NAMES, 0);
+
+  /* 7 is an alias for Sunday */
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseField(minute, "minute", 0, 59),
+    hours: parseField(hour, "hour", 0, 23),
+    daysOfMonth: parseField(dom, "day of month", 1, 31),
+    months: parseField(month, "month", 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    domRestricted: !dom.startsWith("*"),
+    dowRestricted: !dow.startsWith("*"),
+  };
+}
+
+/** Throw CronError unless `timeZone` is an IANA zone the runtime knows */
+export function assertTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new CronError(`Unknown timezone "${timeZone}"`);
+  }
+}
+
+/**
+ * The first fire time strictly after `after`, or null if the schedule
+ * cannot fire within the next few years.
+ */
+export function nextFireTime(schedule: CronSchedule, after: Date, timeZone = "UTC"): Date | null {
+  const wallClock = wallClockReader(timeZone);
+  const limit = after.getTime() + SEARCH_YEARS * 366 * 24 * 60 * MINUTE_MS;
+
+  /* Start at the next whole minute */
+  let t = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+  while (t <= limit) {
+    const local = wallClock(t);
+    const minuteOfDay = local.hour * 60 + local.minute;
+
+    if (!schedule.months.has(local.month) || !matchesDay(schedule, local)) {
+      /* Head for the next local midnight, stopping an hour short so a DST change can't carry us past it */
+      const untilMidnight = 24 * 60 - minuteOfDay;
+      t += (untilMidnight > 60 ? untilMidnight - 60 : untilMidnight) * MINUTE_MS;
+      continue;
+    }
+    if (!schedule.hours.has(local.hour)) {
+      t += (60 - local.minute) * MINUTE_MS;
+      continue;
+    }
+    if (!schedule.minutes.has(local.minute)) {
+      t += MINUTE_MS;
+      continue;
+    }
+    return new Date(t);
+  }
+
+  return null;
+}
+
+/**
+ * Every fire time in the half-open window (`after`, `until`], oldest
+ * first, stopping after `max` entries.
+ */
+export function fireTimesBetween(
+  schedule: CronSchedule,
+  after: Date,
+  until: Date,
+  timeZone = "UTC",
+  max = Infinity,
+): Date[] {
+  const times: Date[] = [];
+  let cursor = after;
+
+  while (times.length < max) {
+    const next = nextFireTime(schedule, cursor, timeZone);
+    if (!next || next > until) break;
+    times.push(next);
+    cursor = next;
+  }
+
+  return times;
+}
+
+/* ── Internal helpers ───────────────────────────────── */
+
+interface WallClock {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+function matchesDay(schedule: CronSchedule, local: WallClock): boolean {
+  const domMatch = schedule.daysOfMonth.has(local.day);
+  const dowMatch = schedule.daysOfWeek.has(local.weekday);
+
+  if (schedule.domRestricted && schedule.dowRestricted) return domMatch || dowMatch;
+  if (schedule.domRestricted) return domMatch;
+  if (schedule.dowRestricted) return dowMatch;
+  return true;
+}
+
+/** Build a reader for the local calendar fields of an instant in `timeZone` */
+function wallClockReader(timeZone: string): (epochMs: number) => WallClock {
+  assertTimeZone(timeZone);
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+  });
+
+  return (epochMs) => {
+    const parts: Record<string, string> = {};
+    for (const part of format.formatToParts(epochMs)) parts[part.type] = part.value;
+
+    return {
+      month: Number(parts["month"]),
+      day: Number(parts["day"]),
+      weekday: DAY_NAMES.indexOf((parts["weekday"] ?? "").toUpperCase()),
+      hour: Number(parts["hour"]),
+      minute: Number(parts["minute"]),
+    };
+  };
+}
+
+function parseField(
+  field: string,
+  label: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0,
+): Set<number> {
+  const values = new Set<number>();
+
+  const toNumber = (raw: string): number => {
+    const named = names?.indexOf(raw.toUpperCase()) ?? -1;
+    const value = named >= 0 ? named + nameOffset : Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max || raw === "") {
+      throw new CronError(`Invalid ${label} "${raw}" — expected ${min}-${max}`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronError(`Invalid ${label} step "${stepRaw}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = toNumber(from);
+      end = toNumber(to);
+      if (start > end) throw new CronError(`Invalid ${label} range "${range}"`);
+    } else {
+      start = toNumber(range);
+      /* "5/15" means every 15 starting at 5 */
+      end = stepRaw === undefined ? start : max;
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
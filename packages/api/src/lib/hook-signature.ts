@@ -0,0 +1,87 @@
+import crypto from "node:crypto";
+import { HOOK_SIGNATURE_TOLERANCE_SECONDS } from "@vsync/config";
+import type { HookSignatureAlgorithm, TriggerConfig } from "@vsync/shared-types";
+
+/**
+ * HMAC verification for inbound hook deliveries.
+ *
+ * With a replay window (the default) the sender signs
+ * "<timestamp>.<raw body>" and sends the Unix timestamp in its own
+ * header; deliveries whose timestamp is outside the window are
+ * rejected. A window of 0 signs the raw body alone. The signature
+ * header holds the hex digest, optionally prefixed "<algorithm>="
+ * as GitHub and others do.
+ */
+
+export const DEFAULT_HOOK_SIGNATURE_HEADER = "x-vsync-signature";
+export const DEFAULT_HOOK_TIMESTAMP_HEADER = "x-vsync-timestamp";
+
+const ALGORITHMS: readonly HookSignatureAlgorithm[] = ["sha1", "sha256", "sha512"];
+
+export interface HookSignatureResult {
+  valid: boolean;
+  /** Why verification failed */
+  reason?: string;
+}
+
+/** Compute the signature a sender should put in the signature header */
+export function signHookPayload(
+  secret: string,
+  rawBody: string,
+  options: { algorithm?: HookSignatureAlgorithm; timestamp?: number } = {},
+): string {
+  const payload = options.timestamp === undefined ? rawBody : `${options.timestamp}.${rawBody}`;
+  return crypto.createHmac(options.algorithm ?? "sha256", secret).update(payload).digest("hex");
+}
+
+/**
+ * Check a delivery against the hook's trigger config. Configs without
+ * a `hook_secret` accept every delivery — the token is the only secret.
+ */
+export function verifyHookSignature(
+  config: TriggerConfig,
+  rawBody: string,
+  header: (name: string) => string | undefined,
+  now = Date.now(),
+): HookSignatureResult {
+  const secret = config.hook_secret;
+  if (!secret) return { valid: true };
+
+  const algorithm = config.hook_algorithm ?? "sha256";
+  if (!ALGORITHMS.includes(algorithm)) {
+    return { valid: false, reason: `Unsupported signature algorithm "${algorithm}"` };
+  }
+
+  const signatureHeader = config.hook_signature_header ?? DEFAULT_HOOK_SIGNATURE_HEADER;
+  const provided = header(signatureHeader)?.trim();
+  if (!provided) return { valid: false, reason: `Missing ${signatureHeader} header` };
+
+  const toleranceSeconds = config.hook_tolerance_seconds ?? HOOK_SIGNATURE_TOLERANCE_SECONDS;
+  let timestamp: number | undefined;
+
+  if (toleranceSeconds > 0) {
+    const timestampHeader = config.hook_timestamp_header ?? DEFAULT_HOOK_TIMESTAMP_HEADER;
+    const raw = header(timestampHeader)?.trim();
+    if (!raw) return { valid: false, reason: `Missing ${timestampHeader} header` };
+
+    timestamp = Number(raw);
+    if (!Number.isInteger(timestamp)) {
+      return { valid: false, reason: `Invalid ${timestampHeader} header` };
+    }
+    if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+      return { valid: false, reason: "Timestamp is outside the replay window" };
+    }
+  }
+
+  /* Accept "sha256=<hex>" as well as the bare digest */
+  const prefix = `${algorithm}=`;
+  const digest = provided.toLowerCase().startsWith(prefix) ? provided.slice(prefix.length) : provided;
+
+  const expected = Buffer.from(signHookPayload(secret, rawBody, { algorithm, timestamp }), "hex");
+  const actual = Buffer.from(digest, "hex");
+
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return { valid: false, reason: "Signature does not match" };
+  }
+  return { valid: true };
+}
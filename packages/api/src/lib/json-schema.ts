@@ -0,0 +1,211 @@
+import type { JsonSchema, JsonSchemaType } from "@vsync/shared-types";
+
+/**
+ * Validation for workflow input/output contracts — the JsonSchema
+ * subset from @vsync/shared-types. Violations carry a JSON-pointer-ish
+ * path ("" for the root, "/items/0/price" below it) so forms can put
+ * each message next to its field.
+ */
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+const TYPES: readonly JsonSchemaType[] = ["object", "array", "string", "number", "integer", "boolean", "null"];
+
+const KEYWORDS = new Set([
+  "type", "title", "description", "default", "enum", "const",
+  "properties", "required", "additionalProperties",
+  "items", "minItems", "maxItems",
+  "minLength", "maxLength", "pattern", "format",
+  "minimum", "maximum",
+]);
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  email: (v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v),
+  uri: (v) => {
+    try {
+      new URL(v);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  date: (v) => /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(Date.parse(v)),
+  "date-time": (v) => /^\d{4}-\d{2}-\d{2}T/.test(v) && !Number.isNaN(Date.parse(v)),
+};
+
+/** Check `value` against `schema`, returning every violation found */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  check(schema, value, "", violations);
+  return violations;
+}
+
+/**
+ * Check a value against a version's stored contract. A version without
+ * one (null or missing column) accepts anything.
+ */
+export function checkContract(schema: unknown, value: unknown): SchemaViolation[] {
+  if (!isPlainObject(schema)) return [];
+  return validateJsonSchema(schema as JsonSchema, value);
+}
+
+/**
+ * Problems with a schema itself — unknown keywords or types, bad
+ * patterns, misplaced `required` — so a broken contract is rejected
+ * when it is saved rather than on the first run.
+ */
+export function lintJsonSchema(schema: unknown, path = ""): SchemaViolation[] {
+  const problems: SchemaViolation[] = [];
+  const at = (message: string) => problems.push({ path, message });
+
+  if (!isPlainObject(schema)) {
+    at("Schema must be an object");
+    return problems;
+  }
+
+  for (const key of Object.keys(schema)) {
+    if (!KEYWORDS.has(key)) at(`Unsupported keyword "${key}"`);
+  }
+
+  const types = schema["type"] === undefined ? [] : [schema["type"]].flat();
+  for (const type of types) {
+    if (!TYPES.includes(type as JsonSchemaType)) at(`Unknown type "${String(type)}"`);
+  }
+
+  if (schema["pattern"] !== undefined) {
+    try {
+      new RegExp(String(schema["pattern"]));
+    } catch {
+      at(`Invalid pattern "${String(schema["pattern"])}"`);
+    }
+  }
+
+  if (schema["enum"] !== undefined && !Array.isArray(schema["enum"])) at("enum must be an array");
+
+  const required = schema["required"];
+  if (required !== undefined && !(Array.isArray(required) && required.every((r) => typeof r === "string"))) {
+    at("required must be an array of property names");
+  }
+
+  const properties = schema["properties"];
+  if (properties !== undefined) {
+    if (!isPlainObject(properties)) {
+      at("properties must be an object");
+    } else {
+      for (const [name, child] of Object.entries(properties)) {
+        problems.push(...lintJsonSchema(child, `${path}/properties/${name}`));
+      }
+    }
+  }
+
+  if (schema["items"] !== undefined) problems.push(...lintJsonSchema(schema["items"], `${path}/items`));
+  if (isPlainObject(schema["additionalProperties"])) {
+    problems.push(...lintJsonSchema(schema["additionalProperties"], `${path}/additionalProperties`));
+  }
+
+  return problems;
+}
+
+/** One line per violation, for error messages */
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations.map((v) => `${v.path || "(root)"}: ${v.message}`).join("; ");
+}
+
+/* ── Internal helpers ───────────────────────────────── */
+
+function check(schema: JsonSchema, value: unknown, path: string, out: SchemaViolation[]): void {
+  const fail = (message: string) => out.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const allowed = [schema.type].flat();
+    if (!allowed.some((type) => matchesType(type, value))) {
+      fail(`Expected ${allowed.join(" or ")}, got ${describeType(value)}`);
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    fail(`Must equal ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum !== undefined && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail(`Must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`Must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`Must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      fail(`Must match ${schema.pattern}`);
+    }
+    const format = schema.format ? FORMATS[schema.format] : undefined;
+    if (format && !format(value)) fail(`Must be a valid ${schema.format}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`Must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`Must be <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`Must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`Must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => check(schema.items!, item, `${path}/${i}`, out));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined) out.push({ path: `${path}/${name}`, message: "Is required" });
+    }
+
+    const properties = schema.properties ?? {};
+    for (const [name, child] of Object.entries(value)) {
+      if (child === undefined) continue;
+      if (properties[name]) {
+        check(properties[name], child, `${path}/${name}`, out);
+      } else if (schema.additionalProperties === false) {
+        out.push({ path: `${path}/${name}`, message: "Is not an allowed property" });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        check(schema.additionalProperties, child, `${path}/${name}`, out);
+      }
+    }
+  }
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case "object": return isPlainObject(value);
+    case "array": return Array.isArray(value);
+    case "string": return typeof value === "string";
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    case "integer": return Number.isInteger(value);
+    case "boolean": return typeof value === "boolean";
+    case "null": return value === null;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,55 @@
+import crypto from "node:crypto";
+import { MasterKeyRing, DEFAULT_MASTER_KEY_ID, parseMasterKeys } from "@vsync/key-manager";
+
+/**
+ * Master keys for stored API keys.
+ *
+ * Both the /keys routes and the engine's `$keys.*` resolution go
+ * through @vsync/key-manager's CloudKeyStore, which wraps each org's
+ * data key with the current master key. ENCRYPTION_MASTER_KEY (a
+ * 64-char hex key, ID from ENCRYPTION_MASTER_KEY_ID) is used as-is
+ * when set; otherwise the key is derived from KEY_ENCRYPTION_SECRET,
+ * falling back to AUTH_SECRET.
+ *
+ * To rotate, move the old key into ENCRYPTION_PREVIOUS_MASTER_KEYS
+ * (comma-separated `id:hex` pairs) and set a new current key with a
+ * new ID. The server re-wraps data keys on startup.
+ *
+ * Keys stored before ENCRYPTION_MASTER_KEY was set are encrypted
+ * under the secret-derived key, so when both are configured that key
+ * stays in the ring as LEGACY_MASTER_KEY_ID until the startup
+ * migration has moved those keys onto data keys.
+ */
+
+const HEX_KEY_PATTERN = /^[0-9a-f]{64}$/i;
+
+/** Ring ID of the secret-derived key when ENCRYPTION_MASTER_KEY is the current key */
+export const LEGACY_MASTER_KEY_ID = "legacy-secret";
+
+/**
+ * Resolve the master key ring from the environment.
+ * Throws if no usable secret is configured.
+ */
+export function getKeyMasterKeys(): MasterKeyRing {
+  const previous = parseMasterKeys(process.env["ENCRYPTION_PREVIOUS_MASTER_KEYS"] ?? "");
+  const id = process.env["ENCRYPTION_MASTER_KEY_ID"] || DEFAULT_MASTER_KEY_ID;
+
+  const secret = process.env["KEY_ENCRYPTION_SECRET"] ?? process.env["AUTH_SECRET"];
+  const derived = secret ? crypto.createHash("sha256").update(secret).digest("hex") : undefined;
+
+  const masterKey = process.env["ENCRYPTION_MASTER_KEY"];
+  if (masterKey && HEX_KEY_PATTERN.test(masterKey)) {
+    const legacy =
+      derived && derived !== masterKey.toLowerCase() && !previous.some((k) => k.id === LEGACY_MASTER_KEY_ID)
+        ? [{ id: LEGACY_MASTER_KEY_ID, key: derived }]
+        : [];
+    return new MasterKeyRing({ id, key: masterKey }, [...previous, ...legacy]);
+  }
+
+  if (!derived) {
+    throw new Error(
+      "ENCRYPTION_MASTER_KEY, KEY_ENCRYPTION_SECRET or AUTH_SECRET environment variable is required for key encryption",
+    );
+  }
+  return new MasterKeyRing({ id, key: derived }, previous);
+}
@@ -0,0 +1,73 @@
+import { KEY_ROTATION_WARN_DAYS } from "@vsync/config";
+
+/**
+ * Key health — whether a stored key is expiring, expired or due for
+ * rotation under its policy. Pure, so the background sweep and the
+ * `GET /keys/health` report judge keys the same way.
+ */
+
+const DAY_MS = 86_400_000;
+
+/** Ordered from most to least urgent, `ok` last */
+export const KEY_HEALTH_STATUSES = [
+  "expired",
+  "rotation_overdue",
+  "expiring",
+  "rotation_due",
+  "ok",
+] as const;
+
+export type KeyHealthStatus = (typeof KEY_HEALTH_STATUSES)[number];
+
+/** The key fields health is judged on */
+export interface KeyHealthInput {
+  expiresAt: Date | null;
+  lastRotatedAt: Date | null;
+  createdAt: Date | null;
+  rotationMaxAgeDays: number | null;
+  rotationWarnDays: number | null;
+}
+
+export interface KeyHealth {
+  status: KeyHealthStatus;
+  /** When the key's rotation policy says the value must be replaced — null without a policy */
+  rotateBy: Date | null;
+  expiresAt: Date | null;
+  /** Whole days since the value was created or last rotated */
+  ageDays: number | null;
+}
+
+/**
+ * Judge a key at `now`. A key is flagged `rotationWarnDays` (default
+ * KEY_ROTATION_WARN_DAYS) before it expires or its rotation deadline
+ * passes; expiry outranks the rotation deadline at the same stage.
+ */
+export function assessKeyHealth(key: KeyHealthInput, now = new Date()): KeyHealth {
+  const time = now.getTime();
+  const warnMs = (key.rotationWarnDays ?? KEY_ROTATION_WARN_DAYS) * DAY_MS;
+
+  const setAt = key.lastRotatedAt ?? key.createdAt;
+  const rotateBy =
+    key.rotationMaxAgeDays != null && setAt
+      ? new Date(setAt.getTime() + key.rotationMaxAgeDays * DAY_MS)
+      : null;
+  const expiresAt = key.expiresAt;
+
+  let status: KeyHealthStatus = "ok";
+  if (expiresAt && expiresAt.getTime() <= time) {
+    status = "expired";
+  } else if (rotateBy && rotateBy.getTime() <= time) {
+    status = "rotation_overdue";
+  } else if (expiresAt && expiresAt.getTime() - warnMs <= time) {
+    status = "expiring";
+  } else if (rotateBy && rotateBy.getTime() - warnMs <= time) {
+    status = "rotation_due";
+  }
+
+  return {
+    status,
+    rotateBy,
+    expiresAt,
+    ageDays: setAt ? Math.floor((time - setAt.getTime()) / DAY_MS) : null,
+  };
+}
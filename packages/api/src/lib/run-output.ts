@@ -0,0 +1,64 @@
+import type { RunResult } from "@vsync/engine";
+import { checkContract, formatViolations } from "./json-schema.js";
+
+/**
+ * A run's output is the part of its final `$state` the workflow
+ * version declares in `outputKeys` — dotted paths keep their nesting,
+ * so ["user.email", "total"] yields { user: { email }, total }.
+ * Paths missing from the state are left out. Without declared keys
+ * the whole state is the output.
+ */
+export function projectOutput(
+  state: Record<string, unknown>,
+  outputKeys: unknown,
+): Record<string, unknown> {
+  const keys = Array.isArray(outputKeys)
+    ? outputKeys.filter((k): k is string => typeof k === "string" && k !== "")
+    : [];
+  if (keys.length === 0) return state;
+
+  const output: Record<string, unknown> = {};
+  for (const key of keys) {
+    const path = key.split(".");
+    let value: unknown = state;
+    let found = true;
+
+    for (const segment of path) {
+      if (value === null || typeof value !== "object" || !(segment in value)) {
+        found = false;
+        break;
+      }
+      value = (value as Record<string, unknown>)[segment];
+    }
+    if (!found) continue;
+
+    let target = output;
+    for (const segment of path.slice(0, -1)) {
+      const next = target[segment];
+      target = (next !== null && typeof next === "object" ? next : (target[segment] = {})) as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = value;
+  }
+  return output;
+}
+
+/**
+ * A completed run whose output breaks the version's `outputSchema`
+ * becomes a failed one — callers relying on the contract never see
+ * an output that does not satisfy it. Other results pass through.
+ */
+export function enforceOutputSchema(
+  result: RunResult,
+  version: { outputKeys?: unknown; outputSchema?: unknown },
+): RunResult {
+  if (result.status !== "completed") return result;
+
+  const violations = checkContract(version.outputSchema, projectOutput(result.context.state, version.outputKeys));
+  if (violations.length === 0) return result;
+
+  return {
+    ...result,
+    status: "failed",
+    errorMessage: `Output does not match the output schema: ${formatViolations(violations)}`,
+  };
+}
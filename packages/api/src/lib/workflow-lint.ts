@@ -0,0 +1,24 @@
+import { WorkflowLinter } from "@vsync/engine";
+import type { LintDiagnostic, LintableVersion } from "@vsync/engine";
+import { CloudAdapter, MobileAdapter, NodeAdapter } from "@vsync/engine-adapters";
+
+/**
+ * The execution environments a version can target (see the workflow
+ * settings page) and the platform adapter each one runs on. The
+ * desktop app executes runs with the Node adapter.
+ */
+const linter = new WorkflowLinter({
+  cloud: new CloudAdapter(),
+  desktop: new NodeAdapter(),
+  mobile: new MobileAdapter(),
+});
+
+/** Whole-workflow diagnostics for a version — errors block publishing */
+export function lintVersion(version: LintableVersion): LintDiagnostic[] {
+  return linter.lint(version);
+}
+
+/** One line per diagnostic, for error messages */
+export function formatDiagnostics(diagnostics: LintDiagnostic[]): string {
+  return diagnostics.map((d) => d.message).join("; ");
+}
@@ -0,0 +1,26 @@
+import type { TestSuiteResult, WorkflowTestCase } from "@vsync/engine";
+import type { workflowTests } from "@vsync/db";
+
+type WorkflowTestRow = typeof workflowTests.$inferSelect;
+
+/** The engine's view of a stored test case */
+export function toTestCase(row: WorkflowTestRow): WorkflowTestCase {
+  return {
+    id: row.id,
+    name: row.name,
+    event: (row.event ?? {}) as WorkflowTestCase["event"],
+    mocks: (row.mocks ?? {}) as WorkflowTestCase["mocks"],
+    stub: Array.isArray(row.stub) ? (row.stub as string[]) : undefined,
+    expectedStatus: row.expectedStatus as WorkflowTestCase["expectedStatus"],
+    expectedState: (row.expectedState ?? {}) as WorkflowTestCase["expectedState"],
+    expectedSteps: (row.expectedSteps ?? {}) as WorkflowTestCase["expectedSteps"],
+  };
+}
+
+/** One line per failing case, for error messages */
+export function formatTestFailures(suite: TestSuiteResult): string {
+  return suite.cases
+    .filter((c) => !c.passed)
+    .map((c) => `"${c.name}": ${c.failures.join(", ")}`)
+    .join("; ");
+}
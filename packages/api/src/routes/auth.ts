@@ -1,8 +1,17 @@
 import { Hono } from "hono";
+import type { Context } from "hono";
+import { setCookie } from "hono/cookie";
 import { z } from "zod";
-import type { AuthInstance } from "@vsync/auth";
-import { requireAuth } from "@vsync/auth";
-import { validateBody } from "../middleware/validate.js";
+import type { AuthInstance, SSOLoginResult } from "@vsync/auth";
+import {
+  requireAuth,
+  beginSSOLogin,
+  handleSSOCallback,
+  findSSOOrgForEmail,
+  createSSOSession,
+  SSOError,
+} from "@vsync/auth";
+import { validateBody, validateParams, validateQuery } from "../middleware/validate.js";
 import { ok, err } from "../lib/response.js";
 import type { AppEnv } from "../lib/types.js";
 import type { Database } from "@vsync/db";
@@ -31,6 +40,58 @@ const VerifyEmailSchema = z.object({
   token: z.string().min(1),
 });
 
+/** Same-site paths only — `//host` and `/\\host` are other sites to a browser */
+function isSafeRedirect(path: string): boolean {
+  return path.startsWith("/") && !path.startsWith("//") && !path.startsWith("/\\");
+}
+
+const SSODiscoverSchema = z.object({
+  email: z.string().email(),
+});
+
+const SSOSignInSchema = z.object({
+  /** Where to land after signing in */
+  redirectTo: z.string().max(2048).refine(isSafeRedirect, "redirectTo must be a path on this site").optional(),
+});
+
+const SSOOrgParam = z.object({ orgId: z.string().uuid() });
+
+const SSOCallbackQuery = z.object({
+  code: z.string().optional(),
+  state: z.string().optional(),
+  error: z.string().optional(),
+  error_description: z.string().optional(),
+});
+
+/** HTTP status for each SSOError code */
+const SSO_ERROR_STATUS: Record<string, number> = {
+  NOT_CONFIGURED: 404,
+  PROVIDER_MISMATCH: 400,
+  INVALID_STATE: 400,
+  STATE_EXPIRED: 400,
+  LOGIN_FAILED: 401,
+  EMAIL_UNVERIFIED: 401,
+  NO_EMAIL: 401,
+  DOMAIN_NOT_ALLOWED: 403,
+  ACCOUNT_NOT_LINKED: 403,
+};
+
+/** Answer an SSOError with its status; anything else goes to the error handler */
+function ssoError(c: Context, error: unknown) {
+  if (!(error instanceof SSOError)) throw error;
+  return err(c, `SSO_${error.code}`, error.message, SSO_ERROR_STATUS[error.code] ?? 400);
+}
+
+/** Refuse password sign-in and sign-up for a domain whose org requires SSO */
+async function ssoRequired(c: Context, db: Database, email: string) {
+  const sso = await findSSOOrgForEmail(db, email);
+  if (!sso?.enforced) return null;
+  return err(c, "SSO_REQUIRED", "Your organization requires signing in with SSO", 403, {
+    orgId: sso.orgId,
+    provider: sso.provider,
+  });
+}
+
 
 /**
  * Auth routes delegate to Better Auth's API surface.
@@ -38,14 +99,26 @@ const VerifyEmailSchema = z.object({
  * while letting Better Auth handle session management, hashing,
  * and OAuth state.
  */
-export function authRoutes(auth: AuthInstance, _db: Database) {
+export function authRoutes(auth: AuthInstance, db: Database) {
   const app = new Hono<AppEnv>();
 
+  /** Start the user's session and send them where they asked to go */
+  async function completeSSOLogin(c: Context, login: SSOLoginResult) {
+    const { cookie } = await createSSOSession(auth, login.userId, {
+      ipAddress: c.req.header("x-forwarded-for")?.split(",")[0]?.trim(),
+      userAgent: c.req.header("user-agent"),
+    });
+    setCookie(c, cookie.name, cookie.value, cookie.options);
+    return c.redirect(login.redirectTo && isSafeRedirect(login.redirectTo) ? login.redirectTo : "/", 302);
+  }
+
   /* ── Email / password ──────────────────────────────────────── */
 
   app.post("/signup", validateBody(SignUpSchema), async (c) => {
     try {
       const { email, password, name } = c.req.valid("json");
+      const refused = await ssoRequired(c, db, email);
+      if (refused) return refused;
       const result = await auth.api.signUpEmail({
         body: { email, password, name },
       });
@@ -58,6 +131,8 @@ export function authRoutes(auth: AuthInstance, _db: Database) {
   app.post("/signin", validateBody(SignInSchema), async (c) => {
     try {
       const { email, password } = c.req.valid("json");
+      const refused = await ssoRequired(c, db, email);
+      if (refused) return refused;
       const result = await auth.api.signInEmail({
         body: { email, password },
       });
@@ -101,6 +176,64 @@ export function authRoutes(auth: AuthInstance, _db: Database) {
     return ok(c, { message: "OAuth callback processed" });
   });
 
+  /* ── Organization SSO ──────────────────────────────────────── */
+
+  /** Which org's SSO covers an email, so the sign-in form can offer (or require) it */
+  app.post("/sso/discover", validateBody(SSODiscoverSchema), async (c) => {
+    const { email } = c.req.valid("json");
+    return ok(c, await findSSOOrgForEmail(db, email));
+  });
+
+  /** Start an SSO login — the client sends the user to the returned IdP URL */
+  app.post("/sso/:orgId/signin", validateParams(SSOOrgParam), validateBody(SSOSignInSchema), async (c) => {
+    const { orgId } = c.req.valid("param");
+    const { redirectTo } = c.req.valid("json");
+    try {
+      const { url } = await beginSSOLogin(db, orgId, {
+        acsUrl: new URL(`/api/v1/auth/sso/${orgId}/acs`, c.req.url).toString(),
+        redirectTo,
+      });
+      return ok(c, { url });
+    } catch (error) {
+      return ssoError(c, error);
+    }
+  });
+
+  /** OIDC redirect URI — register this with the IdP */
+  app.get("/sso/:orgId/callback", validateParams(SSOOrgParam), validateQuery(SSOCallbackQuery), async (c) => {
+    const { orgId } = c.req.valid("param");
+    const query = c.req.valid("query");
+
+    if (query.error) {
+      return err(c, "SSO_DENIED", query.error_description ?? query.error, 400);
+    }
+    if (!query.code || !query.state) {
+      return err(c, "BAD_REQUEST", "code and state are required", 400);
+    }
+    try {
+      return await completeSSOLogin(c, await handleSSOCallback(db, orgId, "oidc", query.code, query.state));
+    } catch (error) {
+      return ssoError(c, error);
+    }
+  });
+
+  /** SAML assertion consumer service — the IdP posts the SAMLResponse form here */
+  app.post("/sso/:orgId/acs", validateParams(SSOOrgParam), async (c) => {
+    const { orgId } = c.req.valid("param");
+    const form = await c.req.parseBody();
+    const samlResponse = form["SAMLResponse"];
+    const relayState = form["RelayState"];
+
+    if (typeof samlResponse !== "string" || typeof relayState !== "string") {
+      return err(c, "BAD_REQUEST", "SAMLResponse and RelayState are required", 400);
+    }
+    try {
+      return await completeSSOLogin(c, await handleSSOCallback(db, orgId, "saml", samlResponse, relayState));
+    } catch (error) {
+      return ssoError(c, error);
+    }
+  });
+
   /* ── Session management ────────────────────────────────────── */
 
   app.post("/signout", requireAuth(auth), async (c) => {
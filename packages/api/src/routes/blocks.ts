@@ -10,6 +10,7 @@ import { validateBody, validateParams } from "../middleware/validate.js";
 import { orgContext } from "../middleware/org-context.js";
 import { ok, notFound, err } from "../lib/response.js";
 import type { AppEnv } from "../lib/types.js";
+import { KeyUsageService } from "../services/KeyUsageService.js";
 
 const VersionParam = z.object({
   wid: z.string().min(1),
@@ -18,11 +19,17 @@ const VersionParam = z.object({
 
 const BlockIdParam = z.object({ id: z.string().min(1) });
 
+/**
+ * Guard conditions — the engine's list of conditions and any / all /
+ * not groups. A plain object is still accepted from older clients.
+ */
+const ConditionsSchema = z.union([z.array(z.record(z.unknown())), z.record(z.unknown())]);
+
 const CreateBlockSchema = z.object({
   name: z.string().min(1).max(255),
   type: z.string().min(1),
   logic: z.record(z.unknown()).default({}),
-  conditions: z.record(z.unknown()).optional(),
+  conditions: ConditionsSchema.optional(),
   order: z.number().int().min(0),
   notes: z.string().max(2000).optional(),
 });
@@ -31,7 +38,7 @@ const UpdateBlockSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   type: z.string().min(1).optional(),
   logic: z.record(z.unknown()).optional(),
-  conditions: z.record(z.unknown()).optional(),
+  conditions: ConditionsSchema.optional(),
   order: z.number().int().min(0).optional(),
   notes: z.string().max(2000).optional(),
 });
@@ -43,6 +50,7 @@ const ReorderSchema = z.object({
 
 export function blockRoutes(auth: AuthInstance, db: Database) {
   const app = new Hono<AppEnv>();
+  const keyUsage = new KeyUsageService(db);
 
   /* ── Create block ──────────────────────────────────────────── */
 
@@ -72,6 +80,9 @@ export function blockRoutes(auth: AuthInstance, db: Database) {
         })
         .returning();
 
+      /* Keep the `$keys.*` reference index in step with the version's blocks */
+      await keyUsage.indexVersion(wid, block.workflowVersion);
+
       return ok(c, block, undefined, 201);
     },
   );
@@ -129,6 +140,9 @@ export function blockRoutes(auth: AuthInstance, db: Database) {
         .returning();
 
       if (!updated) return notFound(c, "Block");
+      if (body.logic !== undefined || body.conditions !== undefined) {
+        await keyUsage.indexVersion(updated.workflowId, updated.workflowVersion);
+      }
       return ok(c, updated);
     },
   );
@@ -157,6 +171,7 @@ export function blockRoutes(auth: AuthInstance, db: Database) {
       if (!workflow || workflow.orgId !== authCtx.orgId) return notFound(c, "Block");
 
       await db.delete(blocksTable).where(eq(blocksTable.id, id));
+      await keyUsage.indexVersion(block.workflowId, block.workflowVersion);
       return ok(c, { message: "Block deleted" });
     },
   );
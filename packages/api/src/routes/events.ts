@@ -64,6 +64,7 @@ export function eventRoutes(auth: AuthInstance, wsManager: WSManager) {
       wsManager.register(sseAdapter, {
         userId: authCtx.userId,
         orgId: authCtx.orgId,
+        role: authCtx.role,
         channels: new Set(channels),
       });
 
@@ -0,0 +1,260 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import type { AuthInstance } from "@vsync/auth";
+import { requireAuth, requireOrg } from "@vsync/auth";
+import type { Database } from "@vsync/db";
+import { HookDeliveryRepository, RunRepository, WorkflowRepository } from "@vsync/db";
+import { HOOK_MAX_BODY_BYTES, HOOK_RESPONSE_TIMEOUT_MS } from "@vsync/config";
+import type { TriggerConfig } from "@vsync/shared-types";
+import { validateParams, validateQuery } from "../middleware/validate.js";
+import { orgContext } from "../middleware/org-context.js";
+import { ok, notFound, err } from "../lib/response.js";
+import { clampLimit } from "../lib/pagination.js";
+import { checkContract, formatViolations } from "../lib/json-schema.js";
+import { DEFAULT_HOOK_SIGNATURE_HEADER, verifyHookSignature } from "../lib/hook-signature.js";
+import type { AppEnv } from "../lib/types.js";
+import type { WorkflowExecutionService } from "../services/WorkflowExecutionService.js";
+
+/** Trigger types served by the hook endpoint — "webhook" is the older spelling */
+export const HOOK_TRIGGER_TYPES = ["hook", "webhook"];
+
+/** Headers never stored with a delivery */
+const REDACTED_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+const TokenParam = z.object({ token: z.string().min(1).max(200) });
+const WorkflowIdParam = z.object({ id: z.string().min(1) });
+const DeliveryQuerySchema = z.object({ limit: z.string().optional() });
+
+/**
+ * Inbound webhook routes.
+ *
+ * POST /hooks/:token                      → Deliver an event (public, HMAC-verified)
+ * GET  /workflows/:id/hook-deliveries     → Inspect recent deliveries
+ *
+ * A delivery becomes a "hook" run whose `$event` carries the request's
+ * method, headers, query and parsed body. Every delivery that reaches
+ * a known workflow is logged, including rejected ones — but only an
+ * accepted delivery's body is stored, so unsigned or invalid senders
+ * cannot write arbitrary payloads into the log.
+ *
+ * @param executionService — optional; when provided, accepted runs are
+ *   queued for its worker and "output" response mode can wait for them.
+ */
+export function hookRoutes(
+  auth: AuthInstance,
+  db: Database,
+  executionService?: WorkflowExecutionService,
+) {
+  const app = new Hono<AppEnv>();
+  const wfRepo = new WorkflowRepository(db);
+  const runRepo = new RunRepository(db);
+  const deliveryRepo = new HookDeliveryRepository(db);
+
+  /* ── Receive a delivery ────────────────────────────────────── */
+
+  app.post("/hooks/:token", validateParams(TokenParam), async (c) => {
+    const { token } = c.req.valid("param");
+
+    const workflow = await wfRepo.findByHookToken(token);
+    if (!workflow) return notFound(c, "Hook");
+
+    const active = await wfRepo.getActiveVersion(workflow.id);
+    const config = (active?.version.triggerConfig as TriggerConfig | null) ?? {};
+
+    const request = {
+      method: c.req.method,
+      headers: deliveryHeaders(c, config),
+      query: c.req.query(),
+    };
+
+    /** Log a rejected delivery, without its body, and answer the sender */
+    const reject = async (code: string, message: string, status: number, details?: unknown) => {
+      await deliveryRepo.create({
+        workflowId: workflow.id,
+        orgId: workflow.orgId,
+        status: "rejected",
+        responseStatus: status,
+        error: message,
+        ...request,
+        body: null,
+      });
+      return err(c, code, message, status, details);
+    };
+
+    if (!active || !HOOK_TRIGGER_TYPES.includes(active.version.triggerType ?? "")) {
+      return reject("HOOK_INACTIVE", "The active version of this workflow is not hook-triggered", 404);
+    }
+    if (workflow.isDisabled) {
+      return reject("WORKFLOW_DISABLED", "Cannot trigger a disabled workflow", 422);
+    }
+
+    const rawBody = await readBody(c, HOOK_MAX_BODY_BYTES);
+    if (rawBody === null) {
+      return reject("PAYLOAD_TOO_LARGE", `Hook body exceeds ${HOOK_MAX_BODY_BYTES} bytes`, 413);
+    }
+
+    const verification = verifyHookSignature(config, rawBody, (name) => c.req.header(name));
+    if (!verification.valid) {
+      return reject("INVALID_SIGNATURE", verification.reason ?? "Invalid signature", 401);
+    }
+
+    const parsed = parseBody(rawBody, c.req.header("content-type"));
+    if (!parsed.ok) {
+      return reject("INVALID_BODY", "Request body is not valid JSON", 400);
+    }
+
+    const violations = checkContract(active.version.inputSchema, parsed.body);
+    if (violations.length > 0) {
+      return reject(
+        "INVALID_INPUT",
+        `Hook body does not match the input schema: ${formatViolations(violations)}`,
+        422,
+        violations,
+      );
+    }
+
+    const deliveryId = nanoid();
+    const waitForOutput = config.hook_response === "output" && executionService !== undefined;
+
+    const run = await runRepo.create({
+      id: nanoid(),
+      workflowId: workflow.id,
+      version: active.version.version,
+      orgId: workflow.orgId,
+      triggerType: "hook",
+      triggerSource: `hook:${deliveryId}`,
+      metadata: {
+        type: "hook",
+        deliveryId,
+        ...request,
+        body: parsed.body,
+        receivedAt: new Date().toISOString(),
+      },
+    });
+
+    await deliveryRepo.create({
+      id: deliveryId,
+      workflowId: workflow.id,
+      orgId: workflow.orgId,
+      runId: run.id,
+      status: "accepted",
+      responseStatus: waitForOutput ? null : 202,
+      ...request,
+      body: parsed.body,
+    });
+
+    executionService?.notifyRunQueued();
+
+    if (!waitForOutput) {
+      return ok(c, { deliveryId, runId: run.id, status: run.status }, undefined, 202);
+    }
+
+    /* "output" mode — answer with the run's result, or 202 if it is still going */
+    const settled = await executionService.awaitRun(run.id, HOOK_RESPONSE_TIMEOUT_MS);
+    const status = settled?.status ?? "pending";
+
+    if (status === "completed") {
+      await deliveryRepo.updateResponse(deliveryId, 200);
+      return ok(c, { deliveryId, runId: run.id, status, output: settled?.output ?? {} });
+    }
+    if (status === "failed" || status === "cancelled") {
+      const message = settled?.errorMessage ?? `Run ${status}`;
+      await deliveryRepo.updateResponse(deliveryId, 500, message);
+      return err(c, "RUN_FAILED", message, 500, { deliveryId, runId: run.id, status });
+    }
+
+    await deliveryRepo.updateResponse(deliveryId, 202);
+    return ok(c, { deliveryId, runId: run.id, status }, undefined, 202);
+  });
+
+  /* ── Delivery log ──────────────────────────────────────────── */
+
+  app.get(
+    "/workflows/:id/hook-deliveries",
+    requireAuth(auth),
+    requireOrg(auth),
+    orgContext(),
+    validateParams(WorkflowIdParam),
+    validateQuery(DeliveryQuerySchema),
+    async (c) => {
+      const authCtx = c.get("auth");
+      const { id } = c.req.valid("param");
+      const { limit } = c.req.valid("query");
+
+      const workflow = await wfRepo.findById(id);
+      if (!workflow || workflow.orgId !== authCtx.orgId) return notFound(c, "Workflow");
+
+      const deliveries = await deliveryRepo.findByWorkflow(id, clampLimit(limit));
+      return ok(c, deliveries);
+    },
+  );
+
+  return app;
+}
+
+/* ── Helpers ──────────────────────────────────────────────────── */
+
+/** Lower-cased request headers without credentials or the signature */
+function deliveryHeaders(c: Context, config: TriggerConfig): Record<string, string> {
+  const skip = new Set([
+    ...REDACTED_HEADERS,
+    (config.hook_signature_header ?? DEFAULT_HOOK_SIGNATURE_HEADER).toLowerCase(),
+  ]);
+
+  const headers: Record<string, string> = {};
+  c.req.raw.headers.forEach((value, name) => {
+    if (!skip.has(name)) headers[name] = value;
+  });
+  return headers;
+}
+
+/**
+ * Read the body as text, or null once it is known to exceed `limit`
+ * bytes — from Content-Length before anything is read, or while
+ * streaming when the sender declares no length (or a false one).
+ */
+async function readBody(c: Context, limit: number): Promise<string | null> {
+  const declared = Number(c.req.header("content-length"));
+  if (Number.isFinite(declared) && declared > limit) return null;
+
+  const stream = c.req.raw.body;
+  if (!stream) return "";
+
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/** JSON and form bodies are parsed; anything else stays a string */
+function parseBody(
+  raw: string,
+  contentType: string | undefined,
+): { ok: true; body: unknown } | { ok: false } {
+  if (raw === "") return { ok: true, body: null };
+
+  const type = contentType?.split(";")[0]?.trim().toLowerCase() ?? "";
+  if (type === "application/json" || type.endsWith("+json")) {
+    try {
+      return { ok: true, body: JSON.parse(raw) };
+    } catch {
+      return { ok: false };
+    }
+  }
+  if (type === "application/x-www-form-urlencoded") {
+    return { ok: true, body: Object.fromEntries(new URLSearchParams(raw)) };
+  }
+  return { ok: true, body: raw };
+}
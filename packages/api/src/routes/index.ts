@@ -6,6 +6,7 @@ import { authRoutes } from "./auth.js";
 import { organizationRoutes } from "./organizations.js";
 import { workflowRoutes } from "./workflows.js";
 import { versionRoutes } from "./versions.js";
+import { workflowTestRoutes } from "./tests.js";
 import { blockRoutes } from "./blocks.js";
 import { runRoutes } from "./runs.js";
 import { publicRoutes } from "./public.js";
@@ -15,9 +16,11 @@ import { deviceRoutes } from "./devices.js";
 import { keyRoutes } from "./keys.js";
 import { healthRoutes } from "./health.js";
 import { eventRoutes } from "./events.js";
+import { hookRoutes } from "./hooks.js";
 import type { WSManager } from "../ws/manager.js";
 import type { WorkflowExecutionService } from "../services/WorkflowExecutionService.js";
 import type { PublicWorkflowService } from "../services/PublicWorkflowService.js";
+import type { KeyHealthService } from "../services/KeyHealthService.js";
 
 /**
  * Mounts every route group under /api/v1 so the top-level
@@ -30,6 +33,7 @@ export function mountRoutes(
   wsManager?: WSManager,
   executionService?: WorkflowExecutionService,
   publicService?: PublicWorkflowService,
+  keyHealthService?: KeyHealthService,
 ) {
   const v1 = new Hono();
 
@@ -37,7 +41,8 @@ export function mountRoutes(
   v1.route("/orgs", organizationRoutes(auth, db));
   v1.route("/workflows", workflowRoutes(auth, db));
   /* Version + block routes are nested under /workflows */
-  v1.route("/workflows", versionRoutes(auth, db));
+  v1.route("/workflows", versionRoutes(auth, db, executionService));
+  v1.route("/workflows", workflowTestRoutes(auth, db, executionService));
   v1.route("/", blockRoutes(auth, db));
   /**
    * Run routes use full paths (/workflows/:id/trigger + /runs/*)
@@ -47,9 +52,12 @@ export function mountRoutes(
   v1.route("/artifacts", artifactRoutes(auth, db));
   v1.route("/cache", cacheRoutes(auth, db));
   v1.route("/devices", deviceRoutes(auth, db));
-  v1.route("/keys", keyRoutes(auth, db));
+  v1.route("/keys", keyRoutes(auth, db, keyHealthService));
   v1.route("/health", healthRoutes());
 
+  /* Inbound hooks — /hooks/:token is public and HMAC-verified; the delivery log needs auth */
+  v1.route("/", hookRoutes(auth, db, executionService));
+
   /* Public workflow routes — no auth required */
   v1.route("/public", publicRoutes(db, publicService));
 
@@ -1,15 +1,20 @@
 import { Hono } from "hono";
 import { z } from "zod";
-import crypto from "node:crypto";
 import type { AuthInstance } from "@vsync/auth";
 import { requireAuth, requireOrg, requireRole } from "@vsync/auth";
 import type { Database } from "@vsync/db";
 import { KeyRepository } from "@vsync/db";
-import { validateBody, validateParams } from "../middleware/validate.js";
+import { CloudKeyStore, OAuthConnectionManager, OAuthError } from "@vsync/key-manager";
+import type { KeyType } from "@vsync/key-manager";
+import type { Context } from "hono";
+import { validateBody, validateParams, validateQuery } from "../middleware/validate.js";
 import { orgContext } from "../middleware/org-context.js";
 import { requireServiceToken } from "../middleware/service-token.js";
 import { ok, notFound, err } from "../lib/response.js";
+import { getKeyMasterKeys } from "../lib/key-encryption.js";
 import type { AppEnv } from "../lib/types.js";
+import { KeyHealthService } from "../services/KeyHealthService.js";
+import { KeyUsageService } from "../services/KeyUsageService.js";
 
 const IdParam = z.object({ id: z.string().min(1) });
 
@@ -22,68 +27,85 @@ const CreateKeySchema = z.object({
   storageMode: z.enum(["cloud", "local"]).default("cloud"),
   workflowId: z.string().optional(),
   expiresAt: z.string().datetime().optional(),
+  rotationMaxAgeDays: z.number().int().positive().optional(),
+  rotationWarnDays: z.number().int().nonnegative().optional(),
 });
 
 const UpdateKeySchema = z.object({
   name: z.string().min(1).max(255).optional(),
   description: z.string().max(2000).optional(),
   expiresAt: z.string().datetime().optional(),
+  /** null clears the rotation policy */
+  rotationMaxAgeDays: z.number().int().positive().nullable().optional(),
+  rotationWarnDays: z.number().int().nonnegative().nullable().optional(),
 });
 
-const ResolveKeySchema = z.object({
-  keyName: z.string().min(1),
+const CreateOAuthConnectionSchema = z.object({
+  /** Name of the key the access token is stored under */
+  name: z.string().min(1).max(255),
+  provider: z.string().default("custom"),
   workflowId: z.string().optional(),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+  scopes: z.array(z.string().min(1)).default([]),
+  /** Required unless the provider has a preset */
+  authorizeUrl: z.string().url().optional(),
+  tokenUrl: z.string().url().optional(),
+  /** Defaults to this API's /keys/oauth/callback */
+  redirectUri: z.string().url().optional(),
 });
 
-const ALGORITHM = "aes-256-gcm";
-const IV_LENGTH = 12; // 96-bit IV recommended for GCM
-const AUTH_TAG_LENGTH = 16;
-
-/**
- * Derives a 256-bit encryption key from the application secret
- * using HKDF. Falls back to AUTH_SECRET if KEY_ENCRYPTION_SECRET
- * is not set. Throws at startup if neither is available.
- */
-function getEncryptionKey(): Buffer {
-  const secret = process.env["KEY_ENCRYPTION_SECRET"] ?? process.env["AUTH_SECRET"];
-  if (!secret) {
-    throw new Error("KEY_ENCRYPTION_SECRET or AUTH_SECRET environment variable is required for key encryption");
-  }
-  return crypto.createHash("sha256").update(secret).digest();
-}
+const OAuthCallbackQuery = z.object({
+  code: z.string().optional(),
+  state: z.string().optional(),
+  error: z.string().optional(),
+  error_description: z.string().optional(),
+});
 
-/**
- * Encrypts a value using AES-256-GCM.
- * Returns the encrypted value (ciphertext + auth tag, base64) and IV (base64).
- */
-function encrypt(value: string): { encryptedValue: string; iv: string } {
-  const key = getEncryptionKey();
-  const iv = crypto.randomBytes(IV_LENGTH);
-  const cipher = crypto.createCipheriv(ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH });
-  const encrypted = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
-  const authTag = cipher.getAuthTag();
-  // Store ciphertext + authTag together so decryption has everything it needs
-  const encryptedValue = Buffer.concat([encrypted, authTag]).toString("base64");
-  return { encryptedValue, iv: iv.toString("base64") };
+/** HTTP status for each OAuthError code */
+const OAUTH_ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  DISCONNECTED: 410,
+  KEY_REVOKED: 410,
+  NO_REFRESH_TOKEN: 409,
+  INVALID_CONFIG: 400,
+  INVALID_STATE: 400,
+  STATE_EXPIRED: 400,
+  TOKEN_REJECTED: 502,
+  TOKEN_REQUEST_FAILED: 502,
+};
+
+/** Answer an OAuthError with its status; anything else goes to the error handler */
+function oauthError(c: Context, error: unknown) {
+  if (!(error instanceof OAuthError)) throw error;
+  return err(c, `OAUTH_${error.code}`, error.message, OAUTH_ERROR_STATUS[error.code] ?? 400);
 }
 
-/**
- * Decrypts a value encrypted with AES-256-GCM.
- * Expects encryptedValue = base64(ciphertext + authTag), iv = base64(iv).
- */
-function decrypt(encryptedValue: string, iv: string): string {
-  const key = getEncryptionKey();
-  const combined = Buffer.from(encryptedValue, "base64");
-  const authTag = combined.subarray(combined.length - AUTH_TAG_LENGTH);
-  const ciphertext = combined.subarray(0, combined.length - AUTH_TAG_LENGTH);
-  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"), { authTagLength: AUTH_TAG_LENGTH });
-  decipher.setAuthTag(authTag);
-  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf-8");
-}
+const ResolveKeySchema = z.object({
+  keyName: z.string().min(1),
+  workflowId: z.string().optional(),
+});
 
-export function keyRoutes(auth: AuthInstance, db: Database) {
+export function keyRoutes(
+  auth: AuthInstance,
+  db: Database,
+  keyHealth = new KeyHealthService(db),
+) {
   const app = new Hono<AppEnv>();
   const repo = new KeyRepository(db);
+  const keyUsage = new KeyUsageService(db);
+
+  /* Built on first use so a missing master key fails the request, not startup */
+  let store: CloudKeyStore | undefined;
+  const keyStore = () => (store ??= new CloudKeyStore(db, getKeyMasterKeys()));
+  let oauthManager: OAuthConnectionManager | undefined;
+  const oauth = () => (oauthManager ??= new OAuthConnectionManager(db, keyStore()));
+
+  /** A connection in the caller's org, or null */
+  const findConnection = async (id: string, orgId: string) => {
+    const connection = await oauth().getConnection(id);
+    return connection && connection.orgId === orgId ? connection : null;
+  };
 
   /* ── Create key ────────────────────────────────────────────── */
 
@@ -97,27 +119,29 @@ export function keyRoutes(auth: AuthInstance, db: Database) {
       const authCtx = c.get("auth");
       const body = c.req.valid("json");
 
-      const { encryptedValue, iv } = encrypt(body.value);
-
-      const key = await repo.create(
+      const key = await keyStore().createKey(
         {
           orgId: authCtx.orgId,
           name: body.name,
-          description: body.description ?? null,
-          keyType: body.keyType,
+          value: body.value,
+          description: body.description,
+          keyType: body.keyType as KeyType,
           provider: body.provider,
           storageMode: body.storageMode,
-          encryptedValue,
-          iv,
-          workflowId: body.workflowId ?? null,
-          expiresAt: body.expiresAt ? new Date(body.expiresAt) : null,
-          createdBy: authCtx.userId,
+          workflowId: body.workflowId,
+          expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined,
+          rotationMaxAgeDays: body.rotationMaxAgeDays,
+          rotationWarnDays: body.rotationWarnDays,
         },
         authCtx.userId,
       );
 
+      const created = await repo.findById(key.id);
+      if (!created) return notFound(c, "Key");
+
       /* Return the plaintext value only on creation */
-      return ok(c, { ...key, value: body.value }, undefined, 201);
+      const { encryptedValue: _ev, iv: _iv, ...sanitized } = created;
+      return ok(c, { ...sanitized, value: body.value }, undefined, 201);
     },
   );
 
@@ -132,18 +156,177 @@ export function keyRoutes(auth: AuthInstance, db: Database) {
     return ok(c, sanitized);
   });
 
+  /* ── Key health report ─────────────────────────────────────── */
+
+  /** Keys expiring, expired or due for rotation, with the published workflows using them */
+  app.get("/health", requireAuth(auth), requireOrg(auth), orgContext(), async (c) => {
+    const authCtx = c.get("auth");
+    return ok(c, await keyHealth.report(authCtx.orgId));
+  });
+
+  /* ── OAuth connections ─────────────────────────────────────── */
+
+  /**
+   * Register an OAuth connection and start its authorization. The
+   * caller sends the user to `authorizationUrl`; the provider returns
+   * them to the callback below, which stores the tokens as key `name`.
+   */
+  app.post(
+    "/oauth/connections",
+    requireAuth(auth),
+    requireRole(auth, "admin"),
+    orgContext(),
+    validateBody(CreateOAuthConnectionSchema),
+    async (c) => {
+      const authCtx = c.get("auth");
+      const body = c.req.valid("json");
+
+      try {
+        const result = await oauth().createConnection(
+          {
+            ...body,
+            orgId: authCtx.orgId,
+            redirectUri: body.redirectUri ?? new URL("/api/v1/keys/oauth/callback", c.req.url).toString(),
+          },
+          authCtx.userId,
+        );
+        return ok(c, result, undefined, 201);
+      } catch (error) {
+        return oauthError(c, error);
+      }
+    },
+  );
+
+  app.get("/oauth/connections", requireAuth(auth), requireOrg(auth), orgContext(), async (c) => {
+    const authCtx = c.get("auth");
+    return ok(c, await oauth().listConnections(authCtx.orgId));
+  });
+
+  /** Connection status — pending, connected, refresh_failed or disconnected, with token expiry and the last error */
+  app.get(
+    "/oauth/connections/:id",
+    requireAuth(auth),
+    requireOrg(auth),
+    orgContext(),
+    validateParams(IdParam),
+    async (c) => {
+      const authCtx = c.get("auth");
+      const { id } = c.req.valid("param");
+
+      const connection = await findConnection(id, authCtx.orgId);
+      if (!connection) return notFound(c, "OAuth connection");
+      return ok(c, connection);
+    },
+  );
+
+  /** Start a new authorization — to reconnect after a refresh failure or change scopes */
+  app.post(
+    "/oauth/connections/:id/authorize",
+    requireAuth(auth),
+    requireRole(auth, "admin"),
+    orgContext(),
+    validateParams(IdParam),
+    async (c) => {
+      const authCtx = c.get("auth");
+      const { id } = c.req.valid("param");
+
+      if (!(await findConnection(id, authCtx.orgId))) return notFound(c, "OAuth connection");
+      try {
+        return ok(c, await oauth().authorize(id));
+      } catch (error) {
+        return oauthError(c, error);
+      }
+    },
+  );
+
+  /** Refresh the access token now rather than when it is next about to expire */
+  app.post(
+    "/oauth/connections/:id/refresh",
+    requireAuth(auth),
+    requireRole(auth, "admin"),
+    orgContext(),
+    validateParams(IdParam),
+    async (c) => {
+      const authCtx = c.get("auth");
+      const { id } = c.req.valid("param");
+
+      if (!(await findConnection(id, authCtx.orgId))) return notFound(c, "OAuth connection");
+      try {
+        return ok(c, await oauth().refresh(id));
+      } catch (error) {
+        return oauthError(c, error);
+      }
+    },
+  );
+
+  /** Revoke the access token key and forget the refresh token */
+  app.delete(
+    "/oauth/connections/:id",
+    requireAuth(auth),
+    requireRole(auth, "admin"),
+    orgContext(),
+    validateParams(IdParam),
+    async (c) => {
+      const authCtx = c.get("auth");
+      const { id } = c.req.valid("param");
+
+      if (!(await findConnection(id, authCtx.orgId))) return notFound(c, "OAuth connection");
+      try {
+        return ok(c, await oauth().disconnect(id, authCtx.userId));
+      } catch (error) {
+        return oauthError(c, error);
+      }
+    },
+  );
+
+  /**
+   * The provider's redirect after the user consents. Unauthenticated —
+   * the single-use state issued with the authorization URL is what
+   * ties the request to a connection.
+   */
+  app.get("/oauth/callback", validateQuery(OAuthCallbackQuery), async (c) => {
+    const query = c.req.valid("query");
+
+    if (query.error) {
+      return err(c, "OAUTH_DENIED", query.error_description ?? query.error, 400);
+    }
+    if (!query.code || !query.state) {
+      return err(c, "BAD_REQUEST", "code and state are required", 400);
+    }
+
+    try {
+      return ok(c, await oauth().completeAuthorization(query.state, query.code));
+    } catch (error) {
+      return oauthError(c, error);
+    }
+  });
+
   /* ── Get key metadata ──────────────────────────────────────── */
 
-  app.get("/:id", requireAuth(auth), validateParams(IdParam), async (c) => {
+  app.get("/:id", requireAuth(auth), orgContext(), validateParams(IdParam), async (c) => {
+    const authCtx = c.get("auth");
     const { id } = c.req.valid("param");
     const key = await repo.findById(id);
-    if (!key) return notFound(c, "Key");
+    if (!key || key.orgId !== authCtx.orgId) return notFound(c, "Key");
 
     /* Never return the encrypted value in a GET */
     const { encryptedValue: _ev, iv: _iv, ...sanitized } = key;
     return ok(c, sanitized);
   });
 
+  /* ── Key usages ────────────────────────────────────────────── */
+
+  /** Workflows, versions and blocks whose logic references the key by name */
+  app.get("/:id/usages", requireAuth(auth), requireOrg(auth), orgContext(), validateParams(IdParam), async (c) => {
+    const authCtx = c.get("auth");
+    const { id } = c.req.valid("param");
+
+    const key = await repo.findById(id);
+    if (!key || key.orgId !== authCtx.orgId) return notFound(c, "Key");
+
+    return ok(c, await keyUsage.usages(key));
+  });
+
   /* ── Decrypt key (audit logged) ────────────────────────────── */
 
   app.post(
@@ -156,15 +339,14 @@ export function keyRoutes(auth: AuthInstance, db: Database) {
       const authCtx = c.get("auth");
       const { id } = c.req.valid("param");
 
-      const key = await repo.findById(id);
-      if (!key) return notFound(c, "Key");
-      if (key.isRevoked) return err(c, "KEY_REVOKED", "This key has been revoked", 410);
-
-      /* Audit the decryption */
-      await repo.logAccess(id, authCtx.userId, { action: "decrypt" });
+      const existing = await repo.findById(id);
+      if (!existing || existing.orgId !== authCtx.orgId) return notFound(c, "Key");
+      if (existing.isRevoked) return err(c, "KEY_REVOKED", "This key has been revoked", 410);
 
-      const value = decrypt(key.encryptedValue, key.iv);
-      return ok(c, { id: key.id, name: key.name, value });
+      /* Audited as an access by the store */
+      const key = await keyStore().decryptKey(id, authCtx.userId, { action: "decrypt" });
+      if (!key) return notFound(c, "Key");
+      return ok(c, { id: key.id, name: key.name, value: key.value });
     },
   );
 
@@ -174,12 +356,17 @@ export function keyRoutes(auth: AuthInstance, db: Database) {
     "/:id",
     requireAuth(auth),
     requireRole(auth, "admin"),
+    orgContext(),
     validateParams(IdParam),
     validateBody(UpdateKeySchema),
     async (c) => {
+      const authCtx = c.get("auth");
       const { id } = c.req.valid("param");
       const body = c.req.valid("json");
 
+      const existing = await repo.findById(id);
+      if (!existing || existing.orgId !== authCtx.orgId) return notFound(c, "Key");
+
       const updated = await repo.update(id, {
         ...body,
         expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined,
@@ -206,31 +393,16 @@ export function keyRoutes(auth: AuthInstance, db: Database) {
       const { value } = c.req.valid("json");
 
       const existing = await repo.findById(id);
-      if (!existing) return notFound(c, "Key");
+      if (!existing || existing.orgId !== authCtx.orgId) return notFound(c, "Key");
+      if (existing.isRevoked) return err(c, "KEY_REVOKED", "This key has been revoked", 410);
 
-      /* Revoke old value */
-      await repo.revoke(id, authCtx.userId);
+      /* Replace the encrypted value in place — the old one is not recoverable */
+      await keyStore().rotateKey(id, value, authCtx.userId);
 
-      /* Create new key with same metadata but new encrypted value */
-      const { encryptedValue, iv } = encrypt(value);
-      const newKey = await repo.create(
-        {
-          orgId: existing.orgId,
-          name: existing.name,
-          description: existing.description,
-          keyType: existing.keyType,
-          provider: existing.provider,
-          storageMode: existing.storageMode,
-          encryptedValue,
-          iv,
-          workflowId: existing.workflowId,
-          expiresAt: existing.expiresAt,
-          createdBy: authCtx.userId,
-        },
-        authCtx.userId,
-      );
-
-      return ok(c, { ...newKey, value });
+      const rotated = await repo.findById(id);
+      if (!rotated) return notFound(c, "Key");
+      const { encryptedValue: _ev, iv: _iv, ...sanitized } = rotated;
+      return ok(c, { ...sanitized, value });
     },
   );
 
@@ -246,8 +418,19 @@ export function keyRoutes(auth: AuthInstance, db: Database) {
       const authCtx = c.get("auth");
       const { id } = c.req.valid("param");
 
+      const key = await repo.findById(id);
+      if (!key || key.orgId !== authCtx.orgId) return notFound(c, "Key");
+
+      /* Revoking still goes ahead — the caller is warned about the runs it will break */
+      const liveUsages = await keyUsage.liveUsages(key);
       await repo.revoke(id, authCtx.userId);
-      return ok(c, { message: "Key revoked" });
+
+      if (liveUsages.length === 0) return ok(c, { message: "Key revoked" });
+      return ok(c, {
+        message: "Key revoked",
+        warning: `Key "${key.name}" is still referenced by the published version of ${liveUsages.length} workflow(s): ${liveUsages.map((u) => u.workflowName).join(", ")}`,
+        liveUsages,
+      });
     },
   );
 
@@ -257,9 +440,15 @@ export function keyRoutes(auth: AuthInstance, db: Database) {
     "/:id/audit",
     requireAuth(auth),
     requireRole(auth, "admin"),
+    orgContext(),
     validateParams(IdParam),
     async (c) => {
+      const authCtx = c.get("auth");
       const { id } = c.req.valid("param");
+
+      const key = await repo.findById(id);
+      if (!key || key.orgId !== authCtx.orgId) return notFound(c, "Key");
+
       const log = await repo.getAuditLog(id);
       return ok(c, log);
     },
@@ -291,10 +480,12 @@ export function keyRoutes(auth: AuthInstance, db: Database) {
     if (!key) return notFound(c, "Key");
     if (key.isRevoked) return err(c, "KEY_REVOKED", "Key has been revoked", 410);
 
-    await repo.logAccess(key.id, undefined, { workflowId, action: "engine_resolve" });
-
-    const value = decrypt(key.encryptedValue, key.iv);
-    return ok(c, { name: key.name, value });
+    const decrypted = await keyStore().decryptKey(key.id, undefined, {
+      workflowId,
+      action: "engine_resolve",
+    });
+    if (!decrypted) return notFound(c, "Key");
+    return ok(c, { name: decrypted.name, value: decrypted.value });
   });
 
   return app;
@@ -1,7 +1,19 @@
 import { Hono } from "hono";
+import type { Context } from "hono";
 import { z } from "zod";
 import type { AuthInstance } from "@vsync/auth";
-import { requireAuth, requireOrg, canManageOrg, canInviteMembers, configureSAML, configureOIDC } from "@vsync/auth";
+import {
+  requireAuth,
+  requireOrg,
+  canManageOrg,
+  canInviteMembers,
+  configureSAML,
+  configureOIDC,
+  getSSOConfig,
+  verifySSODomain,
+  ssoDomainChallenge,
+  SSOError,
+} from "@vsync/auth";
 import type { Database } from "@vsync/db";
 import { OrgRepository, UserRepository } from "@vsync/db";
 import { validateBody, validateParams } from "../middleware/validate.js";
@@ -29,6 +41,15 @@ const UpdateMemberSchema = z.object({
 
 const IdParam = z.object({ id: z.string().min(1) });
 const MemberParam = z.object({ id: z.string().min(1), userId: z.string().min(1) });
+const DomainParam = z.object({ id: z.string().min(1), domain: z.string().min(1) });
+
+/** Who signs in through the org's SSO — shared by both providers */
+const SSOPolicyFields = {
+  domains: z.array(z.string().min(1)).max(50).optional(),
+  /** Require SSO for every user in `domains` */
+  enforced: z.boolean().optional(),
+  defaultRole: z.enum(["admin", "member", "viewer"]).optional(),
+};
 
 const SSOConfigSchema = z.discriminatedUnion("provider", [
   z.object({
@@ -36,12 +57,15 @@ const SSOConfigSchema = z.discriminatedUnion("provider", [
     entityId: z.string().url(),
     ssoUrl: z.string().url(),
     certificate: z.string().min(1),
+    spEntityId: z.string().min(1).optional(),
+    ...SSOPolicyFields,
   }),
   z.object({
     provider: z.literal("oidc"),
     clientId: z.string().min(1),
     issuer: z.string().url(),
     redirectUri: z.string().url(),
+    ...SSOPolicyFields,
   }),
 ]);
 
@@ -202,11 +226,44 @@ export function organizationRoutes(auth: AuthInstance, db: Database) {
       } else {
         await configureOIDC(db, id, body);
       }
-      return ok(c, { message: "SSO configured" }, undefined, 201);
+      /* New domains only count once their TXT record is verified */
+      const config = await getSSOConfig(db, id);
+      const challenges = (config?.pendingDomains ?? []).map((p) => ({ domain: p.domain, ...ssoDomainChallenge(p) }));
+      return ok(c, { message: "SSO configured", verifiedDomains: config?.domains ?? [], challenges }, undefined, 201);
+    } catch (e) {
+      return ssoError(c, e);
+    }
+  });
+
+  app.post("/:id/sso/domains/:domain/verify", requireAuth(auth), orgContext(), validateParams(DomainParam), async (c) => {
+    const authCtx = c.get("auth");
+    const { id, domain } = c.req.valid("param");
+
+    if (!canManageOrg({ role: authCtx.role, orgId: authCtx.orgId }, { id })) {
+      return forbidden(c, "Only the org owner can configure SSO");
+    }
+
+    try {
+      await verifySSODomain(db, id, domain);
+      return ok(c, { message: `Domain ${domain} verified` });
     } catch (e) {
-      return err(c, "SSO_ERROR", (e as Error).message, 400);
+      return ssoError(c, e);
     }
   });
 
   return app;
 }
+
+/** HTTP status for SSOError codes other than 400 */
+const SSO_ERROR_STATUS: Record<string, number> = {
+  NOT_CONFIGURED: 404,
+  DOMAIN_NOT_PENDING: 404,
+  DOMAIN_CLAIMED: 409,
+};
+
+function ssoError(c: Context, e: unknown) {
+  if (e instanceof SSOError) {
+    return err(c, `SSO_${e.code}`, e.message, SSO_ERROR_STATUS[e.code] ?? 400);
+  }
+  return err(c, "SSO_ERROR", (e as Error).message, 400);
+}
@@ -76,7 +76,7 @@ export function publicRoutes(
       const result = await publicService.triggerPublicRun(slug, ip, userAgent, eventData);
 
       if ("error" in result) {
-        return err(c, "TRIGGER_FAILED", result.error, result.status);
+        return err(c, result.code ?? "TRIGGER_FAILED", result.error, result.status, result.details);
       }
 
       return ok(c, { runId: result.runId }, undefined, 201);
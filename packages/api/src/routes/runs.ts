@@ -5,10 +5,12 @@ import { streamSSE } from "hono/streaming";
 import type { AuthInstance } from "@vsync/auth";
 import { requireAuth, requireOrg } from "@vsync/auth";
 import type { Database } from "@vsync/db";
-import { RunRepository, WorkflowRepository } from "@vsync/db";
+import { RunRepository, WorkflowRepository, ArtifactRepository } from "@vsync/db";
+import { RUN_WAIT_DEFAULT_TIMEOUT_MS, RUN_WAIT_MAX_TIMEOUT_MS } from "@vsync/config";
 import { validateBody, validateParams, validateQuery } from "../middleware/validate.js";
 import { orgContext } from "../middleware/org-context.js";
 import { ok, notFound, err } from "../lib/response.js";
+import { checkContract, formatViolations } from "../lib/json-schema.js";
 import { clampLimit, decodeCursor, buildPaginationMeta } from "../lib/pagination.js";
 import type { AppEnv } from "../lib/types.js";
 import type { WSManager } from "../ws/manager.js";
@@ -16,12 +18,28 @@ import { runStarted, runCompleted, runFailed } from "../ws/events.js";
 import type { WorkflowExecutionService } from "../services/WorkflowExecutionService.js";
 
 const TriggerSchema = z.object({
-  triggerType: z.enum(["interactive", "api", "schedule", "webhook", "event"]).default("api"),
+  triggerType: z.enum(["interactive", "api", "schedule", "hook", "webhook", "event"]).default("api"),
   triggerSource: z.string().optional(),
   metadata: z.record(z.unknown()).optional(),
+  /** Queue priority — higher runs first, ties in trigger order */
+  priority: z.number().int().min(-100).max(100).default(0),
+  /** Run under the debugger — it pauses at these blocks, and optionally on failure */
+  debug: z.object({
+    breakpoints: z.array(z.string().min(1)).max(100).default([]),
+    pauseOnFailure: z.boolean().default(false),
+  }).optional(),
+});
+
+/** `?wait=true&timeout=<seconds>` answers with the finished run instead of the queued one */
+const TriggerQuerySchema = z.object({
+  wait: z.enum(["true", "false"]).optional(),
+  timeout: z.coerce.number().positive().optional(),
 });
 
 const IdParam = z.object({ id: z.string().min(1) });
+
+/** Statuses a run can still be cancelled from */
+const CANCELLABLE_STATUSES = ["pending", "running", "awaiting_action"];
 const WorkflowIdParam = z.object({ id: z.string().min(1) });
 
 const ListQuerySchema = z.object({
@@ -39,8 +57,8 @@ const ActionSchema = z.object({
 /**
  * @param wsManager — optional; when provided, run lifecycle events
  *   are broadcast to `run:<id>` and `org:<orgId>` channels.
- * @param executionService — optional; when provided, trigger/cancel/actions
- *   delegate to the engine-backed execution service.
+ * @param executionService — optional; when provided, triggered runs are
+ *   queued for its worker and cancel/actions delegate to it.
  */
 export function runRoutes(
   auth: AuthInstance,
@@ -51,6 +69,7 @@ export function runRoutes(
   const app = new Hono<AppEnv>();
   const runRepo = new RunRepository(db);
   const wfRepo = new WorkflowRepository(db);
+  const artifactRepo = new ArtifactRepository(db);
 
   /* ── Trigger a workflow run ────────────────────────────────── */
 
@@ -60,10 +79,12 @@ export function runRoutes(
     requireOrg(auth),
     orgContext(),
     validateParams(WorkflowIdParam),
+    validateQuery(TriggerQuerySchema),
     validateBody(TriggerSchema),
     async (c) => {
       const authCtx = c.get("auth");
       const { id } = c.req.valid("param");
+      const query = c.req.valid("query");
       const body = c.req.valid("json");
 
       const workflow = await wfRepo.findById(id);
@@ -73,6 +94,19 @@ export function runRoutes(
         return err(c, "WORKFLOW_DISABLED", "Cannot trigger a disabled workflow", 422);
       }
 
+      /* `metadata` becomes the run's `$event`, so it must satisfy the input contract */
+      const active = await wfRepo.getActiveVersion(id);
+      const violations = checkContract(active?.version.inputSchema, body.metadata ?? {});
+      if (violations.length > 0) {
+        return err(
+          c,
+          "INVALID_INPUT",
+          `Trigger payload does not match the input schema: ${formatViolations(violations)}`,
+          422,
+          violations,
+        );
+      }
+
       const run = await runRepo.create({
         id: nanoid(),
         workflowId: id,
@@ -81,19 +115,31 @@ export function runRoutes(
         triggerType: body.triggerType,
         triggerSource: body.triggerSource ?? null,
         metadata: body.metadata ?? null,
-        startedAt: new Date(),
+        priority: body.priority,
+        debug: body.debug ?? null,
       });
 
-      /* Delegate to the engine execution service when available */
+      /* The run stays "pending" until a queue worker claims it */
       if (executionService) {
-        await executionService.triggerRun(
-          id,
-          run.id,
-          run.version ?? 1,
-          body.triggerType,
-          body.metadata ?? {},
-          authCtx.orgId,
-        );
+        executionService.notifyRunQueued();
+
+        if (query.wait === "true") {
+          const timeoutMs = Math.min(
+            query.timeout !== undefined ? query.timeout * 1000 : RUN_WAIT_DEFAULT_TIMEOUT_MS,
+            RUN_WAIT_MAX_TIMEOUT_MS,
+          );
+          const settled = (await executionService.awaitRun(run.id, timeoutMs)) ?? run;
+          const runUrl = c.req.path.replace(/\/workflows\/[^/]+\/trigger$/, `/runs/${run.id}`);
+
+          /* Still queued or running — hand back where to poll */
+          if (settled.status === "pending" || settled.status === "running") {
+            c.header("Location", runUrl);
+            return ok(c, { ...settled, url: runUrl }, undefined, 202);
+          }
+
+          const artifacts = await artifactRepo.findByRun(run.id);
+          return ok(c, { ...settled, artifacts });
+        }
       } else if (wsManager) {
         /* Legacy path: broadcast run:started without engine execution */
         const event = runStarted(run.id, id, {
@@ -140,7 +186,22 @@ export function runRoutes(
     const run = await runRepo.findById(id);
     if (!run) return notFound(c, "Run");
     if (run.orgId && run.orgId !== authCtx.orgId) return notFound(c, "Run");
-    return ok(c, run);
+
+    /* Runs its `workflow` blocks started, linked by parentRunId */
+    const children = await runRepo.findChildren(id);
+    return ok(c, {
+      ...run,
+      children: children.map((child) => ({
+        id: child.id,
+        workflowId: child.workflowId,
+        version: child.version,
+        status: child.status,
+        parentBlockId: child.parentBlockId,
+        durationMs: child.durationMs,
+        errorMessage: child.errorMessage,
+        createdAt: child.createdAt,
+      })),
+    });
   });
 
   /* ── Delete run ────────────────────────────────────────────── */
@@ -159,30 +220,31 @@ export function runRoutes(
 
   /* ── Cancel run ────────────────────────────────────────────── */
 
-  app.post("/runs/:id/cancel", requireAuth(auth), orgContext(), validateParams(IdParam), async (c) => {
+  app.post("/runs/:id/cancel", requireAuth(auth), requireOrg(auth), orgContext(), validateParams(IdParam), async (c) => {
+    const authCtx = c.get("auth");
     const { id } = c.req.valid("param");
     const run = await runRepo.findById(id);
-    if (!run) return notFound(c, "Run");
+    if (!run || run.orgId !== authCtx.orgId) return notFound(c, "Run");
 
-    if (run.status !== "pending" && run.status !== "running" && run.status !== "awaiting_action") {
+    /* Only a run that has not finished meanwhile is cancelled */
+    const updated = await runRepo.transition(id, CANCELLABLE_STATUSES, "cancelled", {
+      completedAt: new Date(),
+    });
+    if (!updated) {
       return err(c, "INVALID_STATE", "Can only cancel pending, running, or awaiting runs", 422);
     }
 
-    /* Signal the engine to stop between blocks */
+    /* Signal the engine to stop between blocks — an instance this
+       request did not reach notices the status and stops the run itself */
     if (executionService) {
       executionService.cancelRun(id);
     }
 
-    const updated = await runRepo.updateStatus(id, "cancelled", {
-      completedAt: new Date(),
-    });
-
     /* Broadcast cancellation as a failure variant */
     if (wsManager && updated) {
       const event = runFailed(id, "Run cancelled by user");
-      const orgId = run.orgId ?? c.get("auth").orgId;
       wsManager.broadcastToMany(
-        [`run:${id}`, `org:${orgId}`],
+        [`run:${id}`, `org:${authCtx.orgId}`],
         event,
       );
     }
@@ -0,0 +1,228 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import type { AuthInstance } from "@vsync/auth";
+import { requireAuth, requireOrg, canEditWorkflow } from "@vsync/auth";
+import type { Database } from "@vsync/db";
+import { WorkflowRepository, WorkflowTestRepository } from "@vsync/db";
+import { validateBody, validateParams, validateQuery } from "../middleware/validate.js";
+import { orgContext } from "../middleware/org-context.js";
+import { ok, notFound, forbidden, conflict, err } from "../lib/response.js";
+import { toTestCase } from "../lib/workflow-tests.js";
+import type { AppEnv } from "../lib/types.js";
+import type { WorkflowExecutionService } from "../services/WorkflowExecutionService.js";
+import { BlockMockSchema } from "./versions.js";
+
+const WorkflowParam = z.object({ id: z.string().min(1) });
+const TestParam = z.object({ id: z.string().min(1), testId: z.string().min(1) });
+const ListQuerySchema = z.object({ version: z.string().regex(/^\d+$/).optional() });
+
+const TestCaseFields = {
+  name: z.string().min(1).max(200),
+  /** The run's `$event` */
+  event: z.record(z.unknown()),
+  /** Results by block ID, returned in place of the block's handler */
+  mocks: z.record(BlockMockSchema),
+  /** Block types to stub — null stubs the side-effecting ones */
+  stub: z.array(z.string().min(1)).max(50).nullable(),
+  expectedStatus: z.enum(["completed", "failed", "awaiting_action"]),
+  /** `$state` paths (e.g. "user.email") and the values they must equal */
+  expectedState: z.record(z.unknown()),
+  /** Block IDs and the status their last step must have */
+  expectedSteps: z.record(z.enum(["completed", "failed", "skipped"])),
+};
+
+const CreateTestSchema = z.object({
+  version: z.number().int().positive(),
+  name: TestCaseFields.name,
+  event: TestCaseFields.event.default({}),
+  mocks: TestCaseFields.mocks.default({}),
+  stub: TestCaseFields.stub.optional(),
+  expectedStatus: TestCaseFields.expectedStatus.default("completed"),
+  expectedState: TestCaseFields.expectedState.default({}),
+  expectedSteps: TestCaseFields.expectedSteps.default({}),
+});
+
+const UpdateTestSchema = z.object(TestCaseFields).partial();
+
+const RunTestsSchema = z.object({ version: z.number().int().positive() });
+
+/**
+ * Workflow test case routes.
+ *
+ * GET    /workflows/:id/tests               → List test cases (?version=N for one version)
+ * POST   /workflows/:id/tests               → Add a test case to a version
+ * GET    /workflows/:id/tests/:testId       → Get a test case
+ * PATCH  /workflows/:id/tests/:testId       → Update a test case
+ * DELETE /workflows/:id/tests/:testId       → Delete a test case
+ * POST   /workflows/:id/tests/run           → Run a version's suite
+ * POST   /workflows/:id/tests/:testId/run   → Run one test case
+ *
+ * Cases run as simulations — mocked blocks return their fixture and
+ * side-effecting blocks are stubbed — and no run is stored. A version
+ * with test cases can only be published while they all pass.
+ *
+ * @param executionService — optional; running tests needs it
+ */
+export function workflowTestRoutes(
+  auth: AuthInstance,
+  db: Database,
+  executionService?: WorkflowExecutionService,
+) {
+  const app = new Hono<AppEnv>();
+  const wfRepo = new WorkflowRepository(db);
+  const testRepo = new WorkflowTestRepository(db);
+
+  /* ── List test cases ───────────────────────────────────────── */
+
+  app.get("/:id/tests", requireAuth(auth), requireOrg(auth), orgContext(), validateParams(WorkflowParam), validateQuery(ListQuerySchema), async (c) => {
+    const authCtx = c.get("auth");
+    const { id } = c.req.valid("param");
+    const { version } = c.req.valid("query");
+
+    const workflow = await wfRepo.findById(id);
+    if (!workflow || workflow.orgId !== authCtx.orgId) return notFound(c, "Workflow");
+
+    const tests = await testRepo.findByWorkflow(id, version !== undefined ? parseInt(version, 10) : undefined);
+    return ok(c, tests);
+  });
+
+  /* ── Create test case ──────────────────────────────────────── */
+
+  app.post("/:id/tests", requireAuth(auth), requireOrg(auth), orgContext(), validateParams(WorkflowParam), validateBody(CreateTestSchema), async (c) => {
+    const authCtx = c.get("auth");
+    const { id } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    const workflow = await wfRepo.findById(id);
+    if (!workflow || workflow.orgId !== authCtx.orgId) return notFound(c, "Workflow");
+
+    if (!canEditWorkflow({ role: authCtx.role, orgId: authCtx.orgId }, { orgId: workflow.orgId })) {
+      return forbidden(c, "You need member role or higher to add tests");
+    }
+
+    const versions = await wfRepo.findVersions(id);
+    if (!versions.some((ver) => ver.version === body.version)) return notFound(c, "Version");
+
+    const existing = await testRepo.findByWorkflow(id, body.version);
+    if (existing.some((t) => t.name === body.name)) {
+      return conflict(c, `Version ${body.version} already has a test named "${body.name}"`);
+    }
+
+    const { version, ...fields } = body;
+    const test = await testRepo.create({
+      ...fields,
+      workflowId: id,
+      workflowVersion: version,
+      createdBy: authCtx.userId,
+    });
+
+    return ok(c, test, undefined, 201);
+  });
+
+  /* ── Run a version's suite ─────────────────────────────────── */
+
+  app.post("/:id/tests/run", requireAuth(auth), requireOrg(auth), orgContext(), validateParams(WorkflowParam), validateBody(RunTestsSchema), async (c) => {
+    const authCtx = c.get("auth");
+    const { id } = c.req.valid("param");
+    const { version } = c.req.valid("json");
+
+    if (!executionService) {
+      return err(c, "SERVICE_UNAVAILABLE", "Workflow execution is not available", 503);
+    }
+
+    const workflow = await wfRepo.findById(id);
+    if (!workflow || workflow.orgId !== authCtx.orgId) return notFound(c, "Workflow");
+
+    const tests = await testRepo.findByWorkflow(id, version);
+    const suite = await executionService.runTests(id, workflow.orgId, version, tests.map(toTestCase));
+    if (!suite) return notFound(c, "Version");
+
+    return ok(c, suite);
+  });
+
+  /* ── Get test case ─────────────────────────────────────────── */
+
+  app.get("/:id/tests/:testId", requireAuth(auth), requireOrg(auth), orgContext(), validateParams(TestParam), async (c) => {
+    const authCtx = c.get("auth");
+    const { id, testId } = c.req.valid("param");
+
+    const workflow = await wfRepo.findById(id);
+    if (!workflow || workflow.orgId !== authCtx.orgId) return notFound(c, "Workflow");
+
+    const test = await testRepo.findById(testId);
+    if (!test || test.workflowId !== id) return notFound(c, "Test");
+
+    return ok(c, test);
+  });
+
+  /* ── Update test case ──────────────────────────────────────── */
+
+  app.patch("/:id/tests/:testId", requireAuth(auth), requireOrg(auth), orgContext(), validateParams(TestParam), validateBody(UpdateTestSchema), async (c) => {
+    const authCtx = c.get("auth");
+    const { id, testId } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    const workflow = await wfRepo.findById(id);
+    if (!workflow || workflow.orgId !== authCtx.orgId) return notFound(c, "Workflow");
+
+    if (!canEditWorkflow({ role: authCtx.role, orgId: authCtx.orgId }, { orgId: workflow.orgId })) {
+      return forbidden(c);
+    }
+
+    const test = await testRepo.findById(testId);
+    if (!test || test.workflowId !== id) return notFound(c, "Test");
+
+    if (body.name && body.name !== test.name) {
+      const existing = await testRepo.findByWorkflow(id, test.workflowVersion);
+      if (existing.some((t) => t.name === body.name)) {
+        return conflict(c, `Version ${test.workflowVersion} already has a test named "${body.name}"`);
+      }
+    }
+
+    return ok(c, await testRepo.update(testId, body));
+  });
+
+  /* ── Delete test case ──────────────────────────────────────── */
+
+  app.delete("/:id/tests/:testId", requireAuth(auth), requireOrg(auth), orgContext(), validateParams(TestParam), async (c) => {
+    const authCtx = c.get("auth");
+    const { id, testId } = c.req.valid("param");
+
+    const workflow = await wfRepo.findById(id);
+    if (!workflow || workflow.orgId !== authCtx.orgId) return notFound(c, "Workflow");
+
+    if (!canEditWorkflow({ role: authCtx.role, orgId: authCtx.orgId }, { orgId: workflow.orgId })) {
+      return forbidden(c);
+    }
+
+    const test = await testRepo.findById(testId);
+    if (!test || test.workflowId !== id) return notFound(c, "Test");
+
+    await testRepo.delete(testId);
+    return ok(c, { message: "Test deleted" });
+  });
+
+  /* ── Run one test case ─────────────────────────────────────── */
+
+  app.post("/:id/tests/:testId/run", requireAuth(auth), requireOrg(auth), orgContext(), validateParams(TestParam), async (c) => {
+    const authCtx = c.get("auth");
+    const { id, testId } = c.req.valid("param");
+
+    if (!executionService) {
+      return err(c, "SERVICE_UNAVAILABLE", "Workflow execution is not available", 503);
+    }
+
+    const workflow = await wfRepo.findById(id);
+    if (!workflow || workflow.orgId !== authCtx.orgId) return notFound(c, "Workflow");
+
+    const test = await testRepo.findById(testId);
+    if (!test || test.workflowId !== id) return notFound(c, "Test");
+
+    const suite = await executionService.runTests(id, workflow.orgId, test.workflowVersion, [toTestCase(test)]);
+    if (!suite) return notFound(c, "Version");
+
+    return ok(c, suite.cases[0]);
+  });
+
+  return app;
+}
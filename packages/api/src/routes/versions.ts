@@ -1,26 +1,134 @@
 import { Hono } from "hono";
 import { z } from "zod";
+import { nanoid } from "nanoid";
 import type { AuthInstance } from "@vsync/auth";
 import { requireAuth, requireOrg, canEditWorkflow } from "@vsync/auth";
 import type { Database } from "@vsync/db";
-import { WorkflowRepository } from "@vsync/db";
+import { WorkflowRepository, WorkflowTestRepository } from "@vsync/db";
+import type { Block, BlockGroup, TriggerConfig, TriggerType } from "@vsync/shared-types";
+import type { TestSuiteResult } from "@vsync/engine";
 import { validateBody, validateParams } from "../middleware/validate.js";
 import { orgContext } from "../middleware/org-context.js";
 import { ok, notFound, forbidden, err } from "../lib/response.js";
 import type { AppEnv } from "../lib/types.js";
+import { CronError } from "../lib/cron.js";
+import { checkContract, formatViolations, lintJsonSchema } from "../lib/json-schema.js";
+import { formatDiagnostics, lintVersion } from "../lib/workflow-lint.js";
+import { formatTestFailures, toTestCase } from "../lib/workflow-tests.js";
+import { resolveScheduleSpec } from "../services/ScheduleService.js";
+import type { WorkflowExecutionService } from "../services/WorkflowExecutionService.js";
+import { KeyUsageService } from "../services/KeyUsageService.js";
+import { HOOK_TRIGGER_TYPES } from "./hooks.js";
 
 const WorkflowParam = z.object({ id: z.string().min(1) });
 const VersionParam = z.object({ id: z.string().min(1), v: z.string().regex(/^\d+$/) });
 
+/** A BlockGroup — a designer section, or an error scope with a catch, retry or finally */
+const BlockGroupSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().min(1).max(200),
+  startBlockId: z.string().min(1),
+  endBlockId: z.string().min(1),
+  catchBlockId: z.string().min(1).optional(),
+  retry: z.object({
+    maxAttempts: z.number().int().min(1).max(10),
+    backoffMs: z.number().int().min(0).max(60_000).optional(),
+  }).optional(),
+  finallyEndBlockId: z.string().min(1).optional(),
+});
+
 const UpdateVersionSchema = z.object({
-  triggerType: z.enum(["interactive", "api", "schedule", "webhook", "event"]).optional(),
+  triggerType: z.enum(["interactive", "api", "schedule", "hook", "webhook", "event"]).optional(),
   triggerConfig: z.record(z.unknown()).optional(),
+  /** `$state` paths returned as the run's output — null returns the whole state */
+  outputKeys: z.array(z.string().min(1).max(200)).max(100).nullable().optional(),
+  /** JsonSchema contracts for `$event` and the run output — null removes one */
+  inputSchema: z.record(z.unknown()).nullable().optional(),
+  outputSchema: z.record(z.unknown()).nullable().optional(),
+  groups: z.array(BlockGroupSchema).max(200).optional(),
   changelog: z.string().max(2000).optional(),
 });
 
-export function versionRoutes(auth: AuthInstance, db: Database) {
+/** A fixture result for a simulated block, or the error it fails with */
+export const BlockMockSchema = z.union([
+  z.object({ error: z.string().min(1).max(2000) }).strict(),
+  z.object({
+    stateDelta: z.record(z.unknown()).optional(),
+    cacheDelta: z.record(z.unknown()).optional(),
+    artifactsDelta: z.record(z.unknown()).optional(),
+    eventDelta: z.record(z.unknown()).optional(),
+  }).strict(),
+]);
+
+const SimulateSchema = z.object({
+  /** The trigger payload the simulation runs with, as `$event` */
+  event: z.record(z.unknown()).default({}),
+  /** Mocks by block ID, then by block type */
+  blocks: z.record(BlockMockSchema).optional(),
+  types: z.record(BlockMockSchema).optional(),
+  /** Block types to stub — omitted, the side-effecting types are */
+  stub: z.array(z.string().min(1)).max(50).optional(),
+});
+
+/** Why a schedule trigger config is invalid (cron, timezone or missed-fire policy), or null if it is valid */
+function scheduleError(triggerConfig: unknown): string | null {
+  try {
+    resolveScheduleSpec(triggerConfig as TriggerConfig | null);
+    return null;
+  } catch (e) {
+    if (e instanceof CronError) return e.message;
+    throw e;
+  }
+}
+
+/**
+ * @param executionService — optional; simulations and publishing a
+ *   version that has test cases need it to run the engine
+ */
+export function versionRoutes(
+  auth: AuthInstance,
+  db: Database,
+  executionService?: WorkflowExecutionService,
+) {
   const app = new Hono<AppEnv>();
   const repo = new WorkflowRepository(db);
+  const testRepo = new WorkflowTestRepository(db);
+  const keyUsage = new KeyUsageService(db);
+
+  /** Run the workflow linter over a stored version and its blocks */
+  async function lintStoredVersion(
+    workflowId: string,
+    version: { version: number; triggerType: string | null; executionEnvironments: unknown; groups: unknown },
+  ) {
+    const { eq, and } = await import("drizzle-orm");
+    const { blocks } = await import("@vsync/db");
+
+    const versionBlocks = await db.query.blocks.findMany({
+      where: and(
+        eq(blocks.workflowId, workflowId),
+        eq(blocks.workflowVersion, version.version),
+      ),
+      orderBy: blocks.order,
+    });
+
+    return lintVersion({
+      triggerType: (version.triggerType ?? "interactive") as TriggerType,
+      executionEnvironments: Array.isArray(version.executionEnvironments)
+        ? (version.executionEnvironments as string[])
+        : [],
+      blocks: versionBlocks.map((b) => ({
+        id: b.id,
+        workflowId: b.workflowId,
+        workflowVersion: b.workflowVersion,
+        name: b.name,
+        type: b.type as Block["type"],
+        logic: (b.logic ?? {}) as Record<string, unknown>,
+        conditions: b.conditions as Block["conditions"],
+        order: b.order,
+      })),
+      groups: Array.isArray(version.groups) ? (version.groups as BlockGroup[]) : [],
+    });
+  }
 
   /* ── Create new version ────────────────────────────────────── */
 
@@ -71,6 +179,57 @@ export function versionRoutes(auth: AuthInstance, db: Database) {
     return ok(c, version);
   });
 
+  /* ── Lint version ──────────────────────────────────────────── */
+
+  app.get("/:id/versions/:v/lint", requireAuth(auth), requireOrg(auth), orgContext(), validateParams(VersionParam), async (c) => {
+    const authCtx = c.get("auth");
+    const { id, v } = c.req.valid("param");
+    const versionNum = parseInt(v, 10);
+
+    const workflow = await repo.findById(id);
+    if (!workflow || workflow.orgId !== authCtx.orgId) return notFound(c, "Workflow");
+
+    const version = (await repo.findVersions(id)).find((ver) => ver.version === versionNum);
+    if (!version) return notFound(c, "Version");
+
+    return ok(c, await lintStoredVersion(id, version));
+  });
+
+  /* ── Simulate version ──────────────────────────────────────── */
+
+  app.post("/:id/versions/:v/simulate", requireAuth(auth), requireOrg(auth), orgContext(), validateParams(VersionParam), validateBody(SimulateSchema), async (c) => {
+    const authCtx = c.get("auth");
+    const { id, v } = c.req.valid("param");
+    const versionNum = parseInt(v, 10);
+    const { event, ...simulation } = c.req.valid("json");
+
+    if (!executionService) {
+      return err(c, "SERVICE_UNAVAILABLE", "Workflow execution is not available", 503);
+    }
+
+    const workflow = await repo.findById(id);
+    if (!workflow || workflow.orgId !== authCtx.orgId) return notFound(c, "Workflow");
+
+    const version = (await repo.findVersions(id)).find((ver) => ver.version === versionNum);
+    if (!version) return notFound(c, "Version");
+
+    const violations = checkContract(version.inputSchema, event);
+    if (violations.length > 0) {
+      return err(
+        c,
+        "INVALID_INPUT",
+        `Event does not match the input schema: ${formatViolations(violations)}`,
+        422,
+        violations,
+      );
+    }
+
+    const result = await executionService.simulate(id, authCtx.orgId, versionNum, event, simulation);
+    if (!result) return notFound(c, "Version");
+
+    return ok(c, result);
+  });
+
   /* ── Update version metadata ───────────────────────────────── */
 
   app.patch("/:id/versions/:v", requireAuth(auth), orgContext(), validateParams(VersionParam), validateBody(UpdateVersionSchema), async (c) => {
@@ -94,6 +253,25 @@ export function versionRoutes(auth: AuthInstance, db: Database) {
     const { workflowVersions } = await import("@vsync/db");
     const body = c.req.valid("json");
 
+    for (const field of ["inputSchema", "outputSchema"] as const) {
+      const schema = body[field];
+      const problems = schema ? lintJsonSchema(schema) : [];
+      if (problems.length > 0) {
+        return err(c, "INVALID_SCHEMA", `${field} is invalid: ${formatViolations(problems)}`, 422, problems);
+      }
+    }
+
+    /* Drafts may set the trigger type before its config, so only a config being written is checked */
+    if (body.triggerConfig) {
+      const current = (await repo.findVersions(id)).find((ver) => ver.version === versionNum);
+      if (!current) return notFound(c, "Version");
+
+      const problem = (body.triggerType ?? current.triggerType) === "schedule"
+        ? scheduleError(body.triggerConfig)
+        : null;
+      if (problem) return err(c, "INVALID_SCHEDULE", problem, 422);
+    }
+
     const [updated] = await db
       .update(workflowVersions)
       .set({ ...body, updatedAt: new Date() })
@@ -121,9 +299,52 @@ export function versionRoutes(auth: AuthInstance, db: Database) {
       return forbidden(c);
     }
 
+    const version = (await repo.findVersions(id)).find((ver) => ver.version === versionNum);
+    if (version?.triggerType === "schedule") {
+      const problem = scheduleError(version.triggerConfig);
+      if (problem) return err(c, "INVALID_SCHEDULE", problem, 422);
+    }
+
+    /* Lint errors block publishing; warnings are returned alongside the published workflow */
+    const diagnostics = version ? await lintStoredVersion(id, version) : [];
+    const lintErrors = diagnostics.filter((d) => d.severity === "error");
+    if (lintErrors.length > 0) {
+      return err(c, "LINT_FAILED", `Version ${versionNum} has lint errors: ${formatDiagnostics(lintErrors)}`, 422, diagnostics);
+    }
+
+    /* A version with test cases publishes only while they all pass */
+    const tests = await testRepo.findByWorkflow(id, versionNum);
+    let suite: TestSuiteResult | null = null;
+    if (tests.length > 0) {
+      if (!executionService) {
+        return err(c, "SERVICE_UNAVAILABLE", "Workflow execution is not available to run this version's tests", 503);
+      }
+      suite = await executionService.runTests(id, workflow.orgId, versionNum, tests.map(toTestCase));
+      if (suite && !suite.passed) {
+        return err(
+          c,
+          "TESTS_FAILED",
+          `Version ${versionNum} fails ${suite.failed} of ${suite.total} tests: ${formatTestFailures(suite)}`,
+          422,
+          suite,
+        );
+      }
+    }
+
     try {
       const updated = await repo.publishVersion(id, versionNum);
-      return ok(c, updated);
+      await keyUsage.indexVersion(id, versionNum);
+
+      /* The hook URL (/hooks/:token) is minted once and survives later versions */
+      if (HOOK_TRIGGER_TYPES.includes(version?.triggerType ?? "") && !workflow.hookToken) {
+        await repo.update(id, { hookToken: nanoid(32) });
+      }
+
+      const meta = {
+        ...(diagnostics.length > 0 ? { diagnostics } : {}),
+        ...(suite ? { tests: suite } : {}),
+      };
+      return ok(c, updated, Object.keys(meta).length > 0 ? meta : undefined);
     } catch (e) {
       return err(c, "PUBLISH_FAILED", (e as Error).message, 400);
     }
@@ -152,6 +373,7 @@ export function versionRoutes(auth: AuthInstance, db: Database) {
         eq(workflowVersions.workflowId, id),
         eq(workflowVersions.version, versionNum),
       ));
+    await keyUsage.forgetVersion(id, versionNum);
 
     return ok(c, { message: "Version deleted" });
   });
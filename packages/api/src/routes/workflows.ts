@@ -4,12 +4,15 @@ import { nanoid } from "nanoid";
 import type { AuthInstance } from "@vsync/auth";
 import { requireAuth, requireOrg, canEditWorkflow, canDeleteWorkflow } from "@vsync/auth";
 import type { Database } from "@vsync/db";
-import { WorkflowRepository } from "@vsync/db";
+import { WorkflowRepository, ScheduleRepository } from "@vsync/db";
+import type { TriggerConfig } from "@vsync/shared-types";
 import { validateBody, validateParams, validateQuery } from "../middleware/validate.js";
 import { orgContext } from "../middleware/org-context.js";
 import { ok, notFound, forbidden, conflict } from "../lib/response.js";
 import { clampLimit, decodeCursor, buildPaginationMeta } from "../lib/pagination.js";
 import type { AppEnv } from "../lib/types.js";
+import { nextFireTime } from "../lib/cron.js";
+import { resolveScheduleSpec } from "../services/ScheduleService.js";
 
 const CreateWorkflowSchema = z.object({
   name: z.string().min(1).max(255),
@@ -33,6 +36,39 @@ const ListQuerySchema = z.object({
 export function workflowRoutes(auth: AuthInstance, db: Database) {
   const app = new Hono<AppEnv>();
   const repo = new WorkflowRepository(db);
+  const scheduleRepo = new ScheduleRepository(db);
+
+  /**
+   * Schedule summary for a workflow's active version, or null when it
+   * is not schedule-triggered. Prefers the scheduler's own row; until
+   * the scheduler has synced a newly published version, the next fire
+   * time is computed from the version's trigger config.
+   */
+  const describeSchedule = async (
+    workflowId: string,
+    version: { version: number; triggerType: string | null; triggerConfig: unknown } | undefined,
+  ) => {
+    if (version?.triggerType !== "schedule") return null;
+
+    const row = await scheduleRepo.findByWorkflow(workflowId);
+    if (row && row.version === version.version) {
+      const { cron, timezone, missedPolicy, nextFireAt, lastFiredAt } = row;
+      return { cron, timezone, missedPolicy, nextFireAt, lastFiredAt };
+    }
+
+    try {
+      const spec = resolveScheduleSpec(version.triggerConfig as TriggerConfig | null);
+      return {
+        cron: spec.cron,
+        timezone: spec.timezone,
+        missedPolicy: spec.missedPolicy,
+        nextFireAt: nextFireTime(spec.schedule, new Date(), spec.timezone),
+        lastFiredAt: row?.lastFiredAt ?? null,
+      };
+    } catch {
+      return null;
+    }
+  };
 
   /* ── Create ────────────────────────────────────────────────── */
 
@@ -78,7 +114,8 @@ export function workflowRoutes(auth: AuthInstance, db: Database) {
     if (!workflow) return notFound(c, "Workflow");
 
     const active = await repo.getActiveVersion(id);
-    return ok(c, { ...workflow, activeVersionDetail: active ?? null });
+    const schedule = await describeSchedule(id, active?.version);
+    return ok(c, { ...workflow, activeVersionDetail: active ?? null, schedule });
   });
 
   /* ── Update ────────────────────────────────────────────────── */
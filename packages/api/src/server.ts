@@ -2,17 +2,27 @@ import { serve } from "@hono/node-server";
 import { WebSocketServer } from "ws";
 import type { WebSocket as WsWebSocket, RawData } from "ws";
 import { createPostgresClient, createPgliteClient, type Database } from "@vsync/db";
-import { createAuthServer } from "@vsync/auth";
+import { createAuthServer, ROLE_HIERARCHY } from "@vsync/auth";
+import type { RoleName } from "@vsync/auth";
 import { Interpreter } from "@vsync/engine";
 import { NodeAdapter } from "@vsync/engine-adapters";
+import { CloudKeyStore } from "@vsync/key-manager";
 import { createApp } from "./index.js";
 import { handleMessage, handleDisconnect } from "./ws/handlers.js";
+import { getKeyMasterKeys } from "./lib/key-encryption.js";
+import { KeyUsageService } from "./services/KeyUsageService.js";
 import type { IncomingMessage } from "node:http";
 import type { WSLike } from "./ws/manager.js";
 import { sql } from "drizzle-orm";
 
 const PORT = parseInt(process.env["PORT"] ?? "3001", 10);
 
+/** Positive integer from the environment, or undefined to keep the default */
+function envInt(name: string): number | undefined {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
 /**
  * Bootstrap an in-memory PGlite database with all required tables.
  * Used for local development when DATABASE_URL is not provided.
@@ -98,6 +108,16 @@ async function createDevDatabase(): Promise<Database> {
       UNIQUE(org_id, user_id)
     )
   `);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS sso_identities (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+      subject TEXT NOT NULL,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT now(),
+      UNIQUE(org_id, subject)
+    )
+  `);
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS workflows (
       id TEXT PRIMARY KEY,
@@ -113,6 +133,7 @@ async function createDevDatabase(): Promise<Database> {
       public_access_mode TEXT DEFAULT 'view',
       public_branding JSONB,
       public_rate_limit JSONB,
+      hook_token TEXT UNIQUE,
       created_by UUID REFERENCES users(id),
       updated_by UUID,
       created_at TIMESTAMP DEFAULT now(),
@@ -126,6 +147,10 @@ async function createDevDatabase(): Promise<Database> {
       status TEXT DEFAULT 'draft',
       trigger_type TEXT DEFAULT 'interactive',
       trigger_config JSONB,
+      output_keys JSONB,
+      input_schema JSONB,
+      output_schema JSONB,
+      groups JSONB DEFAULT '[]',
       execution_environments JSONB DEFAULT '["cloud"]',
       changelog TEXT,
       created_at TIMESTAMP DEFAULT now(),
@@ -133,6 +158,37 @@ async function createDevDatabase(): Promise<Database> {
       PRIMARY KEY (workflow_id, version)
     )
   `);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS workflow_schedules (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL UNIQUE REFERENCES workflows(id) ON DELETE CASCADE,
+      org_id UUID NOT NULL,
+      version INT NOT NULL,
+      cron TEXT NOT NULL,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      missed_policy TEXT NOT NULL DEFAULT 'skip',
+      next_fire_at TIMESTAMP,
+      last_fired_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now()
+    )
+  `);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS hook_deliveries (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      org_id UUID NOT NULL,
+      run_id TEXT,
+      status TEXT NOT NULL,
+      response_status INT,
+      error TEXT,
+      method TEXT NOT NULL,
+      headers JSONB,
+      query JSONB,
+      body JSONB,
+      received_at TIMESTAMP DEFAULT now()
+    )
+  `);
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS blocks (
       id TEXT PRIMARY KEY,
@@ -148,6 +204,24 @@ async function createDevDatabase(): Promise<Database> {
       updated_at TIMESTAMP DEFAULT now()
     )
   `);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS workflow_tests (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      workflow_version INT NOT NULL,
+      name TEXT NOT NULL,
+      event JSONB NOT NULL DEFAULT '{}',
+      mocks JSONB NOT NULL DEFAULT '{}',
+      stub JSONB,
+      expected_status TEXT NOT NULL DEFAULT 'completed',
+      expected_state JSONB NOT NULL DEFAULT '{}',
+      expected_steps JSONB NOT NULL DEFAULT '{}',
+      created_by UUID REFERENCES users(id),
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now(),
+      UNIQUE (workflow_id, workflow_version, name)
+    )
+  `);
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS runs (
       id TEXT PRIMARY KEY,
@@ -157,12 +231,21 @@ async function createDevDatabase(): Promise<Database> {
       status TEXT DEFAULT 'pending',
       trigger_type TEXT,
       trigger_source TEXT,
+      priority INT NOT NULL DEFAULT 0,
+      claimed_by TEXT,
+      heartbeat_at TIMESTAMP,
       started_at TIMESTAMP,
       completed_at TIMESTAMP,
       duration_ms INT,
       error_message TEXT,
       steps_json JSONB,
+      checkpoint JSONB,
+      output JSONB,
       metadata JSONB,
+      parent_run_id TEXT,
+      parent_block_id TEXT,
+      call_depth INT NOT NULL DEFAULT 0,
+      debug JSONB,
       created_at TIMESTAMP DEFAULT now()
     )
   `);
@@ -219,26 +302,99 @@ async function createDevDatabase(): Promise<Database> {
       created_at TIMESTAMP DEFAULT now()
     )
   `);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS org_data_keys (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL REFERENCES organizations(id),
+      wrapped_key TEXT NOT NULL,
+      iv TEXT NOT NULL,
+      master_key_id TEXT NOT NULL,
+      is_active BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMP DEFAULT now(),
+      rewrapped_at TIMESTAMP
+    )
+  `);
+  await db.execute(sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS org_data_keys_active_unique ON org_data_keys (org_id) WHERE is_active
+  `);
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS keys (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      id TEXT PRIMARY KEY,
       org_id UUID NOT NULL REFERENCES organizations(id),
+      workflow_id TEXT REFERENCES workflows(id),
       name TEXT NOT NULL,
-      encrypted_key TEXT NOT NULL,
+      description TEXT,
+      provider TEXT NOT NULL DEFAULT 'custom',
+      key_type TEXT NOT NULL DEFAULT 'api_key',
+      encrypted_value TEXT NOT NULL,
       iv TEXT NOT NULL,
+      data_key_id TEXT REFERENCES org_data_keys(id),
       algorithm TEXT DEFAULT 'aes-256-gcm',
-      is_active BOOLEAN DEFAULT true,
+      storage_mode TEXT DEFAULT 'cloud',
+      last_used_at TIMESTAMP,
+      last_rotated_at TIMESTAMP,
+      expires_at TIMESTAMP,
+      rotation_max_age_days INTEGER,
+      rotation_warn_days INTEGER,
+      health_status TEXT NOT NULL DEFAULT 'ok',
+      is_revoked BOOLEAN DEFAULT false,
+      metadata JSONB,
+      created_by UUID REFERENCES users(id),
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now()
+    )
+  `);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS oauth_connections (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL REFERENCES organizations(id),
+      workflow_id TEXT REFERENCES workflows(id),
+      name TEXT NOT NULL,
+      key_id TEXT REFERENCES keys(id) ON DELETE SET NULL,
+      provider TEXT NOT NULL,
+      authorize_url TEXT NOT NULL,
+      token_url TEXT NOT NULL,
+      client_id TEXT NOT NULL,
+      scopes JSONB,
+      redirect_uri TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      data_key_id TEXT NOT NULL REFERENCES org_data_keys(id),
+      encrypted_client_secret TEXT NOT NULL,
+      client_secret_iv TEXT NOT NULL,
+      encrypted_refresh_token TEXT,
+      refresh_token_iv TEXT,
+      state_hash TEXT UNIQUE,
+      encrypted_code_verifier TEXT,
+      code_verifier_iv TEXT,
+      state_expires_at TIMESTAMP,
+      access_token_expires_at TIMESTAMP,
+      last_refreshed_at TIMESTAMP,
+      refresh_locked_until TIMESTAMP,
+      last_error TEXT,
       created_by UUID REFERENCES users(id),
       created_at TIMESTAMP DEFAULT now(),
-      rotated_at TIMESTAMP
+      updated_at TIMESTAMP DEFAULT now()
+    )
+  `);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS key_references (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL REFERENCES organizations(id),
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      workflow_version INTEGER NOT NULL,
+      block_id TEXT NOT NULL,
+      key_name TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT now()
     )
   `);
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS key_audit_log (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      key_id UUID NOT NULL REFERENCES keys(id),
+      id TEXT PRIMARY KEY,
+      key_id TEXT NOT NULL REFERENCES keys(id) ON DELETE CASCADE,
       action TEXT NOT NULL,
       performed_by UUID REFERENCES users(id),
+      ip_address TEXT,
+      user_agent TEXT,
       metadata JSONB,
       created_at TIMESTAMP DEFAULT now()
     )
@@ -284,14 +440,42 @@ async function createDevDatabase(): Promise<Database> {
     )
   `);
 
-  console.log("[api] PGlite schema created (19 tables)");
+  console.log("[api] PGlite schema created (25 tables)");
   return db;
 }
 
+/** Move stored keys onto the current master key, logging what changed. */
+async function rewrapKeys(db: Database): Promise<void> {
+  try {
+    const { rewrapped, migrated, failed } = await new CloudKeyStore(db, getKeyMasterKeys()).rewrapDataKeys();
+    if (rewrapped > 0 || migrated > 0) {
+      console.log(`[api] Re-wrapped ${rewrapped} data key(s), moved ${migrated} key(s) onto data keys`);
+    }
+    for (const { kind, id, error } of failed) {
+      console.warn(`[api] Could not move ${kind === "key" ? "key" : "data key"} ${id} onto the current master key: ${error}`);
+    }
+  } catch (error) {
+    console.error("[api] Master key re-wrap failed:", error instanceof Error ? error.message : error);
+  }
+}
+
+/** Index key references for workflow versions that have none indexed yet. */
+async function backfillKeyReferences(db: Database): Promise<void> {
+  try {
+    const count = await new KeyUsageService(db).backfill();
+    console.log(`[api] Checked key references in ${count} unindexed workflow version(s)`);
+  } catch (error) {
+    console.error("[api] Key reference indexing failed:", error instanceof Error ? error.message : error);
+  }
+}
+
 /**
  * Standalone entry point for the V Sync API server.
  * Connects to Postgres (or falls back to in-memory PGlite),
- * initialises auth, and starts Hono on the configured port.
+ * initialises auth, starts the run queue worker (which also recovers
+ * runs interrupted by a crash), the cron scheduler and the key health
+ * sweep, kicks off the master key re-wrap and key reference indexing
+ * jobs, and starts Hono on the configured port.
  * WebSocket upgrades on /api/v1/ws are handled by a co-located
  * WSS instance. Graceful shutdown tears down HTTP + WS connections.
  */
@@ -309,11 +493,41 @@ async function main() {
   const nodeAdapter = new NodeAdapter();
   nodeAdapter.registerBlocks(interpreter.blockExecutor);
 
-  const { app, wsManager } = createApp(auth, db, {
+  const { app, wsManager, executionService, scheduleService, keyHealthService } = createApp(auth, db, {
     corsOrigins: (process.env["CORS_ORIGINS"] ?? "").split(",").filter(Boolean),
     interpreter,
+    runQueue: {
+      globalConcurrency: envInt("RUN_QUEUE_CONCURRENCY"),
+      orgConcurrency: envInt("RUN_QUEUE_ORG_CONCURRENCY"),
+    },
   });
 
+  /* Sweep runs orphaned by a dead worker, then start draining the run queue */
+  if (executionService) {
+    await executionService.queue.start();
+    console.log(`[api] Run queue worker ${executionService.queue.workerId} started`);
+  }
+
+  /* Sync schedules with published versions and start firing them */
+  if (scheduleService) {
+    await scheduleService.start();
+    console.log("[api] Cron scheduler started");
+  }
+
+  /* Flag keys that are expiring or overdue for rotation */
+  await keyHealthService.start();
+  console.log("[api] Key health sweep started");
+
+  /*
+   * Re-wrap data keys still wrapped by a previous master key. Runs in
+   * the background — reads keep working against the previous key until
+   * it finishes, so startup never waits on it.
+   */
+  void rewrapKeys(db);
+
+  /* Fill the `$keys.*` reference index for versions saved before it existed */
+  void backfillKeyReferences(db);
+
   /* Start the HTTP server */
   const server = serve({ fetch: app.fetch, port: PORT }, (info) => {
     console.log(`[api] V Sync API running on http://localhost:${info.port}`);
@@ -376,6 +590,7 @@ async function main() {
        */
       let userId: string | null = null;
       let orgId: string | null = null;
+      let role: RoleName | null = null;
       try {
         const session = await auth.api.getSession({
           headers: new Headers({ authorization: `Bearer ${token}` }),
@@ -388,6 +603,8 @@ async function main() {
         const sessionRecord = session.session as Record<string, unknown>;
         const rawOrgId = sessionRecord["activeOrganizationId"];
         orgId = typeof rawOrgId === "string" ? rawOrgId : null;
+        const rawRole = sessionRecord["role"];
+        role = typeof rawRole === "string" && rawRole in ROLE_HIERARCHY ? (rawRole as RoleName) : "member";
       } catch {
         ws.close(4001, "Authentication failed");
         return;
@@ -396,11 +613,12 @@ async function main() {
       wsManager.register(wsLike, {
         userId,
         orgId,
+        role,
         channels: new Set(channels),
       });
 
       ws.on("message", (data: RawData) => {
-        handleMessage(wsManager, wsLike, data.toString());
+        handleMessage(wsManager, wsLike, data.toString(), executionService);
       });
 
       ws.on("close", () => {
@@ -424,6 +642,9 @@ async function main() {
   /* Graceful shutdown */
   const shutdown = () => {
     console.log("[api] Shutting down...");
+    scheduleService?.stop();
+    /* Stop claiming — runs still in flight are requeued from their checkpoints once their heartbeat goes stale */
+    void executionService?.queue.stop();
     wss.close();
     server.close(() => {
       console.log("[api] Server closed");
@@ -0,0 +1,147 @@
+import type { Database } from "@vsync/db";
+import { KeyRepository } from "@vsync/db";
+import { KEY_HEALTH_SWEEP_INTERVAL_MS } from "@vsync/config";
+import { assessKeyHealth, KEY_HEALTH_STATUSES } from "../lib/key-health.js";
+import type { KeyHealth } from "../lib/key-health.js";
+import { keyHealth } from "../ws/events.js";
+import type { WSManager } from "../ws/manager.js";
+import { KeyUsageService } from "./KeyUsageService.js";
+import type { KeyUsage } from "./KeyUsageService.js";
+
+export interface KeyHealthServiceOptions {
+  /** How often the background sweep runs */
+  sweepIntervalMs?: number;
+}
+
+/** One key in the health report */
+export interface KeyHealthReportEntry extends KeyHealth {
+  id: string;
+  name: string;
+  provider: string;
+  keyType: string;
+  /** Set when the key is scoped to one workflow */
+  workflowId: string | null;
+  rotationMaxAgeDays: number | null;
+  rotationWarnDays: number | null;
+  lastRotatedAt: Date | null;
+  /** Published versions that reference the key */
+  workflows: KeyUsage[];
+}
+
+/**
+ * Watches stored keys for expiry and rotation deadlines.
+ *
+ * The sweep judges every unrevoked key with assessKeyHealth() and
+ * records changes in `keys.health_status` with a compare-and-set, so
+ * each change is acted on once even when several API instances sweep.
+ * A key newly flagged as expiring, expired or due for rotation gets a
+ * `flagged` audit entry and a `key:health` event on its org channel;
+ * a key that recovers (rotated, or its policy relaxed) is reset
+ * quietly.
+ */
+export class KeyHealthService {
+  private readonly keyRepo: KeyRepository;
+  private readonly keyUsage: KeyUsageService;
+  private readonly sweepIntervalMs: number;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sweeping = false;
+
+  constructor(
+    db: Database,
+    private readonly wsManager?: WSManager,
+    options: KeyHealthServiceOptions = {},
+  ) {
+    this.keyRepo = new KeyRepository(db);
+    this.keyUsage = new KeyUsageService(db);
+    this.sweepIntervalMs = options.sweepIntervalMs ?? KEY_HEALTH_SWEEP_INTERVAL_MS;
+  }
+
+  /**
+   * Judge every unrevoked key and record status changes.
+   * Returns the IDs of the keys newly flagged by this sweep.
+   */
+  async sweep(now = new Date()): Promise<string[]> {
+    const flagged: string[] = [];
+
+    for (const key of await this.keyRepo.findActiveKeys()) {
+      const health = assessKeyHealth(key, now);
+      if (health.status === key.healthStatus) continue;
+
+      const isFlag = health.status !== "ok";
+      const details = {
+        name: key.name,
+        previousStatus: key.healthStatus,
+        rotateBy: health.rotateBy?.toISOString() ?? null,
+        expiresAt: health.expiresAt?.toISOString() ?? null,
+      };
+
+      const updated = await this.keyRepo.setHealthStatus(
+        key.id,
+        key.healthStatus,
+        health.status,
+        isFlag ? { status: health.status, ...details } : undefined,
+      );
+      if (!updated || !isFlag) continue;
+
+      this.wsManager?.broadcast(`org:${key.orgId}`, keyHealth(key.id, health.status, details));
+      flagged.push(key.id);
+    }
+
+    return flagged;
+  }
+
+  /**
+   * Keys in an org that are expiring, expired or due for rotation,
+   * most urgent first, each with the published workflows that use it.
+   */
+  async report(orgId: string, now = new Date()): Promise<KeyHealthReportEntry[]> {
+    const unhealthy = (await this.keyRepo.findActiveKeys(orgId))
+      .map((key) => ({ key, health: assessKeyHealth(key, now) }))
+      .filter(({ health }) => health.status !== "ok")
+      .sort(
+        (a, b) =>
+          KEY_HEALTH_STATUSES.indexOf(a.health.status) - KEY_HEALTH_STATUSES.indexOf(b.health.status),
+      );
+
+    return Promise.all(unhealthy.map(async ({ key, health }) => ({
+      id: key.id,
+      name: key.name,
+      provider: key.provider,
+      keyType: key.keyType,
+      workflowId: key.workflowId,
+      rotationMaxAgeDays: key.rotationMaxAgeDays,
+      rotationWarnDays: key.rotationWarnDays,
+      lastRotatedAt: key.lastRotatedAt,
+      ...health,
+      workflows: await this.keyUsage.liveUsages(key),
+    })));
+  }
+
+  /** Sweep now, then every sweep interval. The timer never keeps the process alive. */
+  async start(): Promise<void> {
+    await this.runSweep();
+    this.timer = setInterval(() => void this.runSweep(), this.sweepIntervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /* ── Internal helpers ───────────────────────────────── */
+
+  private async runSweep(): Promise<void> {
+    /* A slow sweep must not overlap the next one */
+    if (this.sweeping) return;
+    this.sweeping = true;
+    try {
+      await this.sweep();
+    } catch (error) {
+      console.error("[key-health] Sweep failed:", error);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
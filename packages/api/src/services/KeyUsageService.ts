@@ -0,0 +1,165 @@
+import { eq, and } from "drizzle-orm";
+import type { Database } from "@vsync/db";
+import { KeyReferenceRepository, KeyRepository, WorkflowRepository, blocks } from "@vsync/db";
+import { ContextManager } from "@vsync/engine";
+
+type KeyRow = NonNullable<Awaited<ReturnType<KeyRepository["findById"]>>>;
+type ReferenceRow = Awaited<ReturnType<KeyReferenceRepository["findByKeyName"]>>[number];
+
+/** A block that references a key */
+export interface KeyUsageBlock {
+  blockId: string;
+  /** null when the block was deleted after the version was last indexed */
+  blockName: string | null;
+}
+
+/** A version of a workflow whose blocks reference a key */
+export interface KeyUsageVersion {
+  version: number;
+  status: string | null;
+  /** The workflow's currently published version */
+  isActive: boolean;
+  blocks: KeyUsageBlock[];
+}
+
+/** A workflow that references a key, with the versions and blocks that do */
+export interface KeyUsage {
+  workflowId: string;
+  workflowName: string;
+  versions: KeyUsageVersion[];
+}
+
+/**
+ * Which workflows use which keys.
+ *
+ * `$keys.<name>` references in block logic and conditions are indexed
+ * per workflow version in `key_references` — rebuilt whenever a
+ * version's blocks are saved or it is published — so a key's usages
+ * are a lookup rather than a scan of every block. References are by
+ * name: `$keys.cloud.<name>` counts as `<name>`, and `$keys.local.*`
+ * is never indexed since local keys are not stored here.
+ */
+export class KeyUsageService {
+  private readonly refRepo: KeyReferenceRepository;
+  private readonly keyRepo: KeyRepository;
+  private readonly workflowRepo: WorkflowRepository;
+  private readonly contextManager = new ContextManager();
+
+  constructor(private readonly db: Database) {
+    this.refRepo = new KeyReferenceRepository(db);
+    this.keyRepo = new KeyRepository(db);
+    this.workflowRepo = new WorkflowRepository(db);
+  }
+
+  /** Rebuild the index for one workflow version from its stored blocks. */
+  async indexVersion(workflowId: string, version: number): Promise<void> {
+    const workflow = await this.workflowRepo.findById(workflowId);
+    if (!workflow) return;
+
+    const versionBlocks = await this.db.query.blocks.findMany({
+      where: and(eq(blocks.workflowId, workflowId), eq(blocks.workflowVersion, version)),
+    });
+
+    const refs: { blockId: string; keyName: string }[] = [];
+    for (const block of versionBlocks) {
+      const names = new Set<string>();
+      for (const ref of this.contextManager.collectKeyRefs([block.logic, block.conditions])) {
+        const keyName = storedKeyName(ref);
+        if (keyName) names.add(keyName);
+      }
+      for (const keyName of names) refs.push({ blockId: block.id, keyName });
+    }
+
+    await this.refRepo.replaceForVersion(workflow.orgId, workflowId, version, refs);
+  }
+
+  /** Drop the index entries of a deleted version. */
+  async forgetVersion(workflowId: string, version: number): Promise<void> {
+    await this.refRepo.deleteForVersion(workflowId, version);
+  }
+
+  /**
+   * Index the versions that have no references indexed yet — those
+   * saved before the index existed. Versions already indexed are kept
+   * up to date on save, so they are left alone; versions that use no
+   * key are scanned again but write nothing. Returns how many were
+   * indexed.
+   */
+  async backfill(): Promise<number> {
+    const versions = await this.refRepo.findUnindexedVersions();
+    for (const { workflowId, version } of versions) {
+      await this.indexVersion(workflowId, version);
+    }
+    return versions.length;
+  }
+
+  /**
+   * Every workflow, version and block that references a key. A
+   * workflow-scoped key is only visible to its own workflow, and an
+   * org-wide key is shadowed in workflows with a scoped key of the
+   * same name.
+   */
+  async usages(key: Pick<KeyRow, "orgId" | "name" | "workflowId">): Promise<KeyUsage[]> {
+    let rows = await this.refRepo.findByKeyName(key.orgId, key.name);
+
+    if (key.workflowId) {
+      rows = rows.filter((row) => row.workflowId === key.workflowId);
+    } else {
+      const shadowed = new Set(
+        (await this.keyRepo.findScopedByName(key.orgId, key.name)).map((k) => k.workflowId),
+      );
+      rows = rows.filter((row) => !shadowed.has(row.workflowId));
+    }
+
+    return groupUsages(rows);
+  }
+
+  /** Usages in workflows' currently published versions — the ones revoking the key would break. */
+  async liveUsages(key: Pick<KeyRow, "orgId" | "name" | "workflowId">): Promise<KeyUsage[]> {
+    return (await this.usages(key))
+      .map((usage) => ({
+        ...usage,
+        versions: usage.versions.filter((v) => v.isActive && v.status === "published"),
+      }))
+      .filter((usage) => usage.versions.length > 0);
+  }
+}
+
+/* ── Helpers ─────────────────────────────────────────── */
+
+/** The stored key a `$keys.*` reference names, or null for local-only references */
+function storedKeyName(ref: string): string | null {
+  if (ref.startsWith("local.")) return null;
+  if (ref.startsWith("cloud.")) return ref.slice(6) || null;
+  return ref;
+}
+
+/** Nest index rows by workflow, then version, keeping their order */
+function groupUsages(rows: ReferenceRow[]): KeyUsage[] {
+  const byWorkflow = new Map<string, KeyUsage>();
+
+  for (const row of rows) {
+    let usage = byWorkflow.get(row.workflowId);
+    if (!usage) {
+      usage = { workflowId: row.workflowId, workflowName: row.workflowName, versions: [] };
+      byWorkflow.set(row.workflowId, usage);
+    }
+
+    let version = usage.versions.find((v) => v.version === row.workflowVersion);
+    if (!version) {
+      version = {
+        version: row.workflowVersion,
+        status: row.versionStatus,
+        isActive: Boolean(row.isActive),
+        blocks: [],
+      };
+      usage.versions.push(version);
+    }
+
+    if (!version.blocks.some((b) => b.blockId === row.blockId)) {
+      version.blocks.push({ blockId: row.blockId, blockName: row.blockName });
+    }
+  }
+
+  return [...byWorkflow.values()];
+}
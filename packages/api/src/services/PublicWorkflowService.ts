@@ -2,17 +2,21 @@ import { nanoid } from "nanoid";
 import { createHash } from "node:crypto";
 import type { Database } from "@vsync/db";
 import { WorkflowRepository, PublicRunRepository } from "@vsync/db";
-import type { Interpreter, RunConfig, RunResult } from "@vsync/engine";
-import type { Block as DbBlock } from "@vsync/shared-types";
+import type { Interpreter, InterpreterHooks, RunConfig, RunResult } from "@vsync/engine";
+import type { BlockGroup, Block as DbBlock } from "@vsync/shared-types";
 import type { WSManager } from "../ws/manager.js";
 import {
   runStarted,
-  runStep,
   runCompleted,
   runFailed,
   runAwaitingAction,
 } from "../ws/events.js";
 import type { PausedRunState } from "./WorkflowExecutionService.js";
+import { checkContract, formatViolations } from "../lib/json-schema.js";
+import type { SchemaViolation } from "../lib/json-schema.js";
+import { enforceOutputSchema } from "../lib/run-output.js";
+import { createLiveStepReporter } from "./live-steps.js";
+import type { LiveStepReporter } from "./live-steps.js";
 
 /* ── Block type allow-list for public runs ─────────────────── */
 
@@ -27,6 +31,9 @@ const PUBLIC_ALLOWED_BLOCK_TYPES = new Set([
   "agent",
   "code",
   "goto",
+  "loop",
+  "break",
+  "continue",
   "sleep",
   "validation",
   "ui_form",
@@ -38,6 +45,15 @@ const PUBLIC_ALLOWED_BLOCK_TYPES = new Set([
 const PUBLIC_RUN_TIMEOUT_MS = 30_000;
 const PUBLIC_BLOCK_TIMEOUT_MS = 10_000;
 
+/** The workflow_versions fields public execution needs */
+interface PublicVersionRecord {
+  triggerType: string | null;
+  version: number;
+  outputKeys?: unknown;
+  outputSchema?: unknown;
+  groups?: unknown;
+}
+
 /* ── Public branding shape ─────────────────────────────────── */
 
 export interface PublicBranding {
@@ -81,8 +97,8 @@ export class PublicWorkflowService {
   private readonly wfRepo: WorkflowRepository;
   private readonly publicRunRepo: PublicRunRepository;
 
-  /** Cancellation flags keyed by runId */
-  private readonly cancelFlags = new Map<string, boolean>();
+  /** Cancellation controllers keyed by runId */
+  private readonly cancelControllers = new Map<string, AbortController>();
 
   constructor(
     private readonly db: Database,
@@ -147,6 +163,9 @@ export class PublicWorkflowService {
         order: b.order,
       })),
       environments: active.version.executionEnvironments,
+      /* Contracts let the public page generate its trigger form */
+      inputSchema: active.version.inputSchema ?? null,
+      outputSchema: active.version.outputSchema ?? null,
     };
   }
 
@@ -161,7 +180,10 @@ export class PublicWorkflowService {
     ip: string,
     userAgent: string,
     eventData: Record<string, unknown> = {},
-  ): Promise<{ runId: string } | { error: string; status: number }> {
+  ): Promise<
+    | { runId: string }
+    | { error: string; status: number; code?: string; details?: SchemaViolation[] }
+  > {
     const workflow = await this.wfRepo.findByPublicSlug(slug);
     if (!workflow) return { error: "Workflow not found", status: 404 };
 
@@ -190,6 +212,16 @@ export class PublicWorkflowService {
       };
     }
 
+    const violations = checkContract(active.version.inputSchema, eventData);
+    if (violations.length > 0) {
+      return {
+        error: `Input does not match the input schema: ${formatViolations(violations)}`,
+        status: 422,
+        code: "INVALID_INPUT",
+        details: violations,
+      };
+    }
+
     /* Create the public run record */
     const ipHash = hashIp(ip);
     const runId = nanoid();
@@ -274,9 +306,9 @@ export class PublicWorkflowService {
     return { resumed: true };
   }
 
-  /** Cancel a running public workflow. */
+  /** Cancel a running public workflow by aborting its signal. */
   cancelRun(runId: string): void {
-    this.cancelFlags.set(runId, true);
+    this.cancelControllers.get(runId)?.abort("Run cancelled");
   }
 
   /* ── Rate limiting ────────────────────────────────── */
@@ -307,7 +339,7 @@ export class PublicWorkflowService {
     runId: string,
     workflowId: string,
     orgId: string,
-    versionRecord: { triggerType: string | null; version: number },
+    versionRecord: PublicVersionRecord,
     dbBlocks: DbBlock[],
     triggerType: string,
     eventData: Record<string, unknown>,
@@ -327,6 +359,7 @@ export class PublicWorkflowService {
           }),
         );
 
+        const reporter = this.createStepReporter(runId);
         const runConfig = this.buildPublicRunConfig(
           runId,
           workflowId,
@@ -335,10 +368,12 @@ export class PublicWorkflowService {
           dbBlocks,
           triggerType,
           eventData,
+          reporter.hooks,
         );
 
         const result = await this.interpreter.executeRun(runConfig);
-        await this.processPublicRunResult(runId, workflowId, result, dbBlocks);
+        await reporter.flush();
+        await this.processPublicRunResult(runId, workflowId, versionRecord, result, dbBlocks);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         await this.publicRunRepo.updateStatus(runId, "failed", {
@@ -350,7 +385,7 @@ export class PublicWorkflowService {
           runFailed(runId, message),
         );
       } finally {
-        this.cancelFlags.delete(runId);
+        this.cancelControllers.delete(runId);
       }
     })();
   }
@@ -359,7 +394,7 @@ export class PublicWorkflowService {
     runId: string,
     workflowId: string,
     orgId: string,
-    versionRecord: { triggerType: string | null; version: number },
+    versionRecord: PublicVersionRecord,
     dbBlocks: DbBlock[],
     pausedState: PausedRunState,
     actionData: Record<string, unknown>,
@@ -388,6 +423,7 @@ export class PublicWorkflowService {
           paths: {},
         };
 
+        const reporter = this.createStepReporter(runId);
         const runConfig = this.buildPublicRunConfig(
           runId,
           workflowId,
@@ -396,11 +432,13 @@ export class PublicWorkflowService {
           dbBlocks,
           versionRecord.triggerType ?? "interactive",
           pausedState.contextSnapshot.event,
+          reporter.hooks,
         );
 
         const resumeIndex = pausedState.currentBlockIndex + 1;
         const result = await this.interpreter.resumeRun(runConfig, resumeIndex, context);
-        await this.processPublicRunResult(runId, workflowId, result, dbBlocks);
+        await reporter.flush();
+        await this.processPublicRunResult(runId, workflowId, versionRecord, result, dbBlocks);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         await this.publicRunRepo.updateStatus(runId, "failed", {
@@ -412,7 +450,7 @@ export class PublicWorkflowService {
           runFailed(runId, message),
         );
       } finally {
-        this.cancelFlags.delete(runId);
+        this.cancelControllers.delete(runId);
       }
     })();
   }
@@ -422,21 +460,13 @@ export class PublicWorkflowService {
   private async processPublicRunResult(
     runId: string,
     workflowId: string,
+    versionRecord: PublicVersionRecord,
     result: RunResult,
     dbBlocks: DbBlock[],
   ): Promise<void> {
-    /* Broadcast step events */
-    for (const step of result.steps) {
-      this.wsManager.broadcastToMany(
-        [`public-run:${runId}`],
-        runStep(runId, step.stepId, step.blockId, step.status, {
-          stepIndex: step.executionOrder,
-          blockType: step.blockType,
-          blockName: step.blockName,
-        }),
-      );
-    }
+    result = enforceOutputSchema(result, versionRecord);
 
+    /* Step events were already streamed live — only the terminal state remains */
     switch (result.status) {
       case "completed": {
         await this.publicRunRepo.updateStatus(runId, "completed", {
@@ -470,6 +500,24 @@ export class PublicWorkflowService {
         break;
       }
 
+      case "cancelled": {
+        await this.publicRunRepo.updateStatus(runId, "cancelled", {
+          completedAt: new Date(),
+          durationMs: result.durationMs,
+          errorMessage: result.errorMessage,
+          stepsJson: result.steps,
+        });
+
+        this.wsManager.broadcastToMany(
+          [`public-run:${runId}`],
+          runFailed(runId, result.errorMessage ?? "Run cancelled", {
+            status: "cancelled",
+            isPublic: true,
+          }),
+        );
+        break;
+      }
+
       case "awaiting_action": {
         const lastStep = result.steps[result.steps.length - 1];
         const pausedBlock = dbBlocks.find((b) => b.id === lastStep?.blockId);
@@ -525,10 +573,11 @@ export class PublicWorkflowService {
     runId: string,
     workflowId: string,
     orgId: string,
-    versionRecord: { triggerType: string | null; version: number },
+    versionRecord: PublicVersionRecord,
     dbBlocks: DbBlock[],
     triggerType: string,
     eventData: Record<string, unknown>,
+    hooks?: InterpreterHooks,
   ): RunConfig {
     return {
       runId,
@@ -552,7 +601,7 @@ export class PublicWorkflowService {
           order: b.order,
           notes: b.notes ?? undefined,
         })),
-        groups: [],
+        groups: Array.isArray(versionRecord.groups) ? (versionRecord.groups as BlockGroup[]) : [],
         changelog: "",
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -560,11 +609,33 @@ export class PublicWorkflowService {
       event: eventData,
       /* Public runs have no key resolver — secrets are not available */
       keyResolver: () => null,
+      signal: this.getCancelController(runId).signal,
+      hooks,
     };
   }
 
   /* ── Helpers ──────────────────────────────────────── */
 
+  /** Stream run:step events to the public run channel and persist steps live */
+  private createStepReporter(runId: string): LiveStepReporter {
+    return createLiveStepReporter({
+      runId,
+      channels: [`public-run:${runId}`],
+      wsManager: this.wsManager,
+      persistSteps: (steps) => this.publicRunRepo.updateSteps(runId, steps),
+    });
+  }
+
+  /** Get or create the cancellation controller for a run */
+  private getCancelController(runId: string): AbortController {
+    let controller = this.cancelControllers.get(runId);
+    if (!controller) {
+      controller = new AbortController();
+      this.cancelControllers.set(runId, controller);
+    }
+    return controller;
+  }
+
   private async loadWorkflowVersion(workflowId: string, version: number) {
     const { eq, and } = await import("drizzle-orm");
     const { workflowVersions, blocks } = await import("@vsync/db");
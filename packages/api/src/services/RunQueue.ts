@@ -0,0 +1,197 @@
+import { hostname } from "node:os";
+import { nanoid } from "nanoid";
+import type { Database } from "@vsync/db";
+import { RunRepository } from "@vsync/db";
+import {
+  DEFAULT_RUN_CONCURRENCY,
+  DEFAULT_ORG_RUN_CONCURRENCY,
+  RUN_QUEUE_POLL_INTERVAL_MS,
+  RUN_HEARTBEAT_STALE_MS,
+} from "@vsync/config";
+
+/** A run row as returned by a successful claim */
+export type ClaimedRun = NonNullable<Awaited<ReturnType<RunRepository["claimNext"]>>>;
+
+export interface RunQueueOptions {
+  /** Runs executing at once across every API instance */
+  globalConcurrency?: number;
+
+  /** Runs a single organization may execute at once */
+  orgConcurrency?: number;
+
+  /** How often an idle worker polls for runs queued by other instances */
+  pollIntervalMs?: number;
+
+  /** A running run whose heartbeat is older than this is orphaned */
+  staleAfterMs?: number;
+
+  /** Identifies this worker in `runs.claimed_by` — defaults to host:pid:random */
+  workerId?: string;
+}
+
+export interface RunQueueHandlers {
+  /** Execute a claimed run — resolves once it reaches a terminal or paused state */
+  execute: (run: ClaimedRun) => Promise<void>;
+
+  /** Requeue or fail runs whose worker died, given the heartbeat cutoff */
+  recover: (staleBefore: Date) => Promise<unknown>;
+
+  /** Stop a run this worker executes that was cancelled in the database */
+  cancel: (runId: string) => void;
+}
+
+/**
+ * Database-backed run queue worker.
+ *
+ * Triggered runs are inserted as "pending" and stay queued until a
+ * worker claims them. Claims lock the row (SKIP LOCKED) and check the
+ * global and per-org concurrency limits inside one transaction, so
+ * several API instances can drain the same table without running a
+ * run twice or overshooting a limit.
+ *
+ * `notify()` drains the queue immediately — triggers call it, and so
+ * does every finished run, which frees a slot. `start()` adds the
+ * background timers: polling (for runs queued by other instances, and
+ * for cancels of this worker's runs received by another instance),
+ * heartbeats for this worker's runs, and the orphaned-run sweep.
+ */
+export class RunQueue {
+  readonly workerId: string;
+
+  private readonly runRepo: RunRepository;
+  private readonly limits: { global: number; perOrg: number };
+  private readonly pollIntervalMs: number;
+  private readonly staleAfterMs: number;
+
+  /** Runs this worker is executing, keyed by run ID */
+  private readonly inFlight = new Map<string, Promise<void>>();
+  private readonly timers: Array<ReturnType<typeof setInterval>> = [];
+
+  private draining = false;
+  private drainAgain = false;
+  private stopped = false;
+
+  constructor(
+    db: Database,
+    private readonly handlers: RunQueueHandlers,
+    options: RunQueueOptions = {},
+  ) {
+    this.runRepo = new RunRepository(db);
+    this.workerId = options.workerId ?? `${hostname()}:${process.pid}:${nanoid(6)}`;
+    this.limits = {
+      global: Math.max(1, options.globalConcurrency ?? DEFAULT_RUN_CONCURRENCY),
+      perOrg: Math.max(1, options.orgConcurrency ?? DEFAULT_ORG_RUN_CONCURRENCY),
+    };
+    this.pollIntervalMs = options.pollIntervalMs ?? RUN_QUEUE_POLL_INTERVAL_MS;
+    this.staleAfterMs = options.staleAfterMs ?? RUN_HEARTBEAT_STALE_MS;
+  }
+
+  /** Claim and start queued runs until the queue is empty or a limit is hit */
+  notify(): void {
+    void this.drain();
+  }
+
+  /**
+   * Keep a run this worker executes outside the queue (e.g. a paused
+   * run resumed by a user action) heartbeating while it runs.
+   */
+  track(runId: string, execution: Promise<void>): void {
+    const done = execution.finally(() => this.inFlight.delete(runId));
+    this.inFlight.set(runId, done);
+    void this.runRepo.claim(runId, this.workerId).catch(() => {});
+  }
+
+  /**
+   * Recover orphaned runs, then start polling, heartbeating and
+   * sweeping in the background. Timers never keep the process alive.
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    await this.sweep();
+
+    const every = (ms: number, tick: () => Promise<unknown>) => {
+      const timer = setInterval(() => void tick(), ms);
+      timer.unref?.();
+      this.timers.push(timer);
+    };
+
+    /* Heartbeat well inside the stale window so a slow tick never looks dead */
+    every(this.pollIntervalMs, () => this.drain());
+    every(this.pollIntervalMs, () => this.stopCancelled());
+    every(Math.max(1, Math.floor(this.staleAfterMs / 3)), () => this.heartbeat());
+    every(this.staleAfterMs, () => this.sweep());
+
+    this.notify();
+  }
+
+  /** Stop claiming new runs and wait for the ones in flight to finish */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const timer of this.timers.splice(0)) clearInterval(timer);
+    await Promise.all(this.inFlight.values());
+  }
+
+  /* ── Internal helpers ───────────────────────────────── */
+
+  private async drain(): Promise<void> {
+    /* One claim loop per worker — a notify during a drain schedules another pass */
+    if (this.draining) {
+      this.drainAgain = true;
+      return;
+    }
+    this.draining = true;
+
+    try {
+      do {
+        this.drainAgain = false;
+        while (!this.stopped) {
+          const run = await this.runRepo.claimNext(this.workerId, this.limits);
+          if (!run) break;
+          this.launch(run);
+        }
+      } while (this.drainAgain && !this.stopped);
+    } catch (error) {
+      console.error("[run-queue] Failed to claim queued runs:", error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private launch(run: ClaimedRun): void {
+    const execution = this.handlers
+      .execute(run)
+      .catch((error) => console.error(`[run-queue] Run ${run.id} crashed:`, error))
+      .finally(() => {
+        this.inFlight.delete(run.id);
+        /* A slot just freed up */
+        this.notify();
+      });
+    this.inFlight.set(run.id, execution);
+  }
+
+  private async heartbeat(): Promise<void> {
+    try {
+      await this.runRepo.heartbeat([...this.inFlight.keys()]);
+    } catch (error) {
+      console.error("[run-queue] Heartbeat failed:", error);
+    }
+  }
+
+  /** The cancel route only aborts runs on the instance it reaches — catch the rest here */
+  private async stopCancelled(): Promise<void> {
+    try {
+      const cancelled = await this.runRepo.findCancelled([...this.inFlight.keys()]);
+      for (const runId of cancelled) this.handlers.cancel(runId);
+    } catch (error) {
+      console.error("[run-queue] Cancellation check failed:", error);
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    try {
+      await this.handlers.recover(new Date(Date.now() - this.staleAfterMs));
+    } catch (error) {
+      console.error("[run-queue] Orphaned-run sweep failed:", error);
+    }
+  }
+}
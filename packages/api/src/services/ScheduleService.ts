@@ -0,0 +1,270 @@
+import { nanoid } from "nanoid";
+import type { Database } from "@vsync/db";
+import { RunRepository, ScheduleRepository } from "@vsync/db";
+import {
+  SCHEDULE_POLL_INTERVAL_MS,
+  SCHEDULE_MISFIRE_GRACE_MS,
+  SCHEDULE_MAX_CATCH_UP,
+} from "@vsync/config";
+import type { ScheduleMissedPolicy, TriggerConfig } from "@vsync/shared-types";
+import {
+  CronError,
+  assertTimeZone,
+  fireTimesBetween,
+  nextFireTime,
+  parseCron,
+} from "../lib/cron.js";
+import type { CronSchedule } from "../lib/cron.js";
+
+const MISSED_POLICIES: readonly ScheduleMissedPolicy[] = ["skip", "fire_once", "fire_all"];
+
+/** The schedule settings of a version's trigger config, validated */
+export interface ScheduleSpec {
+  cron: string;
+  timezone: string;
+  missedPolicy: ScheduleMissedPolicy;
+  schedule: CronSchedule;
+}
+
+/**
+ * Validate the schedule fields of a trigger config, applying defaults.
+ * Throws CronError when the cron expression, timezone or missed-fire
+ * policy is invalid.
+ */
+export function resolveScheduleSpec(config: TriggerConfig | null | undefined): ScheduleSpec {
+  const cron = config?.schedule_cron?.trim();
+  if (!cron) throw new CronError("Schedule trigger requires a schedule_cron expression");
+
+  const timezone = config?.schedule_timezone ?? "UTC";
+  assertTimeZone(timezone);
+
+  const missedPolicy = config?.schedule_missed ?? "skip";
+  if (!MISSED_POLICIES.includes(missedPolicy)) {
+    throw new CronError(`Unknown schedule_missed policy "${missedPolicy}"`);
+  }
+
+  return { cron, timezone, missedPolicy, schedule: parseCron(cron) };
+}
+
+export interface ScheduleServiceOptions {
+  /** How often to sync schedules and fire the due ones */
+  pollIntervalMs?: number;
+
+  /** A fire time older than this when reached counts as missed */
+  misfireGraceMs?: number;
+
+  /** Most runs one schedule enqueues for missed fire times */
+  maxCatchUp?: number;
+}
+
+/** A run the scheduler is about to enqueue */
+interface PlannedFire {
+  scheduledFor: Date;
+  missed: boolean;
+}
+
+/**
+ * Cron scheduler for schedule-triggered workflows.
+ *
+ * Each tick first syncs `workflow_schedules` with the active published
+ * versions whose trigger type is "schedule", then enqueues a pending
+ * run for every schedule whose next fire time has arrived. A fire time
+ * is claimed by advancing `nextFireAt` with a compare-and-set, so when
+ * several API instances run the scheduler each fire is enqueued once.
+ *
+ * Fire times that were missed while no scheduler was running (older
+ * than the misfire grace period) follow the version's
+ * `schedule_missed` policy.
+ */
+export class ScheduleService {
+  private readonly scheduleRepo: ScheduleRepository;
+  private readonly runRepo: RunRepository;
+  private readonly pollIntervalMs: number;
+  private readonly misfireGraceMs: number;
+  private readonly maxCatchUp: number;
+
+  /** workflowId:version pairs already reported as invalid, so each is logged once */
+  private readonly reportedInvalid = new Set<string>();
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  constructor(
+    db: Database,
+    private readonly onRunQueued: () => void,
+    options: ScheduleServiceOptions = {},
+  ) {
+    this.scheduleRepo = new ScheduleRepository(db);
+    this.runRepo = new RunRepository(db);
+    this.pollIntervalMs = options.pollIntervalMs ?? SCHEDULE_POLL_INTERVAL_MS;
+    this.misfireGraceMs = options.misfireGraceMs ?? SCHEDULE_MISFIRE_GRACE_MS;
+    this.maxCatchUp = Math.max(1, options.maxCatchUp ?? SCHEDULE_MAX_CATCH_UP);
+  }
+
+  /**
+   * Bring schedule rows in line with the published versions: add new
+   * schedules, recompute the next fire time when a cron expression or
+   * timezone changes, and drop schedules that no longer apply.
+   */
+  async sync(now = new Date()): Promise<void> {
+    const existing = new Map(
+      (await this.scheduleRepo.findAll()).map((row) => [row.workflowId, row]),
+    );
+    const keep: string[] = [];
+
+    for (const version of await this.scheduleRepo.findScheduledVersions()) {
+      let spec: ScheduleSpec;
+      try {
+        spec = resolveScheduleSpec(version.triggerConfig as TriggerConfig | null);
+      } catch (error) {
+        const key = `${version.workflowId}:${version.version}`;
+        if (!this.reportedInvalid.has(key)) {
+          this.reportedInvalid.add(key);
+          console.warn(
+            `[scheduler] Workflow ${version.workflowId} v${version.version} has an invalid schedule:`,
+            (error as Error).message,
+          );
+        }
+        continue;
+      }
+
+      keep.push(version.workflowId);
+      const current = existing.get(version.workflowId);
+      const timingChanged =
+        !current || current.cron !== spec.cron || current.timezone !== spec.timezone;
+
+      if (
+        !timingChanged &&
+        current.version === version.version &&
+        current.missedPolicy === spec.missedPolicy
+      ) {
+        continue;
+      }
+
+      await this.scheduleRepo.upsert({
+        workflowId: version.workflowId,
+        orgId: version.orgId,
+        version: version.version,
+        cron: spec.cron,
+        timezone: spec.timezone,
+        missedPolicy: spec.missedPolicy,
+        nextFireAt: timingChanged
+          ? nextFireTime(spec.schedule, now, spec.timezone)
+          : current.nextFireAt,
+      });
+    }
+
+    await this.scheduleRepo.deleteExcept(keep);
+  }
+
+  /**
+   * Sync, then enqueue runs for every due schedule.
+   * Returns the IDs of the runs created.
+   */
+  async tick(now = new Date()): Promise<string[]> {
+    await this.sync(now);
+
+    const created: string[] = [];
+    for (const row of await this.scheduleRepo.findDue(now)) {
+      const due = row.nextFireAt;
+      if (!due) continue;
+
+      let schedule: CronSchedule;
+      try {
+        schedule = parseCron(row.cron);
+      } catch (error) {
+        console.warn(`[scheduler] Skipping schedule ${row.id}:`, (error as Error).message);
+        continue;
+      }
+
+      const fires = this.planFires(schedule, row.timezone, row.missedPolicy, due, now);
+      const next = nextFireTime(schedule, now, row.timezone);
+      const lastFired = fires.length > 0 ? fires[fires.length - 1].scheduledFor : null;
+
+      /* Another instance already advanced this schedule */
+      const claimed = await this.scheduleRepo.advance(row.workflowId, due, next, lastFired);
+      if (!claimed) continue;
+
+      for (const fire of fires) {
+        const run = await this.runRepo.create({
+          id: nanoid(),
+          workflowId: row.workflowId,
+          version: row.version,
+          orgId: row.orgId,
+          triggerType: "schedule",
+          triggerSource: `schedule:${row.id}`,
+          metadata: {
+            scheduledFor: fire.scheduledFor.toISOString(),
+            cron: row.cron,
+            timezone: row.timezone,
+            missed: fire.missed,
+          },
+        });
+        created.push(run.id);
+      }
+    }
+
+    if (created.length > 0) this.onRunQueued();
+    return created;
+  }
+
+  /** Tick now, then every poll interval. The timer never keeps the process alive. */
+  async start(): Promise<void> {
+    await this.runTick();
+    this.timer = setInterval(() => void this.runTick(), this.pollIntervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /* ── Internal helpers ───────────────────────────────── */
+
+  private async runTick(): Promise<void> {
+    /* A slow tick must not overlap the next one */
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      await this.tick();
+    } catch (error) {
+      console.error("[scheduler] Tick failed:", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Decide which fire times in [due, now] become runs. Times within
+   * the grace period always fire; older ones are missed and follow
+   * the policy — skipped, collapsed into one run, or each fired.
+   */
+  private planFires(
+    schedule: CronSchedule,
+    timezone: string,
+    policy: string,
+    due: Date,
+    now: Date,
+  ): PlannedFire[] {
+    const cutoff = new Date(now.getTime() - this.misfireGraceMs);
+
+    const onTime: Date[] = [];
+    if (due >= cutoff) onTime.push(due);
+    const onTimeFrom = due >= cutoff ? due : new Date(cutoff.getTime() - 1);
+    onTime.push(...fireTimesBetween(schedule, onTimeFrom, now, timezone, this.maxCatchUp));
+
+    const fires: PlannedFire[] = [];
+    if (due < cutoff && policy !== "skip") {
+      const missed = [
+        due,
+        ...fireTimesBetween(schedule, due, new Date(cutoff.getTime() - 1), timezone, this.maxCatchUp - 1),
+      ];
+      const catchUp = policy === "fire_all" ? missed : missed.slice(0, 1);
+      fires.push(...catchUp.map((scheduledFor) => ({ scheduledFor, missed: true })));
+    }
+    fires.push(...onTime.map((scheduledFor) => ({ scheduledFor, missed: false })));
+
+    return fires;
+  }
+}
@@ -1,19 +1,50 @@
+import { nanoid } from "nanoid";
 import type { Database } from "@vsync/db";
-import { RunRepository, WorkflowRepository, KeyRepository } from "@vsync/db";
-import type { Interpreter, RunConfig, RunResult } from "@vsync/engine";
-import type { Block as DbBlock, Artifact } from "@vsync/shared-types";
+import { RunRepository, WorkflowRepository, KeyRepository, ArtifactRepository } from "@vsync/db";
+import type {
+  DebugConfig,
+  Interpreter,
+  InterpreterHooks,
+  RunCheckpoint,
+  RunConfig,
+  RunPause,
+  RunResult,
+  SimulationConfig,
+  TestSuiteResult,
+  WorkflowInvocation,
+  WorkflowInvoker,
+  WorkflowTestCase,
+} from "@vsync/engine";
+import { redactSecrets, WorkflowTester } from "@vsync/engine";
+import { CloudKeyStore, KeyResolver, OAuthConnectionManager } from "@vsync/key-manager";
+import type {
+  Block as DbBlock,
+  Artifact,
+  BlockGroup,
+  RunDebugOptions,
+  Step,
+  WorkflowCallResult,
+} from "@vsync/shared-types";
 import type { WSManager } from "../ws/manager.js";
 import {
   runStarted,
-  runStep,
   runCompleted,
   runFailed,
   runAwaitingAction,
+  runPaused,
 } from "../ws/events.js";
+import { checkContract, formatViolations } from "../lib/json-schema.js";
+import { getKeyMasterKeys } from "../lib/key-encryption.js";
+import { enforceOutputSchema, projectOutput } from "../lib/run-output.js";
+import { createLiveStepReporter } from "./live-steps.js";
+import type { LiveStepReporter } from "./live-steps.js";
+import { RunQueue } from "./RunQueue.js";
+import type { ClaimedRun, RunQueueOptions } from "./RunQueue.js";
 
 /**
- * Paused-run state stored in runs.stepsJson when a UI block pauses execution.
- * On server restart, paused runs can be resumed by loading this from DB.
+ * Paused-run state stored in runs.stepsJson when a UI block or the
+ * debugger pauses execution. On server restart, paused runs can be
+ * resumed by loading this from DB.
  */
 export interface PausedRunState {
   currentBlockIndex: number;
@@ -26,6 +57,64 @@ export interface PausedRunState {
   };
   pausedBlockId: string;
   pausedUiConfig: Record<string, unknown>;
+
+  /**
+   * Set when the debugger paused the run — `currentBlockIndex` is then
+   * the paused block itself, which runs when the run resumes.
+   */
+  debugPause?: {
+    reason: RunPause["reason"];
+    /** Steps so far, carried into the resumed run */
+    steps: Step[];
+  };
+}
+
+/** What a debug command does to a run paused in the debugger */
+export type DebugCommand =
+  | { command: "step" }
+  | { command: "continue" }
+  | { command: "edit_state"; state: Record<string, unknown> };
+
+/** Statuses a run waits in for good — nothing moves it on without outside input */
+const SETTLED_STATUSES = new Set(["completed", "failed", "cancelled", "awaiting_action"]);
+
+/** How often awaitRun re-reads a run executing on another instance */
+const AWAIT_POLL_INTERVAL_MS = 500;
+
+/** The workflow_versions fields execution needs */
+interface VersionRecord {
+  triggerType: string | null;
+  version: number;
+  /** `$state` paths projected into the run's output */
+  outputKeys?: unknown;
+  /** JsonSchema the projected output must satisfy */
+  outputSchema?: unknown;
+  /** BlockGroups the interpreter applies as error scopes */
+  groups?: unknown;
+}
+
+/** What a simulated run reports — the run's trace, never a stored run */
+export interface SimulationResult {
+  status: RunResult["status"];
+  steps: Step[];
+  state: Record<string, unknown>;
+  /** The projected run output — only when the simulation completed */
+  output?: Record<string, unknown>;
+  errorMessage?: string;
+  durationMs: number;
+}
+
+/** Where a paused or interrupted run picks back up */
+interface ResumePoint {
+  /** Index of the first block to execute */
+  blockIndex: number;
+  snapshot: PausedRunState["contextSnapshot"];
+
+  /** Steps already recorded — checkpoints and debugger pauses carry them */
+  steps?: Step[];
+
+  /** Debugger settings the resumed run continues under */
+  debug?: DebugConfig;
 }
 
 /**
@@ -34,66 +123,101 @@ export interface PausedRunState {
  *
  * Key responsibilities:
  *   - Load workflow version + blocks from DB
- *   - Resolve secrets for the engine's keyResolver
- *   - Start execution in background (non-blocking trigger)
- *   - Broadcast step-level and lifecycle events via WSManager
+ *   - Resolve $keys.* secrets for the engine via @vsync/key-manager
+ *     (audit-logged, and redacted from persisted paused state)
+ *   - Execute queued runs as the RunQueue worker claims them
+ *   - Stream step-level events and stepsJson as the run executes
+ *   - Broadcast lifecycle events via WSManager
  *   - Handle UI block pausing and resumption
- *   - Support run cancellation via a flag checked between blocks
+ *   - Pause debug runs at breakpoints and step them on command
+ *   - Checkpoint running runs and requeue them if their worker dies
+ *   - Let synchronous callers wait for a run to settle and read its output
+ *   - Run the child runs `workflow` blocks call, inline and linked to the parent
+ *   - Simulate a version with mocked blocks, without creating a run
+ *   - Run a version's test cases the same way
+ *   - Support run cancellation via an AbortSignal checked between blocks
  */
 export class WorkflowExecutionService {
   private readonly runRepo: RunRepository;
   private readonly wfRepo: WorkflowRepository;
   private readonly keyRepo: KeyRepository;
+  private readonly artifactRepo: ArtifactRepository;
+
+  /** Worker that claims queued runs and hands them to this service */
+  readonly queue: RunQueue;
+
+  /** Cancellation controllers keyed by runId — the engine observes their signals */
+  private readonly cancelControllers = new Map<string, AbortController>();
+
+  /** Secret values handed to each active run, for redaction before persisting */
+  private readonly resolvedSecrets = new Map<string, Set<string>>();
 
-  /** Cancellation flags keyed by runId — engine checks between blocks */
-  private readonly cancelFlags = new Map<string, boolean>();
+  /** Created on first use so a missing master key only fails runs that use $keys */
+  private keyResolver: KeyResolver | null = null;
+
+  /** awaitRun callers to wake when a run this instance executes settles */
+  private readonly settleListeners = new Map<string, Set<() => void>>();
 
   constructor(
     private readonly db: Database,
     private readonly wsManager: WSManager,
     private readonly interpreter: Interpreter,
+    queueOptions?: RunQueueOptions,
   ) {
     this.runRepo = new RunRepository(db);
     this.wfRepo = new WorkflowRepository(db);
     this.keyRepo = new KeyRepository(db);
+    this.artifactRepo = new ArtifactRepository(db);
+    this.queue = new RunQueue(db, {
+      execute: (run) => this.executeClaimedRun(run),
+      recover: (staleBefore) => this.recoverOrphanedRuns(staleBefore),
+      cancel: (runId) => this.cancelRun(runId),
+    }, queueOptions);
   }
 
   /**
-   * Trigger a new workflow run.
+   * Tell the worker a run was inserted as "pending".
    *
-   * Creates a run record in "pending" state, then kicks off background
-   * execution without blocking the HTTP response. Returns the run ID
-   * immediately so the caller can respond with 202 Accepted.
+   * The run executes once the queue's concurrency limits allow —
+   * on this instance or any other one sharing the database — so the
+   * caller can respond immediately.
    */
-  async triggerRun(
-    workflowId: string,
-    runId: string,
-    version: number,
-    triggerType: string,
-    eventData: Record<string, unknown>,
-    orgId: string,
-  ): Promise<void> {
-    /* Load the workflow version and its blocks */
-    const versionData = await this.loadWorkflowVersion(workflowId, version);
-    if (!versionData) {
-      await this.runRepo.updateStatus(runId, "failed", {
-        errorMessage: `Workflow version ${version} not found`,
-        completedAt: new Date(),
+  notifyRunQueued(): void {
+    this.queue.notify();
+  }
+
+  /**
+   * Wait until a run completes, fails, is cancelled or pauses for a
+   * user action, up to `timeoutMs`. Resolves with the run row, which
+   * is still "pending" or "running" if the wait timed out.
+   *
+   * Runs executed by this instance wake the caller immediately; runs
+   * claimed by another instance are picked up by polling.
+   */
+  async awaitRun(runId: string, timeoutMs: number) {
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const run = await this.runRepo.findById(runId);
+      if (!run || SETTLED_STATUSES.has(run.status ?? "")) return run;
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return run;
+
+      await new Promise<void>((resolve) => {
+        const listeners = this.settleListeners.get(runId) ?? new Set();
+        this.settleListeners.set(runId, listeners);
+
+        const wake = () => {
+          clearTimeout(timer);
+          listeners.delete(wake);
+          if (listeners.size === 0) this.settleListeners.delete(runId);
+          resolve();
+        };
+        const timer = setTimeout(wake, Math.min(remaining, AWAIT_POLL_INTERVAL_MS));
+        listeners.add(wake);
       });
-      this.broadcastChannels(runId, orgId, runFailed(runId, `Workflow version ${version} not found`));
-      return;
     }
-
-    /* Fire-and-forget background execution */
-    this.executeInBackground(
-      runId,
-      workflowId,
-      orgId,
-      versionData.version,
-      versionData.blocks,
-      triggerType,
-      eventData,
-    );
   }
 
   /**
@@ -118,6 +242,9 @@ export class WorkflowExecutionService {
     if (!pausedState?.contextSnapshot) {
       return { resumed: false, error: "No paused state found for this run" };
     }
+    if (pausedState.debugPause) {
+      return { resumed: false, error: "Run is paused in the debugger — send it a debug command instead" };
+    }
 
     const orgId = (run.orgId as string) ?? "";
     const workflowId = (run.workflowId as string) ?? "";
@@ -129,63 +256,312 @@ export class WorkflowExecutionService {
       return { resumed: false, error: "Workflow version not found" };
     }
 
-    /* Resume execution in background */
-    this.resumeInBackground(
+    /* Claimed by this worker, heartbeat included, in the same write that
+       flips the status — so the orphan sweep never sees a stale one.
+       A run cancelled or resumed since it was read stays as it is. */
+    const claimed = await this.runRepo.transition(runId, ["awaiting_action"], "running", {
+      claimedBy: this.queue.workerId,
+      heartbeatAt: new Date(),
+    });
+    if (!claimed) return { resumed: false, error: "Run is no longer awaiting an action" };
+
+    /* Resume in the background, from the block after the paused one */
+    this.queue.track(runId, this.resume(
       runId,
       workflowId,
       orgId,
       versionData.version,
       versionData.blocks,
-      pausedState,
+      {
+        blockIndex: pausedState.currentBlockIndex + 1,
+        snapshot: pausedState.contextSnapshot,
+        debug: (run.debug as RunDebugOptions | null) ?? undefined,
+      },
       actionData,
-    );
+    ));
 
     return { resumed: true };
   }
 
+  /**
+   * Apply a debug command to a run paused in the debugger.
+   *
+   * "step" resumes the run until the block after the paused one,
+   * "continue" until the next breakpoint (or failure, if the run pauses
+   * on failure). Either way the paused block runs — after a failure
+   * pause, that retries it. "edit_state" merges values into the paused
+   * `$state` and leaves the run paused.
+   */
+  async debugCommand(
+    runId: string,
+    orgId: string,
+    debugCommand: DebugCommand,
+  ): Promise<{ ok: boolean; error?: string }> {
+    const run = await this.runRepo.findById(runId);
+    if (!run || run.orgId !== orgId) return { ok: false, error: "Run not found" };
+
+    const pausedState = run.stepsJson as PausedRunState | null;
+    if (run.status !== "awaiting_action" || !pausedState?.debugPause) {
+      return { ok: false, error: "Run is not paused in the debugger" };
+    }
+
+    const workflowId = (run.workflowId as string) ?? "";
+
+    if (debugCommand.command === "edit_state") {
+      const edited: PausedRunState = {
+        ...pausedState,
+        contextSnapshot: {
+          ...pausedState.contextSnapshot,
+          state: { ...pausedState.contextSnapshot.state, ...debugCommand.state },
+        },
+      };
+      if (!await this.runRepo.transition(runId, ["awaiting_action"], "awaiting_action", { stepsJson: edited })) {
+        return { ok: false, error: "Run is not paused in the debugger" };
+      }
+      this.broadcastPaused(runId, workflowId, run.version ?? 1, edited);
+      return { ok: true };
+    }
+
+    const versionData = await this.loadWorkflowVersion(workflowId, run.version ?? 1);
+    if (!versionData) return { ok: false, error: "Workflow version not found" };
+
+    const claimed = await this.runRepo.transition(runId, ["awaiting_action"], "running", {
+      claimedBy: this.queue.workerId,
+      heartbeatAt: new Date(),
+    });
+    if (!claimed) return { ok: false, error: "Run is not paused in the debugger" };
+
+    /* The paused block is let through once, so the run moves past it */
+    this.queue.track(runId, this.resume(
+      runId,
+      workflowId,
+      orgId,
+      versionData.version,
+      versionData.blocks,
+      {
+        blockIndex: pausedState.currentBlockIndex,
+        snapshot: pausedState.contextSnapshot,
+        steps: pausedState.debugPause.steps,
+        debug: {
+          ...(run.debug as RunDebugOptions | null),
+          step: debugCommand.command === "step",
+          resumeBlockId: pausedState.pausedBlockId,
+        },
+      },
+    ));
+
+    return { ok: true };
+  }
+
+  /**
+   * Execute a version as a simulation and return its trace.
+   *
+   * No run row is created and nothing is persisted or broadcast.
+   * Simulations cannot read `$keys.*` or call other workflows — blocks
+   * that need them should be mocked or stubbed. Resolves with null
+   * if the version does not exist.
+   */
+  async simulate(
+    workflowId: string,
+    orgId: string,
+    version: number,
+    event: Record<string, unknown>,
+    simulation: SimulationConfig,
+  ): Promise<SimulationResult | null> {
+    const versionData = await this.loadWorkflowVersion(workflowId, version);
+    if (!versionData) return null;
+
+    const runId = `sim_${nanoid()}`;
+    const runConfig = {
+      ...this.buildSimulationConfig(runId, workflowId, orgId, versionData, event),
+      simulation,
+    };
+
+    let result: RunResult;
+    try {
+      result = enforceOutputSchema(await this.interpreter.executeRun(runConfig), versionData.version);
+    } finally {
+      this.cancelControllers.delete(runId);
+    }
+    const state = result.context.state;
+
+    return {
+      status: result.status,
+      steps: result.steps,
+      state,
+      ...(result.status === "completed"
+        ? { output: projectOutput(state, versionData.version.outputKeys) }
+        : {}),
+      ...(result.errorMessage ? { errorMessage: result.errorMessage } : {}),
+      durationMs: result.durationMs,
+    };
+  }
+
+  /**
+   * Run test cases against a version, each as a simulation on a fresh
+   * context (see WorkflowTester). Resolves with null if the version
+   * does not exist.
+   */
+  async runTests(
+    workflowId: string,
+    orgId: string,
+    version: number,
+    cases: WorkflowTestCase[],
+  ): Promise<TestSuiteResult | null> {
+    const versionData = await this.loadWorkflowVersion(workflowId, version);
+    if (!versionData) return null;
+
+    const runId = `test_${nanoid()}`;
+    try {
+      return await new WorkflowTester(this.interpreter).runAll(
+        cases,
+        this.buildSimulationConfig(runId, workflowId, orgId, versionData, {}),
+      );
+    } finally {
+      this.cancelControllers.delete(runId);
+    }
+  }
+
+  /**
+   * Sweep for runs whose worker died mid-execution — still "running"
+   * but not heartbeated since `staleBefore`.
+   *
+   * A run with a checkpoint goes back in the queue and resumes from it
+   * when claimed; one without is marked failed with the reason, since
+   * its progress is lost. So is one whose checkpoint had `$keys` values
+   * redacted out of it — resuming would hand "[REDACTED]" to the rest
+   * of the run. The RunQueue calls this on start and then periodically.
+   */
+  async recoverOrphanedRuns(staleBefore: Date): Promise<{ requeued: string[]; failed: string[] }> {
+    const orphaned = await this.runRepo.findOrphaned(staleBefore);
+    const requeued: string[] = [];
+    const failed: string[] = [];
+
+    for (const run of orphaned) {
+      /* The parent resumes from before the calling block and calls again */
+      if (run.parentRunId) {
+        await this.failRun(
+          run.id,
+          (run.orgId as string) ?? "",
+          "Sub-workflow run was interrupted by a server restart",
+        );
+        failed.push(run.id);
+        continue;
+      }
+
+      if (!run.checkpoint) {
+        await this.failRun(
+          run.id,
+          (run.orgId as string) ?? "",
+          "Run was interrupted by a server restart before its first checkpoint",
+        );
+        failed.push(run.id);
+        continue;
+      }
+
+      if ((run.checkpoint as RunCheckpoint).redacted) {
+        await this.failRun(
+          run.id,
+          (run.orgId as string) ?? "",
+          "Run was interrupted by a server restart while its state held $keys values, which checkpoints do not store",
+        );
+        failed.push(run.id);
+        continue;
+      }
+
+      if (await this.runRepo.requeue(run.id)) requeued.push(run.id);
+    }
+
+    if (requeued.length > 0) this.queue.notify();
+    return { requeued, failed };
+  }
+
   /**
    * Cancel a running workflow.
    *
-   * Sets a cancellation flag that the execution loop checks between
-   * block executions. The run will be marked as cancelled once the
-   * current block finishes.
+   * Aborts the run's signal. The interpreter stops before the next
+   * block, and sleep/fetch/code blocks in flight unwind immediately.
+   * A run no execution here owns has no controller to abort: a pending
+   * or paused run's `cancelled` status keeps it from being claimed or
+   * resumed, and the instance running it aborts it once its queue sees
+   * that status. Terminal writes only apply to running runs, so the
+   * cancel is never overwritten.
    */
   cancelRun(runId: string): void {
-    this.cancelFlags.set(runId, true);
+    this.cancelControllers.get(runId)?.abort("Run cancelled by user");
   }
 
   /** Check whether a cancellation has been requested for a run */
   isCancelled(runId: string): boolean {
-    return this.cancelFlags.get(runId) === true;
+    return this.cancelControllers.get(runId)?.signal.aborted === true;
   }
 
-  /* ── Background execution ──────────────────────────── */
+  /* ── Execution ─────────────────────────────────────── */
+
+  /**
+   * Run a run the queue just claimed (it is already "running"), from
+   * its checkpoint if an earlier worker died part-way through it.
+   */
+  private async executeClaimedRun(run: ClaimedRun): Promise<void> {
+    const orgId = (run.orgId as string) ?? "";
+    const workflowId = (run.workflowId as string) ?? "";
+    const version = run.version ?? 1;
+
+    /* Load the workflow version and its blocks */
+    const versionData = await this.loadWorkflowVersion(workflowId, version);
+    if (!versionData) {
+      await this.failRun(run.id, orgId, `Workflow version ${version} not found`);
+      this.cancelControllers.delete(run.id);
+      return;
+    }
 
-  private executeInBackground(
+    const debug = (run.debug as RunDebugOptions | null) ?? undefined;
+    const checkpoint = run.checkpoint as RunCheckpoint | null;
+    if (checkpoint) {
+      await this.resume(run.id, workflowId, orgId, versionData.version, versionData.blocks, {
+        blockIndex: checkpoint.nextBlockIndex,
+        snapshot: checkpoint.context,
+        steps: checkpoint.steps,
+        debug,
+      });
+      return;
+    }
+
+    await this.execute(
+      run.id,
+      workflowId,
+      orgId,
+      versionData.version,
+      versionData.blocks,
+      run.triggerType ?? "api",
+      (run.metadata as Record<string, unknown> | null) ?? {},
+      0,
+      debug,
+    );
+  }
+
+  private async execute(
     runId: string,
     workflowId: string,
     orgId: string,
-    versionRecord: { triggerType: string | null; version: number },
+    versionRecord: VersionRecord,
     dbBlocks: DbBlock[],
     triggerType: string,
     eventData: Record<string, unknown>,
-  ): void {
-    /* Run in microtask so the caller can return immediately */
-    void (async () => {
-      try {
-        /* Mark as running */
-        await this.runRepo.updateStatus(runId, "running", {
-          startedAt: new Date(),
-        });
-
-        this.broadcastChannels(runId, orgId, runStarted(runId, workflowId, {
-          version: versionRecord.version,
-          triggerType,
-          startedAt: new Date().toISOString(),
-        }));
+    callDepth = 0,
+    debug?: DebugConfig,
+  ): Promise<void> {
+    try {
+      this.broadcastChannels(runId, orgId, runStarted(runId, workflowId, {
+        version: versionRecord.version,
+        triggerType,
+        startedAt: new Date().toISOString(),
+      }));
 
-        /* Build the RunConfig the engine expects */
-        const runConfig = this.buildRunConfig(
+      /* Build the RunConfig the engine expects */
+      const reporter = this.createStepReporter(runId, orgId);
+      const runConfig = {
+        ...this.buildRunConfig(
           runId,
           workflowId,
           orgId,
@@ -193,93 +569,102 @@ export class WorkflowExecutionService {
           dbBlocks,
           triggerType,
           eventData,
-        );
+          reporter.hooks,
+          callDepth,
+        ),
+        debug,
+      };
 
-        /* Execute! */
-        const result = await this.interpreter.executeRun(runConfig);
+      /* Execute! Steps stream out through the reporter as they happen */
+      const result = await this.interpreter.executeRun(runConfig);
+      await reporter.flush();
 
-        /* Process the result */
-        await this.processRunResult(runId, workflowId, orgId, result, dbBlocks);
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        await this.runRepo.updateStatus(runId, "failed", {
-          errorMessage: message,
-          completedAt: new Date(),
-        });
-        this.broadcastChannels(runId, orgId, runFailed(runId, message));
-      } finally {
-        this.cancelFlags.delete(runId);
-      }
-    })();
+      /* Process the result */
+      await this.processRunResult(runId, workflowId, orgId, versionRecord, result, dbBlocks);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const failed = await this.runRepo.transition(runId, ["running"], "failed", {
+        errorMessage: message,
+        completedAt: new Date(),
+      });
+      if (failed) this.broadcastChannels(runId, orgId, runFailed(runId, message));
+    } finally {
+      this.cancelControllers.delete(runId);
+      this.resolvedSecrets.delete(runId);
+      this.settle(runId);
+    }
   }
 
-  private resumeInBackground(
+  private async resume(
     runId: string,
     workflowId: string,
     orgId: string,
-    versionRecord: { triggerType: string | null; version: number },
+    versionRecord: VersionRecord,
     dbBlocks: DbBlock[],
-    pausedState: PausedRunState,
-    actionData: Record<string, unknown>,
-  ): void {
-    void (async () => {
-      try {
-        /* Mark as running again */
-        await this.runRepo.updateStatus(runId, "running");
-
-        this.broadcastChannels(runId, orgId, runStarted(runId, workflowId, {
-          version: versionRecord.version,
-          resumed: true,
-        }));
+    resumeFrom: ResumePoint,
+    actionData: Record<string, unknown> = {},
+  ): Promise<void> {
+    try {
+      this.broadcastChannels(runId, orgId, runStarted(runId, workflowId, {
+        version: versionRecord.version,
+        resumed: true,
+      }));
 
-        /* Rebuild the workflow context from the snapshot */
-        const context = {
-          state: { ...pausedState.contextSnapshot.state, ...actionData },
-          cache: new Map(pausedState.contextSnapshot.cache),
-          artifacts: pausedState.contextSnapshot.artifacts as Artifact[],
-          secrets: {},
-          run: {
-            id: runId,
-            workflowId,
-            versionId: `${workflowId}:v${versionRecord.version}`,
-            status: "running" as const,
-            triggerType: (versionRecord.triggerType ?? "interactive") as "interactive",
-            startedAt: new Date().toISOString(),
-            platform: "node",
-            deviceId: "server",
-          },
-          event: pausedState.contextSnapshot.event as Record<string, unknown> & { type?: string },
-          loops: pausedState.contextSnapshot.loops as Record<string, { index: number }>,
-          paths: {},
-        };
+      /* Rebuild the workflow context from the snapshot */
+      const { snapshot } = resumeFrom;
+      const context = {
+        state: { ...snapshot.state, ...actionData },
+        cache: new Map(snapshot.cache),
+        artifacts: snapshot.artifacts as Artifact[],
+        secrets: {},
+        run: {
+          id: runId,
+          workflowId,
+          versionId: `${workflowId}:v${versionRecord.version}`,
+          status: "running" as const,
+          triggerType: (versionRecord.triggerType ?? "interactive") as "interactive",
+          startedAt: new Date().toISOString(),
+          platform: "node",
+          deviceId: "server",
+        },
+        event: snapshot.event as Record<string, unknown> & { type?: string },
+        loops: snapshot.loops as Record<string, { index: number }>,
+        paths: {},
+      };
 
-        /* Build config for resumption */
-        const runConfig = this.buildRunConfig(
+      /* Build config for resumption */
+      const reporter = this.createStepReporter(runId, orgId, resumeFrom.steps);
+      const runConfig = {
+        ...this.buildRunConfig(
           runId,
           workflowId,
           orgId,
           versionRecord,
           dbBlocks,
           versionRecord.triggerType ?? "interactive",
-          pausedState.contextSnapshot.event,
-        );
+          snapshot.event,
+          reporter.hooks,
+        ),
+        priorSteps: resumeFrom.steps,
+        debug: resumeFrom.debug,
+      };
 
-        /* Resume from the block after the paused one */
-        const resumeIndex = pausedState.currentBlockIndex + 1;
-        const result = await this.interpreter.resumeRun(runConfig, resumeIndex, context);
+      const result = await this.interpreter.resumeRun(runConfig, resumeFrom.blockIndex, context);
+      await reporter.flush();
 
-        await this.processRunResult(runId, workflowId, orgId, result, dbBlocks);
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        await this.runRepo.updateStatus(runId, "failed", {
-          errorMessage: message,
-          completedAt: new Date(),
-        });
-        this.broadcastChannels(runId, orgId, runFailed(runId, message));
-      } finally {
-        this.cancelFlags.delete(runId);
-      }
-    })();
+      await this.processRunResult(runId, workflowId, orgId, versionRecord, result, dbBlocks);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const failed = await this.runRepo.transition(runId, ["running"], "failed", {
+        errorMessage: message,
+        completedAt: new Date(),
+      });
+      if (failed) this.broadcastChannels(runId, orgId, runFailed(runId, message));
+    } finally {
+      this.cancelControllers.delete(runId);
+      this.resolvedSecrets.delete(runId);
+      this.settle(runId);
+    }
   }
 
   /* ── Result processing ─────────────────────────────── */
@@ -288,37 +673,27 @@ export class WorkflowExecutionService {
     runId: string,
     workflowId: string,
     orgId: string,
+    versionRecord: VersionRecord,
     result: RunResult,
     dbBlocks: DbBlock[],
   ): Promise<void> {
-    /* Broadcast individual step events */
-    for (const step of result.steps) {
-      const outputKeys = step.stateDelta
-        ? Object.keys(step.stateDelta as Record<string, unknown>)
-        : [];
-
-      this.broadcastChannels(runId, orgId, runStep(
-        runId,
-        step.stepId,
-        step.blockId,
-        step.status,
-        {
-          stepIndex: step.executionOrder,
-          blockType: step.blockType,
-          blockName: step.blockName,
-          outputKeys,
-          error: step.error?.message,
-        },
-      ));
-    }
+    result = enforceOutputSchema(result, versionRecord);
 
+    /* Step events were already streamed live — only the terminal state remains */
     switch (result.status) {
       case "completed": {
-        await this.runRepo.updateStatus(runId, "completed", {
+        const secrets = this.resolvedSecrets.get(runId) ?? [];
+        const completed = await this.runRepo.transition(runId, ["running"], "completed", {
           completedAt: new Date(),
           durationMs: result.durationMs,
           stepsJson: result.steps,
+          checkpoint: null,
+          output: redactSecrets(projectOutput(result.context.state, versionRecord.outputKeys), secrets),
         });
+        /* Cancelled as it finished, possibly on another instance — the cancel stands */
+        if (!completed) break;
+
+        await this.saveArtifacts(runId, workflowId, orgId, redactSecrets(result.context.artifacts, secrets));
 
         this.broadcastChannels(runId, orgId, runCompleted(runId, result.durationMs, {
           status: "completed",
@@ -330,12 +705,14 @@ export class WorkflowExecutionService {
       }
 
       case "failed": {
-        await this.runRepo.updateStatus(runId, "failed", {
+        const failed = await this.runRepo.transition(runId, ["running"], "failed", {
           completedAt: new Date(),
           durationMs: result.durationMs,
           errorMessage: result.errorMessage,
           stepsJson: result.steps,
+          checkpoint: null,
         });
+        if (!failed) break;
 
         /* Find the failed step for detailed error reporting */
         const failedStep = result.steps.find((s) => s.status === "failed");
@@ -349,7 +726,25 @@ export class WorkflowExecutionService {
         break;
       }
 
+      case "cancelled": {
+        /* The cancel route flips the status and broadcasts, possibly after
+           the run stopped — persist the partial step list and timing */
+        await this.runRepo.transition(runId, ["running", "cancelled"], "cancelled", {
+          completedAt: new Date(),
+          durationMs: result.durationMs,
+          errorMessage: result.errorMessage,
+          stepsJson: result.steps,
+          checkpoint: null,
+        });
+        break;
+      }
+
       case "awaiting_action": {
+        if (result.pause && result.pause.reason !== "action") {
+          await this.pauseForDebugger(runId, versionRecord, result, result.pause);
+          break;
+        }
+
         /* Find the UI block that paused execution */
         const lastStep = result.steps[result.steps.length - 1];
         const pausedBlock = dbBlocks.find((b) => b.id === lastStep?.blockId);
@@ -358,20 +753,21 @@ export class WorkflowExecutionService {
         /* Serialize paused state for resumption */
         const pausedState: PausedRunState = {
           currentBlockIndex: stepIndex,
-          contextSnapshot: {
+          contextSnapshot: redactSecrets({
             state: result.context.state,
             cache: [...result.context.cache.entries()],
             artifacts: result.context.artifacts,
             event: result.context.event,
             loops: result.context.loops,
-          },
+          }, this.resolvedSecrets.get(runId) ?? []),
           pausedBlockId: lastStep?.blockId ?? "",
           pausedUiConfig: pausedBlock?.logic ?? {},
         };
 
-        await this.runRepo.updateStatus(runId, "awaiting_action", {
+        const paused = await this.runRepo.transition(runId, ["running"], "awaiting_action", {
           stepsJson: pausedState,
         });
+        if (!paused) break;
 
         this.broadcastChannels(runId, orgId, runAwaitingAction(
           runId,
@@ -388,7 +784,7 @@ export class WorkflowExecutionService {
 
       default:
         /* Shouldn't happen, but handle gracefully */
-        await this.runRepo.updateStatus(runId, "failed", {
+        await this.runRepo.transition(runId, ["running"], "failed", {
           completedAt: new Date(),
           errorMessage: `Unexpected result status: ${result.status}`,
           stepsJson: result.steps,
@@ -397,16 +793,66 @@ export class WorkflowExecutionService {
     }
   }
 
+  /**
+   * Store a debugger pause and send the paused context to the run's
+   * channel. Only `run:<id>` subscribers see it — the context is too
+   * much to fan out to the whole org.
+   */
+  private async pauseForDebugger(
+    runId: string,
+    versionRecord: VersionRecord,
+    result: RunResult,
+    pause: RunPause,
+  ): Promise<void> {
+    const secrets = this.resolvedSecrets.get(runId) ?? [];
+    const pausedState: PausedRunState = {
+      currentBlockIndex: pause.resumeIndex,
+      contextSnapshot: redactSecrets({
+        state: result.context.state,
+        cache: [...result.context.cache.entries()],
+        artifacts: result.context.artifacts,
+        event: result.context.event,
+        loops: result.context.loops,
+      }, secrets),
+      pausedBlockId: pause.blockId,
+      pausedUiConfig: {},
+      debugPause: { reason: pause.reason, steps: redactSecrets(result.steps, secrets) },
+    };
+
+    if (await this.runRepo.transition(runId, ["running"], "awaiting_action", { stepsJson: pausedState })) {
+      this.broadcastPaused(runId, result.context.run.workflowId, versionRecord.version, pausedState);
+    }
+  }
+
+  private broadcastPaused(runId: string, workflowId: string, version: number, pausedState: PausedRunState): void {
+    const { contextSnapshot: snapshot } = pausedState;
+    this.wsManager.broadcast(`run:${runId}`, runPaused(runId, pausedState.pausedBlockId, {
+      workflowId,
+      version,
+      reason: pausedState.debugPause?.reason,
+      stepIndex: pausedState.currentBlockIndex,
+      context: {
+        state: snapshot.state,
+        cache: Object.fromEntries(snapshot.cache),
+        loops: snapshot.loops,
+        event: snapshot.event,
+        artifacts: snapshot.artifacts,
+      },
+    }));
+  }
+
   /* ── RunConfig builder ─────────────────────────────── */
 
   private buildRunConfig(
     runId: string,
     workflowId: string,
     orgId: string,
-    versionRecord: { triggerType: string | null; version: number },
+    versionRecord: VersionRecord,
     dbBlocks: DbBlock[],
     triggerType: string,
     eventData: Record<string, unknown>,
+    hooks?: InterpreterHooks,
+    callDepth = 0,
   ): RunConfig {
     return {
       runId,
@@ -430,37 +876,260 @@ export class WorkflowExecutionService {
           order: b.order,
           notes: b.notes ?? undefined,
         })),
-        groups: [],
+        groups: Array.isArray(versionRecord.groups) ? (versionRecord.groups as BlockGroup[]) : [],
         changelog: "",
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       },
       event: eventData,
-      keyResolver: this.createKeyResolver(orgId),
+      keyResolver: this.createKeyResolver(runId, workflowId, orgId),
+      signal: this.getCancelController(runId).signal,
+      hooks,
+      invokeWorkflow: this.createWorkflowInvoker(orgId),
+      callDepth,
+    };
+  }
+
+  /**
+   * A RunConfig for runs nothing is stored for — simulations and
+   * test cases. Keys cannot be read and workflows cannot be called,
+   * since both would reach outside the simulated run.
+   */
+  private buildSimulationConfig(
+    runId: string,
+    workflowId: string,
+    orgId: string,
+    versionData: { version: VersionRecord; blocks: DbBlock[] },
+    event: Record<string, unknown>,
+  ): RunConfig {
+    return {
+      ...this.buildRunConfig(
+        runId,
+        workflowId,
+        orgId,
+        versionData.version,
+        versionData.blocks,
+        versionData.version.triggerType ?? "interactive",
+        event,
+      ),
+      keyResolver: (keyName) => {
+        throw new Error(`Key "${keyName}" cannot be read in a simulation — mock or stub the block that uses it`);
+      },
+      invokeWorkflow: undefined,
+    };
+  }
+
+  /* ── Workflow calls ────────────────────────────────── */
+
+  /** Runs `workflow` block calls as child runs within the calling run's org */
+  private createWorkflowInvoker(orgId: string): WorkflowInvoker {
+    return (invocation) => this.invokeWorkflow(orgId, invocation);
+  }
+
+  /**
+   * Execute a called workflow as a child run and wait for it to settle.
+   *
+   * The child is a regular run row linked to its parent, executed
+   * inline on this worker rather than queued — the parent already
+   * holds a concurrency slot, and queueing behind it could deadlock.
+   * Cancelling the parent cancels the child. A child that pauses for
+   * user input fails, since nobody is there to answer it.
+   */
+  private async invokeWorkflow(orgId: string, call: WorkflowInvocation): Promise<WorkflowCallResult> {
+    const workflow = await this.wfRepo.findById(call.workflowId);
+    if (!workflow || workflow.orgId !== orgId) {
+      throw new Error(`Workflow "${call.workflowId}" not found`);
+    }
+    if (workflow.isDisabled) throw new Error(`Workflow "${call.workflowId}" is disabled`);
+
+    const version = call.version ?? workflow.activeVersion;
+    if (!version) throw new Error(`Workflow "${call.workflowId}" has no published version`);
+
+    const versionData = await this.loadWorkflowVersion(call.workflowId, version);
+    if (!versionData) throw new Error(`Workflow "${call.workflowId}" version ${version} not found`);
+
+    const violations = checkContract(versionData.version.inputSchema, call.input);
+    if (violations.length > 0) {
+      throw new Error(
+        `Input for workflow "${call.workflowId}" does not match its input schema: ${formatViolations(violations)}`,
+      );
+    }
+
+    const now = new Date();
+    const child = await this.runRepo.create({
+      id: nanoid(),
+      workflowId: call.workflowId,
+      version,
+      orgId,
+      status: "running",
+      triggerType: "api",
+      triggerSource: `workflow:${call.parentRunId}`,
+      claimedBy: this.queue.workerId,
+      heartbeatAt: now,
+      startedAt: now,
+      metadata: call.input,
+      parentRunId: call.parentRunId,
+      parentBlockId: call.blockId,
+      callDepth: call.depth,
+    });
+
+    const controller = this.getCancelController(child.id);
+    const cancel = () => controller.abort(call.signal?.reason ?? "Parent run cancelled");
+    if (call.signal?.aborted) cancel();
+    call.signal?.addEventListener("abort", cancel, { once: true });
+
+    const execution = this.execute(
+      child.id,
+      call.workflowId,
+      orgId,
+      versionData.version,
+      versionData.blocks,
+      "api",
+      call.input,
+      call.depth,
+    );
+    this.queue.track(child.id, execution);
+
+    try {
+      await execution;
+    } finally {
+      call.signal?.removeEventListener("abort", cancel);
+    }
+
+    let settled = await this.runRepo.findById(child.id);
+    if (settled?.status === "awaiting_action") {
+      await this.failRun(child.id, orgId, "Sub-workflow runs cannot pause for user input", ["awaiting_action"]);
+      settled = await this.runRepo.findById(child.id);
+    }
+
+    return {
+      runId: child.id,
+      version,
+      status: (settled?.status ?? "failed") as WorkflowCallResult["status"],
+      output: (settled?.output as Record<string, unknown> | null) ?? {},
+      errorMessage: settled?.errorMessage ?? undefined,
     };
   }
 
   /* ── Key resolution ────────────────────────────────── */
 
   /**
-   * Creates a key resolver function that the engine uses to
-   * dereference $keys.* expressions at runtime.
+   * Creates the key resolver the engine uses to dereference $keys.*
+   * expressions. Lookups hit the cloud key store (decrypting and
+   * audit-logging each access against this run); resolved values
+   * are remembered so paused state can be redacted before it is saved.
    */
-  private createKeyResolver(orgId: string): (keyName: string) => unknown {
-    return (keyName: string) => {
-      /**
-       * Key resolution is synchronous in the engine interface,
-       * but DB lookup is async. For now, return a placeholder
-       * that signals the engine should use the fetch block's
-       * secret resolution instead. Full async key resolution
-       * will be added when the engine supports async resolvers.
-       */
-      return `$keys.${keyName}`;
+  private createKeyResolver(
+    runId: string,
+    workflowId: string,
+    orgId: string,
+  ): (keyName: string) => Promise<string> {
+    return async (keyName: string) => {
+      const value = await this.getKeyResolver().resolve(keyName, { orgId, workflowId, runId });
+
+      let values = this.resolvedSecrets.get(runId);
+      if (!values) {
+        values = new Set();
+        this.resolvedSecrets.set(runId, values);
+      }
+      values.add(value);
+
+      return value;
     };
   }
 
+  private getKeyResolver(): KeyResolver {
+    if (!this.keyResolver) {
+      const cloudStore = new CloudKeyStore(this.db, getKeyMasterKeys());
+      /* OAuth-backed keys are refreshed before a token that is about to expire is handed out */
+      this.keyResolver = new KeyResolver(
+        cloudStore,
+        undefined,
+        new OAuthConnectionManager(this.db, cloudStore),
+      );
+    }
+    return this.keyResolver;
+  }
+
   /* ── Helpers ───────────────────────────────────────── */
 
+  /** Stream run:step events to the run + org channels and persist steps and checkpoints live */
+  private createStepReporter(runId: string, orgId: string, priorSteps?: Step[]): LiveStepReporter {
+    return createLiveStepReporter({
+      runId,
+      channels: [`run:${runId}`, `org:${orgId}`],
+      wsManager: this.wsManager,
+      persistSteps: (steps) => this.runRepo.updateSteps(runId, steps),
+      persistCheckpoint: (checkpoint) => this.runRepo.saveCheckpoint(runId, checkpoint),
+      priorSteps,
+    });
+  }
+
+  /** Mark a run failed without executing it and tell its subscribers — unless it was cancelled */
+  private async failRun(
+    runId: string,
+    orgId: string,
+    message: string,
+    from: string[] = ["running"],
+  ): Promise<void> {
+    const failed = await this.runRepo.transition(runId, from, "failed", {
+      errorMessage: message,
+      completedAt: new Date(),
+    });
+    if (failed) this.broadcastChannels(runId, orgId, runFailed(runId, message));
+    this.settle(runId);
+  }
+
+  /** Persist the artifacts a completed run produced so they outlive the process */
+  private async saveArtifacts(
+    runId: string,
+    workflowId: string,
+    orgId: string,
+    produced: Artifact[],
+  ): Promise<void> {
+    const rows = produced.map((artifact) => ({
+      id: artifact.id || nanoid(),
+      runId,
+      workflowId,
+      orgId,
+      type: artifact.type,
+      name: artifact.name,
+      filePath: artifact.filePath ?? null,
+      fileUrl: artifact.fileUrl ?? null,
+      fileSize: artifact.fileSize ?? null,
+      mimeType: artifact.mimeType ?? null,
+      metadata: artifact.metadata ?? null,
+      source: artifact.source ?? null,
+      blockId: artifact.blockId ?? null,
+      width: artifact.width ?? null,
+      height: artifact.height ?? null,
+      overlays: artifact.overlays ?? null,
+      thumbnailUrl: artifact.thumbnailPath ?? null,
+    }));
+
+    /* The run already completed — a failed write must not turn it into a failure */
+    try {
+      await this.artifactRepo.createMany(rows);
+    } catch (error) {
+      console.error(`[execution] Failed to save artifacts for run ${runId}:`, error);
+    }
+  }
+
+  /** Wake awaitRun callers waiting on a run */
+  private settle(runId: string): void {
+    for (const wake of [...(this.settleListeners.get(runId) ?? [])]) wake();
+  }
+
+  /** Get or create the cancellation controller for a run */
+  private getCancelController(runId: string): AbortController {
+    let controller = this.cancelControllers.get(runId);
+    if (!controller) {
+      controller = new AbortController();
+      this.cancelControllers.set(runId, controller);
+    }
+    return controller;
+  }
+
   private async loadWorkflowVersion(workflowId: string, version: number) {
     const { eq, and } = await import("drizzle-orm");
     const { workflowVersions, blocks } = await import("@vsync/db");
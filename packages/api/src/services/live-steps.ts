@@ -0,0 +1,101 @@
+import type { InterpreterHooks, RunCheckpoint } from "@vsync/engine";
+import type { Step } from "@vsync/shared-types";
+import type { WSManager } from "../ws/manager.js";
+import { runStep } from "../ws/events.js";
+
+/**
+ * Interpreter hooks bundled with a flush handle.
+ * `flush()` resolves once every queued step write has landed, so the
+ * caller's final status update is guaranteed to be the last write.
+ */
+export interface LiveStepReporter {
+  hooks: InterpreterHooks;
+  flush: () => Promise<void>;
+}
+
+export interface LiveStepReporterOptions {
+  runId: string;
+
+  /** WebSocket channels that receive `run:step` events */
+  channels: string[];
+
+  wsManager: WSManager;
+
+  /** Persist the step list so far — must not change the run's status */
+  persistSteps: (steps: Step[]) => Promise<unknown>;
+
+  /** Persist the latest checkpoint — must not change the run's status */
+  persistCheckpoint?: (checkpoint: RunCheckpoint) => Promise<unknown>;
+
+  /** Steps recorded before a resume — kept at the front of the persisted list */
+  priorSteps?: Step[];
+}
+
+/**
+ * Stream a run's steps while the interpreter executes it.
+ *
+ * Every step transition is broadcast as `run:step` the moment it
+ * happens. Finished steps are also written to stepsJson, serialised
+ * through a promise chain so writes never land out of order.
+ * Checkpoints join the same chain, so a checkpoint never lands
+ * before the steps it covers. Persistence is best-effort — the final
+ * result write carries the complete list regardless.
+ */
+export function createLiveStepReporter(options: LiveStepReporterOptions): LiveStepReporter {
+  const { runId, channels, wsManager, persistSteps, persistCheckpoint } = options;
+  const steps: Step[] = [...(options.priorSteps ?? [])];
+  let pending: Promise<void> = Promise.resolve();
+
+  const enqueue = (write: () => Promise<unknown>) => {
+    pending = pending
+      .then(write)
+      .then(
+        () => undefined,
+        () => undefined,
+      );
+  };
+
+  const broadcast = (step: Step) => {
+    const outputKeys = step.stateDelta ? Object.keys(step.stateDelta) : [];
+
+    wsManager.broadcastToMany(channels, runStep(
+      runId,
+      step.stepId,
+      step.blockId,
+      step.status,
+      {
+        stepIndex: step.executionOrder,
+        blockType: step.blockType,
+        blockName: step.blockName,
+        outputKeys,
+        error: step.error?.message,
+      },
+    ));
+  };
+
+  const persist = () => {
+    const snapshot = steps.map((s) => ({ ...s }));
+    enqueue(() => persistSteps(snapshot));
+  };
+
+  return {
+    hooks: {
+      onStepStart: (step) => {
+        steps.push(step);
+        broadcast(step);
+      },
+      onStepComplete: (step) => {
+        broadcast(step);
+        persist();
+      },
+      onStepFailed: (step) => {
+        broadcast(step);
+        persist();
+      },
+      ...(persistCheckpoint && {
+        onCheckpoint: (checkpoint) => enqueue(() => persistCheckpoint(checkpoint)),
+      }),
+    },
+    flush: () => pending,
+  };
+}
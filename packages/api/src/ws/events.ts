@@ -51,6 +51,22 @@ export function runAwaitingAction(
   return createEvent("run:awaiting_action", { runId, blockId, actionType, ...extra });
 }
 
+/** A debug run paused — the payload carries the paused context for the debugger */
+export function runPaused(
+  runId: string,
+  blockId: string,
+  extra?: Record<string, unknown>,
+): WSEvent {
+  return createEvent("run:paused", { runId, blockId, ...extra });
+}
+
+/* ── Key events ────────────────────────────────────────────── */
+
+/** The key health sweep flagged a key as expiring, expired or due for rotation */
+export function keyHealth(keyId: string, status: string, extra?: Record<string, unknown>): WSEvent {
+  return createEvent("key:health", { keyId, status, ...extra });
+}
+
 /* ── Workflow events ───────────────────────────────────────── */
 
 export function workflowUpdated(workflowId: string, extra?: Record<string, unknown>): WSEvent {
@@ -1,5 +1,7 @@
 import { z } from "zod";
+import { canEditWorkflow } from "@vsync/auth";
 import type { WSManager, WSLike } from "./manager.js";
+import type { WorkflowExecutionService } from "../services/WorkflowExecutionService.js";
 
 /**
  * Inbound message schema.
@@ -18,6 +20,12 @@ const InboundMessageSchema = z.discriminatedUnion("type", [
   z.object({
     type: z.literal("ping"),
   }),
+  z.object({
+    type: z.literal("debug"),
+    runId: z.string().min(1),
+    command: z.enum(["step", "continue", "edit_state"]),
+    state: z.record(z.unknown()).optional(),
+  }),
 ]);
 
 type InboundMessage = z.infer<typeof InboundMessageSchema>;
@@ -28,12 +36,16 @@ type InboundMessage = z.infer<typeof InboundMessageSchema>;
  * Messages are validated with Zod. Invalid messages are silently
  * ignored (logging them would let malicious clients spam server logs).
  * The handler keeps subscribe/unsubscribe as pure state management —
- * no DB calls or side effects beyond pub/sub bookkeeping.
+ * no DB calls or side effects beyond pub/sub bookkeeping. Debug
+ * commands go to the execution service for runs in the client's org,
+ * from clients whose role can edit workflows, and are answered with
+ * `debug:ack` or `debug:error`.
  */
 export function handleMessage(
   manager: WSManager,
   ws: WSLike,
   raw: string | ArrayBuffer,
+  executionService?: WorkflowExecutionService,
 ): void {
   const text = typeof raw === "string" ? raw : new TextDecoder().decode(raw);
 
@@ -64,6 +76,45 @@ export function handleMessage(
     case "ping":
       safeSend(ws, { type: "pong", timestamp: new Date().toISOString() });
       break;
+
+    case "debug":
+      void handleDebug(manager, ws, msg, executionService);
+      break;
+  }
+}
+
+async function handleDebug(
+  manager: WSManager,
+  ws: WSLike,
+  msg: Extract<InboundMessage, { type: "debug" }>,
+  executionService?: WorkflowExecutionService,
+): Promise<void> {
+  const reply = (error?: string) =>
+    safeSend(ws, error
+      ? { type: "debug:error", runId: msg.runId, command: msg.command, error }
+      : { type: "debug:ack", runId: msg.runId, command: msg.command });
+
+  const meta = manager.getClientMeta(ws);
+  const orgId = meta?.orgId;
+  if (!orgId) return reply("Debug commands need an organization");
+  if (!meta.role || !canEditWorkflow({ role: meta.role, orgId }, { orgId })) {
+    return reply("Debug commands need permission to edit workflows");
+  }
+  if (!executionService) return reply("Run execution is not available");
+
+  if (msg.command === "edit_state" && !msg.state) {
+    return reply("edit_state needs a state object");
+  }
+
+  try {
+    const result = await executionService.debugCommand(
+      msg.runId,
+      orgId,
+      msg.command === "edit_state" ? { command: "edit_state", state: msg.state ?? {} } : { command: msg.command },
+    );
+    reply(result.ok ? undefined : result.error);
+  } catch (error) {
+    reply(error instanceof Error ? error.message : String(error));
   }
 }
 
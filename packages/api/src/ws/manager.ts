@@ -1,4 +1,5 @@
 import type { WSEvent } from "@vsync/shared-types";
+import type { RoleName } from "@vsync/auth";
 
 /**
  * Minimal interface so the manager works with any WebSocket-like
@@ -16,6 +17,8 @@ export interface ClientMeta {
   userId: string | null;
   /** Organization the client belongs to */
   orgId: string | null;
+  /** The user's role in that organization — debug commands need member or above */
+  role?: RoleName | null;
   /** Set of channel keys this client is subscribed to */
   channels: Set<string>;
 }
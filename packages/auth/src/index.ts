@@ -33,10 +33,19 @@ export {
   configureSAML,
   configureOIDC,
   getSSOConfig,
+  verifySSODomain,
+  ssoDomainChallenge,
+  beginSSOLogin,
   handleSSOCallback,
+  findSSOOrgForEmail,
+  createSSOSession,
+  SSOError,
 } from "./sso.js";
 export type {
+  SSOPolicy,
   SAMLConfig,
   OIDCConfig,
   SSOConfigRecord,
+  PendingSSODomain,
+  SSOLoginResult,
 } from "./sso.js";
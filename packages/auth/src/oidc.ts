@@ -0,0 +1,236 @@
+import crypto from "node:crypto";
+import { SSO_CLOCK_SKEW_MS, SSO_METADATA_CACHE_MS } from "@vsync/config";
+
+/**
+ * OpenID Connect authorization code flow for org SSO, as a public
+ * client: PKCE (S256) stands in for a client secret, so nothing
+ * secret is kept in the org's SSO config. The ID token is the only
+ * source of identity, and it is accepted only after its signature
+ * checks out against the issuer's published JWKS and its claims
+ * (issuer, audience, expiry, nonce) match this login.
+ */
+
+/** The parts of the issuer's discovery document this flow uses */
+export interface OIDCProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/** Identity claims from a verified ID token */
+export interface OIDCIdentity {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  claims: Record<string, unknown>;
+}
+
+type JWK = crypto.JsonWebKey & { kid?: string; use?: string; alg?: string };
+
+/** JWS algorithms accepted for ID tokens, with their node:crypto verify parameters */
+const JWS_ALGORITHMS: Record<string, { hash: string; dsaEncoding?: "ieee-p1363"; kty: string }> = {
+  RS256: { hash: "sha256", kty: "RSA" },
+  RS384: { hash: "sha384", kty: "RSA" },
+  RS512: { hash: "sha512", kty: "RSA" },
+  ES256: { hash: "sha256", dsaEncoding: "ieee-p1363", kty: "EC" },
+  ES384: { hash: "sha384", dsaEncoding: "ieee-p1363", kty: "EC" },
+};
+
+const metadataCache = new Map<string, { metadata: OIDCProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: JWK[]; fetchedAt: number }>();
+
+/**
+ * Fetch (or reuse) the issuer's discovery document. The document must
+ * name the same issuer it was fetched for, or a compromised or
+ * misconfigured endpoint could vouch for tokens from another issuer.
+ */
+export async function discoverOIDC(issuer: string): Promise<OIDCProviderMetadata> {
+  const cached = metadataCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < SSO_METADATA_CACHE_MS) return cached.metadata;
+
+  const url = `${issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`;
+  const metadata = (await fetchJson(url, "OIDC discovery")) as Partial<OIDCProviderMetadata>;
+
+  if (metadata.issuer !== issuer) {
+    throw new Error(`OIDC discovery returned issuer ${metadata.issuer}, expected ${issuer}`);
+  }
+  for (const field of ["authorization_endpoint", "token_endpoint", "jwks_uri"] as const) {
+    if (typeof metadata[field] !== "string") {
+      throw new Error(`OIDC discovery document has no ${field}`);
+    }
+  }
+
+  metadataCache.set(issuer, { metadata: metadata as OIDCProviderMetadata, fetchedAt: Date.now() });
+  return metadata as OIDCProviderMetadata;
+}
+
+/** Generate a PKCE verifier and its S256 challenge. */
+export function createPKCE(): { verifier: string; challenge: string } {
+  const verifier = crypto.randomBytes(32).toString("base64url");
+  const challenge = crypto.createHash("sha256").update(verifier).digest("base64url");
+  return { verifier, challenge };
+}
+
+/** Build the authorization request the user is redirected to. */
+export function buildOIDCAuthorizationUrl(
+  metadata: OIDCProviderMetadata,
+  opts: { clientId: string; redirectUri: string; state: string; nonce: string; codeChallenge: string },
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", opts.clientId);
+  url.searchParams.set("redirect_uri", opts.redirectUri);
+  url.searchParams.set("scope", "openid email profile");
+  url.searchParams.set("state", opts.state);
+  url.searchParams.set("nonce", opts.nonce);
+  url.searchParams.set("code_challenge", opts.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  return url.toString();
+}
+
+/**
+ * Exchange an authorization code at the token endpoint and return
+ * the identity from the verified ID token.
+ */
+export async function exchangeOIDCCode(
+  metadata: OIDCProviderMetadata,
+  opts: {
+    clientId: string;
+    redirectUri: string;
+    code: string;
+    codeVerifier: string;
+    nonce: string;
+    now?: Date;
+  },
+): Promise<OIDCIdentity> {
+  const response = await fetch(metadata.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: opts.code,
+      redirect_uri: opts.redirectUri,
+      client_id: opts.clientId,
+      code_verifier: opts.codeVerifier,
+    }),
+  });
+  const body = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+  if (!response.ok) {
+    const reason = typeof body["error"] === "string" ? body["error"] : `HTTP ${response.status}`;
+    throw new Error(`OIDC token exchange failed: ${reason}`);
+  }
+  if (typeof body["id_token"] !== "string") {
+    throw new Error("OIDC token response has no id_token");
+  }
+
+  return verifyIdToken(metadata, body["id_token"], {
+    clientId: opts.clientId,
+    nonce: opts.nonce,
+    now: opts.now,
+  });
+}
+
+/**
+ * Verify an ID token's signature and claims (OIDC Core §3.1.3.7).
+ * Unsigned tokens, HMAC tokens and keys of the wrong type are refused.
+ */
+export async function verifyIdToken(
+  metadata: OIDCProviderMetadata,
+  idToken: string,
+  opts: { clientId: string; nonce: string; now?: Date },
+): Promise<OIDCIdentity> {
+  const parts = idToken.split(".");
+  if (parts.length !== 3) throw new Error("ID token is not a signed JWT");
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  const header = decodeSegment(encodedHeader, "header");
+  const algorithm = JWS_ALGORITHMS[String(header["alg"])];
+  if (!algorithm) throw new Error(`ID token algorithm ${String(header["alg"])} is not supported`);
+
+  const kid = typeof header["kid"] === "string" ? header["kid"] : undefined;
+  const jwk = await findSigningKey(metadata.jwks_uri, kid, algorithm.kty);
+
+  const valid = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key: crypto.createPublicKey({ key: jwk, format: "jwk" }), dsaEncoding: algorithm.dsaEncoding },
+    Buffer.from(encodedSignature, "base64url"),
+  );
+  if (!valid) throw new Error("ID token signature is invalid");
+
+  const claims = decodeSegment(encodedPayload, "payload");
+  const now = (opts.now ?? new Date()).getTime();
+
+  if (claims["iss"] !== metadata.issuer) throw new Error("ID token was issued by a different issuer");
+
+  const audience = Array.isArray(claims["aud"]) ? claims["aud"] : [claims["aud"]];
+  if (!audience.includes(opts.clientId)) throw new Error("ID token is intended for a different client");
+  if (audience.length > 1 && claims["azp"] !== opts.clientId) {
+    throw new Error("ID token was authorized for a different client");
+  }
+
+  if (typeof claims["exp"] !== "number" || claims["exp"] * 1000 + SSO_CLOCK_SKEW_MS <= now) {
+    throw new Error("ID token has expired");
+  }
+  if (typeof claims["iat"] === "number" && claims["iat"] * 1000 - SSO_CLOCK_SKEW_MS > now) {
+    throw new Error("ID token was issued in the future");
+  }
+  if (claims["nonce"] !== opts.nonce) throw new Error("ID token nonce does not match this login");
+  if (typeof claims["sub"] !== "string" || !claims["sub"]) throw new Error("ID token has no subject");
+
+  return {
+    subject: claims["sub"],
+    email: typeof claims["email"] === "string" ? claims["email"] : null,
+    emailVerified: claims["email_verified"] === true || claims["email_verified"] === "true",
+    name: typeof claims["name"] === "string" ? claims["name"] : null,
+    claims,
+  };
+}
+
+/* ── Internal helpers ───────────────────────────────────────── */
+
+/**
+ * Pick the key that signed a token. An unknown `kid` usually means the
+ * issuer rotated its keys, so the JWKS is refetched once before failing.
+ */
+async function findSigningKey(jwksUri: string, kid: string | undefined, kty: string): Promise<JWK> {
+  const pick = (keys: JWK[]) => {
+    const candidates = keys.filter(
+      (key) => key.kty === kty && (key.use === undefined || key.use === "sig") && (!kid || key.kid === kid),
+    );
+    /* Without a kid the choice is only unambiguous when the issuer publishes one key of this type */
+    return kid || candidates.length === 1 ? candidates[0] : undefined;
+  };
+
+  const cached = jwksCache.get(jwksUri);
+  if (cached && Date.now() - cached.fetchedAt < SSO_METADATA_CACHE_MS) {
+    const key = pick(cached.keys);
+    if (key) return key;
+  }
+
+  const jwks = (await fetchJson(jwksUri, "OIDC JWKS")) as { keys?: JWK[] };
+  const keys = Array.isArray(jwks.keys) ? jwks.keys : [];
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+
+  const key = pick(keys);
+  if (!key) throw new Error(`No ${kty} signing key${kid ? ` with kid ${kid}` : ""} in the issuer's JWKS`);
+  return key;
+}
+
+function decodeSegment(segment: string, part: string): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+    if (value && typeof value === "object" && !Array.isArray(value)) return value as Record<string, unknown>;
+  } catch {
+    /* fall through */
+  }
+  throw new Error(`ID token ${part} is not a JSON object`);
+}
+
+async function fetchJson(url: string, what: string): Promise<unknown> {
+  const response = await fetch(url, { headers: { Accept: "application/json" } });
+  if (!response.ok) throw new Error(`${what} request failed: HTTP ${response.status}`);
+  return response.json();
+}
@@ -0,0 +1,350 @@
+import crypto from "node:crypto";
+import { deflateRawSync } from "node:zlib";
+import { SSO_CLOCK_SKEW_MS } from "@vsync/config";
+import {
+  parseXml,
+  canonicalize,
+  childElements,
+  descendants,
+  firstChild,
+  getAttribute,
+  textContent,
+} from "./xml.js";
+import type { XmlElement } from "./xml.js";
+
+/**
+ * SAML 2.0 Web Browser SSO, service provider side: an AuthnRequest
+ * sent with the HTTP-Redirect binding, and validation of the
+ * Response the IdP posts back to the assertion consumer service.
+ *
+ * A response is only trusted if a signature made with the org's
+ * stored IdP certificate covers the assertion — whatever KeyInfo
+ * the response carries is ignored. Only the element the verified
+ * signature references is read, so a forged assertion wrapped
+ * around a genuinely signed one is never used.
+ */
+
+const PROTOCOL_NS = "urn:oasis:names:tc:SAML:2.0:protocol";
+const ASSERTION_NS = "urn:oasis:names:tc:SAML:2.0:assertion";
+const DSIG_NS = "http://www.w3.org/2000/09/xmldsig#";
+
+const STATUS_SUCCESS = "urn:oasis:names:tc:SAML:2.0:status:Success";
+const BEARER = "urn:oasis:names:tc:SAML:2.0:cm:bearer";
+
+const EXC_C14N = "http://www.w3.org/2001/10/xml-exc-c14n#";
+const ENVELOPED_SIGNATURE = "http://www.w3.org/2000/09/xmldsig#enveloped-signature";
+
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256": "sha256",
+  "http://www.w3.org/2001/04/xmldsig-more#rsa-sha512": "sha512",
+};
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  "http://www.w3.org/2001/04/xmlenc#sha256": "sha256",
+  "http://www.w3.org/2001/04/xmlenc#sha512": "sha512",
+};
+
+/** Attribute names IdPs commonly put the email and display name under */
+const EMAIL_ATTRIBUTES = [
+  "email",
+  "mail",
+  "emailaddress",
+  "urn:oid:0.9.2342.19200300.100.1.3",
+  "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress",
+];
+const NAME_ATTRIBUTES = [
+  "name",
+  "displayname",
+  "urn:oid:2.16.840.1.113730.3.1.241",
+  "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name",
+];
+const GIVEN_NAME_ATTRIBUTES = ["givenname", "firstname", "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname"];
+const SURNAME_ATTRIBUTES = ["surname", "sn", "lastname", "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname"];
+
+/** What the response is checked against */
+export interface SAMLExpectations {
+  /** The IdP's entity ID — the assertion's Issuer */
+  idpEntityId: string;
+  /** PEM certificate the IdP signs with */
+  certificate: string;
+  /** This service provider's entity ID — the assertion's Audience */
+  spEntityId: string;
+  /** Where the response was posted — its Destination and Recipient */
+  acsUrl: string;
+  /** ID of the AuthnRequest the response answers */
+  requestId: string;
+  now?: Date;
+}
+
+/** The authenticated subject of a valid assertion */
+export interface SAMLIdentity {
+  nameId: string;
+  email: string | null;
+  name: string | null;
+  attributes: Record<string, string[]>;
+}
+
+/**
+ * Build a redirect to the IdP's SSO URL carrying a deflated
+ * AuthnRequest (HTTP-Redirect binding). The returned request ID must
+ * be kept and checked against the response's InResponseTo.
+ */
+export function buildSAMLRequest(opts: {
+  ssoUrl: string;
+  spEntityId: string;
+  acsUrl: string;
+  relayState: string;
+  now?: Date;
+}): { url: string; requestId: string } {
+  const requestId = `_${crypto.randomBytes(20).toString("hex")}`;
+  const issueInstant = (opts.now ?? new Date()).toISOString();
+
+  const request =
+    `<samlp:AuthnRequest xmlns:samlp="${PROTOCOL_NS}" xmlns:saml="${ASSERTION_NS}"` +
+    ` ID="${requestId}" Version="2.0" IssueInstant="${issueInstant}"` +
+    ` Destination="${escapeXml(opts.ssoUrl)}" AssertionConsumerServiceURL="${escapeXml(opts.acsUrl)}"` +
+    ` ProtocolBinding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST">` +
+    `<saml:Issuer>${escapeXml(opts.spEntityId)}</saml:Issuer>` +
+    `<samlp:NameIDPolicy AllowCreate="true"/>` +
+    `</samlp:AuthnRequest>`;
+
+  const url = new URL(opts.ssoUrl);
+  url.searchParams.set("SAMLRequest", deflateRawSync(Buffer.from(request, "utf8")).toString("base64"));
+  url.searchParams.set("RelayState", opts.relayState);
+  return { url: url.toString(), requestId };
+}
+
+/**
+ * Validate a base64 SAMLResponse from the HTTP-POST binding and
+ * return the asserted identity. Throws on any failed check.
+ */
+export function validateSAMLResponse(samlResponse: string, expected: SAMLExpectations): SAMLIdentity {
+  const now = (expected.now ?? new Date()).getTime();
+  const cert = new crypto.X509Certificate(expected.certificate);
+
+  let response: XmlElement;
+  try {
+    response = parseXml(Buffer.from(samlResponse, "base64").toString("utf8"));
+  } catch (error) {
+    throw new Error(`SAML response is not valid XML: ${(error as Error).message}`);
+  }
+  if (response.namespaceURI !== PROTOCOL_NS || response.localName !== "Response") {
+    throw new Error("SAML response is not a samlp:Response");
+  }
+
+  const destination = getAttribute(response, "Destination");
+  if (destination !== null && destination !== expected.acsUrl) {
+    throw new Error("SAML response was sent to a different destination");
+  }
+  if (getAttribute(response, "InResponseTo") !== expected.requestId) {
+    throw new Error("SAML response does not answer this login's request");
+  }
+
+  const statusCode = firstChild(firstChild(response, PROTOCOL_NS, "Status") ?? response, PROTOCOL_NS, "StatusCode");
+  const status = statusCode ? getAttribute(statusCode, "Value") : null;
+  if (status !== STATUS_SUCCESS) {
+    const message = descendants(response, PROTOCOL_NS, "StatusMessage")[0];
+    throw new Error(`SAML login failed at the IdP: ${message ? textContent(message) : status ?? "no status"}`);
+  }
+
+  const responseIssuer = firstChild(response, ASSERTION_NS, "Issuer");
+  if (responseIssuer && textContent(responseIssuer).trim() !== expected.idpEntityId) {
+    throw new Error("SAML response was issued by a different IdP");
+  }
+
+  if (descendants(response, ASSERTION_NS, "EncryptedAssertion").length > 0) {
+    throw new Error("Encrypted SAML assertions are not supported");
+  }
+  const assertions = descendants(response, ASSERTION_NS, "Assertion");
+  const assertion = childElements(response, ASSERTION_NS, "Assertion")[0];
+  if (assertions.length !== 1 || !assertion) {
+    throw new Error("SAML response must contain exactly one assertion");
+  }
+
+  /* Either the whole response or the assertion itself must be signed by the IdP */
+  const responseSigned = verifyEnvelopedSignature(response, cert);
+  const assertionSigned = verifyEnvelopedSignature(assertion, cert);
+  if (!responseSigned && !assertionSigned) {
+    throw new Error("SAML assertion is not signed");
+  }
+
+  const issuer = firstChild(assertion, ASSERTION_NS, "Issuer");
+  if (!issuer || textContent(issuer).trim() !== expected.idpEntityId) {
+    throw new Error("SAML assertion was issued by a different IdP");
+  }
+
+  checkConditions(assertion, expected.spEntityId, now);
+  const subject = checkSubject(assertion, expected, now);
+
+  const attributes: Record<string, string[]> = {};
+  for (const statement of childElements(assertion, ASSERTION_NS, "AttributeStatement")) {
+    for (const attribute of childElements(statement, ASSERTION_NS, "Attribute")) {
+      const name = getAttribute(attribute, "Name");
+      if (!name) continue;
+      attributes[name] = childElements(attribute, ASSERTION_NS, "AttributeValue").map((v) => textContent(v).trim());
+    }
+  }
+
+  const attribute = (names: string[]) => {
+    for (const [name, values] of Object.entries(attributes)) {
+      if (names.includes(name.toLowerCase()) && values[0]) return values[0];
+    }
+    return null;
+  };
+
+  const email = attribute(EMAIL_ATTRIBUTES) ?? (subject.nameId.includes("@") ? subject.nameId : null);
+  const given = attribute(GIVEN_NAME_ATTRIBUTES);
+  const surname = attribute(SURNAME_ATTRIBUTES);
+  const name = attribute(NAME_ATTRIBUTES) ?? ([given, surname].filter(Boolean).join(" ") || null);
+
+  return { nameId: subject.nameId, email, name, attributes };
+}
+
+/* ── Assertion checks ───────────────────────────────────────── */
+
+function checkConditions(assertion: XmlElement, spEntityId: string, now: number): void {
+  const conditions = firstChild(assertion, ASSERTION_NS, "Conditions");
+  if (!conditions) throw new Error("SAML assertion has no Conditions");
+
+  checkWindow(conditions, now, "SAML assertion");
+
+  const audiences = childElements(conditions, ASSERTION_NS, "AudienceRestriction").map((restriction) =>
+    childElements(restriction, ASSERTION_NS, "Audience").map((a) => textContent(a).trim()),
+  );
+  if (audiences.length === 0) throw new Error("SAML assertion has no audience restriction");
+  /* Every restriction must admit this service provider */
+  if (!audiences.every((list) => list.includes(spEntityId))) {
+    throw new Error("SAML assertion is intended for a different service provider");
+  }
+}
+
+function checkSubject(assertion: XmlElement, expected: SAMLExpectations, now: number): { nameId: string } {
+  const subject = firstChild(assertion, ASSERTION_NS, "Subject");
+  const nameId = subject && firstChild(subject, ASSERTION_NS, "NameID");
+  if (!subject || !nameId) throw new Error("SAML assertion has no subject");
+
+  const confirmed = childElements(subject, ASSERTION_NS, "SubjectConfirmation").some((confirmation) => {
+    if (getAttribute(confirmation, "Method") !== BEARER) return false;
+    const data = firstChild(confirmation, ASSERTION_NS, "SubjectConfirmationData");
+    if (!data) return false;
+
+    const inResponseTo = getAttribute(data, "InResponseTo");
+    const notOnOrAfter = getAttribute(data, "NotOnOrAfter");
+    return (
+      getAttribute(data, "Recipient") === expected.acsUrl &&
+      (inResponseTo === null || inResponseTo === expected.requestId) &&
+      notOnOrAfter !== null &&
+      Date.parse(notOnOrAfter) + SSO_CLOCK_SKEW_MS > now
+    );
+  });
+  if (!confirmed) throw new Error("SAML subject confirmation failed (recipient, request or expiry)");
+
+  return { nameId: textContent(nameId).trim() };
+}
+
+function checkWindow(element: XmlElement, now: number, what: string): void {
+  const notBefore = getAttribute(element, "NotBefore");
+  const notOnOrAfter = getAttribute(element, "NotOnOrAfter");
+  if (notBefore && Date.parse(notBefore) - SSO_CLOCK_SKEW_MS > now) {
+    throw new Error(`${what} is not valid yet`);
+  }
+  if (notOnOrAfter && Date.parse(notOnOrAfter) + SSO_CLOCK_SKEW_MS <= now) {
+    throw new Error(`${what} has expired`);
+  }
+}
+
+/* ── XML signatures ─────────────────────────────────────────── */
+
+/**
+ * Verify the enveloped signature on `element` against the IdP
+ * certificate. Returns false when the element carries no signature;
+ * throws when it carries one that does not verify, or one this
+ * verifier does not accept (anything but exc-c14n with SHA-256/512).
+ */
+function verifyEnvelopedSignature(element: XmlElement, cert: crypto.X509Certificate): boolean {
+  const signatures = childElements(element, DSIG_NS, "Signature");
+  if (signatures.length === 0) return false;
+  if (signatures.length > 1) throw new Error("SAML element has more than one signature");
+  const signature = signatures[0];
+
+  const signedInfo = firstChild(signature, DSIG_NS, "SignedInfo");
+  const signatureValue = firstChild(signature, DSIG_NS, "SignatureValue");
+  if (!signedInfo || !signatureValue) throw new Error("SAML signature is incomplete");
+
+  const canonicalization = firstChild(signedInfo, DSIG_NS, "CanonicalizationMethod");
+  if (!canonicalization || getAttribute(canonicalization, "Algorithm") !== EXC_C14N) {
+    throw new Error("SAML signature must use exclusive canonicalization");
+  }
+
+  const signatureMethod = firstChild(signedInfo, DSIG_NS, "SignatureMethod");
+  const signatureHash = SIGNATURE_ALGORITHMS[getAttribute(signatureMethod ?? signedInfo, "Algorithm") ?? ""];
+  if (!signatureHash) throw new Error("SAML signature algorithm is not supported");
+
+  /* The reference must point at this element, and only this element may carry its ID */
+  const references = childElements(signedInfo, DSIG_NS, "Reference");
+  const id = getAttribute(element, "ID");
+  if (references.length !== 1 || !id || getAttribute(references[0], "URI") !== `#${id}`) {
+    throw new Error("SAML signature does not reference the signed element");
+  }
+  if (countIds(rootOf(element), id) !== 1) throw new Error("SAML document has a duplicated ID");
+  const reference = references[0];
+
+  let inclusivePrefixes: string[] | undefined;
+  let excC14n = false;
+  const transforms = firstChild(reference, DSIG_NS, "Transforms");
+  for (const transform of transforms ? childElements(transforms, DSIG_NS, "Transform") : []) {
+    const algorithm = getAttribute(transform, "Algorithm");
+    if (algorithm === EXC_C14N) {
+      excC14n = true;
+      inclusivePrefixes = prefixList(transform);
+    } else if (algorithm !== ENVELOPED_SIGNATURE) {
+      throw new Error(`SAML signature transform ${algorithm} is not supported`);
+    }
+  }
+  if (!excC14n) throw new Error("SAML signature must use exclusive canonicalization");
+
+  const digestMethod = firstChild(reference, DSIG_NS, "DigestMethod");
+  const digestValue = firstChild(reference, DSIG_NS, "DigestValue");
+  const digestHash = DIGEST_ALGORITHMS[getAttribute(digestMethod ?? reference, "Algorithm") ?? ""];
+  if (!digestHash || !digestValue) throw new Error("SAML signature digest algorithm is not supported");
+
+  const digest = crypto
+    .createHash(digestHash)
+    .update(canonicalize(element, { exclude: signature, inclusivePrefixes }))
+    .digest();
+  const expectedDigest = Buffer.from(textContent(digestValue).replace(/\s+/g, ""), "base64");
+  if (digest.length !== expectedDigest.length || !crypto.timingSafeEqual(digest, expectedDigest)) {
+    throw new Error("SAML signature digest does not match — the signed content was altered");
+  }
+
+  const valid = crypto.verify(
+    signatureHash,
+    Buffer.from(canonicalize(signedInfo, { inclusivePrefixes: prefixList(canonicalization) })),
+    cert.publicKey,
+    Buffer.from(textContent(signatureValue).replace(/\s+/g, ""), "base64"),
+  );
+  if (!valid) throw new Error("SAML signature was not made with the IdP's certificate");
+  return true;
+}
+
+/** The InclusiveNamespaces PrefixList of a canonicalization method or transform */
+function prefixList(element: XmlElement): string[] | undefined {
+  const inclusive = firstChild(element, EXC_C14N, "InclusiveNamespaces");
+  return getAttribute(inclusive ?? element, "PrefixList")?.split(/\s+/).filter(Boolean);
+}
+
+function rootOf(element: XmlElement): XmlElement {
+  let root = element;
+  while (root.parent) root = root.parent;
+  return root;
+}
+
+function countIds(element: XmlElement, id: string): number {
+  let count = element.attributes.some((a) => a.localName === "ID" && a.value === id) ? 1 : 0;
+  for (const child of childElements(element)) count += countIds(child, id);
+  return count;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/"/g, "&quot;");
+}
@@ -2,6 +2,8 @@ import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
 import { organization } from "better-auth/plugins/organization";
 import { jwt } from "better-auth/plugins/jwt";
+import { APIError } from "better-auth/api";
+import { eq } from "drizzle-orm";
 import type { Database } from "@vsync/db";
 import {
   users,
@@ -10,6 +12,7 @@ import {
   verifications,
 } from "@vsync/db";
 import { Resend } from "resend";
+import { findSSOOrgForEmail, isCreatingSSOSession } from "./sso.js";
 
 /** Env vars read at startup — typed for safety. */
 interface AuthEnv {
@@ -55,6 +58,8 @@ function readEnv(): AuthEnv {
  * - JWT sessions (30-day expiry, 7-day refresh)
  * - Organization plugin (multi-tenant)
  * - Email verification via Resend magic links (24h expiry)
+ * - SSO enforcement: users in a domain an org enforces SSO for
+ *   only get sessions through that org's IdP
  */
 export function createAuthServer(db: Database) {
   const env = readEnv();
@@ -141,6 +146,25 @@ export function createAuthServer(db: Database) {
       expiresIn: 60 * 60 * 24, // 24 hours
     },
 
+    databaseHooks: {
+      session: {
+        create: {
+          /* Every sign-in method ends here, so this one check covers them all */
+          before: async (session) => {
+            if (isCreatingSSOSession()) return;
+            const user = await db.query.users.findFirst({ where: eq(users.id, session.userId) });
+            const sso = user ? await findSSOOrgForEmail(db, user.email) : null;
+            if (sso?.enforced) {
+              throw new APIError("FORBIDDEN", {
+                code: "SSO_REQUIRED",
+                message: "Your organization requires signing in with SSO",
+              });
+            }
+          },
+        },
+      },
+    },
+
     rateLimit: {
       window: 60,   // 1 minute window
       max: 5,       // 5 attempts per window per IP
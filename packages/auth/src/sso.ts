@@ -1,36 +1,80 @@
 import crypto from "node:crypto";
-import { eq } from "drizzle-orm";
+import dns from "node:dns/promises";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { and, eq, ne, sql } from "drizzle-orm";
 import type { Database } from "@vsync/db";
-import { organizations } from "@vsync/db";
+import { organizations, orgMembers, ssoIdentities, users, verifications } from "@vsync/db";
+import { SSO_LOGIN_TTL_MS } from "@vsync/config";
+import type { RoleName } from "./permissions.js";
+import type { AuthInstance } from "./server.js";
+import { buildSAMLRequest, validateSAMLResponse } from "./saml.js";
+import type { SAMLIdentity } from "./saml.js";
+import { buildOIDCAuthorizationUrl, createPKCE, discoverOIDC, exchangeOIDCCode } from "./oidc.js";
+import type { OIDCIdentity } from "./oidc.js";
+
+/**
+ * Who may sign in through an org's SSO and how. Email domains are
+ * claimed by at most one org, and only once the org has proved it
+ * owns them (see verifySSODomain); when `enforced` is set, users with
+ * an email in those domains can only sign in through the org's IdP.
+ */
+export interface SSOPolicy {
+  domains?: string[];
+  enforced?: boolean;
+  /** Role given to users the first time they sign in through SSO */
+  defaultRole?: Exclude<RoleName, "owner">;
+}
 
 /** SAML 2.0 configuration payload. */
-export interface SAMLConfig {
+export interface SAMLConfig extends SSOPolicy {
   entityId: string;
   ssoUrl: string;
   certificate: string;
+  /** Entity ID this app is registered under at the IdP — defaults to the ACS URL */
+  spEntityId?: string;
 }
 
 /** OpenID Connect configuration payload. */
-export interface OIDCConfig {
+export interface OIDCConfig extends SSOPolicy {
   clientId: string;
   issuer: string;
   redirectUri: string;
 }
 
+/** A requested domain waiting for its DNS TXT record to be checked */
+export interface PendingSSODomain {
+  domain: string;
+  token: string;
+}
+
 /**
  * Stored SSO configuration shape, persisted in the
- * organizations.ssoConfig jsonb column.
+ * organizations.ssoConfig jsonb column. `domains` holds only verified
+ * domains — the rest wait in `pendingDomains`.
  */
-export interface SSOConfigRecord {
+export interface SSOConfigRecord extends SSOPolicy {
   provider: "saml" | "oidc";
+  pendingDomains?: PendingSSODomain[];
   entityId?: string;
   ssoUrl?: string;
   certificate?: string;
+  spEntityId?: string;
   clientId?: string;
   issuer?: string;
   redirectUri?: string;
 }
 
+/** Thrown for a rejected SSO configuration or login */
+export class SSOError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+  ) {
+    super(message);
+    this.name = "SSOError";
+  }
+}
+
 /**
  * Validates that the organization is on the Enterprise plan
  * before allowing SSO configuration. SSO is a premium feature
@@ -100,6 +144,121 @@ function validateSAMLConfig(config: SAMLConfig): void {
   }
 }
 
+/**
+ * Normalizes the domains of an SSO policy and checks none of them is
+ * already claimed by another org's SSO. Domains this org has already
+ * verified stay verified; new ones are left pending with a fresh
+ * challenge token. Enforcement needs at least one domain to enforce.
+ */
+async function validatePolicy(
+  db: Database,
+  orgId: string,
+  policy: SSOPolicy,
+): Promise<Pick<SSOConfigRecord, "domains" | "pendingDomains" | "enforced" | "defaultRole">> {
+  const requested = [...new Set((policy.domains ?? []).map((d) => d.trim().toLowerCase()))];
+  const current = await getSSOConfig(db, orgId);
+
+  const domains: string[] = [];
+  const pendingDomains: PendingSSODomain[] = [];
+  for (const domain of requested) {
+    if (!DOMAIN_PATTERN.test(domain)) {
+      throw new SSOError(`"${domain}" is not a valid email domain`, "INVALID_DOMAIN");
+    }
+    await requireUnclaimed(db, orgId, domain);
+
+    if (current?.domains?.includes(domain)) {
+      domains.push(domain);
+    } else {
+      const pending = current?.pendingDomains?.find((p) => p.domain === domain);
+      pendingDomains.push({ domain, token: pending?.token ?? crypto.randomBytes(16).toString("hex") });
+    }
+  }
+
+  if (policy.enforced && requested.length === 0) {
+    throw new SSOError("SSO enforcement needs at least one email domain", "INVALID_DOMAIN");
+  }
+
+  return {
+    domains,
+    pendingDomains,
+    enforced: policy.enforced ?? false,
+    defaultRole: policy.defaultRole ?? "member",
+  };
+}
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/** Orgs whose SSO config lists the domain as verified */
+function claimsDomain(domain: string) {
+  return sql`${organizations.ssoConfig} -> 'domains' @> ${JSON.stringify([domain])}::jsonb`;
+}
+
+async function requireUnclaimed(db: Database, orgId: string, domain: string): Promise<void> {
+  const claimant = await db.query.organizations.findFirst({
+    where: and(ne(organizations.id, orgId), claimsDomain(domain)),
+  });
+  if (claimant) {
+    throw new SSOError(`Domain ${domain} already exists in another organization's SSO configuration`, "DOMAIN_CLAIMED");
+  }
+}
+
+/**
+ * The DNS TXT record an org publishes to prove it owns a pending
+ * domain, e.g. `_vsync-challenge.example.com` with the value
+ * `vsync-domain-verification=<token>`.
+ */
+export function ssoDomainChallenge(pending: PendingSSODomain): { name: string; value: string } {
+  return {
+    name: `_vsync-challenge.${pending.domain}`,
+    value: `vsync-domain-verification=${pending.token}`,
+  };
+}
+
+/**
+ * Checks the DNS TXT record for one of the org's pending domains and,
+ * when it carries the challenge token, moves the domain to the
+ * verified list. Only verified domains are claimed: they decide who
+ * can sign in through the org's SSO, who joins the org on first
+ * login, and whose password sign-in `enforced` blocks.
+ *
+ * `resolveTxt` defaults to node:dns and can be replaced in tests.
+ */
+export async function verifySSODomain(
+  db: Database,
+  orgId: string,
+  domain: string,
+  opts: { resolveTxt?: (hostname: string) => Promise<string[][]> } = {},
+): Promise<void> {
+  const config = await requireSSOConfig(db, orgId);
+  const normalized = domain.trim().toLowerCase();
+  if (config.domains?.includes(normalized)) return;
+
+  const pending = config.pendingDomains?.find((p) => p.domain === normalized);
+  if (!pending) {
+    throw new SSOError(`Domain ${normalized} is not in this organization's SSO configuration`, "DOMAIN_NOT_PENDING");
+  }
+
+  const challenge = ssoDomainChallenge(pending);
+  const records = await (opts.resolveTxt ?? dns.resolveTxt)(challenge.name).catch(() => [] as string[][]);
+  if (!records.some((chunks) => chunks.join("") === challenge.value)) {
+    throw new SSOError(
+      `No TXT record at ${challenge.name} has the value ${challenge.value}`,
+      "DOMAIN_UNVERIFIED",
+    );
+  }
+  await requireUnclaimed(db, orgId, normalized);
+
+  const ssoConfig: SSOConfigRecord = {
+    ...config,
+    domains: [...(config.domains ?? []), normalized],
+    pendingDomains: config.pendingDomains?.filter((p) => p.domain !== normalized),
+  };
+  await db
+    .update(organizations)
+    .set({ ssoConfig, updatedAt: new Date() })
+    .where(eq(organizations.id, orgId));
+}
+
 /**
  * Configures SAML 2.0 SSO for an organization.
  * Stores the IdP metadata in the organizations.ssoConfig jsonb field.
@@ -118,6 +277,8 @@ export async function configureSAML(
     entityId: config.entityId,
     ssoUrl: config.ssoUrl,
     certificate: config.certificate,
+    spEntityId: config.spEntityId,
+    ...(await validatePolicy(db, orgId, config)),
   };
 
   await db
@@ -142,6 +303,7 @@ export async function configureOIDC(
     clientId: config.clientId,
     issuer: config.issuer,
     redirectUri: config.redirectUri,
+    ...(await validatePolicy(db, orgId, config)),
   };
 
   await db
@@ -166,31 +328,323 @@ export async function getSSOConfig(
   return org.ssoConfig as SSOConfigRecord;
 }
 
+
+/* ── Login ─────────────────────────────────────────────────────── */
+
+/** A login started by beginSSOLogin(), kept until the IdP calls back */
+interface PendingSSOLogin {
+  orgId: string;
+  provider: "saml" | "oidc";
+  redirectTo: string | null;
+  /* SAML */
+  requestId?: string;
+  acsUrl?: string;
+  spEntityId?: string;
+  /* OIDC */
+  codeVerifier?: string;
+  nonce?: string;
+}
+
+/** Outcome of a completed SSO login */
+export interface SSOLoginResult {
+  userId: string;
+  email: string;
+  name: string | null;
+  orgId: string;
+  role: RoleName;
+  /** True when the user was created by this login */
+  created: boolean;
+  /** Where the user asked to land after signing in */
+  redirectTo: string | null;
+}
+
 /**
- * Handles the SSO callback after the identity provider redirects back.
- * In a full implementation this would validate the SAML assertion or
- * exchange the OIDC authorization code for tokens. Currently delegates
- * to Better Auth's built-in OAuth handling for OIDC, and provides
- * the extension point for custom SAML processing.
+ * Starts an SP-initiated login and returns the IdP URL to send the
+ * user to. The `state` (SAML RelayState) comes back with the callback
+ * and unlocks the pending login, which is stored hashed in the
+ * verifications table and can be used once, within SSO_LOGIN_TTL_MS.
+ *
+ * `acsUrl` is where the IdP posts SAML responses; OIDC logins use the
+ * configured redirect URI instead.
+ */
+export async function beginSSOLogin(
+  db: Database,
+  orgId: string,
+  opts: { acsUrl: string; redirectTo?: string },
+): Promise<{ url: string; state: string }> {
+  const config = await requireSSOConfig(db, orgId);
+  const state = crypto.randomBytes(32).toString("base64url");
+  const pending: PendingSSOLogin = { orgId, provider: config.provider, redirectTo: opts.redirectTo ?? null };
+
+  let url: string;
+  if (config.provider === "saml") {
+    const spEntityId = config.spEntityId ?? opts.acsUrl;
+    const request = buildSAMLRequest({
+      ssoUrl: config.ssoUrl!,
+      spEntityId,
+      acsUrl: opts.acsUrl,
+      relayState: state,
+    });
+    url = request.url;
+    Object.assign(pending, { requestId: request.requestId, acsUrl: opts.acsUrl, spEntityId });
+  } else {
+    const metadata = await loginStep(() => discoverOIDC(config.issuer!));
+    const pkce = createPKCE();
+    const nonce = crypto.randomBytes(16).toString("base64url");
+    url = buildOIDCAuthorizationUrl(metadata, {
+      clientId: config.clientId!,
+      redirectUri: config.redirectUri!,
+      state,
+      nonce,
+      codeChallenge: pkce.challenge,
+    });
+    Object.assign(pending, { codeVerifier: pkce.verifier, nonce });
+  }
+
+  await db.insert(verifications).values({
+    identifier: stateIdentifier(state),
+    value: JSON.stringify(pending),
+    expiresAt: new Date(Date.now() + SSO_LOGIN_TTL_MS),
+  });
+
+  return { url, state };
+}
+
+/**
+ * Completes an SSO login when the IdP calls back. `payload` is the
+ * OIDC authorization code or the base64 SAMLResponse.
+ *
+ * The IdP's identity is only accepted for an email in one of the
+ * org's verified SSO domains. A user seen for the first time is
+ * created with a verified email and joins the org with the configured
+ * default role. An existing account is only signed in when the IdP
+ * subject is already linked to it, or when it is already a member of
+ * the org — anyone else is refused rather than taken over by email.
  */
 export async function handleSSOCallback(
   db: Database,
   orgId: string,
-  _provider: "saml" | "oidc",
-  _code: string,
-  _state: string,
-): Promise<{ email: string; name: string }> {
+  provider: "saml" | "oidc",
+  payload: string,
+  state: string,
+): Promise<SSOLoginResult> {
+  const config = await requireSSOConfig(db, orgId);
+  if (config.provider !== provider) {
+    throw new SSOError(`Organization ${orgId} does not use ${provider.toUpperCase()} SSO`, "PROVIDER_MISMATCH");
+  }
+
+  const pending = await consumePendingLogin(db, state);
+  if (pending.orgId !== orgId || pending.provider !== provider) {
+    throw new SSOError("SSO state does not belong to this login", "INVALID_STATE");
+  }
+
+  let identity: { subject: string; email: string | null; name: string | null };
+  if (provider === "saml") {
+    const saml = await loginStep<SAMLIdentity>(async () =>
+      validateSAMLResponse(payload, {
+        idpEntityId: config.entityId!,
+        certificate: config.certificate!,
+        spEntityId: pending.spEntityId!,
+        acsUrl: pending.acsUrl!,
+        requestId: pending.requestId!,
+      }),
+    );
+    identity = { ...saml, subject: saml.nameId };
+  } else {
+    const oidc = await loginStep<OIDCIdentity>(async () =>
+      exchangeOIDCCode(await discoverOIDC(config.issuer!), {
+        clientId: config.clientId!,
+        redirectUri: config.redirectUri!,
+        code: payload,
+        codeVerifier: pending.codeVerifier!,
+        nonce: pending.nonce!,
+      }),
+    );
+    if (oidc.email && !oidc.emailVerified) {
+      throw new SSOError("The identity provider has not verified this email address", "EMAIL_UNVERIFIED");
+    }
+    identity = oidc;
+  }
+
+  if (!identity.email) {
+    throw new SSOError("The identity provider did not supply an email address", "NO_EMAIL");
+  }
+  const email = identity.email.trim().toLowerCase();
+  if (!config.domains?.includes(emailDomain(email))) {
+    throw new SSOError(`${email} is not in a domain this organization's SSO can sign in`, "DOMAIN_NOT_ALLOWED");
+  }
+
+  return provisionUser(db, orgId, config, { ...identity, email }, pending.redirectTo);
+}
+
+/**
+ * The org whose SSO covers an email's domain, if any. Sign-in forms
+ * use it to offer SSO, and to require it when `enforced` is set.
+ */
+export async function findSSOOrgForEmail(
+  db: Database,
+  email: string,
+): Promise<{ orgId: string; provider: "saml" | "oidc"; enforced: boolean } | null> {
+  const org = await db.query.organizations.findFirst({
+    where: claimsDomain(emailDomain(email.trim().toLowerCase())),
+  });
+  if (!org?.ssoConfig) return null;
+
+  const config = org.ssoConfig as SSOConfigRecord;
+  return { orgId: org.id, provider: config.provider, enforced: config.enforced === true };
+}
+
+/* ── Sessions ──────────────────────────────────────────────────── */
+
+const ssoSessionScope = new AsyncLocalStorage<true>();
+
+/**
+ * True while createSSOSession() is creating a session. The server's
+ * enforcement hook lets these through: they are the only sessions an
+ * SSO-enforced user may have.
+ */
+export function isCreatingSSOSession(): boolean {
+  return ssoSessionScope.getStore() === true;
+}
+
+/**
+ * Creates a Better Auth session for a user who signed in through SSO
+ * and returns the signed session cookie to set on the response.
+ */
+export async function createSSOSession(
+  auth: AuthInstance,
+  userId: string,
+  client: { ipAddress?: string; userAgent?: string } = {},
+) {
+  const ctx = await auth.$context;
+  const session = await ssoSessionScope.run(true, () =>
+    ctx.internalAdapter.createSession(userId, false, {
+      ipAddress: client.ipAddress ?? "",
+      userAgent: client.userAgent ?? "",
+    }),
+  );
+
+  /* Signed the way Better Auth's own sign-in endpoints sign it */
+  const signature = crypto.createHmac("sha256", ctx.secret).update(session.token).digest("base64");
+  const { name, attributes } = ctx.authCookies.sessionToken;
+  const maxAge = Math.floor((session.expiresAt.getTime() - Date.now()) / 1000);
+
+  return {
+    token: session.token,
+    expiresAt: session.expiresAt,
+    cookie: { name, value: `${session.token}.${signature}`, options: { ...attributes, maxAge } },
+  };
+}
+
+/* ── Internal helpers ──────────────────────────────────────────── */
+
+async function requireSSOConfig(db: Database, orgId: string): Promise<SSOConfigRecord> {
   const config = await getSSOConfig(db, orgId);
   if (!config) {
-    throw new Error(`No SSO configuration found for org ${orgId}`);
+    throw new SSOError(`No SSO configuration found for org ${orgId}`, "NOT_CONFIGURED");
   }
+  return config;
+}
+
+function stateIdentifier(state: string): string {
+  return `sso:${crypto.createHash("sha256").update(state).digest("hex")}`;
+}
+
+/** Claim a pending login — deleting it, so a callback cannot be replayed. */
+async function consumePendingLogin(db: Database, state: string): Promise<PendingSSOLogin> {
+  const [row] = await db
+    .delete(verifications)
+    .where(eq(verifications.identifier, stateIdentifier(state)))
+    .returning();
 
-  /**
-   * SAML assertion validation and OIDC token exchange
-   * are handled by Better Auth's social provider pipeline.
-   * This function is the extension point for custom logic
-   * (e.g. attribute mapping, JIT provisioning).
-   */
-  // TODO: Implement SSO callback handler — currently throws "Not implemented" and will crash if SSO is used.
-  throw new Error("Not implemented");
+  if (!row) throw new SSOError("Unknown or already used SSO state", "INVALID_STATE");
+  if (row.expiresAt.getTime() <= Date.now()) {
+    throw new SSOError("The SSO login took too long — start again", "STATE_EXPIRED");
+  }
+  return JSON.parse(row.value) as PendingSSOLogin;
+}
+
+/** Run a protocol step, reporting its failure as a rejected login */
+async function loginStep<T>(step: () => Promise<T>): Promise<T> {
+  try {
+    return await step();
+  } catch (error) {
+    throw new SSOError((error as Error).message, "LOGIN_FAILED");
+  }
+}
+
+function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf("@") + 1);
+}
+
+/**
+ * Find the user the IdP subject is linked to, or link it to a user
+ * found by email who already belongs to the org, or create the user.
+ * Makes sure the user belongs to the org.
+ */
+async function provisionUser(
+  db: Database,
+  orgId: string,
+  config: SSOConfigRecord,
+  identity: { subject: string; email: string; name: string | null },
+  redirectTo: string | null,
+): Promise<SSOLoginResult> {
+  const { subject, email, name } = identity;
+
+  return db.transaction(async (tx) => {
+    let created = false;
+    const linked = await tx.query.ssoIdentities.findFirst({
+      where: and(eq(ssoIdentities.orgId, orgId), eq(ssoIdentities.subject, subject)),
+    });
+    let user = linked
+      ? await tx.query.users.findFirst({ where: eq(users.id, linked.userId) })
+      : await tx.query.users.findFirst({ where: eq(users.email, email) });
+
+    if (!linked && user) {
+      const membership = await tx.query.orgMembers.findFirst({
+        where: and(eq(orgMembers.orgId, orgId), eq(orgMembers.userId, user.id)),
+      });
+      if (!membership) {
+        throw new SSOError(
+          `${email} already has an account outside this organization — an org admin must add it before it can sign in with SSO`,
+          "ACCOUNT_NOT_LINKED",
+        );
+      }
+    }
+
+    if (!user) {
+      [user] = await tx.insert(users).values({ email, name, emailVerified: true }).returning();
+      created = true;
+    }
+    if (!linked) {
+      await tx.insert(ssoIdentities).values({ orgId, subject, userId: user.id });
+    }
+
+    if (!user.emailVerified && user.email === email) {
+      /* The IdP vouches for the address */
+      [user] = await tx
+        .update(users)
+        .set({ emailVerified: true, updatedAt: new Date() })
+        .where(eq(users.id, user.id))
+        .returning();
+    }
+
+    await tx
+      .insert(orgMembers)
+      .values({ orgId, userId: user.id, role: config.defaultRole ?? "member" })
+      .onConflictDoNothing();
+    const member = await tx.query.orgMembers.findFirst({
+      where: and(eq(orgMembers.orgId, orgId), eq(orgMembers.userId, user.id)),
+    });
+
+    return {
+      userId: user.id,
+      email,
+      name: user.name,
+      orgId,
+      role: (member?.role ?? "member") as RoleName,
+      created,
+      redirectTo,
+    };
+  });
 }
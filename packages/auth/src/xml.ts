@@ -0,0 +1,349 @@
+/**
+ * A small, strict XML reader and Exclusive XML Canonicalization
+ * (exc-c14n, without comments) — just enough to verify signed SAML
+ * responses.
+ *
+ * Deliberately rejects anything a SAML response has no business
+ * containing: DOCTYPE declarations (and with them custom entities,
+ * so no XXE or entity expansion) and unknown entity references.
+ * Comments are dropped while parsing, so text split by a comment
+ * reads as one string, as canonicalization sees it.
+ */
+
+export const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+
+export interface XmlAttribute {
+  /** Qualified name as written */
+  name: string;
+  prefix: string | null;
+  localName: string;
+  /** null for unprefixed attributes, which are in no namespace */
+  namespaceURI: string | null;
+  value: string;
+}
+
+export interface XmlText {
+  type: "text";
+  value: string;
+}
+
+export interface XmlElement {
+  type: "element";
+  /** Qualified name as written */
+  name: string;
+  prefix: string | null;
+  localName: string;
+  namespaceURI: string | null;
+  /** Attributes other than namespace declarations */
+  attributes: XmlAttribute[];
+  /** Namespace declarations on this element — "" is the default namespace */
+  namespaces: Map<string, string>;
+  children: XmlNode[];
+  parent: XmlElement | null;
+}
+
+export type XmlNode = XmlElement | XmlText;
+
+/* ── Parsing ────────────────────────────────────────────────── */
+
+const NAME = /^[A-Za-z_][\w.\-]*(?::[A-Za-z_][\w.\-]*)?/;
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/** Parse a document and return its root element. Throws on anything malformed. */
+export function parseXml(source: string): XmlElement {
+  /* Line-end normalization (XML 1.0 §2.11) */
+  const xml = source.replace(/\r\n?/g, "\n");
+  let pos = 0;
+  let root: XmlElement | null = null;
+  const stack: XmlElement[] = [];
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid XML at offset ${pos}: ${message}`);
+  };
+
+  const readName = (): string => {
+    const match = NAME.exec(xml.slice(pos, pos + 512));
+    if (!match) fail("expected a name");
+    pos += match![0].length;
+    return match![0];
+  };
+
+  const skipSpace = () => {
+    while (pos < xml.length && /\s/.test(xml[pos])) pos++;
+  };
+
+  while (pos < xml.length) {
+    if (xml.startsWith("<!--", pos)) {
+      const end = xml.indexOf("-->", pos + 4);
+      if (end < 0) fail("unterminated comment");
+      pos = end + 3;
+    } else if (xml.startsWith("<?", pos)) {
+      const end = xml.indexOf("?>", pos + 2);
+      if (end < 0) fail("unterminated processing instruction");
+      pos = end + 2;
+    } else if (xml.startsWith("<!DOCTYPE", pos) || xml.startsWith("<!ENTITY", pos)) {
+      fail("DOCTYPE declarations are not allowed");
+    } else if (xml.startsWith("<![CDATA[", pos)) {
+      const end = xml.indexOf("]]>", pos + 9);
+      if (end < 0) fail("unterminated CDATA section");
+      if (stack.length === 0) fail("CDATA outside the root element");
+      appendText(stack[stack.length - 1], xml.slice(pos + 9, end));
+      pos = end + 3;
+    } else if (xml.startsWith("</", pos)) {
+      pos += 2;
+      const name = readName();
+      skipSpace();
+      if (xml[pos] !== ">") fail("expected >");
+      pos++;
+      const open = stack.pop();
+      if (!open || open.name !== name) fail(`unexpected closing tag </${name}>`);
+    } else if (xml[pos] === "<") {
+      pos++;
+      if (root && stack.length === 0) fail("content after the root element");
+
+      const element: XmlElement = {
+        type: "element",
+        name: readName(),
+        prefix: null,
+        localName: "",
+        namespaceURI: null,
+        attributes: [],
+        namespaces: new Map(),
+        children: [],
+        parent: stack[stack.length - 1] ?? null,
+      };
+
+      const rawAttributes: { name: string; value: string }[] = [];
+      for (;;) {
+        const before = pos;
+        skipSpace();
+        if (xml[pos] === ">" || xml.startsWith("/>", pos)) break;
+        if (pos === before) fail("expected whitespace before an attribute");
+
+        const name = readName();
+        skipSpace();
+        if (xml[pos] !== "=") fail("expected =");
+        pos++;
+        skipSpace();
+        const quote = xml[pos];
+        if (quote !== '"' && quote !== "'") fail("expected a quoted attribute value");
+        const end = xml.indexOf(quote, pos + 1);
+        if (end < 0) fail("unterminated attribute value");
+        const raw = xml.slice(pos + 1, end);
+        if (raw.includes("<")) fail("< in attribute value");
+        pos = end + 1;
+
+        if (rawAttributes.some((a) => a.name === name)) fail(`duplicate attribute ${name}`);
+        /* Attribute-value normalization (§3.3.3) — literal whitespace becomes a space */
+        const value = decodeEntities(raw.replace(/[\t\n]/g, " "), fail);
+
+        if (name === "xmlns") element.namespaces.set("", value);
+        else if (name.startsWith("xmlns:")) element.namespaces.set(name.slice(6), value);
+        else rawAttributes.push({ name, value });
+      }
+
+      resolveName(element, fail);
+      for (const { name, value } of rawAttributes) {
+        const [prefix, localName] = splitName(name);
+        const namespaceURI = prefix ? lookupNamespace(element, prefix) : null;
+        if (prefix && namespaceURI === null) fail(`undeclared prefix ${prefix}`);
+        element.attributes.push({ name, prefix, localName, namespaceURI, value });
+      }
+
+      if (element.parent) element.parent.children.push(element);
+      else root = element;
+
+      if (xml.startsWith("/>", pos)) {
+        pos += 2;
+      } else {
+        pos++;
+        stack.push(element);
+      }
+    } else {
+      const end = xml.indexOf("<", pos);
+      const raw = xml.slice(pos, end < 0 ? xml.length : end);
+      if (stack.length > 0) {
+        appendText(stack[stack.length - 1], decodeEntities(raw, fail));
+      } else if (raw.trim()) {
+        fail("text outside the root element");
+      }
+      pos += raw.length;
+    }
+  }
+
+  if (stack.length > 0) fail(`unclosed element <${stack[stack.length - 1].name}>`);
+  if (!root) fail("no root element");
+  return root!;
+}
+
+function appendText(parent: XmlElement, value: string): void {
+  const last = parent.children[parent.children.length - 1];
+  if (last?.type === "text") last.value += value;
+  else parent.children.push({ type: "text", value });
+}
+
+function decodeEntities(raw: string, fail: (message: string) => never): string {
+  return raw.replace(/&([^;&\s]*);?/g, (match, ref: string) => {
+    if (!match.endsWith(";")) fail("unterminated entity reference");
+    if (ref.startsWith("#x")) return String.fromCodePoint(parseInt(ref.slice(2), 16));
+    if (ref.startsWith("#")) return String.fromCodePoint(parseInt(ref.slice(1), 10));
+    const value = PREDEFINED_ENTITIES[ref];
+    if (value === undefined) fail(`unknown entity &${ref};`);
+    return value!;
+  });
+}
+
+function splitName(name: string): [string | null, string] {
+  const colon = name.indexOf(":");
+  return colon < 0 ? [null, name] : [name.slice(0, colon), name.slice(colon + 1)];
+}
+
+function resolveName(element: XmlElement, fail: (message: string) => never): void {
+  const [prefix, localName] = splitName(element.name);
+  element.prefix = prefix;
+  element.localName = localName;
+  element.namespaceURI = lookupNamespace(element, prefix ?? "");
+  if (prefix && element.namespaceURI === null) fail(`undeclared prefix ${prefix}`);
+}
+
+/** The namespace a prefix ("" for the default namespace) maps to at an element */
+export function lookupNamespace(element: XmlElement, prefix: string): string | null {
+  if (prefix === "xml") return XML_NAMESPACE;
+  for (let el: XmlElement | null = element; el; el = el.parent) {
+    const uri = el.namespaces.get(prefix);
+    if (uri !== undefined) return uri || null;
+  }
+  return null;
+}
+
+/* ── Queries ────────────────────────────────────────────────── */
+
+export function getAttribute(element: XmlElement, name: string): string | null {
+  return element.attributes.find((a) => a.name === name)?.value ?? null;
+}
+
+/** Direct child elements, optionally filtered by namespace and local name */
+export function childElements(element: XmlElement, ns?: string, localName?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      child.type === "element" &&
+      (ns === undefined || child.namespaceURI === ns) &&
+      (localName === undefined || child.localName === localName),
+  );
+}
+
+export function firstChild(element: XmlElement, ns: string, localName: string): XmlElement | null {
+  return childElements(element, ns, localName)[0] ?? null;
+}
+
+/** All descendant elements (not the element itself) with a namespace and local name */
+export function descendants(element: XmlElement, ns: string, localName: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of childElements(element)) {
+    if (child.namespaceURI === ns && child.localName === localName) found.push(child);
+    found.push(...descendants(child, ns, localName));
+  }
+  return found;
+}
+
+/** Concatenated text of an element and its descendants */
+export function textContent(element: XmlElement): string {
+  return element.children
+    .map((child) => (child.type === "text" ? child.value : textContent(child)))
+    .join("");
+}
+
+/* ── Exclusive canonicalization ─────────────────────────────── */
+
+export interface CanonicalizeOptions {
+  /** A descendant left out of the output — the enveloped signature */
+  exclude?: XmlElement;
+  /** InclusiveNamespaces PrefixList — "#default" is the default namespace */
+  inclusivePrefixes?: string[];
+}
+
+/**
+ * Exclusive XML Canonicalization 1.0 (omitting comments) of the
+ * subtree rooted at `element`. Namespace declarations are rendered
+ * where a prefix is visibly used — by the element or its attributes —
+ * and not already rendered with the same value by an output ancestor.
+ */
+export function canonicalize(element: XmlElement, options: CanonicalizeOptions = {}): string {
+  const inclusive = (options.inclusivePrefixes ?? []).map((p) => (p === "#default" ? "" : p));
+  return renderElement(element, new Map(), inclusive, options.exclude);
+}
+
+function renderElement(
+  element: XmlElement,
+  rendered: Map<string, string>,
+  inclusive: string[],
+  exclude: XmlElement | undefined,
+): string {
+  const candidates = new Set<string>([element.prefix ?? ""]);
+  for (const attr of element.attributes) {
+    if (attr.prefix) candidates.add(attr.prefix);
+  }
+  for (const prefix of inclusive) {
+    if (lookupNamespace(element, prefix) !== null) candidates.add(prefix);
+  }
+  candidates.delete("xml");
+
+  const declarations: [string, string][] = [];
+  const inScope = new Map(rendered);
+  for (const prefix of candidates) {
+    const uri = lookupNamespace(element, prefix) ?? "";
+    /* Covers xmlns="" too: it is only rendered to undo a rendered default namespace */
+    if ((rendered.get(prefix) ?? "") === uri) continue;
+    declarations.push([prefix, uri]);
+    inScope.set(prefix, uri);
+  }
+  declarations.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const attributes = [...element.attributes].sort((a, b) => {
+    const nsA = a.namespaceURI ?? "";
+    const nsB = b.namespaceURI ?? "";
+    if (nsA !== nsB) return nsA < nsB ? -1 : 1;
+    return a.localName < b.localName ? -1 : a.localName > b.localName ? 1 : 0;
+  });
+
+  let out = `<${element.name}`;
+  for (const [prefix, uri] of declarations) {
+    out += prefix ? ` xmlns:${prefix}="${escapeAttribute(uri)}"` : ` xmlns="${escapeAttribute(uri)}"`;
+  }
+  for (const attr of attributes) {
+    out += ` ${attr.name}="${escapeAttribute(attr.value)}"`;
+  }
+  out += ">";
+
+  for (const child of element.children) {
+    if (child.type === "text") out += escapeText(child.value);
+    else if (child !== exclude) out += renderElement(child, inScope, inclusive, exclude);
+  }
+
+  return `${out}</${element.name}>`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r/g, "&#xD;");
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\t/g, "&#x9;")
+    .replace(/\n/g, "&#xA;")
+    .replace(/\r/g, "&#xD;");
+}
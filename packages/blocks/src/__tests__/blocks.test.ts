@@ -42,7 +42,7 @@ import {
 function makeBlock(
   type: string,
   logic: Record<string, unknown> = {},
-  conditions?: { left: string; operator: string; right: string }[],
+  conditions?: Record<string, unknown>[],
 ): Block {
   return {
     id: "test-block-1",
@@ -61,17 +61,17 @@ function makeBlock(
    ══════════════════════════════════════════════════════════ */
 
 describe("SCHEMA_MAP", () => {
-  it("contains all 21 block types", () => {
+  it("contains all 26 block types", () => {
     const expectedTypes = [
       "object", "string", "array", "math", "date", "normalize",
-      "fetch", "agent", "goto", "sleep", "location", "code",
+      "fetch", "agent", "goto", "loop", "break", "continue", "switch", "sleep", "location", "code", "workflow",
       "ui_camera", "ui_form", "ui_table", "ui_details",
       "image", "filesystem", "ftp", "video", "validation",
     ];
     for (const t of expectedTypes) {
       expect(SCHEMA_MAP[t]).toBeDefined();
     }
-    expect(Object.keys(SCHEMA_MAP)).toHaveLength(21);
+    expect(Object.keys(SCHEMA_MAP)).toHaveLength(26);
   });
 
   it("every schema has required, optional, and commonMistakes", () => {
@@ -115,6 +115,12 @@ describe("individual schemas", () => {
     expect(FETCH_SCHEMA.optional.fetch_method.default).toBe("GET");
   });
 
+  it("LOOP_SCHEMA requires loop_body_end and defaults to for_each", () => {
+    expect(SCHEMA_MAP.loop.required).toContain("loop_body_end");
+    expect(SCHEMA_MAP.loop.optional.loop_mode.enum).toEqual(["for_each", "while"]);
+    expect(SCHEMA_MAP.loop.optional.loop_mode.default).toBe("for_each");
+  });
+
   it("CODE_SCHEMA requires code_source", () => {
     expect(CODE_SCHEMA.required).toContain("code_source");
   });
@@ -135,6 +141,18 @@ describe("individual schemas", () => {
     expect(GOTO_SCHEMA.required).toContain("goto_target_block_id");
   });
 
+  it("WORKFLOW_SCHEMA requires workflow_id and defaults to the active version", () => {
+    expect(SCHEMA_MAP.workflow.required).toEqual(["workflow_id"]);
+    expect(SCHEMA_MAP.workflow.optional.workflow_version.default).toBeNull();
+    expect(SCHEMA_MAP.workflow.commonMistakes.inputs).toBe("workflow_input");
+  });
+
+  it("SWITCH_SCHEMA requires switch_cases with an optional default", () => {
+    expect(SCHEMA_MAP.switch.required).toEqual(["switch_cases"]);
+    expect(SCHEMA_MAP.switch.optional.switch_default.default).toBeNull();
+    expect(SCHEMA_MAP.switch.commonMistakes.else).toBe("switch_default");
+  });
+
   it("SLEEP_SCHEMA requires sleep_duration_ms", () => {
     expect(SLEEP_SCHEMA.required).toContain("sleep_duration_ms");
   });
@@ -586,6 +604,31 @@ describe("validateBlock", () => {
       );
       expect(unknownWarning).toBeUndefined();
     });
+
+    it("retry and timeout policy fields are known on every block", () => {
+      const block = makeBlock("ftp", {
+        ftp_operation: "upload",
+        ftp_host: "ftp.example.com",
+        on_error: "retry",
+        retry_max: 2,
+        retry_backoff_ms: 500,
+        timeout_ms: 10_000,
+      });
+
+      const result = validateBlock(block);
+      expect(result.errors).toHaveLength(0);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it("invalid on_error → error", () => {
+      const block = makeBlock("fetch", {
+        fetch_url: "https://example.com",
+        on_error: "ignore",
+      });
+
+      const result = validateBlock(block);
+      expect(result.errors).toContainEqual(expect.stringContaining('"on_error"'));
+    });
   });
 
   /* ── Conditions validation ───────────────────────────── */
@@ -633,6 +676,75 @@ describe("validateBlock", () => {
         expect(opError).toBeUndefined();
       }
     });
+
+    it("validates conditions nested in any / all / not groups", () => {
+      const block = makeBlock(
+        "fetch",
+        { fetch_url: "https://example.com" },
+        [
+          { any: [{ left: "$state.a", operator: "==", right: "1" }, { not: { left: "$state.b", operator: "LIKE", right: "x" } }] },
+          { all: [] },
+        ],
+      );
+
+      const result = validateBlock(block);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatch(/^Condition\[0\]\.any\[1\]\.not: invalid operator "LIKE"/);
+    });
+
+    it("checks each switch case's target and conditions", () => {
+      const block = makeBlock("switch", {
+        switch_cases: [
+          { conditions: [{ left: "$state.tier", operator: "==", right: "gold" }], target: "Gold" },
+          { conditions: [{ left: "$state.tier", operator: "~", right: "x" }] },
+        ],
+        switch_default: "Standard",
+      });
+
+      const result = validateBlock(block);
+      expect(result.errors).toEqual([
+        'switch_cases[1]: missing "target" block name',
+        expect.stringContaining('switch_cases[1].conditions[0]: invalid operator "~"'),
+      ]);
+    });
+  });
+
+  /* ── Expressions ─────────────────────────────────────── */
+
+  describe("expression validation", () => {
+    it("accepts well-formed expressions, paths and plain text", () => {
+      const block = makeBlock("object", {
+        object_operation: "set",
+        object_value: {
+          total: "$state.price * $state.qty",
+          label: "=len($state.items) > 0 ? 'some' : 'none'",
+          greeting: "Hi {{ upper($state.name) }} from {{$state.city}}",
+          operator: "==",
+        },
+      }, [{ left: "=lower($state.tier)", operator: "==", right: "gold" }]);
+
+      expect(validateBlock(block).errors).toEqual([]);
+    });
+
+    it("warns about values that do not parse, with the field path", () => {
+      const block = makeBlock("object", {
+        object_operation: "set",
+        object_value: { total: "$state.price *", items: ["{{ shout($state.name) }}"] },
+      }, [{ left: "=len($state.items", operator: ">", right: "0" }]);
+
+      const result = validateBlock(block);
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([
+        'object_value.total: "$state.price *" is not a valid expression and is used as written — Unexpected end of expression',
+        'object_value.items[0]: "shout($state.name)" is not a valid expression and is used as written — Unknown function "shout"',
+        'Condition[0].left: "len($state.items" is not a valid expression and is used as written — Expected ")" before end of expression',
+      ]);
+    });
+
+    it("does not parse code block source", () => {
+      const block = makeBlock("code", { code_source: "return `{{ not an expression }}`;" });
+      expect(validateBlock(block).errors).toEqual([]);
+    });
   });
 
   /* ── Unknown block type ──────────────────────────────── */
@@ -654,9 +766,9 @@ describe("validateBlock", () => {
    ══════════════════════════════════════════════════════════ */
 
 describe("getBlockDefaults", () => {
-  it("returns defaults for all 21 block types without throwing", () => {
+  it("returns defaults for all 26 block types without throwing", () => {
     const types = getSchemaBlockTypes();
-    expect(types).toHaveLength(21);
+    expect(types).toHaveLength(26);
 
     for (const t of types) {
       const defaults = getBlockDefaults(t as Block["type"]);
@@ -738,8 +850,8 @@ describe("getBlockDefaults", () => {
    ══════════════════════════════════════════════════════════ */
 
 describe("BLOCK_REGISTRY", () => {
-  it("has entries for all 21 block types", () => {
-    expect(BLOCK_REGISTRY.size).toBe(21);
+  it("has entries for all 26 block types", () => {
+    expect(BLOCK_REGISTRY.size).toBe(26);
   });
 
   it("every entry has required metadata fields", () => {
@@ -810,7 +922,7 @@ describe("BLOCK_REGISTRY", () => {
 
   it("getAllBlockTypes returns all entries", () => {
     const all = getAllBlockTypes();
-    expect(all).toHaveLength(21);
+    expect(all).toHaveLength(26);
   });
 
   it("registry schema matches SCHEMA_MAP", () => {
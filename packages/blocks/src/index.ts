@@ -2,6 +2,7 @@
 export type { BlockSchema, FieldDef } from "./schemas/types.js";
 export {
   SCHEMA_MAP,
+  COMMON_FIELDS,
   /* Data */
   OBJECT_SCHEMA,
   STRING_SCHEMA,
@@ -13,9 +14,14 @@ export {
   FETCH_SCHEMA,
   AGENT_SCHEMA,
   GOTO_SCHEMA,
+  LOOP_SCHEMA,
+  BREAK_SCHEMA,
+  CONTINUE_SCHEMA,
+  SWITCH_SCHEMA,
   SLEEP_SCHEMA,
   LOCATION_SCHEMA,
   CODE_SCHEMA,
+  WORKFLOW_SCHEMA,
   /* UI */
   UI_CAMERA_SCHEMA,
   UI_FORM_SCHEMA,
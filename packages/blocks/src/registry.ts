@@ -103,6 +103,42 @@ const ENTRIES: readonly BlockRegistryEntry[] = [
     platforms: ALL,
     schema: SCHEMA_MAP.goto,
   },
+  {
+    type: "loop",
+    name: "Loop",
+    description: "Repeat a range of blocks for each item or while conditions hold",
+    icon: "repeat",
+    category: "flow",
+    platforms: ALL,
+    schema: SCHEMA_MAP.loop,
+  },
+  {
+    type: "break",
+    name: "Break",
+    description: "Exit the enclosing loop",
+    icon: "square-x",
+    category: "flow",
+    platforms: ALL,
+    schema: SCHEMA_MAP.break,
+  },
+  {
+    type: "continue",
+    name: "Continue",
+    description: "Skip to the next iteration of the enclosing loop",
+    icon: "skip-forward",
+    category: "flow",
+    platforms: ALL,
+    schema: SCHEMA_MAP.continue,
+  },
+  {
+    type: "switch",
+    name: "Switch",
+    description: "Jump to the first branch whose conditions match, or a default",
+    icon: "split",
+    category: "flow",
+    platforms: ALL,
+    schema: SCHEMA_MAP.switch,
+  },
   {
     type: "sleep",
     name: "Sleep",
@@ -121,6 +157,15 @@ const ENTRIES: readonly BlockRegistryEntry[] = [
     platforms: ALL,
     schema: SCHEMA_MAP.code,
   },
+  {
+    type: "workflow",
+    name: "Workflow",
+    description: "Call another workflow with mapped inputs and bind its output",
+    icon: "workflow",
+    category: "flow",
+    platforms: SERVER_ONLY,
+    schema: SCHEMA_MAP.workflow,
+  },
   {
     type: "validation",
     name: "Validation",
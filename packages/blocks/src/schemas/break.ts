@@ -0,0 +1,7 @@
+import type { BlockSchema } from "./types.js";
+
+export const BREAK_SCHEMA: BlockSchema = {
+  required: [],
+  optional: {},
+  commonMistakes: {},
+} as const;
@@ -0,0 +1,13 @@
+import type { FieldDef } from "./types.js";
+
+/**
+ * Fields every block accepts regardless of type — the error
+ * handling, retry, and timeout policy applied by the engine's
+ * BlockExecutor around each block.
+ */
+export const COMMON_FIELDS: Readonly<Record<string, FieldDef>> = {
+  on_error: { default: "abort", enum: ["abort", "continue", "retry"] },
+  retry_max: { default: 3 },
+  retry_backoff_ms: { default: 1000 },
+  timeout_ms: { default: null },
+} as const;
@@ -6,6 +6,8 @@ export const GOTO_SCHEMA: BlockSchema = {
     goto_defer: { default: false },
     goto_max_concurrent: { default: 10 },
     goto_loop_name: { default: null },
+    goto_merge: { default: "last_writer", enum: ["last_writer", "conflict_error", "keyed"] },
+    goto_merge_key: { default: null },
   },
   commonMistakes: {
     target: "goto_target_block_id",
@@ -14,5 +16,8 @@ export const GOTO_SCHEMA: BlockSchema = {
     defer: "goto_defer",
     max_concurrent: "goto_max_concurrent",
     loop_name: "goto_loop_name",
+    merge: "goto_merge",
+    merge_policy: "goto_merge",
+    merge_key: "goto_merge_key",
   },
 } as const;
@@ -5,6 +5,7 @@
  * and a commonMistakes map for typo detection.
  */
 export type { BlockSchema, FieldDef } from "./types.js";
+export { COMMON_FIELDS } from "./common.js";
 
 /* ── Data block schemas ────────────────────────────────── */
 export { OBJECT_SCHEMA } from "./object.js";
@@ -18,9 +19,14 @@ export { NORMALIZE_SCHEMA } from "./normalize.js";
 export { FETCH_SCHEMA } from "./fetch.js";
 export { AGENT_SCHEMA } from "./agent.js";
 export { GOTO_SCHEMA } from "./goto.js";
+export { LOOP_SCHEMA } from "./loop.js";
+export { BREAK_SCHEMA } from "./break.js";
+export { CONTINUE_SCHEMA } from "./continue.js";
+export { SWITCH_SCHEMA } from "./switch.js";
 export { SLEEP_SCHEMA } from "./sleep.js";
 export { LOCATION_SCHEMA } from "./location.js";
 export { CODE_SCHEMA } from "./code.js";
+export { WORKFLOW_SCHEMA } from "./workflow.js";
 
 /* ── UI block schemas ──────────────────────────────────── */
 export { UI_CAMERA_SCHEMA } from "./ui-camera.js";
@@ -46,9 +52,14 @@ import { NORMALIZE_SCHEMA } from "./normalize.js";
 import { FETCH_SCHEMA } from "./fetch.js";
 import { AGENT_SCHEMA } from "./agent.js";
 import { GOTO_SCHEMA } from "./goto.js";
+import { LOOP_SCHEMA } from "./loop.js";
+import { BREAK_SCHEMA } from "./break.js";
+import { CONTINUE_SCHEMA } from "./continue.js";
+import { SWITCH_SCHEMA } from "./switch.js";
 import { SLEEP_SCHEMA } from "./sleep.js";
 import { LOCATION_SCHEMA } from "./location.js";
 import { CODE_SCHEMA } from "./code.js";
+import { WORKFLOW_SCHEMA } from "./workflow.js";
 import { UI_CAMERA_SCHEMA } from "./ui-camera.js";
 import { UI_FORM_SCHEMA } from "./ui-form.js";
 import { UI_TABLE_SCHEMA } from "./ui-table.js";
@@ -73,9 +84,14 @@ export const SCHEMA_MAP: Record<string, BlockSchema> = {
   fetch: FETCH_SCHEMA,
   agent: AGENT_SCHEMA,
   goto: GOTO_SCHEMA,
+  loop: LOOP_SCHEMA,
+  break: BREAK_SCHEMA,
+  continue: CONTINUE_SCHEMA,
+  switch: SWITCH_SCHEMA,
   sleep: SLEEP_SCHEMA,
   location: LOCATION_SCHEMA,
   code: CODE_SCHEMA,
+  workflow: WORKFLOW_SCHEMA,
   ui_camera: UI_CAMERA_SCHEMA,
   ui_form: UI_FORM_SCHEMA,
   ui_table: UI_TABLE_SCHEMA,
@@ -0,0 +1,24 @@
+import type { BlockSchema } from "./types.js";
+
+export const LOOP_SCHEMA: BlockSchema = {
+  required: ["loop_body_end"],
+  optional: {
+    loop_mode: { default: "for_each", enum: ["for_each", "while"] },
+    loop_over: { default: null },
+    loop_conditions: { default: [] },
+    loop_max_iterations: { default: null },
+  },
+  commonMistakes: {
+    body_end: "loop_body_end",
+    end: "loop_body_end",
+    until_block: "loop_body_end",
+    mode: "loop_mode",
+    over: "loop_over",
+    items: "loop_over",
+    each: "loop_over",
+    while: "loop_conditions",
+    conditions_while: "loop_conditions",
+    max_iterations: "loop_max_iterations",
+    limit: "loop_max_iterations",
+  },
+} as const;
@@ -0,0 +1,17 @@
+import type { BlockSchema } from "./types.js";
+
+export const SWITCH_SCHEMA: BlockSchema = {
+  required: ["switch_cases"],
+  optional: {
+    switch_default: { default: null },
+  },
+  commonMistakes: {
+    cases: "switch_cases",
+    branches: "switch_cases",
+    switch_branches: "switch_cases",
+    default: "switch_default",
+    else: "switch_default",
+    otherwise: "switch_default",
+    switch_else: "switch_default",
+  },
+} as const;
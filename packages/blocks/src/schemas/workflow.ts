@@ -0,0 +1,23 @@
+import type { BlockSchema } from "./types.js";
+
+export const WORKFLOW_SCHEMA: BlockSchema = {
+  required: ["workflow_id"],
+  optional: {
+    workflow_version: { default: null },
+    workflow_input: { default: {} },
+    workflow_output_map: { default: {} },
+    workflow_bind_value: { default: null },
+  },
+  commonMistakes: {
+    id: "workflow_id",
+    workflow: "workflow_id",
+    target: "workflow_id",
+    version: "workflow_version",
+    input: "workflow_input",
+    inputs: "workflow_input",
+    params: "workflow_input",
+    outputs: "workflow_output_map",
+    output_map: "workflow_output_map",
+    bind_value: "workflow_bind_value",
+  },
+} as const;
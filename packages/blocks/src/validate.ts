@@ -1,6 +1,7 @@
-import type { Block, ConditionOperator } from "@vsync/shared-types";
+import type { Block, ConditionOperator, ConditionNode } from "@vsync/shared-types";
+import { expressionSources, isPlainPath, parseExpression } from "@vsync/shared-types";
 import type { BlockSchema } from "./schemas/types.js";
-import { SCHEMA_MAP } from "./schemas/index.js";
+import { SCHEMA_MAP, COMMON_FIELDS } from "./schemas/index.js";
 
 /* ── Result shape ──────────────────────────────────────── */
 
@@ -21,6 +22,10 @@ const VALID_OPERATORS: ReadonlySet<string> = new Set<ConditionOperator>([
   "in", "isEmpty", "isFalsy", "isNull", "regex",
 ]);
 
+/* ── Fields passed to their executor without resolution ── */
+
+const VERBATIM_FIELDS: ReadonlySet<string> = new Set(["code_source"]);
+
 /* ── Public API ────────────────────────────────────────── */
 
 /**
@@ -32,7 +37,9 @@ const VALID_OPERATORS: ReadonlySet<string> = new Set<ConditionOperator>([
  *  3. Enum fields contain valid values
  *  4. Common typos are flagged as suggestions
  *  5. Unknown fields trigger warnings
- *  6. Conditions syntax is validated
+ *  6. Conditions syntax is validated, including nested any/all/not groups
+ *  7. Switch cases each have a target and valid conditions
+ *  8. Expressions (`$…`, `=…` and `{{…}}`) that do not parse trigger warnings
  */
 export function validateBlock(block: Block): ValidationResult {
   const errors: string[] = [];
@@ -62,7 +69,21 @@ export function validateBlock(block: Block): ValidationResult {
 
   /* 6 — Conditions syntax */
   if (block.conditions) {
-    checkConditions(block.conditions, errors);
+    checkConditions(block.conditions, "Condition", errors);
+  }
+
+  /* 7 — Switch cases */
+  if (block.type === "switch") {
+    checkSwitchCases(logic.switch_cases, errors);
+  }
+
+  /* 8 — Expression syntax */
+  for (const [field, value] of Object.entries(logic)) {
+    if (VERBATIM_FIELDS.has(field)) continue;
+    checkExpressions(value, field, warnings);
+  }
+  if (block.conditions) {
+    checkExpressions(block.conditions, "Condition", warnings);
   }
 
   return { errors, warnings, suggestions };
@@ -88,7 +109,7 @@ function checkEnums(
   logic: Record<string, unknown>,
   errors: string[],
 ): void {
-  for (const [field, def] of Object.entries(schema.optional)) {
+  for (const [field, def] of [...Object.entries(schema.optional), ...Object.entries(COMMON_FIELDS)]) {
     if (!def.enum) continue;
 
     const value = logic[field];
@@ -129,6 +150,7 @@ function checkUnknown(
   const knownFields = new Set<string>([
     ...schema.required,
     ...Object.keys(schema.optional),
+    ...Object.keys(COMMON_FIELDS),
   ]);
 
   /* Also allow commonMistakes keys (they are flagged as suggestions, not warnings) */
@@ -144,28 +166,87 @@ function checkUnknown(
   }
 }
 
+/** `label` prefixes each error, e.g. "Condition[1].any[0]" for a nested condition */
 function checkConditions(
-  conditions: { left: string; operator: string; right: string }[],
+  conditions: ConditionNode[],
+  label: string,
   errors: string[],
 ): void {
+  if (!Array.isArray(conditions)) {
+    errors.push(`${label}: must be an array of conditions`);
+    return;
+  }
+
   for (let i = 0; i < conditions.length; i++) {
-    const cond = conditions[i];
+    checkCondition(conditions[i], `${label}[${i}]`, errors);
+  }
+}
 
-    if (!cond.left && cond.left !== "") {
-      errors.push(`Condition[${i}]: missing "left" operand`);
-    }
+function checkCondition(node: ConditionNode, label: string, errors: string[]): void {
+  if (!node || typeof node !== "object") {
+    errors.push(`${label}: must be a condition or a condition group`);
+    return;
+  }
 
-    if (!VALID_OPERATORS.has(cond.operator)) {
-      errors.push(
-        `Condition[${i}]: invalid operator "${cond.operator}". ` +
-        `Valid: ${[...VALID_OPERATORS].join(", ")}`,
-      );
+  /* Groups — recurse into their members */
+  if ("any" in node) return checkConditions(node.any, `${label}.any`, errors);
+  if ("all" in node) return checkConditions(node.all, `${label}.all`, errors);
+  if ("not" in node) return checkCondition(node.not, `${label}.not`, errors);
+
+  if (!node.left && node.left !== "") {
+    errors.push(`${label}: missing "left" operand`);
+  }
+
+  if (!VALID_OPERATORS.has(node.operator)) {
+    errors.push(
+      `${label}: invalid operator "${node.operator}". ` +
+      `Valid: ${[...VALID_OPERATORS].join(", ")}`,
+    );
+  }
+
+  /* Unary operators don't require a right operand */
+  const unary = new Set(["isEmpty", "isFalsy", "isNull"]);
+  if (!unary.has(node.operator) && node.right === undefined) {
+    errors.push(`${label}: missing "right" operand for operator "${node.operator}"`);
+  }
+}
+
+function checkSwitchCases(cases: unknown, errors: string[]): void {
+  /* A missing field is already reported by checkRequired */
+  if (cases === undefined || cases === null || cases === "") return;
+  if (!Array.isArray(cases)) {
+    errors.push(`"switch_cases" must be an array`);
+    return;
+  }
+
+  cases.forEach((branch: { target?: unknown; conditions?: unknown } | null, i) => {
+    if (!branch?.target || typeof branch.target !== "string") {
+      errors.push(`switch_cases[${i}]: missing "target" block name`);
     }
+    checkConditions((branch?.conditions ?? []) as ConditionNode[], `switch_cases[${i}].conditions`, errors);
+  });
+}
 
-    /* Unary operators don't require a right operand */
-    const unary = new Set(["isEmpty", "isFalsy", "isNull"]);
-    if (!unary.has(cond.operator) && cond.right === undefined) {
-      errors.push(`Condition[${i}]: missing "right" operand for operator "${cond.operator}"`);
+/**
+ * `label` is the path to the value, e.g. "object_value.greeting" or "Condition[0].left".
+ * The engine reads a value that does not parse as it was written, so these are warnings.
+ */
+function checkExpressions(value: unknown, label: string, warnings: string[]): void {
+  if (typeof value === "string") {
+    for (const source of expressionSources(value)) {
+      if (isPlainPath(source)) continue;
+      try {
+        parseExpression(source);
+      } catch (err) {
+        const detail = err instanceof Error ? err.message : String(err);
+        warnings.push(`${label}: "${source.trim()}" is not a valid expression and is used as written — ${detail}`);
+      }
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => checkExpressions(item, `${label}[${i}]`, warnings));
+  } else if (value !== null && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      checkExpressions(item, `${label}.${key}`, warnings);
     }
   }
 }
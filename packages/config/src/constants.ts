@@ -15,13 +15,90 @@ export const MAX_SLEEP_DURATION_MS = 300_000;
 /** HTTP timeout for fetch blocks — keeps workflows from stalling on slow APIs. */
 export const MAX_FETCH_TIMEOUT_MS = 60_000;
 
-/** Maximum parallel deferred iterations to prevent resource exhaustion. */
-// TODO: This value (10) is never enforced by the Interpreter — deferConcurrency defaults to 3 in Interpreter.ts. Reconcile.
+/**
+ * Hard ceiling on parallel deferred iterations per goto block.
+ * The engine clamps `deferConcurrency` (default 3) and each goto's
+ * `goto_max_concurrent` to this value (MAX_DEFER_CONCURRENCY there).
+ */
 export const MAX_CONCURRENT_DEFERRED = 10;
 
 /** Maximum goto-chain depth before the engine aborts to prevent infinite loops. */
 export const MAX_GOTO_DEPTH = 50;
 
+// ── Run queue ───────────────────────────────────────────────────────
+
+/** Default cap on runs executing at once across every API instance. */
+export const DEFAULT_RUN_CONCURRENCY = 20;
+
+/** Default cap on runs a single organization may execute at once. */
+export const DEFAULT_ORG_RUN_CONCURRENCY = 5;
+
+/** How often idle queue workers look for newly queued runs. */
+export const RUN_QUEUE_POLL_INTERVAL_MS = 1_000;
+
+/** A running run whose worker has not heartbeated for this long is treated as orphaned. */
+export const RUN_HEARTBEAT_STALE_MS = 60_000;
+
+// ── Scheduler ───────────────────────────────────────────────────────
+
+/** How often the scheduler checks for due schedule-triggered workflows. */
+export const SCHEDULE_POLL_INTERVAL_MS = 10_000;
+
+/** A fire time older than this when the scheduler reaches it counts as missed. */
+export const SCHEDULE_MISFIRE_GRACE_MS = 60_000;
+
+/** Most runs a single schedule enqueues when catching up on missed fire times. */
+export const SCHEDULE_MAX_CATCH_UP = 100;
+
+// ── Inbound hooks ───────────────────────────────────────────────────
+
+/** Default replay window for signed hook deliveries (5 minutes). */
+export const HOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** Largest hook request body accepted (1 MiB). */
+export const HOOK_MAX_BODY_BYTES = 1_048_576;
+
+/** How long a hook in "output" response mode waits for its run before answering 202. */
+export const HOOK_RESPONSE_TIMEOUT_MS = 30_000;
+
+// ── Synchronous runs ────────────────────────────────────────────────
+
+/** How long `POST /workflows/:id/trigger?wait=true` waits when no timeout is given. */
+export const RUN_WAIT_DEFAULT_TIMEOUT_MS = 30_000;
+
+/** Longest timeout a caller may ask a synchronous trigger to wait. */
+export const RUN_WAIT_MAX_TIMEOUT_MS = 120_000;
+
+// ── Key health ──────────────────────────────────────────────────────
+
+/** How often the key health sweep looks for expiring or stale keys (1 hour). */
+export const KEY_HEALTH_SWEEP_INTERVAL_MS = 3_600_000;
+
+/** Days before expiry or a rotation deadline a key is flagged, unless its policy says otherwise. */
+export const KEY_ROTATION_WARN_DAYS = 14;
+
+// ── OAuth connections ───────────────────────────────────────────────
+
+/** How long before its expiry an OAuth access token is refreshed ahead of use (2 minutes). */
+export const OAUTH_REFRESH_MARGIN_MS = 120_000;
+
+/** How long an OAuth authorization may take before its state is no longer accepted (10 minutes). */
+export const OAUTH_STATE_TTL_MS = 600_000;
+
+/** How long one instance may hold an OAuth connection's refresh before another may take it over (30 seconds). */
+export const OAUTH_REFRESH_LOCK_MS = 30_000;
+
+// ── SSO ─────────────────────────────────────────────────────────────
+
+/** How long an SSO login may take between the redirect to the IdP and its callback (10 minutes). */
+export const SSO_LOGIN_TTL_MS = 600_000;
+
+/** Clock skew tolerated when checking ID token and SAML assertion validity windows (2 minutes). */
+export const SSO_CLOCK_SKEW_MS = 120_000;
+
+/** How long OIDC discovery documents and signing keys are cached (1 hour). */
+export const SSO_METADATA_CACHE_MS = 3_600_000;
+
 // ── Pagination ──────────────────────────────────────────────────────
 
 /** Default page size when the client doesn't specify one. */
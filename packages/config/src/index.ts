@@ -14,6 +14,26 @@ export {
   MAX_FETCH_TIMEOUT_MS,
   MAX_CONCURRENT_DEFERRED,
   MAX_GOTO_DEPTH,
+  DEFAULT_RUN_CONCURRENCY,
+  DEFAULT_ORG_RUN_CONCURRENCY,
+  RUN_QUEUE_POLL_INTERVAL_MS,
+  RUN_HEARTBEAT_STALE_MS,
+  SCHEDULE_POLL_INTERVAL_MS,
+  SCHEDULE_MISFIRE_GRACE_MS,
+  SCHEDULE_MAX_CATCH_UP,
+  HOOK_SIGNATURE_TOLERANCE_SECONDS,
+  HOOK_MAX_BODY_BYTES,
+  HOOK_RESPONSE_TIMEOUT_MS,
+  RUN_WAIT_DEFAULT_TIMEOUT_MS,
+  RUN_WAIT_MAX_TIMEOUT_MS,
+  KEY_HEALTH_SWEEP_INTERVAL_MS,
+  KEY_ROTATION_WARN_DAYS,
+  OAUTH_REFRESH_MARGIN_MS,
+  OAUTH_STATE_TTL_MS,
+  OAUTH_REFRESH_LOCK_MS,
+  SSO_LOGIN_TTL_MS,
+  SSO_CLOCK_SKEW_MS,
+  SSO_METADATA_CACHE_MS,
   PAGINATION_DEFAULT_SIZE,
   PAGINATION_MAX_SIZE,
   type TierLimits,
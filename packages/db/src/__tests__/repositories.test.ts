@@ -76,6 +76,7 @@ beforeAll(async () => {
       public_access_mode TEXT DEFAULT 'view',
       public_branding JSONB,
       public_rate_limit JSONB,
+      hook_token TEXT UNIQUE,
       created_by UUID REFERENCES users(id),
       updated_by UUID,
       created_at TIMESTAMP DEFAULT now(),
@@ -90,6 +91,10 @@ beforeAll(async () => {
       status TEXT DEFAULT 'draft',
       trigger_type TEXT DEFAULT 'interactive',
       trigger_config JSONB,
+      output_keys JSONB,
+      input_schema JSONB,
+      output_schema JSONB,
+      groups JSONB DEFAULT '[]',
       execution_environments JSONB DEFAULT '["cloud"]',
       changelog TEXT,
       created_at TIMESTAMP DEFAULT now(),
@@ -98,6 +103,21 @@ beforeAll(async () => {
     )
   `);
 
+  await db.execute(sql`
+    CREATE TABLE workflow_schedules (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL UNIQUE REFERENCES workflows(id) ON DELETE CASCADE,
+      org_id UUID NOT NULL,
+      version INT NOT NULL,
+      cron TEXT NOT NULL,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      missed_policy TEXT NOT NULL DEFAULT 'skip',
+      next_fire_at TIMESTAMP,
+      last_fired_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now()
+    )
+  `);
   await db.execute(sql`
     CREATE TABLE blocks (
       id TEXT PRIMARY KEY,
@@ -123,12 +143,21 @@ beforeAll(async () => {
       status TEXT DEFAULT 'pending',
       trigger_type TEXT,
       trigger_source TEXT,
+      priority INT NOT NULL DEFAULT 0,
+      claimed_by TEXT,
+      heartbeat_at TIMESTAMP,
       started_at TIMESTAMP,
       completed_at TIMESTAMP,
       duration_ms INT,
       error_message TEXT,
       steps_json JSONB,
+      checkpoint JSONB,
+      output JSONB,
       metadata JSONB,
+      parent_run_id TEXT,
+      parent_block_id TEXT,
+      call_depth INT NOT NULL DEFAULT 0,
+      debug JSONB,
       created_at TIMESTAMP DEFAULT now()
     )
   `);
@@ -457,6 +486,30 @@ describe("RunRepository", () => {
     expect(list.length).toBeGreaterThanOrEqual(2);
   });
 
+  it("lists child runs started by a parent run", async () => {
+    const { org } = await seedUserAndOrg();
+    const wfRepo = new WorkflowRepository(db);
+    const wfId = `wf-run-child-${Date.now()}`;
+    await wfRepo.create({ id: wfId, orgId: org.id, name: "Child Target" });
+
+    const parent = await repo().create({ id: `run-parent-${Date.now()}`, workflowId: wfId, version: 1, orgId: org.id });
+    await repo().create({
+      id: `run-child-${Date.now()}`,
+      workflowId: wfId,
+      version: 1,
+      orgId: org.id,
+      parentRunId: parent.id,
+      parentBlockId: "call",
+      callDepth: 1,
+    });
+
+    const children = await repo().findChildren(parent.id);
+    expect(children).toHaveLength(1);
+    expect(children[0].parentBlockId).toBe("call");
+    expect(children[0].callDepth).toBe(1);
+    expect(parent.callDepth).toBe(0);
+  });
+
   it("counts runs by org", async () => {
     const { org } = await seedUserAndOrg();
     const wfRepo = new WorkflowRepository(db);
@@ -473,6 +526,109 @@ describe("RunRepository", () => {
     const count = await repo().countByOrg(org.id);
     expect(count).toBeGreaterThanOrEqual(1);
   });
+
+  /* ── Queue ─────────────────────────────────────────────── */
+
+  /** Seed queued runs for a fresh workflow, with nothing else pending or running */
+  async function seedQueue(runsToQueue: Array<{ id: string; orgId: string; priority?: number }>) {
+    await db.execute(sql`UPDATE runs SET status = 'cancelled' WHERE status IN ('pending', 'running')`);
+    const wfRepo = new WorkflowRepository(db);
+    const wfId = `wf-queue-${Date.now()}`;
+    await wfRepo.create({ id: wfId, orgId: runsToQueue[0].orgId, name: "Queue Target" });
+
+    const base = Date.now();
+    for (const [i, run] of runsToQueue.entries()) {
+      await repo().create({
+        id: run.id,
+        workflowId: wfId,
+        version: 1,
+        orgId: run.orgId,
+        priority: run.priority ?? 0,
+        createdAt: new Date(base + i),
+      });
+    }
+  }
+
+  it("claims queued runs by priority, then oldest first", async () => {
+    const { org } = await seedUserAndOrg();
+    await seedQueue([
+      { id: "q-old", orgId: org.id },
+      { id: "q-new", orgId: org.id },
+      { id: "q-urgent", orgId: org.id, priority: 5 },
+    ]);
+
+    const limits = { global: 10, perOrg: 10 };
+    const claimed = [];
+    for (let i = 0; i < 4; i++) {
+      claimed.push((await repo().claimNext("worker-a", limits))?.id);
+    }
+
+    expect(claimed).toEqual(["q-urgent", "q-old", "q-new", undefined]);
+
+    const run = await repo().findById("q-old");
+    expect(run?.status).toBe("running");
+    expect(run?.claimedBy).toBe("worker-a");
+    expect(run?.heartbeatAt).toBeInstanceOf(Date);
+  });
+
+  it("respects the global and per-org concurrency limits", async () => {
+    const { org } = await seedUserAndOrg();
+    const other = await new OrgRepository(db).create({
+      name: "Other Org",
+      slug: `other-org-${Date.now()}`,
+    });
+    await seedQueue([
+      { id: "lim-a1", orgId: org.id },
+      { id: "lim-a2", orgId: org.id },
+      { id: "lim-b1", orgId: other.id },
+      { id: "lim-b2", orgId: other.id },
+    ]);
+
+    /* The second run of the first org is skipped, not waited on */
+    expect((await repo().claimNext("w", { global: 3, perOrg: 1 }))?.id).toBe("lim-a1");
+    expect((await repo().claimNext("w", { global: 3, perOrg: 1 }))?.id).toBe("lim-b1");
+    expect(await repo().claimNext("w", { global: 3, perOrg: 1 })).toBeUndefined();
+
+    /* Raising the org limit leaves the global limit in charge */
+    expect((await repo().claimNext("w", { global: 3, perOrg: 5 }))?.id).toBe("lim-a2");
+    expect(await repo().claimNext("w", { global: 3, perOrg: 5 })).toBeUndefined();
+  });
+
+  it("finds runs whose worker stopped heartbeating and requeues them", async () => {
+    const { org } = await seedUserAndOrg();
+    await seedQueue([
+      { id: "hb-live", orgId: org.id },
+      { id: "hb-dead", orgId: org.id },
+    ]);
+    await repo().claimNext("w", { global: 10, perOrg: 10 });
+    await repo().claimNext("w", { global: 10, perOrg: 10 });
+    await db.execute(sql`UPDATE runs SET heartbeat_at = now() - interval '1 hour' WHERE id = 'hb-dead'`);
+    await repo().heartbeat(["hb-live"]);
+
+    const orphaned = await repo().findOrphaned(new Date(Date.now() - 60_000));
+    expect(orphaned.map((r) => r.id)).toEqual(["hb-dead"]);
+
+    const requeued = await repo().requeue("hb-dead");
+    expect(requeued?.status).toBe("pending");
+    expect(requeued?.claimedBy).toBeNull();
+
+    /* A second requeue is a no-op — the run is no longer running */
+    expect(await repo().requeue("hb-dead")).toBeUndefined();
+  });
+
+  it("only transitions a run from the expected statuses", async () => {
+    const { org } = await seedUserAndOrg();
+    await seedQueue([{ id: "tr-run", orgId: org.id }]);
+    await repo().claimNext("w", { global: 10, perOrg: 10 });
+    await repo().updateStatus("tr-run", "cancelled");
+
+    expect(await repo().transition("tr-run", ["running"], "completed")).toBeUndefined();
+    expect((await repo().findById("tr-run"))?.status).toBe("cancelled");
+    expect(await repo().findCancelled(["tr-run", "tr-missing"])).toEqual(["tr-run"]);
+
+    const row = await repo().transition("tr-run", ["running", "cancelled"], "cancelled", { durationMs: 5 });
+    expect(row?.durationMs).toBe(5);
+  });
 });
 
 /* ── ArtifactRepository ───────────────────────────────────────── */
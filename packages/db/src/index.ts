@@ -6,19 +6,26 @@ export {
   verifications,
   organizations,
   orgMembers,
+  ssoIdentities,
   workflows,
   workflowVersions,
+  workflowSchedules,
   blocks,
+  workflowTests,
   secrets,
   runs,
   artifacts,
   publicRuns,
   cache,
   devices,
+  orgDataKeys,
   keys,
+  keyReferences,
+  oauthConnections,
   keyAuditLog,
   chats,
   messages,
+  hookDeliveries,
 } from "./schema/index.js";
 
 /* Database client factories */
@@ -32,12 +39,19 @@ export {
 export {
   WorkflowRepository,
   RunRepository,
+  type RunClaimLimits,
   UserRepository,
   OrgRepository,
   ArtifactRepository,
   KeyRepository,
+  DataKeyRepository,
+  KeyReferenceRepository,
+  OAuthConnectionRepository,
   CacheRepository,
   PublicRunRepository,
+  ScheduleRepository,
+  HookDeliveryRepository,
+  WorkflowTestRepository,
 } from "./repositories/index.js";
 
 /* ── SQLite (desktop / offline) ──────────────────────────────────── */
@@ -14,6 +14,12 @@ export class ArtifactRepository {
     return row;
   }
 
+  /** Insert several artifact rows, skipping IDs that already exist. */
+  async createMany(data: (typeof artifacts.$inferInsert)[]) {
+    if (data.length === 0) return [];
+    return this.db.insert(artifacts).values(data).onConflictDoNothing().returning();
+  }
+
   /** List all artifacts produced by a run. */
   async findByRun(runId: string) {
     return this.db.query.artifacts.findMany({
@@ -0,0 +1,62 @@
+import { eq, and, ne } from "drizzle-orm";
+import { orgDataKeys } from "../schema/index.js";
+import type { Database } from "../client.js";
+
+/**
+ * Provides the per-org data keys used for envelope encryption.
+ * Rows hold the data key wrapped by a master key — never in plaintext.
+ */
+export class DataKeyRepository {
+  constructor(private readonly db: Database) {}
+
+  /** Retrieve a data key by primary key. */
+  async findById(id: string) {
+    return this.db.query.orgDataKeys.findFirst({
+      where: eq(orgDataKeys.id, id),
+    });
+  }
+
+  /** The data key new values in an org are encrypted with, if it has one yet. */
+  async findActive(orgId: string) {
+    return this.db.query.orgDataKeys.findFirst({
+      where: and(eq(orgDataKeys.orgId, orgId), eq(orgDataKeys.isActive, true)),
+    });
+  }
+
+  /**
+   * Store an org's active data key. Resolves with undefined if another
+   * writer created one first — the caller should read that one instead.
+   */
+  async createActive(data: Omit<typeof orgDataKeys.$inferInsert, "isActive">) {
+    const [row] = await this.db
+      .insert(orgDataKeys)
+      .values({ ...data, isActive: true })
+      .onConflictDoNothing()
+      .returning();
+    return row;
+  }
+
+  /** Data keys wrapped by any master key other than `masterKeyId`. */
+  async findWrappedWithout(masterKeyId: string) {
+    return this.db.query.orgDataKeys.findMany({
+      where: ne(orgDataKeys.masterKeyId, masterKeyId),
+    });
+  }
+
+  /**
+   * Replace a data key's wrapping. Only succeeds while the row is still
+   * wrapped by `fromMasterKeyId`, so concurrent re-wraps cannot clash.
+   */
+  async rewrap(
+    id: string,
+    fromMasterKeyId: string,
+    data: { wrappedKey: string; iv: string; masterKeyId: string },
+  ) {
+    const [row] = await this.db
+      .update(orgDataKeys)
+      .set({ ...data, rewrappedAt: new Date() })
+      .where(and(eq(orgDataKeys.id, id), eq(orgDataKeys.masterKeyId, fromMasterKeyId)))
+      .returning();
+    return row;
+  }
+}
@@ -0,0 +1,40 @@
+import { eq, desc } from "drizzle-orm";
+import { hookDeliveries } from "../schema/index.js";
+import type { Database } from "../client.js";
+
+/**
+ * Provides the delivery log for inbound workflow hooks.
+ */
+export class HookDeliveryRepository {
+  constructor(private readonly db: Database) {}
+
+  /** Record a delivery. */
+  async create(data: typeof hookDeliveries.$inferInsert) {
+    const [row] = await this.db.insert(hookDeliveries).values(data).returning();
+    return row;
+  }
+
+  /** Retrieve a single delivery by ID. */
+  async findById(id: string) {
+    return this.db.query.hookDeliveries.findFirst({
+      where: eq(hookDeliveries.id, id),
+    });
+  }
+
+  /** Record the response sent for a delivery. */
+  async updateResponse(id: string, responseStatus: number, error?: string) {
+    await this.db
+      .update(hookDeliveries)
+      .set({ responseStatus, ...(error ? { error } : {}) })
+      .where(eq(hookDeliveries.id, id));
+  }
+
+  /** List a workflow's deliveries, newest first. */
+  async findByWorkflow(workflowId: string, limit = 50) {
+    return this.db.query.hookDeliveries.findMany({
+      where: eq(hookDeliveries.workflowId, workflowId),
+      orderBy: desc(hookDeliveries.receivedAt),
+      limit,
+    });
+  }
+}
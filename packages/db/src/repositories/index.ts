@@ -1,8 +1,14 @@
 export { WorkflowRepository } from "./workflow-repository.js";
-export { RunRepository } from "./run-repository.js";
+export { RunRepository, type RunClaimLimits } from "./run-repository.js";
 export { UserRepository } from "./user-repository.js";
 export { OrgRepository } from "./org-repository.js";
 export { ArtifactRepository } from "./artifact-repository.js";
 export { KeyRepository } from "./key-repository.js";
+export { DataKeyRepository } from "./data-key-repository.js";
+export { KeyReferenceRepository } from "./key-reference-repository.js";
+export { OAuthConnectionRepository } from "./oauth-connection-repository.js";
 export { CacheRepository } from "./cache-repository.js";
 export { PublicRunRepository } from "./public-run-repository.js";
+export { ScheduleRepository } from "./schedule-repository.js";
+export { HookDeliveryRepository } from "./hook-delivery-repository.js";
+export { WorkflowTestRepository } from "./workflow-test-repository.js";
@@ -0,0 +1,105 @@
+import { eq, and, asc, sql, notExists } from "drizzle-orm";
+import { keyReferences, workflows, workflowVersions, blocks } from "../schema/index.js";
+import type { Database } from "../client.js";
+
+/**
+ * Maintains the reverse index of `$keys.<name>` references in
+ * workflow blocks, so a key's usages can be found without scanning
+ * every block.
+ */
+export class KeyReferenceRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * Replace the indexed references of one workflow version.
+   * Atomic — readers see either the old set or the new one.
+   */
+  async replaceForVersion(
+    orgId: string,
+    workflowId: string,
+    workflowVersion: number,
+    refs: { blockId: string; keyName: string }[],
+  ) {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(keyReferences)
+        .where(
+          and(
+            eq(keyReferences.workflowId, workflowId),
+            eq(keyReferences.workflowVersion, workflowVersion),
+          ),
+        );
+
+      if (refs.length > 0) {
+        await tx
+          .insert(keyReferences)
+          .values(refs.map((ref) => ({ ...ref, orgId, workflowId, workflowVersion })));
+      }
+    });
+  }
+
+  /** Drop the indexed references of a deleted workflow version. */
+  async deleteForVersion(workflowId: string, workflowVersion: number) {
+    await this.db
+      .delete(keyReferences)
+      .where(
+        and(
+          eq(keyReferences.workflowId, workflowId),
+          eq(keyReferences.workflowVersion, workflowVersion),
+        ),
+      );
+  }
+
+  /**
+   * Workflow versions with no indexed references — saved before the
+   * index existed, or referencing no key at all.
+   */
+  async findUnindexedVersions() {
+    return this.db
+      .select({ workflowId: workflowVersions.workflowId, version: workflowVersions.version })
+      .from(workflowVersions)
+      .where(
+        notExists(
+          this.db
+            .select({ id: keyReferences.id })
+            .from(keyReferences)
+            .where(
+              and(
+                eq(keyReferences.workflowId, workflowVersions.workflowId),
+                eq(keyReferences.workflowVersion, workflowVersions.version),
+              ),
+            ),
+        ),
+      );
+  }
+
+  /**
+   * Every indexed reference to a key name in an org, with the
+   * workflow, version and block it sits in. `isActive` marks the
+   * workflow's currently published version.
+   */
+  async findByKeyName(orgId: string, keyName: string) {
+    return this.db
+      .select({
+        workflowId: keyReferences.workflowId,
+        workflowName: workflows.name,
+        workflowVersion: keyReferences.workflowVersion,
+        versionStatus: workflowVersions.status,
+        isActive: sql<boolean>`${workflows.activeVersion} = ${keyReferences.workflowVersion}`,
+        blockId: keyReferences.blockId,
+        blockName: blocks.name,
+      })
+      .from(keyReferences)
+      .innerJoin(workflows, eq(workflows.id, keyReferences.workflowId))
+      .leftJoin(
+        workflowVersions,
+        and(
+          eq(workflowVersions.workflowId, keyReferences.workflowId),
+          eq(workflowVersions.version, keyReferences.workflowVersion),
+        ),
+      )
+      .leftJoin(blocks, eq(blocks.id, keyReferences.blockId))
+      .where(and(eq(keyReferences.orgId, orgId), eq(keyReferences.keyName, keyName)))
+      .orderBy(asc(workflows.name), asc(keyReferences.workflowVersion), asc(blocks.order));
+  }
+}
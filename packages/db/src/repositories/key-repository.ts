@@ -1,4 +1,4 @@
-import { eq, and, desc, isNull } from "drizzle-orm";
+import { eq, and, or, desc, isNull, isNotNull } from "drizzle-orm";
 import { keys, keyAuditLog } from "../schema/index.js";
 import type { Database } from "../client.js";
 
@@ -65,6 +65,45 @@ export class KeyRepository {
     });
   }
 
+  /** Workflow-scoped keys with this name, which shadow an org-wide key in their workflow. */
+  async findScopedByName(orgId: string, name: string) {
+    return this.db.query.keys.findMany({
+      where: and(
+        eq(keys.orgId, orgId),
+        eq(keys.name, name),
+        isNotNull(keys.workflowId),
+      ),
+    });
+  }
+
+  /**
+   * Keys written before envelope encryption — their value is encrypted
+   * with a master key directly rather than with their org's data key.
+   */
+  async findWithoutDataKey() {
+    return this.db.query.keys.findMany({
+      where: isNull(keys.dataKeyId),
+    });
+  }
+
+  /**
+   * Swap a key's ciphertext for one under a data key. Only succeeds
+   * while the row still holds the value encrypted under `fromIv`, so
+   * a rotation that lands in between is never overwritten.
+   */
+  async reencrypt(
+    id: string,
+    fromIv: string,
+    data: { encryptedValue: string; iv: string; dataKeyId: string },
+  ) {
+    const [row] = await this.db
+      .update(keys)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(keys.id, id), eq(keys.iv, fromIv)))
+      .returning();
+    return row;
+  }
+
   // TODO: Handle case where update returns empty array (no matching row) — currently returns undefined silently.
   /** Partial update of key metadata. */
   async update(id: string, data: Partial<typeof keys.$inferInsert>) {
@@ -76,6 +115,37 @@ export class KeyRepository {
     return row;
   }
 
+  /**
+   * Record a new key health status. Only succeeds while the row still
+   * holds `fromStatus`, so when several sweeps run at once each change
+   * is recorded once. A `flagged` audit entry is written alongside
+   * when `auditMeta` is given.
+   */
+  async setHealthStatus(
+    id: string,
+    fromStatus: string,
+    toStatus: string,
+    auditMeta?: Record<string, unknown>,
+  ) {
+    return this.db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(keys)
+        .set({ healthStatus: toStatus })
+        .where(and(eq(keys.id, id), eq(keys.healthStatus, fromStatus)))
+        .returning();
+
+      if (row && auditMeta) {
+        await tx.insert(keyAuditLog).values({
+          keyId: id,
+          action: "flagged",
+          metadata: auditMeta,
+        });
+      }
+
+      return row;
+    });
+  }
+
   /** Soft-revoke a key and log the event. */
   async revoke(id: string, performedBy?: string) {
     return this.db.transaction(async (tx) => {
@@ -125,7 +195,19 @@ export class KeyRepository {
     });
   }
 
+  /**
+   * Keys that have not been revoked, across every org or within one.
+   * Expired keys are included — the health sweep reports on them.
+   */
+  async findActiveKeys(orgId?: string) {
+    return this.db.query.keys.findMany({
+      where: and(
+        orgId ? eq(keys.orgId, orgId) : undefined,
+        or(isNull(keys.isRevoked), eq(keys.isRevoked, false)),
+      ),
+      orderBy: desc(keys.createdAt),
+    });
+  }
+
   // TODO: Add findByOrgAndName() for name-based lookups
-  // TODO: Add findActiveKeys() to filter out revoked keys
-  // TODO: Add findExpiredKeys() for rotation management
 }
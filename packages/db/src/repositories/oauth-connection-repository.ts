@@ -0,0 +1,88 @@
+import { eq, and, or, desc, isNull, lt } from "drizzle-orm";
+import { oauthConnections } from "../schema/index.js";
+import type { Database } from "../client.js";
+
+/**
+ * Provides storage for OAuth2 connections. Secrets arrive already
+ * encrypted — this repository never sees a plaintext token.
+ */
+export class OAuthConnectionRepository {
+  constructor(private readonly db: Database) {}
+
+  /** Insert a new connection. */
+  async create(data: typeof oauthConnections.$inferInsert) {
+    const [row] = await this.db.insert(oauthConnections).values(data).returning();
+    return row;
+  }
+
+  /** Retrieve a connection by primary key. */
+  async findById(id: string) {
+    return this.db.query.oauthConnections.findFirst({
+      where: eq(oauthConnections.id, id),
+    });
+  }
+
+  /** List all connections for an organization. */
+  async findByOrg(orgId: string) {
+    return this.db.query.oauthConnections.findMany({
+      where: eq(oauthConnections.orgId, orgId),
+      orderBy: desc(oauthConnections.createdAt),
+    });
+  }
+
+  /**
+   * Find the connection behind a key name — workflow-scoped when
+   * `workflowId` is given, org-wide otherwise.
+   */
+  async findByName(orgId: string, name: string, workflowId?: string) {
+    return this.db.query.oauthConnections.findFirst({
+      where: and(
+        eq(oauthConnections.orgId, orgId),
+        eq(oauthConnections.name, name),
+        workflowId
+          ? eq(oauthConnections.workflowId, workflowId)
+          : isNull(oauthConnections.workflowId),
+      ),
+    });
+  }
+
+  /**
+   * Claim the pending authorization with this state hash, clearing
+   * it so the same callback cannot be completed twice.
+   */
+  async consumeState(stateHash: string) {
+    const [row] = await this.db
+      .update(oauthConnections)
+      .set({ stateHash: null, updatedAt: new Date() })
+      .where(eq(oauthConnections.stateHash, stateHash))
+      .returning();
+    return row;
+  }
+
+  /**
+   * Take the connection's refresh lock until `until`, unless another
+   * instance holds one that has not expired by `now`. Returns the
+   * current row when the lock was taken, undefined otherwise.
+   */
+  async claimRefresh(id: string, now: Date, until: Date) {
+    const [row] = await this.db
+      .update(oauthConnections)
+      .set({ refreshLockedUntil: until, updatedAt: now })
+      .where(and(
+        eq(oauthConnections.id, id),
+        or(isNull(oauthConnections.refreshLockedUntil), lt(oauthConnections.refreshLockedUntil, now)),
+      ))
+      .returning();
+    return row;
+  }
+
+  /** Partial update of a connection. */
+  async update(id: string, data: Partial<typeof oauthConnections.$inferInsert>) {
+    const [row] = await this.db
+      .update(oauthConnections)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(oauthConnections.id, id))
+      .returning();
+    return row;
+  }
+}
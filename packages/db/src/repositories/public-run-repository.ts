@@ -46,6 +46,18 @@ export class PublicRunRepository {
     return row;
   }
 
+  /**
+   * Overwrite a public run's step list without touching its status.
+   * Used for incremental persistence while the run is still executing,
+   * so a concurrent cancellation is never overwritten.
+   */
+  async updateSteps(id: string, stepsJson: unknown) {
+    await this.db
+      .update(publicRuns)
+      .set({ stepsJson })
+      .where(eq(publicRuns.id, id));
+  }
+
   /**
    * Count runs from a specific IP hash within a time window.
    * Used by rate-limit middleware to enforce per-slug limits.
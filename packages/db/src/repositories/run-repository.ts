@@ -1,7 +1,22 @@
-import { eq, desc, and, count, sql } from "drizzle-orm";
+import { eq, desc, asc, and, or, count, sql, isNull, lt, inArray, notInArray } from "drizzle-orm";
 import { runs } from "../schema/index.js";
 import type { Database } from "../client.js";
 
+/**
+ * Advisory lock key serialising queue claims across API instances,
+ * so concurrency limits are checked against a consistent count.
+ */
+const RUN_QUEUE_LOCK = 731_902_001;
+
+/** Concurrency limits a worker respects when claiming queued runs */
+export interface RunClaimLimits {
+  /** Runs executing at once across every worker */
+  global: number;
+
+  /** Runs executing at once per organization */
+  perOrg: number;
+}
+
 /**
  * Provides CRUD and query operations for workflow runs.
  */
@@ -29,6 +44,14 @@ export class RunRepository {
     });
   }
 
+  /** List the runs started by a run's `workflow` blocks, in call order. */
+  async findChildren(parentRunId: string) {
+    return this.db.query.runs.findMany({
+      where: eq(runs.parentRunId, parentRunId),
+      orderBy: asc(runs.createdAt),
+    });
+  }
+
   /** Transition a run's status and optionally set timing fields. */
   async updateStatus(
     id: string,
@@ -43,6 +66,161 @@ export class RunRepository {
     return row;
   }
 
+  /**
+   * Transition a run's status only while it is still in one of `from`,
+   * so a concurrent transition — a cancel, possibly from another
+   * instance — is never overwritten. Returns undefined if it moved on.
+   */
+  async transition(
+    id: string,
+    from: string[],
+    status: string,
+    extra?: Partial<typeof runs.$inferInsert>,
+  ) {
+    const [row] = await this.db
+      .update(runs)
+      .set({ status, ...extra })
+      .where(and(eq(runs.id, id), inArray(runs.status, from)))
+      .returning();
+    return row;
+  }
+
+  /**
+   * Overwrite a run's step list without touching its status.
+   * Used for incremental persistence while the run is still executing,
+   * so a concurrent cancellation is never overwritten.
+   */
+  async updateSteps(id: string, stepsJson: unknown) {
+    await this.db
+      .update(runs)
+      .set({ stepsJson })
+      .where(eq(runs.id, id));
+  }
+
+  /**
+   * Store the run's latest checkpoint without touching its status.
+   * Written after each top-level block so a crashed run can resume.
+   */
+  async saveCheckpoint(id: string, checkpoint: unknown) {
+    await this.db
+      .update(runs)
+      .set({ checkpoint })
+      .where(eq(runs.id, id));
+  }
+
+  /** List every run in a given status, oldest first. */
+  async findByStatus(status: string) {
+    return this.db.query.runs.findMany({
+      where: eq(runs.status, status),
+      orderBy: runs.createdAt,
+    });
+  }
+
+  /**
+   * Claim the next queued run for a worker, or return undefined when
+   * nothing is queued or every candidate's limit is reached.
+   *
+   * Highest priority first, then oldest. The candidate row is locked
+   * with SKIP LOCKED and flipped to "running" in the same transaction,
+   * so two workers can never claim the same run.
+   */
+  async claimNext(workerId: string, limits: RunClaimLimits) {
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${RUN_QUEUE_LOCK})`);
+
+      const [running] = await tx
+        .select({ value: count() })
+        .from(runs)
+        .where(eq(runs.status, "running"));
+      if ((running?.value ?? 0) >= limits.global) return undefined;
+
+      /* Organizations already at their limit are skipped, not waited on */
+      const busyOrgs = await tx
+        .select({ orgId: runs.orgId })
+        .from(runs)
+        .where(eq(runs.status, "running"))
+        .groupBy(runs.orgId)
+        .having(sql`count(*) >= ${limits.perOrg}`);
+      const fullOrgIds = busyOrgs.flatMap((r) => (r.orgId ? [r.orgId] : []));
+
+      const [candidate] = await tx
+        .select({ id: runs.id })
+        .from(runs)
+        .where(and(
+          eq(runs.status, "pending"),
+          fullOrgIds.length > 0
+            ? or(isNull(runs.orgId), notInArray(runs.orgId, fullOrgIds))
+            : undefined,
+        ))
+        .orderBy(desc(runs.priority), asc(runs.createdAt))
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!candidate) return undefined;
+
+      const now = new Date();
+      const [claimed] = await tx
+        .update(runs)
+        .set({ status: "running", claimedBy: workerId, heartbeatAt: now, startedAt: now })
+        .where(eq(runs.id, candidate.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  /** Mark a run as executing on a worker outside the queue, e.g. a resumed pause. */
+  async claim(id: string, workerId: string) {
+    await this.db
+      .update(runs)
+      .set({ claimedBy: workerId, heartbeatAt: new Date() })
+      .where(eq(runs.id, id));
+  }
+
+  /** Refresh the liveness signal of the runs a worker is executing. */
+  async heartbeat(ids: string[]) {
+    if (ids.length === 0) return;
+    await this.db
+      .update(runs)
+      .set({ heartbeatAt: new Date() })
+      .where(and(inArray(runs.id, ids), eq(runs.status, "running")));
+  }
+
+  /** The IDs among `ids` whose run has been cancelled. */
+  async findCancelled(ids: string[]) {
+    if (ids.length === 0) return [];
+    const rows = await this.db
+      .select({ id: runs.id })
+      .from(runs)
+      .where(and(inArray(runs.id, ids), eq(runs.status, "cancelled")));
+    return rows.map((r) => r.id);
+  }
+
+  /**
+   * Running runs whose worker stopped heartbeating before `staleBefore`
+   * (or never did) — their process is presumed dead.
+   */
+  async findOrphaned(staleBefore: Date) {
+    return this.db.query.runs.findMany({
+      where: and(
+        eq(runs.status, "running"),
+        or(isNull(runs.heartbeatAt), lt(runs.heartbeatAt, staleBefore)),
+      ),
+      orderBy: runs.createdAt,
+    });
+  }
+
+  /**
+   * Put an orphaned run back in the queue. Only applies while it is
+   * still "running", so a concurrent cancel or completion wins.
+   */
+  async requeue(id: string) {
+    const [row] = await this.db
+      .update(runs)
+      .set({ status: "pending", claimedBy: null, heartbeatAt: null })
+      .where(and(eq(runs.id, id), eq(runs.status, "running")))
+      .returning();
+    return row;
+  }
+
   /** Get the N most recent runs across all workflows in an org. */
   async getRecent(orgId: string, limit = 20) {
     return this.db.query.runs.findMany({
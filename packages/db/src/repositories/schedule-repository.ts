@@ -0,0 +1,116 @@
+import { eq, and, asc, lte, notInArray, isNotNull, isNull, or } from "drizzle-orm";
+import { workflows, workflowVersions, workflowSchedules } from "../schema/index.js";
+import type { Database } from "../client.js";
+
+/**
+ * Provides scheduler state for schedule-triggered workflows.
+ */
+export class ScheduleRepository {
+  constructor(private readonly db: Database) {}
+
+  /** Retrieve the schedule for a workflow, if it has one. */
+  async findByWorkflow(workflowId: string) {
+    return this.db.query.workflowSchedules.findFirst({
+      where: eq(workflowSchedules.workflowId, workflowId),
+    });
+  }
+
+  /** List every schedule row. */
+  async findAll() {
+    return this.db.query.workflowSchedules.findMany();
+  }
+
+  /**
+   * Active published versions with a schedule trigger, on workflows
+   * that are not disabled — the set of schedules that should exist.
+   */
+  async findScheduledVersions() {
+    return this.db
+      .select({
+        workflowId: workflows.id,
+        orgId: workflows.orgId,
+        version: workflowVersions.version,
+        triggerConfig: workflowVersions.triggerConfig,
+      })
+      .from(workflows)
+      .innerJoin(
+        workflowVersions,
+        and(
+          eq(workflowVersions.workflowId, workflows.id),
+          eq(workflowVersions.version, workflows.activeVersion),
+        ),
+      )
+      .where(
+        and(
+          eq(workflowVersions.triggerType, "schedule"),
+          eq(workflowVersions.status, "published"),
+          or(eq(workflows.isDisabled, false), isNull(workflows.isDisabled)),
+        ),
+      );
+  }
+
+  /** Insert or replace the schedule for a workflow. */
+  async upsert(data: typeof workflowSchedules.$inferInsert) {
+    const { workflowId: _workflowId, id: _id, createdAt: _createdAt, ...changes } = data;
+    const [row] = await this.db
+      .insert(workflowSchedules)
+      .values(data)
+      .onConflictDoUpdate({
+        target: workflowSchedules.workflowId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  /** Remove schedules for every workflow not in `keepWorkflowIds`. */
+  async deleteExcept(keepWorkflowIds: string[]) {
+    return this.db
+      .delete(workflowSchedules)
+      .where(
+        keepWorkflowIds.length > 0
+          ? notInArray(workflowSchedules.workflowId, keepWorkflowIds)
+          : undefined,
+      )
+      .returning({ workflowId: workflowSchedules.workflowId });
+  }
+
+  /** Schedules whose next fire time has arrived, oldest first. */
+  async findDue(now: Date) {
+    return this.db.query.workflowSchedules.findMany({
+      where: and(
+        isNotNull(workflowSchedules.nextFireAt),
+        lte(workflowSchedules.nextFireAt, now),
+      ),
+      orderBy: asc(workflowSchedules.nextFireAt),
+    });
+  }
+
+  /**
+   * Move a schedule past a fire time, but only if its `nextFireAt` is
+   * still `expected`. Returns the updated row, or undefined when another
+   * instance already claimed this fire time.
+   */
+  async advance(
+    workflowId: string,
+    expected: Date,
+    nextFireAt: Date | null,
+    lastFiredAt: Date | null,
+  ) {
+    const [row] = await this.db
+      .update(workflowSchedules)
+      .set({
+        nextFireAt,
+        ...(lastFiredAt ? { lastFiredAt } : {}),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(workflowSchedules.workflowId, workflowId),
+          eq(workflowSchedules.nextFireAt, expected),
+        ),
+      )
+      .returning();
+    return row;
+  }
+}
@@ -43,6 +43,18 @@ export class SqliteRunRepository {
     return row;
   }
 
+  /**
+   * Overwrite a run's step list without touching its status.
+   * Used for incremental persistence while the run is still executing,
+   * so a concurrent cancellation is never overwritten.
+   */
+  async updateSteps(id: string, stepsJson: unknown) {
+    await this.db
+      .update(sqliteRuns)
+      .set({ stepsJson })
+      .where(eq(sqliteRuns.id, id));
+  }
+
   /** Get the N most recent runs across all workflows in an org. */
   async getRecent(orgId: string, limit = 20) {
     return this.db.query.sqliteRuns.findMany({
@@ -109,6 +109,13 @@ export class WorkflowRepository {
     return { version, blocks: versionBlocks };
   }
 
+  /** Retrieve a workflow by its inbound hook token (for unauthenticated access). */
+  async findByHookToken(token: string) {
+    return this.db.query.workflows.findFirst({
+      where: eq(workflows.hookToken, token),
+    });
+  }
+
   /** Retrieve a workflow by its public slug (for unauthenticated access). */
   async findByPublicSlug(slug: string) {
     return this.db.query.workflows.findFirst({
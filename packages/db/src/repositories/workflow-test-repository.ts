@@ -0,0 +1,48 @@
+import { eq, and, asc } from "drizzle-orm";
+import { workflowTests } from "../schema/index.js";
+import type { Database } from "../client.js";
+
+/**
+ * Provides the test cases stored for workflow versions.
+ */
+export class WorkflowTestRepository {
+  constructor(private readonly db: Database) {}
+
+  /** Store a test case. */
+  async create(data: typeof workflowTests.$inferInsert) {
+    const [row] = await this.db.insert(workflowTests).values(data).returning();
+    return row;
+  }
+
+  /** Retrieve a single test case by ID. */
+  async findById(id: string) {
+    return this.db.query.workflowTests.findFirst({
+      where: eq(workflowTests.id, id),
+    });
+  }
+
+  /** List a workflow's test cases, optionally for one version, in creation order. */
+  async findByWorkflow(workflowId: string, version?: number) {
+    return this.db.query.workflowTests.findMany({
+      where: version === undefined
+        ? eq(workflowTests.workflowId, workflowId)
+        : and(eq(workflowTests.workflowId, workflowId), eq(workflowTests.workflowVersion, version)),
+      orderBy: [asc(workflowTests.workflowVersion), asc(workflowTests.createdAt)],
+    });
+  }
+
+  /** Update a test case's fields. */
+  async update(id: string, data: Partial<typeof workflowTests.$inferInsert>) {
+    const [row] = await this.db
+      .update(workflowTests)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(workflowTests.id, id))
+      .returning();
+    return row;
+  }
+
+  /** Delete a test case. */
+  async delete(id: string) {
+    await this.db.delete(workflowTests).where(eq(workflowTests.id, id));
+  }
+}
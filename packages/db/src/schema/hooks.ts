@@ -0,0 +1,42 @@
+import {
+  pgTable,
+  text,
+  uuid,
+  timestamp,
+  integer,
+  jsonb,
+  index,
+} from "drizzle-orm/pg-core";
+import { nanoid } from "nanoid";
+import { workflows } from "./workflows.js";
+
+/** An inbound request to a workflow's hook URL, kept for inspection. */
+export const hookDeliveries = pgTable(
+  "hook_deliveries",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    workflowId: text("workflow_id")
+      .notNull()
+      .references(() => workflows.id, { onDelete: "cascade" }),
+    orgId: uuid("org_id").notNull(),
+    /** Run started by the delivery — null when it was rejected */
+    runId: text("run_id"),
+    /** "accepted" | "rejected" */
+    status: text("status").notNull(),
+    /** HTTP status returned to the sender */
+    responseStatus: integer("response_status"),
+    /** Why the delivery was rejected */
+    error: text("error"),
+    method: text("method").notNull(),
+    /** Request headers, with credentials and the signature removed */
+    headers: jsonb("headers"),
+    query: jsonb("query"),
+    body: jsonb("body"),
+    receivedAt: timestamp("received_at").defaultNow(),
+  },
+  (table) => [
+    index("hook_deliveries_workflow_idx").on(table.workflowId, table.receivedAt),
+  ],
+);
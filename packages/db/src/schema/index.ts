@@ -1,13 +1,16 @@
 export { users, sessions, accounts, verifications } from "./auth.js";
-export { organizations, orgMembers } from "./organizations.js";
+export { organizations, orgMembers, ssoIdentities } from "./organizations.js";
 export {
   workflows,
   workflowVersions,
+  workflowSchedules,
   blocks,
+  workflowTests,
   secrets,
 } from "./workflows.js";
 export { runs, artifacts, publicRuns } from "./runs.js";
 export { cache } from "./cache.js";
 export { devices } from "./devices.js";
-export { keys, keyAuditLog } from "./keys.js";
+export { orgDataKeys, keys, keyReferences, oauthConnections, keyAuditLog } from "./keys.js";
 export { chats, messages } from "./chats.js";
+export { hookDeliveries } from "./hooks.js";
@@ -5,14 +5,47 @@ import {
   timestamp,
   boolean,
   jsonb,
+  integer,
   index,
   unique,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import { users } from "./auth.js";
 import { organizations } from "./organizations.js";
 import { workflows } from "./workflows.js";
 
+/**
+ * Per-org data keys for envelope encryption. Key values are encrypted
+ * with their org's data key, which is stored wrapped (encrypted) by a
+ * master key — `masterKeyId` says which one. Rotating the master key
+ * only re-wraps these rows; key values are never re-encrypted.
+ */
+export const orgDataKeys = pgTable(
+  "org_data_keys",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    orgId: uuid("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    /** Hex-encoded AES-256-GCM ciphertext of the data key */
+    wrappedKey: text("wrapped_key").notNull(),
+    iv: text("iv").notNull(),
+    masterKeyId: text("master_key_id").notNull(),
+    /** New values are encrypted with the org's active data key */
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    rewrappedAt: timestamp("rewrapped_at"),
+  },
+  (table) => [
+    uniqueIndex("org_data_keys_active_unique").on(table.orgId).where(sql`is_active`),
+    index("org_data_keys_master_idx").on(table.masterKeyId),
+  ],
+);
+
 /**
  * Encrypted API keys and credentials.
  * Scoped to an org (workflowId = null) or a specific workflow.
@@ -33,11 +66,19 @@ export const keys = pgTable(
     keyType: text("key_type").notNull().default("api_key"),
     encryptedValue: text("encrypted_value").notNull(),
     iv: text("iv").notNull(),
+    /** Data key the value is encrypted with — null on rows written before envelope encryption */
+    dataKeyId: text("data_key_id").references(() => orgDataKeys.id),
     algorithm: text("algorithm").default("aes-256-gcm"),
     storageMode: text("storage_mode").default("cloud"),
     lastUsedAt: timestamp("last_used_at"),
     lastRotatedAt: timestamp("last_rotated_at"),
     expiresAt: timestamp("expires_at"),
+    /** Rotation policy — the value should be rotated at most this many days after the last rotation */
+    rotationMaxAgeDays: integer("rotation_max_age_days"),
+    /** How many days before expiry or a rotation deadline the key is flagged */
+    rotationWarnDays: integer("rotation_warn_days"),
+    /** Last status recorded by the key health sweep (ok, rotation_due, expiring, …) */
+    healthStatus: text("health_status").notNull().default("ok"),
     isRevoked: boolean("is_revoked").default(false),
     metadata: jsonb("metadata"),
     createdBy: uuid("created_by").references(() => users.id),
@@ -56,6 +97,91 @@ export const keys = pgTable(
   ],
 );
 
+/**
+ * OAuth2 connections behind `oauth_token` keys. The access token is
+ * the key's value, so `$keys.<name>` resolves to it like any other
+ * key; the refresh token and client secret are kept here, encrypted
+ * under the org's data key (`dataKeyId`). While an authorization is
+ * in flight, `stateHash` and the sealed PKCE verifier identify it.
+ */
+export const oauthConnections = pgTable(
+  "oauth_connections",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    orgId: uuid("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    workflowId: text("workflow_id").references(() => workflows.id),
+    /** Name of the key holding the access token */
+    name: text("name").notNull(),
+    /** Set once the first authorization completes */
+    keyId: text("key_id").references(() => keys.id, { onDelete: "set null" }),
+    provider: text("provider").notNull(),
+    authorizeUrl: text("authorize_url").notNull(),
+    tokenUrl: text("token_url").notNull(),
+    clientId: text("client_id").notNull(),
+    scopes: jsonb("scopes").$type<string[]>(),
+    redirectUri: text("redirect_uri").notNull(),
+    /** pending | connected | refresh_failed | disconnected */
+    status: text("status").notNull().default("pending"),
+    dataKeyId: text("data_key_id")
+      .notNull()
+      .references(() => orgDataKeys.id),
+    encryptedClientSecret: text("encrypted_client_secret").notNull(),
+    clientSecretIv: text("client_secret_iv").notNull(),
+    encryptedRefreshToken: text("encrypted_refresh_token"),
+    refreshTokenIv: text("refresh_token_iv"),
+    /** SHA-256 of the pending authorization's state parameter */
+    stateHash: text("state_hash"),
+    encryptedCodeVerifier: text("encrypted_code_verifier"),
+    codeVerifierIv: text("code_verifier_iv"),
+    stateExpiresAt: timestamp("state_expires_at"),
+    accessTokenExpiresAt: timestamp("access_token_expires_at"),
+    lastRefreshedAt: timestamp("last_refreshed_at"),
+    /** Held by the API instance refreshing the token; others wait for its result */
+    refreshLockedUntil: timestamp("refresh_locked_until"),
+    lastError: text("last_error"),
+    createdBy: uuid("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("oauth_connections_org_idx").on(table.orgId),
+    uniqueIndex("oauth_connections_state_unique").on(table.stateHash),
+  ],
+);
+
+/**
+ * Reverse index of `$keys.<name>` references in block logic and
+ * conditions, rebuilt for a workflow version whenever its blocks are
+ * saved or it is published. References are by key name — a name can
+ * resolve to an org-wide key or a workflow-scoped one.
+ */
+export const keyReferences = pgTable(
+  "key_references",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    orgId: uuid("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    workflowId: text("workflow_id")
+      .notNull()
+      .references(() => workflows.id, { onDelete: "cascade" }),
+    workflowVersion: integer("workflow_version").notNull(),
+    blockId: text("block_id").notNull(),
+    keyName: text("key_name").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("key_references_org_name_idx").on(table.orgId, table.keyName),
+    index("key_references_wf_version_idx").on(table.workflowId, table.workflowVersion),
+  ],
+);
+
 /** Immutable log of key lifecycle events (create, rotate, revoke, access). */
 export const keyAuditLog = pgTable(
   "key_audit_log",
@@ -39,3 +39,27 @@ export const orgMembers = pgTable(
     index("org_members_user_id_idx").on(table.userId),
   ],
 );
+
+/**
+ * The IdP subject (SAML NameID or OIDC `sub`) a user signs in with
+ * through an org's SSO. Logins are matched on the subject, so an
+ * existing account is never taken over on its email alone.
+ */
+export const ssoIdentities = pgTable(
+  "sso_identities",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    orgId: uuid("org_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    subject: text("subject").notNull(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("sso_identities_org_subject_unique").on(table.orgId, table.subject),
+    index("sso_identities_user_id_idx").on(table.userId),
+  ],
+);
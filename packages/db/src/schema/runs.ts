@@ -24,12 +24,29 @@ export const runs = pgTable(
     status: text("status").default("pending"),
     triggerType: text("trigger_type"),
     triggerSource: text("trigger_source"),
+    /** Queue ordering — higher runs first, ties in creation order */
+    priority: integer("priority").notNull().default(0),
+    /** Worker that claimed the run from the queue */
+    claimedBy: text("claimed_by"),
+    /** Last liveness signal from the claiming worker — stale means orphaned */
+    heartbeatAt: timestamp("heartbeat_at"),
     startedAt: timestamp("started_at"),
     completedAt: timestamp("completed_at"),
     durationMs: integer("duration_ms"),
     errorMessage: text("error_message"),
     stepsJson: jsonb("steps_json"),
+    /** Latest resumable snapshot while running — used for crash recovery */
+    checkpoint: jsonb("checkpoint"),
+    /** Final workflow state once the run completes, secrets redacted */
+    output: jsonb("output"),
     metadata: jsonb("metadata"),
+    /** Set on runs started by a `workflow` block — the calling run and block */
+    parentRunId: text("parent_run_id"),
+    parentBlockId: text("parent_block_id"),
+    /** Nesting depth of workflow calls — 0 for top-level runs */
+    callDepth: integer("call_depth").notNull().default(0),
+    /** Debugger settings — breakpoint block IDs and whether to pause on failure */
+    debug: jsonb("debug"),
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => [
@@ -37,6 +54,8 @@ export const runs = pgTable(
     index("runs_org_idx").on(table.orgId),
     index("runs_status_idx").on(table.status),
     index("runs_started_at_idx").on(table.startedAt),
+    index("runs_queue_idx").on(table.status, table.priority, table.createdAt),
+    index("runs_parent_idx").on(table.parentRunId),
   ],
 );
 
@@ -100,6 +119,11 @@ export const publicRuns = pgTable(
     errorMessage: text("error_message"),
     stepsJson: jsonb("steps_json"),
     metadata: jsonb("metadata"),
+    /** Set on runs started by a `workflow` block — the calling run and block */
+    parentRunId: text("parent_run_id"),
+    parentBlockId: text("parent_block_id"),
+    /** Nesting depth of workflow calls — 0 for top-level runs */
+    callDepth: integer("call_depth").notNull().default(0),
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => [
@@ -175,6 +175,7 @@ export const sqliteWorkflowVersions = sqliteTable(
     executionEnvironments: text("execution_environments", { mode: "json" }).default(
       '["cloud"]',
     ),
+    groups: text("groups", { mode: "json" }).default("[]"),
     changelog: text("changelog"),
     createdAt: createdAt(),
     updatedAt: updatedAt(),
@@ -41,6 +41,9 @@ export const workflows = pgTable("workflows", {
   /** Per-slug rate limit: max runs per window (default 10/minute) */
   publicRateLimit: jsonb("public_rate_limit"),
 
+  /** Secret path segment of the inbound hook URL (/hooks/:token) */
+  hookToken: text("hook_token"),
+
   createdBy: uuid("created_by").references(() => users.id),
   updatedBy: uuid("updated_by"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -48,6 +51,7 @@ export const workflows = pgTable("workflows", {
 },
 (table) => [
   unique("workflows_public_slug_unique").on(table.publicSlug),
+  unique("workflows_hook_token_unique").on(table.hookToken),
   index("workflows_org_id_idx").on(table.orgId),
 ]);
 
@@ -62,6 +66,13 @@ export const workflowVersions = pgTable(
     status: text("status").default("draft"),
     triggerType: text("trigger_type").default("interactive"),
     triggerConfig: jsonb("trigger_config"),
+    /** `$state` paths projected into a completed run's output */
+    outputKeys: jsonb("output_keys"),
+    /** JsonSchema contracts for the trigger payload and the run output */
+    inputSchema: jsonb("input_schema"),
+    outputSchema: jsonb("output_schema"),
+    /** BlockGroups — designer sections and error-handling scopes */
+    groups: jsonb("groups").default("[]"),
     executionEnvironments: jsonb("execution_environments").default(
       '["cloud"]',
     ),
@@ -77,6 +88,39 @@ export const workflowVersions = pgTable(
   ],
 );
 
+/**
+ * Scheduler state for a workflow whose active version is
+ * schedule-triggered. Kept in sync with the published version by the
+ * API's scheduler; `nextFireAt` is advanced atomically when a fire
+ * time is claimed so only one instance enqueues each run.
+ */
+export const workflowSchedules = pgTable(
+  "workflow_schedules",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    workflowId: text("workflow_id")
+      .notNull()
+      .references(() => workflows.id, { onDelete: "cascade" }),
+    orgId: uuid("org_id").notNull(),
+    version: integer("version").notNull(),
+    cron: text("cron").notNull(),
+    timezone: text("timezone").notNull().default("UTC"),
+    /** "skip" | "fire_once" | "fire_all" */
+    missedPolicy: text("missed_policy").notNull().default("skip"),
+    /** Null when the expression can never fire again */
+    nextFireAt: timestamp("next_fire_at"),
+    lastFiredAt: timestamp("last_fired_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("workflow_schedules_workflow_unique").on(table.workflowId),
+    index("workflow_schedules_next_fire_idx").on(table.nextFireAt),
+  ],
+);
+
 /** A single executable unit inside a workflow version. */
 export const blocks = pgTable(
   "blocks",
@@ -105,6 +149,45 @@ export const blocks = pgTable(
   ],
 );
 
+/**
+ * A named test case for a workflow version: the event it runs with,
+ * mocked block results, and the run status, `$state` values and step
+ * statuses it expects. Publishing a version runs its cases first.
+ */
+export const workflowTests = pgTable(
+  "workflow_tests",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    workflowId: text("workflow_id")
+      .notNull()
+      .references(() => workflows.id, { onDelete: "cascade" }),
+    workflowVersion: integer("workflow_version").notNull(),
+    name: text("name").notNull(),
+    event: jsonb("event").notNull().default("{}"),
+    /** Results by block ID — `{ stateDelta, … }` or `{ error }` */
+    mocks: jsonb("mocks").notNull().default("{}"),
+    /** Block types to stub — null stubs the side-effecting ones */
+    stub: jsonb("stub"),
+    expectedStatus: text("expected_status").notNull().default("completed"),
+    /** `$state` paths and the values they must equal */
+    expectedState: jsonb("expected_state").notNull().default("{}"),
+    /** Block IDs and the status their last step must have */
+    expectedSteps: jsonb("expected_steps").notNull().default("{}"),
+    createdBy: uuid("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("workflow_tests_version_name_unique").on(
+      table.workflowId,
+      table.workflowVersion,
+      table.name,
+    ),
+  ],
+);
+
 /** Encrypted key-value pairs scoped to a workflow. */
 export const secrets = pgTable(
   "secrets",
@@ -98,6 +98,17 @@ async function main(): Promise<void> {
     )
   `;
 
+  await sql`
+    CREATE TABLE IF NOT EXISTS sso_identities (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+      subject TEXT NOT NULL,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT now(),
+      UNIQUE(org_id, subject)
+    )
+  `;
+
   await sql`
     CREATE TABLE IF NOT EXISTS workflows (
       id TEXT PRIMARY KEY,
@@ -113,6 +124,7 @@ async function main(): Promise<void> {
       public_access_mode TEXT DEFAULT 'view',
       public_branding JSONB,
       public_rate_limit JSONB,
+      hook_token TEXT UNIQUE,
       created_by UUID REFERENCES users(id),
       updated_by UUID,
       created_at TIMESTAMP DEFAULT now(),
@@ -127,6 +139,10 @@ async function main(): Promise<void> {
       status TEXT DEFAULT 'draft',
       trigger_type TEXT DEFAULT 'interactive',
       trigger_config JSONB,
+      output_keys JSONB,
+      input_schema JSONB,
+      output_schema JSONB,
+      groups JSONB DEFAULT '[]',
       execution_environments JSONB DEFAULT '["cloud"]',
       changelog TEXT,
       created_at TIMESTAMP DEFAULT now(),
@@ -135,6 +151,39 @@ async function main(): Promise<void> {
     )
   `;
 
+  await sql`
+    CREATE TABLE IF NOT EXISTS workflow_schedules (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL UNIQUE REFERENCES workflows(id) ON DELETE CASCADE,
+      org_id UUID NOT NULL,
+      version INT NOT NULL,
+      cron TEXT NOT NULL,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      missed_policy TEXT NOT NULL DEFAULT 'skip',
+      next_fire_at TIMESTAMP,
+      last_fired_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now()
+    )
+  `;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS hook_deliveries (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      org_id UUID NOT NULL,
+      run_id TEXT,
+      status TEXT NOT NULL,
+      response_status INT,
+      error TEXT,
+      method TEXT NOT NULL,
+      headers JSONB,
+      query JSONB,
+      body JSONB,
+      received_at TIMESTAMP DEFAULT now()
+    )
+  `;
+
   await sql`
     CREATE TABLE IF NOT EXISTS blocks (
       id TEXT PRIMARY KEY,
@@ -151,6 +200,25 @@ async function main(): Promise<void> {
     )
   `;
 
+  await sql`
+    CREATE TABLE IF NOT EXISTS workflow_tests (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      workflow_version INT NOT NULL,
+      name TEXT NOT NULL,
+      event JSONB NOT NULL DEFAULT '{}',
+      mocks JSONB NOT NULL DEFAULT '{}',
+      stub JSONB,
+      expected_status TEXT NOT NULL DEFAULT 'completed',
+      expected_state JSONB NOT NULL DEFAULT '{}',
+      expected_steps JSONB NOT NULL DEFAULT '{}',
+      created_by UUID REFERENCES users(id),
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now(),
+      UNIQUE (workflow_id, workflow_version, name)
+    )
+  `;
+
   await sql`
     CREATE TABLE IF NOT EXISTS runs (
       id TEXT PRIMARY KEY,
@@ -160,12 +228,21 @@ async function main(): Promise<void> {
       status TEXT DEFAULT 'pending',
       trigger_type TEXT,
       trigger_source TEXT,
+      priority INT NOT NULL DEFAULT 0,
+      claimed_by TEXT,
+      heartbeat_at TIMESTAMP,
       started_at TIMESTAMP,
       completed_at TIMESTAMP,
       duration_ms INT,
       error_message TEXT,
       steps_json JSONB,
+      checkpoint JSONB,
+      output JSONB,
       metadata JSONB,
+      parent_run_id TEXT,
+      parent_block_id TEXT,
+      call_depth INT NOT NULL DEFAULT 0,
+      debug JSONB,
       created_at TIMESTAMP DEFAULT now()
     )
   `;
@@ -227,27 +304,107 @@ async function main(): Promise<void> {
     )
   `;
 
+  await sql`
+    CREATE TABLE IF NOT EXISTS org_data_keys (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL REFERENCES organizations(id),
+      wrapped_key TEXT NOT NULL,
+      iv TEXT NOT NULL,
+      master_key_id TEXT NOT NULL,
+      is_active BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMP DEFAULT now(),
+      rewrapped_at TIMESTAMP
+    )
+  `;
+
+  await sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS org_data_keys_active_unique ON org_data_keys (org_id) WHERE is_active
+  `;
+
   await sql`
     CREATE TABLE IF NOT EXISTS keys (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      id TEXT PRIMARY KEY,
       org_id UUID NOT NULL REFERENCES organizations(id),
+      workflow_id TEXT REFERENCES workflows(id),
       name TEXT NOT NULL,
-      encrypted_key TEXT NOT NULL,
+      description TEXT,
+      provider TEXT NOT NULL DEFAULT 'custom',
+      key_type TEXT NOT NULL DEFAULT 'api_key',
+      encrypted_value TEXT NOT NULL,
       iv TEXT NOT NULL,
+      data_key_id TEXT REFERENCES org_data_keys(id),
       algorithm TEXT DEFAULT 'aes-256-gcm',
-      is_active BOOLEAN DEFAULT true,
+      storage_mode TEXT DEFAULT 'cloud',
+      last_used_at TIMESTAMP,
+      last_rotated_at TIMESTAMP,
+      expires_at TIMESTAMP,
+      rotation_max_age_days INTEGER,
+      rotation_warn_days INTEGER,
+      health_status TEXT NOT NULL DEFAULT 'ok',
+      is_revoked BOOLEAN DEFAULT false,
+      metadata JSONB,
+      created_by UUID REFERENCES users(id),
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now(),
+      UNIQUE(org_id, name)
+    )
+  `;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS oauth_connections (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL REFERENCES organizations(id),
+      workflow_id TEXT REFERENCES workflows(id),
+      name TEXT NOT NULL,
+      key_id TEXT REFERENCES keys(id) ON DELETE SET NULL,
+      provider TEXT NOT NULL,
+      authorize_url TEXT NOT NULL,
+      token_url TEXT NOT NULL,
+      client_id TEXT NOT NULL,
+      scopes JSONB,
+      redirect_uri TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      data_key_id TEXT NOT NULL REFERENCES org_data_keys(id),
+      encrypted_client_secret TEXT NOT NULL,
+      client_secret_iv TEXT NOT NULL,
+      encrypted_refresh_token TEXT,
+      refresh_token_iv TEXT,
+      state_hash TEXT UNIQUE,
+      encrypted_code_verifier TEXT,
+      code_verifier_iv TEXT,
+      state_expires_at TIMESTAMP,
+      access_token_expires_at TIMESTAMP,
+      last_refreshed_at TIMESTAMP,
+      refresh_locked_until TIMESTAMP,
+      last_error TEXT,
       created_by UUID REFERENCES users(id),
       created_at TIMESTAMP DEFAULT now(),
-      rotated_at TIMESTAMP
+      updated_at TIMESTAMP DEFAULT now()
+    )
+  `;
+  /* Databases created before the cross-instance refresh lock */
+  await sql`ALTER TABLE oauth_connections ADD COLUMN IF NOT EXISTS refresh_locked_until TIMESTAMP`;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS key_references (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL REFERENCES organizations(id),
+      workflow_id TEXT NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+      workflow_version INTEGER NOT NULL,
+      block_id TEXT NOT NULL,
+      key_name TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT now()
     )
   `;
 
   await sql`
     CREATE TABLE IF NOT EXISTS key_audit_log (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      key_id UUID NOT NULL REFERENCES keys(id),
+      id TEXT PRIMARY KEY,
+      key_id TEXT NOT NULL REFERENCES keys(id) ON DELETE CASCADE,
       action TEXT NOT NULL,
       performed_by UUID REFERENCES users(id),
+      ip_address TEXT,
+      user_agent TEXT,
       metadata JSONB,
       created_at TIMESTAMP DEFAULT now()
     )
@@ -295,7 +452,7 @@ async function main(): Promise<void> {
     )
   `;
 
-  console.log("[db:setup] All 19 tables created successfully");
+  console.log("[db:setup] All 25 tables created successfully");
 
   await sql.end();
   process.exit(0);
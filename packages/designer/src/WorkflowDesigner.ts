@@ -1,7 +1,7 @@
 import { streamText, type CoreMessage, type ToolResultPart, type Tool } from "ai";
 import { createAnthropic } from "@ai-sdk/anthropic";
 import { createOpenAI } from "@ai-sdk/openai";
-import type { Block, TriggerType, TriggerConfig } from "@vsync/shared-types";
+import type { Block, TriggerType, TriggerConfig, JsonSchema } from "@vsync/shared-types";
 import { buildSystemPrompt, resolveModelId } from "./system-prompt.js";
 import { getBlockDocsTool, getPatternDocsTool, getExampleTool } from "./tools/getDocs.js";
 import {
@@ -10,10 +10,11 @@ import {
   createRemoveBlockTool,
   createReorderBlocksTool,
   createSetTriggerTool,
+  createSetIoSchemaTool,
   type WorkflowState,
 } from "./tools/editWorkflow.js";
 import { createPlanTool } from "./tools/createPlan.js";
-import type { DesignerEvent } from "./events.js";
+import type { DesignerEvent, EditEvent } from "./events.js";
 
 /* ── Options ──────────────────────────────────────────── */
 
@@ -33,6 +34,8 @@ export interface ExistingWorkflow {
   blocks: Block[];
   triggerType?: TriggerType;
   triggerConfig?: TriggerConfig;
+  inputSchema?: JsonSchema | null;
+  outputSchema?: JsonSchema | null;
 }
 
 /* ── Designer ─────────────────────────────────────────── */
@@ -68,6 +71,8 @@ export class WorkflowDesigner {
       blocks: existingWorkflow?.blocks ? structuredClone(existingWorkflow.blocks) : [],
       triggerType: existingWorkflow?.triggerType ?? "interactive",
       triggerConfig: existingWorkflow?.triggerConfig ?? {},
+      inputSchema: existingWorkflow?.inputSchema ?? null,
+      outputSchema: existingWorkflow?.outputSchema ?? null,
     };
 
     /* Build the tool set — edit tools are closures over state */
@@ -81,6 +86,7 @@ export class WorkflowDesigner {
       remove_block: createRemoveBlockTool(state),
       reorder_blocks: createReorderBlocksTool(state),
       set_trigger: createSetTriggerTool(state),
+      set_io_schema: createSetIoSchemaTool(state),
     };
 
     /* Build messages */
@@ -93,6 +99,8 @@ export class WorkflowDesigner {
           {
             triggerType: state.triggerType,
             triggerConfig: state.triggerConfig,
+            inputSchema: state.inputSchema,
+            outputSchema: state.outputSchema,
             blocks: state.blocks,
           },
           null,
@@ -177,13 +185,14 @@ export class WorkflowDesigner {
           tc.toolName === "update_block" ||
           tc.toolName === "remove_block" ||
           tc.toolName === "reorder_blocks" ||
-          tc.toolName === "set_trigger"
+          tc.toolName === "set_trigger" ||
+          tc.toolName === "set_io_schema"
         ) {
           blocksModified++;
           yield {
             type: "edit",
             data: {
-              operation: tc.toolName as "add_block" | "update_block" | "remove_block" | "reorder_blocks" | "set_trigger",
+              operation: tc.toolName as EditEvent["data"]["operation"],
               blockId: (tc.args as Record<string, unknown>).blockId as string | undefined,
               blockType: (tc.args as Record<string, unknown>).type as string | undefined,
               changes: (tc.args as Record<string, unknown>).changes as
@@ -247,6 +256,7 @@ export class WorkflowDesigner {
       remove_block: createRemoveBlockTool(state),
       reorder_blocks: createReorderBlocksTool(state),
       set_trigger: createSetTriggerTool(state),
+      set_io_schema: createSetIoSchemaTool(state),
     };
   }
 
@@ -9,6 +9,7 @@ import {
   createRemoveBlockTool,
   createReorderBlocksTool,
   createSetTriggerTool,
+  createSetIoSchemaTool,
   type WorkflowState,
 } from "../tools/editWorkflow.js";
 import { createPlanTool } from "../tools/createPlan.js";
@@ -393,6 +394,38 @@ describe("set_trigger tool", () => {
   });
 });
 
+describe("set_io_schema tool", () => {
+  const options = { toolCallId: "test", messages: [], abortSignal: undefined as unknown as AbortSignal };
+
+  it("sets and clears the input and output schemas", async () => {
+    const state: WorkflowState = {
+      blocks: [],
+      triggerType: "api",
+      triggerConfig: {},
+      outputSchema: { type: "object" },
+    };
+
+    const schemaTool = createSetIoSchemaTool(state);
+    const result = await schemaTool.execute(
+      {
+        inputSchema: { type: "object", properties: { email: { type: "string", format: "email" } }, required: ["email"] },
+        outputSchema: null,
+      },
+      options,
+    );
+
+    expect(result.success).toBe(true);
+    expect(state.inputSchema?.required).toEqual(["email"]);
+    expect(state.outputSchema).toBeNull();
+  });
+
+  it("rejects a call without either schema", async () => {
+    const state: WorkflowState = { blocks: [], triggerType: "api", triggerConfig: {} };
+    const result = await createSetIoSchemaTool(state).execute({}, options);
+    expect(result.success).toBe(false);
+  });
+});
+
 /* ── createPlan tool tests ───────────────────────────── */
 
 describe("create_plan tool", () => {
@@ -18,11 +18,17 @@ export interface PlanEvent {
   };
 }
 
-/** AI has made a workflow edit (add, update, remove, reorder, set_trigger). */
+/** AI has made a workflow edit (add, update, remove, reorder, set_trigger, set_io_schema). */
 export interface EditEvent {
   type: "edit";
   data: {
-    operation: "add_block" | "update_block" | "remove_block" | "reorder_blocks" | "set_trigger";
+    operation:
+      | "add_block"
+      | "update_block"
+      | "remove_block"
+      | "reorder_blocks"
+      | "set_trigger"
+      | "set_io_schema";
     blockId?: string;
     blockType?: string;
     changes?: Record<string, unknown>;
@@ -35,6 +35,7 @@ export {
   createRemoveBlockTool,
   createReorderBlocksTool,
   createSetTriggerTool,
+  createSetIoSchemaTool,
 } from "./tools/editWorkflow.js";
 
 export type { WorkflowState } from "./tools/editWorkflow.js";
@@ -49,6 +49,23 @@ Metadata about the current run:
 Active loop context within goto-based loops:
 - \`$loops.<id>.index\` — Zero-based iteration counter
 - \`$loops.<id>.artifact\` — Current iteration artifact
+
+## Expressions
+
+Any logic value can compute with operators and helper functions:
+- \`"$state.price * $state.qty"\` — a value starting with \`$\` keeps its type (number here)
+- \`"=len($state.items) > 0"\` — prefix \`=\` when the expression starts with a function or literal
+- \`"Hi {{ upper($state.name) }}"\` — \`{{ }}\` placeholders interpolate the result as text
+
+Operators: \`+ - * / %\`, \`== != < > <= >=\`, \`&& || !\`, \`a ?? b\` (fallback when
+\`a\` is null), \`test ? a : b\`, \`$state.items[0]\`, \`['a', 'b']\`.
+Put spaces around \`-\`: \`$state.a-b\` is read as the key \`a-b\`.
+
+Functions: \`len\`, \`lower\`, \`upper\`, \`trim\`, \`split\`, \`join\`, \`replace\`,
+\`contains\`, \`startsWith\`, \`endsWith\`, \`slice\`, \`first\`, \`last\`, \`keys\`,
+\`values\`, \`sum\`, \`min\`, \`max\`, \`abs\`, \`round(n, digits)\`, \`floor\`,
+\`ceil\`, \`number\`, \`string\`, \`json\`, \`now()\`.
+Prefer an expression over an extra math or string block for one-off values.
 `;
 
 const EVENTS_DOC = `# Events & Triggers
@@ -124,7 +141,7 @@ Conditions are guard clauses that determine whether a block executes.
 ## Structure
 
 Each condition has three parts:
-- **left**: The value to test (usually a \`$state\` reference)
+- **left**: The value to test (usually a \`$state\` reference or an expression such as \`"=len($state.items)"\`)
 - **operator**: Comparison operator
 - **right**: The value to compare against
 
@@ -151,6 +168,30 @@ Each condition has three parts:
 
 Multiple conditions on a block are AND-gated — ALL must pass for the block to execute.
 If any condition fails, the block is skipped.
+
+## Groups (OR / NOT)
+
+A condition can be replaced by a group, and groups nest:
+- \`{ "any": [...] }\` — passes when at least one member passes (OR)
+- \`{ "all": [...] }\` — passes when every member passes (AND)
+- \`{ "not": {...} }\` — passes when its member fails
+
+\`\`\`json
+[
+  { "left": "$state.total", "operator": ">", "right": "100" },
+  { "any": [
+    { "left": "$state.tier", "operator": "==", "right": "gold" },
+    { "not": { "left": "$state.coupon", "operator": "isEmpty", "right": "" } }
+  ] }
+]
+\`\`\`
+
+## Switch Blocks
+
+For if / else-if / else chains use one \`switch\` block instead of guarded gotos.
+\`switch_cases\` is an ordered list of \`{ label?, conditions, target }\`; the run
+jumps to the \`target\` block (by name) of the first case whose conditions pass,
+else to \`switch_default\`, else continues with the next block.
 `;
 
 export const CONCEPT_DOCS: Record<string, string> = {
@@ -20,6 +20,7 @@ A workflow has:
 - **name**: Human-readable label
 - **triggerType**: "interactive" | "api" | "schedule" | "hook" | "vision"
 - **triggerConfig**: Trigger-specific settings (schedule_cron, hook_url, etc.)
+- **inputSchema** / **outputSchema**: Optional JSON Schemas for \`$event\` and the run output, set with set_io_schema. Triggers with a payload that does not match are rejected; forms are generated from the input schema.
 - **blocks**: Ordered list of blocks that execute sequentially
 
 Each block has:
@@ -27,7 +28,7 @@ Each block has:
 - **name**: Human-readable label
 - **type**: One of the block types listed below
 - **logic**: Type-specific configuration (key-value pairs)
-- **conditions**: Optional guard conditions (AND logic)
+- **conditions**: Optional guard conditions (AND logic, with nestable any/all/not groups)
 - **order**: Execution sequence number (0-based)
 - **notes**: Optional documentation
 
@@ -49,10 +50,16 @@ ${blockList}
    - \`$keys.<name>\` — Organization secrets (API keys, etc.)
    - \`$event.<field>\` — Trigger event payload
    - \`$run.id\`, \`$run.status\` — Run metadata
+   - Expressions compute inline instead of extra math/string blocks: \`"$state.price * $state.qty"\`,
+     \`"=len($state.items) > 0 ? 'some' : 'none'"\` (prefix \`=\` when not starting with \`$\`),
+     \`"Hi {{ upper($state.name) }}"\`; supports \`?? && || !\`, comparisons and helpers such as
+     \`len\`, \`lower\`, \`join\`, \`round\`, \`now()\`
 
 3. **Conditions syntax**: Each condition has \`left\`, \`operator\`, \`right\`
    - Operators: ==, !=, <, >, <=, >=, contains, startsWith, endsWith, in, isEmpty, isFalsy, isNull, regex
    - Conditions on a block are AND-gated (all must pass)
+   - Wrap conditions in \`{ "any": [...] }\`, \`{ "all": [...] }\` or \`{ "not": {...} }\` for OR and NOT
+   - For multi-way branching use a \`switch\` block rather than several guarded gotos
 
 4. **Bind values**: Most blocks support a \`<type>_bind_value\` field to store results in state.
 
@@ -1,7 +1,7 @@
 import { tool } from "ai";
 import { z } from "zod";
 import { validateBlock, getBlockDefaults } from "@vsync/blocks";
-import type { Block, BlockType, TriggerType, TriggerConfig } from "@vsync/shared-types";
+import type { Block, BlockType, TriggerType, TriggerConfig, JsonSchema } from "@vsync/shared-types";
 
 /**
  * Mutable workflow state managed by the WorkflowDesigner.
@@ -11,8 +11,26 @@ export interface WorkflowState {
   blocks: Block[];
   triggerType: TriggerType;
   triggerConfig: TriggerConfig;
+  /** Contract for the trigger payload (`$event`) */
+  inputSchema?: JsonSchema | null;
+  /** Contract for the run's output */
+  outputSchema?: JsonSchema | null;
 }
 
+/** A guard condition, or an any / all / not group of them */
+const conditionNodeSchema: z.ZodTypeAny = z.lazy(() =>
+  z.union([
+    z.object({
+      left: z.string(),
+      operator: z.string(),
+      right: z.string(),
+    }),
+    z.object({ any: z.array(conditionNodeSchema) }),
+    z.object({ all: z.array(conditionNodeSchema) }),
+    z.object({ not: conditionNodeSchema }),
+  ]),
+);
+
 /**
  * add_block — adds a new block to the workflow.
  * Validates against the block schema before accepting.
@@ -29,15 +47,9 @@ export function createAddBlockTool(state: WorkflowState) {
         .record(z.unknown())
         .describe("Block logic — type-specific key-value configuration"),
       conditions: z
-        .array(
-          z.object({
-            left: z.string(),
-            operator: z.string(),
-            right: z.string(),
-          }),
-        )
+        .array(conditionNodeSchema)
         .optional()
-        .describe("Optional guard conditions (AND logic)"),
+        .describe("Optional guard conditions (AND logic; nest any/all/not groups for OR and NOT)"),
       notes: z.string().optional().describe("Optional documentation note"),
       order: z
         .number()
@@ -108,13 +120,7 @@ export function createUpdateBlockTool(state: WorkflowState) {
       name: z.string().optional().describe("New block name"),
       notes: z.string().optional().describe("New block notes"),
       conditions: z
-        .array(
-          z.object({
-            left: z.string(),
-            operator: z.string(),
-            right: z.string(),
-          }),
-        )
+        .array(conditionNodeSchema)
         .optional()
         .describe("Replace guard conditions"),
     }),
@@ -277,3 +283,38 @@ export function createSetTriggerTool(state: WorkflowState) {
     },
   });
 }
+
+/**
+ * set_io_schema — declare the workflow's input/output contracts.
+ */
+export function createSetIoSchemaTool(state: WorkflowState) {
+  return tool({
+    description:
+      "Declare the JSON Schema the trigger payload ($event) must match and/or the schema the run's output must match. Trigger forms are generated from the input schema. Pass null to remove a schema.",
+    parameters: z.object({
+      inputSchema: z
+        .record(z.unknown())
+        .nullable()
+        .optional()
+        .describe("JSON Schema for $event (type, properties, required, enum, format, ...)"),
+      outputSchema: z
+        .record(z.unknown())
+        .nullable()
+        .optional()
+        .describe("JSON Schema for the run output"),
+    }),
+    execute: async ({ inputSchema, outputSchema }) => {
+      if (inputSchema === undefined && outputSchema === undefined) {
+        return {
+          success: false as const,
+          errors: ["Provide inputSchema, outputSchema, or both"],
+        };
+      }
+
+      if (inputSchema !== undefined) state.inputSchema = inputSchema as JsonSchema | null;
+      if (outputSchema !== undefined) state.outputSchema = outputSchema as JsonSchema | null;
+
+      return { success: true as const };
+    },
+  });
+}
@@ -34,7 +34,7 @@ export class CloudAdapter extends PlatformAdapter {
       executor.registerHandler(type, handler);
     }
 
-    /* Flow & integration blocks (fetch, agent, goto, sleep, location, code) */
+    /* Flow & integration blocks (fetch, agent, goto, sleep, location, code, workflow) */
     for (const [type, handler] of Object.entries(flowBlockHandlers)) {
       executor.registerHandler(type, handler);
     }
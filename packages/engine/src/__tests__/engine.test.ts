@@ -1,7 +1,11 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { getEventListeners } from "node:events";
 import type {
   Block,
+  BlockGroup,
   Condition,
+  ConditionNode,
+  StepAttempt,
   WorkflowContext,
   WorkflowVersion,
 } from "@vsync/shared-types";
@@ -10,7 +14,19 @@ import { ConditionEvaluator } from "../core/ConditionEvaluator.js";
 import { RunBuilder } from "../core/RunBuilder.js";
 import { BlockExecutor } from "../core/BlockExecutor.js";
 import { Interpreter } from "../core/Interpreter.js";
-import type { RunConfig, BlockResult, BlockHandler } from "../types.js";
+import { PlatformAdapter } from "../core/PlatformAdapter.js";
+import type { PlatformCapabilities } from "../core/PlatformAdapter.js";
+import { WorkflowLinter } from "../core/WorkflowLinter.js";
+import { WorkflowTester } from "../core/WorkflowTester.js";
+import { workflowExecutor } from "../blocks/workflow.js";
+import type {
+  RunConfig,
+  RunCheckpoint,
+  BlockResult,
+  BlockHandler,
+  WorkflowInvocation,
+  WorkflowInvoker,
+} from "../types.js";
 
 /* ── Test helpers ────────────────────────────────────────── */
 
@@ -193,6 +209,16 @@ describe("ContextManager", () => {
     expect(cm.resolve("$keys.cloud.my_key", ctxWithResolver)).toBe("resolved-cloud.my_key");
   });
 
+  it("collects $keys references from nested logic and templates", () => {
+    const refs = cm.collectKeyRefs({
+      url: "https://api.example.com/{{$state.path}}",
+      headers: { Authorization: "Bearer {{ $keys.api_token }}" },
+      auth: ["$keys.cloud.basic", "$state.user"],
+      timeout: 30,
+    });
+    expect([...refs]).toEqual(["api_token", "cloud.basic"]);
+  });
+
   /* ── $loop ───────────────────────────────────────────── */
 
   it("resolves $loop.<id>.index", () => {
@@ -211,6 +237,18 @@ describe("ContextManager", () => {
     expect(cm.resolve("$index", ctxWithLoop)).toBe(7);
   });
 
+  it("resolves $item and $row from the innermost loop's item", () => {
+    const ctxWithLoops = makeContext({
+      loops: {
+        outer: { index: 1, item: "a" },
+        inner: { index: 2, item: { sku: "x" } },
+      },
+    });
+    expect(cm.resolve("$item.sku", ctxWithLoops)).toBe("x");
+    expect(cm.resolve("$row.sku", ctxWithLoops)).toBe("x");
+    expect(cm.resolve("$loop.outer.item", ctxWithLoops)).toBe("a");
+  });
+
   /* ── Template interpolation ──────────────────────────── */
 
   it("interpolates {{$state.name}}", () => {
@@ -248,6 +286,75 @@ describe("ContextManager", () => {
   it("resolveValue returns plain strings as-is", () => {
     expect(cm.resolveValue("hello", ctx)).toBe("hello");
   });
+
+  /* ── Expressions ─────────────────────────────────────── */
+
+  it("evaluates operators on $ values with typed results", () => {
+    ctx.state.price = 2.5;
+    ctx.state.qty = 4;
+    expect(cm.resolveValue("$state.price * $state.qty", ctx)).toBe(10);
+    expect(cm.resolveValue("$state.qty + 1 > 4 && $state.name == 'Alice'", ctx)).toBe(true);
+    expect(cm.resolveValue("$state.items[1] - $state.items[0]", ctx)).toBe(10);
+  });
+
+  it("evaluates =-prefixed expressions and leaves = and == literal", () => {
+    expect(cm.resolveValue("=len($state.items) > 2 ? 'many' : 'few'", ctx)).toBe("many");
+    expect(cm.resolveValue("=$state.missing ?? 'guest'", ctx)).toBe("guest");
+    expect(cm.resolveValue("=", ctx)).toBe("=");
+    expect(cm.resolveValue("==", ctx)).toBe("==");
+  });
+
+  it("evaluates expressions inside {{ }} placeholders", () => {
+    expect(cm.interpolate("Hi {{ upper($state.name) }}, total {{ sum($state.items) }}", ctx))
+      .toBe("Hi ALICE, total 60");
+    expect(cm.interpolate("{{ join($state.items, '-') }}", ctx)).toBe("10-20-30");
+  });
+
+  it("supports string, array and number helpers", () => {
+    expect(cm.evaluate("lower(trim('  MiXed '))", ctx)).toBe("mixed");
+    expect(cm.evaluate("split('a,b,c', ',')", ctx)).toEqual(["a", "b", "c"]);
+    expect(cm.evaluate("contains($state.items, 20)", ctx)).toBe(true);
+    expect(cm.evaluate("last(slice($state.items, 0, 2))", ctx)).toBe(20);
+    expect(cm.evaluate("round(10 / 3, 2)", ctx)).toBe(3.33);
+    expect(cm.evaluate("max($state.items) + min(4, 2)", ctx)).toBe(32);
+    expect(cm.evaluate("keys($state.nested)", ctx)).toEqual(["deep"]);
+    expect(cm.evaluate("'n=' + number('7')", ctx)).toBe("n=7");
+    expect(cm.evaluate("now()", ctx)).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it("reads cache entries and only own properties", () => {
+    expect(cm.evaluate("$cache.counter * 2", ctx)).toBe(10);
+    expect(cm.evaluate("$state.nested['deep'].value + 0", ctx)).toBe(42);
+    expect(cm.evaluate("$state.nested.constructor ?? 'none'", ctx)).toBe("none");
+    expect(cm.evaluate("$state.name['__proto__'] ?? 'none'", ctx)).toBe("none");
+  });
+
+  it("throws a descriptive error when evaluate() is given a malformed expression", () => {
+    expect(() => cm.evaluate("$state.count +", ctx)).toThrow(
+      'Invalid expression "$state.count +": Unexpected end of expression',
+    );
+    expect(() => cm.evaluate("exec('ls')", ctx)).toThrow('Unknown function "exec"');
+    expect(() => cm.evaluate("name", ctx)).toThrow(/references start with "\$"/);
+  });
+
+  it("reads values that do not parse as they were read before expressions", () => {
+    ctx.state["first name"] = "x";
+    expect(cm.resolveValue("=hello", ctx)).toBe("=hello");
+    expect(cm.resolveValue("=SUM(A1:A3)", ctx)).toBe("=SUM(A1:A3)");
+    expect(cm.resolveValue("$state.first name", ctx)).toBe("x");
+    expect(cm.resolveValue("$5.00", ctx)).toBeUndefined();
+    expect(cm.resolveValue("$$", ctx)).toBeUndefined();
+    expect(cm.interpolate("a {{ not valid ( }} b", ctx)).toBe("a not valid ( b");
+    expect(cm.interpolate("{{ $state.first name }}", ctx)).toBe("x");
+  });
+
+  it("collects $keys references inside expressions", () => {
+    const refs = cm.collectKeyRefs({
+      header: "=$keys.primary ?? $keys.fallback",
+      body: "{{ upper($keys.cloud.token) }}",
+    });
+    expect([...refs]).toEqual(["primary", "fallback", "cloud.token"]);
+  });
 });
 
 /* ================================================================ */
@@ -398,6 +505,277 @@ describe("ConditionEvaluator", () => {
     expect(evaluator.evaluateAll([], ctx)).toBe(true);
     expect(evaluator.evaluateAll(undefined, ctx)).toBe(true);
   });
+
+  /* ── Condition groups ───────────────────────────────── */
+
+  it("evaluates any / all / not groups", () => {
+    const isBob: Condition = { left: "$state.name", operator: "==", right: "Bob" };
+    const isActive: Condition = { left: "$state.status", operator: "==", right: "active" };
+
+    expect(evaluator.evaluateNode({ any: [isBob, isActive] }, ctx)).toBe(true);
+    expect(evaluator.evaluateNode({ all: [isBob, isActive] }, ctx)).toBe(false);
+    expect(evaluator.evaluateNode({ not: isBob }, ctx)).toBe(true);
+    expect(evaluator.evaluateNode({ any: [] }, ctx)).toBe(false);
+  });
+
+  it("evaluateAll ANDs nested groups with plain conditions", () => {
+    const conditions: ConditionNode[] = [
+      { left: "$state.count", operator: ">", right: "5" },
+      {
+        any: [
+          { left: "$state.tags", operator: "contains", right: "owner" },
+          { not: { all: [{ left: "$state.name", operator: "==", right: "Alice" }] } },
+        ],
+      },
+    ];
+    expect(evaluator.evaluateAll(conditions, ctx)).toBe(false);
+
+    ctx.state.tags = ["owner"];
+    expect(evaluator.evaluateAll(conditions, ctx)).toBe(true);
+  });
+
+  /* ── Expression operands ────────────────────────────── */
+
+  it("resolves expressions on either side of a condition", () => {
+    ctx.state.items = [1, 2, 3];
+    expect(evaluator.evaluate({ left: "=len($state.items)", operator: "==", right: "3" }, ctx)).toBe(true);
+    expect(evaluator.evaluate({ left: "$state.count", operator: "<", right: "$state.count * 2" }, ctx)).toBe(true);
+    expect(evaluator.evaluate({ left: "{{ lower($state.name) }}", operator: "==", right: "alice" }, ctx)).toBe(true);
+  });
+});
+
+/* ================================================================ */
+/*  WorkflowLinter                                                   */
+/* ================================================================ */
+
+describe("WorkflowLinter", () => {
+  class HeadlessAdapter extends PlatformAdapter {
+    readonly platform = "headless";
+    readonly capabilities: PlatformCapabilities = {
+      hasCamera: false,
+      hasFilesystem: false,
+      hasFtp: false,
+      hasUi: false,
+      hasVideo: false,
+      hasLocation: false,
+    };
+    registerBlocks(): void {}
+  }
+
+  const linter = new WorkflowLinter({ headless: new HeadlessAdapter() });
+
+  function lint(blocks: Block[], overrides?: Partial<WorkflowVersion>) {
+    return linter.lint({ ...makeVersion(blocks), executionEnvironments: ["headless"], ...overrides });
+  }
+
+  it("reports nothing for a straight-line workflow", () => {
+    const blocks = [
+      makeBlock({ id: "b1", name: "Load", order: 0, logic: { object_bind_value: "order" } }),
+      makeBlock({ id: "b2", name: "Total", order: 1, logic: { math_input: "$state.order.total", math_bind_value: "total" } }),
+    ];
+    expect(lint(blocks)).toEqual([]);
+  });
+
+  it("reports unknown jump targets", () => {
+    const blocks = [
+      makeBlock({ id: "b1", name: "Jump", type: "goto", order: 0, logic: { goto_target: "Nowhere" } }),
+      makeBlock({
+        id: "b2", name: "Route", type: "switch", order: 1,
+        logic: { switch_cases: [{ conditions: [], target: "Missing" }], switch_default: "Jump" },
+      }),
+    ];
+    const diagnostics = lint(blocks).filter((d) => d.rule === "unknown-target");
+    expect(diagnostics.map((d) => [d.blockId, d.severity, d.message])).toEqual([
+      ["b1", "error", 'goto_target of "Jump" references unknown block "Nowhere"'],
+      ["b2", "error", 'switch_cases[0].target of "Route" references unknown block "Missing"'],
+    ]);
+  });
+
+  it("reports blocks skipped over by an unconditional goto as unreachable", () => {
+    const blocks = [
+      makeBlock({ id: "b1", name: "Skip", type: "goto", order: 0, logic: { goto_target: "End" } }),
+      makeBlock({ id: "b2", name: "Dead", order: 1 }),
+      makeBlock({ id: "b3", name: "End", order: 2 }),
+    ];
+    const diagnostics = lint(blocks);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ rule: "unreachable-block", severity: "warning", blockId: "b2" }),
+    ]);
+  });
+
+  it("reports a goto cycle with no exit but accepts a guarded one", () => {
+    const blocks = [
+      makeBlock({ id: "b1", name: "Work", order: 0 }),
+      makeBlock({ id: "b2", name: "Again", type: "goto", order: 1, logic: { goto_target: "Work" } }),
+      makeBlock({ id: "b3", name: "Done", order: 2 }),
+    ];
+    expect(lint(blocks).filter((d) => d.rule === "unbounded-cycle")).toEqual([
+      expect.objectContaining({
+        severity: "error",
+        blockId: "b1",
+        message: expect.stringContaining('"Work" → "Again" loop forever'),
+      }),
+    ]);
+
+    blocks[1].conditions = [{ left: "$state.retry", operator: "isFalsy", right: "" }];
+    expect(lint(blocks).filter((d) => d.rule === "unbounded-cycle")).toEqual([]);
+  });
+
+  it("does not treat loop bodies as cycles and routes break past the body", () => {
+    const blocks = [
+      makeBlock({ id: "b1", name: "Each", type: "loop", order: 0, logic: { loop_body_end: "Stop" } }),
+      makeBlock({ id: "b2", name: "Stop", type: "break", order: 1 }),
+      makeBlock({ id: "b3", name: "After", order: 2 }),
+    ];
+    expect(lint(blocks)).toEqual([]);
+  });
+
+  it("warns when $state is read before any block writes it", () => {
+    const blocks = [
+      makeBlock({ id: "b1", name: "Use", order: 0, logic: { string_input: "=upper($state.name)" } }),
+      makeBlock({ id: "b2", name: "Set", order: 1, logic: { object_bind_value: "$state.name" } }),
+      makeBlock({ id: "b3", name: "Again", order: 2, conditions: [{ left: "$state.name", operator: "isEmpty", right: "" }] }),
+    ];
+    expect(lint(blocks)).toEqual([
+      expect.objectContaining({
+        rule: "state-read-before-write",
+        blockId: "b1",
+        message: '"Use" reads $state.name before any earlier block sets it',
+      }),
+    ]);
+  });
+
+  it("stops read-before-write checks after a code block", () => {
+    const blocks = [
+      makeBlock({ id: "b1", name: "Script", type: "code", order: 0, logic: { code_source: "state.x = 1" } }),
+      makeBlock({ id: "b2", name: "Use", order: 1, logic: { string_input: "$state.x" } }),
+    ];
+    expect(lint(blocks)).toEqual([]);
+  });
+
+  it("warns when a bound value is overwritten before it is read, but not across branches", () => {
+    const overwrite = [
+      makeBlock({ id: "b1", name: "First", order: 0, logic: { fetch_bind_value: "result" } }),
+      makeBlock({ id: "b2", name: "Second", order: 1, logic: { agent_bind_value: "result" } }),
+    ];
+    expect(lint(overwrite)).toEqual([
+      expect.objectContaining({ rule: "bind-collision", blockId: "b2" }),
+    ]);
+
+    const branches = [
+      makeBlock({
+        id: "b1", name: "Route", type: "switch", order: 0,
+        logic: { switch_cases: [{ conditions: [{ left: "$event.vip", operator: "==", right: "true" }], target: "Vip" }] },
+      }),
+      makeBlock({ id: "b2", name: "Standard", order: 1, logic: { object_bind_value: "price" } }),
+      makeBlock({ id: "b3", name: "Out", type: "goto", order: 2, logic: { goto_target: "Use" } }),
+      makeBlock({ id: "b4", name: "Vip", order: 3, logic: { object_bind_value: "price" } }),
+      makeBlock({ id: "b5", name: "Use", order: 4, logic: { string_input: "{{$state.price}}" } }),
+    ];
+    expect(lint(branches)).toEqual([]);
+  });
+
+  it("checks blocks against each environment's platform adapter", () => {
+    const blocks = [
+      makeBlock({ id: "b1", name: "Save", type: "filesystem", order: 0 }),
+      makeBlock({ id: "b2", name: "Ask", type: "ui_form", order: 1 }),
+    ];
+
+    expect(lint(blocks, { triggerType: "schedule", executionEnvironments: ["headless", "moon"] })).toEqual([
+      expect.objectContaining({ rule: "unsupported-block", severity: "error", blockId: "b1" }),
+      expect.objectContaining({ rule: "ui-unavailable", severity: "error", blockId: "b2" }),
+      expect.objectContaining({ rule: "unknown-environment", severity: "warning", blockId: null }),
+    ]);
+
+    /* Interactive runs are answered by the client that started them */
+    expect(lint(blocks).map((d) => d.rule)).toEqual(["unsupported-block"]);
+  });
+});
+
+/* ================================================================ */
+/*  WorkflowTester                                                   */
+/* ================================================================ */
+
+describe("WorkflowTester", () => {
+  let tester: WorkflowTester;
+  const fetched = vi.fn();
+
+  const blocks = [
+    makeBlock({ id: "price", name: "Get price", order: 0, type: "fetch" }),
+    makeBlock({ id: "total", name: "Total", order: 1, type: "total" }),
+    makeBlock({
+      id: "alert",
+      name: "Alert",
+      order: 2,
+      type: "fetch",
+      conditions: [{ left: "$state.order.total", operator: ">", right: "100" }],
+    }),
+  ];
+
+  beforeEach(() => {
+    fetched.mockReset();
+    const interpreter = new Interpreter();
+    interpreter.blockExecutor.registerHandler("fetch", async () => {
+      fetched();
+      return {};
+    });
+    interpreter.blockExecutor.registerHandler("total", async (_block, ctx) => ({
+      stateDelta: { order: { total: Number(ctx.state.price) * Number(ctx.event.qty) } },
+    }));
+    tester = new WorkflowTester(interpreter);
+  });
+
+  it("passes a case whose state and step statuses match, without calling side effects", async () => {
+    const result = await tester.run({
+      id: "t1",
+      name: "small order",
+      event: { qty: 3 },
+      mocks: { price: { stateDelta: { price: 7 } } },
+      expectedState: { "order.total": 21, price: 7 },
+      expectedSteps: { total: "completed", alert: "skipped" },
+    }, makeRunConfig(blocks));
+
+    expect(result).toMatchObject({ testId: "t1", passed: true, failures: [], status: "completed" });
+    expect(fetched).not.toHaveBeenCalled();
+  });
+
+  it("reports every broken assertion", async () => {
+    const result = await tester.run({
+      id: "t2",
+      name: "large order",
+      event: { qty: 30 },
+      mocks: { price: { stateDelta: { price: 7 } }, gone: {} },
+      expectedState: { "order.total": 200, "order.discount": 0 },
+      expectedSteps: { alert: "skipped", missing: "completed" },
+    }, makeRunConfig(blocks));
+
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual([
+      'Mock for block "gone", which is not in this version',
+      "$state.order.total: expected 200, got 210",
+      "$state.order.discount: expected 0, got nothing",
+      'Block "Alert": expected "skipped", got "completed"',
+      'Expected step for block "missing", which is not in this version',
+    ]);
+  });
+
+  it("checks the run status, and runs each case of a suite on a fresh context", async () => {
+    const suite = await tester.runAll([
+      {
+        id: "t3",
+        name: "price service down",
+        event: { qty: 1 },
+        mocks: { price: { error: "503" } },
+        expectedStatus: "failed",
+        expectedSteps: { price: "failed", total: "completed" },
+      },
+      { id: "t4", name: "no price", event: { qty: 1 }, expectedState: { price: 7 } },
+    ], makeRunConfig(blocks, { initialState: { price: 7 } }));
+
+    expect(suite).toMatchObject({ passed: false, total: 2, failed: 2 });
+    expect(suite.cases[0].failures).toEqual(['Block "Total": expected "completed", but it did not run']);
+    expect(suite.cases[1].failures).toEqual(["$state.price: expected 7, got nothing"]);
+  });
 });
 
 /* ================================================================ */
@@ -580,6 +958,91 @@ describe("BlockExecutor", () => {
     expect(types).toContain("string");
     expect(types.length).toBe(2);
   });
+
+  /* ── Retry and timeout policy ────────────────────────── */
+
+  it("retries a block with on_error 'retry' and reports each attempt", async () => {
+    let calls = 0;
+    executor.registerHandler("flaky", async () => {
+      calls++;
+      if (calls < 3) throw new Error(`transient ${calls}`);
+      return { stateDelta: { ok: true } };
+    });
+
+    const attempts: StepAttempt[] = [];
+    const block = makeBlock({
+      id: "b1",
+      name: "Flaky",
+      order: 0,
+      type: "flaky",
+      logic: { on_error: "retry", retry_max: 3, retry_backoff_ms: 1 },
+    });
+
+    const result = await executor.execute(block, makeContext(), (a) => attempts.push(a));
+
+    expect(result.stateDelta).toEqual({ ok: true });
+    expect(attempts.map((a) => [a.attempt, a.status, a.error])).toEqual([
+      [1, "failed", "transient 1"],
+      [2, "failed", "transient 2"],
+      [3, "completed", undefined],
+    ]);
+  });
+
+  it("gives up after retry_max retries", async () => {
+    executor.registerHandler("broken", async () => {
+      throw new Error("still broken");
+    });
+
+    const attempts: StepAttempt[] = [];
+    const block = makeBlock({
+      id: "b1",
+      name: "Broken",
+      order: 0,
+      type: "broken",
+      logic: { on_error: "retry", retry_max: 2, retry_backoff_ms: 0 },
+    });
+
+    await expect(
+      executor.execute(block, makeContext(), (a) => attempts.push(a)),
+    ).rejects.toThrow("still broken");
+    expect(attempts).toHaveLength(3);
+  });
+
+  it("fails an attempt that exceeds timeout_ms and aborts the handler's signal", async () => {
+    let handlerSignal: AbortSignal | undefined;
+    executor.registerHandler("hang", async (_block, ctx) => {
+      handlerSignal = ctx.signal;
+      return new Promise(() => {});
+    });
+
+    const attempts: StepAttempt[] = [];
+    const block = makeBlock({
+      id: "b1",
+      name: "Hang",
+      order: 0,
+      type: "hang",
+      logic: { timeout_ms: 20 },
+    });
+
+    await expect(
+      executor.execute(block, makeContext(), (a) => attempts.push(a)),
+    ).rejects.toThrow('Block "Hang" timed out after 20ms');
+    expect(handlerSignal?.aborted).toBe(true);
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].timedOut).toBe(true);
+  });
+
+  it("does not report attempts for blocks without a policy", async () => {
+    executor.registerHandler("plain", async () => ({}));
+    const attempts: StepAttempt[] = [];
+    const block = makeBlock({ id: "b1", name: "Plain", order: 0, type: "plain" });
+
+    await executor.execute(block, makeContext(), (a) => attempts.push(a));
+    expect(attempts).toHaveLength(0);
+    expect(executor.getErrorStrategy(
+      makeBlock({ id: "b2", name: "R", order: 0, logic: { on_error: "retry" } }),
+    )).toBe("retry");
+  });
 });
 
 /* ================================================================ */
@@ -779,6 +1242,77 @@ describe("Interpreter", () => {
     expect(executionLog).not.toContain("Skipped By Jump");
   });
 
+  /* ── Switch ─────────────────────────────────────────── */
+
+  describe("switch blocks", () => {
+    const routeBlocks = (logic: Record<string, unknown>): Block[] => [
+      makeBlock({ id: "s", name: "Route", order: 0, type: "switch", logic }),
+      makeBlock({ id: "n", name: "Next", order: 1, type: "object" }),
+      makeBlock({ id: "h", name: "High", order: 2, type: "object" }),
+      makeBlock({ id: "l", name: "Low", order: 3, type: "object" }),
+    ];
+    const cases = [
+      {
+        label: "high",
+        conditions: [{ any: [{ left: "$state.priority", operator: ">=", right: "8" }, { left: "$state.vip", operator: "==", right: "true" }] }],
+        target: "High",
+      },
+      { conditions: [{ left: "$state.priority", operator: "<", right: "3" }], target: "Low" },
+    ];
+
+    let executionLog: string[];
+
+    beforeEach(() => {
+      executionLog = [];
+      interpreter.blockExecutor.registerHandler("object", async (block) => {
+        executionLog.push(block.name);
+        return {};
+      });
+    });
+
+    it("jumps to the first case whose conditions pass", async () => {
+      const result = await interpreter.executeRun(
+        makeRunConfig(routeBlocks({ switch_cases: cases }), { initialState: { priority: 1, vip: true } }),
+      );
+
+      expect(result.status).toBe("completed");
+      expect(executionLog).toEqual(["High", "Low"]);
+      expect(result.steps[0].stateDelta).toEqual({ _switch_case: "high", _switch_target: "High" });
+    });
+
+    it("falls back to the default, then to the next block", async () => {
+      const withDefault = await interpreter.executeRun(
+        makeRunConfig(routeBlocks({ switch_cases: cases, switch_default: "Low" }), { initialState: { priority: 5 } }),
+      );
+      expect(executionLog).toEqual(["Low"]);
+      expect(withDefault.steps[0].stateDelta).toEqual({ _switch_case: "default", _switch_target: "Low" });
+
+      executionLog = [];
+      const fallThrough = await interpreter.executeRun(
+        makeRunConfig(routeBlocks({ switch_cases: cases }), { initialState: { priority: 5 } }),
+      );
+      expect(executionLog).toEqual(["Next", "High", "Low"]);
+      expect(fallThrough.steps[0].stateDelta).toEqual({ _switch_case: null });
+    });
+
+    it("labels an unlabelled case by its position", async () => {
+      const result = await interpreter.executeRun(
+        makeRunConfig(routeBlocks({ switch_cases: cases }), { initialState: { priority: 2 } }),
+      );
+      expect(result.steps[0].stateDelta).toEqual({ _switch_case: 1, _switch_target: "Low" });
+    });
+
+    it("fails the run on an unknown target", async () => {
+      const result = await interpreter.executeRun(
+        makeRunConfig(routeBlocks({ switch_cases: [], switch_default: "Nowhere" })),
+      );
+
+      expect(result.status).toBe("failed");
+      expect(result.errorMessage).toContain('Switch block "Route" references unknown target "Nowhere"');
+      expect(result.steps[0].status).toBe("failed");
+    });
+  });
+
   /* ── Goto with defer ────────────────────────────────── */
 
   it("handles goto with defer — deferred steps are marked", async () => {
@@ -832,132 +1366,375 @@ describe("Interpreter", () => {
     expect(afterDeferStep).toBeTruthy();
   });
 
-  /* ── Error handling: abort strategy ─────────────────── */
+  /* ── Deferred fan-out ───────────────────────────────── */
 
-  it("aborts run on block failure with abort strategy", async () => {
-    const blocks: Block[] = [
-      makeBlock({
-        id: "b1",
-        name: "Succeeds",
-        order: 0,
-        type: "object",
-        logic: {},
-      }),
+  /**
+   * Counter → deferred goto → loop back (4 times) → Done → Work.
+   * Each pass spawns one iteration running Work; the main flow skips
+   * Work because Done has set `done` by the time it gets there.
+   */
+  function fanOutBlocks(gotoLogic: Record<string, unknown> = {}): Block[] {
+    return [
+      makeBlock({ id: "b1", name: "Counter", order: 0, type: "counter", logic: {} }),
       makeBlock({
         id: "b2",
-        name: "Fails",
+        name: "Spawn",
         order: 1,
-        type: "object",
-        logic: {},
+        type: "goto",
+        logic: { goto_target: "Work", goto_defer: true, ...gotoLogic },
       }),
       makeBlock({
         id: "b3",
-        name: "Never Reached",
+        name: "Loop Back",
         order: 2,
-        type: "object",
+        type: "goto",
+        logic: { goto_target: "Counter" },
+        conditions: [{ left: "$state.count", operator: "<", right: 4 }],
+      }),
+      makeBlock({ id: "b4", name: "Done", order: 3, type: "done", logic: {} }),
+      makeBlock({
+        id: "b5",
+        name: "Work",
+        order: 4,
+        type: "work",
         logic: {},
+        conditions: [{ left: "$state.done", operator: "!=", right: true }],
       }),
     ];
+  }
 
-    let callCount = 0;
-    interpreter.blockExecutor.registerHandler("object", async (block) => {
-      callCount++;
-      if (block.name === "Fails") {
-        throw new Error("Something went wrong");
-      }
-      return {};
+  /** Register fan-out handlers; Work writes `delta(count)` after a delay */
+  function registerFanOut(
+    delta: (count: number) => Record<string, unknown>,
+    delayMs: (count: number) => number = () => 5,
+  ) {
+    const concurrency = { active: 0, max: 0 };
+
+    interpreter.blockExecutor.registerHandler("counter", async (_block, ctx) => ({
+      stateDelta: { count: ((ctx.state.count as number) ?? 0) + 1 },
+    }));
+    interpreter.blockExecutor.registerHandler("done", async () => ({
+      stateDelta: { done: true },
+    }));
+    interpreter.blockExecutor.registerHandler("work", async (_block, ctx) => {
+      const count = ctx.state.count as number;
+      concurrency.active++;
+      concurrency.max = Math.max(concurrency.max, concurrency.active);
+      await new Promise((r) => setTimeout(r, delayMs(count)));
+      concurrency.active--;
+      return { stateDelta: delta(count) };
     });
 
-    const result = await interpreter.executeRun(makeRunConfig(blocks));
+    return concurrency;
+  }
 
-    expect(result.status).toBe("failed");
-    expect(result.errorMessage).toMatch(/Something went wrong/);
-    expect(callCount).toBe(2); // Only Succeeds and Fails
+  it("runs deferred iterations concurrently up to deferConcurrency", async () => {
+    interpreter = new Interpreter({ deferConcurrency: 2 });
+    const concurrency = registerFanOut((count) => ({ [`work_${count}`]: true }));
+
+    const result = await interpreter.executeRun(makeRunConfig(fanOutBlocks()));
+
+    expect(result.status).toBe("completed");
+    expect(concurrency.max).toBe(2);
+    expect(result.context.state).toMatchObject({
+      work_1: true,
+      work_2: true,
+      work_3: true,
+      work_4: true,
+    });
   });
 
-  /* ── Error handling: continue strategy ──────────────── */
+  it("lets goto_max_concurrent lower the limit", async () => {
+    const concurrency = registerFanOut((count) => ({ [`work_${count}`]: true }));
 
-  it("continues on block failure with continue strategy", async () => {
-    const blocks: Block[] = [
-      makeBlock({
-        id: "b1",
-        name: "Fails",
-        order: 0,
-        type: "object",
-        logic: { on_error: "continue" },
-      }),
-      makeBlock({
-        id: "b2",
-        name: "Still Runs",
-        order: 1,
-        type: "object",
-        logic: {},
-      }),
-    ];
+    await interpreter.executeRun(makeRunConfig(fanOutBlocks({ goto_max_concurrent: 1 })));
 
-    interpreter.blockExecutor.registerHandler("object", async (block) => {
-      if (block.name === "Fails") {
-        throw new Error("Recoverable error");
-      }
-      return { stateDelta: { reached: true } };
-    });
+    expect(concurrency.max).toBe(1);
+  });
 
-    const result = await interpreter.executeRun(makeRunConfig(blocks));
+  it("groups each iteration's steps under the goto step's iteration ID", async () => {
+    registerFanOut((count) => ({ [`work_${count}`]: true }));
 
-    expect(result.status).toBe("completed");
-    expect(result.steps[0].status).toBe("failed");
-    expect(result.steps[0].error?.message).toBe("Recoverable error");
-    expect(result.steps[1].status).toBe("completed");
-    expect(result.context.state.reached).toBe(true);
+    const result = await interpreter.executeRun(makeRunConfig(fanOutBlocks()));
+
+    const spawned = result.steps
+      .filter((s) => s.blockName === "Spawn")
+      .map((s) => s.stateDelta?._defer_iteration_id);
+    const deferred = result.steps.filter((s) => s.isDeferred);
+
+    expect(spawned).toHaveLength(4);
+    expect(new Set(deferred.map((s) => s.deferIterationId))).toEqual(new Set(spawned));
+    expect(deferred.every((s) => s.blockName === "Work")).toBe(true);
   });
 
-  /* ── Step limit enforcement ─────────────────────────── */
+  it("merges last_writer iterations in schedule order, not completion order", async () => {
+    /* Later iterations finish first */
+    registerFanOut((count) => ({ last: count }), (count) => (5 - count) * 10);
 
-  it("enforces step limit", async () => {
-    const interp = new Interpreter({ maxSteps: 3 });
+    const result = await interpreter.executeRun(makeRunConfig(fanOutBlocks()));
 
-    const blocks: Block[] = [
-      makeBlock({ id: "b1", name: "A", order: 0, type: "object", logic: {} }),
-      makeBlock({ id: "b2", name: "B", order: 1, type: "object", logic: {} }),
-      makeBlock({ id: "b3", name: "C", order: 2, type: "object", logic: {} }),
-      makeBlock({ id: "b4", name: "D", order: 3, type: "object", logic: {} }),
-    ];
+    expect(result.status).toBe("completed");
+    expect(result.context.state.last).toBe(4);
+  });
 
-    interp.blockExecutor.registerHandler("object", async () => ({}));
+  it("fails the run when conflict_error iterations write different values", async () => {
+    registerFanOut((count) => ({ last: count }));
 
-    const result = await interp.executeRun(makeRunConfig(blocks));
+    const result = await interpreter.executeRun(
+      makeRunConfig(fanOutBlocks({ goto_merge: "conflict_error" })),
+    );
 
     expect(result.status).toBe("failed");
-    expect(result.errorMessage).toMatch(/Step limit reached/);
+    expect(result.errorMessage).toContain('conflicting values to state key "last"');
   });
 
-  /* ── Initial state and secrets ──────────────────────── */
+  it("allows conflict_error iterations that write disjoint keys", async () => {
+    registerFanOut((count) => ({ [`work_${count}`]: count }));
 
-  it("seeds initial state and secrets from RunConfig", async () => {
-    const blocks: Block[] = [
-      makeBlock({ id: "b1", name: "Check", order: 0, type: "object", logic: {} }),
-    ];
+    const result = await interpreter.executeRun(
+      makeRunConfig(fanOutBlocks({ goto_merge: "conflict_error" })),
+    );
 
-    interpreter.blockExecutor.registerHandler("object", async (_block, ctx) => ({
-      stateDelta: {
-        hasName: ctx.state.name === "preset",
-        hasSecret: ctx.secrets.token === "secret-123",
-      },
-    }));
+    expect(result.status).toBe("completed");
+    expect(result.context.state.work_4).toBe(4);
+  });
 
-    const config = makeRunConfig(blocks, {
-      initialState: { name: "preset" },
-      secrets: { token: "secret-123" },
-    });
+  it("collects keyed iteration deltas under goto_merge_key in schedule order", async () => {
+    registerFanOut((count) => ({ last: count }), (count) => (5 - count) * 5);
 
-    const result = await interpreter.executeRun(config);
+    const result = await interpreter.executeRun(
+      makeRunConfig(fanOutBlocks({ goto_merge: "keyed", goto_merge_key: "results" })),
+    );
 
     expect(result.status).toBe("completed");
-    expect(result.context.state.hasName).toBe(true);
-    expect(result.context.state.hasSecret).toBe(true);
+    expect(result.context.state.results).toEqual([
+      { last: 1 },
+      { last: 2 },
+      { last: 3 },
+      { last: 4 },
+    ]);
+    expect(result.context.state.last).toBeUndefined();
   });
 
-  /* ── Goto to unknown target ─────────────────────────── */
+  it("isolates nested state between iterations and the parent", async () => {
+    const blocks: Block[] = [
+      makeBlock({
+        id: "b1",
+        name: "Defer Jump",
+        order: 0,
+        type: "goto",
+        logic: { goto_target: "Mutate", goto_defer: true },
+      }),
+      makeBlock({ id: "b2", name: "Read", order: 1, type: "read", logic: {} }),
+      makeBlock({
+        id: "b3",
+        name: "Mutate",
+        order: 2,
+        type: "mutate",
+        logic: {},
+        conditions: [{ left: "$state.seen", operator: "isNull", right: null }],
+      }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("mutate", async (_block, ctx) => {
+      (ctx.state.profile as { tags: string[] }).tags.push("deferred");
+      return {};
+    });
+    interpreter.blockExecutor.registerHandler("read", async (_block, ctx) => {
+      await new Promise((r) => setTimeout(r, 10));
+      return {
+        stateDelta: { seen: [...(ctx.state.profile as { tags: string[] }).tags] },
+      };
+    });
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks, {
+      initialState: { profile: { tags: ["initial"] } },
+    }));
+
+    expect(result.status).toBe("completed");
+    /* The main flow never saw the iteration's in-place mutation */
+    expect(result.context.state.seen).toEqual(["initial"]);
+    /* …but the merged result carries it */
+    expect(result.context.state.profile).toEqual({ tags: ["initial", "deferred"] });
+  });
+
+  it("isolates nested state when the state also holds an uncloneable value", async () => {
+    const blocks: Block[] = [
+      makeBlock({
+        id: "b1",
+        name: "Defer Jump",
+        order: 0,
+        type: "goto",
+        logic: { goto_target: "Mutate", goto_defer: true },
+      }),
+      makeBlock({ id: "b2", name: "Read", order: 1, type: "read", logic: {} }),
+      makeBlock({
+        id: "b3",
+        name: "Mutate",
+        order: 2,
+        type: "mutate",
+        logic: {},
+        conditions: [{ left: "$state.seen", operator: "isNull", right: null }],
+      }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("mutate", async (_block, ctx) => {
+      (ctx.state.profile as { tags: string[] }).tags.push("deferred");
+      return {};
+    });
+    interpreter.blockExecutor.registerHandler("read", async (_block, ctx) => {
+      await new Promise((r) => setTimeout(r, 10));
+      return {
+        stateDelta: { seen: [...(ctx.state.profile as { tags: string[] }).tags] },
+      };
+    });
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks, {
+      initialState: { profile: { tags: ["initial"] }, format: () => "unused" },
+    }));
+
+    expect(result.status).toBe("completed");
+    expect(result.context.state.seen).toEqual(["initial"]);
+    expect(result.context.state.profile).toEqual({ tags: ["initial", "deferred"] });
+  });
+
+  it("rejects an unknown goto_merge policy", async () => {
+    registerFanOut(() => ({}));
+
+    const result = await interpreter.executeRun(
+      makeRunConfig(fanOutBlocks({ goto_merge: "shuffle" })),
+    );
+
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toContain('unknown goto_merge "shuffle"');
+  });
+
+  /* ── Error handling: abort strategy ─────────────────── */
+
+  it("aborts run on block failure with abort strategy", async () => {
+    const blocks: Block[] = [
+      makeBlock({
+        id: "b1",
+        name: "Succeeds",
+        order: 0,
+        type: "object",
+        logic: {},
+      }),
+      makeBlock({
+        id: "b2",
+        name: "Fails",
+        order: 1,
+        type: "object",
+        logic: {},
+      }),
+      makeBlock({
+        id: "b3",
+        name: "Never Reached",
+        order: 2,
+        type: "object",
+        logic: {},
+      }),
+    ];
+
+    let callCount = 0;
+    interpreter.blockExecutor.registerHandler("object", async (block) => {
+      callCount++;
+      if (block.name === "Fails") {
+        throw new Error("Something went wrong");
+      }
+      return {};
+    });
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks));
+
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toMatch(/Something went wrong/);
+    expect(callCount).toBe(2); // Only Succeeds and Fails
+  });
+
+  /* ── Error handling: continue strategy ──────────────── */
+
+  it("continues on block failure with continue strategy", async () => {
+    const blocks: Block[] = [
+      makeBlock({
+        id: "b1",
+        name: "Fails",
+        order: 0,
+        type: "object",
+        logic: { on_error: "continue" },
+      }),
+      makeBlock({
+        id: "b2",
+        name: "Still Runs",
+        order: 1,
+        type: "object",
+        logic: {},
+      }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("object", async (block) => {
+      if (block.name === "Fails") {
+        throw new Error("Recoverable error");
+      }
+      return { stateDelta: { reached: true } };
+    });
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks));
+
+    expect(result.status).toBe("completed");
+    expect(result.steps[0].status).toBe("failed");
+    expect(result.steps[0].error?.message).toBe("Recoverable error");
+    expect(result.steps[1].status).toBe("completed");
+    expect(result.context.state.reached).toBe(true);
+  });
+
+  /* ── Step limit enforcement ─────────────────────────── */
+
+  it("enforces step limit", async () => {
+    const interp = new Interpreter({ maxSteps: 3 });
+
+    const blocks: Block[] = [
+      makeBlock({ id: "b1", name: "A", order: 0, type: "object", logic: {} }),
+      makeBlock({ id: "b2", name: "B", order: 1, type: "object", logic: {} }),
+      makeBlock({ id: "b3", name: "C", order: 2, type: "object", logic: {} }),
+      makeBlock({ id: "b4", name: "D", order: 3, type: "object", logic: {} }),
+    ];
+
+    interp.blockExecutor.registerHandler("object", async () => ({}));
+
+    const result = await interp.executeRun(makeRunConfig(blocks));
+
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toMatch(/Step limit reached/);
+  });
+
+  /* ── Initial state and secrets ──────────────────────── */
+
+  it("seeds initial state and secrets from RunConfig", async () => {
+    const blocks: Block[] = [
+      makeBlock({ id: "b1", name: "Check", order: 0, type: "object", logic: {} }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("object", async (_block, ctx) => ({
+      stateDelta: {
+        hasName: ctx.state.name === "preset",
+        hasSecret: ctx.secrets.token === "secret-123",
+      },
+    }));
+
+    const config = makeRunConfig(blocks, {
+      initialState: { name: "preset" },
+      secrets: { token: "secret-123" },
+    });
+
+    const result = await interpreter.executeRun(config);
+
+    expect(result.status).toBe("completed");
+    expect(result.context.state.hasName).toBe(true);
+    expect(result.context.state.hasSecret).toBe(true);
+  });
+
+  /* ── Goto to unknown target ─────────────────────────── */
 
   it("fails when goto references unknown target", async () => {
     const blocks: Block[] = [
@@ -1062,38 +1839,1282 @@ describe("Interpreter", () => {
     expect(result.context.state.gated).toBeUndefined();
   });
 
-  /* ── $error available after block failure ────────────── */
+  /* ── Cooperative cancellation ───────────────────────── */
 
-  it("makes $error available after a failed block", async () => {
+  it("returns cancelled without executing blocks when the signal is pre-aborted", async () => {
+    const blocks: Block[] = [
+      makeBlock({ id: "b1", name: "A", order: 0, type: "object", logic: {} }),
+    ];
+
+    let called = false;
+    interpreter.blockExecutor.registerHandler("object", async () => {
+      called = true;
+      return {};
+    });
+
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await interpreter.executeRun(
+      makeRunConfig(blocks, { signal: controller.signal }),
+    );
+
+    expect(result.status).toBe("cancelled");
+    expect(result.steps).toHaveLength(0);
+    expect(called).toBe(false);
+  });
+
+  it("stops between blocks and keeps the partial step list when cancelled", async () => {
+    const blocks: Block[] = [
+      makeBlock({ id: "b1", name: "First", order: 0, type: "object", logic: {} }),
+      makeBlock({ id: "b2", name: "Second", order: 1, type: "object", logic: {} }),
+    ];
+
+    const controller = new AbortController();
+    const executed: string[] = [];
+
+    interpreter.blockExecutor.registerHandler("object", async (block) => {
+      executed.push(block.name);
+      if (block.name === "First") controller.abort("Run cancelled by user");
+      return {};
+    });
+
+    const result = await interpreter.executeRun(
+      makeRunConfig(blocks, { signal: controller.signal }),
+    );
+
+    expect(result.status).toBe("cancelled");
+    expect(result.errorMessage).toBe("Run cancelled by user");
+    expect(executed).toEqual(["First"]);
+    expect(result.steps).toHaveLength(1);
+    expect(result.steps[0].status).toBe("completed");
+  });
+
+  it("cancels even when the interrupted block uses on_error: continue", async () => {
     const blocks: Block[] = [
       makeBlock({
         id: "b1",
-        name: "Fails",
+        name: "Slow",
         order: 0,
         type: "object",
         logic: { on_error: "continue" },
       }),
+      makeBlock({ id: "b2", name: "Never", order: 1, type: "object", logic: {} }),
+    ];
+
+    const controller = new AbortController();
+
+    interpreter.blockExecutor.registerHandler("object", async (block, ctx) => {
+      if (block.name === "Never") return { stateDelta: { reached: true } };
+      setTimeout(() => controller.abort(), 5);
+      await new Promise<void>((_resolve, reject) => {
+        ctx.signal?.addEventListener("abort", () => reject(new Error("interrupted")));
+      });
+      return {};
+    });
+
+    const result = await interpreter.executeRun(
+      makeRunConfig(blocks, { signal: controller.signal }),
+    );
+
+    expect(result.status).toBe("cancelled");
+    expect(result.steps).toHaveLength(1);
+    expect(result.steps[0].status).toBe("failed");
+    expect(result.context.state.reached).toBeUndefined();
+  });
+
+  it("stops inside a deferred iteration when cancelled", async () => {
+    const blocks: Block[] = [
       makeBlock({
-        id: "b2",
-        name: "Reads Error",
-        order: 1,
-        type: "object",
-        logic: {},
+        id: "b1",
+        name: "Defer Jump",
+        order: 0,
+        type: "goto",
+        logic: { goto_target: "Target", goto_defer: true },
       }),
+      makeBlock({ id: "b2", name: "Target", order: 1, type: "object", logic: {} }),
+      makeBlock({ id: "b3", name: "Tail", order: 2, type: "object", logic: {} }),
     ];
 
-    interpreter.blockExecutor.registerHandler("object", async (block, ctx) => {
-      if (block.name === "Fails") {
-        throw new Error("test error");
-      }
-      /* Read the error from the context manager */
-      const errorMsg = interpreter.contextManager.resolve("$error.message", ctx);
-      return { stateDelta: { capturedError: errorMsg } };
+    const controller = new AbortController();
+    const executed: string[] = [];
+
+    interpreter.blockExecutor.registerHandler("object", async (block) => {
+      executed.push(block.name);
+      controller.abort();
+      return {};
     });
 
-    const result = await interpreter.executeRun(makeRunConfig(blocks));
+    const result = await interpreter.executeRun(
+      makeRunConfig(blocks, { signal: controller.signal }),
+    );
+
+    expect(result.status).toBe("cancelled");
+    /* Main flow and iteration both reach Target; neither continues to Tail */
+    expect(executed).not.toContain("Tail");
+    expect(result.steps.some((s) => s.isDeferred && s.blockName === "Target")).toBe(true);
+  });
+
+  it("detaches from the run's signal once the run ends", async () => {
+    const blocks: Block[] = [
+      makeBlock({
+        id: "b1",
+        name: "Defer Jump",
+        order: 0,
+        type: "goto",
+        logic: { goto_target: "Target", goto_defer: true },
+      }),
+      makeBlock({ id: "b2", name: "Target", order: 1, type: "object", logic: {} }),
+    ];
+    const controller = new AbortController();
+    interpreter.blockExecutor.registerHandler("object", async () => ({}));
+
+    const result = await interpreter.executeRun(
+      makeRunConfig(blocks, { signal: controller.signal }),
+    );
+
+    expect(result.status).toBe("completed");
+    expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+  });
+
+  /* ── Observer hooks ─────────────────────────────────── */
+
+  it("notifies hooks as each step starts, finishes, and pauses", async () => {
+    const blocks: Block[] = [
+      makeBlock({ id: "b1", name: "Runs", order: 0, type: "object", logic: {} }),
+      makeBlock({
+        id: "b2",
+        name: "Skipped",
+        order: 1,
+        type: "object",
+        logic: {},
+        conditions: [{ left: "$state.never", operator: "==", right: "yes" }],
+      }),
+      makeBlock({
+        id: "b3",
+        name: "Fails",
+        order: 2,
+        type: "object",
+        logic: { on_error: "continue" },
+      }),
+      makeBlock({ id: "b4", name: "Form", order: 3, type: "ui_form", logic: {} }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("object", async (block) => {
+      if (block.name === "Fails") throw new Error("nope");
+      return { stateDelta: { ran: true } };
+    });
+
+    const events: string[] = [];
+    const result = await interpreter.executeRun(makeRunConfig(blocks, {
+      hooks: {
+        onStepStart: (step) => { events.push(`start:${step.blockName}`); },
+        onStepComplete: (step) => { events.push(`${step.status}:${step.blockName}`); },
+        onStepFailed: (step, error) => { events.push(`failed:${step.blockName}:${error.message}`); },
+        onRunPaused: (step) => { events.push(`paused:${step.blockName}`); },
+      },
+    }));
+
+    expect(result.status).toBe("awaiting_action");
+    expect(events).toEqual([
+      "start:Runs",
+      "completed:Runs",
+      "start:Skipped",
+      "skipped:Skipped",
+      "start:Fails",
+      "failed:Fails:nope",
+      "start:Form",
+      "completed:Form",
+      "paused:Form",
+    ]);
+  });
+
+  it("exposes step deltas to onStepComplete", async () => {
+    const blocks: Block[] = [
+      makeBlock({ id: "b1", name: "Writer", order: 0, type: "object", logic: {} }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("object", async () => ({
+      stateDelta: { written: 1 },
+    }));
+
+    let delta: Record<string, unknown> | undefined;
+    await interpreter.executeRun(makeRunConfig(blocks, {
+      hooks: { onStepComplete: (step) => { delta = step.stateDelta; } },
+    }));
+
+    expect(delta).toEqual({ written: 1 });
+  });
+
+  it("isolates the run from throwing or rejecting hooks", async () => {
+    const blocks: Block[] = [
+      makeBlock({ id: "b1", name: "A", order: 0, type: "object", logic: {} }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("object", async () => ({}));
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks, {
+      hooks: {
+        onStepStart: () => { throw new Error("observer bug"); },
+        onStepComplete: async () => { throw new Error("async observer bug"); },
+      },
+    }));
+
+    expect(result.status).toBe("completed");
+    expect(result.steps[0].status).toBe("completed");
+  });
+
+  /* ── Checkpoints ──────────────────────────────────────── */
+
+  it("checkpoints after each top-level block with an isolated snapshot", async () => {
+    const blocks: Block[] = [
+      makeBlock({ id: "b1", name: "A", order: 0, type: "object", logic: {} }),
+      makeBlock({ id: "b2", name: "B", order: 1, type: "object", logic: {} }),
+      makeBlock({ id: "b3", name: "C", order: 2, type: "object", logic: {} }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("object", async (block, ctx) => ({
+      stateDelta: { seen: [...((ctx.state.seen as string[]) ?? []), block.name] },
+      cacheDelta: { last: block.name },
+    }));
+
+    const checkpoints: RunCheckpoint[] = [];
+    await interpreter.executeRun(makeRunConfig(blocks, {
+      hooks: { onCheckpoint: (checkpoint) => { checkpoints.push(checkpoint); } },
+    }));
+
+    expect(checkpoints.map((c) => c.nextBlockIndex)).toEqual([1, 2]);
+    expect(checkpoints[0].context.state).toEqual({ seen: ["A"] });
+    expect(checkpoints[0].context.cache).toEqual([["last", "A"]]);
+    expect(checkpoints[0].steps.map((s) => s.blockName)).toEqual(["A"]);
+    expect(checkpoints[1].steps.map((s) => s.status)).toEqual(["completed", "completed"]);
+    expect(checkpoints[0].redacted).toBeUndefined();
+  });
+
+  it("resumes from a checkpoint, appending to its steps", async () => {
+    const blocks: Block[] = [
+      makeBlock({ id: "b1", name: "A", order: 0, type: "object", logic: {} }),
+      makeBlock({ id: "b2", name: "B", order: 1, type: "object", logic: {} }),
+    ];
+
+    const ran: string[] = [];
+    interpreter.blockExecutor.registerHandler("object", async (block) => {
+      ran.push(block.name);
+      return { stateDelta: { [block.name]: true } };
+    });
+
+    let checkpoint: RunCheckpoint | undefined;
+    await interpreter.executeRun(makeRunConfig(blocks, {
+      hooks: { onCheckpoint: (c) => { checkpoint ??= c; } },
+    }));
+    ran.length = 0;
+
+    const context = makeContext({
+      state: checkpoint!.context.state,
+      cache: new Map(checkpoint!.context.cache),
+    });
+    const result = await interpreter.resumeRun(
+      makeRunConfig(blocks, { priorSteps: checkpoint!.steps }),
+      checkpoint!.nextBlockIndex,
+      context,
+    );
+
+    expect(result.status).toBe("completed");
+    expect(ran).toEqual(["B"]);
+    expect(result.context.state).toEqual({ A: true, B: true });
+    expect(result.steps.map((s) => [s.blockName, s.executionOrder])).toEqual([["A", 0], ["B", 1]]);
+  });
+
+  it("does not checkpoint inside a loop body", async () => {
+    const blocks: Block[] = [
+      makeBlock({
+        id: "each",
+        name: "Each",
+        order: 0,
+        type: "loop",
+        logic: { loop_over: "$state.items", loop_body_end: "Body" },
+      }),
+      makeBlock({ id: "b2", name: "Body", order: 1, type: "object", logic: {} }),
+      makeBlock({ id: "b3", name: "After", order: 2, type: "object", logic: {} }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("object", async () => ({}));
+
+    const indexes: number[] = [];
+    const result = await interpreter.executeRun(makeRunConfig(blocks, {
+      initialState: { items: [1, 2, 3] },
+      hooks: { onCheckpoint: (c) => { indexes.push(c.nextBlockIndex); } },
+    }));
+
+    expect(result.status).toBe("completed");
+    expect(indexes).toEqual([2]);
+  });
+
+  it("redacts resolved key values from checkpoints", async () => {
+    const blocks: Block[] = [
+      makeBlock({ id: "b1", name: "Stores Key", order: 0, type: "object", logic: { token: "$keys.api_token" } }),
+      makeBlock({ id: "b2", name: "Next", order: 1, type: "noop", logic: {} }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("object", async (block, ctx) => ({
+      stateDelta: { token: interpreter.contextManager.resolveValue(block.logic.token, ctx) },
+    }));
+    interpreter.blockExecutor.registerHandler("noop", async () => ({}));
+
+    const checkpoints: RunCheckpoint[] = [];
+    await interpreter.executeRun(makeRunConfig(blocks, {
+      keyResolver: async () => "sk-live-123456",
+      hooks: { onCheckpoint: (c) => { checkpoints.push(c); } },
+    }));
+
+    expect(checkpoints[0].context.state).toEqual({ token: "[REDACTED]" });
+    /* Marked, so recovery does not resume with the placeholder */
+    expect(checkpoints[0].redacted).toBe(true);
+  });
+
+  /* ── $keys resolution ─────────────────────────────────── */
+
+  it("resolves $keys through an async resolver before the block runs", async () => {
+    const blocks: Block[] = [
+      makeBlock({
+        id: "b1",
+        name: "Uses Key",
+        order: 0,
+        type: "object",
+        logic: { header: "Bearer {{$keys.api_token}}" },
+      }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("object", async (block, ctx) => ({
+      stateDelta: {
+        header: interpreter.contextManager.resolveValue(block.logic.header, ctx),
+      },
+    }));
+
+    const resolved: string[] = [];
+    const result = await interpreter.executeRun(makeRunConfig(blocks, {
+      keyResolver: async (name) => {
+        resolved.push(name);
+        return "sk-live-123456";
+      },
+    }));
+
+    expect(result.status).toBe("completed");
+    expect(resolved).toEqual(["api_token"]);
+    expect(result.context.state.header).toBe("Bearer sk-live-123456");
+  });
+
+  it("redacts resolved key values from recorded steps", async () => {
+    const blocks: Block[] = [
+      makeBlock({
+        id: "b1",
+        name: "Leaks Key",
+        order: 0,
+        type: "object",
+        logic: { token: "$keys.api_token" },
+      }),
+      makeBlock({
+        id: "b2",
+        name: "Fails With Key",
+        order: 1,
+        type: "object",
+        logic: { token: "$keys.api_token", on_error: "continue" },
+      }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("object", async (block, ctx) => {
+      const token = interpreter.contextManager.resolveValue(block.logic.token, ctx);
+      if (block.name === "Fails With Key") throw new Error(`rejected ${String(token)}`);
+      return { stateDelta: { echoed: { token } } };
+    });
+
+    const streamed: unknown[] = [];
+    const result = await interpreter.executeRun(makeRunConfig(blocks, {
+      keyResolver: async () => "sk-live-123456",
+      hooks: { onStepComplete: (step) => { streamed.push(step.stateDelta); } },
+    }));
+
+    expect(result.steps[0].stateDelta).toEqual({ echoed: { token: "[REDACTED]" } });
+    expect(result.steps[1].error?.message).toBe("rejected [REDACTED]");
+    expect(streamed).toEqual([{ echoed: { token: "[REDACTED]" } }]);
+
+    /* The live context keeps the real value for later blocks */
+    expect(result.context.state.echoed).toEqual({ token: "sk-live-123456" });
+  });
+
+  it("fails the step when a key cannot be resolved", async () => {
+    const blocks: Block[] = [
+      makeBlock({
+        id: "b1",
+        name: "Missing Key",
+        order: 0,
+        type: "object",
+        logic: { token: "$keys.missing" },
+      }),
+    ];
+
+    const handler = vi.fn(async () => ({}));
+    interpreter.blockExecutor.registerHandler("object", handler);
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks, {
+      keyResolver: async (name) => {
+        throw new Error(`Key "${name}" not found in any store`);
+      },
+    }));
+
+    expect(result.status).toBe("failed");
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.steps[0].status).toBe("failed");
+    expect(result.steps[0].error?.message).toBe('Key "missing" not found in any store');
+  });
+
+  /* ── $error available after block failure ────────────── */
+
+  it("makes $error available after a failed block", async () => {
+    const blocks: Block[] = [
+      makeBlock({
+        id: "b1",
+        name: "Fails",
+        order: 0,
+        type: "object",
+        logic: { on_error: "continue" },
+      }),
+      makeBlock({
+        id: "b2",
+        name: "Reads Error",
+        order: 1,
+        type: "object",
+        logic: {},
+      }),
+    ];
+
+    interpreter.blockExecutor.registerHandler("object", async (block, ctx) => {
+      if (block.name === "Fails") {
+        throw new Error("test error");
+      }
+      /* Read the error from the context manager */
+      const errorMsg = interpreter.contextManager.resolve("$error.message", ctx);
+      return { stateDelta: { capturedError: errorMsg } };
+    });
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks));
 
     expect(result.status).toBe("completed");
     expect(result.context.state.capturedError).toBe("test error");
   });
+
+  /* ── Loops ──────────────────────────────────────────── */
+
+  /** Appends the resolved `append_value` to `state.log` */
+  function registerAppend() {
+    interpreter.blockExecutor.registerHandler("append", async (block, ctx) => {
+      const value = interpreter.contextManager.resolveValue(block.logic.append_value, ctx);
+      return { stateDelta: { log: [...((ctx.state.log as unknown[]) ?? []), value] } };
+    });
+  }
+
+  it("for_each runs the body once per item with $item and $index", async () => {
+    registerAppend();
+    const blocks = [
+      makeBlock({
+        id: "each",
+        name: "Each",
+        order: 0,
+        type: "loop",
+        logic: { loop_over: "$state.items", loop_body_end: "Record" },
+      }),
+      makeBlock({
+        id: "b2",
+        name: "Record",
+        order: 1,
+        type: "append",
+        logic: { append_value: "{{$index}}:{{$item}}" },
+      }),
+      makeBlock({ id: "b3", name: "After", order: 2, type: "append", logic: { append_value: "end" } }),
+    ];
+
+    const result = await interpreter.executeRun(
+      makeRunConfig(blocks, { initialState: { items: ["a", "b", "c"] } }),
+    );
+
+    expect(result.status).toBe("completed");
+    expect(result.context.state.log).toEqual(["0:a", "1:b", "2:c", "end"]);
+    expect(result.context.loops).toEqual({});
+
+    const loopStep = result.steps.find((s) => s.blockName === "Each");
+    expect(loopStep?.status).toBe("completed");
+    expect(loopStep?.stateDelta).toEqual({ _loop_iterations: 3, _loop_exit: "completed" });
+  });
+
+  it("for_each over $artifacts exposes each artifact as $row", async () => {
+    registerAppend();
+    const blocks = [
+      makeBlock({
+        id: "each",
+        name: "Each",
+        order: 0,
+        type: "loop",
+        logic: { loop_over: "$artifacts", loop_body_end: "Record" },
+      }),
+      makeBlock({
+        id: "b2",
+        name: "Record",
+        order: 1,
+        type: "append",
+        logic: { append_value: "$row.name" },
+      }),
+    ];
+
+    /* Start from a context that already holds artifacts */
+    const context = makeContext({
+      artifacts: [
+        { id: "a1", workflowId: "wf-1", type: "image", name: "one.png" },
+        { id: "a2", workflowId: "wf-1", type: "image", name: "two.png" },
+      ] as WorkflowContext["artifacts"],
+    });
+    const result = await interpreter.resumeRun(makeRunConfig(blocks), 0, context);
+
+    expect(result.status).toBe("completed");
+    expect(result.context.state.log).toEqual(["one.png", "two.png"]);
+  });
+
+  it("while loops until its conditions fail", async () => {
+    interpreter.blockExecutor.registerHandler("increment", async (_block, ctx) => ({
+      stateDelta: { n: ((ctx.state.n as number) ?? 0) + 1 },
+    }));
+
+    const blocks = [
+      makeBlock({
+        id: "w",
+        name: "While",
+        order: 0,
+        type: "loop",
+        logic: {
+          loop_mode: "while",
+          loop_conditions: [{ left: "$state.n", operator: "<", right: 4 }],
+          loop_body_end: "Increment",
+        },
+      }),
+      makeBlock({ id: "b2", name: "Increment", order: 1, type: "increment", logic: {} }),
+    ];
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks, { initialState: { n: 0 } }));
+
+    expect(result.status).toBe("completed");
+    expect(result.context.state.n).toBe(4);
+    expect(result.steps.filter((s) => s.blockName === "Increment")).toHaveLength(4);
+  });
+
+  it("nested loops resolve both $loop.outer.index and $loop.inner.index", async () => {
+    registerAppend();
+    const blocks = [
+      makeBlock({
+        id: "outer",
+        name: "Outer",
+        order: 0,
+        type: "loop",
+        logic: { loop_over: [1, 2], loop_body_end: "Record" },
+      }),
+      makeBlock({
+        id: "inner",
+        name: "Inner",
+        order: 1,
+        type: "loop",
+        logic: { loop_over: ["x", "y", "z"], loop_body_end: "Record" },
+      }),
+      makeBlock({
+        id: "b3",
+        name: "Record",
+        order: 2,
+        type: "append",
+        logic: { append_value: "{{$loop.outer.index}}.{{$loop.inner.index}}={{$item}}" },
+      }),
+    ];
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks));
+
+    expect(result.status).toBe("completed");
+    expect(result.context.state.log).toEqual([
+      "0.0=x", "0.1=y", "0.2=z",
+      "1.0=x", "1.1=y", "1.2=z",
+    ]);
+  });
+
+  it("break and continue end the current iteration", async () => {
+    registerAppend();
+    const blocks = [
+      makeBlock({
+        id: "each",
+        name: "Each",
+        order: 0,
+        type: "loop",
+        logic: { loop_over: [1, 2, 3, 4, 5], loop_body_end: "Record" },
+      }),
+      makeBlock({
+        id: "b2",
+        name: "Skip Two",
+        order: 1,
+        type: "continue",
+        conditions: [{ left: "$item", operator: "==", right: 2 }],
+      }),
+      makeBlock({
+        id: "b3",
+        name: "Stop At Four",
+        order: 2,
+        type: "break",
+        conditions: [{ left: "$item", operator: "==", right: 4 }],
+      }),
+      makeBlock({ id: "b4", name: "Record", order: 3, type: "append", logic: { append_value: "$item" } }),
+    ];
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks));
+
+    expect(result.status).toBe("completed");
+    expect(result.context.state.log).toEqual([1, 3]);
+    expect(result.steps.find((s) => s.blockName === "Each")?.stateDelta).toEqual({
+      _loop_iterations: 4,
+      _loop_exit: "break",
+    });
+  });
+
+  it("fails a loop that exceeds loop_max_iterations", async () => {
+    interpreter.blockExecutor.registerHandler("noop", async () => ({}));
+    const blocks = [
+      makeBlock({
+        id: "w",
+        name: "Forever",
+        order: 0,
+        type: "loop",
+        logic: { loop_mode: "while", loop_body_end: "Noop", loop_max_iterations: 5 },
+      }),
+      makeBlock({ id: "b2", name: "Noop", order: 1, type: "noop", logic: {} }),
+    ];
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks));
+
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toBe('Loop "Forever" exceeded 5 iterations.');
+    expect(result.steps.filter((s) => s.blockName === "Noop")).toHaveLength(5);
+    expect(result.steps.find((s) => s.blockName === "Forever")?.status).toBe("failed");
+  });
+
+  it("caps an unbounded while loop at the run's step limit", async () => {
+    const limited = new Interpreter({ maxSteps: 20 });
+    limited.blockExecutor.registerHandler("noop", async () => ({}));
+    const blocks = [
+      makeBlock({
+        id: "w",
+        name: "Forever",
+        order: 0,
+        type: "loop",
+        logic: { loop_mode: "while", loop_body_end: "Noop" },
+      }),
+      makeBlock({ id: "b2", name: "Noop", order: 1, type: "noop", logic: {} }),
+    ];
+
+    const result = await limited.executeRun(makeRunConfig(blocks));
+
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toContain("Step limit reached (20)");
+  });
+
+  it("rejects break outside a loop and UI blocks inside one", async () => {
+    const stray = await interpreter.executeRun(
+      makeRunConfig([makeBlock({ id: "b1", name: "Stray", order: 0, type: "break" })]),
+    );
+    expect(stray.status).toBe("failed");
+    expect(stray.errorMessage).toBe('Break block "Stray" is not inside a loop.');
+
+    const withUi = await interpreter.executeRun(
+      makeRunConfig([
+        makeBlock({
+          id: "each",
+          name: "Each",
+          order: 0,
+          type: "loop",
+          logic: { loop_over: [1], loop_body_end: "Form" },
+        }),
+        makeBlock({ id: "b2", name: "Form", order: 1, type: "ui_form" }),
+      ]),
+    );
+    expect(withUi.status).toBe("failed");
+    expect(withUi.errorMessage).toBe('Loop block "Each" cannot contain UI block "Form".');
+  });
+
+  it("rejects a goto that jumps out of a loop body", async () => {
+    interpreter.blockExecutor.registerHandler("noop", async () => ({}));
+    const blocks = [
+      makeBlock({ id: "b0", name: "Start", order: 0, type: "noop" }),
+      makeBlock({
+        id: "each",
+        name: "Each",
+        order: 1,
+        type: "loop",
+        logic: { loop_over: [1, 2], loop_body_end: "Escape" },
+      }),
+      makeBlock({
+        id: "b2",
+        name: "Escape",
+        order: 2,
+        type: "goto",
+        logic: { goto_target: "Start" },
+      }),
+    ];
+
+    const result = await interpreter.executeRun(makeRunConfig(blocks));
+
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toBe('Goto block "Escape" cannot jump outside loop "Each".');
+  });
+
+  /* ── Block retry and timeout ────────────────────────── */
+
+  it("records attempts on the step and fails the run once retries run out", async () => {
+    let calls = 0;
+    interpreter.blockExecutor.registerHandler("flaky", async () => {
+      calls++;
+      throw new Error(`attempt ${calls}`);
+    });
+
+    const result = await interpreter.executeRun(
+      makeRunConfig([
+        makeBlock({
+          id: "b1",
+          name: "Flaky",
+          order: 0,
+          type: "flaky",
+          logic: { on_error: "retry", retry_max: 1, retry_backoff_ms: 0 },
+        }),
+      ]),
+    );
+
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toBe('Block "Flaky" failed: attempt 2');
+    expect(result.steps).toHaveLength(1);
+    expect(result.steps[0].attempts?.map((a) => a.error)).toEqual(["attempt 1", "attempt 2"]);
+  });
+
+  it("cancels a retry backoff when the run is cancelled", async () => {
+    const controller = new AbortController();
+    interpreter.blockExecutor.registerHandler("flaky", async () => {
+      setTimeout(() => controller.abort("Stop"), 5);
+      throw new Error("transient");
+    });
+
+    const started = Date.now();
+    const result = await interpreter.executeRun(
+      makeRunConfig(
+        [
+          makeBlock({
+            id: "b1",
+            name: "Flaky",
+            order: 0,
+            type: "flaky",
+            logic: { on_error: "retry", retry_max: 5, retry_backoff_ms: 10_000 },
+          }),
+        ],
+        { signal: controller.signal },
+      ),
+    );
+
+    expect(result.status).toBe("cancelled");
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+
+  /* ── Group error handling ───────────────────────────── */
+
+  function groupedConfig(blocks: Block[], groups: BlockGroup[]): RunConfig {
+    return makeRunConfig(blocks, { workflowVersion: { ...makeVersion(blocks), groups } });
+  }
+
+  /** Records each block that runs; "flaky" fails until `failures` runs have happened */
+  function registerGroupHandlers(failures: number) {
+    let flakyRuns = 0;
+    interpreter.blockExecutor.registerHandler("record", async (block, ctx) => ({
+      stateDelta: { ran: [...((ctx.state.ran as string[]) ?? []), block.name] },
+    }));
+    interpreter.blockExecutor.registerHandler("flaky", async () => {
+      flakyRuns++;
+      if (flakyRuns <= failures) throw new Error(`attempt ${flakyRuns} failed`);
+      return { stateDelta: { flaky: "ok" } };
+    });
+    interpreter.blockExecutor.registerHandler("capture", async (_block, ctx) => ({
+      stateDelta: { caught: interpreter.contextManager.resolve("$error.message", ctx) },
+    }));
+  }
+
+  const groupBlocks = () => [
+    makeBlock({ id: "b1", name: "Flaky", order: 0, type: "flaky" }),
+    makeBlock({ id: "b2", name: "After Flaky", order: 1, type: "record" }),
+    makeBlock({ id: "b3", name: "Cleanup", order: 2, type: "record" }),
+    makeBlock({ id: "b4", name: "Next", order: 3, type: "record" }),
+    makeBlock({ id: "b5", name: "Handler", order: 4, type: "capture" }),
+  ];
+
+  it("jumps to the group's catch block with $error populated", async () => {
+    registerGroupHandlers(Infinity);
+    const result = await interpreter.executeRun(
+      groupedConfig(groupBlocks(), [
+        { id: "g1", name: "Try", startBlockId: "b1", endBlockId: "b2", catchBlockId: "b5" },
+      ]),
+    );
+
+    expect(result.status).toBe("completed");
+    expect(result.context.state.caught).toBe("attempt 1 failed");
+    expect(result.context.state.ran).toBeUndefined();
+    expect(result.steps.map((s) => `${s.blockName}:${s.status}`)).toEqual([
+      "Flaky:failed",
+      "Handler:completed",
+    ]);
+  });
+
+  it("retries the group before giving up", async () => {
+    registerGroupHandlers(2);
+    const result = await interpreter.executeRun(
+      groupedConfig(groupBlocks(), [
+        {
+          id: "g1",
+          name: "Try",
+          startBlockId: "b1",
+          endBlockId: "b2",
+          retry: { maxAttempts: 3, backoffMs: 1 },
+        },
+      ]),
+    );
+
+    expect(result.status).toBe("completed");
+    expect(result.context.state.flaky).toBe("ok");
+    expect(result.steps.filter((s) => s.blockName === "Flaky").map((s) => s.status)).toEqual([
+      "failed",
+      "failed",
+      "completed",
+    ]);
+  });
+
+  it("runs the finally range once on success and before the catch on failure", async () => {
+    const groups: BlockGroup[] = [
+      {
+        id: "g1",
+        name: "Try",
+        startBlockId: "b1",
+        endBlockId: "b2",
+        finallyEndBlockId: "b3",
+        catchBlockId: "b5",
+      },
+    ];
+
+    registerGroupHandlers(0);
+    const ok = await interpreter.executeRun(groupedConfig(groupBlocks(), groups));
+    expect(ok.status).toBe("completed");
+    expect(ok.context.state.ran).toEqual(["After Flaky", "Cleanup", "Next"]);
+
+    registerGroupHandlers(Infinity);
+    const failed = await interpreter.executeRun(groupedConfig(groupBlocks(), groups));
+    expect(failed.status).toBe("completed");
+    expect(failed.context.state.ran).toEqual(["Cleanup"]);
+    expect(failed.context.state.caught).toBe("attempt 1 failed");
+  });
+
+  it("fails the run after the finally range when there is no catch block", async () => {
+    registerGroupHandlers(Infinity);
+    const result = await interpreter.executeRun(
+      groupedConfig(groupBlocks(), [
+        {
+          id: "g1",
+          name: "Try",
+          startBlockId: "b1",
+          endBlockId: "b2",
+          retry: { maxAttempts: 2 },
+          finallyEndBlockId: "b3",
+        },
+      ]),
+    );
+
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toBe('Block "Flaky" failed: attempt 2 failed');
+    expect(result.context.state.ran).toEqual(["Cleanup"]);
+  });
+
+  it("runs the finally range when break leaves a group inside a loop", async () => {
+    registerGroupHandlers(0);
+    const blocks = [
+      makeBlock({
+        id: "l",
+        name: "Each",
+        order: 0,
+        type: "loop",
+        logic: { loop_over: [1, 2], loop_body_end: "Cleanup" },
+      }),
+      makeBlock({ id: "b1", name: "Work", order: 1, type: "record" }),
+      makeBlock({ id: "b2", name: "Stop", order: 2, type: "break" }),
+      makeBlock({ id: "b3", name: "Cleanup", order: 3, type: "record" }),
+    ];
+
+    const result = await interpreter.executeRun(
+      groupedConfig(blocks, [
+        { id: "g1", name: "Try", startBlockId: "b1", endBlockId: "b2", finallyEndBlockId: "b3" },
+      ]),
+    );
+
+    expect(result.status).toBe("completed");
+    expect(result.context.state.ran).toEqual(["Work", "Cleanup"]);
+  });
+
+  it("ignores groups without error handling", async () => {
+    registerGroupHandlers(Infinity);
+    const result = await interpreter.executeRun(
+      groupedConfig(groupBlocks(), [{ id: "g1", name: "Section", startBlockId: "b1", endBlockId: "b2" }]),
+    );
+
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toBe('Block "Flaky" failed: attempt 1 failed');
+  });
+
+  it("handles failures inside a group in deferred iterations", async () => {
+    registerGroupHandlers(Infinity);
+    const blocks = [
+      makeBlock({ id: "d", name: "Spawn", order: -1, type: "goto", logic: { goto_target: "Flaky", goto_defer: true } }),
+      ...groupBlocks(),
+    ];
+
+    const result = await interpreter.executeRun(
+      groupedConfig(blocks, [
+        { id: "g1", name: "Try", startBlockId: "b1", endBlockId: "b2", catchBlockId: "b5" },
+      ]),
+    );
+
+    expect(result.status).toBe("completed");
+    expect(result.steps.filter((s) => s.isDeferred).map((s) => `${s.blockName}:${s.status}`)).toEqual([
+      "Flaky:failed",
+      "Handler:completed",
+    ]);
+  });
+
+  /* ── Workflow calls ───────────────────────────────────── */
+
+  describe("workflow blocks", () => {
+    const callBlock = (logic: Record<string, unknown>) =>
+      makeBlock({ id: "call", name: "Call", order: 0, type: "workflow", logic });
+
+    /** A host that runs every called workflow as one "double" block, recursing through the interpreter */
+    function recursiveHost(calls: WorkflowInvocation[]): WorkflowInvoker {
+      const invoke: WorkflowInvoker = async (invocation) => {
+        calls.push(invocation);
+        const child = await interpreter.executeRun(
+          makeRunConfig(
+            invocation.workflowId === "wf-loop"
+              ? [callBlock({ workflow_id: "wf-loop" })]
+              : [makeBlock({ id: "d", name: "Double", order: 0, type: "double" })],
+            {
+              runId: `child-${calls.length}`,
+              event: invocation.input,
+              invokeWorkflow: invoke,
+              callDepth: invocation.depth,
+            },
+          ),
+        );
+        return {
+          runId: `child-${calls.length}`,
+          version: invocation.version ?? 1,
+          status: child.status,
+          output: child.context.state,
+          errorMessage: child.errorMessage,
+        };
+      };
+      return invoke;
+    }
+
+    beforeEach(() => {
+      interpreter.blockExecutor.registerHandler("workflow", workflowExecutor);
+      interpreter.blockExecutor.registerHandler("double", async (_block, context) => ({
+        stateDelta: { doubled: Number(context.event["n"]) * 2, nested: { n: context.event["n"] } },
+      }));
+    });
+
+    it("runs the called workflow with mapped input and binds its output", async () => {
+      const calls: WorkflowInvocation[] = [];
+      const result = await interpreter.executeRun(
+        makeRunConfig(
+          [
+            callBlock({
+              workflow_id: "wf-child",
+              workflow_version: 3,
+              workflow_input: { n: "$state.n" },
+              workflow_bind_value: "$state.child",
+              workflow_output_map: { n: "nested.n" },
+            }),
+          ],
+          { initialState: { n: 21 }, invokeWorkflow: recursiveHost(calls) },
+        ),
+      );
+
+      expect(result.status).toBe("completed");
+      expect(result.context.state.child).toEqual({ doubled: 42, nested: { n: 21 } });
+      expect(result.context.state.n).toBe(21);
+      expect(calls).toEqual([
+        expect.objectContaining({
+          workflowId: "wf-child",
+          version: 3,
+          input: { n: 21 },
+          blockId: "call",
+          parentRunId: "run-1",
+          depth: 1,
+        }),
+      ]);
+      expect(result.steps[0].eventDelta).toEqual({ childRunId: "child-1", workflowId: "wf-child", version: 3 });
+    });
+
+    it("stops recursive calls at the depth limit", async () => {
+      const shallow = new Interpreter({ maxCallDepth: 3 });
+      shallow.blockExecutor.registerHandler("workflow", workflowExecutor);
+      interpreter = shallow;
+
+      const calls: WorkflowInvocation[] = [];
+      const result = await shallow.executeRun(
+        makeRunConfig([callBlock({ workflow_id: "wf-loop" })], { invokeWorkflow: recursiveHost(calls) }),
+      );
+
+      expect(result.status).toBe("failed");
+      expect(calls.map((c) => c.depth)).toEqual([1, 2, 3]);
+      expect(result.errorMessage).toContain("Workflow call depth limit reached (3)");
+    });
+
+    it("fails the block when the child run fails or no host can run workflows", async () => {
+      const failing: WorkflowInvoker = async () => ({
+        runId: "child-x",
+        version: 1,
+        status: "failed",
+        output: {},
+        errorMessage: "boom",
+      });
+      const failed = await interpreter.executeRun(
+        makeRunConfig([callBlock({ workflow_id: "wf-child" })], { invokeWorkflow: failing }),
+      );
+      expect(failed.errorMessage).toContain('Workflow "wf-child" run child-x failed: boom');
+
+      const unsupported = await interpreter.executeRun(makeRunConfig([callBlock({ workflow_id: "wf-child" })]));
+      expect(unsupported.errorMessage).toContain("Workflow calls are not available in this environment");
+    });
+  });
+
+  describe("simulation", () => {
+    const fetched = vi.fn();
+
+    beforeEach(() => {
+      fetched.mockReset();
+      interpreter.blockExecutor.registerHandler("fetch", async () => {
+        fetched();
+        return { stateDelta: { live: true } };
+      });
+      interpreter.blockExecutor.registerHandler("object", async (block, ctx) => ({
+        stateDelta: { [block.logic.object_key as string]: ctx.state.response ?? "none" },
+      }));
+    });
+
+    it("returns mocks by block ID before type, and stubs side effects by default", async () => {
+      const blocks = [
+        makeBlock({ id: "f1", name: "Fetch One", order: 0, type: "fetch" }),
+        makeBlock({ id: "copy", name: "Copy", order: 1, type: "object", logic: { object_key: "copied" } }),
+        makeBlock({ id: "f2", name: "Fetch Two", order: 2, type: "fetch" }),
+        makeBlock({ id: "nap", name: "Nap", order: 3, type: "sleep", logic: { sleep_duration_ms: 60_000 } }),
+      ];
+
+      const result = await interpreter.executeRun(makeRunConfig(blocks, {
+        simulation: {
+          blocks: { f1: { stateDelta: { response: { ok: 1 } } } },
+          types: { fetch: { stateDelta: { typed: true } } },
+        },
+      }));
+
+      expect(result.status).toBe("completed");
+      expect(fetched).not.toHaveBeenCalled();
+      expect(result.context.state).toEqual({ response: { ok: 1 }, copied: { ok: 1 }, typed: true });
+      expect(result.steps.map((s) => s.simulated)).toEqual(["mock", undefined, "mock", "stub"]);
+    });
+
+    it("stubs code blocks by default, since their sandbox can fetch", async () => {
+      const ranCode = vi.fn();
+      interpreter.blockExecutor.registerHandler("code", async () => {
+        ranCode();
+        return {};
+      });
+
+      const result = await interpreter.executeRun(makeRunConfig(
+        [makeBlock({ id: "c1", name: "Script", order: 0, type: "code", logic: { code_source: "await fetch('https://example.com')" } })],
+        { simulation: {} },
+      ));
+
+      expect(ranCode).not.toHaveBeenCalled();
+      expect(result.steps[0].simulated).toBe("stub");
+    });
+
+    it("runs stubbed types for real when the stub list leaves them out", async () => {
+      const result = await interpreter.executeRun(makeRunConfig(
+        [makeBlock({ id: "f1", name: "Fetch", order: 0, type: "fetch" })],
+        { simulation: { stub: [] } },
+      ));
+
+      expect(fetched).toHaveBeenCalledOnce();
+      expect(result.context.state.live).toBe(true);
+      expect(result.steps[0].simulated).toBeUndefined();
+    });
+
+    it("fails a block with an error mock and applies its on_error strategy", async () => {
+      const blocks = [
+        makeBlock({ id: "f1", name: "Fetch", order: 0, type: "fetch", logic: { on_error: "continue" } }),
+        makeBlock({ id: "copy", name: "Copy", order: 1, type: "object", logic: { object_key: "after" } }),
+      ];
+
+      const result = await interpreter.executeRun(makeRunConfig(blocks, {
+        simulation: { blocks: { f1: { error: "503 Service Unavailable" } } },
+      }));
+
+      expect(result.status).toBe("completed");
+      expect(result.steps[0]).toMatchObject({ status: "failed", simulated: "mock" });
+      expect(result.steps[0].error?.message).toBe("503 Service Unavailable");
+      expect(result.context.state.after).toBe("none");
+    });
+
+    it("completes mocked UI blocks instead of pausing", async () => {
+      const blocks = [
+        makeBlock({ id: "form", name: "Form", order: 0, type: "ui_form" }),
+        makeBlock({ id: "copy", name: "Copy", order: 1, type: "object", logic: { object_key: "copied" } }),
+      ];
+
+      const result = await interpreter.executeRun(makeRunConfig(blocks, {
+        simulation: { types: { ui_form: { stateDelta: { response: "submitted" } } } },
+      }));
+
+      expect(result.status).toBe("completed");
+      expect(result.context.state.copied).toBe("submitted");
+
+      const paused = await interpreter.executeRun(makeRunConfig(blocks, { simulation: {} }));
+      expect(paused.status).toBe("awaiting_action");
+    });
+
+    it("gives each run of a mocked block its own copy of the fixture", async () => {
+      const blocks = [
+        makeBlock({
+          id: "loop", name: "Loop", order: 0, type: "loop",
+          logic: { loop_over: [1, 2], loop_body_end: "Fetch" },
+        }),
+        makeBlock({ id: "f1", name: "Fetch", order: 1, type: "fetch" }),
+      ];
+
+      const result = await interpreter.executeRun(makeRunConfig(blocks, {
+        simulation: { blocks: { f1: { stateDelta: { response: { items: [] } } } } },
+      }));
+
+      expect(result.status).toBe("completed");
+      const deltas = result.steps.filter((s) => s.blockId === "f1").map((s) => s.stateDelta?.response);
+      expect(deltas).toHaveLength(2);
+      expect(deltas[0]).not.toBe(deltas[1]);
+    });
+
+    it("applies mocks and stubs inside deferred iterations", async () => {
+      const blocks = [
+        makeBlock({
+          id: "fan", name: "Fan out", order: 0, type: "goto",
+          logic: { goto_target: "Fetch", goto_defer: true },
+        }),
+        makeBlock({ id: "f1", name: "Fetch", order: 1, type: "fetch" }),
+      ];
+
+      const result = await interpreter.executeRun(makeRunConfig(blocks, {
+        simulation: { blocks: { f1: { stateDelta: { response: "mocked" } } } },
+      }));
+
+      expect(result.status).toBe("completed");
+      expect(fetched).not.toHaveBeenCalled();
+      const fetches = result.steps.filter((s) => s.blockId === "f1");
+      expect(fetches.map((s) => [s.isDeferred ?? false, s.simulated])).toEqual(
+        expect.arrayContaining([[true, "mock"], [false, "mock"]]),
+      );
+    });
+  });
+
+  describe("debugging", () => {
+    const blocks = [
+      makeBlock({ id: "a", name: "A", order: 0, type: "object", logic: { object_key: "a" } }),
+      makeBlock({ id: "b", name: "B", order: 1, type: "object", logic: { object_key: "b" } }),
+      makeBlock({ id: "c", name: "C", order: 2, type: "object", logic: { object_key: "c" } }),
+    ];
+
+    beforeEach(() => {
+      interpreter.blockExecutor.registerHandler("object", async (block) => ({
+        stateDelta: { [block.logic.object_key as string]: true },
+      }));
+    });
+
+    it("pauses before a breakpoint and resumes past it", async () => {
+      const config = makeRunConfig(blocks, { debug: { breakpoints: ["b"] } });
+      const paused = await interpreter.executeRun(config);
+
+      expect(paused.status).toBe("awaiting_action");
+      expect(paused.pause).toEqual({ reason: "breakpoint", blockId: "b", resumeIndex: 1 });
+      expect(paused.context.state).toEqual({ a: true });
+
+      const resumed = await interpreter.resumeRun(
+        { ...config, debug: { breakpoints: ["b"], resumeBlockId: "b" } },
+        paused.pause!.resumeIndex,
+        paused.context,
+      );
+      expect(resumed.status).toBe("completed");
+      expect(resumed.context.state).toEqual({ a: true, b: true, c: true });
+    });
+
+    it("pauses before the next block while stepping", async () => {
+      const config = makeRunConfig(blocks, { debug: { step: true, resumeBlockId: "a" } });
+      const paused = await interpreter.executeRun(config);
+
+      expect(paused.pause).toEqual({ reason: "step", blockId: "b", resumeIndex: 1 });
+      expect(paused.steps.map((s) => s.blockId)).toEqual(["a"]);
+    });
+
+    it("pauses at a failed block and retries it on resume", async () => {
+      let calls = 0;
+      interpreter.blockExecutor.registerHandler("object", async (block) => {
+        if (block.id === "b" && calls++ === 0) throw new Error("flaky");
+        return { stateDelta: { [block.logic.object_key as string]: true } };
+      });
+
+      const config = makeRunConfig(blocks, { debug: { pauseOnFailure: true } });
+      const paused = await interpreter.executeRun(config);
+
+      expect(paused.status).toBe("awaiting_action");
+      expect(paused.pause).toEqual({ reason: "failure", blockId: "b", resumeIndex: 1 });
+      expect(paused.steps.at(-1)).toMatchObject({ blockId: "b", status: "failed" });
+
+      const resumed = await interpreter.resumeRun(
+        { ...config, debug: { pauseOnFailure: true, resumeBlockId: "b" } },
+        1,
+        paused.context,
+      );
+      expect(resumed.status).toBe("completed");
+      expect(resumed.context.state).toEqual({ a: true, b: true, c: true });
+    });
+
+    it("does not pause inside loop bodies", async () => {
+      const looped = [
+        makeBlock({
+          id: "loop", name: "Loop", order: 0, type: "loop",
+          logic: { loop_over: [1, 2], loop_body_end: "A" },
+        }),
+        { ...blocks[0], order: 1 },
+      ];
+
+      const result = await interpreter.executeRun(makeRunConfig(looped, { debug: { breakpoints: ["a"] } }));
+      expect(result.status).toBe("completed");
+      expect(result.pause).toBeUndefined();
+    });
+
+    it("reports UI pauses with the block after them as the resume point", async () => {
+      const result = await interpreter.executeRun(makeRunConfig([
+        makeBlock({ id: "form", name: "Form", order: 0, type: "ui_form" }),
+        blocks[1],
+      ]));
+
+      expect(result.pause).toEqual({ reason: "action", blockId: "form", resumeIndex: 1 });
+    });
+  });
 });
@@ -61,11 +61,11 @@ beforeEach(() => {
 /* ================================================================ */
 
 describe("flowBlockHandlers", () => {
-  it("exports all flow block handlers (including code)", () => {
+  it("exports all flow block handlers (including code and workflow)", () => {
     expect(Object.keys(flowBlockHandlers)).toEqual(
-      expect.arrayContaining(["fetch", "agent", "goto", "sleep", "location", "code"]),
+      expect.arrayContaining(["fetch", "agent", "goto", "sleep", "location", "code", "workflow"]),
     );
-    expect(Object.keys(flowBlockHandlers).length).toBe(6);
+    expect(Object.keys(flowBlockHandlers).length).toBe(7);
   });
 
   it("all handlers are functions", () => {
@@ -940,6 +940,31 @@ describe("sleepExecutor", () => {
       expect(elapsed).toBeLessThan(50);
     });
   });
+
+  /* ── Cancellation ───────────────────────────────────── */
+
+  describe("cancellation", () => {
+    it("wakes early and throws when the run signal aborts", async () => {
+      const controller = new AbortController();
+      ctx.signal = controller.signal;
+      const block = makeBlock({ sleep_duration_ms: 5_000 }, "sleep");
+
+      setTimeout(() => controller.abort("stop"), 20);
+
+      const start = Date.now();
+      await expect(sleepExecutor(block, ctx)).rejects.toThrow("stop");
+      expect(Date.now() - start).toBeLessThan(1_000);
+    });
+
+    it("throws immediately when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+      ctx.signal = controller.signal;
+      const block = makeBlock({ sleep_duration_ms: 5_000 }, "sleep");
+
+      await expect(sleepExecutor(block, ctx)).rejects.toThrow();
+    });
+  });
 });
 
 /* ================================================================ */
@@ -0,0 +1,103 @@
+/**
+ * Cancellation helpers shared by long-running block executors.
+ *
+ * The Interpreter threads the run's AbortSignal through
+ * `context.signal`; executors use these helpers so a cancelled
+ * run unwinds promptly instead of waiting out a delay or request.
+ */
+
+/** Build the error thrown when a block is interrupted by cancellation */
+export function abortError(signal: AbortSignal): Error {
+  const reason = signal.reason;
+  if (reason instanceof Error) return reason;
+  return new Error(typeof reason === "string" && reason ? reason : "Run cancelled");
+}
+
+/** Throw immediately if the signal has already fired */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw abortError(signal);
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early if the signal fires.
+ * Without a signal this is a plain timer-based delay.
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Promise that rejects when the signal fires — for racing against
+ * work that cannot itself observe the signal (e.g. sandboxed code).
+ * Returns the promise plus a cleanup that detaches the listener.
+ */
+export function abortPromise(signal: AbortSignal | undefined): {
+  promise: Promise<never>;
+  cleanup: () => void;
+} {
+  if (!signal) {
+    return { promise: new Promise<never>(() => {}), cleanup: () => {} };
+  }
+
+  let onAbort: () => void = () => {};
+  const promise = new Promise<never>((_resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    onAbort = () => reject(abortError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+  return {
+    promise,
+    cleanup: () => signal.removeEventListener("abort", onAbort),
+  };
+}
+
+/**
+ * Signal that fires when any of the given signals fires, with that
+ * signal's reason. Stands in for `AbortSignal.any`, which not every
+ * runtime the engine ships to provides. Call cleanup once the
+ * combined signal is no longer needed so a long-lived input signal
+ * does not keep a listener per call.
+ */
+export function anySignal(signals: AbortSignal[]): {
+  signal: AbortSignal;
+  cleanup: () => void;
+} {
+  const controller = new AbortController();
+  const aborted = signals.find((signal) => signal.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return { signal: controller.signal, cleanup: () => {} };
+  }
+
+  const cleanup = () => {
+    for (const signal of signals) signal.removeEventListener("abort", onAbort);
+  };
+  function onAbort(this: AbortSignal) {
+    cleanup();
+    controller.abort(this.reason);
+  }
+  for (const signal of signals) signal.addEventListener("abort", onAbort, { once: true });
+
+  return { signal: controller.signal, cleanup };
+}
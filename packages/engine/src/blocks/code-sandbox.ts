@@ -80,7 +80,7 @@ function safeSerialize(value: unknown): unknown {
 
 /* ── SSRF-protected fetch wrapper ────────────────────── */
 
-function createSandboxFetch(): typeof globalThis.fetch {
+function createSandboxFetch(signal?: AbortSignal): typeof globalThis.fetch {
   return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
     const url = typeof input === "string"
       ? input
@@ -113,6 +113,10 @@ function createSandboxFetch(): typeof globalThis.fetch {
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), SANDBOX_FETCH_TIMEOUT);
 
+    /* Run cancellation also aborts sandbox requests */
+    const onCancel = () => controller.abort();
+    signal?.addEventListener("abort", onCancel, { once: true });
+
     try {
       return await globalThis.fetch(input, {
         ...init,
@@ -120,6 +124,7 @@ function createSandboxFetch(): typeof globalThis.fetch {
       });
     } finally {
       clearTimeout(timer);
+      signal?.removeEventListener("abort", onCancel);
     }
   };
 }
@@ -192,7 +197,7 @@ export function createSandboxContext(wfContext: WorkflowContext): SandboxResult
   const secretsProxy = createSecretsProxy(wfContext.secrets);
   const cacheApi = createCacheApi(wfContext.cache);
   const { console: sandboxConsole, getOutput } = createConsoleCapture();
-  const sandboxFetch = createSandboxFetch();
+  const sandboxFetch = createSandboxFetch(wfContext.signal);
 
   /* Sandbox state is held in an object so we can detect reassignment */
   const stateHolder = { current: stateClone };
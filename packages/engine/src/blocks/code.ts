@@ -10,6 +10,7 @@ import {
 } from "./code-sandbox.js";
 import type { ConsoleEntry } from "./code-sandbox.js";
 import { transpileTypeScript } from "./code-typescript.js";
+import { abortPromise, throwIfAborted } from "./abort.js";
 
 /* ── Constants ───────────────────────────────────────── */
 
@@ -128,7 +129,10 @@ async function executeSandboxed(
 
   /* Execute with combined timeout strategy:
      - vm timeout handles sync CPU-bound loops
-     - Promise.race handles async operations */
+     - Promise.race handles async operations and run cancellation */
+  const cancellation = abortPromise(wfContext.signal);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
   try {
     const codePromise = script.runInContext(sandbox.context, {
       timeout: timeoutMs,
@@ -138,13 +142,17 @@ async function executeSandboxed(
 
     /* Race against a wall-clock timeout for async code */
     const timeoutPromise = new Promise<never>((_resolve, reject) => {
-      setTimeout(
+      timer = setTimeout(
         () => reject(new Error(`Code execution timed out after ${timeoutMs}ms`)),
         timeoutMs,
       );
     });
 
-    const returnValue = await Promise.race([codePromise, timeoutPromise]);
+    const returnValue = await Promise.race([
+      codePromise,
+      timeoutPromise,
+      cancellation.promise,
+    ]);
 
     /* Diff state changes */
     const sandboxState = sandbox.getSandboxState();
@@ -156,6 +164,9 @@ async function executeSandboxed(
       consoleOutput: sandbox.getConsoleOutput(),
     };
   } catch (err) {
+    /* Cancellation is surfaced as-is, not as a user-code runtime error */
+    throwIfAborted(wfContext.signal);
+
     /* Check for vm timeout error */
     if (err instanceof Error && err.message.includes("Script execution timed out")) {
       throw new Error(`Code execution timed out after ${timeoutMs}ms`);
@@ -165,6 +176,9 @@ async function executeSandboxed(
     throw new Error(
       `Runtime error${sanitized.line ? ` at line ${sanitized.line - 2}` : ""}: ${sanitized.message}`,
     );
+  } finally {
+    clearTimeout(timer);
+    cancellation.cleanup();
   }
 }
 
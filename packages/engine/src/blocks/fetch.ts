@@ -1,12 +1,14 @@
 import type { Block, WorkflowContext } from "@vsync/shared-types";
 import type { BlockResult } from "../types.js";
 import { ContextManager } from "../core/ContextManager.js";
+import { abortableSleep, throwIfAborted } from "./abort.js";
 
 /**
  * HTTP Fetch block executor.
  *
  * Performs HTTP requests with retry logic, exponential backoff,
  * timeout via AbortController, SSRF protection, and status code validation.
+ * The run's cancellation signal aborts in-flight requests and retry waits.
  *
  * Binding: fetch_bind_value → $state.key
  */
@@ -57,11 +59,11 @@ export async function fetchExecutor(
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     if (attempt > 0) {
       const delay = retryDelayMs * Math.pow(backoffMultiplier, attempt - 1);
-      await sleep(delay);
+      await abortableSleep(delay, context.signal);
     }
 
     try {
-      const result = await executeRequest(url, method, headers, body, timeoutMs);
+      const result = await executeRequest(url, method, headers, body, timeoutMs, context.signal);
 
       /* Validate status code */
       if (!matchesStatusCode(result.status, patterns)) {
@@ -76,6 +78,9 @@ export async function fetchExecutor(
       }
       return {};
     } catch (err) {
+      /* Cancellation is never retried */
+      throwIfAborted(context.signal);
+
       lastError = err instanceof Error ? err : new Error(String(err));
 
       /* Don't retry on SSRF errors or validation errors */
@@ -106,10 +111,15 @@ async function executeRequest(
   headers: Record<string, string>,
   body: string | undefined,
   timeoutMs: number,
+  signal?: AbortSignal,
 ): Promise<FetchResponse> {
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), timeoutMs);
 
+  /* Forward run cancellation to the in-flight request */
+  const onCancel = () => controller.abort();
+  signal?.addEventListener("abort", onCancel, { once: true });
+
   try {
     const response = await fetch(url, {
       method,
@@ -142,6 +152,7 @@ async function executeRequest(
     };
   } finally {
     clearTimeout(timer);
+    signal?.removeEventListener("abort", onCancel);
   }
 }
 
@@ -246,10 +257,6 @@ export function matchesStatusCode(status: number, patterns: string[]): boolean {
 
 /* ── Helpers ──────────────────────────────────────────── */
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 function resolveDynamic(
   cm: ContextManager,
   value: unknown,
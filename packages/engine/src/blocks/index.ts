@@ -11,6 +11,7 @@ import { gotoExecutor } from "./goto.js";
 import { sleepExecutor } from "./sleep.js";
 import { locationExecutor } from "./location.js";
 import { codeExecutor } from "./code.js";
+import { workflowExecutor } from "./workflow.js";
 
 /**
  * Map of block type → executor function for all data blocks.
@@ -36,6 +37,7 @@ export const flowBlockHandlers: Record<string, BlockHandler> = {
   sleep: sleepExecutor,
   location: locationExecutor as BlockHandler,
   code: codeExecutor,
+  workflow: workflowExecutor,
 };
 
 export {
@@ -51,4 +53,5 @@ export {
   sleepExecutor,
   locationExecutor,
   codeExecutor,
+  workflowExecutor,
 };
@@ -1,6 +1,7 @@
 import type { Block, WorkflowContext } from "@vsync/shared-types";
 import type { BlockResult } from "../types.js";
 import { ContextManager } from "../core/ContextManager.js";
+import { abortableSleep } from "./abort.js";
 
 /** Maximum sleep duration: 5 minutes */
 const MAX_SLEEP_DURATION_MS = 300_000;
@@ -10,6 +11,7 @@ const MAX_SLEEP_DURATION_MS = 300_000;
  *
  * Pauses execution for a specified duration, capped at MAX_SLEEP_DURATION_MS.
  * Useful for rate limiting, polling intervals, or sequencing external effects.
+ * Wakes early (and throws) if the run is cancelled mid-sleep.
  */
 export async function sleepExecutor(
   block: Block,
@@ -29,7 +31,7 @@ export async function sleepExecutor(
   );
 
   if (duration > 0) {
-    await new Promise<void>((resolve) => setTimeout(resolve, duration));
+    await abortableSleep(duration, context.signal);
   }
 
   return {};
@@ -0,0 +1,102 @@
+import type { Block, WorkflowContext } from "@vsync/shared-types";
+import type { BlockResult } from "../types.js";
+import { ContextManager } from "../core/ContextManager.js";
+
+/**
+ * Workflow (sub-workflow) block executor.
+ *
+ * Runs another workflow — its active version, or `workflow_version`
+ * when pinned — with `workflow_input` (values resolved against this
+ * run) as its `$event`, and waits for it to finish. The child run's
+ * output is bound to state; `workflow_output_map` picks individual
+ * output paths into state keys instead. A child run that does not
+ * complete fails the block, so `on_error` and retries apply.
+ *
+ * The call goes through `context.invokeWorkflow`, which the engine
+ * sets only when the host can run workflows, and which enforces the
+ * interpreter's call depth limit.
+ *
+ * Binding: workflow_bind_value → $state.key
+ */
+export async function workflowExecutor(
+  block: Block,
+  context: WorkflowContext,
+): Promise<BlockResult> {
+  const cm = new ContextManager();
+  const logic = block.logic;
+
+  const workflowId = String(cm.resolveValue(logic.workflow_id, context) ?? "").trim();
+  if (!workflowId) throw new Error("workflow_id is required");
+
+  const version = parseVersion(cm.resolveValue(logic.workflow_version, context));
+
+  if (!context.invokeWorkflow) {
+    throw new Error("Workflow calls are not available in this environment");
+  }
+
+  const input: Record<string, unknown> = {};
+  const mapping = logic.workflow_input;
+  if (mapping !== null && typeof mapping === "object" && !Array.isArray(mapping)) {
+    for (const [key, value] of Object.entries(mapping as Record<string, unknown>)) {
+      input[key] = cm.resolveValue(value, context);
+    }
+  }
+
+  const result = await context.invokeWorkflow({
+    workflowId,
+    version,
+    input,
+    blockId: block.id,
+    signal: context.signal,
+  });
+
+  if (result.status !== "completed") {
+    throw new Error(
+      `Workflow "${workflowId}" run ${result.runId} ${result.status}` +
+      (result.errorMessage ? `: ${result.errorMessage}` : ""),
+    );
+  }
+
+  const stateDelta: Record<string, unknown> = {};
+  const outputMap = logic.workflow_output_map;
+  if (outputMap !== null && typeof outputMap === "object" && !Array.isArray(outputMap)) {
+    for (const [stateKey, path] of Object.entries(outputMap as Record<string, unknown>)) {
+      stateDelta[extractBindKey(stateKey)] = readPath(result.output, String(path));
+    }
+  }
+
+  const bindTo = logic.workflow_bind_value as string | undefined;
+  if (bindTo) stateDelta[extractBindKey(bindTo)] = result.output;
+
+  return {
+    stateDelta,
+    eventDelta: { childRunId: result.runId, workflowId, version: result.version },
+  };
+}
+
+/* ── Helpers ──────────────────────────────────────────── */
+
+/** A pinned version must be a positive integer; empty means the active version */
+function parseVersion(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`workflow_version must be a positive integer, got ${JSON.stringify(value)}`);
+  }
+  return version;
+}
+
+/** Read a dotted path from the child's output */
+function readPath(output: Record<string, unknown>, path: string): unknown {
+  let value: unknown = output;
+  for (const segment of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+function extractBindKey(bindTo: string): string {
+  if (bindTo.startsWith("$state.")) return bindTo.slice(7);
+  return bindTo;
+}
@@ -1,5 +1,19 @@
-import type { Block, WorkflowContext } from "@vsync/shared-types";
+import type { Block, StepAttempt, WorkflowContext } from "@vsync/shared-types";
 import type { BlockHandler, BlockResult, ErrorStrategy } from "../types.js";
+import { abortableSleep, anySignal } from "../blocks/abort.js";
+
+/** Retries allowed for `on_error: "retry"` when `retry_max` is not set */
+const DEFAULT_RETRY_MAX = 3;
+
+/** Delay before the first retry when `retry_backoff_ms` is not set */
+const DEFAULT_RETRY_BACKOFF_MS = 1_000;
+
+/** How many times a block may run, and how long each attempt may take */
+interface ExecutionPolicy {
+  maxAttempts: number;
+  backoffMs: number;
+  timeoutMs?: number;
+}
 
 /**
  * Routes block execution to registered handlers.
@@ -10,7 +24,11 @@ import type { BlockHandler, BlockResult, ErrorStrategy } from "../types.js";
  * clear error message indicating the missing adapter.
  *
  * Error handling is controlled per-block via the `on_error` logic
- * property: 'continue' logs and moves on, 'abort' halts the run.
+ * property: 'continue' logs and moves on, 'abort' halts the run,
+ * 'retry' re-runs the block (`retry_max` times, waiting
+ * `retry_backoff_ms`, doubled after each retry) before aborting.
+ * Any block may also set `timeout_ms`, which fails an attempt that
+ * runs longer and aborts the signal handed to the handler.
  */
 export class BlockExecutor {
   private readonly handlers = new Map<string, BlockHandler>();
@@ -31,14 +49,20 @@ export class BlockExecutor {
   }
 
   /**
-   * Execute a block by delegating to its registered handler.
+   * Execute a block by delegating to its registered handler,
+   * applying the block's retry and timeout policy.
    *
-   * @param block   — the block to execute
-   * @param context — the current workflow context
+   * @param block     — the block to execute
+   * @param context   — the current workflow context
+   * @param onAttempt — called after each attempt when the block has a retry or timeout policy
    * @returns the block result with deltas
-   * @throws if no handler is registered (and on_error !== 'continue')
+   * @throws if no handler is registered, or the last attempt fails
    */
-  async execute(block: Block, context: WorkflowContext): Promise<BlockResult> {
+  async execute(
+    block: Block,
+    context: WorkflowContext,
+    onAttempt?: (attempt: StepAttempt) => void,
+  ): Promise<BlockResult> {
     const handler = this.handlers.get(block.type);
 
     if (!handler) {
@@ -49,8 +73,35 @@ export class BlockExecutor {
       );
     }
 
-    const result = await handler(block, context);
-    return result ?? {};
+    const policy = this.getExecutionPolicy(block);
+    const tracked = policy.maxAttempts > 1 || policy.timeoutMs !== undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = new Date().toISOString();
+
+      try {
+        const result = await this.runAttempt(handler, block, context, policy.timeoutMs);
+        if (tracked) {
+          onAttempt?.({ attempt, status: "completed", startedAt, endedAt: new Date().toISOString() });
+        }
+        return result ?? {};
+      } catch (error) {
+        if (tracked) {
+          onAttempt?.({
+            attempt,
+            status: "failed",
+            startedAt,
+            endedAt: new Date().toISOString(),
+            error: error instanceof Error ? error.message : String(error),
+            ...(error instanceof BlockTimeoutError ? { timedOut: true } : {}),
+          });
+        }
+
+        /* Out of attempts, or the run was cancelled — no point trying again */
+        if (attempt >= policy.maxAttempts || context.signal?.aborted) throw error;
+        await abortableSleep(policy.backoffMs * 2 ** (attempt - 1), context.signal);
+      }
+    }
   }
 
   /**
@@ -60,9 +111,63 @@ export class BlockExecutor {
   getErrorStrategy(block: Block): ErrorStrategy {
     const strategy = block.logic?.on_error;
     if (strategy === "continue") return "continue";
+    if (strategy === "retry") return "retry";
     return "abort";
   }
 
+  /**
+   * Read a block's retry and timeout settings. Retries apply only
+   * with `on_error: "retry"`; invalid numbers fall back to defaults.
+   */
+  private getExecutionPolicy(block: Block): ExecutionPolicy {
+    const logic = block.logic ?? {};
+    const retries = this.getErrorStrategy(block) === "retry"
+      ? nonNegative(logic.retry_max, DEFAULT_RETRY_MAX)
+      : 0;
+    const timeoutMs = Number(logic.timeout_ms);
+
+    return {
+      maxAttempts: Math.floor(retries) + 1,
+      backoffMs: nonNegative(logic.retry_backoff_ms, DEFAULT_RETRY_BACKOFF_MS),
+      timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : undefined,
+    };
+  }
+
+  /**
+   * Run the handler once. With a timeout, the handler sees a signal
+   * that also fires when time runs out, and the attempt rejects with
+   * a BlockTimeoutError even if the handler ignores that signal.
+   */
+  private async runAttempt(
+    handler: BlockHandler,
+    block: Block,
+    context: WorkflowContext,
+    timeoutMs?: number,
+  ): Promise<BlockResult | void> {
+    if (timeoutMs === undefined) return handler(block, context);
+
+    const controller = new AbortController();
+    const combined = context.signal
+      ? anySignal([context.signal, controller.signal])
+      : { signal: controller.signal, cleanup: () => {} };
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const error = new BlockTimeoutError(block.name, timeoutMs);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([handler(block, { ...context, signal: combined.signal }), timeout]);
+    } finally {
+      clearTimeout(timer);
+      combined.cleanup();
+    }
+  }
+
   /**
    * Get a list of all registered block types.
    * Useful for debugging and capability reporting.
@@ -71,3 +176,18 @@ export class BlockExecutor {
     return [...this.handlers.keys()];
   }
 }
+
+/** Read a non-negative number from block logic, or use the fallback */
+function nonNegative(value: unknown, fallback: number): number {
+  if (value === undefined || value === null || value === "") return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/** Thrown when a block attempt runs longer than its timeout_ms */
+class BlockTimeoutError extends Error {
+  constructor(blockName: string, timeoutMs: number) {
+    super(`Block "${blockName}" timed out after ${timeoutMs}ms`);
+    this.name = "BlockTimeoutError";
+  }
+}
@@ -1,12 +1,15 @@
-import type { Condition, WorkflowContext } from "@vsync/shared-types";
+import type { Condition, ConditionNode, WorkflowContext } from "@vsync/shared-types";
 import type { ContextManager } from "./ContextManager.js";
 
 /**
  * Evaluates block conditions using AND logic.
  *
  * All conditions on a block must pass for the block to execute.
+ * Condition groups nest inside that list to express OR (`any`),
+ * explicit AND (`all`) and NOT (`not`).
  * Both left and right operands are resolved through ContextManager
- * so they can reference workflow state, cache, secrets, etc.
+ * so they can reference workflow state, cache, secrets, etc., or
+ * compute a value with an expression such as "=len($state.items)".
  *
  * Supports 14 operators matching the ConditionOperator type:
  * ==, !=, <, >, <=, >=, contains, startsWith, endsWith,
@@ -19,9 +22,20 @@ export class ConditionEvaluator {
    * Evaluate all conditions on a block. Returns true if ALL pass (AND logic).
    * Returns true if the conditions array is empty or undefined.
    */
-  evaluateAll(conditions: Condition[] | undefined, context: WorkflowContext): boolean {
+  evaluateAll(conditions: ConditionNode[] | undefined, context: WorkflowContext): boolean {
     if (!conditions || conditions.length === 0) return true;
-    return conditions.every((c) => this.evaluate(c, context));
+    return conditions.every((c) => this.evaluateNode(c, context));
+  }
+
+  /**
+   * Evaluate a condition or a group. `any` and `all` short-circuit;
+   * an empty `any` fails and an empty `all` passes.
+   */
+  evaluateNode(node: ConditionNode, context: WorkflowContext): boolean {
+    if ("any" in node) return node.any.some((c) => this.evaluateNode(c, context));
+    if ("all" in node) return node.all.every((c) => this.evaluateNode(c, context));
+    if ("not" in node) return !this.evaluateNode(node.not, context);
+    return this.evaluate(node, context);
   }
 
   /**
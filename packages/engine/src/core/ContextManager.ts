@@ -1,4 +1,9 @@
-import type { WorkflowContext } from "@vsync/shared-types";
+import type { ExpressionNode, LoopContext, WorkflowContext } from "@vsync/shared-types";
+import { expressionSources, isFormula, isPlainPath, parseExpression } from "@vsync/shared-types";
+import { ExpressionError, ExpressionEvaluator } from "./ExpressionEvaluator.js";
+
+/** Parsed expressions kept per ContextManager before the cache is reset */
+const MAX_CACHED_EXPRESSIONS = 500;
 
 /**
  * Variable resolution engine for workflow template expressions.
@@ -19,11 +24,23 @@ import type { WorkflowContext } from "@vsync/shared-types";
  *   $now                  → ISO-8601 current timestamp
  *   $keys.my_api_key      → context.keyResolver?.("my_api_key")
  *   $loop.<id>.index      → context.loops[id].index
- *   $row                  → current loop artifact (alias)
- *   $item                 → current loop item (alias)
+ *   $row                  → current loop artifact, else item (alias)
+ *   $item                 → current loop item, else artifact (alias)
  *   $index                → current loop index (alias)
+ *
+ * Anything beyond a bare path is an expression (operators, ternaries,
+ * `??`, helper functions — see @vsync/shared-types `parseExpression`):
+ *   $state.price * $state.qty         → typed result
+ *   =len($state.items) > 0            → typed result (`=` prefix)
+ *   {{ upper($state.name) }}          → interpolated as text
+ *
+ * A logic value that does not parse is read the way it was before
+ * expressions existed: `$…` as a path, `=…` as literal text, and a
+ * `{{…}}` placeholder as the text inside it.
  */
 export class ContextManager {
+  private readonly parsed = new Map<string, ExpressionNode>();
+
   private lastError: { message: string; stack?: string; blockId: string; blockName: string } | null = null;
 
   /** Store the last step error so $error references work */
@@ -33,8 +50,9 @@ export class ContextManager {
 
   /**
    * Resolve a single `$`-prefixed expression against the context.
+   * A value that does not parse as an expression is looked up as a path.
    *
-   * @param expr    — e.g. "$state.user.name" or "$loop.myLoop.index"
+   * @param expr    — e.g. "$state.user.name" or "$state.total * 1.2"
    * @param context — the current workflow context
    * @returns the resolved value, or undefined if not found
    */
@@ -42,49 +60,154 @@ export class ContextManager {
     const trimmed = expr.trim();
     if (!trimmed.startsWith("$")) return trimmed;
 
-    /* Strip the leading $ */
-    const path = trimmed.slice(1);
-
-    /* Split on dots, respecting bracket notation */
-    const segments = this.parsePath(path);
-    if (segments.length === 0) return undefined;
-
-    const prefix = segments[0];
-    const rest = segments.slice(1);
+    const node = isPlainPath(trimmed) ? undefined : this.tryParse(trimmed);
+    return node ? this.evaluateNode(node, context) : this.resolvePath(trimmed, context);
+  }
 
-    const root = this.resolvePrefix(prefix, rest, context);
-    if (rest.length === 0) return root;
+  /**
+   * Evaluate an expression such as `len($state.items) > 0` or
+   * `$state.name ?? "guest"`. Bare paths resolve as in resolve().
+   *
+   * @throws ExpressionError if the expression is malformed
+   */
+  evaluate(expr: string, context: WorkflowContext): unknown {
+    const trimmed = expr.trim();
+    if (isPlainPath(trimmed)) return this.resolvePath(trimmed, context);
 
-    return this.walkPath(root, rest);
+    return this.evaluateNode(this.parse(trimmed), context);
   }
 
   /**
    * Interpolate all `{{expr}}` placeholders in a template string.
+   * A placeholder that does not parse inserts its text, or the value
+   * of its path if it starts with `$`.
    *
-   * @param template — e.g. "Hello {{$state.name}}, your order is {{$state.orderId}}"
+   * @param template — e.g. "Hello {{$state.name}}, you have {{ len($state.items) }} items"
    * @param context  — the current workflow context
    * @returns the interpolated string
    */
   interpolate(template: string, context: WorkflowContext): string {
     return template.replace(/\{\{(.+?)\}\}/g, (_match, expr: string) => {
-      const resolved = this.resolve(expr.trim(), context);
+      const trimmed = expr.trim();
+      const node = isPlainPath(trimmed) ? undefined : this.tryParse(trimmed);
+      const resolved = node ? this.evaluateNode(node, context) : this.resolve(trimmed, context);
       if (resolved === undefined || resolved === null) return "";
       return String(resolved);
     });
   }
 
   /**
-   * Resolve a value that may be a `$`-expression, a `{{template}}`,
-   * or a plain literal. Provides a single entry point for block
-   * logic values that could be any of the three forms.
+   * Resolve a value that may be a `$`-expression, an `=`-expression,
+   * a `{{template}}`, or a plain literal. Provides a single entry point
+   * for block logic values that could be any of these forms. An
+   * `=` value that does not parse (e.g. "=SUM(A1:A3)") stays literal.
    */
   resolveValue(value: unknown, context: WorkflowContext): unknown {
     if (typeof value !== "string") return value;
     if (value.startsWith("$")) return this.resolve(value, context);
+    if (isFormula(value)) {
+      const node = this.tryParse(value.slice(1).trim());
+      return node ? this.evaluateNode(node, context) : value;
+    }
     if (value.includes("{{")) return this.interpolate(value, context);
     return value;
   }
 
+  /**
+   * Collect the names of every `$keys.*` reference in a value —
+   * whole-value expressions and `{{…}}` placeholders, recursing into
+   * arrays and objects. Lets the engine resolve secrets asynchronously
+   * before a block runs, so `resolve()` can stay synchronous.
+   *
+   * @example collectKeyRefs({ auth: "Bearer {{$keys.api_token}}" }) → Set { "api_token" }
+   */
+  collectKeyRefs(value: unknown, into: Set<string> = new Set()): Set<string> {
+    if (typeof value === "string") {
+      for (const source of expressionSources(value)) {
+        for (const path of this.referencedPaths(source)) this.addKeyRef(path, into);
+      }
+    } else if (Array.isArray(value)) {
+      for (const item of value) this.collectKeyRefs(item, into);
+    } else if (value !== null && typeof value === "object") {
+      for (const item of Object.values(value)) this.collectKeyRefs(item, into);
+    }
+
+    return into;
+  }
+
+  /** The `$` paths an expression reads — a `$` source that does not parse is read as one path */
+  private referencedPaths(source: string): string[] {
+    if (isPlainPath(source)) return [source];
+    const node = this.tryParse(source.trim());
+    if (node) return ExpressionEvaluator.collectPaths(node);
+    return source.trim().startsWith("$") ? [source] : [];
+  }
+
+  /** Add the key name of a `$keys.*` expression, using the same path rules as resolve() */
+  private addKeyRef(expr: string, into: Set<string>): void {
+    const trimmed = expr.trim();
+    if (!trimmed.startsWith("$")) return;
+
+    const segments = this.parsePath(trimmed.slice(1));
+    if (segments[0] === "keys" && segments.length > 1) {
+      into.add(segments.slice(1).join("."));
+    }
+  }
+
+  /* ── Internal: expressions ───────────────────────────── */
+
+  private evaluateNode(node: ExpressionNode, context: WorkflowContext): unknown {
+    const evaluator = new ExpressionEvaluator((path) => this.resolvePath(path, context));
+    return evaluator.evaluate(node);
+  }
+
+  /** Parse a source, or undefined if it is not a valid expression */
+  private tryParse(source: string): ExpressionNode | undefined {
+    try {
+      return this.parse(source);
+    } catch (err) {
+      if (err instanceof ExpressionError) return undefined;
+      throw err;
+    }
+  }
+
+  private parse(source: string): ExpressionNode {
+    const cached = this.parsed.get(source);
+    if (cached) return cached;
+
+    let node: ExpressionNode;
+    try {
+      node = parseExpression(source);
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : String(err);
+      throw new ExpressionError(`Invalid expression "${source}": ${detail}`, source);
+    }
+
+    if (this.parsed.size >= MAX_CACHED_EXPRESSIONS) this.parsed.clear();
+    this.parsed.set(source, node);
+    return node;
+  }
+
+  /* ── Internal: path resolution ───────────────────────── */
+
+  /** Resolve a bare `$path` — the original lookup rules, unchanged */
+  private resolvePath(trimmed: string, context: WorkflowContext): unknown {
+    /* Strip the leading $ */
+    const path = trimmed.slice(1);
+
+    /* Split on dots, respecting bracket notation */
+    const segments = this.parsePath(path);
+    if (segments.length === 0) return undefined;
+
+    const prefix = segments[0];
+    const rest = segments.slice(1);
+
+    const root = this.resolvePrefix(prefix, rest, context);
+    if (rest.length === 0) return root;
+
+    return this.walkPath(root, rest);
+  }
+
   /* ── Internal: prefix resolution ─────────────────────── */
 
   private resolvePrefix(
@@ -163,25 +286,28 @@ export class ContextManager {
 
   /* ── Internal: loop aliases ──────────────────────────── */
 
-  /** Get the artifact from the most recently active loop */
-  private getCurrentLoopArtifact(context: WorkflowContext): unknown {
+  /** Get the innermost active loop — loops are added in nesting order */
+  private getCurrentLoop(context: WorkflowContext): LoopContext | undefined {
     const loopIds = Object.keys(context.loops);
     if (loopIds.length === 0) return undefined;
-    const lastLoop = context.loops[loopIds[loopIds.length - 1]];
-    return lastLoop?.artifact;
+    return context.loops[loopIds[loopIds.length - 1]];
+  }
+
+  /** Get the artifact from the most recently active loop, falling back to its item */
+  private getCurrentLoopArtifact(context: WorkflowContext): unknown {
+    const loop = this.getCurrentLoop(context);
+    return loop?.artifact ?? loop?.item;
   }
 
-  /** Get the current item (artifact) from the active loop */
+  /** Get the current item from the active loop, falling back to its artifact */
   private getCurrentLoopItem(context: WorkflowContext): unknown {
-    return this.getCurrentLoopArtifact(context);
+    const loop = this.getCurrentLoop(context);
+    return loop?.item ?? loop?.artifact;
   }
 
   /** Get the current index from the most recently active loop */
   private getCurrentLoopIndex(context: WorkflowContext): unknown {
-    const loopIds = Object.keys(context.loops);
-    if (loopIds.length === 0) return undefined;
-    const lastLoop = context.loops[loopIds[loopIds.length - 1]];
-    return lastLoop?.index;
+    return this.getCurrentLoop(context)?.index;
   }
 
   /* ── Internal: path parsing and walking ──────────────── */
@@ -245,6 +371,8 @@ export class ContextManager {
         if (Number.isNaN(idx)) return undefined;
         current = current[idx];
       } else if (typeof current === "object") {
+        /* Own properties only — "constructor" or "__proto__" never reach the prototype */
+        if (!Object.prototype.hasOwnProperty.call(current, segment)) return undefined;
         current = (current as Record<string, unknown>)[segment];
       } else {
         return undefined;
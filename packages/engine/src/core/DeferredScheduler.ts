@@ -0,0 +1,268 @@
+import { nanoid } from "nanoid";
+import type { Block, WorkflowContext } from "@vsync/shared-types";
+import type { DeferMergePolicy } from "../types.js";
+import { anySignal } from "../blocks/abort.js";
+import type { RunBuilder } from "./RunBuilder.js";
+
+/**
+ * Hard ceiling on concurrent deferred iterations per goto block.
+ * Mirrors MAX_CONCURRENT_DEFERRED in @vsync/config.
+ */
+export const MAX_DEFER_CONCURRENCY = 10;
+
+/**
+ * Counting semaphore with FIFO hand-off.
+ * At most `limit` holders run at once; a release wakes the oldest waiter.
+ */
+export class Semaphore {
+  private active = 0;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiters.shift();
+    /* Hand the slot straight to the next waiter — the active count is unchanged */
+    if (next) next();
+    else this.active--;
+  }
+}
+
+/** What a deferred goto asks the scheduler to run */
+export interface DeferredIterationRequest {
+  /** The goto block that spawned the iteration — one semaphore per goto */
+  gotoBlock: Block;
+
+  /** Context the iteration is isolated from and merged back into */
+  parentContext: WorkflowContext;
+
+  /** Concurrent iterations allowed for this goto */
+  limit: number;
+
+  /** How the iteration's state changes are merged back */
+  policy: DeferMergePolicy;
+
+  /** State key that collects iteration deltas under the 'keyed' policy */
+  mergeKey: string;
+
+  /** Execute the iteration's blocks against its isolated context */
+  run: (iterationId: string, context: WorkflowContext) => Promise<void>;
+}
+
+interface DeferredIteration {
+  iterationId: string;
+  request: DeferredIterationRequest;
+  context: WorkflowContext;
+  baseState: Record<string, unknown>;
+  baseArtifactCount: number;
+  outcome: Promise<{ error?: unknown }>;
+}
+
+/**
+ * Schedules deferred goto iterations for a single run.
+ *
+ * Each iteration runs against its own copy of the parent context
+ * (state is deep-cloned, so nested writes never leak) and is gated
+ * by a per-goto semaphore. Iterations run in the background while
+ * the main flow continues; `join()` waits for them and merges their
+ * changes into the parent in the order they were scheduled, so the
+ * result never depends on which iteration happened to finish first.
+ */
+export class DeferredScheduler {
+  private readonly pending: DeferredIteration[] = [];
+  private readonly semaphores = new Map<string, Semaphore>();
+  private readonly controller = new AbortController();
+  private readonly signal: AbortSignal;
+  private readonly detach: () => void;
+
+  constructor(
+    private readonly runBuilder: RunBuilder,
+    runSignal?: AbortSignal,
+  ) {
+    /* Iterations stop when the run is cancelled or when settle() discards them */
+    const combined = runSignal
+      ? anySignal([runSignal, this.controller.signal])
+      : { signal: this.controller.signal, cleanup: () => {} };
+    this.signal = combined.signal;
+    this.detach = combined.cleanup;
+  }
+
+  /** Whether any iteration is scheduled but not yet joined */
+  hasPending(): boolean {
+    return this.pending.length > 0;
+  }
+
+  /**
+   * Start an iteration in the background, subject to the goto's
+   * concurrency limit. Returns the iteration ID used to group its steps.
+   */
+  schedule(request: DeferredIterationRequest): string {
+    const iterationId = nanoid();
+    const { parentContext } = request;
+    const context: WorkflowContext = {
+      ...parentContext,
+      state: cloneState(parentContext.state),
+      cache: new Map(parentContext.cache),
+      artifacts: [...parentContext.artifacts],
+      run: { ...parentContext.run },
+      loops: { ...parentContext.loops },
+      signal: this.signal,
+    };
+
+    const semaphore = this.getSemaphore(request.gotoBlock.id, request.limit);
+    const outcome = (async () => {
+      await semaphore.acquire();
+      try {
+        await request.run(iterationId, context);
+        return {};
+      } catch (error) {
+        return { error };
+      } finally {
+        semaphore.release();
+      }
+    })();
+
+    this.pending.push({
+      iterationId,
+      request,
+      context,
+      baseState: cloneState(parentContext.state),
+      baseArtifactCount: parentContext.artifacts.length,
+      outcome,
+    });
+
+    return iterationId;
+  }
+
+  /**
+   * Wait for every scheduled iteration, then merge them into their
+   * parent contexts in schedule order. If any iteration failed, the
+   * first failure (in schedule order) is rethrown and nothing merges.
+   */
+  async join(): Promise<void> {
+    while (this.pending.length > 0) {
+      const batch = this.pending.splice(0);
+      const outcomes = await Promise.all(batch.map((it) => it.outcome));
+
+      const failed = outcomes.find((o) => o.error !== undefined);
+      if (failed) throw failed.error;
+
+      /* Keys already merged per goto — used by the conflict_error policy */
+      const written = new Map<string, Map<string, unknown>>();
+      for (const iteration of batch) {
+        this.merge(iteration, written);
+      }
+    }
+  }
+
+  /**
+   * Stop every outstanding iteration and wait for it to unwind,
+   * discarding its changes. Used when the run ends abnormally.
+   */
+  async settle(): Promise<void> {
+    if (this.pending.length === 0) return;
+    this.controller.abort("Run ended before deferred iterations finished");
+    const batch = this.pending.splice(0);
+    await Promise.all(batch.map((it) => it.outcome));
+  }
+
+  /**
+   * Remove the listener this scheduler holds on the run's signal.
+   * Called once the run is over — joined or settled — so a signal
+   * that outlives the run does not keep the scheduler reachable.
+   */
+  dispose(): void {
+    this.detach();
+  }
+
+  /* ── Internal helpers ───────────────────────────────── */
+
+  private getSemaphore(gotoBlockId: string, limit: number): Semaphore {
+    let semaphore = this.semaphores.get(gotoBlockId);
+    if (!semaphore) {
+      semaphore = new Semaphore(limit);
+      this.semaphores.set(gotoBlockId, semaphore);
+    }
+    return semaphore;
+  }
+
+  private merge(
+    iteration: DeferredIteration,
+    written: Map<string, Map<string, unknown>>,
+  ): void {
+    const { request, context, baseState } = iteration;
+    const parent = request.parentContext;
+    const delta = this.runBuilder.calculateDelta(baseState, context.state);
+
+    /* Artifacts are append-only — new ones join the parent in schedule order */
+    parent.artifacts.push(...context.artifacts.slice(iteration.baseArtifactCount));
+
+    switch (request.policy) {
+      case "last_writer":
+        Object.assign(parent.state, delta);
+        break;
+
+      case "conflict_error": {
+        let seen = written.get(request.gotoBlock.id);
+        if (!seen) {
+          seen = new Map();
+          written.set(request.gotoBlock.id, seen);
+        }
+
+        for (const [key, value] of Object.entries(delta)) {
+          /* A sibling wrote a different value, or the main flow changed the key since the spawn */
+          const conflict = seen.has(key)
+            ? !isSameValue(seen.get(key), value)
+            : !isSameValue(parent.state[key], baseState[key]) &&
+              !isSameValue(parent.state[key], value);
+
+          if (conflict) {
+            throw new Error(
+              `Deferred iterations of "${request.gotoBlock.name}" wrote conflicting values to state key "${key}"`,
+            );
+          }
+          seen.set(key, value);
+        }
+
+        Object.assign(parent.state, delta);
+        break;
+      }
+
+      case "keyed": {
+        const existing = parent.state[request.mergeKey];
+        const results = Array.isArray(existing) ? [...existing] : [];
+        results.push(delta);
+        parent.state[request.mergeKey] = results;
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Deep-copy workflow state so an iteration cannot mutate its parent's objects.
+ * State that structuredClone rejects (e.g. it holds a function) is copied
+ * through JSON instead, which drops the uncloneable values but still never
+ * shares a nested object with the parent. State JSON cannot copy either
+ * (cycles, BigInt) throws rather than leaking shared references.
+ */
+function cloneState(state: Record<string, unknown>): Record<string, unknown> {
+  try {
+    return structuredClone(state);
+  } catch {
+    return JSON.parse(JSON.stringify(state)) as Record<string, unknown>;
+  }
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,246 @@
+import type { ExpressionFunctionName, ExpressionNode } from "@vsync/shared-types";
+
+/** Raised when an expression cannot be parsed or evaluated — fails the step */
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly expression: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+type ExpressionFunction = (...args: unknown[]) => unknown;
+
+/**
+ * Evaluates parsed expression trees (see `parseExpression` in
+ * @vsync/shared-types). There is no `eval` and no access to globals:
+ * `$` references go through the supplied resolver, member access only
+ * reads own properties, and calls are limited to the function table below.
+ *
+ * Operator semantics follow ConditionEvaluator so an expression and the
+ * equivalent condition agree: `==` compares loosely as strings, and
+ * comparisons are numeric when both sides are numbers.
+ */
+export class ExpressionEvaluator {
+  constructor(private readonly resolvePath: (path: string) => unknown) {}
+
+  evaluate(node: ExpressionNode): unknown {
+    switch (node.kind) {
+      case "literal":
+        return node.value;
+
+      case "array":
+        return node.elements.map((element) => this.evaluate(element));
+
+      case "path":
+        return this.resolvePath(node.path);
+
+      case "member":
+        return readMember(this.evaluate(node.object), this.evaluate(node.property));
+
+      case "call":
+        return FUNCTIONS[node.name](...node.args.map((arg) => this.evaluate(arg)));
+
+      case "unary": {
+        const operand = this.evaluate(node.operand);
+        return node.operator === "!" ? !operand : -Number(operand);
+      }
+
+      case "logical": {
+        const left = this.evaluate(node.left);
+        switch (node.operator) {
+          case "&&": return left ? this.evaluate(node.right) : left;
+          case "||": return left ? left : this.evaluate(node.right);
+          case "??": return left ?? this.evaluate(node.right);
+        }
+        break;
+      }
+
+      case "conditional":
+        return this.evaluate(node.test)
+          ? this.evaluate(node.consequent)
+          : this.evaluate(node.alternate);
+
+      case "binary": {
+        const left = this.evaluate(node.left);
+        const right = this.evaluate(node.right);
+        switch (node.operator) {
+          case "==": return looseEqual(left, right);
+          case "!=": return !looseEqual(left, right);
+          case "<": return compare(left, right) < 0;
+          case ">": return compare(left, right) > 0;
+          case "<=": return compare(left, right) <= 0;
+          case ">=": return compare(left, right) >= 0;
+          case "+": return add(left, right);
+          case "-": return Number(left) - Number(right);
+          case "*": return Number(left) * Number(right);
+          case "/": return Number(left) / Number(right);
+          case "%": return Number(left) % Number(right);
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /** Every `$` reference in a tree, in source order — used for `$keys` prefetching */
+  static collectPaths(node: ExpressionNode, into: string[] = []): string[] {
+    switch (node.kind) {
+      case "path":
+        into.push(node.path);
+        break;
+      case "array":
+        node.elements.forEach((element) => ExpressionEvaluator.collectPaths(element, into));
+        break;
+      case "member":
+        ExpressionEvaluator.collectPaths(node.object, into);
+        ExpressionEvaluator.collectPaths(node.property, into);
+        break;
+      case "call":
+        node.args.forEach((arg) => ExpressionEvaluator.collectPaths(arg, into));
+        break;
+      case "unary":
+        ExpressionEvaluator.collectPaths(node.operand, into);
+        break;
+      case "binary":
+      case "logical":
+        ExpressionEvaluator.collectPaths(node.left, into);
+        ExpressionEvaluator.collectPaths(node.right, into);
+        break;
+      case "conditional":
+        ExpressionEvaluator.collectPaths(node.test, into);
+        ExpressionEvaluator.collectPaths(node.consequent, into);
+        ExpressionEvaluator.collectPaths(node.alternate, into);
+        break;
+    }
+    return into;
+  }
+}
+
+/* ── Operators ───────────────────────────────────────── */
+
+function looseEqual(left: unknown, right: unknown): boolean {
+  if (left === right) return true;
+  if (left === null || left === undefined) return right === null || right === undefined;
+  if (right === null || right === undefined) return false;
+  return String(left) === String(right);
+}
+
+function compare(left: unknown, right: unknown): number {
+  const numLeft = Number(left);
+  const numRight = Number(right);
+
+  if (!Number.isNaN(numLeft) && !Number.isNaN(numRight)) {
+    return numLeft - numRight;
+  }
+
+  return String(left).localeCompare(String(right));
+}
+
+/** Numbers add, arrays concatenate, anything involving a string concatenates as text */
+function add(left: unknown, right: unknown): unknown {
+  if (typeof left === "number" && typeof right === "number") return left + right;
+  if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+  if (typeof left === "string" || typeof right === "string") {
+    return toText(left) + toText(right);
+  }
+  return Number(left) + Number(right);
+}
+
+/** Own properties only — never the prototype chain */
+function readMember(object: unknown, property: unknown): unknown {
+  if (object === null || object === undefined) return undefined;
+
+  const key = String(property);
+
+  if (typeof object === "string" || Array.isArray(object)) {
+    if (key === "length") return object.length;
+    const index = Number(key);
+    return Number.isInteger(index) ? object.at(index) : undefined;
+  }
+
+  if (object instanceof Map) return object.get(key);
+
+  if (typeof object === "object" && Object.prototype.hasOwnProperty.call(object, key)) {
+    return (object as Record<string, unknown>)[key];
+  }
+
+  return undefined;
+}
+
+/* ── Functions ───────────────────────────────────────── */
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value === null || value === undefined) return [];
+  return [value];
+}
+
+function toNumbers(args: unknown[]): number[] {
+  /* sum([1, 2]) and sum(1, 2) are equivalent */
+  const flat = args.length === 1 && Array.isArray(args[0]) ? args[0] : args;
+  return flat.map(Number).filter((n) => !Number.isNaN(n));
+}
+
+const FUNCTIONS: Record<ExpressionFunctionName, ExpressionFunction> = {
+  lower: (value) => toText(value).toLowerCase(),
+  upper: (value) => toText(value).toUpperCase(),
+  trim: (value) => toText(value).trim(),
+  split: (value, separator = ",") => toText(value).split(toText(separator)),
+  replace: (value, search, replacement = "") =>
+    toText(value).split(toText(search)).join(toText(replacement)),
+  startsWith: (value, prefix) => toText(value).startsWith(toText(prefix)),
+  endsWith: (value, suffix) => toText(value).endsWith(toText(suffix)),
+
+  len: (value) => {
+    if (typeof value === "string" || Array.isArray(value)) return value.length;
+    if (value !== null && typeof value === "object") return Object.keys(value).length;
+    return 0;
+  },
+  contains: (value, search) => {
+    if (Array.isArray(value)) return value.some((item) => looseEqual(item, search));
+    return toText(value).includes(toText(search));
+  },
+  slice: (value, start = 0, end) => {
+    const from = Number(start);
+    const to = end === undefined || end === null ? undefined : Number(end);
+    return Array.isArray(value) ? value.slice(from, to) : toText(value).slice(from, to);
+  },
+
+  join: (value, separator = ",") => toList(value).map(toText).join(toText(separator)),
+  first: (value) => (Array.isArray(value) ? value[0] : undefined),
+  last: (value) => (Array.isArray(value) ? value[value.length - 1] : undefined),
+  keys: (value) => (value !== null && typeof value === "object" ? Object.keys(value) : []),
+  values: (value) => (value !== null && typeof value === "object" ? Object.values(value) : []),
+
+  sum: (...args) => toNumbers(args).reduce((total, n) => total + n, 0),
+  min: (...args) => {
+    const numbers = toNumbers(args);
+    return numbers.length > 0 ? Math.min(...numbers) : null;
+  },
+  max: (...args) => {
+    const numbers = toNumbers(args);
+    return numbers.length > 0 ? Math.max(...numbers) : null;
+  },
+  abs: (value) => Math.abs(Number(value)),
+  round: (value, digits = 0) => {
+    const factor = 10 ** Number(digits);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  floor: (value) => Math.floor(Number(value)),
+  ceil: (value) => Math.ceil(Number(value)),
+
+  number: (value) => {
+    const n = Number(value);
+    return Number.isNaN(n) ? null : n;
+  },
+  string: (value) => toText(value),
+  json: (value) => JSON.stringify(value ?? null),
+
+  now: () => new Date().toISOString(),
+};
@@ -1,6 +1,11 @@
-import { nanoid } from "nanoid";
 import type {
+  Artifact,
   Block,
+  BlockGroup,
+  ConditionNode,
+  Step,
+  SwitchCase,
+  WorkflowCaller,
   WorkflowContext,
   StepError,
 } from "@vsync/shared-types";
@@ -9,22 +14,92 @@ import type {
   RunConfig,
   RunResult,
   BlockResult,
+  BlockMock,
+  DeferMergePolicy,
+  LoopMode,
+  SimulationConfig,
+  DebugConfig,
+  RunPause,
 } from "../types.js";
+import { SIDE_EFFECT_BLOCK_TYPES } from "../types.js";
 import { BlockExecutor } from "./BlockExecutor.js";
 import { ConditionEvaluator } from "./ConditionEvaluator.js";
 import { ContextManager } from "./ContextManager.js";
 import { RunBuilder } from "./RunBuilder.js";
+import { RunSecrets } from "./RunSecrets.js";
+import { DeferredScheduler, MAX_DEFER_CONCURRENCY } from "./DeferredScheduler.js";
+import { abortableSleep } from "../blocks/abort.js";
 
 /**
  * Default interpreter settings.
- * 10 000 steps max, 5 minutes wall-clock, 3 concurrent deferred iterations.
+ * 10 000 steps max, 5 minutes wall-clock, 3 concurrent deferred iterations,
+ * workflow calls nested 5 deep.
  */
 const DEFAULT_CONFIG: InterpreterConfig = {
   maxSteps: 10_000,
   maxDurationMs: 5 * 60 * 1000,
   deferConcurrency: 3,
+  maxCallDepth: 5,
 };
 
+const MERGE_POLICIES: readonly DeferMergePolicy[] = ["last_writer", "conflict_error", "keyed"];
+const LOOP_MODES: readonly LoopMode[] = ["for_each", "while"];
+
+/**
+ * Per-run collaborators threaded through the execution loop.
+ * One scope is created per executeRun / resumeRun call.
+ */
+interface RunScope {
+  runBuilder: RunBuilder;
+  secrets: RunSecrets;
+  deferred: DeferredScheduler;
+  startTime: number;
+
+  /** Error-handling groups by the ID of their first block, outermost first */
+  groups: Map<string, BlockGroup[]>;
+
+  /** Set when the run is a simulation */
+  simulation?: SimulationConfig;
+
+  /** Set when the run is under the debugger */
+  debug?: DebugConfig;
+
+  /** The block a debug run resumed at — cleared once the first block is reached */
+  resumeBlockId?: string;
+}
+
+/** How a simulated block stands in for its handler */
+interface SimulatedBlock {
+  kind: "mock" | "stub";
+  mock?: BlockMock;
+}
+
+/**
+ * Contiguous blocks that a loop body or group runs — `start`
+ * inclusive, `end` exclusive. `label` names the owner in errors.
+ */
+interface BlockRange {
+  start: number;
+  end: number;
+  label: string;
+}
+
+/**
+ * Where a stretch of blocks is executing: the innermost loop body or
+ * group it may not leave, whether break / continue have a loop to
+ * end, the groups already entered, and the deferred iteration its
+ * steps belong to (if any).
+ */
+interface ExecutionFrame {
+  range?: BlockRange;
+  inLoop?: boolean;
+  groups?: ReadonlySet<string>;
+  iterationId?: string;
+}
+
+/** Returned from a loop body when a break or continue block ran */
+type LoopControl = "break" | "continue";
+
 /**
  * Main workflow execution engine.
  *
@@ -34,12 +109,34 @@ const DEFAULT_CONFIG: InterpreterConfig = {
  *
  * Key behaviours:
  *   - Blocks execute in `order` sequence
- *   - Conditions are AND-gated — all must pass
+ *   - Conditions are AND-gated — all must pass; `any` / `all` / `not`
+ *     groups nest inside them
  *   - Skipped blocks create a step with status='skipped'
  *   - UI blocks (ui_*) pause the run with status='awaiting_action'
  *   - Goto blocks jump to a named block, with optional defer
- *   - Deferred execution runs iterations concurrently (semaphore-limited)
+ *   - Switch blocks jump to the target of their first matching case,
+ *     or their default, or fall through to the next block
+ *   - Loop blocks repeat a range of blocks for each item or while
+ *     conditions hold, tracking the iteration in `context.loops`;
+ *     break / continue blocks end the current iteration early
+ *   - Groups with a catch target, retry policy, or finally range
+ *     handle failures of the blocks inside them
+ *   - Deferred gotos schedule iterations that run concurrently on
+ *     isolated state (semaphore-limited per goto) and are merged back
+ *     in schedule order before the run completes or pauses
  *   - Step and time limits prevent runaway executions
+ *   - An aborted RunConfig.signal stops the run with status='cancelled'
+ *   - `$keys.*` references are resolved (possibly async) before each
+ *     block runs, and their values are redacted from recorded steps
+ *   - A checkpoint is reported after each top-level block so a crashed
+ *     run can be resumed with resumeRun
+ *   - Workflow blocks call other workflows through RunConfig.invokeWorkflow,
+ *     nested at most `maxCallDepth` deep
+ *   - With RunConfig.simulation, mocked blocks return their fixture and
+ *     side-effecting blocks are stubbed instead of calling their handler
+ *   - With RunConfig.debug, the run pauses with status='awaiting_action'
+ *     before breakpoint blocks, before every block while stepping, or
+ *     at a failed block — between top-level blocks only
  */
 export class Interpreter {
   readonly blockExecutor: BlockExecutor;
@@ -48,7 +145,11 @@ export class Interpreter {
   private readonly config: InterpreterConfig;
 
   constructor(config?: Partial<InterpreterConfig>) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    const merged = { ...DEFAULT_CONFIG, ...config };
+    this.config = {
+      ...merged,
+      deferConcurrency: Math.max(1, Math.min(merged.deferConcurrency, MAX_DEFER_CONCURRENCY)),
+    };
     this.blockExecutor = new BlockExecutor();
     this.contextManager = new ContextManager();
     this.conditionEvaluator = new ConditionEvaluator(this.contextManager);
@@ -62,104 +163,90 @@ export class Interpreter {
    * steps, and context snapshot.
    */
   async executeRun(runConfig: RunConfig): Promise<RunResult> {
-    const startTime = Date.now();
-    const context = this.buildContext(runConfig);
-    const runBuilder = new RunBuilder();
     const blocks = [...runConfig.workflowVersion.blocks].sort(
       (a, b) => a.order - b.order,
     );
+    const scope = this.createScope(runConfig, blocks);
+    const context = this.buildContext(runConfig, scope.secrets);
 
     try {
-      await this.executeBlocks(blocks, 0, context, runBuilder, startTime);
+      await this.executeBlocks(blocks, 0, context, scope);
+      await scope.deferred.join();
 
-      return this.buildResult("completed", runBuilder, context, startTime);
+      return this.buildResult("completed", scope, context);
     } catch (error) {
-      if (error instanceof AwaitingActionError) {
-        return this.buildResult("awaiting_action", runBuilder, context, startTime);
-      }
-      if (error instanceof RunAbortedError) {
-        return this.buildResult(
-          "failed",
-          runBuilder,
-          context,
-          startTime,
-          error.message,
-        );
-      }
-      const msg = error instanceof Error ? error.message : String(error);
-      return this.buildResult("failed", runBuilder, context, startTime, msg);
+      await scope.deferred.settle();
+      return this.buildErrorResult(error, scope, context);
+    } finally {
+      scope.deferred.dispose();
     }
   }
 
   /**
    * Resume a paused run from a specific block index.
    *
-   * Used after a UI block has been completed by the user.
-   * Accepts the existing context (with any user-provided data merged)
-   * and continues from the next block.
+   * Used after a UI block has been completed by the user, or to
+   * restart from a checkpoint after a crash. Accepts the existing
+   * context (with any user-provided data merged) and continues from
+   * the given block.
    */
   async resumeRun(
     runConfig: RunConfig,
     fromBlockIndex: number,
     existingContext: WorkflowContext,
   ): Promise<RunResult> {
-    const startTime = Date.now();
-    const runBuilder = new RunBuilder();
     const blocks = [...runConfig.workflowVersion.blocks].sort(
       (a, b) => a.order - b.order,
     );
+    const scope = this.createScope(runConfig, blocks);
+
+    /* The resumed context was rebuilt from a snapshot — re-attach the live token */
+    if (runConfig.signal) {
+      existingContext.signal = runConfig.signal;
+    }
+    existingContext.keyResolver = scope.secrets.lookup;
+    existingContext.invokeWorkflow = this.createWorkflowCaller(runConfig);
 
     try {
-      await this.executeBlocks(
-        blocks,
-        fromBlockIndex,
-        existingContext,
-        runBuilder,
-        startTime,
-      );
+      await this.executeBlocks(blocks, fromBlockIndex, existingContext, scope);
+      await scope.deferred.join();
 
-      return this.buildResult("completed", runBuilder, existingContext, startTime);
+      return this.buildResult("completed", scope, existingContext);
     } catch (error) {
-      if (error instanceof AwaitingActionError) {
-        return this.buildResult(
-          "awaiting_action",
-          runBuilder,
-          existingContext,
-          startTime,
-        );
-      }
-      if (error instanceof RunAbortedError) {
-        return this.buildResult(
-          "failed",
-          runBuilder,
-          existingContext,
-          startTime,
-          error.message,
-        );
-      }
-      const msg = error instanceof Error ? error.message : String(error);
-      return this.buildResult(
-        "failed",
-        runBuilder,
-        existingContext,
-        startTime,
-        msg,
-      );
+      await scope.deferred.settle();
+      return this.buildErrorResult(error, scope, existingContext);
+    } finally {
+      scope.deferred.dispose();
     }
   }
 
   /* ── Core execution loop ────────────────────────────── */
 
+  /**
+   * Execute blocks from `startIndex` to the end of the workflow, or to
+   * the end of the frame's loop body. Returns the loop control signal
+   * if a break or continue block ended the body early.
+   */
   private async executeBlocks(
     blocks: Block[],
     startIndex: number,
     context: WorkflowContext,
-    runBuilder: RunBuilder,
-    startTime: number,
-  ): Promise<void> {
+    scope: RunScope,
+    frame: ExecutionFrame = {},
+  ): Promise<LoopControl | undefined> {
+    const { runBuilder, secrets, startTime } = scope;
+    const endIndex = frame.range?.end ?? blocks.length;
     let i = startIndex;
+    let first = true;
+
+    while (i < endIndex) {
+      /* Checkpoint once the previous top-level block has finished */
+      if (!first) this.checkpoint(i, context, scope, frame);
+      first = false;
+
+      /* Guard: cooperative cancellation */
+      this.throwIfCancelled(context);
 
-    while (i < blocks.length) {
       /* Guard: step limit */
       if (runBuilder.getExecutionCount() >= this.config.maxSteps) {
         throw new RunAbortedError(
@@ -176,6 +263,18 @@ export class Interpreter {
 
       const block = blocks[i];
 
+      /* Debug runs pause before the block, so a group's breakpoint is its first block's */
+      await this.pauseAtBreakpoint(block, i, scope, frame);
+
+      /* Error-handling groups run as a unit from their first block */
+      const group = scope.groups.get(block.id)?.find((g) => !frame.groups?.has(g.id));
+      if (group) {
+        const outcome = await this.handleGroup(group, blocks, context, scope, i, frame);
+        if (outcome.control) return outcome.control;
+        i = outcome.next;
+        continue;
+      }
+
       /* Update run context with current position */
       context.run.stepIndex = i;
       context.run.blockId = block.id;
@@ -183,6 +282,7 @@ export class Interpreter {
       context.run.blockType = block.type;
 
       /* Evaluate conditions (AND logic) */
+      await this.prefetchConditionKeys(block, secrets);
       const conditionsMet = this.conditionEvaluator.evaluateAll(
         block.conditions,
         context,
@@ -190,36 +290,58 @@ export class Interpreter {
 
       if (!conditionsMet) {
         /* Create a skipped step for audit trail */
-        const step = runBuilder.createStep(block);
+        const step = this.createStep(block, scope, frame);
         runBuilder.skipStep(step);
         i++;
         continue;
       }
 
-      /* UI blocks pause execution — the caller must resume */
-      if (this.isUiBlock(block.type)) {
+      /* UI blocks pause execution — the caller must resume — unless a simulation mocks them */
+      if (this.isUiBlock(block.type) && !this.getSimulatedBlock(block, scope)) {
+        /* Deferred work lands in state before the paused context is snapshotted */
+        await scope.deferred.join();
+
         const step = runBuilder.createStep(block);
-        runBuilder.completeStep(step);
-        throw new AwaitingActionError(block.id);
+        runBuilder.pauseStep(step);
+        throw new AwaitingActionError({ reason: "action", blockId: block.id, resumeIndex: i + 1 });
       }
 
       /* Goto blocks — jump to a target block */
       if (block.type === "goto") {
-        i = await this.handleGoto(
-          block,
-          blocks,
-          context,
-          runBuilder,
-          startTime,
-          i,
-        );
+        i = this.handleGoto(block, blocks, context, scope, i, frame);
         continue;
       }
 
+      /* Switch blocks — jump to the first matching case's target */
+      if (block.type === "switch") {
+        i = await this.handleSwitch(block, blocks, context, scope, i, frame);
+        continue;
+      }
+
+      /* Loop blocks — repeat their body, then continue after it */
+      if (block.type === "loop") {
+        i = await this.handleLoop(block, blocks, context, scope, i, frame);
+        continue;
+      }
+
+      /* Break / continue — end the current iteration of the enclosing loop */
+      if (block.type === "break" || block.type === "continue") {
+        if (!frame.inLoop) {
+          throw new RunAbortedError(
+            `${block.type === "break" ? "Break" : "Continue"} block "${block.name}" is not inside a loop.`,
+          );
+        }
+        const step = this.createStep(block, scope, frame);
+        runBuilder.completeStep(step, { stateDelta: { _loop_control: block.type } });
+        return block.type;
+      }
+
       /* Normal block execution */
-      await this.executeBlock(block, context, runBuilder);
+      await this.executeBlock(block, context, scope, frame);
       i++;
     }
+
+    return undefined;
   }
 
   /* ── Single block execution ─────────────────────────── */
@@ -227,15 +349,29 @@ export class Interpreter {
   private async executeBlock(
     block: Block,
     context: WorkflowContext,
-    runBuilder: RunBuilder,
+    scope: RunScope,
+    frame: ExecutionFrame,
   ): Promise<void> {
-    const step = runBuilder.createStep(block);
+    const { runBuilder, secrets } = scope;
+    const step = this.createStep(block, scope, frame);
+    const simulated = this.getSimulatedBlock(block, scope);
+    if (simulated) step.simulated = simulated.kind;
 
     /* Snapshot state before execution for delta calculation */
     const stateBefore = { ...context.state };
 
     try {
-      const result = await this.blockExecutor.execute(block, context);
+      let result: BlockResult;
+      if (simulated) {
+        result = this.simulateBlock(simulated);
+      } else {
+        /* Resolve the block's $keys.* references so templates can read them */
+        await secrets.prefetch(block.logic);
+
+        result = await this.blockExecutor.execute(block, context, (attempt) =>
+          runBuilder.recordAttempt(step, attempt),
+        );
+      }
 
       /* Apply deltas to context */
       runBuilder.applyDeltas(context, result);
@@ -262,11 +398,23 @@ export class Interpreter {
       runBuilder.failStep(step, stepError);
       this.contextManager.setLastError(stepError);
 
+      /* A block interrupted by cancellation ends the run regardless of on_error */
+      this.throwIfCancelled(context);
+
+      /* Under the debugger, stop before on_error applies — resuming retries the block */
+      if (scope.debug?.pauseOnFailure && !frame.range && !frame.iterationId) {
+        await scope.deferred.join();
+        throw new AwaitingActionError({
+          reason: "failure",
+          blockId: block.id,
+          resumeIndex: context.run.stepIndex ?? 0,
+        });
+      }
+
+      /* 'retry' only gets here once its attempts are exhausted — treat it as 'abort' */
       const strategy = this.blockExecutor.getErrorStrategy(block);
-      if (strategy === "abort") {
-        throw new RunAbortedError(
-          `Block "${block.name}" failed: ${stepError.message}`,
-        );
+      if (strategy !== "continue") {
+        throw new BlockFailedError(stepError);
       }
       /* strategy === 'continue' — proceed to next block */
     }
@@ -274,14 +422,15 @@ export class Interpreter {
 
   /* ── Goto handling ──────────────────────────────────── */
 
-  private async handleGoto(
+  private handleGoto(
     block: Block,
     blocks: Block[],
     context: WorkflowContext,
-    runBuilder: RunBuilder,
-    startTime: number,
+    scope: RunScope,
     currentIndex: number,
-  ): Promise<number> {
+    frame: ExecutionFrame,
+  ): number {
+    const { runBuilder } = scope;
     const targetName = block.logic.goto_target as string | undefined;
     const defer = block.logic.goto_defer as boolean | undefined;
 
@@ -298,58 +447,373 @@ export class Interpreter {
       );
     }
 
-    /* Record the goto step itself */
-    const step = runBuilder.createStep(block);
-    runBuilder.completeStep(step, {
-      stateDelta: { _goto_target: targetName, _goto_defer: !!defer },
-    });
+    /* A jump may not leave the loop body or group it runs in */
+    const { range } = frame;
+    if (!defer && range && (targetIndex < range.start || targetIndex >= range.end)) {
+      throw new RunAbortedError(
+        `Goto block "${block.name}" cannot jump outside ${range.label}.`,
+      );
+    }
 
     if (defer) {
-      /* Deferred execution — run remaining blocks from target concurrently */
-      await this.executeDeferredIteration(
-        blocks,
-        targetIndex,
-        context,
-        runBuilder,
-        startTime,
-        block,
-      );
+      /* Deferred execution — schedule the blocks from target onward and keep going */
+      const iterationId = scope.deferred.schedule({
+        gotoBlock: block,
+        parentContext: context,
+        limit: this.getDeferLimit(block),
+        policy: this.getMergePolicy(block),
+        mergeKey: String(block.logic.goto_merge_key ?? block.logic.goto_loop_name ?? block.name),
+        run: (id, iterationContext) =>
+          this.executeDeferredIteration(blocks, targetIndex, iterationContext, id, scope),
+      });
+
+      /* Record the goto step, linking it to the iteration it spawned */
+      const step = this.createStep(block, scope, frame);
+      runBuilder.completeStep(step, {
+        stateDelta: {
+          _goto_target: targetName,
+          _goto_defer: true,
+          _defer_iteration_id: iterationId,
+        },
+      });
 
-      /* After deferred iteration, continue from the block after the goto */
+      /* Continue from the block after the goto while the iteration runs */
       return currentIndex + 1;
     }
 
+    /* Record the goto step itself */
+    const step = this.createStep(block, scope, frame);
+    runBuilder.completeStep(step, {
+      stateDelta: { _goto_target: targetName, _goto_defer: false },
+    });
+
     /* Non-deferred goto — jump directly */
     return targetIndex;
   }
 
+  /* ── Switch handling ────────────────────────────────── */
+
+  /**
+   * Run a switch block: evaluate `switch_cases` in order and jump to
+   * the target of the first whose conditions pass, else to
+   * `switch_default`, else continue with the next block. Targets are
+   * block names and, like a goto's, may not leave the enclosing loop
+   * body or group. Returns the index to continue from.
+   */
+  private async handleSwitch(
+    block: Block,
+    blocks: Block[],
+    context: WorkflowContext,
+    scope: RunScope,
+    currentIndex: number,
+    frame: ExecutionFrame,
+  ): Promise<number> {
+    const { runBuilder, secrets } = scope;
+    const step = this.createStep(block, scope, frame);
+
+    try {
+      await secrets.prefetch(block.logic);
+
+      const selected = this.selectSwitchCase(block, context);
+      if (!selected) {
+        runBuilder.completeStep(step, { stateDelta: { _switch_case: null } });
+        return currentIndex + 1;
+      }
+
+      const targetIndex = blocks.findIndex((b) => b.name === selected.target);
+      if (targetIndex === -1) {
+        throw new RunAbortedError(
+          `Switch block "${block.name}" references unknown target "${selected.target}".`,
+        );
+      }
+
+      const { range } = frame;
+      if (range && (targetIndex < range.start || targetIndex >= range.end)) {
+        throw new RunAbortedError(
+          `Switch block "${block.name}" cannot jump outside ${range.label}.`,
+        );
+      }
+
+      runBuilder.completeStep(step, {
+        stateDelta: { _switch_case: selected.label, _switch_target: selected.target },
+      });
+      return targetIndex;
+    } catch (error) {
+      runBuilder.failStep(step, {
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        blockId: block.id,
+        blockName: block.name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * The case a switch block takes — labelled by its `label`, else its
+   * position — or undefined when none matches and there is no default.
+   */
+  private selectSwitchCase(
+    block: Block,
+    context: WorkflowContext,
+  ): { label: string | number; target: string } | undefined {
+    const cases = block.logic.switch_cases ?? [];
+    if (!Array.isArray(cases)) {
+      throw new RunAbortedError(`Switch block "${block.name}" switch_cases must be an array.`);
+    }
+
+    for (const [index, branch] of (cases as SwitchCase[]).entries()) {
+      if (!branch?.target) {
+        throw new RunAbortedError(`Switch block "${block.name}" case ${index} is missing a target.`);
+      }
+      if (this.conditionEvaluator.evaluateAll(branch.conditions, context)) {
+        return { label: branch.label ?? index, target: branch.target };
+      }
+    }
+
+    const fallback = block.logic.switch_default;
+    if (typeof fallback === "string" && fallback) {
+      return { label: "default", target: fallback };
+    }
+    return undefined;
+  }
+
+  /* ── Loop handling ──────────────────────────────────── */
+
+  /**
+   * Run a loop block: repeat the blocks after it, up to and including
+   * `loop_body_end`, once per item (for_each) or while its conditions
+   * hold (while). The iteration is exposed as `context.loops[loop.id]`
+   * for the duration of the loop. Returns the index to continue from.
+   */
+  private async handleLoop(
+    block: Block,
+    blocks: Block[],
+    context: WorkflowContext,
+    scope: RunScope,
+    currentIndex: number,
+    frame: ExecutionFrame,
+  ): Promise<number> {
+    const { runBuilder, secrets } = scope;
+    const body = this.getLoopBody(block, blocks, currentIndex, frame.range);
+    const step = this.createStep(block, scope, frame);
+    const bodyFrame: ExecutionFrame = { ...frame, range: body, inLoop: true };
+
+    let index = 0;
+    let exit: LoopControl | "completed" = "completed";
+
+    try {
+      await secrets.prefetch(block.logic);
+
+      const mode = this.getLoopMode(block);
+      const items = mode === "for_each" ? this.getLoopItems(block, context) : undefined;
+      const conditions = (block.logic.loop_conditions ?? []) as ConditionNode[];
+      const maxIterations = this.getLoopLimit(block);
+
+      while (true) {
+        if (items) {
+          if (index >= items.list.length) break;
+          const item = items.list[index];
+          context.loops[block.id] = items.artifacts
+            ? { index, item, artifact: item as Artifact }
+            : { index, item };
+        } else {
+          /* Conditions see the index of the iteration about to run */
+          context.loops[block.id] = { index };
+          if (!this.conditionEvaluator.evaluateAll(conditions, context)) break;
+        }
+
+        if (index >= maxIterations) {
+          throw new RunAbortedError(
+            `Loop "${block.name}" exceeded ${maxIterations} iterations.`,
+          );
+        }
+
+        const control = await this.executeBlocks(blocks, body.start, context, scope, bodyFrame);
+        index++;
+
+        if (control === "break") {
+          exit = "break";
+          break;
+        }
+      }
+    } catch (error) {
+      runBuilder.failStep(step, {
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        blockId: block.id,
+        blockName: block.name,
+      });
+      throw error;
+    } finally {
+      delete context.loops[block.id];
+    }
+
+    runBuilder.completeStep(step, {
+      stateDelta: { _loop_iterations: index, _loop_exit: exit },
+    });
+
+    return body.end;
+  }
+
+  /* ── Group error handling ───────────────────────────── */
+
+  /**
+   * Run an error-handling group. When a block inside it fails, the
+   * group is retried per its retry policy; once attempts run out the
+   * finally range runs and execution continues at the catch target
+   * with `$error` set — or the failure propagates if there is none.
+   * On success the finally range simply runs next, as it directly
+   * follows the group. Returns the index to continue from, or the
+   * loop control signal if a break / continue left the group.
+   */
+  private async handleGroup(
+    group: BlockGroup,
+    blocks: Block[],
+    context: WorkflowContext,
+    scope: RunScope,
+    currentIndex: number,
+    frame: ExecutionFrame,
+  ): Promise<{ next: number; control?: LoopControl }> {
+    const { range, finallyRange, catchIndex } = this.getGroupBounds(
+      group,
+      blocks,
+      currentIndex,
+      frame.range,
+    );
+    const groupFrame: ExecutionFrame = {
+      ...frame,
+      range,
+      groups: new Set([...(frame.groups ?? []), group.id]),
+    };
+    const maxAttempts = Math.max(1, Math.floor(group.retry?.maxAttempts ?? 1));
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const control = await this.executeBlocks(blocks, range.start, context, scope, groupFrame);
+
+        /* Leaving early skips past the finally range — run it here */
+        if (control && finallyRange) {
+          await this.executeBlocks(blocks, finallyRange.start, context, scope, { ...frame, range: finallyRange });
+        }
+        return { next: range.end, control };
+      } catch (error) {
+        if (!(error instanceof BlockFailedError)) throw error;
+
+        if (attempt < maxAttempts) {
+          const backoffMs = (group.retry?.backoffMs ?? 0) * 2 ** (attempt - 1);
+          if (backoffMs > 0) {
+            await abortableSleep(backoffMs, context.signal).catch(() =>
+              this.throwIfCancelled(context),
+            );
+          }
+          continue;
+        }
+
+        if (finallyRange) {
+          await this.executeBlocks(blocks, finallyRange.start, context, scope, { ...frame, range: finallyRange });
+        }
+        if (catchIndex === undefined) throw error;
+
+        /* The finally range may have cleared $error — restore the failure for the handler */
+        this.contextManager.setLastError(error.stepError);
+        return { next: catchIndex };
+      }
+    }
+  }
+
+  /**
+   * Resolve a group's block range, finally range, and catch target.
+   * The group must lie within the loop body or group it starts in,
+   * may not contain UI blocks, and may not catch into itself.
+   */
+  private getGroupBounds(
+    group: BlockGroup,
+    blocks: Block[],
+    startIndex: number,
+    enclosing?: BlockRange,
+  ): { range: BlockRange; finallyRange?: BlockRange; catchIndex?: number } {
+    const label = `group "${group.name}"`;
+    const limit = enclosing?.end ?? blocks.length;
+    const indexOf = (id: string) => blocks.findIndex((b) => b.id === id);
+
+    const endIndex = indexOf(group.endBlockId);
+    if (endIndex < startIndex) {
+      throw new RunAbortedError(
+        `Group "${group.name}" end block "${group.endBlockId}" is unknown or comes before its start.`,
+      );
+    }
+    if (endIndex >= limit) {
+      throw new RunAbortedError(
+        `Group "${group.name}" extends past the end of ${enclosing!.label}.`,
+      );
+    }
+
+    let finallyRange: BlockRange | undefined;
+    if (group.finallyEndBlockId) {
+      const finallyEnd = indexOf(group.finallyEndBlockId);
+      if (finallyEnd <= endIndex || finallyEnd >= limit) {
+        throw new RunAbortedError(
+          `Group "${group.name}" finally range must directly follow the group and end at a later block.`,
+        );
+      }
+      finallyRange = { start: endIndex + 1, end: finallyEnd + 1, label: `finally range of ${label}` };
+    }
+
+    let catchIndex: number | undefined;
+    if (group.catchBlockId) {
+      catchIndex = indexOf(group.catchBlockId);
+      if (catchIndex === -1) {
+        throw new RunAbortedError(
+          `Group "${group.name}" references unknown catch block "${group.catchBlockId}".`,
+        );
+      }
+      if (catchIndex >= startIndex && catchIndex <= endIndex) {
+        throw new RunAbortedError(
+          `Group "${group.name}" cannot catch into its own blocks.`,
+        );
+      }
+      if (enclosing && (catchIndex < enclosing.start || catchIndex >= enclosing.end)) {
+        throw new RunAbortedError(
+          `Group "${group.name}" catch block must be inside ${enclosing.label}.`,
+        );
+      }
+    }
+
+    const lastIndex = finallyRange ? finallyRange.end - 1 : endIndex;
+    const uiBlock = blocks
+      .slice(startIndex, lastIndex + 1)
+      .find((b) => this.isUiBlock(b.type));
+    if (uiBlock) {
+      throw new RunAbortedError(
+        `Group "${group.name}" cannot contain UI block "${uiBlock.name}".`,
+      );
+    }
+
+    return { range: { start: startIndex, end: endIndex + 1, label }, finallyRange, catchIndex };
+  }
+
   /* ── Deferred execution ─────────────────────────────── */
 
-  // TODO: Enforce deferConcurrency limit — the config value is accepted but never actually used to limit concurrent deferred executions.
+  /**
+   * Run one deferred iteration: every block from the goto target to
+   * the end of the workflow, against the iteration's isolated context.
+   * Steps are grouped under `iterationId`. The scheduler merges the
+   * resulting state back into the parent when the iterations are joined.
+   */
   private async executeDeferredIteration(
     blocks: Block[],
     targetIndex: number,
-    parentContext: WorkflowContext,
-    runBuilder: RunBuilder,
-    startTime: number,
-    gotoBlock: Block,
+    iterationContext: WorkflowContext,
+    iterationId: string,
+    scope: RunScope,
   ): Promise<void> {
-    const iterationId = nanoid();
-
-    /**
-     * Create a shallow copy of the context for deferred execution.
-     * State is shared (mutations visible to parent), but the run
-     * context gets an isolated step tracking scope.
-     */
-    const iterationContext: WorkflowContext = {
-      ...parentContext,
-      state: { ...parentContext.state },
-      cache: new Map(parentContext.cache),
-      artifacts: [...parentContext.artifacts],
-    };
+    const { runBuilder, secrets, startTime } = scope;
 
     /* Execute from the target block onward within the deferred scope */
     for (let i = targetIndex; i < blocks.length; i++) {
+      this.throwIfCancelled(iterationContext);
+
       if (runBuilder.getExecutionCount() >= this.config.maxSteps) {
         throw new RunAbortedError(
           `Step limit reached during deferred execution (${this.config.maxSteps}).`,
@@ -366,7 +830,21 @@ export class Interpreter {
       /* Skip UI blocks in deferred context — they can't pause */
       if (this.isUiBlock(block.type)) continue;
 
+      /* Error-handling groups run as a unit within the iteration, then resume after them */
+      const group = scope.groups.get(block.id)?.[0];
+      if (group) {
+        i = (await this.handleGroup(group, blocks, iterationContext, scope, i, { iterationId })).next - 1;
+        continue;
+      }
+
+      /* Loops run their body within the iteration, then resume after it */
+      if (block.type === "loop") {
+        i = await this.handleLoop(block, blocks, iterationContext, scope, i, { iterationId }) - 1;
+        continue;
+      }
+
       /* Evaluate conditions */
+      await this.prefetchConditionKeys(block, secrets);
       const conditionsMet = this.conditionEvaluator.evaluateAll(
         block.conditions,
         iterationContext,
@@ -377,12 +855,27 @@ export class Interpreter {
         continue;
       }
 
+      if (block.type === "switch") {
+        i = await this.handleSwitch(block, blocks, iterationContext, scope, i, { iterationId }) - 1;
+        continue;
+      }
+
       /* Execute the block within the deferred scope */
       const step = runBuilder.createDeferredStep(block, iterationId);
+      const simulated = this.getSimulatedBlock(block, scope);
+      if (simulated) step.simulated = simulated.kind;
       const stateBefore = { ...iterationContext.state };
 
       try {
-        const result = await this.blockExecutor.execute(block, iterationContext);
+        let result: BlockResult;
+        if (simulated) {
+          result = this.simulateBlock(simulated);
+        } else {
+          await secrets.prefetch(block.logic);
+          result = await this.blockExecutor.execute(block, iterationContext, (attempt) =>
+            runBuilder.recordAttempt(step, attempt),
+          );
+        }
         runBuilder.applyDeltas(iterationContext, result);
         const actualDelta = runBuilder.calculateDelta(stateBefore, iterationContext.state);
         runBuilder.completeStep(step, {
@@ -397,23 +890,58 @@ export class Interpreter {
           blockName: block.name,
         };
         runBuilder.failStep(step, stepError);
+        this.throwIfCancelled(iterationContext);
 
         const strategy = this.blockExecutor.getErrorStrategy(block);
-        if (strategy === "abort") {
+        if (strategy !== "continue") {
           throw new RunAbortedError(
             `Deferred block "${block.name}" failed: ${stepError.message}`,
           );
         }
       }
     }
-
-    /* Merge deferred state back into parent */
-    Object.assign(parentContext.state, iterationContext.state);
   }
 
   /* ── Context construction ───────────────────────────── */
 
-  private buildContext(runConfig: RunConfig): WorkflowContext {
+  private createScope(runConfig: RunConfig, blocks: Block[]): RunScope {
+    const secrets = new RunSecrets(this.contextManager, runConfig.keyResolver);
+    const runBuilder = new RunBuilder(runConfig.hooks, secrets, runConfig.priorSteps);
+    return {
+      runBuilder,
+      secrets,
+      deferred: new DeferredScheduler(runBuilder, runConfig.signal),
+      startTime: Date.now(),
+      groups: this.indexGroups(runConfig.workflowVersion.groups ?? [], blocks),
+      simulation: runConfig.simulation,
+      debug: runConfig.debug,
+      resumeBlockId: runConfig.debug?.resumeBlockId,
+    };
+  }
+
+  /**
+   * Index the groups that handle errors by their first block.
+   * Groups sharing a first block are ordered outermost first.
+   * Plain designer groups are left out — they change nothing at runtime.
+   */
+  private indexGroups(groups: BlockGroup[], blocks: Block[]): Map<string, BlockGroup[]> {
+    const position = new Map(blocks.map((b, i) => [b.id, i]));
+    const index = new Map<string, BlockGroup[]>();
+
+    for (const group of groups) {
+      if (!group.catchBlockId && !group.retry && !group.finallyEndBlockId) continue;
+      const list = index.get(group.startBlockId) ?? [];
+      list.push(group);
+      index.set(group.startBlockId, list);
+    }
+
+    for (const list of index.values()) {
+      list.sort((a, b) => (position.get(b.endBlockId) ?? -1) - (position.get(a.endBlockId) ?? -1));
+    }
+    return index;
+  }
+
+  private buildContext(runConfig: RunConfig, secrets: RunSecrets): WorkflowContext {
     return {
       state: runConfig.initialState ? { ...runConfig.initialState } : {},
       cache: new Map(),
@@ -432,30 +960,298 @@ export class Interpreter {
       event: runConfig.event as Record<string, unknown> & { type?: string },
       loops: {},
       paths: runConfig.paths ? { ...runConfig.paths } : {},
-      keyResolver: runConfig.keyResolver,
+      keyResolver: secrets.lookup,
+      signal: runConfig.signal,
+      invokeWorkflow: this.createWorkflowCaller(runConfig),
     };
   }
 
+  /**
+   * Wrap the host's invoker for `workflow` blocks: calls are tagged
+   * with this run and the child's depth, and refused once the run is
+   * already at the depth limit.
+   */
+  private createWorkflowCaller(runConfig: RunConfig): WorkflowCaller | undefined {
+    const invoke = runConfig.invokeWorkflow;
+    if (!invoke) return undefined;
+
+    const depth = (runConfig.callDepth ?? 0) + 1;
+    return async (call) => {
+      if (depth > this.config.maxCallDepth) {
+        throw new Error(
+          `Workflow call depth limit reached (${this.config.maxCallDepth}) calling "${call.workflowId}". ` +
+          `Check for workflows that call each other recursively.`,
+        );
+      }
+      return invoke({ ...call, parentRunId: runConfig.runId, depth });
+    };
+  }
+
+  /* ── Simulation ─────────────────────────────────────── */
+
+  /**
+   * How a block is simulated in this run, if at all: its mock by ID,
+   * then by type, else a stub when its type is stubbed. Outside a
+   * simulation every block runs for real.
+   */
+  private getSimulatedBlock(block: Block, scope: RunScope): SimulatedBlock | undefined {
+    const { simulation } = scope;
+    if (!simulation) return undefined;
+
+    const mock = simulation.blocks?.[block.id] ?? simulation.types?.[block.type];
+    if (mock) return { kind: "mock", mock };
+
+    const stubbed = simulation.stub ?? SIDE_EFFECT_BLOCK_TYPES;
+    return stubbed.includes(block.type) ? { kind: "stub" } : undefined;
+  }
+
+  /**
+   * The result a simulated block returns in place of its handler's.
+   * Mocks are copied so a block that runs repeatedly never shares
+   * objects with an earlier step; error mocks fail the block.
+   */
+  private simulateBlock(simulated: SimulatedBlock): BlockResult {
+    const { mock } = simulated;
+    if (!mock) return {};
+    if ("error" in mock) throw new Error(mock.error);
+    return structuredClone(mock);
+  }
+
+  /* ── Debugging ──────────────────────────────────────── */
+
+  /**
+   * Pause a debug run before a top-level block that is a breakpoint,
+   * or before any block while stepping. The block the run resumed at
+   * is let through once, so resuming moves past the pause.
+   */
+  private async pauseAtBreakpoint(
+    block: Block,
+    index: number,
+    scope: RunScope,
+    frame: ExecutionFrame,
+  ): Promise<void> {
+    const { debug } = scope;
+    if (!debug || frame.range || frame.iterationId) return;
+
+    const resumed = scope.resumeBlockId === block.id;
+    scope.resumeBlockId = undefined;
+    if (resumed) return;
+
+    const reason = debug.step ? "step" : debug.breakpoints?.includes(block.id) ? "breakpoint" : undefined;
+    if (!reason) return;
+
+    /* Deferred work lands in state before the paused context is snapshotted */
+    await scope.deferred.join();
+    throw new AwaitingActionError({ reason, blockId: block.id, resumeIndex: index });
+  }
+
   /* ── Result construction ────────────────────────────── */
 
   private buildResult(
     status: RunResult["status"],
-    runBuilder: RunBuilder,
+    scope: RunScope,
     context: WorkflowContext,
-    startTime: number,
     errorMessage?: string,
   ): RunResult {
     return {
       status,
-      steps: runBuilder.getSteps(),
+      steps: scope.runBuilder.getSteps(),
       context,
-      durationMs: Date.now() - startTime,
-      ...(errorMessage ? { errorMessage } : {}),
+      durationMs: Date.now() - scope.startTime,
+      ...(errorMessage ? { errorMessage: scope.runBuilder.redact(errorMessage) } : {}),
     };
   }
 
+  /**
+   * Map an error thrown out of the execution loop to a terminal result.
+   * Pauses and cancellations keep the partial step list; everything
+   * else is reported as a failed run.
+   */
+  private buildErrorResult(
+    error: unknown,
+    scope: RunScope,
+    context: WorkflowContext,
+  ): RunResult {
+    if (error instanceof AwaitingActionError) {
+      return { ...this.buildResult("awaiting_action", scope, context), pause: error.pause };
+    }
+    if (error instanceof RunCancelledError) {
+      return this.buildResult("cancelled", scope, context, error.message);
+    }
+    const msg = error instanceof Error ? error.message : String(error);
+    return this.buildResult("failed", scope, context, msg);
+  }
+
   /* ── Helpers ────────────────────────────────────────── */
 
+  /**
+   * Report a resumable point. Only the top level qualifies — inside a
+   * loop body, group or deferred iteration the position lives on the
+   * call stack — and only while no deferred iteration is unmerged.
+   */
+  private checkpoint(
+    nextBlockIndex: number,
+    context: WorkflowContext,
+    scope: RunScope,
+    frame: ExecutionFrame,
+  ): void {
+    if (frame.range || frame.iterationId || scope.deferred.hasPending()) return;
+    scope.runBuilder.checkpoint(nextBlockIndex, context);
+  }
+
+  /** Create a step, grouped under the frame's deferred iteration if it has one */
+  private createStep(block: Block, scope: RunScope, frame: ExecutionFrame): Step {
+    return frame.iterationId
+      ? scope.runBuilder.createDeferredStep(block, frame.iterationId)
+      : scope.runBuilder.createStep(block);
+  }
+
+  /**
+   * Resolve the `$keys.*` references in a block's conditions.
+   * A key that cannot be resolved here fails the run — there is no
+   * step yet for on_error to apply to.
+   */
+  private async prefetchConditionKeys(block: Block, secrets: RunSecrets): Promise<void> {
+    if (!block.conditions?.length) return;
+
+    try {
+      await secrets.prefetch(block.conditions);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new RunAbortedError(
+        `Block "${block.name}" conditions could not be resolved: ${msg}`,
+      );
+    }
+  }
+
+  /**
+   * Concurrent iterations allowed for a deferred goto — its own
+   * `goto_max_concurrent` if set, never above the configured limit.
+   */
+  private getDeferLimit(block: Block): number {
+    const requested = Number(block.logic.goto_max_concurrent);
+    if (!Number.isFinite(requested) || requested < 1) return this.config.deferConcurrency;
+    return Math.min(Math.floor(requested), this.config.deferConcurrency);
+  }
+
+  /** Read and validate a deferred goto's `goto_merge` policy */
+  private getMergePolicy(block: Block): DeferMergePolicy {
+    const policy = block.logic.goto_merge ?? "last_writer";
+    if (!MERGE_POLICIES.includes(policy as DeferMergePolicy)) {
+      throw new RunAbortedError(
+        `Goto block "${block.name}" has unknown goto_merge "${String(policy)}".`,
+      );
+    }
+    return policy as DeferMergePolicy;
+  }
+
+  /**
+   * Locate a loop's body: the blocks after it up to and including the
+   * one named by `loop_body_end`. A nested body must end within its
+   * enclosing loop's body, and a body may not contain UI blocks —
+   * a run cannot pause part-way through a loop.
+   */
+  private getLoopBody(
+    block: Block,
+    blocks: Block[],
+    currentIndex: number,
+    enclosing?: BlockRange,
+  ): BlockRange {
+    const endName = block.logic.loop_body_end as string | undefined;
+    if (!endName) {
+      throw new RunAbortedError(
+        `Loop block "${block.name}" is missing loop_body_end in logic.`,
+      );
+    }
+
+    const endIndex = blocks.findIndex((b) => b.name === endName);
+    if (endIndex === -1) {
+      throw new RunAbortedError(
+        `Loop block "${block.name}" references unknown body end "${endName}".`,
+      );
+    }
+    if (endIndex <= currentIndex) {
+      throw new RunAbortedError(
+        `Loop block "${block.name}" body end "${endName}" must come after the loop.`,
+      );
+    }
+    if (enclosing && endIndex >= enclosing.end) {
+      throw new RunAbortedError(
+        `Loop block "${block.name}" body extends past the end of ${enclosing.label}.`,
+      );
+    }
+
+    const uiBlock = blocks
+      .slice(currentIndex + 1, endIndex + 1)
+      .find((b) => this.isUiBlock(b.type));
+    if (uiBlock) {
+      throw new RunAbortedError(
+        `Loop block "${block.name}" cannot contain UI block "${uiBlock.name}".`,
+      );
+    }
+
+    return { start: currentIndex + 1, end: endIndex + 1, label: `loop "${block.name}"` };
+  }
+
+  /** Read and validate a loop's `loop_mode` */
+  private getLoopMode(block: Block): LoopMode {
+    const mode = block.logic.loop_mode ?? "for_each";
+    if (!LOOP_MODES.includes(mode as LoopMode)) {
+      throw new RunAbortedError(
+        `Loop block "${block.name}" has unknown loop_mode "${String(mode)}".`,
+      );
+    }
+    return mode as LoopMode;
+  }
+
+  /**
+   * Resolve a for_each loop's `loop_over` to the list it iterates.
+   * The list is copied up front, so blocks in the body can modify the
+   * source without changing the iteration. `artifacts` is set when
+   * the source is the run's artifact list itself.
+   */
+  private getLoopItems(
+    block: Block,
+    context: WorkflowContext,
+  ): { list: unknown[]; artifacts: boolean } {
+    const source = block.logic.loop_over;
+    if (source === undefined || source === null || source === "") {
+      throw new RunAbortedError(
+        `Loop block "${block.name}" is missing loop_over in logic.`,
+      );
+    }
+
+    const resolved = this.contextManager.resolveValue(source, context);
+    if (!Array.isArray(resolved)) {
+      throw new RunAbortedError(
+        `Loop block "${block.name}" loop_over must resolve to an array.`,
+      );
+    }
+
+    return { list: [...resolved], artifacts: resolved === context.artifacts };
+  }
+
+  /**
+   * Iterations allowed for a loop — its own `loop_max_iterations` if
+   * set, never above the run's step limit.
+   */
+  private getLoopLimit(block: Block): number {
+    const requested = Number(block.logic.loop_max_iterations);
+    if (!Number.isFinite(requested) || requested < 1) return this.config.maxSteps;
+    return Math.min(Math.floor(requested), this.config.maxSteps);
+  }
+
+  /** Throw RunCancelledError if the run's signal has been aborted */
+  private throwIfCancelled(context: WorkflowContext): void {
+    const signal = context.signal;
+    if (!signal?.aborted) return;
+
+    const reason = signal.reason;
+    throw new RunCancelledError(
+      typeof reason === "string" && reason ? reason : "Run cancelled",
+    );
+  }
+
   private isUiBlock(type: string): boolean {
     return type.startsWith("ui_");
   }
@@ -463,14 +1259,22 @@ export class Interpreter {
 
 /* ── Internal error types ───────────────────────────────── */
 
-/** Thrown when a UI block is encountered and the run should pause */
+/** Thrown when a UI block or the debugger pauses the run */
 class AwaitingActionError extends Error {
-  constructor(public readonly blockId: string) {
-    super(`Awaiting action for block ${blockId}`);
+  constructor(public readonly pause: RunPause) {
+    super(`Awaiting action for block ${pause.blockId}`);
     this.name = "AwaitingActionError";
   }
 }
 
+/** Thrown when the run's cancellation signal fires */
+class RunCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RunCancelledError";
+  }
+}
+
 /** Thrown when the run should be aborted due to a fatal error */
 class RunAbortedError extends Error {
   constructor(message: string) {
@@ -478,3 +1282,11 @@ class RunAbortedError extends Error {
     this.name = "RunAbortedError";
   }
 }
+
+/** Thrown when a block fails with on_error 'abort' — error-handling groups catch it */
+class BlockFailedError extends RunAbortedError {
+  constructor(public readonly stepError: StepError) {
+    super(`Block "${stepError.blockName}" failed: ${stepError.message}`);
+    this.name = "BlockFailedError";
+  }
+}
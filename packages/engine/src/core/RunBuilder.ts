@@ -2,22 +2,39 @@ import { nanoid } from "nanoid";
 import type {
   Block,
   Step,
+  StepAttempt,
   StepStatus,
   StepError,
   WorkflowContext,
 } from "@vsync/shared-types";
-import type { BlockResult } from "../types.js";
+import type { BlockResult, InterpreterHooks, RunCheckpoint } from "../types.js";
+import type { RunSecrets } from "./RunSecrets.js";
 
 /**
  * Tracks execution steps and computes context deltas.
  *
  * Each block execution becomes a Step with timing, status,
  * and delta information. The RunBuilder is the single source
- * of truth for the step list within a run.
+ * of truth for the step list within a run, so it is also where
+ * per-run observer hooks are notified of step transitions.
+ *
+ * When given the run's secrets, resolved `$keys.*` values are
+ * redacted from step deltas and errors before they are recorded,
+ * so neither observers nor persisted step lists ever see them.
  */
 export class RunBuilder {
-  private readonly steps: Step[] = [];
-  private executionCounter = 0;
+  private readonly steps: Step[];
+  private executionCounter: number;
+
+  /** `priorSteps` continue a run resumed from a checkpoint */
+  constructor(
+    private readonly hooks: InterpreterHooks = {},
+    private readonly secrets?: RunSecrets,
+    priorSteps: Step[] = [],
+  ) {
+    this.steps = [...priorSteps];
+    this.executionCounter = priorSteps.length;
+  }
 
   /** Read-only access to all recorded steps */
   getSteps(): Step[] {
@@ -48,6 +65,7 @@ export class RunBuilder {
     };
 
     this.steps.push(step);
+    this.notify(() => this.hooks.onStepStart?.(step));
     return step;
   }
 
@@ -63,20 +81,32 @@ export class RunBuilder {
     step.endedAt = new Date().toISOString();
 
     if (result) {
-      step.stateDelta = result.stateDelta;
-      step.cacheDelta = result.cacheDelta;
-      step.artifactsDelta = result.artifactsDelta;
-      step.eventDelta = result.eventDelta;
+      step.stateDelta = this.redact(result.stateDelta);
+      step.cacheDelta = this.redact(result.cacheDelta);
+      step.artifactsDelta = this.redact(result.artifactsDelta);
+      step.eventDelta = this.redact(result.eventDelta);
     }
+
+    this.notify(() => this.hooks.onStepComplete?.(step));
   }
 
   /**
    * Mark a step as failed with error details.
    */
   failStep(step: Step, error: StepError): void {
+    const recorded = this.redact(error);
     step.status = "failed";
     step.endedAt = new Date().toISOString();
-    step.error = error;
+    step.error = recorded;
+    this.notify(() => this.hooks.onStepFailed?.(step, recorded));
+  }
+
+  /**
+   * Record one attempt at running the step's block.
+   * Only blocks with a retry or timeout policy report attempts.
+   */
+  recordAttempt(step: Step, attempt: StepAttempt): void {
+    step.attempts = [...(step.attempts ?? []), this.redact(attempt)];
   }
 
   /**
@@ -85,6 +115,26 @@ export class RunBuilder {
   skipStep(step: Step): void {
     step.status = "skipped";
     step.endedAt = new Date().toISOString();
+    this.notify(() => this.hooks.onStepComplete?.(step));
+  }
+
+  /**
+   * Mark a UI block's step as completed and signal that the run
+   * is pausing on it until the user responds.
+   */
+  pauseStep(step: Step): void {
+    this.completeStep(step);
+    this.notify(() => this.hooks.onRunPaused?.(step));
+  }
+
+  /**
+   * Report a point the run can be resumed from, with `nextBlockIndex`
+   * as the first block still to execute. Snapshotting is skipped
+   * entirely when nobody observes checkpoints.
+   */
+  checkpoint(nextBlockIndex: number, context: WorkflowContext): void {
+    if (!this.hooks.onCheckpoint) return;
+    this.notify(() => this.hooks.onCheckpoint?.(this.snapshot(nextBlockIndex, context)));
   }
 
   /**
@@ -140,8 +190,47 @@ export class RunBuilder {
     }
   }
 
+  /** Strip resolved secret values from anything leaving the run */
+  redact<T>(value: T): T {
+    return this.secrets ? this.secrets.redact(value) : value;
+  }
+
   /* ── Internal helpers ───────────────────────────────── */
 
+  /**
+   * JSON round-trip, so later mutations of the live context never reach
+   * the checkpoint. A checkpoint whose context lost a secret value to
+   * redaction is marked, so recovery refuses it instead of resuming
+   * with "[REDACTED]" in place of real data.
+   */
+  private snapshot(nextBlockIndex: number, context: WorkflowContext): RunCheckpoint {
+    const checkpoint: RunCheckpoint = JSON.parse(JSON.stringify({
+      nextBlockIndex,
+      steps: this.steps,
+      context: {
+        state: context.state,
+        cache: [...context.cache.entries()],
+        artifacts: context.artifacts,
+        event: context.event,
+        loops: context.loops,
+      },
+      createdAt: new Date().toISOString(),
+    }));
+    const redacted = this.redact(checkpoint);
+    if (JSON.stringify(redacted.context) !== JSON.stringify(checkpoint.context)) redacted.redacted = true;
+    return redacted;
+  }
+
+  /** Invoke an observer hook, isolating the run from its failures */
+  private notify(invoke: () => void | Promise<void>): void {
+    try {
+      const pending = invoke();
+      if (pending instanceof Promise) pending.catch(() => {});
+    } catch {
+      /* Observers must never affect execution */
+    }
+  }
+
   /** Simple deep equality check for delta detection */
   private deepEqual(a: unknown, b: unknown): boolean {
     if (a === b) return true;
@@ -0,0 +1,123 @@
+import type { KeyResolverFn } from "../types.js";
+import type { ContextManager } from "./ContextManager.js";
+
+/** Placeholder written in place of a secret value */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Shortest value that is redacted. Anything shorter would match
+ * ordinary text all over the step record and is no real secret.
+ */
+const MIN_REDACT_LENGTH = 4;
+
+/**
+ * Replace every occurrence of the given secret values inside a
+ * JSON-like value. Strings are rewritten, arrays and plain objects
+ * are copied recursively, everything else is returned untouched.
+ */
+export function redactSecrets<T>(value: T, secrets: Iterable<string>): T {
+  /* Longest first, so a secret containing another is replaced whole */
+  const needles = [...new Set(secrets)]
+    .filter((s) => s.length >= MIN_REDACT_LENGTH)
+    .sort((a, b) => b.length - a.length);
+
+  if (needles.length === 0) return value;
+  return redactValue(value, needles) as T;
+}
+
+function redactValue(value: unknown, needles: string[]): unknown {
+  if (typeof value === "string") {
+    let out = value;
+    for (const needle of needles) out = out.split(needle).join(REDACTED);
+    return out;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, needles));
+  }
+
+  if (value !== null && typeof value === "object" && isPlainObject(value)) {
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      out[key] = redactValue(item, needles);
+    }
+    return out;
+  }
+
+  return value;
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Per-run cache of `$keys.*` values.
+ *
+ * The caller's key resolver may be async (a database lookup plus
+ * decryption), while template resolution in the ContextManager is
+ * synchronous. The Interpreter therefore prefetches every key a
+ * block references before running it, and installs `lookup` as the
+ * context's synchronous keyResolver to serve them from this cache.
+ *
+ * Every string value handed out is remembered so that it can be
+ * redacted from the step records the run produces.
+ */
+export class RunSecrets {
+  private readonly resolved = new Map<string, unknown>();
+  private readonly values = new Set<string>();
+
+  constructor(
+    private readonly contextManager: ContextManager,
+    private readonly resolver?: KeyResolverFn,
+  ) {}
+
+  /**
+   * Resolve every `$keys.*` reference found in `source` that has not
+   * been resolved yet. Rejects with the resolver's error if a key
+   * cannot be resolved.
+   */
+  async prefetch(source: unknown): Promise<void> {
+    if (!this.resolver) return;
+
+    const pending = [...this.contextManager.collectKeyRefs(source)]
+      .filter((name) => !this.resolved.has(name));
+    if (pending.length === 0) return;
+
+    const entries = await Promise.all(
+      pending.map(async (name) => [name, await this.resolver!(name)] as const),
+    );
+
+    for (const [name, value] of entries) this.remember(name, value);
+  }
+
+  /**
+   * Synchronous resolver installed as `context.keyResolver`.
+   * Serves prefetched keys; anything else is passed to the caller's
+   * resolver directly, which only yields a value if it is synchronous.
+   */
+  readonly lookup = (keyName: string): unknown => {
+    if (this.resolved.has(keyName)) return this.resolved.get(keyName);
+    if (!this.resolver) return undefined;
+
+    const value = this.resolver(keyName);
+    if (value instanceof Promise) {
+      value.catch(() => {});
+      return undefined;
+    }
+
+    this.remember(keyName, value);
+    return value;
+  };
+
+  /** Return a copy of `value` with every resolved secret replaced by REDACTED */
+  redact<T>(value: T): T {
+    return redactSecrets(value, this.values);
+  }
+
+  private remember(name: string, value: unknown): void {
+    this.resolved.set(name, value);
+    if (typeof value === "string") this.values.add(value);
+  }
+}
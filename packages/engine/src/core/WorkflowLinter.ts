@@ -0,0 +1,447 @@
+import type { Block, ConditionNode, SwitchCase, WorkflowVersion } from "@vsync/shared-types";
+import { expressionSources, isPlainPath, parseExpression } from "@vsync/shared-types";
+import { ExpressionEvaluator } from "./ExpressionEvaluator.js";
+import type { PlatformAdapter } from "./PlatformAdapter.js";
+
+/* ── Diagnostics ─────────────────────────────────────── */
+
+export type LintSeverity = "error" | "warning";
+
+export type LintRule =
+  | "unknown-target"
+  | "unreachable-block"
+  | "state-read-before-write"
+  | "bind-collision"
+  | "ui-unavailable"
+  | "unsupported-block"
+  | "unknown-environment"
+  | "unbounded-cycle";
+
+/** One finding — `blockId` is null for workflow-level findings */
+export interface LintDiagnostic {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  blockId: string | null;
+  blockName?: string;
+}
+
+/** What the linter reads from a version */
+export type LintableVersion = Pick<
+  WorkflowVersion,
+  "blocks" | "groups" | "executionEnvironments" | "triggerType"
+>;
+
+/** Matches every field that binds a block's result into `$state` */
+const BIND_FIELD = /_bind_(?:value|value_to|to)$/;
+
+/** Fields holding source code rather than resolvable values */
+const VERBATIM_FIELDS: ReadonlySet<string> = new Set(["code_source"]);
+
+/**
+ * Whole-workflow static analysis, run before a version is published.
+ *
+ * Where `validateBlock` (@vsync/blocks) checks one block's fields in
+ * isolation, the linter follows control flow across blocks:
+ *   - goto / switch / loop / group targets that name no block
+ *   - blocks no path from the first block can reach
+ *   - `$state` keys read before any earlier block writes them
+ *   - bound values overwritten before anything reads them
+ *   - UI blocks in unattended runs on environments without UI
+ *   - blocks the environment's PlatformAdapter does not support
+ *   - jump cycles with no way out (no conditional goto or switch
+ *     branch leaves them), which only end at the step limit
+ *
+ * Errors should block publishing; warnings are advisory.
+ * Environments are matched to adapters by name, e.g.
+ * `{ cloud: new CloudAdapter(), mobile: new MobileAdapter() }`.
+ */
+export class WorkflowLinter {
+  constructor(private readonly environments: Record<string, PlatformAdapter> = {}) {}
+
+  lint(version: LintableVersion): LintDiagnostic[] {
+    const blocks = [...version.blocks].sort((a, b) => a.order - b.order);
+    const diagnostics: LintDiagnostic[] = [];
+    const graph = this.buildGraph(blocks, version, diagnostics);
+
+    this.checkReachability(blocks, graph, diagnostics);
+    this.checkCycles(blocks, graph, diagnostics);
+    this.checkStateFlow(blocks, graph, diagnostics);
+    this.checkPlatforms(blocks, version, diagnostics);
+
+    return diagnostics;
+  }
+
+  /* ── Control-flow graph ────────────────────────────── */
+
+  /**
+   * Successors of each block by index; `blocks.length` stands for the
+   * end of the run. Loop bodies are bounded by their iteration limit,
+   * so they are modelled as running once rather than as a cycle.
+   */
+  private buildGraph(
+    blocks: Block[],
+    version: LintableVersion,
+    diagnostics: LintDiagnostic[],
+  ): number[][] {
+    const exit = blocks.length;
+    const indexByName = new Map<string, number>();
+    blocks.forEach((b, i) => {
+      if (!indexByName.has(b.name)) indexByName.set(b.name, i);
+    });
+
+    const resolve = (block: Block, name: unknown, field: string): number | undefined => {
+      if (typeof name !== "string" || name === "") return undefined;
+      const index = indexByName.get(name);
+      if (index === undefined) {
+        diagnostics.push(this.diagnostic("unknown-target", "error", block,
+          `${field} of "${block.name}" references unknown block "${name}"`));
+      }
+      return index;
+    };
+
+    /* Innermost loop end for every block inside a loop body — nested loops come later and overwrite */
+    const loopExit = new Map<number, number>();
+    const loopBodyEnd = new Map<number, number>();
+    blocks.forEach((block, i) => {
+      if (block.type !== "loop") return;
+      const end = resolve(block, block.logic.loop_body_end, "loop_body_end");
+      if (end === undefined || end <= i) return;
+      loopBodyEnd.set(i, end);
+      for (let j = i + 1; j <= end; j++) loopExit.set(j, end + 1);
+    });
+
+    const graph = blocks.map((block, i): number[] => {
+      const next = i + 1;
+      const guarded = (block.conditions?.length ?? 0) > 0;
+
+      switch (block.type) {
+        case "goto": {
+          const target = resolve(block, block.logic.goto_target, "goto_target");
+          const edges = target === undefined ? [] : [target];
+          if (guarded || block.logic.goto_defer || target === undefined) edges.push(next);
+          return edges;
+        }
+
+        case "switch": {
+          const cases = Array.isArray(block.logic.switch_cases)
+            ? (block.logic.switch_cases as SwitchCase[])
+            : [];
+          const edges: number[] = [];
+          cases.forEach((branch, c) => {
+            const target = resolve(block, branch?.target, `switch_cases[${c}].target`);
+            if (target !== undefined) edges.push(target);
+          });
+          const fallback = resolve(block, block.logic.switch_default, "switch_default");
+          edges.push(fallback ?? next);
+          if (guarded) edges.push(next);
+          return edges;
+        }
+
+        case "loop": {
+          const end = loopBodyEnd.get(i);
+          return end === undefined ? [next] : [next, end + 1];
+        }
+
+        case "break":
+        case "continue":
+          return [loopExit.get(i) ?? next];
+
+        default:
+          return [next];
+      }
+    });
+
+    /* A failure inside a group with a catch target continues from that block */
+    const indexById = new Map(blocks.map((b, i) => [b.id, i]));
+    for (const group of version.groups ?? []) {
+      const start = indexById.get(group.startBlockId);
+      const end = indexById.get(group.endBlockId);
+      if (start === undefined || end === undefined) {
+        diagnostics.push({
+          rule: "unknown-target",
+          severity: "error",
+          message: `Group "${group.name}" references a block that does not exist`,
+          blockId: null,
+        });
+        continue;
+      }
+      if (!group.catchBlockId) continue;
+
+      const target = indexById.get(group.catchBlockId);
+      if (target === undefined) {
+        diagnostics.push({
+          rule: "unknown-target",
+          severity: "error",
+          message: `Group "${group.name}" catch block "${group.catchBlockId}" does not exist`,
+          blockId: null,
+        });
+        continue;
+      }
+      for (let j = start; j <= end; j++) graph[j].push(target);
+    }
+
+    return graph.map((edges) => [...new Set(edges.map((e) => Math.min(e, exit)))]);
+  }
+
+  /* ── Reachability ──────────────────────────────────── */
+
+  private checkReachability(blocks: Block[], graph: number[][], diagnostics: LintDiagnostic[]): void {
+    if (blocks.length === 0) return;
+
+    const reached = this.reachableFrom([0], graph);
+    blocks.forEach((block, i) => {
+      if (!reached.has(i)) {
+        diagnostics.push(this.diagnostic("unreachable-block", "warning", block,
+          `"${block.name}" can never run — no path from the first block reaches it`));
+      }
+    });
+  }
+
+  private reachableFrom(starts: number[], graph: number[][], stop?: (i: number) => boolean): Set<number> {
+    const seen = new Set<number>();
+    const queue = [...starts];
+    while (queue.length > 0) {
+      const i = queue.shift()!;
+      if (seen.has(i) || i >= graph.length) continue;
+      seen.add(i);
+      if (stop?.(i)) continue;
+      queue.push(...graph[i]);
+    }
+    return seen;
+  }
+
+  /* ── Cycles ────────────────────────────────────────── */
+
+  /** Report every strongly connected set of blocks that has no edge leaving it */
+  private checkCycles(blocks: Block[], graph: number[][], diagnostics: LintDiagnostic[]): void {
+    for (const component of this.stronglyConnected(graph)) {
+      const members = new Set(component);
+      const isCycle = component.length > 1 || graph[component[0]].includes(component[0]);
+      if (!isCycle) continue;
+
+      const escapes = component.some((i) => graph[i].some((next) => !members.has(next)));
+      if (escapes) continue;
+
+      const first = Math.min(...component);
+      const names = component.sort((a, b) => a - b).map((i) => `"${blocks[i].name}"`).join(" → ");
+      diagnostics.push(this.diagnostic("unbounded-cycle", "error", blocks[first],
+        `Blocks ${names} loop forever — add conditions to a goto or switch so the cycle can exit`));
+    }
+  }
+
+  /** Tarjan's algorithm, iterative so long workflows cannot overflow the stack */
+  private stronglyConnected(graph: number[][]): number[][] {
+    const index = new Map<number, number>();
+    const low = new Map<number, number>();
+    const onStack = new Set<number>();
+    const stack: number[] = [];
+    const components: number[][] = [];
+    let counter = 0;
+
+    for (let root = 0; root < graph.length; root++) {
+      if (index.has(root)) continue;
+
+      const work: Array<{ node: number; edge: number }> = [{ node: root, edge: 0 }];
+      while (work.length > 0) {
+        const frame = work[work.length - 1];
+        const { node } = frame;
+
+        if (frame.edge === 0 && !index.has(node)) {
+          index.set(node, counter);
+          low.set(node, counter);
+          counter++;
+          stack.push(node);
+          onStack.add(node);
+        }
+
+        const edges = graph[node].filter((n) => n < graph.length);
+        if (frame.edge < edges.length) {
+          const next = edges[frame.edge++];
+          if (!index.has(next)) {
+            work.push({ node: next, edge: 0 });
+          } else if (onStack.has(next)) {
+            low.set(node, Math.min(low.get(node)!, index.get(next)!));
+          }
+          continue;
+        }
+
+        work.pop();
+        if (work.length > 0) {
+          const parent = work[work.length - 1].node;
+          low.set(parent, Math.min(low.get(parent)!, low.get(node)!));
+        }
+
+        if (low.get(node) === index.get(node)) {
+          const component: number[] = [];
+          let member: number;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== node);
+          components.push(component);
+        }
+      }
+    }
+
+    return components;
+  }
+
+  /* ── $state reads and writes ───────────────────────── */
+
+  private checkStateFlow(blocks: Block[], graph: number[][], diagnostics: LintDiagnostic[]): void {
+    const reads = blocks.map((block) => this.stateReads(block));
+    const writes = blocks.map((block) => this.stateWrites(block));
+
+    /* Code blocks may read or write any key, so they end both checks */
+    const opaque = (i: number): boolean => blocks[i].type === "code";
+
+    /* Read before write — in block order, since the run starts with empty state */
+    const written = new Set<string>();
+    let anyKey = false;
+    blocks.forEach((block, i) => {
+      if (opaque(i)) anyKey = true;
+      if (!anyKey) {
+        for (const key of reads[i]) {
+          if (written.has(key)) continue;
+          diagnostics.push(this.diagnostic("state-read-before-write", "warning", block,
+            `"${block.name}" reads $state.${key} before any earlier block sets it`));
+        }
+      }
+      for (const key of writes[i]) written.add(key);
+    });
+
+    /* Overwritten before read — follow control flow from each write to the next write of the key */
+    blocks.forEach((block, i) => {
+      for (const key of writes[i]) {
+        const touches = (j: number): boolean =>
+          opaque(j) || reads[j].has(key) || writes[j].has(key);
+        const reached = this.reachableFrom(graph[i], graph, touches);
+
+        for (const j of reached) {
+          if (j === i || opaque(j) || reads[j].has(key) || !writes[j].has(key)) continue;
+          diagnostics.push(this.diagnostic("bind-collision", "warning", blocks[j],
+            `"${blocks[j].name}" overwrites $state.${key} set by "${block.name}" before anything reads it`));
+        }
+      }
+    });
+  }
+
+  /** Top-level `$state` keys a block reads in its conditions and logic */
+  private stateReads(block: Block): Set<string> {
+    const keys = new Set<string>();
+
+    const visit = (value: unknown): void => {
+      if (typeof value === "string") {
+        for (const source of expressionSources(value)) {
+          for (const path of this.paths(source)) {
+            const key = stateKey(path);
+            if (key) keys.add(key);
+          }
+        }
+      } else if (Array.isArray(value)) {
+        value.forEach(visit);
+      } else if (value !== null && typeof value === "object") {
+        for (const [field, item] of Object.entries(value)) {
+          if (!BIND_FIELD.test(field) && !VERBATIM_FIELDS.has(field)) visit(item);
+        }
+      }
+    };
+
+    visit(block.logic);
+    visit((block.conditions ?? []) as ConditionNode[]);
+    return keys;
+  }
+
+  /** Top-level `$state` keys a block binds, including a workflow block's output map */
+  private stateWrites(block: Block): Set<string> {
+    const keys = new Set<string>();
+
+    const visit = (value: unknown): void => {
+      if (Array.isArray(value)) {
+        value.forEach(visit);
+      } else if (value !== null && typeof value === "object") {
+        for (const [field, item] of Object.entries(value)) {
+          if (BIND_FIELD.test(field) && typeof item === "string" && item !== "") {
+            keys.add(bindKey(item));
+          } else {
+            visit(item);
+          }
+        }
+      }
+    };
+
+    visit(block.logic);
+
+    const outputMap = block.logic.workflow_output_map;
+    if (block.type === "workflow" && outputMap !== null && typeof outputMap === "object") {
+      for (const key of Object.keys(outputMap)) keys.add(bindKey(key));
+    }
+    return keys;
+  }
+
+  /** `$` paths in one expression source; a `$` source that does not parse is read as one path */
+  private paths(source: string): string[] {
+    const trimmed = source.trim();
+    if (isPlainPath(trimmed)) return [trimmed];
+    try {
+      return ExpressionEvaluator.collectPaths(parseExpression(trimmed));
+    } catch {
+      return trimmed.startsWith("$") ? [trimmed] : [];
+    }
+  }
+
+  /* ── Platforms ─────────────────────────────────────── */
+
+  private checkPlatforms(blocks: Block[], version: LintableVersion, diagnostics: LintDiagnostic[]): void {
+    /* An interactive run's client renders UI blocks itself, whatever executes the run */
+    const attended = version.triggerType === "interactive";
+
+    for (const env of version.executionEnvironments ?? []) {
+      const adapter = this.environments[env];
+      if (!adapter) {
+        diagnostics.push({
+          rule: "unknown-environment",
+          severity: "warning",
+          message: `No platform is known for execution environment "${env}" — its blocks were not checked`,
+          blockId: null,
+        });
+        continue;
+      }
+
+      for (const block of blocks) {
+        if (block.type.startsWith("ui_")) {
+          if (!attended && !adapter.capabilities.hasUi) {
+            diagnostics.push(this.diagnostic("ui-unavailable", "error", block,
+              `UI block "${block.name}" cannot be answered: "${env}" has no UI and ${version.triggerType} runs are unattended`));
+          }
+          continue;
+        }
+
+        if (!adapter.supports(block.type)) {
+          diagnostics.push(this.diagnostic("unsupported-block", "error", block,
+            `"${block.name}" uses a ${block.type} block, which "${env}" does not support`));
+        }
+      }
+    }
+  }
+
+  private diagnostic(rule: LintRule, severity: LintSeverity, block: Block, message: string): LintDiagnostic {
+    return { rule, severity, message, blockId: block.id, blockName: block.name };
+  }
+}
+
+/* ── Helpers ─────────────────────────────────────────── */
+
+/** "$state.user.name" → "user"; anything else → undefined */
+function stateKey(path: string): string | undefined {
+  const match = /^\$state(?:\.([\w-]+)|\[["']?([^\]"']+)["']?\])/.exec(path);
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+/** "$state.order.total" or "order.total" → "order" */
+function bindKey(bindTo: string): string {
+  const path = bindTo.startsWith("$state.") ? bindTo.slice(7) : bindTo;
+  return path.split(".")[0];
+}
@@ -0,0 +1,175 @@
+import type { RunStatus, Step, StepStatus } from "@vsync/shared-types";
+import type { BlockMock, RunConfig } from "../types.js";
+import type { Interpreter } from "./Interpreter.js";
+
+/* ── Test cases ──────────────────────────────────────── */
+
+/**
+ * A named scenario for a workflow version: the event it runs with,
+ * mocked results for its blocks, and what the run must end up as.
+ */
+export interface WorkflowTestCase {
+  id: string;
+  name: string;
+
+  /** Trigger payload — the run's `$event` */
+  event?: Record<string, unknown>;
+
+  /** Results by block ID, returned in place of the block's handler */
+  mocks?: Record<string, BlockMock>;
+
+  /** Block types to stub — defaults to SIDE_EFFECT_BLOCK_TYPES */
+  stub?: readonly string[];
+
+  /** Run status the case expects — 'completed' when not set */
+  expectedStatus?: RunStatus;
+
+  /** `$state` paths (e.g. "user.email") and the values they must equal */
+  expectedState?: Record<string, unknown>;
+
+  /** Block IDs and the status their last step must have */
+  expectedSteps?: Record<string, StepStatus>;
+}
+
+/** How one case went — `failures` has a line per broken assertion */
+export interface TestCaseResult {
+  testId: string;
+  name: string;
+  passed: boolean;
+  failures: string[];
+  status: RunStatus;
+  errorMessage?: string;
+  state: Record<string, unknown>;
+  durationMs: number;
+}
+
+/** A version's whole suite — passes when every case does */
+export interface TestSuiteResult {
+  passed: boolean;
+  total: number;
+  failed: number;
+  cases: TestCaseResult[];
+}
+
+/**
+ * Runs workflow test cases and checks their assertions.
+ *
+ * Each case is a simulation (see SimulationConfig) on a fresh context:
+ * the case's mocks stand in for their blocks, side-effecting block
+ * types are stubbed, and nothing carries over between cases. The run
+ * config supplies the version and identity; its event, initial state
+ * and simulation are replaced by the case's.
+ */
+export class WorkflowTester {
+  constructor(private readonly interpreter: Interpreter) {}
+
+  /** Run every case in order — one failing case does not stop the rest */
+  async runAll(cases: WorkflowTestCase[], config: RunConfig): Promise<TestSuiteResult> {
+    const results: TestCaseResult[] = [];
+    for (const testCase of cases) {
+      results.push(await this.run(testCase, config));
+    }
+
+    const failed = results.filter((r) => !r.passed).length;
+    return { passed: failed === 0, total: results.length, failed, cases: results };
+  }
+
+  async run(testCase: WorkflowTestCase, config: RunConfig): Promise<TestCaseResult> {
+    const { blocks } = config.workflowVersion;
+    const blockIds = new Set(blocks.map((b) => b.id));
+    const failures: string[] = [];
+
+    /* Mocks left behind by a deleted block would otherwise be ignored silently */
+    for (const blockId of Object.keys(testCase.mocks ?? {})) {
+      if (!blockIds.has(blockId)) failures.push(`Mock for block "${blockId}", which is not in this version`);
+    }
+
+    const result = await this.interpreter.executeRun({
+      ...config,
+      event: testCase.event ?? {},
+      initialState: undefined,
+      priorSteps: undefined,
+      simulation: { blocks: testCase.mocks, stub: testCase.stub },
+      debug: undefined,
+    });
+    const { state } = result.context;
+
+    const expectedStatus = testCase.expectedStatus ?? "completed";
+    if (result.status !== expectedStatus) {
+      failures.push(
+        `Expected the run to be "${expectedStatus}", got "${result.status}"` +
+        (result.errorMessage ? `: ${result.errorMessage}` : ""),
+      );
+    }
+
+    for (const [path, expected] of Object.entries(testCase.expectedState ?? {})) {
+      const actual = readPath(state, path);
+      if (!deepEqual(actual, expected)) {
+        failures.push(`$state.${path}: expected ${describe(expected)}, got ${describe(actual)}`);
+      }
+    }
+
+    for (const [blockId, expected] of Object.entries(testCase.expectedSteps ?? {})) {
+      const block = blocks.find((b) => b.id === blockId);
+      if (!block) {
+        failures.push(`Expected step for block "${blockId}", which is not in this version`);
+        continue;
+      }
+
+      const step = lastStep(result.steps, blockId);
+      if (!step) {
+        failures.push(`Block "${block.name}": expected "${expected}", but it did not run`);
+      } else if (step.status !== expected) {
+        failures.push(`Block "${block.name}": expected "${expected}", got "${step.status}"`);
+      }
+    }
+
+    return {
+      testId: testCase.id,
+      name: testCase.name,
+      passed: failures.length === 0,
+      failures,
+      status: result.status,
+      ...(result.errorMessage ? { errorMessage: result.errorMessage } : {}),
+      state,
+      durationMs: result.durationMs,
+    };
+  }
+}
+
+/* ── Helpers ─────────────────────────────────────────── */
+
+function lastStep(steps: Step[], blockId: string): Step | undefined {
+  for (let i = steps.length - 1; i >= 0; i--) {
+    if (steps[i].blockId === blockId) return steps[i];
+  }
+  return undefined;
+}
+
+/** Follow a dotted path through own properties — undefined if any segment is missing */
+function readPath(state: Record<string, unknown>, path: string): unknown {
+  let value: unknown = state;
+  for (const segment of path.split(".")) {
+    if (value === null || typeof value !== "object" || !Object.prototype.hasOwnProperty.call(value, segment)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? "nothing" : JSON.stringify(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== "object" || typeof b !== "object") return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aObj = a as Record<string, unknown>;
+  const bObj = b as Record<string, unknown>;
+  const aKeys = Object.keys(aObj);
+  if (aKeys.length !== Object.keys(bObj).length) return false;
+  return aKeys.every((key) => Object.prototype.hasOwnProperty.call(bObj, key) && deepEqual(aObj[key], bObj[key]));
+}
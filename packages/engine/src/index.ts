@@ -4,8 +4,17 @@ export { Interpreter } from "./core/Interpreter.js";
 export { BlockExecutor } from "./core/BlockExecutor.js";
 export { ContextManager } from "./core/ContextManager.js";
 export { ConditionEvaluator } from "./core/ConditionEvaluator.js";
+export { ExpressionEvaluator, ExpressionError } from "./core/ExpressionEvaluator.js";
+export { WorkflowLinter } from "./core/WorkflowLinter.js";
+export { WorkflowTester } from "./core/WorkflowTester.js";
 export { RunBuilder } from "./core/RunBuilder.js";
 export { PlatformAdapter } from "./core/PlatformAdapter.js";
+export { RunSecrets, redactSecrets, REDACTED } from "./core/RunSecrets.js";
+export {
+  DeferredScheduler,
+  Semaphore,
+  MAX_DEFER_CONCURRENCY,
+} from "./core/DeferredScheduler.js";
 
 /* ── Types ─────────────────────────────────────────────── */
 
@@ -13,12 +22,35 @@ export type {
   InterpreterConfig,
   RunConfig,
   RunResult,
+  RunCheckpoint,
+  InterpreterHooks,
+  KeyResolverFn,
+  WorkflowInvocation,
+  WorkflowInvoker,
+  DeferMergePolicy,
+  LoopMode,
   BlockResult,
   BlockHandler,
   ErrorStrategy,
+  BlockMock,
+  SimulationConfig,
+  DebugConfig,
+  RunPause,
 } from "./types.js";
+export { SIDE_EFFECT_BLOCK_TYPES } from "./types.js";
 
 export type { PlatformCapabilities } from "./core/PlatformAdapter.js";
+export type {
+  LintDiagnostic,
+  LintRule,
+  LintSeverity,
+  LintableVersion,
+} from "./core/WorkflowLinter.js";
+export type {
+  WorkflowTestCase,
+  TestCaseResult,
+  TestSuiteResult,
+} from "./core/WorkflowTester.js";
 
 export type { ModelConfig, ModelResponse } from "./blocks/agent.js";
 export type { GotoResult } from "./blocks/goto.js";
@@ -41,6 +73,7 @@ export {
   sleepExecutor,
   locationExecutor,
   codeExecutor,
+  workflowExecutor,
 } from "./blocks/index.js";
 
 /* ── Utilities (for testing / advanced usage) ─────────── */
@@ -1,7 +1,11 @@
 import type {
+  Artifact,
   Block,
   BlockType,
   Step,
+  StepError,
+  WorkflowCall,
+  WorkflowCallResult,
   WorkflowContext,
   WorkflowVersion,
   RunStatus,
@@ -22,9 +26,17 @@ export interface InterpreterConfig {
 
   /**
    * Concurrent deferred iterations allowed per goto block.
-   * Acts as a semaphore to prevent runaway parallelism.
+   * Acts as a semaphore to prevent runaway parallelism. A goto's
+   * `goto_max_concurrent` can only lower it, and it is capped at
+   * MAX_DEFER_CONCURRENCY.
    */
   deferConcurrency: number;
+
+  /**
+   * How deep `workflow` blocks may nest calls. A run at this depth
+   * cannot call another workflow, which bounds recursive workflows.
+   */
+  maxCallDepth: number;
 }
 
 /* ── Per-run configuration ──────────────────────────────── */
@@ -58,8 +70,175 @@ export interface RunConfig {
   /** Named filesystem paths for the target platform */
   paths?: Record<string, string>;
 
-  /** Optional key resolver for $keys.* expressions */
-  keyResolver?: (key: string) => unknown;
+  /**
+   * Optional key resolver for $keys.* expressions. May be async —
+   * keys a block references are resolved before the block runs.
+   */
+  keyResolver?: KeyResolverFn;
+
+  /**
+   * Cooperative cancellation token. When aborted, the interpreter
+   * stops before the next block and returns status 'cancelled'.
+   */
+  signal?: AbortSignal;
+
+  /** Observers notified as steps start, finish, and pause */
+  hooks?: InterpreterHooks;
+
+  /**
+   * Steps recorded before the run was interrupted — set when resuming
+   * from a checkpoint. New steps are appended after them and they
+   * count toward the step limit.
+   */
+  priorSteps?: Step[];
+
+  /**
+   * Runs the workflows `workflow` blocks call. Without it those
+   * blocks fail — the host decides how child runs are stored.
+   */
+  invokeWorkflow?: WorkflowInvoker;
+
+  /** How many workflow calls deep this run is — 0 (the default) for a run nothing called */
+  callDepth?: number;
+
+  /**
+   * Run as a simulation: mocked blocks return their fixture instead of
+   * calling a handler, and side-effecting blocks are stubbed out.
+   */
+  simulation?: SimulationConfig;
+
+  /** Run under the debugger: pause at breakpoints, while stepping, or on failure */
+  debug?: DebugConfig;
+}
+
+/* ── Debugging ──────────────────────────────────────────── */
+
+/**
+ * Where a debug run pauses. Pauses happen between top-level blocks
+ * only — a breakpoint on a block inside a loop body or group is not
+ * hit, since a run cannot resume partway through one.
+ */
+export interface DebugConfig {
+  /** Block IDs to pause before */
+  breakpoints?: readonly string[];
+
+  /** Pause before the next block, whichever it is — set when resuming with "step" */
+  step?: boolean;
+
+  /** Pause at a block that fails, before its on_error applies — resuming retries it */
+  pauseOnFailure?: boolean;
+
+  /**
+   * The block a resumed run paused at. It runs without pausing again,
+   * so continuing from a breakpoint does not stop at the same one.
+   */
+  resumeBlockId?: string;
+}
+
+/**
+ * Why and where a run with status 'awaiting_action' stopped.
+ * 'action' is a UI block waiting for input; the rest are debug pauses.
+ */
+export interface RunPause {
+  reason: "action" | "breakpoint" | "step" | "failure";
+  blockId: string;
+
+  /** Index of the block, in `order` sequence, to resume from */
+  resumeIndex: number;
+}
+
+/* ── Simulation ─────────────────────────────────────────── */
+
+/**
+ * A fixture standing in for a block's handler — the result it
+ * returns, or an error it fails with (on_error still applies).
+ */
+export type BlockMock = BlockResult | { error: string };
+
+/**
+ * Block types stubbed in a simulation unless `SimulationConfig.stub`
+ * says otherwise — those that reach outside the run (network, disk,
+ * devices, models, other workflows) or wait on the clock. Code blocks
+ * are included because their sandbox has a real `fetch`; mock them to
+ * simulate their results.
+ */
+export const SIDE_EFFECT_BLOCK_TYPES: readonly BlockType[] = [
+  "fetch",
+  "code",
+  "agent",
+  "validation",
+  "location",
+  "image",
+  "video",
+  "filesystem",
+  "ftp",
+  "workflow",
+  "sleep",
+];
+
+/**
+ * Mocks for a simulated run. A block's mock is looked up by its ID,
+ * then by its type; a block with neither whose type is stubbed
+ * completes with an empty result. Everything else runs for real.
+ * Control-flow blocks (goto, switch, loop, break, continue) always
+ * run — they are what the simulation exercises.
+ */
+export interface SimulationConfig {
+  /** Mocks by block ID */
+  blocks?: Record<string, BlockMock>;
+
+  /** Mocks by block type — a UI block with a mock completes instead of pausing */
+  types?: Record<string, BlockMock>;
+
+  /** Block types to stub — defaults to SIDE_EFFECT_BLOCK_TYPES */
+  stub?: readonly string[];
+}
+
+/**
+ * Resolves a `$keys.*` name (e.g. "openai_key" or "local.token")
+ * to its secret value. Sync and async implementations are both
+ * supported.
+ */
+export type KeyResolverFn = (keyName: string) => unknown | Promise<unknown>;
+
+/**
+ * A workflow call as the host receives it — the block's call plus
+ * the run that made it and the depth the child run will have.
+ */
+export interface WorkflowInvocation extends WorkflowCall {
+  parentRunId: string;
+  depth: number;
+}
+
+/** Runs a called workflow to completion and reports how it ended */
+export type WorkflowInvoker = (invocation: WorkflowInvocation) => Promise<WorkflowCallResult>;
+
+/* ── Run observers ──────────────────────────────────────── */
+
+/**
+ * Per-run observer callbacks invoked while the interpreter executes.
+ * Lets callers stream step progress (WebSocket events, incremental
+ * persistence) instead of replaying the step list after the run.
+ *
+ * Hooks are notified synchronously at each transition; returned
+ * promises are not awaited and their errors are swallowed, so an
+ * observer can never stall or fail a run.
+ */
+export interface InterpreterHooks {
+  /** A step was created and its block is about to execute */
+  onStepStart?: (step: Step) => void | Promise<void>;
+
+  /** A step finished with status 'completed' or 'skipped' */
+  onStepComplete?: (step: Step) => void | Promise<void>;
+
+  /** A step finished with status 'failed' */
+  onStepFailed?: (step: Step, error: StepError) => void | Promise<void>;
+
+  /** A UI block paused the run — `step` is the pausing block's step */
+  onRunPaused?: (step: Step) => void | Promise<void>;
+
+  /** The run reached a point it can be resumed from after a crash */
+  onCheckpoint?: (checkpoint: RunCheckpoint) => void | Promise<void>;
 }
 
 /* ── Block execution result ─────────────────────────────── */
@@ -116,13 +295,75 @@ export interface RunResult {
 
   /** Wall-clock duration in milliseconds */
   durationMs: number;
+
+  /** Set when the status is 'awaiting_action' */
+  pause?: RunPause;
 }
 
+/**
+ * Everything needed to pick a run back up after the process died.
+ *
+ * Taken between top-level blocks once no deferred iterations are
+ * outstanding, so the context is complete. Loop bodies and groups
+ * run as a unit — a crash inside one resumes at its first block.
+ * The snapshot is a JSON-safe copy with secret values redacted.
+ */
+export interface RunCheckpoint {
+  /** Index (in `order`-sorted blocks) of the next block to execute */
+  nextBlockIndex: number;
+
+  /** Steps recorded so far — pass back as RunConfig.priorSteps */
+  steps: Step[];
+
+  context: {
+    state: Record<string, unknown>;
+    cache: Array<[string, unknown]>;
+    artifacts: Artifact[];
+    event: Record<string, unknown>;
+    loops: WorkflowContext["loops"];
+  };
+
+  /** ISO timestamp of when the checkpoint was taken */
+  createdAt: string;
+
+  /**
+   * Set when a secret value was redacted from `context`. The context
+   * no longer holds what the run was using, so the run cannot be
+   * resumed from this checkpoint.
+   */
+  redacted?: boolean;
+}
+
+/* ── Deferred execution ─────────────────────────────────── */
+
+/**
+ * How a deferred goto iteration's state changes are merged back
+ * into the parent context once the iterations are joined.
+ * Iterations are always merged in the order they were scheduled.
+ *
+ * 'last_writer'    — apply each iteration's delta in turn; later iterations win.
+ * 'conflict_error' — fail the run if two iterations (or the main flow)
+ *                    wrote different values to the same key.
+ * 'keyed'          — append each iteration's delta to an array at
+ *                    `state[goto_merge_key]` instead of touching other keys.
+ */
+export type DeferMergePolicy = "last_writer" | "conflict_error" | "keyed";
+
+/* ── Loops ──────────────────────────────────────────────── */
+
+/**
+ * How a loop block repeats its body:
+ *   - `for_each` — once per element of the array `loop_over` resolves to
+ *   - `while`    — until `loop_conditions` (AND-gated) no longer hold
+ */
+export type LoopMode = "for_each" | "while";
+
 /* ── Error handling strategy ────────────────────────────── */
 
 /**
  * Per-block error handling configuration.
  * 'continue' logs the error and moves to the next block.
  * 'abort' halts the entire run immediately.
+ * 'retry' re-runs the block up to `retry_max` times, then aborts.
  */
-export type ErrorStrategy = "continue" | "abort";
+export type ErrorStrategy = "continue" | "abort" | "retry";
@@ -1,4 +1,8 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createHash, createCipheriv, randomBytes } from "node:crypto";
 import { PGlite } from "@electric-sql/pglite";
 import { drizzle } from "drizzle-orm/pglite";
 import { sql } from "drizzle-orm";
@@ -13,8 +17,10 @@ import {
   hashKeyName,
 } from "../crypto.js";
 import { CloudKeyStore } from "../cloud-store.js";
+import { MasterKeyRing, DEFAULT_MASTER_KEY_ID, parseMasterKeys } from "../master-keys.js";
 import { LocalKeyStore } from "../local-store.js";
 import { KeyResolver } from "../key-resolver.js";
+import { OAuthConnectionManager } from "../oauth.js";
 import { MemoryAdapter } from "../adapters.js";
 import type { CreateKeyOpts, KeyMetadata } from "../types.js";
 
@@ -94,6 +100,23 @@ beforeAll(async () => {
     )
   `);
 
+  await db.execute(sql`
+    CREATE TABLE org_data_keys (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL REFERENCES organizations(id),
+      wrapped_key TEXT NOT NULL,
+      iv TEXT NOT NULL,
+      master_key_id TEXT NOT NULL,
+      is_active BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMP DEFAULT now(),
+      rewrapped_at TIMESTAMP
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE UNIQUE INDEX org_data_keys_active_unique ON org_data_keys (org_id) WHERE is_active
+  `);
+
   await db.execute(sql`
     CREATE TABLE keys (
       id TEXT PRIMARY KEY,
@@ -105,11 +128,15 @@ beforeAll(async () => {
       key_type TEXT NOT NULL DEFAULT 'api_key',
       encrypted_value TEXT NOT NULL,
       iv TEXT NOT NULL,
+      data_key_id TEXT REFERENCES org_data_keys(id),
       algorithm TEXT DEFAULT 'aes-256-gcm',
       storage_mode TEXT DEFAULT 'cloud',
       last_used_at TIMESTAMP,
       last_rotated_at TIMESTAMP,
       expires_at TIMESTAMP,
+      rotation_max_age_days INTEGER,
+      rotation_warn_days INTEGER,
+      health_status TEXT NOT NULL DEFAULT 'ok',
       is_revoked BOOLEAN DEFAULT false,
       metadata JSONB,
       created_by UUID REFERENCES users(id),
@@ -132,6 +159,39 @@ beforeAll(async () => {
     )
   `);
 
+  await db.execute(sql`
+    CREATE TABLE oauth_connections (
+      id TEXT PRIMARY KEY,
+      org_id UUID NOT NULL REFERENCES organizations(id),
+      workflow_id TEXT REFERENCES workflows(id),
+      name TEXT NOT NULL,
+      key_id TEXT REFERENCES keys(id) ON DELETE SET NULL,
+      provider TEXT NOT NULL,
+      authorize_url TEXT NOT NULL,
+      token_url TEXT NOT NULL,
+      client_id TEXT NOT NULL,
+      scopes JSONB,
+      redirect_uri TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      data_key_id TEXT NOT NULL REFERENCES org_data_keys(id),
+      encrypted_client_secret TEXT NOT NULL,
+      client_secret_iv TEXT NOT NULL,
+      encrypted_refresh_token TEXT,
+      refresh_token_iv TEXT,
+      state_hash TEXT UNIQUE,
+      encrypted_code_verifier TEXT,
+      code_verifier_iv TEXT,
+      state_expires_at TIMESTAMP,
+      access_token_expires_at TIMESTAMP,
+      last_refreshed_at TIMESTAMP,
+      refresh_locked_until TIMESTAMP,
+      last_error TEXT,
+      created_by UUID REFERENCES users(id),
+      created_at TIMESTAMP DEFAULT now(),
+      updated_at TIMESTAMP DEFAULT now()
+    )
+  `);
+
   /* Seed test data */
   const userRepo = new UserRepository(db);
   const orgRepo = new OrgRepository(db);
@@ -376,6 +436,159 @@ describe("CloudKeyStore", () => {
   });
 });
 
+/* ── Envelope encryption ────────────────────────────────────────── */
+
+describe("CloudKeyStore envelope encryption", () => {
+  const opts = (name: string, value: string): CreateKeyOpts => ({
+    name,
+    value,
+    keyType: "api_key",
+    provider: "custom",
+    storageMode: "cloud",
+    orgId: testOrgId,
+  });
+
+  it("encrypts values with a per-org data key wrapped by the master key", async () => {
+    const store = new CloudKeyStore(db, masterKey);
+    const meta = await store.createKey(opts("envelope_test", "wrapped-secret"), testUserId);
+
+    const row = await new dbExports.KeyRepository(db).findById(meta.id);
+    expect(row?.dataKeyId).toBeTruthy();
+    /* The master key alone cannot decrypt the value */
+    expect(() => decrypt(row!.encryptedValue, row!.iv, masterKey)).toThrow();
+
+    const dataKey = await new dbExports.DataKeyRepository(db).findById(row!.dataKeyId!);
+    expect(dataKey?.orgId).toBe(testOrgId);
+    expect(dataKey?.masterKeyId).toBe(DEFAULT_MASTER_KEY_ID);
+  });
+
+  it("re-wraps data keys onto a new master key without re-encrypting values", async () => {
+    const store = new CloudKeyStore(db, masterKey);
+    const meta = await store.createKey(opts("rewrap_test", "survives-rotation"), testUserId);
+    const before = await new dbExports.KeyRepository(db).findById(meta.id);
+
+    const next = { id: "next", key: generateEncryptionKey() };
+    const rotating = new CloudKeyStore(
+      db,
+      new MasterKeyRing(next, [{ id: DEFAULT_MASTER_KEY_ID, key: masterKey }]),
+    );
+
+    /* Reads keep working before the re-wrap has run */
+    expect((await rotating.getKey(testOrgId, "rewrap_test"))?.value).toBe("survives-rotation");
+
+    const result = await rotating.rewrapDataKeys();
+    expect(result.rewrapped).toBeGreaterThanOrEqual(1);
+    expect(await rotating.rewrapDataKeys()).toEqual({ rewrapped: 0, migrated: 0, failed: [] });
+
+    const after = await new dbExports.KeyRepository(db).findById(meta.id);
+    expect(after?.encryptedValue).toBe(before?.encryptedValue);
+
+    /* The previous master key can now be dropped from the ring */
+    const retired = new CloudKeyStore(db, new MasterKeyRing(next));
+    expect((await retired.getKey(testOrgId, "rewrap_test"))?.value).toBe("survives-rotation");
+
+    /* Rotate back so later tests keep using the original master key */
+    const restored = new CloudKeyStore(
+      db,
+      new MasterKeyRing({ id: DEFAULT_MASTER_KEY_ID, key: masterKey }, [next]),
+    );
+    await restored.rewrapDataKeys();
+  });
+
+  it("moves keys written before envelope encryption onto the org data key", async () => {
+    const { ciphertext, iv } = encrypt("legacy-secret", masterKey);
+    const legacy = await new dbExports.KeyRepository(db).create({
+      orgId: testOrgId,
+      name: "legacy_test",
+      encryptedValue: ciphertext,
+      iv,
+    });
+
+    const store = new CloudKeyStore(db, masterKey);
+    expect((await store.getKey(testOrgId, "legacy_test"))?.value).toBe("legacy-secret");
+
+    const result = await store.rewrapDataKeys();
+    expect(result.migrated).toBeGreaterThanOrEqual(1);
+
+    const row = await new dbExports.KeyRepository(db).findById(legacy.id);
+    expect(row?.dataKeyId).toBeTruthy();
+    expect((await store.getKey(testOrgId, "legacy_test"))?.value).toBe("legacy-secret");
+  });
+
+  it("reads and migrates keys in the original routes' base64 format", async () => {
+    /* As the /keys routes stored them: base64 ciphertext‖tag and IV, under SHA-256 of the secret */
+    const secretKey = createHash("sha256").update("original-routes-secret").digest();
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", secretKey, iv);
+    const sealed = Buffer.concat([cipher.update("base64-secret", "utf8"), cipher.final(), cipher.getAuthTag()]);
+    const legacy = await new dbExports.KeyRepository(db).create({
+      orgId: testOrgId,
+      name: "base64_legacy_test",
+      encryptedValue: sealed.toString("base64"),
+      iv: iv.toString("base64"),
+    });
+
+    const store = new CloudKeyStore(
+      db,
+      new MasterKeyRing({ id: DEFAULT_MASTER_KEY_ID, key: masterKey }, [
+        { id: "legacy", key: secretKey.toString("hex") },
+      ]),
+    );
+    expect((await store.getKey(testOrgId, "base64_legacy_test"))?.value).toBe("base64-secret");
+
+    await store.rewrapDataKeys();
+    const row = await new dbExports.KeyRepository(db).findById(legacy.id);
+    expect(row?.dataKeyId).toBeTruthy();
+    expect((await new CloudKeyStore(db, masterKey).getKey(testOrgId, "base64_legacy_test"))?.value).toBe(
+      "base64-secret",
+    );
+  });
+
+  it("reports keys no master key can decrypt and migrates the rest", async () => {
+    const repo = new dbExports.KeyRepository(db);
+    const lost = encrypt("lost", generateEncryptionKey());
+    const unreadable = await repo.create({
+      orgId: testOrgId,
+      name: "unreadable_legacy_test",
+      encryptedValue: lost.ciphertext,
+      iv: lost.iv,
+    });
+    const kept = encrypt("readable", masterKey);
+    const readable = await repo.create({
+      orgId: testOrgId,
+      name: "readable_legacy_test",
+      encryptedValue: kept.ciphertext,
+      iv: kept.iv,
+    });
+
+    const result = await new CloudKeyStore(db, masterKey).rewrapDataKeys();
+    expect(result.failed).toEqual([
+      { kind: "key", id: unreadable.id, error: expect.stringContaining("cannot be decrypted") },
+    ]);
+    expect((await repo.findById(readable.id))?.dataKeyId).toBeTruthy();
+    expect((await repo.findById(unreadable.id))?.dataKeyId).toBeNull();
+
+    /* Leave no unreadable row behind for later tests */
+    await db.execute(sql`DELETE FROM keys WHERE id = ${unreadable.id}`);
+  });
+
+  it("fails clearly when a data key's master key is not configured", async () => {
+    const store = new CloudKeyStore(db, new MasterKeyRing({ id: "unknown", key: generateEncryptionKey() }));
+    await expect(store.getKey(testOrgId, "envelope_test")).rejects.toThrow(/not configured/);
+  });
+
+  it("parses previous master keys from id:hex pairs", () => {
+    const a = generateEncryptionKey();
+    const b = generateEncryptionKey();
+    expect(parseMasterKeys(`k1:${a}, k2:${b}`)).toEqual([
+      { id: "k1", key: a },
+      { id: "k2", key: b },
+    ]);
+    expect(parseMasterKeys("")).toEqual([]);
+    expect(() => parseMasterKeys(a)).toThrow(/id:hex/);
+  });
+});
+
 /* ── LocalKeyStore ──────────────────────────────────────────────── */
 
 describe("LocalKeyStore", () => {
@@ -582,6 +795,17 @@ describe("KeyResolver", () => {
     expect(results.get("$keys.cloud.cloud_only_key")).toBe("cloud-secret-val");
   });
 
+  it("audit-logs cloud resolution with the run scope", async () => {
+    const runId = "run_audit_1";
+    await resolver.resolve("$keys.cloud.cloud_only_key", { orgId: testOrgId, runId });
+
+    const [meta] = (await cloudStore.listKeys(testOrgId)).filter((k) => k.name === "cloud_only_key");
+    const log = await cloudStore.getAuditLog(meta.id);
+    const access = log.find((e) => e.action === "accessed" && e.metadata?.["runId"] === runId);
+
+    expect(access?.metadata).toEqual({ source: "engine", runId });
+  });
+
   it("resolver works with cloud-only config", async () => {
     const cloudOnlyResolver = new KeyResolver(cloudStore, undefined);
     ctx.orgId = testOrgId;
@@ -597,6 +821,307 @@ describe("KeyResolver", () => {
   });
 });
 
+/* ── OAuth connections ──────────────────────────────────────────── */
+
+/**
+ * A minimal OAuth2 provider: the authorization step is simulated by
+ * approve(), which records the PKCE challenge of an authorization URL
+ * and returns the code the provider would redirect back with.
+ */
+function createMockOAuthServer() {
+  const codes = new Map<string, { challenge: string; redirectUri: string }>();
+  const refreshTokens = new Set<string>();
+  const state = {
+    issued: 0,
+    refreshGrants: 0,
+    expiresIn: 3600,
+    /** When set, every refresh grant is rejected with this error */
+    failRefresh: null as string | null,
+  };
+
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const form = new URLSearchParams(raw);
+      const reply = (status: number, body: Record<string, unknown>) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(body));
+      };
+
+      if (form.get("client_id") !== "client-1" || form.get("client_secret") !== "shh") {
+        return reply(401, { error: "invalid_client" });
+      }
+
+      let refreshToken: string | undefined;
+      if (form.get("grant_type") === "authorization_code") {
+        const grant = codes.get(form.get("code") ?? "");
+        codes.delete(form.get("code") ?? "");
+        const challenge = createHash("sha256")
+          .update(form.get("code_verifier") ?? "")
+          .digest("base64url");
+        if (!grant || grant.challenge !== challenge || grant.redirectUri !== form.get("redirect_uri")) {
+          return reply(400, { error: "invalid_grant" });
+        }
+      } else if (form.get("grant_type") === "refresh_token") {
+        state.refreshGrants++;
+        if (state.failRefresh) return reply(400, { error: "invalid_grant", error_description: state.failRefresh });
+        if (!refreshTokens.delete(form.get("refresh_token") ?? "")) {
+          return reply(400, { error: "invalid_grant" });
+        }
+      } else {
+        return reply(400, { error: "unsupported_grant_type" });
+      }
+
+      refreshToken = `refresh-${++state.issued}`;
+      refreshTokens.add(refreshToken);
+      reply(200, {
+        access_token: `access-${state.issued}`,
+        refresh_token: refreshToken,
+        expires_in: state.expiresIn,
+        token_type: "Bearer",
+      });
+    });
+  });
+
+  return {
+    server,
+    state,
+    tokenUrl: () => `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`,
+    approve(authorizationUrl: string): { state: string; code: string } {
+      const params = new URL(authorizationUrl).searchParams;
+      const code = `code-${codes.size + 1}-${Math.random().toString(36).slice(2)}`;
+      codes.set(code, {
+        challenge: params.get("code_challenge")!,
+        redirectUri: params.get("redirect_uri")!,
+      });
+      return { state: params.get("state")!, code };
+    },
+  };
+}
+
+describe("OAuthConnectionManager", () => {
+  const provider = createMockOAuthServer();
+  let server: Server;
+  let store: CloudKeyStore;
+  let manager: OAuthConnectionManager;
+  let counter = 0;
+
+  beforeAll(async () => {
+    server = provider.server;
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    store = new CloudKeyStore(db, masterKey);
+    manager = new OAuthConnectionManager(db, store);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    provider.state.failRefresh = null;
+    provider.state.expiresIn = 3600;
+  });
+
+  const connect = async (name = `oauth_${++counter}`) => {
+    const { connection, authorizationUrl } = await manager.createConnection({
+      orgId: testOrgId,
+      name,
+      provider: "custom",
+      clientId: "client-1",
+      clientSecret: "shh",
+      scopes: ["read", "write"],
+      redirectUri: "https://app.example.com/api/v1/keys/oauth/callback",
+      authorizeUrl: "https://auth.example.com/authorize",
+      tokenUrl: provider.tokenUrl(),
+    }, testUserId);
+    return { connection, authorizationUrl, ...provider.approve(authorizationUrl) };
+  };
+
+  it("builds a PKCE authorization URL and stores only a hash of the state", async () => {
+    const { connection, authorizationUrl, state } = await connect();
+    const params = new URL(authorizationUrl).searchParams;
+
+    expect(connection.status).toBe("pending");
+    expect(connection.authorizationPending).toBe(true);
+    expect(params.get("response_type")).toBe("code");
+    expect(params.get("client_id")).toBe("client-1");
+    expect(params.get("scope")).toBe("read write");
+    expect(params.get("code_challenge_method")).toBe("S256");
+    expect(params.get("code_challenge")).toMatch(/^[A-Za-z0-9_-]{43}$/);
+
+    const row = await db.query.oauthConnections.findFirst({
+      where: (c, { eq }) => eq(c.id, connection.id),
+    });
+    expect(row?.stateHash).toBe(createHash("sha256").update(state).digest("hex"));
+    expect(row?.encryptedClientSecret).not.toContain("shh");
+  });
+
+  it("exchanges the code for tokens and stores the access token as a key", async () => {
+    const { connection, state, code } = await connect();
+    const connected = await manager.completeAuthorization(state, code);
+
+    expect(connected.status).toBe("connected");
+    expect(connected.hasRefreshToken).toBe(true);
+    expect(connected.authorizationPending).toBe(false);
+    expect(connected.accessTokenExpiresAt!.getTime()).toBeGreaterThan(Date.now());
+
+    const key = await store.getKey(testOrgId, connection.name);
+    expect(key?.keyType).toBe("oauth_token");
+    expect(key?.value).toMatch(/^access-\d+$/);
+
+    /* The refresh token is sealed, never stored in the clear */
+    const row = await db.query.oauthConnections.findFirst({
+      where: (c, { eq }) => eq(c.id, connection.id),
+    });
+    expect(row?.encryptedRefreshToken).toBeTruthy();
+    expect(row?.encryptedRefreshToken).not.toContain("refresh-");
+  });
+
+  it("accepts each state once", async () => {
+    const { state, code } = await connect();
+    await manager.completeAuthorization(state, code);
+
+    await expect(manager.completeAuthorization(state, code)).rejects.toMatchObject({
+      code: "INVALID_STATE",
+    });
+  });
+
+  it("rejects a state past its TTL", async () => {
+    const { state, code } = await connect();
+    const later = new Date(Date.now() + 60 * 60 * 1000);
+
+    await expect(manager.completeAuthorization(state, code, later)).rejects.toMatchObject({
+      code: "STATE_EXPIRED",
+    });
+  });
+
+  it("records the provider's error when the code exchange fails", async () => {
+    const { connection, state } = await connect();
+
+    await expect(manager.completeAuthorization(state, "forged-code")).rejects.toThrow(/invalid_grant/);
+    const info = await manager.getConnection(connection.id);
+    expect(info?.status).toBe("pending");
+    expect(info?.lastError).toMatch(/invalid_grant/);
+  });
+
+  it("refreshes a token about to expire before the resolver hands it out", async () => {
+    provider.state.expiresIn = 30;
+    const { connection, state, code } = await connect();
+    await manager.completeAuthorization(state, code);
+    const before = (await store.getKey(testOrgId, connection.name))!.value;
+
+    provider.state.expiresIn = 3600;
+    const grants = provider.state.refreshGrants;
+    const resolver = new KeyResolver(store, undefined, manager);
+    const ctx = { orgId: testOrgId };
+
+    /* Concurrent resolutions share a single refresh */
+    const [a, b] = await Promise.all([
+      resolver.resolve(`$keys.cloud.${connection.name}`, ctx),
+      resolver.resolve(`$keys.${connection.name}`, ctx),
+    ]);
+
+    expect(provider.state.refreshGrants).toBe(grants + 1);
+    expect(a).not.toBe(before);
+    expect(b).toBe(a);
+
+    const info = await manager.getConnection(connection.id);
+    expect(info?.lastRefreshedAt).toBeTruthy();
+    expect(info?.accessTokenExpiresAt!.getTime()).toBeGreaterThan(Date.now() + 3000_000);
+
+    /* A fresh token is not refreshed again */
+    await resolver.resolve(`$keys.${connection.name}`, ctx);
+    expect(provider.state.refreshGrants).toBe(grants + 1);
+  });
+
+  it("refreshes once when several API instances refresh the same connection", async () => {
+    const { connection, state, code } = await connect();
+    await manager.completeAuthorization(state, code);
+    const grants = provider.state.refreshGrants;
+
+    /* Separate managers share no in-process dedup, like separate instances */
+    const instances = [manager, new OAuthConnectionManager(db, store), new OAuthConnectionManager(db, store)];
+    const results = await Promise.all(instances.map((m) => m.refresh(connection.id)));
+
+    /* The provider rotates refresh tokens, so a second grant would have failed */
+    expect(provider.state.refreshGrants).toBe(grants + 1);
+    expect(results.every((r) => r.status === "connected")).toBe(true);
+    expect(new Set(results.map((r) => r.lastRefreshedAt?.getTime())).size).toBe(1);
+
+    /* The lock is released, so a later refresh goes through */
+    await instances[1].refresh(connection.id);
+    expect(provider.state.refreshGrants).toBe(grants + 2);
+    expect((await manager.getConnection(connection.id))?.status).toBe("connected");
+  });
+
+  it("marks the connection refresh_failed and keeps a still-valid token usable", async () => {
+    provider.state.expiresIn = 30;
+    const { connection, state, code } = await connect();
+    await manager.completeAuthorization(state, code);
+
+    provider.state.failRefresh = "Token has been revoked";
+    const resolver = new KeyResolver(store, undefined, manager);
+    const value = await resolver.resolve(`$keys.${connection.name}`, { orgId: testOrgId });
+    expect(value).toMatch(/^access-\d+$/);
+
+    const info = await manager.getConnection(connection.id);
+    expect(info?.status).toBe("refresh_failed");
+    expect(info?.lastError).toMatch(/Token has been revoked/);
+  });
+
+  it("fails resolution when an expired token cannot be refreshed", async () => {
+    provider.state.expiresIn = 30;
+    const { connection, state, code } = await connect();
+    const connected = await manager.completeAuthorization(state, code);
+
+    provider.state.failRefresh = "Token has been revoked";
+    const later = new Date(Date.now() + 60_000);
+    await expect(
+      manager.ensureFresh(testOrgId, connection.name, undefined, later),
+    ).rejects.toMatchObject({ code: "TOKEN_EXPIRED" });
+
+    /* Reauthorizing recovers the connection */
+    provider.state.failRefresh = null;
+    const { authorizationUrl } = await manager.authorize(connection.id);
+    const approval = provider.approve(authorizationUrl);
+    const recovered = await manager.completeAuthorization(approval.state, approval.code);
+    expect(recovered.status).toBe("connected");
+    expect(recovered.lastError).toBeNull();
+    expect(recovered.keyId).toBe(connected.keyId);
+  });
+
+  it("rejects a connection whose name is already taken by a key", async () => {
+    await store.createKey({
+      name: "taken_by_key",
+      value: "v",
+      keyType: "api_key",
+      provider: "custom",
+      storageMode: "cloud",
+      orgId: testOrgId,
+    });
+
+    await expect(connect("taken_by_key")).rejects.toThrow(/already exists/);
+  });
+
+  it("disconnect revokes the access token and forgets the refresh token", async () => {
+    const { connection, state, code } = await connect();
+    await manager.completeAuthorization(state, code);
+
+    const info = await manager.disconnect(connection.id, testUserId);
+    expect(info.status).toBe("disconnected");
+    expect(info.hasRefreshToken).toBe(false);
+    expect(await store.getKey(testOrgId, connection.name)).toBeNull();
+    await expect(manager.refresh(connection.id)).rejects.toMatchObject({ code: "DISCONNECTED" });
+  });
+
+  it("lists the org's connections", async () => {
+    const list = await manager.listConnections(testOrgId);
+    expect(list.length).toBeGreaterThanOrEqual(counter);
+    expect(list.every((c) => !("encryptedClientSecret" in c))).toBe(true);
+  });
+});
+
 /* ── MemoryAdapter ──────────────────────────────────────────────── */
 
 describe("MemoryAdapter", () => {
@@ -1,7 +1,8 @@
 import { nanoid } from "nanoid";
 import type { Database } from "@vsync/db";
-import { KeyRepository } from "@vsync/db";
-import { encrypt, decrypt } from "./crypto.js";
+import { KeyRepository, DataKeyRepository } from "@vsync/db";
+import { encrypt, decrypt, decryptBase64, generateEncryptionKey } from "./crypto.js";
+import { MasterKeyRing, DEFAULT_MASTER_KEY_ID } from "./master-keys.js";
 import type {
   CreateKeyOpts,
   DecryptedKey,
@@ -10,27 +11,46 @@ import type {
   KeyType,
   Provider,
   StorageMode,
+  SealedSecret,
+  RewrapReport,
 } from "./types.js";
 
+type KeyRow = NonNullable<Awaited<ReturnType<KeyRepository["findById"]>>>;
+
 /**
  * Cloud key storage backed by PostgreSQL via @vsync/db.
  *
  * All secret values are encrypted with AES-256-GCM before they
- * reach the database. The master key NEVER leaves this process —
- * it's held in memory and sourced from the ENCRYPTION_MASTER_KEY
- * env var (or a KMS in production).
+ * reach the database, using envelope encryption: each value is
+ * encrypted with its org's data key, and the data key is stored
+ * wrapped by a versioned master key (see master-keys.ts). Master
+ * keys NEVER leave this process — they're held in memory and
+ * sourced from the environment (or a KMS in production).
  *
  * Every state-changing operation is logged in the key_audit_log
  * table for compliance and forensics.
  */
 export class CloudKeyStore {
   private readonly repo: KeyRepository;
+  private readonly dataKeys: DataKeyRepository;
+  private readonly masterKeys: MasterKeyRing;
+
+  /** Unwrapped data keys by ID — re-wrapping never changes them */
+  private readonly unwrapped = new Map<string, string>();
 
+  /**
+   * @param masterKeys — the master key ring, or a single hex master
+   *                     key, which gets the default master key ID
+   */
   constructor(
     private readonly db: Database,
-    private readonly masterKey: string,
+    masterKeys: MasterKeyRing | string,
   ) {
     this.repo = new KeyRepository(db);
+    this.dataKeys = new DataKeyRepository(db);
+    this.masterKeys = typeof masterKeys === "string"
+      ? new MasterKeyRing({ id: DEFAULT_MASTER_KEY_ID, key: masterKeys })
+      : masterKeys;
   }
 
   /* ── Create ──────────────────────────────────────────────── */
@@ -53,7 +73,8 @@ export class CloudKeyStore {
       throw new Error(`Key "${opts.name}" already exists in this scope`);
     }
 
-    const { ciphertext, iv } = encrypt(opts.value, this.masterKey);
+    const dataKey = await this.activeDataKey(opts.orgId);
+    const { ciphertext, iv } = encrypt(opts.value, dataKey.key);
 
     const row = await this.repo.create(
       {
@@ -66,10 +87,14 @@ export class CloudKeyStore {
         keyType: opts.keyType,
         encryptedValue: ciphertext,
         iv,
+        dataKeyId: dataKey.id,
         algorithm: "aes-256-gcm",
         storageMode: opts.storageMode,
         expiresAt: opts.expiresAt ?? null,
+        rotationMaxAgeDays: opts.rotationMaxAgeDays ?? null,
+        rotationWarnDays: opts.rotationWarnDays ?? null,
         isRevoked: false,
+        createdBy: performedBy ?? null,
       },
       performedBy,
     );
@@ -86,13 +111,15 @@ export class CloudKeyStore {
    *   1. Workflow-scoped key (orgId + workflowId + name)
    *   2. Org-wide key (orgId + name, workflowId is null)
    *
-   * Returns null if not found, revoked, or expired.
+   * Returns null if not found, revoked, or expired. Every successful
+   * read is recorded as an "accessed" audit entry carrying `auditMeta`.
    */
   async getKey(
     orgId: string,
     name: string,
     workflowId?: string,
     performedBy?: string,
+    auditMeta?: Record<string, unknown>,
   ): Promise<DecryptedKey | null> {
     let row: Awaited<ReturnType<KeyRepository["findByName"]>> = undefined;
 
@@ -110,9 +137,9 @@ export class CloudKeyStore {
     if (row.expiresAt && new Date(row.expiresAt) < new Date()) return null;
 
     /* Log the access event */
-    await this.repo.logAccess(row.id, performedBy);
+    await this.repo.logAccess(row.id, performedBy, auditMeta);
 
-    const value = decrypt(row.encryptedValue, row.iv, this.masterKey);
+    const value = await this.decryptValue(row);
 
     return {
       ...this.toMetadata(row),
@@ -120,6 +147,26 @@ export class CloudKeyStore {
     };
   }
 
+  /**
+   * Retrieve and decrypt a key by ID, recording an "accessed" audit
+   * entry carrying `auditMeta`. Returns null if not found or revoked.
+   */
+  async decryptKey(
+    keyId: string,
+    performedBy?: string,
+    auditMeta?: Record<string, unknown>,
+  ): Promise<DecryptedKey | null> {
+    const row = await this.repo.findById(keyId);
+    if (!row || row.isRevoked) return null;
+
+    await this.repo.logAccess(row.id, performedBy, auditMeta);
+
+    return {
+      ...this.toMetadata(row),
+      value: await this.decryptValue(row),
+    };
+  }
+
   /* ── List ────────────────────────────────────────────────── */
 
   /**
@@ -147,11 +194,13 @@ export class CloudKeyStore {
     if (!key) throw new Error("Key not found");
     if (key.isRevoked) throw new Error("Cannot rotate a revoked key");
 
-    const { ciphertext, iv } = encrypt(newValue, this.masterKey);
+    const dataKey = await this.activeDataKey(key.orgId);
+    const { ciphertext, iv } = encrypt(newValue, dataKey.key);
 
     await this.repo.update(keyId, {
       encryptedValue: ciphertext,
       iv,
+      dataKeyId: dataKey.id,
       lastRotatedAt: new Date(),
     });
 
@@ -169,6 +218,76 @@ export class CloudKeyStore {
     await this.repo.revoke(keyId, performedBy);
   }
 
+  /* ── Sealed secrets ──────────────────────────────────────── */
+
+  /**
+   * Encrypt a secret that lives beside a key under the org's data key.
+   * Master key rotation re-wraps the data key, so sealed secrets stay
+   * readable without being touched.
+   */
+  async sealSecret(orgId: string, plaintext: string): Promise<SealedSecret> {
+    const dataKey = await this.activeDataKey(orgId);
+    return { ...encrypt(plaintext, dataKey.key), dataKeyId: dataKey.id };
+  }
+
+  /** Decrypt a secret sealed with sealSecret(). */
+  async openSecret(sealed: SealedSecret): Promise<string> {
+    return decrypt(sealed.ciphertext, sealed.iv, await this.unwrapDataKey(sealed.dataKeyId));
+  }
+
+  /* ── Master key rotation ─────────────────────────────────── */
+
+  /**
+   * Re-wrap every data key that is not wrapped by the current master
+   * key, and move keys written before envelope encryption onto their
+   * org's data key. Safe to run while the store is serving traffic and
+   * from several processes at once — each row is only updated if it
+   * still holds what was read. Run it after deploying a new current
+   * master key; the previous one can be retired once it reports zero.
+   *
+   * A row no configured master key can decrypt is left untouched and
+   * reported in `failed`, so one bad row never holds up the rest.
+   */
+  async rewrapDataKeys(): Promise<RewrapReport> {
+    const current = this.masterKeys.current;
+    const report: RewrapReport = { rewrapped: 0, migrated: 0, failed: [] };
+
+    for (const row of await this.dataKeys.findWrappedWithout(current.id)) {
+      try {
+        const key = decrypt(row.wrappedKey, row.iv, this.masterKeys.get(row.masterKeyId));
+        const { ciphertext, iv } = encrypt(key, current.key);
+
+        const updated = await this.dataKeys.rewrap(row.id, row.masterKeyId, {
+          wrappedKey: ciphertext,
+          iv,
+          masterKeyId: current.id,
+        });
+        if (updated) report.rewrapped++;
+      } catch (error) {
+        report.failed.push({ kind: "data_key", id: row.id, error: (error as Error).message });
+      }
+    }
+
+    for (const row of await this.repo.findWithoutDataKey()) {
+      try {
+        const value = this.decryptLegacyValue(row);
+        const dataKey = await this.activeDataKey(row.orgId);
+        const { ciphertext, iv } = encrypt(value, dataKey.key);
+
+        const updated = await this.repo.reencrypt(row.id, row.iv, {
+          encryptedValue: ciphertext,
+          iv,
+          dataKeyId: dataKey.id,
+        });
+        if (updated) report.migrated++;
+      } catch (error) {
+        report.failed.push({ kind: "key", id: row.id, error: (error as Error).message });
+      }
+    }
+
+    return report;
+  }
+
   /* ── Audit ───────────────────────────────────────────────── */
 
   /** Retrieve the audit trail for a key, newest first. */
@@ -205,8 +324,73 @@ export class CloudKeyStore {
     );
   }
 
+  /**
+   * The data key new values in an org are encrypted with. The first
+   * write in an org generates it; if another writer wins that race,
+   * theirs is used instead.
+   */
+  private async activeDataKey(orgId: string): Promise<{ id: string; key: string }> {
+    const existing = await this.dataKeys.findActive(orgId);
+    if (existing) {
+      return { id: existing.id, key: await this.unwrapDataKey(existing.id) };
+    }
+
+    const key = generateEncryptionKey();
+    const { ciphertext, iv } = encrypt(key, this.masterKeys.current.key);
+    const created = await this.dataKeys.createActive({
+      id: nanoid(),
+      orgId,
+      wrappedKey: ciphertext,
+      iv,
+      masterKeyId: this.masterKeys.current.id,
+    });
+    if (!created) return this.activeDataKey(orgId);
+
+    this.unwrapped.set(created.id, key);
+    return { id: created.id, key };
+  }
+
+  /** Unwrap a data key with whichever master key wrapped it. */
+  private async unwrapDataKey(id: string): Promise<string> {
+    const cached = this.unwrapped.get(id);
+    if (cached) return cached;
+
+    const row = await this.dataKeys.findById(id);
+    if (!row) throw new Error(`Data key "${id}" not found`);
+
+    const key = decrypt(row.wrappedKey, row.iv, this.masterKeys.get(row.masterKeyId));
+    this.unwrapped.set(id, key);
+    return key;
+  }
+
+  /** Decrypt a key's value with its data key. */
+  private async decryptValue(row: KeyRow): Promise<string> {
+    if (!row.dataKeyId) return this.decryptLegacyValue(row);
+    return decrypt(row.encryptedValue, row.iv, await this.unwrapDataKey(row.dataKeyId));
+  }
+
+  /**
+   * Decrypt a value written before envelope encryption. Those rows
+   * don't record which master key encrypted them, or whether they are
+   * hex (key-manager) or base64 (the original /keys routes), so each
+   * key and encoding is tried — GCM authentication rejects the wrong
+   * ones.
+   */
+  private decryptLegacyValue(row: KeyRow): string {
+    for (const { key } of this.masterKeys.all()) {
+      for (const decode of [decrypt, decryptBase64]) {
+        try {
+          return decode(row.encryptedValue, row.iv, key);
+        } catch {
+          /* Not this master key or encoding — try the next one */
+        }
+      }
+    }
+    throw new Error(`Key "${row.name}" cannot be decrypted with any configured master key`);
+  }
+
   /** Map a DB row to the public KeyMetadata shape. */
-  private toMetadata(row: NonNullable<Awaited<ReturnType<KeyRepository["findById"]>>>): KeyMetadata {
+  private toMetadata(row: KeyRow): KeyMetadata {
     return {
       id: row.id,
       name: row.name,
@@ -72,6 +72,32 @@ export function decrypt(ciphertext: string, iv: string, masterKey: string): stri
   return bytesToUtf8(plainBytes);
 }
 
+/**
+ * Decrypt a value in the format the /keys routes wrote before they
+ * moved onto this package: base64 `ciphertext‖tag` and a base64 IV.
+ * GCM lays the tag out the same way in both formats, so only the
+ * encoding differs.
+ *
+ * @param masterKey  — 64-char hex string (256 bits)
+ * @throws if auth tag verification fails (wrong key or tampered data)
+ */
+export function decryptBase64(ciphertext: string, iv: string, masterKey: string): string {
+  const keyBytes = hexToBytes(masterKey);
+  if (keyBytes.length !== KEY_BYTES) {
+    throw new Error(`Master key must be ${KEY_BYTES * 2} hex chars (${KEY_BYTES} bytes)`);
+  }
+
+  const cipher = gcm(keyBytes, base64ToBytes(iv));
+  return bytesToUtf8(cipher.decrypt(base64ToBytes(ciphertext)));
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
 /* ── Hashing ───────────────────────────────────────────────── */
 
 /**
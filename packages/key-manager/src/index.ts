@@ -8,6 +8,17 @@ export { LocalKeyStore } from "./local-store.js";
 export { KeyResolver } from "./key-resolver.js";
 export type { ResolveContext } from "./key-resolver.js";
 
+/* ── OAuth connections ──────────────────────────────────────── */
+
+export { OAuthConnectionManager, OAuthError, OAUTH_PROVIDERS } from "./oauth.js";
+export type {
+  CreateOAuthConnectionOpts,
+  OAuthConnectionInfo,
+  OAuthConnectionManagerOptions,
+  OAuthConnectionStatus,
+  OAuthProviderPreset,
+} from "./oauth.js";
+
 /* ── Encryption ─────────────────────────────────────────────── */
 
 export {
@@ -17,6 +28,8 @@ export {
   hashKeyName,
   resolveMasterKey,
 } from "./crypto.js";
+export { MasterKeyRing, DEFAULT_MASTER_KEY_ID, parseMasterKeys } from "./master-keys.js";
+export type { MasterKey } from "./master-keys.js";
 
 /* ── Adapters ───────────────────────────────────────────────── */
 
@@ -35,6 +48,8 @@ export type {
   AuditAction,
   AuditEntry,
   EncryptedPayload,
+  SealedSecret,
+  RewrapReport,
   EncryptedStore,
   EncryptedStoreEntry,
 } from "./types.js";
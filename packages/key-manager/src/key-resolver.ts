@@ -1,5 +1,6 @@
 import type { CloudKeyStore } from "./cloud-store.js";
 import type { LocalKeyStore } from "./local-store.js";
+import type { OAuthConnectionManager } from "./oauth.js";
 
 /**
  * Resolution context passed by the workflow engine.
@@ -8,6 +9,9 @@ import type { LocalKeyStore } from "./local-store.js";
 export interface ResolveContext {
   orgId: string;
   workflowId?: string;
+
+  /** Run the key is resolved for — recorded on the cloud audit entry */
+  runId?: string;
 }
 
 /**
@@ -22,12 +26,17 @@ export interface ResolveContext {
  *   - `$keys.cloud.my_api_key` → cloud store only
  *   - `$keys.my_api_key`       → local first, then cloud
  *
- * Throws if the key is not found, revoked, or expired.
+ * Throws if the key is not found, revoked, or expired. Cloud reads
+ * are audit-logged as "accessed" with the run and workflow scope.
+ * When an OAuth connection manager is given, a cloud key backed by
+ * an OAuth connection has its access token refreshed first if it is
+ * about to expire.
  */
 export class KeyResolver {
   constructor(
     private readonly cloudStore?: CloudKeyStore,
     private readonly localStore?: LocalKeyStore,
+    private readonly oauth?: OAuthConnectionManager,
   ) {}
 
   /**
@@ -99,10 +108,13 @@ export class KeyResolver {
       throw new Error(`Cloud store not available; cannot resolve "$keys.cloud.${name}"`);
     }
 
+    await this.oauth?.ensureFresh(context.orgId, name, context.workflowId);
     const key = await this.cloudStore.getKey(
       context.orgId,
       name,
       context.workflowId,
+      undefined,
+      this.auditMeta(context),
     );
     if (!key) {
       throw new Error(`Key "${name}" not found in cloud store`);
@@ -124,10 +136,13 @@ export class KeyResolver {
 
     /* Fall back to cloud */
     if (this.cloudStore) {
+      await this.oauth?.ensureFresh(context.orgId, name, context.workflowId);
       const cloudKey = await this.cloudStore.getKey(
         context.orgId,
         name,
         context.workflowId,
+        undefined,
+        this.auditMeta(context),
       );
       if (cloudKey) return cloudKey.value;
     }
@@ -142,6 +157,15 @@ export class KeyResolver {
     );
   }
 
+  /** Audit metadata identifying the engine run that read the key */
+  private auditMeta(context: ResolveContext): Record<string, unknown> {
+    return {
+      source: "engine",
+      ...(context.workflowId ? { workflowId: context.workflowId } : {}),
+      ...(context.runId ? { runId: context.runId } : {}),
+    };
+  }
+
   /* ── Reference parsing ──────────────────────────────────── */
 
   private parseRef(keyRef: string): { scope: "local" | "cloud" | "default"; name: string } {
@@ -0,0 +1,76 @@
+/**
+ * Versioned master keys for envelope encryption.
+ *
+ * Each org's data key is wrapped by the ring's current master key,
+ * and the row records that key's ID. Rotating the master key means
+ * deploying a ring with a new current key and the old one kept as a
+ * previous key, then running CloudKeyStore.rewrapDataKeys() — reads
+ * keep working throughout, since any key in the ring can unwrap. Once
+ * the re-wrap has run, the previous key can be dropped from the ring.
+ */
+
+const HEX_KEY_PATTERN = /^[0-9a-f]{64}$/i;
+
+/** ID given to a master key configured without one */
+export const DEFAULT_MASTER_KEY_ID = "default";
+
+export interface MasterKey {
+  /** Stored with every data key it wraps — must never be reused for another key */
+  id: string;
+
+  /** 64-char hex string (256 bits) */
+  key: string;
+}
+
+export class MasterKeyRing {
+  private readonly keys = new Map<string, string>();
+
+  constructor(
+    readonly current: MasterKey,
+    previous: readonly MasterKey[] = [],
+  ) {
+    for (const { id, key } of [current, ...previous]) {
+      if (!HEX_KEY_PATTERN.test(key)) {
+        throw new Error(`Master key "${id}" must be 64 hex chars (32 bytes)`);
+      }
+      if (this.keys.has(id)) {
+        throw new Error(`Master key ID "${id}" is configured more than once`);
+      }
+      this.keys.set(id, key);
+    }
+  }
+
+  /** The master key with this ID — throws if the ring does not have it */
+  get(id: string): string {
+    const key = this.keys.get(id);
+    if (!key) {
+      throw new Error(
+        `Master key "${id}" is not configured — keep it as a previous master key until rewrapDataKeys() has run`,
+      );
+    }
+    return key;
+  }
+
+  /** Every key in the ring, current first */
+  all(): MasterKey[] {
+    return [...this.keys].map(([id, key]) => ({ id, key }));
+  }
+}
+
+/**
+ * Parse a list of master keys written as `id:hex` pairs separated by
+ * commas — the format used for ENCRYPTION_PREVIOUS_MASTER_KEYS.
+ */
+export function parseMasterKeys(spec: string): MasterKey[] {
+  return spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf(":");
+      if (separator <= 0) {
+        throw new Error(`Master key entry ${index + 1} must be written as id:hex`);
+      }
+      return { id: entry.slice(0, separator), key: entry.slice(separator + 1) };
+    });
+}
@@ -0,0 +1,590 @@
+import { randomBytes } from "@noble/ciphers/webcrypto";
+import { bytesToHex } from "@noble/ciphers/utils";
+import type { Database } from "@vsync/db";
+import { KeyRepository, OAuthConnectionRepository } from "@vsync/db";
+import { OAUTH_REFRESH_LOCK_MS, OAUTH_REFRESH_MARGIN_MS, OAUTH_STATE_TTL_MS } from "@vsync/config";
+import type { CloudKeyStore } from "./cloud-store.js";
+import type { Provider } from "./types.js";
+
+type ConnectionRow = NonNullable<Awaited<ReturnType<OAuthConnectionRepository["findById"]>>>;
+
+/** How often an instance waiting on another's refresh re-reads the connection */
+const REFRESH_LOCK_POLL_MS = 100;
+
+/**
+ * OAuth2 connections — keys whose value is an access token obtained
+ * through the authorization-code flow (with PKCE) and kept fresh with
+ * a refresh token.
+ *
+ * The access token is stored as an ordinary `oauth_token` key in the
+ * CloudKeyStore, so blocks reference it as `$keys.<name>` like any
+ * other key. The refresh token, client secret and in-flight PKCE
+ * verifier live on the `oauth_connections` row, sealed under the
+ * org's data key. Only a SHA-256 of the `state` parameter is stored,
+ * and it is cleared when the callback consumes it.
+ */
+
+/* ── Types ──────────────────────────────────────────────────── */
+
+/** pending → connected ⇄ refresh_failed; disconnected is final */
+export type OAuthConnectionStatus = "pending" | "connected" | "refresh_failed" | "disconnected";
+
+/** Endpoints and authorize parameters of a well-known provider */
+export interface OAuthProviderPreset {
+  authorizeUrl: string;
+  tokenUrl: string;
+  /** Extra query parameters the provider needs to issue a refresh token */
+  authorizeParams?: Record<string, string>;
+}
+
+export const OAUTH_PROVIDERS: Record<string, OAuthProviderPreset> = {
+  google: {
+    authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    authorizeParams: { access_type: "offline", prompt: "consent" },
+  },
+  azure: {
+    authorizeUrl: "https://login.microsoftonline.com/common/oauth2/v2.0/authorize",
+    tokenUrl: "https://login.microsoftonline.com/common/oauth2/v2.0/token",
+  },
+  github: {
+    authorizeUrl: "https://github.com/login/oauth/authorize",
+    tokenUrl: "https://github.com/login/oauth/access_token",
+  },
+};
+
+/** Options for creating a new OAuth connection. */
+export interface CreateOAuthConnectionOpts {
+  orgId: string;
+  /** Name of the key the access token is stored under */
+  name: string;
+  provider: Provider;
+  workflowId?: string;
+  clientId: string;
+  clientSecret: string;
+  scopes?: string[];
+  /** Where the provider sends the user back — the API's OAuth callback */
+  redirectUri: string;
+  /** Required unless `provider` has a preset in OAUTH_PROVIDERS */
+  authorizeUrl?: string;
+  tokenUrl?: string;
+}
+
+/** Status view of a connection — never exposes a secret. */
+export interface OAuthConnectionInfo {
+  id: string;
+  orgId: string;
+  workflowId: string | null;
+  name: string;
+  /** The key holding the access token, once authorized */
+  keyId: string | null;
+  provider: Provider;
+  clientId: string;
+  scopes: string[];
+  redirectUri: string;
+  status: OAuthConnectionStatus;
+  hasRefreshToken: boolean;
+  /** An authorization was started and its callback has not arrived yet */
+  authorizationPending: boolean;
+  accessTokenExpiresAt: Date | null;
+  lastRefreshedAt: Date | null;
+  lastError: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export interface OAuthConnectionManagerOptions {
+  /** fetch used for token requests — injectable for tests */
+  fetch?: typeof fetch;
+  /** Refresh an access token this long before it expires */
+  refreshMarginMs?: number;
+  /** How long an authorization may take before its state is rejected */
+  stateTtlMs?: number;
+  /** How long a refresh may hold the connection before another instance takes over */
+  refreshLockMs?: number;
+}
+
+/** Thrown for a rejected callback, a failed token request or an unusable connection */
+export class OAuthError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+  ) {
+    super(message);
+    this.name = "OAuthError";
+  }
+}
+
+/** The fields of a token endpoint response that are used */
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+/* ── Manager ────────────────────────────────────────────────── */
+
+export class OAuthConnectionManager {
+  private readonly repo: OAuthConnectionRepository;
+  private readonly keyRepo: KeyRepository;
+  private readonly fetch: typeof fetch;
+  private readonly refreshMarginMs: number;
+  private readonly stateTtlMs: number;
+  private readonly refreshLockMs: number;
+
+  /** Refreshes in flight by connection ID, so concurrent runs share one token request */
+  private readonly refreshing = new Map<string, Promise<OAuthConnectionInfo>>();
+
+  constructor(
+    db: Database,
+    private readonly store: CloudKeyStore,
+    options: OAuthConnectionManagerOptions = {},
+  ) {
+    this.repo = new OAuthConnectionRepository(db);
+    this.keyRepo = new KeyRepository(db);
+    this.fetch = options.fetch ?? globalThis.fetch;
+    this.refreshMarginMs = options.refreshMarginMs ?? OAUTH_REFRESH_MARGIN_MS;
+    this.stateTtlMs = options.stateTtlMs ?? OAUTH_STATE_TTL_MS;
+    this.refreshLockMs = options.refreshLockMs ?? OAUTH_REFRESH_LOCK_MS;
+  }
+
+  /* ── Authorization ───────────────────────────────────────── */
+
+  /**
+   * Register a connection and start its first authorization. Returns
+   * the URL to send the user to; the provider redirects back to
+   * `redirectUri` with the code and state for completeAuthorization().
+   */
+  async createConnection(
+    opts: CreateOAuthConnectionOpts,
+    performedBy?: string,
+  ): Promise<{ connection: OAuthConnectionInfo; authorizationUrl: string }> {
+    const preset = OAUTH_PROVIDERS[opts.provider];
+    const authorizeUrl = opts.authorizeUrl ?? preset?.authorizeUrl;
+    const tokenUrl = opts.tokenUrl ?? preset?.tokenUrl;
+    if (!authorizeUrl || !tokenUrl) {
+      throw new OAuthError(
+        `Provider "${opts.provider}" has no preset — authorizeUrl and tokenUrl are required`,
+        "INVALID_CONFIG",
+      );
+    }
+
+    /* The access token will be stored under this name — reject a clash now, not at the callback */
+    if (await this.repo.findByName(opts.orgId, opts.name, opts.workflowId)) {
+      throw new Error(`OAuth connection "${opts.name}" already exists in this scope`);
+    }
+    const existingKey = opts.workflowId
+      ? (await this.keyRepo.findScopedByName(opts.orgId, opts.name))
+          .find((k) => k.workflowId === opts.workflowId)
+      : await this.keyRepo.findByName(opts.orgId, opts.name);
+    if (existingKey) {
+      throw new Error(`Key "${opts.name}" already exists in this scope`);
+    }
+
+    const secret = await this.store.sealSecret(opts.orgId, opts.clientSecret);
+    const row = await this.repo.create({
+      orgId: opts.orgId,
+      workflowId: opts.workflowId ?? null,
+      name: opts.name,
+      provider: opts.provider,
+      authorizeUrl,
+      tokenUrl,
+      clientId: opts.clientId,
+      scopes: opts.scopes ?? [],
+      redirectUri: opts.redirectUri,
+      dataKeyId: secret.dataKeyId,
+      encryptedClientSecret: secret.ciphertext,
+      clientSecretIv: secret.iv,
+      createdBy: performedBy ?? null,
+    });
+
+    return this.beginAuthorization(row);
+  }
+
+  /**
+   * Start a new authorization for an existing connection — to
+   * reconnect after a refresh token was revoked, or to change the
+   * granted scopes. Any earlier pending authorization is superseded.
+   */
+  async authorize(
+    connectionId: string,
+  ): Promise<{ connection: OAuthConnectionInfo; authorizationUrl: string }> {
+    const row = await this.requireConnection(connectionId);
+    return this.beginAuthorization(row);
+  }
+
+  /**
+   * Handle the provider's redirect: exchange the code for tokens and
+   * store them. Each state is accepted once, and only within the
+   * state TTL of the authorization that issued it.
+   */
+  async completeAuthorization(
+    state: string,
+    code: string,
+    now = new Date(),
+  ): Promise<OAuthConnectionInfo> {
+    const row = await this.repo.consumeState(await sha256Hex(state));
+    if (!row) {
+      throw new OAuthError("Unknown or already used authorization state", "INVALID_STATE");
+    }
+    if (!row.encryptedCodeVerifier || !row.codeVerifierIv) {
+      throw new OAuthError("Authorization has no PKCE verifier", "INVALID_STATE");
+    }
+    if (row.stateExpiresAt && row.stateExpiresAt.getTime() < now.getTime()) {
+      throw new OAuthError("Authorization expired — start it again", "STATE_EXPIRED");
+    }
+
+    const codeVerifier = await this.store.openSecret({
+      ciphertext: row.encryptedCodeVerifier,
+      iv: row.codeVerifierIv,
+      dataKeyId: row.dataKeyId,
+    });
+
+    let tokens: TokenResponse;
+    try {
+      tokens = await this.requestTokens(row, {
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: row.redirectUri,
+        code_verifier: codeVerifier,
+      });
+    } catch (error) {
+      await this.repo.update(row.id, { lastError: errorMessage(error) });
+      throw error;
+    }
+
+    return this.storeTokens(row, tokens, now);
+  }
+
+  /* ── Refresh ─────────────────────────────────────────────── */
+
+  /**
+   * Exchange the refresh token for a new access token. A failure marks
+   * the connection `refresh_failed` with the provider's error; the next
+   * successful refresh or authorization clears it. Refreshes of the
+   * same connection in this process share one request; across API
+   * instances the connection's refresh lock lets only one of them
+   * spend the refresh token, and the others read back its result.
+   */
+  async refresh(connectionId: string, now = new Date()): Promise<OAuthConnectionInfo> {
+    const inFlight = this.refreshing.get(connectionId);
+    if (inFlight) return inFlight;
+
+    const pending = this.runRefresh(connectionId, now).finally(() => {
+      this.refreshing.delete(connectionId);
+    });
+    this.refreshing.set(connectionId, pending);
+    return pending;
+  }
+
+  /**
+   * Make sure the access token behind a key name is usable before it
+   * is handed out: refresh it when it expires within the refresh
+   * margin. Names without a connection are left alone. Throws only
+   * when the token has expired and could not be refreshed — a token
+   * that is still valid is used even if its early refresh failed.
+   */
+  async ensureFresh(
+    orgId: string,
+    name: string,
+    workflowId?: string,
+    now = new Date(),
+  ): Promise<void> {
+    /* Same scoping as key lookup: workflow-scoped first, then org-wide */
+    const row =
+      (workflowId ? await this.repo.findByName(orgId, name, workflowId) : undefined) ??
+      (await this.repo.findByName(orgId, name));
+    if (!row || !row.keyId || row.status === "disconnected") return;
+
+    const expiresAt = row.accessTokenExpiresAt?.getTime();
+    if (expiresAt === undefined || expiresAt - this.refreshMarginMs > now.getTime()) return;
+
+    try {
+      await this.refresh(row.id, now);
+    } catch (error) {
+      if (expiresAt <= now.getTime()) {
+        throw new OAuthError(
+          `OAuth token "${name}" has expired and could not be refreshed: ${errorMessage(error)}`,
+          "TOKEN_EXPIRED",
+        );
+      }
+    }
+  }
+
+  /* ── Status ──────────────────────────────────────────────── */
+
+  async getConnection(connectionId: string): Promise<OAuthConnectionInfo | null> {
+    const row = await this.repo.findById(connectionId);
+    return row ? this.toInfo(row) : null;
+  }
+
+  async listConnections(orgId: string): Promise<OAuthConnectionInfo[]> {
+    const rows = await this.repo.findByOrg(orgId);
+    return rows.map((r) => this.toInfo(r));
+  }
+
+  /**
+   * Revoke the access token key and forget the refresh token. The
+   * connection row stays, `disconnected`, for its history.
+   */
+  async disconnect(connectionId: string, performedBy?: string): Promise<OAuthConnectionInfo> {
+    const row = await this.requireConnection(connectionId);
+    if (row.keyId) await this.store.revokeKey(row.keyId, performedBy);
+
+    const updated = await this.repo.update(row.id, {
+      status: "disconnected",
+      encryptedRefreshToken: null,
+      refreshTokenIv: null,
+      stateHash: null,
+      encryptedCodeVerifier: null,
+      codeVerifierIv: null,
+      stateExpiresAt: null,
+    });
+    return this.toInfo(updated);
+  }
+
+  /* ── Internal helpers ────────────────────────────────────── */
+
+  private async requireConnection(connectionId: string): Promise<ConnectionRow> {
+    const row = await this.repo.findById(connectionId);
+    if (!row) throw new OAuthError("OAuth connection not found", "NOT_FOUND");
+    if (row.status === "disconnected") {
+      throw new OAuthError("OAuth connection has been disconnected", "DISCONNECTED");
+    }
+    return row;
+  }
+
+  /** Issue a fresh state and PKCE verifier and build the authorization URL. */
+  private async beginAuthorization(
+    row: ConnectionRow,
+  ): Promise<{ connection: OAuthConnectionInfo; authorizationUrl: string }> {
+    const state = base64Url(randomBytes(32));
+    const codeVerifier = base64Url(randomBytes(32));
+    const verifier = await this.store.sealSecret(row.orgId, codeVerifier);
+
+    const updated = await this.repo.update(row.id, {
+      stateHash: await sha256Hex(state),
+      encryptedCodeVerifier: verifier.ciphertext,
+      codeVerifierIv: verifier.iv,
+      stateExpiresAt: new Date(Date.now() + this.stateTtlMs),
+    });
+
+    const url = new URL(row.authorizeUrl);
+    const params: Record<string, string> = {
+      response_type: "code",
+      client_id: row.clientId,
+      redirect_uri: row.redirectUri,
+      state,
+      code_challenge: base64Url(await sha256(codeVerifier)),
+      code_challenge_method: "S256",
+      ...OAUTH_PROVIDERS[row.provider]?.authorizeParams,
+    };
+    if (row.scopes?.length) params.scope = row.scopes.join(" ");
+    for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+
+    return { connection: this.toInfo(updated), authorizationUrl: url.toString() };
+  }
+
+  private async runRefresh(connectionId: string, now: Date): Promise<OAuthConnectionInfo> {
+    const seen = await this.requireConnection(connectionId);
+    const row = await this.lockRefresh(seen);
+    if (!row) return this.toInfo(await this.requireConnection(connectionId));
+
+    try {
+      if (!row.encryptedRefreshToken || !row.refreshTokenIv) {
+        throw new OAuthError("OAuth connection has no refresh token — authorize it again", "NO_REFRESH_TOKEN");
+      }
+
+      const refreshToken = await this.store.openSecret({
+        ciphertext: row.encryptedRefreshToken,
+        iv: row.refreshTokenIv,
+        dataKeyId: row.dataKeyId,
+      });
+
+      let tokens: TokenResponse;
+      try {
+        tokens = await this.requestTokens(row, {
+          grant_type: "refresh_token",
+          refresh_token: refreshToken,
+        });
+      } catch (error) {
+        await this.repo.update(row.id, { status: "refresh_failed", lastError: errorMessage(error) });
+        throw error;
+      }
+
+      return await this.storeTokens(row, tokens, now);
+    } finally {
+      await this.repo.update(row.id, { refreshLockedUntil: null });
+    }
+  }
+
+  /**
+   * Take the connection's refresh lock, waiting while another instance
+   * holds it. Returns the row as of the lock — with the latest refresh
+   * token — or undefined when another instance refreshed the token
+   * since `seen` was read, so the token is not refreshed twice.
+   */
+  private async lockRefresh(seen: ConnectionRow): Promise<ConnectionRow | undefined> {
+    for (;;) {
+      const clock = new Date();
+      const locked = await this.repo.claimRefresh(
+        seen.id,
+        clock,
+        new Date(clock.getTime() + this.refreshLockMs),
+      );
+      const current = locked ?? (await this.requireConnection(seen.id));
+
+      if (current.lastRefreshedAt?.getTime() !== seen.lastRefreshedAt?.getTime()) {
+        if (locked) await this.repo.update(seen.id, { refreshLockedUntil: null });
+        return undefined;
+      }
+      if (locked) return locked;
+
+      await new Promise((resolve) => setTimeout(resolve, REFRESH_LOCK_POLL_MS));
+    }
+  }
+
+  /**
+   * Store the access token as the connection's key — created on the
+   * first authorization, rotated in place afterwards — and seal the
+   * refresh token. Providers that don't rotate refresh tokens omit
+   * it from refresh responses, so the stored one is kept.
+   */
+  private async storeTokens(
+    row: ConnectionRow,
+    tokens: TokenResponse,
+    now: Date,
+  ): Promise<OAuthConnectionInfo> {
+    let keyId = row.keyId;
+    const key = keyId ? await this.keyRepo.findById(keyId) : undefined;
+
+    if (key?.isRevoked) {
+      await this.repo.update(row.id, { status: "refresh_failed", lastError: "Access token key has been revoked" });
+      throw new OAuthError(`Key "${row.name}" has been revoked — disconnect this connection`, "KEY_REVOKED");
+    }
+
+    if (key) {
+      await this.store.rotateKey(key.id, tokens.access_token);
+    } else {
+      const created = await this.store.createKey({
+        orgId: row.orgId,
+        workflowId: row.workflowId ?? undefined,
+        name: row.name,
+        value: tokens.access_token,
+        keyType: "oauth_token",
+        provider: row.provider,
+        storageMode: "cloud",
+        description: `OAuth access token for ${row.provider}`,
+      }, row.createdBy ?? undefined);
+      keyId = created.id;
+    }
+
+    /* An org has one active data key, so every secret on the row shares dataKeyId */
+    const refresh = tokens.refresh_token
+      ? await this.store.sealSecret(row.orgId, tokens.refresh_token)
+      : null;
+
+    const updated = await this.repo.update(row.id, {
+      keyId,
+      status: "connected",
+      ...(refresh
+        ? { encryptedRefreshToken: refresh.ciphertext, refreshTokenIv: refresh.iv }
+        : {}),
+      encryptedCodeVerifier: null,
+      codeVerifierIv: null,
+      stateExpiresAt: null,
+      accessTokenExpiresAt: tokens.expires_in
+        ? new Date(now.getTime() + tokens.expires_in * 1000)
+        : null,
+      lastRefreshedAt: now,
+      lastError: null,
+    });
+    return this.toInfo(updated);
+  }
+
+  /** POST a form-encoded grant to the token endpoint with the client's credentials. */
+  private async requestTokens(
+    row: ConnectionRow,
+    grant: Record<string, string>,
+  ): Promise<TokenResponse> {
+    const clientSecret = await this.store.openSecret({
+      ciphertext: row.encryptedClientSecret,
+      iv: row.clientSecretIv,
+      dataKeyId: row.dataKeyId,
+    });
+
+    let res: Response;
+    try {
+      res = await this.fetch(row.tokenUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: "application/json",
+        },
+        body: new URLSearchParams({
+          ...grant,
+          client_id: row.clientId,
+          client_secret: clientSecret,
+        }).toString(),
+      });
+    } catch (error) {
+      throw new OAuthError(`Token request failed: ${errorMessage(error)}`, "TOKEN_REQUEST_FAILED");
+    }
+
+    const body = (await res.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!res.ok || !body || typeof body.access_token !== "string") {
+      const reason = body?.error_description ?? body?.error ?? `HTTP ${res.status}`;
+      throw new OAuthError(`Token endpoint rejected the request: ${String(reason)}`, "TOKEN_REJECTED");
+    }
+
+    return {
+      access_token: body.access_token,
+      refresh_token: typeof body.refresh_token === "string" ? body.refresh_token : undefined,
+      expires_in: typeof body.expires_in === "number" ? body.expires_in : Number(body.expires_in) || undefined,
+    };
+  }
+
+  /** Map a DB row to the public status view. */
+  private toInfo(row: ConnectionRow): OAuthConnectionInfo {
+    return {
+      id: row.id,
+      orgId: row.orgId,
+      workflowId: row.workflowId,
+      name: row.name,
+      keyId: row.keyId,
+      provider: row.provider as Provider,
+      clientId: row.clientId,
+      scopes: row.scopes ?? [],
+      redirectUri: row.redirectUri,
+      status: row.status as OAuthConnectionStatus,
+      hasRefreshToken: row.encryptedRefreshToken !== null,
+      authorizationPending: row.stateHash !== null,
+      accessTokenExpiresAt: row.accessTokenExpiresAt,
+      lastRefreshedAt: row.lastRefreshedAt,
+      lastError: row.lastError,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
+
+/* ── Encoding helpers ───────────────────────────────────────── */
+
+async function sha256(input: string): Promise<Uint8Array> {
+  return new Uint8Array(await globalThis.crypto.subtle.digest("SHA-256", new TextEncoder().encode(input)));
+}
+
+async function sha256Hex(input: string): Promise<string> {
+  return bytesToHex(await sha256(input));
+}
+
+/** RFC 4648 §5 base64url without padding, as PKCE and state values use */
+function base64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -43,6 +43,9 @@ export interface CreateKeyOpts {
   workflowId?: string;
   expiresAt?: Date;
   orgId: string;
+  /** Rotation policy — honoured by CloudKeyStore only */
+  rotationMaxAgeDays?: number;
+  rotationWarnDays?: number;
 }
 
 /**
@@ -70,7 +73,7 @@ export interface DecryptedKey extends KeyMetadata {
 
 /* ── Audit log ──────────────────────────────────────────────── */
 
-export type AuditAction = "created" | "accessed" | "rotated" | "revoked";
+export type AuditAction = "created" | "accessed" | "rotated" | "revoked" | "flagged";
 
 export interface AuditEntry {
   id: string;
@@ -91,6 +94,24 @@ export interface EncryptedPayload {
   iv: string;
 }
 
+/**
+ * A secret encrypted under an org's data key that is stored beside a
+ * key rather than as its value (e.g. an OAuth refresh token).
+ */
+export interface SealedSecret extends EncryptedPayload {
+  dataKeyId: string;
+}
+
+/** What a CloudKeyStore.rewrapDataKeys() pass did */
+export interface RewrapReport {
+  /** Data keys moved onto the current master key */
+  rewrapped: number;
+  /** Keys moved from a master key onto their org's data key */
+  migrated: number;
+  /** Rows left as they were because they could not be decrypted */
+  failed: { kind: "data_key" | "key"; id: string; error: string }[];
+}
+
 /* ── Local storage adapter ──────────────────────────────────── */
 
 /** Serialised form of the local encrypted key store. */
@@ -15,7 +15,12 @@ export type BlockType =
   | "fetch"
   | "agent"
   | "goto"
+  | "loop"
+  | "break"
+  | "continue"
+  | "switch"
   | "sleep"
+  | "workflow"
   | "ui_camera"
   | "ui_form"
   | "ui_table"
@@ -49,7 +54,8 @@ export type ConditionOperator =
 
 /**
  * A single predicate evaluated before a block executes.
- * All conditions on a block must pass (AND logic) for execution to proceed.
+ * Top-level conditions on a block are ANDed; wrap them in a
+ * ConditionGroup for OR and NOT.
  */
 export interface Condition {
   /** Left-hand operand — typically a JSONPath or template expression */
@@ -62,6 +68,32 @@ export interface Condition {
   right: string;
 }
 
+/**
+ * Combines conditions: `all` passes when every member does, `any`
+ * when at least one does, `not` when its member fails. Groups nest.
+ */
+export type ConditionGroup =
+  | { all: ConditionNode[] }
+  | { any: ConditionNode[] }
+  | { not: ConditionNode };
+
+/** A condition or a group of them — anywhere a block accepts conditions */
+export type ConditionNode = Condition | ConditionGroup;
+
+/**
+ * One branch of a switch block. The first case whose conditions
+ * pass (ANDed, like a block's) decides where execution continues.
+ */
+export interface SwitchCase {
+  /** Shown in run steps and the designer (e.g. "High priority") */
+  label?: string;
+
+  conditions: ConditionNode[];
+
+  /** Name of the block to jump to */
+  target: string;
+}
+
 /**
  * A discrete unit of work inside a workflow version.
  * Blocks are executed sequentially by order, with optional conditions
@@ -95,7 +127,7 @@ export interface Block {
   logic: Record<string, unknown>;
 
   /** Optional guard conditions — all must pass for the block to execute */
-  conditions?: Condition[];
+  conditions?: ConditionNode[];
 
   /** Zero-based position in the execution sequence */
   order: number;
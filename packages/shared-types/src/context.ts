@@ -10,6 +10,52 @@ import type { TriggerType } from "./workflow.js";
  */
 export type KeyResolver = (key: string) => unknown;
 
+/**
+ * A `workflow` block's call into another workflow. The engine adds
+ * the parent run and call depth before handing it to the host.
+ */
+export interface WorkflowCall {
+  /** Workflow to run */
+  workflowId: string;
+
+  /** Pinned version — the workflow's active version when omitted */
+  version?: number;
+
+  /** Becomes the child run's `$event` */
+  input: Record<string, unknown>;
+
+  /** The calling block */
+  blockId: string;
+
+  /** Aborts the child run — the calling block's signal */
+  signal?: AbortSignal;
+
+  /**
+   * Calls another workflow — set by the engine when the host can run
+   * sub-workflows, and used by the `workflow` block.
+   */
+  invokeWorkflow?: WorkflowCaller;
+}
+
+/** How a called workflow's run ended */
+export interface WorkflowCallResult {
+  /** The child run, linked to the calling run */
+  runId: string;
+
+  /** Version that actually ran */
+  version: number;
+
+  status: RunStatus;
+
+  /** The child run's output — its projected `$state` */
+  output: Record<string, unknown>;
+
+  errorMessage?: string;
+}
+
+/** Runs another workflow to completion on behalf of a `workflow` block */
+export type WorkflowCaller = (call: WorkflowCall) => Promise<WorkflowCallResult>;
+
 /**
  * Per-run metadata available to every block during execution.
  * Provides identity, timing, and positional information
@@ -65,6 +111,9 @@ export interface LoopContext {
   /** Zero-based iteration counter */
   index: number;
 
+  /** Element of the list being iterated (for_each loops only) */
+  item?: unknown;
+
   /** Artifact scoped to the current iteration (e.g. current image in a batch) */
   artifact?: Artifact;
 }
@@ -128,4 +177,17 @@ export interface WorkflowContext {
    * so the engine can intercept and transform references.
    */
   keyResolver?: KeyResolver;
+
+  /**
+   * Cooperative cancellation token for the run.
+   * Long-running blocks (sleep, fetch, code) listen to it so a
+   * cancelled run unwinds without waiting for the block to finish.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Calls another workflow — set by the engine when the host can run
+   * sub-workflows, and used by the `workflow` block.
+   */
+  invokeWorkflow?: WorkflowCaller;
 }
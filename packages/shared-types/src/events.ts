@@ -9,8 +9,10 @@ export type WSEventType =
   | "run:completed"
   | "run:failed"
   | "run:awaiting_action"
+  | "run:paused"
   | "workflow:updated"
-  | "workflow:deleted";
+  | "workflow:deleted"
+  | "key:health";
 
 /**
  * Envelope for all WebSocket messages.
@@ -0,0 +1,392 @@
+/**
+ * Expression language — syntax shared by the engine (evaluation) and
+ * @vsync/blocks (validation).
+ *
+ * Expressions appear in three places inside block logic:
+ *   "$state.total * 1.2"          whole value starting with `$` — typed result
+ *   "=len($state.items) > 0"      whole value starting with `=` — typed result
+ *   "Hi {{ upper($state.name) }}" `{{…}}` placeholders — interpolated as text
+ *
+ * A bare `$path` (e.g. "$state.user.name") is looked up directly. A
+ * value that does not parse keeps the meaning it had before expressions:
+ * a `$…` value is looked up as a path, an `=…` value is literal text and
+ * a `{{…}}` placeholder inserts the text inside it. Values that do parse,
+ * such as "=5" or "{{ 1 + 2 }}", are now evaluated rather than taken
+ * literally.
+ *
+ * Grammar (lowest to highest precedence):
+ *   test ? a : b      ternary (right-associative)
+ *   a ?? b            null / undefined fallback
+ *   a || b            logical or
+ *   a && b            logical and
+ *   == !=             loose equality
+ *   < > <= >=         comparison
+ *   + -               addition / concatenation, subtraction
+ *   * / %             multiplication, division, remainder
+ *   ! -               unary not, negation
+ *   a.b a[0] f(x)     member access, index access, function call
+ *
+ * Literals: numbers, 'single' or "double" quoted strings, true, false,
+ * null and [array, literals]. Only functions in EXPRESSION_FUNCTIONS
+ * can be called — there is no access to globals or methods.
+ */
+
+/* ── Functions ─────────────────────────────────────────────── */
+
+/** Every function an expression may call — implemented by the engine */
+export const EXPRESSION_FUNCTIONS = [
+  /* Strings */
+  "lower",
+  "upper",
+  "trim",
+  "split",
+  "replace",
+  "startsWith",
+  "endsWith",
+  /* Strings and arrays */
+  "len",
+  "contains",
+  "slice",
+  /* Arrays and objects */
+  "join",
+  "first",
+  "last",
+  "keys",
+  "values",
+  /* Numbers */
+  "sum",
+  "min",
+  "max",
+  "abs",
+  "round",
+  "floor",
+  "ceil",
+  /* Conversion */
+  "number",
+  "string",
+  "json",
+  /* Time */
+  "now",
+] as const;
+
+export type ExpressionFunctionName = (typeof EXPRESSION_FUNCTIONS)[number];
+
+/* ── Syntax tree ───────────────────────────────────────────── */
+
+export type ExpressionBinaryOperator =
+  | "==" | "!="
+  | "<" | ">" | "<=" | ">="
+  | "+" | "-" | "*" | "/" | "%";
+
+export type ExpressionLogicalOperator = "&&" | "||" | "??";
+
+export type ExpressionNode =
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "array"; elements: ExpressionNode[] }
+  /** A `$` reference as written, e.g. "$state.user" — resolved by the engine */
+  | { kind: "path"; path: string }
+  | { kind: "member"; object: ExpressionNode; property: ExpressionNode }
+  | { kind: "call"; name: ExpressionFunctionName; args: ExpressionNode[] }
+  | { kind: "unary"; operator: "!" | "-"; operand: ExpressionNode }
+  | { kind: "binary"; operator: ExpressionBinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "logical"; operator: ExpressionLogicalOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "conditional"; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode };
+
+/** Thrown by parseExpression — `position` is a 0-based offset into the source */
+export class ExpressionSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+  ) {
+    super(message);
+    this.name = "ExpressionSyntaxError";
+  }
+}
+
+/* ── Locating expressions in logic values ──────────────────── */
+
+const PLAIN_PATH = /^\$[A-Za-z_][\w]*(?:\.[\w-]+|\[(?:\d+|"[^"]*"|'[^']*')\])*$/;
+const PLACEHOLDER = /\{\{(.+?)\}\}/g;
+
+/**
+ * True for a bare `$path` such as "$state.items[0].name" — these are
+ * resolved by a direct lookup rather than the expression evaluator.
+ */
+export function isPlainPath(source: string): boolean {
+  return PLAIN_PATH.test(source.trim());
+}
+
+/**
+ * True for an `=`-prefixed whole-value expression. A lone "=" and values
+ * starting with "==" (e.g. a comparison operator field) stay literals.
+ */
+export function isFormula(value: string): boolean {
+  return /^=[^=]/.test(value);
+}
+
+/**
+ * The expression sources embedded in a logic string: the whole value
+ * for `$…` values and formulas, otherwise the body of each `{{…}}` placeholder.
+ *
+ * @example expressionSources("=len($state.items)") → ["len($state.items)"]
+ * @example expressionSources("{{$state.a}} and {{ $state.b + 1 }}") → ["$state.a", "$state.b + 1"]
+ */
+export function expressionSources(value: string): string[] {
+  if (value.startsWith("$")) return [value];
+  if (isFormula(value)) return [value.slice(1)];
+  if (!value.includes("{{")) return [];
+  return [...value.matchAll(PLACEHOLDER)].map((match) => match[1]);
+}
+
+/* ── Tokenizer ─────────────────────────────────────────────── */
+
+type TokenType = "number" | "string" | "path" | "name" | "punct" | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+/* Longest operators first so "<=" wins over "<" */
+const PUNCTUATORS = [
+  "==", "!=", "<=", ">=", "&&", "||", "??",
+  "<", ">", "+", "-", "*", "/", "%", "!", "?", ":",
+  "(", ")", "[", "]", ",", ".",
+];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    /* Numbers — integers and decimals */
+    if (/\d/.test(char) || (char === "." && /\d/.test(source[i + 1] ?? ""))) {
+      const match = /^\d*\.?\d+(?:[eE][+-]?\d+)?|^\d+\.?/.exec(source.slice(i))!;
+      tokens.push({ type: "number", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    /* Strings — single or double quoted, with backslash escapes */
+    if (char === "\"" || char === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === "\\" && i + 1 < source.length) {
+          const escaped = source[i + 1];
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw new ExpressionSyntaxError("Unterminated string", start);
+      }
+      i++;
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    /* `$` references — "$state.user.name"; brackets are parsed as index access */
+    if (char === "$") {
+      const match = /^\$[A-Za-z_]\w*(?:\.\w+)*/.exec(source.slice(i));
+      if (!match) {
+        throw new ExpressionSyntaxError("Expected a name after \"$\"", i);
+      }
+      tokens.push({ type: "path", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    /* Names — function names and keyword literals */
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_]\w*/.exec(source.slice(i))!;
+      tokens.push({ type: "name", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATORS.find((p) => source.startsWith(p, i));
+    if (!punct) {
+      throw new ExpressionSyntaxError(`Unexpected character "${char}"`, i);
+    }
+    tokens.push({ type: "punct", value: punct, position: i });
+    i += punct.length;
+  }
+
+  tokens.push({ type: "eof", value: "", position: source.length });
+  return tokens;
+}
+
+/* ── Parser ────────────────────────────────────────────────── */
+
+const FUNCTION_NAMES: ReadonlySet<string> = new Set(EXPRESSION_FUNCTIONS);
+
+const BINARY_LEVELS: ReadonlyArray<readonly ExpressionBinaryOperator[]> = [
+  ["==", "!="],
+  ["<", ">", "<=", ">="],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+/**
+ * Parse an expression into a syntax tree.
+ *
+ * @throws ExpressionSyntaxError on malformed input or unknown functions
+ * @example parseExpression("$state.count + 1")
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = (): Token => tokens[pos];
+  const next = (): Token => tokens[pos++];
+  const isPunct = (value: string): boolean => peek().type === "punct" && peek().value === value;
+
+  const fail = (token: Token, message?: string): never => {
+    throw new ExpressionSyntaxError(
+      message ?? (token.type === "eof" ? "Unexpected end of expression" : `Unexpected "${token.value}"`),
+      token.position,
+    );
+  };
+
+  const expect = (value: string): void => {
+    if (isPunct(value)) {
+      pos++;
+      return;
+    }
+    const found = peek();
+    fail(found, found.type === "eof"
+      ? `Expected "${value}" before end of expression`
+      : `Expected "${value}" but found "${found.value}"`);
+  };
+
+  const parseConditional = (): ExpressionNode => {
+    const test = parseLogical(0);
+    if (!isPunct("?")) return test;
+    pos++;
+    const consequent = parseConditional();
+    expect(":");
+    const alternate = parseConditional();
+    return { kind: "conditional", test, consequent, alternate };
+  };
+
+  /* ?? binds loosest, then ||, then && */
+  const LOGICAL_LEVELS: readonly ExpressionLogicalOperator[] = ["??", "||", "&&"];
+
+  const parseLogical = (level: number): ExpressionNode => {
+    if (level === LOGICAL_LEVELS.length) return parseBinary(0);
+    const operator = LOGICAL_LEVELS[level];
+    let left = parseLogical(level + 1);
+    while (isPunct(operator)) {
+      pos++;
+      left = { kind: "logical", operator, left, right: parseLogical(level + 1) };
+    }
+    return left;
+  };
+
+  const parseBinary = (level: number): ExpressionNode => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    while (peek().type === "punct" && (BINARY_LEVELS[level] as readonly string[]).includes(peek().value)) {
+      const operator = next().value as ExpressionBinaryOperator;
+      left = { kind: "binary", operator, left, right: parseBinary(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isPunct("!") || isPunct("-")) {
+      const operator = next().value as "!" | "-";
+      return { kind: "unary", operator, operand: parseUnary() };
+    }
+    return parsePostfix(parsePrimary());
+  };
+
+  const parsePostfix = (object: ExpressionNode): ExpressionNode => {
+    for (;;) {
+      if (isPunct(".")) {
+        pos++;
+        const name = next();
+        if (name.type !== "name") fail(name, "Expected a property name after \".\"");
+        object = { kind: "member", object, property: { kind: "literal", value: name.value } };
+      } else if (isPunct("[")) {
+        pos++;
+        const property = parseConditional();
+        expect("]");
+        object = { kind: "member", object, property };
+      } else {
+        return object;
+      }
+    }
+  };
+
+  const parseArguments = (close: string): ExpressionNode[] => {
+    const args: ExpressionNode[] = [];
+    if (isPunct(close)) {
+      pos++;
+      return args;
+    }
+    for (;;) {
+      args.push(parseConditional());
+      if (isPunct(",")) {
+        pos++;
+        continue;
+      }
+      expect(close);
+      return args;
+    }
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.value) };
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "path":
+        return { kind: "path", path: token.value };
+      case "name": {
+        if (token.value === "true") return { kind: "literal", value: true };
+        if (token.value === "false") return { kind: "literal", value: false };
+        if (token.value === "null") return { kind: "literal", value: null };
+        if (!isPunct("(")) {
+          return fail(token, `Unknown name "${token.value}" — references start with "$", e.g. $state.${token.value}`);
+        }
+        if (!FUNCTION_NAMES.has(token.value)) {
+          return fail(token, `Unknown function "${token.value}"`);
+        }
+        pos++;
+        return { kind: "call", name: token.value as ExpressionFunctionName, args: parseArguments(")") };
+      }
+      case "punct":
+        if (token.value === "(") {
+          const inner = parseConditional();
+          expect(")");
+          return inner;
+        }
+        if (token.value === "[") {
+          return { kind: "array", elements: parseArguments("]") };
+        }
+        return fail(token);
+      default:
+        return fail(token);
+    }
+  };
+
+  const root = parseConditional();
+  if (peek().type !== "eof") fail(peek());
+  return root;
+}
@@ -1,7 +1,13 @@
 export type {
   TriggerType,
   TriggerConfig,
+  ScheduleMissedPolicy,
+  HookSignatureAlgorithm,
+  HookResponseMode,
+  JsonSchema,
+  JsonSchemaType,
   BlockGroup,
+  GroupRetryPolicy,
   PublicBranding,
   PublicRateLimit,
   Workflow,
@@ -12,6 +18,9 @@ export type {
   BlockType,
   ConditionOperator,
   Condition,
+  ConditionGroup,
+  ConditionNode,
+  SwitchCase,
   Block,
 } from "./block.js";
 
@@ -19,8 +28,10 @@ export type {
   RunStatus,
   StepStatus,
   StepError,
+  StepAttempt,
   Step,
   Run,
+  RunDebugOptions,
 } from "./run.js";
 
 export type {
@@ -46,6 +57,9 @@ export type {
 
 export type {
   KeyResolver,
+  WorkflowCall,
+  WorkflowCallResult,
+  WorkflowCaller,
   RunContext,
   LoopContext,
   EventData,
@@ -76,3 +90,19 @@ export type {
 } from "./ui-config.js";
 
 export { mapBlockLogicToUIConfig } from "./ui-config.js";
+
+export type {
+  ExpressionFunctionName,
+  ExpressionBinaryOperator,
+  ExpressionLogicalOperator,
+  ExpressionNode,
+} from "./expression.js";
+
+export {
+  EXPRESSION_FUNCTIONS,
+  ExpressionSyntaxError,
+  isPlainPath,
+  isFormula,
+  expressionSources,
+  parseExpression,
+} from "./expression.js";
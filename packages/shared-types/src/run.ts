@@ -44,6 +44,30 @@ export interface StepError {
   blockName: string;
 }
 
+/**
+ * One try at running a block. Recorded on the step when the block
+ * has a retry or timeout policy, so the timeline can show each attempt.
+ */
+export interface StepAttempt {
+  /** One-based attempt number */
+  attempt: number;
+
+  /** Outcome of this attempt */
+  status: "completed" | "failed";
+
+  /** ISO-8601 timestamp when the attempt began */
+  startedAt: string;
+
+  /** ISO-8601 timestamp when the attempt finished */
+  endedAt: string;
+
+  /** Error message when the attempt failed */
+  error?: string;
+
+  /** Whether the attempt failed by exceeding the block's timeout_ms */
+  timedOut?: boolean;
+}
+
 /**
  * A single block execution within a run.
  * Steps form the granular audit trail — one step per block per iteration.
@@ -106,6 +130,24 @@ export interface Step {
 
   /** Populated only when status is 'failed' */
   error?: StepError;
+
+  /** Every attempt made, when the block has a retry or timeout policy */
+  attempts?: StepAttempt[];
+
+  /**
+   * Set in simulated runs when the block's handler did not run —
+   * 'mock' for a fixture result, 'stub' for a stubbed side effect
+   */
+  simulated?: "mock" | "stub";
+}
+
+/** Debugger settings a run was triggered with */
+export interface RunDebugOptions {
+  /** Block IDs the run pauses before */
+  breakpoints?: string[];
+
+  /** Pause at a block that fails instead of applying its on_error */
+  pauseOnFailure?: boolean;
 }
 
 /**
@@ -144,6 +186,21 @@ export interface Run {
   /** Top-level error message if the run failed */
   errorMessage?: string;
 
+  /** Final workflow state of a completed run (secret values redacted) */
+  output?: Record<string, unknown>;
+
+  /** Run whose `workflow` block started this one */
+  parentRunId?: string;
+
+  /** The `workflow` block in the parent run that made the call */
+  parentBlockId?: string;
+
+  /** How many workflow calls deep this run is — 0 unless called by a workflow block */
+  callDepth?: number;
+
+  /** Set on runs started under the debugger */
+  debug?: RunDebugOptions;
+
   /** Organization that owns this run — for multi-tenant isolation */
   orgId: string;
 
@@ -11,6 +11,54 @@ export type TriggerType =
   | "hook"
   | "vision";
 
+/** How a schedule catches up on fire times missed during downtime */
+export type ScheduleMissedPolicy = "skip" | "fire_once" | "fire_all";
+
+/** HMAC algorithms accepted for inbound hook signatures */
+export type HookSignatureAlgorithm = "sha1" | "sha256" | "sha512";
+
+/** How the hook endpoint answers the sender */
+export type HookResponseMode = "accepted" | "output";
+
+/** Primitive types a JsonSchema can constrain a value to */
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+/**
+ * The JSON Schema subset used for workflow input/output contracts.
+ * Titles, descriptions and defaults are there for generated forms;
+ * the remaining keywords are enforced.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+
+  /* Objects */
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** false rejects undeclared keys; a schema validates them */
+  additionalProperties?: boolean | JsonSchema;
+
+  /* Arrays */
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+
+  /* Strings */
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  /** "email", "uri", "date" and "date-time" are checked; others are hints */
+  format?: string;
+
+  /* Numbers */
+  minimum?: number;
+  maximum?: number;
+}
+
 /**
  * Trigger-specific configuration.
  * Only the fields relevant to the chosen TriggerType need to be populated —
@@ -20,12 +68,44 @@ export interface TriggerConfig {
   /** Cron expression for schedule-triggered workflows (e.g. "0 9 * * MON") */
   schedule_cron?: string;
 
+  /** IANA timezone the cron expression is evaluated in (default "UTC") */
+  schedule_timezone?: string;
+
+  /**
+   * What to do with fire times missed while the scheduler was down:
+   * "skip" drops them, "fire_once" runs once to catch up, "fire_all"
+   * runs once per missed time (default "skip")
+   */
+  schedule_missed?: ScheduleMissedPolicy;
+
   /** Inbound URL that external systems POST to for hook-triggered workflows */
   hook_url?: string;
 
   /** HMAC secret used to verify authenticity of incoming hook payloads */
   hook_secret?: string;
 
+  /** Header carrying the hex HMAC signature, optionally "<algorithm>=" prefixed (default "x-vsync-signature") */
+  hook_signature_header?: string;
+
+  /** HMAC digest algorithm (default "sha256") */
+  hook_algorithm?: HookSignatureAlgorithm;
+
+  /** Header carrying the Unix timestamp (seconds) the sender signed (default "x-vsync-timestamp") */
+  hook_timestamp_header?: string;
+
+  /**
+   * Replay window in seconds (default 300). The signature then covers
+   * "<timestamp>.<body>" and stale timestamps are rejected; 0 signs
+   * the raw body alone with no timestamp check.
+   */
+  hook_tolerance_seconds?: number;
+
+  /**
+   * "accepted" answers 202 as soon as the run is queued; "output"
+   * waits for the run and responds with its output (default "accepted")
+   */
+  hook_response?: HookResponseMode;
+
   /** Model identifier for vision-triggered workflows (e.g. "gpt-4o-vision") */
   vision_model?: string;
 
@@ -33,10 +113,26 @@ export interface TriggerConfig {
   vision_config?: Record<string, unknown>;
 }
 
+/**
+ * How an error-handling group re-runs after a block inside it fails.
+ * The whole group runs again from its first block.
+ */
+export interface GroupRetryPolicy {
+  /** Total attempts, including the first run */
+  maxAttempts: number;
+
+  /** Delay before the first retry, doubled for each later one (default 0) */
+  backoffMs?: number;
+}
+
 /**
  * A named group of contiguous blocks inside a workflow version.
  * Groups let authors collapse/expand sections in the designer
  * and provide logical boundaries for error handling.
+ *
+ * A group with a catch target, retry policy, or finally range is an
+ * error scope: a block failing inside it is retried, then handed to
+ * the catch target with `$error` populated, instead of failing the run.
  */
 export interface BlockGroup {
   /** Unique identifier for this group */
@@ -50,6 +146,19 @@ export interface BlockGroup {
 
   /** ID of the last block in this group — inclusive */
   endBlockId: string;
+
+  /** Block to continue from when a block inside the group fails */
+  catchBlockId?: string;
+
+  /** Re-run the group when a block inside it fails */
+  retry?: GroupRetryPolicy;
+
+  /**
+   * Last block of the finally range — the blocks directly after
+   * `endBlockId`, up to and including this one. They run whether
+   * the group succeeds or fails.
+   */
+  finallyEndBlockId?: string;
 }
 
 /**
@@ -121,6 +230,9 @@ export interface Workflow {
   /** Per-slug rate limit configuration */
   publicRateLimit: PublicRateLimit | null;
 
+  /** Secret path segment of the inbound hook URL (/hooks/:token), set when a hook version is published */
+  hookToken?: string | null;
+
   /** ISO-8601 timestamp of creation */
   createdAt: string;
 
@@ -148,6 +260,18 @@ export interface WorkflowVersion {
   /** Trigger-specific settings (cron, hook URL, vision model, etc.) */
   triggerConfig: TriggerConfig;
 
+  /**
+   * `$state` paths (dotted for nested values) that make up the run's
+   * output. When empty or unset the whole of `$state` is the output.
+   */
+  outputKeys?: string[] | null;
+
+  /** Contract for the trigger payload (`$event`) — checked before a run is queued */
+  inputSchema?: JsonSchema | null;
+
+  /** Contract for the run's output — checked when the run completes */
+  outputSchema?: JsonSchema | null;
+
   /**
    * Target platforms this version is designed to run on.
    * Enables the engine to skip unsupported blocks at plan time.
@@ -12,6 +12,7 @@ import { CodeBlockForm } from "./forms/CodeBlockForm.js";
 import { FetchBlockForm } from "./forms/FetchBlockForm.js";
 import { AgentBlockForm } from "./forms/AgentBlockForm.js";
 import { GotoBlockForm } from "./forms/GotoBlockForm.js";
+import { SwitchBlockForm } from "./forms/SwitchBlockForm.js";
 import { SleepBlockForm } from "./forms/SleepBlockForm.js";
 import { UIFormBlockForm } from "./forms/UIFormBlockForm.js";
 import { UITableBlockForm } from "./forms/UITableBlockForm.js";
@@ -70,6 +71,8 @@ export function BlockForm({ block, onChange, level, onCodeTestRun }: BlockFormPr
     /* ── Flow blocks ─────────────────────────── */
     case "goto":
       return <GotoBlockForm block={block} onChange={onChange} level={level} />;
+    case "switch":
+      return <SwitchBlockForm block={block} onChange={onChange} level={level} />;
     case "sleep":
       return <SleepBlockForm block={block} onChange={onChange} level={level} />;
 
@@ -14,6 +14,7 @@ import {
   Filter,
   Code,
   ArrowRight,
+  Split,
   Clock,
   Radio,
   Camera,
@@ -75,6 +76,7 @@ const allBlocks: PaletteBlockDef[] = [
 
   /* Flow blocks */
   { type: "goto", label: "Go To", description: "Jump to another block", icon: ArrowRight, category: "flow" },
+  { type: "switch", label: "Switch", description: "Branch to the first matching case", icon: Split, category: "flow" },
   { type: "sleep", label: "Wait", description: "Pause execution for a duration", icon: Clock, category: "flow" },
 
   /* Integration blocks */
@@ -0,0 +1,181 @@
+import { useCallback, useMemo, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { cn } from "../../../lib/utils.js";
+import { FormField, FormSection } from "./FormField.js";
+import { useWorkflowStore } from "../../../stores/workflowStore.js";
+import type { DisclosureLevel, WorkflowBlock } from "../../../stores/workflowStore.js";
+
+export interface SwitchBlockFormProps {
+  block: WorkflowBlock;
+  onChange: (logic: Record<string, unknown>) => void;
+  level: DisclosureLevel;
+}
+
+interface SwitchCaseDef {
+  label?: string;
+  conditions: unknown[];
+  target: string;
+}
+
+export function SwitchBlockForm({ block, onChange, level }: SwitchBlockFormProps) {
+  const logic = block.logic;
+  const blocks = useWorkflowStore((s) => s.blocks);
+
+  const update = useCallback(
+    (key: string, value: unknown) => onChange({ [key]: value }),
+    [onChange],
+  );
+
+  const cases = useMemo(
+    () => (logic["switch_cases"] as SwitchCaseDef[] | undefined) ?? [],
+    [logic],
+  );
+
+  const addCase = useCallback(() => {
+    update("switch_cases", [...cases, { label: "", conditions: [], target: "" }]);
+  }, [cases, update]);
+
+  const removeCase = useCallback(
+    (index: number) => {
+      update("switch_cases", cases.filter((_, i) => i !== index));
+    },
+    [cases, update],
+  );
+
+  const updateCase = useCallback(
+    (index: number, patch: Partial<SwitchCaseDef>) => {
+      update("switch_cases", cases.map((c, i) =>
+        i === index ? { ...c, ...patch } : c,
+      ));
+    },
+    [cases, update],
+  );
+
+  /* Targets are block names — the engine jumps by name */
+  const targetOptions = blocks.filter((b) => b.id !== block.id);
+
+  const inputCn = cn(
+    "w-full rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--background))]",
+    "px-3 py-1.5 text-sm font-mono text-[hsl(var(--foreground))]",
+    "placeholder:text-[hsl(var(--muted-foreground))]",
+    "focus:outline-none focus:ring-2 focus:ring-[hsl(var(--ring))]",
+  );
+
+  const targetSelect = (value: string, onSelect: (name: string) => void, emptyLabel: string) => (
+    <select value={value} onChange={(e) => onSelect(e.target.value)} className={cn(inputCn, "text-xs")}>
+      <option value="">{emptyLabel}</option>
+      {targetOptions.map((b) => (
+        <option key={b.id} value={b.name}>
+          {b.name} ({b.type})
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <FormSection title="Cases">
+        <div className="space-y-2">
+          {cases.map((branch, i) => (
+            <div
+              key={i}
+              className="rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--card))] p-2.5"
+            >
+              <div className="mb-2 flex items-center gap-1.5">
+                <span className="flex-1 text-xs font-medium text-[hsl(var(--foreground))]">
+                  Case {i + 1}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeCase(i)}
+                  className="rounded p-0.5 text-[hsl(var(--muted-foreground))] hover:text-[hsl(var(--destructive))]"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  value={branch.label ?? ""}
+                  onChange={(e) => updateCase(i, { label: e.target.value })}
+                  placeholder="Label"
+                  className={cn(inputCn, "text-xs")}
+                />
+                {targetSelect(branch.target, (target) => updateCase(i, { target }), "Jump to…")}
+              </div>
+
+              <ConditionsJsonInput
+                value={branch.conditions}
+                onCommit={(conditions) => updateCase(i, { conditions })}
+                className={cn(inputCn, "mt-2 text-xs")}
+              />
+            </div>
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={addCase}
+          className={cn(
+            "flex w-full items-center justify-center gap-1.5 rounded-md border-2 border-dashed",
+            "border-[hsl(var(--border))] py-2 text-xs font-medium",
+            "text-[hsl(var(--muted-foreground))] hover:border-[hsl(var(--ring))] hover:text-[hsl(var(--foreground))]",
+          )}
+        >
+          <Plus className="h-3.5 w-3.5" /> Add Case
+        </button>
+      </FormSection>
+
+      <FormField label="Default" hint="Where to jump when no case matches" level={level}>
+        {targetSelect(
+          (logic["switch_default"] as string) ?? "",
+          (name) => update("switch_default", name || null),
+          "Continue with the next block",
+        )}
+      </FormField>
+    </div>
+  );
+}
+
+/* ── Conditions editor ───────────────────────────────────────── */
+
+/**
+ * JSON editor for a case's conditions — plain conditions plus
+ * any / all / not groups. Commits on blur, only when the text
+ * parses to an array.
+ */
+function ConditionsJsonInput({
+  value,
+  onCommit,
+  className,
+}: {
+  value: unknown[];
+  onCommit: (conditions: unknown[]) => void;
+  className?: string;
+}) {
+  const [text, setText] = useState(() => JSON.stringify(value, null, 2));
+  const [invalid, setInvalid] = useState(false);
+
+  const commit = useCallback(() => {
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (!Array.isArray(parsed)) throw new Error("not an array");
+      setInvalid(false);
+      onCommit(parsed);
+    } catch {
+      setInvalid(true);
+    }
+  }, [text, onCommit]);
+
+  return (
+    <textarea
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      rows={4}
+      placeholder='[{ "left": "$state.tier", "operator": "==", "right": "gold" }]'
+      className={cn(className, invalid && "border-[hsl(var(--destructive))]")}
+    />
+  );
+}
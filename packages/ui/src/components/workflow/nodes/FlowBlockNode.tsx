@@ -3,7 +3,7 @@ import type { NodeProps } from "@xyflow/react";
 import { GitBranch } from "lucide-react";
 import { BaseNode } from "./base-node.js";
 
-/** Node for flow-control blocks: goto, sleep */
+/** Node for flow-control blocks: goto, switch, sleep */
 export const FlowBlockNode = memo(function FlowBlockNode(props: NodeProps) {
   return (
     <BaseNode
@@ -8,7 +8,7 @@ import type { Node, Edge } from "@xyflow/react";
 export type BlockType =
   | "object" | "string" | "array" | "math" | "date" | "normalize" | "code"
   | "fetch" | "agent"
-  | "goto" | "sleep"
+  | "goto" | "switch" | "sleep"
   | "ui_form" | "ui_camera" | "ui_table" | "ui_details"
   | "image" | "filesystem" | "ftp" | "video" | "location";
 
@@ -31,6 +31,9 @@ export interface WorkflowMeta {
   activeVersion: number;
   triggerType: string;
   triggerConfig?: Record<string, unknown>;
+  /** Input/output contracts of the version being edited */
+  inputSchema?: Record<string, unknown> | null;
+  outputSchema?: Record<string, unknown> | null;
 }
 
 export interface WorkflowEdge {
@@ -177,6 +180,7 @@ function defaultBlockName(type: BlockType): string {
     fetch: "HTTP Request",
     agent: "AI Agent",
     goto: "Go To",
+    switch: "Switch",
     sleep: "Wait",
     ui_form: "Form",
     ui_camera: "Camera",
@@ -342,6 +346,7 @@ export const useWorkflowStore = create<WorkflowStoreState>()(
         const block = s.blocks.find((b) => b.id === id);
         if (block) {
           block.logic = { ...block.logic, ...logic };
+          if (block.type === "switch") syncSwitchEdges(s, block);
           s.isDirty = true;
         }
       });
@@ -668,11 +673,51 @@ export const useWorkflowStore = create<WorkflowStoreState>()(
 
 /* ── Helpers for React Flow edge/node type mapping ────────────── */
 
+/**
+ * Replace a switch block's conditional edges with one per case target
+ * (labelled with the case label) plus the default. Targets are block
+ * names, as the engine resolves them.
+ */
+function syncSwitchEdges(
+  s: Pick<WorkflowStoreState, "blocks" | "edges" | "flowEdges">,
+  block: WorkflowBlock,
+): void {
+  const stale = new Set(
+    s.edges.filter((e) => e.source === block.id && e.type === "conditional").map((e) => e.id),
+  );
+  s.edges = s.edges.filter((e) => !stale.has(e.id));
+  s.flowEdges = s.flowEdges.filter((e) => !stale.has(e.id));
+
+  const cases = Array.isArray(block.logic["switch_cases"])
+    ? (block.logic["switch_cases"] as Array<{ label?: string; target?: string }>)
+    : [];
+  const branches = cases.map((c, i) => ({ target: c.target, label: c.label || `Case ${i + 1}` }));
+  if (typeof block.logic["switch_default"] === "string") {
+    branches.push({ target: block.logic["switch_default"], label: "Default" });
+  }
+
+  for (const branch of branches) {
+    const target = s.blocks.find((b) => b.name === branch.target);
+    if (!target || target.id === block.id) continue;
+
+    const id = makeEdgeId();
+    s.edges.push({ id, source: block.id, target: target.id, type: "conditional", label: branch.label });
+    s.flowEdges.push({
+      id,
+      source: block.id,
+      target: target.id,
+      type: flowEdgeType("conditional"),
+      label: branch.label,
+      style: edgeStyle("conditional"),
+    });
+  }
+}
+
 function nodeTypeForBlock(type: BlockType): string {
   const category: Record<BlockType, string> = {
     object: "data", string: "data", array: "data", math: "data",
     date: "data", normalize: "data", code: "data",
-    goto: "flow", sleep: "flow",
+    goto: "flow", switch: "flow", sleep: "flow",
     fetch: "integration", agent: "integration",
     ui_form: "ui", ui_camera: "ui", ui_table: "ui", ui_details: "ui",
     image: "platform", filesystem: "platform", ftp: "platform",